@@ -3,6 +3,10 @@ const nextConfig = {
   // Enable experimental CSS optimization for smaller bundles
   experimental: {
     optimizeCss: true,
+    // Trade imports are previewed and applied in a single action call (one atomic batch)
+    serverActions: {
+      bodySizeLimit: "10mb",
+    },
   },
   images: {
     remotePatterns: [
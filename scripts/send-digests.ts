@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+
+/**
+ * Script CLI para enviar os resumos (digest) diários/semanais
+ *
+ * Envia para cada usuário com resumo ativo (Configurações → Notificações) os
+ * feedbacks não lidos, novos comentários nos trades, convites pendentes e o
+ * resumo semanal de performance, pelos canais escolhidos (e-mail, webhook).
+ * Rodar de hora em hora (cron); cada usuário só recebe quando o resumo vence.
+ *
+ * Uso:
+ *   npm run send-digests               # Envia os resumos vencidos
+ *   npm run send-digests -- --dry-run  # Monta os resumos sem enviar nem registrar
+ *
+ * Falhas de entrega aparecem no resumo final; o processo só sai com erro
+ * quando a execução em si falha (ex.: banco fora do ar).
+ *
+ * Configuração via variáveis de ambiente:
+ *   DATABASE_URL - Conexão do Prisma
+ *   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM - Canal de e-mail
+ *   NEXT_PUBLIC_APP_URL - URL do app para o link dos resumos (opcional)
+ */
+
+import { createDigestChannels, createMemoryChannel } from "../src/services/notifications/channels";
+import { runDueDigests } from "../src/services/notifications/digestJob";
+
+const dryRun = process.argv.slice(2).includes("--dry-run");
+
+async function main() {
+  console.log("═══════════════════════════════════════════════════");
+  console.log(`📬 Resumos de notificações${dryRun ? " (dry-run)" : ""}`);
+  console.log(`⏰ Início: ${new Date().toISOString()}`);
+  console.log("═══════════════════════════════════════════════════");
+
+  const memory = { email: createMemoryChannel("email"), webhook: createMemoryChannel("webhook") };
+  const channels = dryRun ? memory : createDigestChannels();
+  if (!dryRun && !channels.email) {
+    console.log("⚠️  SMTP não configurado: resumos por e-mail serão ignorados.");
+  }
+
+  try {
+    const summary = await runDueDigests(channels, {
+      appUrl: process.env.NEXT_PUBLIC_APP_URL,
+      dryRun,
+    });
+
+    // O log do Actions é público: só contagens e assuntos, nunca destinatários ou conteúdo
+    if (dryRun) {
+      for (const channel of [memory.email, memory.webhook]) {
+        const subjects = new Map<string, number>();
+        for (const { message } of channel.sent) {
+          subjects.set(message.subject, (subjects.get(message.subject) || 0) + 1);
+        }
+        console.log(`✉️  ${channel.kind}: ${channel.sent.length} resumo(s)`);
+        subjects.forEach((count, subject) => console.log(`   ${count}× ${subject}`));
+      }
+    }
+
+    console.log("───────────────────────────────────────────────────");
+    console.log(`👥 Usuários com resumo: ${summary.checked}`);
+    console.log(`✅ Enviados: ${summary.sent}`);
+    console.log(`⏭️  Ignorados (não vencidos ou sem novidades): ${summary.skipped}`);
+    console.log(`❌ Falhas: ${summary.failed}`);
+    console.log("═══════════════════════════════════════════════════");
+
+    // Falhas de entrega de um usuário (webhook fora do ar, SMTP recusou) não derrubam o cron
+    process.exit(0);
+  } catch (error) {
+    console.error("───────────────────────────────────────────────────");
+    console.error("❌ Erro fatal:", error);
+    console.error("═══════════════════════════════════════════════════");
+    process.exit(1);
+  }
+}
+
+main();
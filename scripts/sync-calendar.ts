@@ -3,22 +3,36 @@
 /**
  * Script CLI para sincronizar calendário econômico do Forex Factory
  *
- * Usa JSON público oficial: https://nfs.faireconomy.media/ff_calendar_thisweek.json
+ * Fonte padrão: scraping do site (Double-Check), com fallback para o JSON público
+ * oficial: https://nfs.faireconomy.media/ff_calendar_thisweek.json
  *
  * Uso:
  *   bun run sync-calendar           # Sincroniza semana atual
  *   bun run sync-calendar --cleanup # Sincroniza e limpa eventos antigos
+ *   bun run sync-calendar --json    # Usa direto o JSON oficial
+ *
+ * Fontes e fixtures (ver calendarSources.service):
+ *   --source=ff-html|ff-json|file   # Fonte fixa, sem fallback
+ *   --file=calendario.ics|.csv      # Calendário enviado pelo usuário
+ *   --record=<dir>                  # Grava os eventos buscados em <dir>
+ *   --fixtures=<dir>                # Reproduz as gravações de <dir> (offline)
+ *   --diff=<dir>                    # Compara com as gravações de <dir> (sem salvar)
+ *   --dry-run                       # Não grava no banco
  *
  * Configuração via variáveis de ambiente:
  *   NEXT_PUBLIC_SUPABASE_URL - URL do Supabase
  *   SUPABASE_SERVICE_ROLE_KEY - Chave de serviço do Supabase
  */
 
-import { syncForexCalendar, DBEvent } from "../src/services/core/forexCalendar.service";
+import { DBEvent } from "../src/services/core/forexCalendar.service";
+import { compareScrapedEvents } from "../src/services/core/forexScraper.service";
 import {
-  scrapeForexFactory,
-  compareScrapedEvents,
-} from "../src/services/core/forexScraper.service";
+  CalendarPeriod,
+  CalendarSource,
+  diffWithCalendarFixture,
+  parseCalendarSourceArgs,
+  resolveCalendarSource,
+} from "../src/services/core/calendarSources.service";
 import {
   upsertEconomicEvents,
   deleteOldEvents,
@@ -29,6 +43,9 @@ import {
 const args = process.argv.slice(2);
 const cleanupArg = args.includes("--cleanup");
 const forceJsonArg = args.includes("--json");
+const sourceOptions = parseCalendarSourceArgs(args);
+
+const CURRENT_WEEK: CalendarPeriod = { type: "week" };
 
 // Helper para mapear impacto do scraper para o banco
 function mapImpact(scrapeImpact: string): "high" | "medium" | "low" {
@@ -44,28 +61,82 @@ function mapImpact(scrapeImpact: string): "high" | "medium" | "low" {
   }
 }
 
+/**
+ * Dois scrapes seguidos precisam coincidir para os dados serem aceitos
+ */
+async function fetchDoubleChecked(source: CalendarSource): Promise<DBEvent[]> {
+  console.log("\n🔄 Iniciando Scraper (Double-Check)...");
+
+  console.log("   [1/2] Primeiro Scrape...");
+  const scrape1 = await source.fetchEvents(CURRENT_WEEK);
+  console.log(`   ✅ Recebidos ${scrape1.length} eventos`);
+
+  console.log("   [2/2] Segundo Scrape (Aguardando 3s)...");
+  await new Promise((r) => setTimeout(r, 3000));
+  const scrape2 = await source.fetchEvents(CURRENT_WEEK);
+  console.log(`   ✅ Recebidos ${scrape2.length} eventos`);
+
+  const { match, diff } = compareScrapedEvents(scrape1, scrape2);
+
+  if (!match || scrape1.length === 0) {
+    console.warn("   ⚠️ Scrapes divergentes ou vazios.");
+    if (diff.length > 0) {
+      console.warn(`   Diferenças: ${diff.length} itens.`);
+    }
+    throw new Error("Divergência técnica no Scraper");
+  }
+
+  console.log("   ✅ Scrapes coincidem! (Dados consistentes)");
+  return scrape1;
+}
+
+/**
+ * Comparar o resultado com a gravação da mesma fonte (Scrape1 = gravação)
+ */
+async function printFixtureDiff(events: DBEvent[], dir: string, source: CalendarSource) {
+  console.log(`\n🔍 Comparando com fixtures de ${dir}...`);
+  const result = await diffWithCalendarFixture(events, dir, source.id, CURRENT_WEEK);
+
+  if (!result) {
+    console.warn(`   ⚠️ Nenhuma gravação de ${source.id} para a semana atual.`);
+    return;
+  }
+
+  console.log(
+    `   Gravação: ${result.stats.scrape1Count} eventos | Atual: ${result.stats.scrape2Count} eventos`
+  );
+  if (result.match) {
+    console.log("   ✅ Sem diferenças.");
+  } else {
+    result.diff.forEach((line) => console.log(`   ${line}`));
+  }
+}
+
 async function main() {
   console.log("═══════════════════════════════════════════════════");
   console.log("📰 Forex Factory Calendar Sync (Scraper + Fallback)");
   console.log("═══════════════════════════════════════════════════");
   console.log(`🧹 Limpeza de eventos antigos: ${cleanupArg ? "Sim" : "Não"}`);
+  if (sourceOptions.fixtures) console.log(`📼 Reproduzindo fixtures de: ${sourceOptions.fixtures}`);
+  if (sourceOptions.record) console.log(`🔴 Gravando fixtures em: ${sourceOptions.record}`);
+  if (sourceOptions.dryRun) console.log("🧪 Dry-run: nada será gravado no banco");
   console.log(`⏰ Iniciado em: ${new Date().toISOString()}`);
   console.log("───────────────────────────────────────────────────");
 
-  // Verificar variáveis de ambiente
-  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
+  // Verificar variáveis de ambiente (dispensáveis sem escrita no banco)
+  if (!sourceOptions.dryRun && !process.env.NEXT_PUBLIC_SUPABASE_URL) {
     console.error("❌ NEXT_PUBLIC_SUPABASE_URL não configurada");
     process.exit(1);
   }
 
-  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+  if (!sourceOptions.dryRun && !process.env.SUPABASE_SERVICE_ROLE_KEY) {
     console.error("❌ SUPABASE_SERVICE_ROLE_KEY não configurada");
     process.exit(1);
   }
 
   try {
     // 1. Limpeza de eventos antigos (opcional)
-    if (cleanupArg) {
+    if (cleanupArg && !sourceOptions.dryRun) {
       console.log("\n🧹 Limpando eventos com mais de 30 dias...");
       const deleted = await deleteOldEvents(30);
       console.log(`   ${deleted} eventos antigos removidos`);
@@ -74,56 +145,41 @@ async function main() {
     let finalEvents: DBEvent[] = [];
     let method = "";
 
-    // 2. Tentar Scraper (a menos que force o JSON)
-    if (!forceJsonArg) {
-      try {
-        console.log("\n🔄 Iniciando Scraper (Double-Check)...");
-
-        console.log("   [1/2] Primeiro Scrape...");
-        const scrape1 = await scrapeForexFactory();
-        console.log(`   ✅ Recebidos ${scrape1.length} eventos`);
-
-        console.log("   [2/2] Segundo Scrape (Aguardando 3s)...");
-        await new Promise((r) => setTimeout(r, 3000));
-        const scrape2 = await scrapeForexFactory();
-        console.log(`   ✅ Recebidos ${scrape2.length} eventos`);
-
-        const { match, diff } = compareScrapedEvents(scrape1, scrape2);
-
-        if (match && scrape1.length > 0) {
-          console.log("   ✅ Scrapes coincidem! (Dados consistentes)");
-          method = "Scraper (Double-Check OK)";
-          finalEvents = scrape1.map((e) => ({
-            date: e.date,
-            time: e.time,
-            currency: e.currency,
-            impact: mapImpact(e.impact),
-            event_name: e.event_name,
-            actual: e.actual,
-            forecast: e.forecast,
-            previous: e.previous,
-          }));
-        } else {
-          console.warn("   ⚠️ Scrapes divergentes ou vazios.");
-          if (diff.length > 0) {
-            console.warn(`   Diferenças: ${diff.length} itens.`);
-          }
-          throw new Error("Divergência técnica no Scraper");
-        }
-      } catch (scraperError) {
-        console.error(
-          "   ❌ Falha no Scraper:",
-          scraperError instanceof Error ? scraperError.message : scraperError
-        );
-        console.log("   🔄 Acionando FALLBACK: JSON oficial...");
+    const source = await resolveCalendarSource(sourceOptions, forceJsonArg ? "ff-json" : "ff-html");
+    // Sem fonte explícita, o JSON oficial é o fallback do scraper
+    const fallback = sourceOptions.source
+      ? null
+      : await resolveCalendarSource({ ...sourceOptions, source: "ff-json" });
+    let usedSource: CalendarSource = source;
+
+    // 2. Fonte principal (o scraping ao vivo passa pelo Double-Check)
+    try {
+      if (source.id === "ff-html" && !sourceOptions.fixtures) {
+        finalEvents = await fetchDoubleChecked(source);
+        method = "Scraper (Double-Check OK)";
+      } else {
+        console.log(`\n📊 Buscando eventos via ${source.label}...`);
+        finalEvents = await source.fetchEvents(CURRENT_WEEK);
+        method = source.label;
       }
+      if (source.id === "ff-html") {
+        finalEvents = finalEvents.map((e) => ({ ...e, impact: mapImpact(e.impact) }));
+      }
+    } catch (sourceError) {
+      console.error(
+        `   ❌ Falha em ${source.label}:`,
+        sourceError instanceof Error ? sourceError.message : sourceError
+      );
+      if (!fallback || fallback.id === source.id) throw sourceError;
+      console.log(`   🔄 Acionando FALLBACK: ${fallback.label}...`);
     }
 
-    // 3. Fallback para JSON (se finalEvents ainda estiver vazio)
-    if (finalEvents.length === 0) {
-      console.log("\n📊 Buscando eventos via JSON oficial...");
-      finalEvents = await syncForexCalendar();
-      method = "JSON Oficial (Fallback)";
+    // 3. Fallback (se finalEvents ainda estiver vazio)
+    if (finalEvents.length === 0 && fallback && fallback.id !== source.id) {
+      console.log(`\n📊 Buscando eventos via ${fallback.label}...`);
+      finalEvents = await fallback.fetchEvents(CURRENT_WEEK);
+      method = `${fallback.label} (Fallback)`;
+      usedSource = fallback;
     }
 
     console.log(`\n📄 Total de eventos processados: ${finalEvents.length}`);
@@ -143,6 +199,17 @@ async function main() {
     console.log(`   🟡 Médio impacto: ${mediumCount}`);
     console.log(`   🟠 Baixo impacto: ${lowCount}`);
 
+    if (sourceOptions.diff) {
+      await printFixtureDiff(finalEvents, sourceOptions.diff, usedSource);
+    }
+
+    if (sourceOptions.dryRun) {
+      console.log("───────────────────────────────────────────────────");
+      console.log("🧪 Dry-run concluído. Nenhum evento gravado.");
+      console.log("═══════════════════════════════════════════════════");
+      process.exit(0);
+    }
+
     // Salvar no banco
     console.log("\n💾 Sincronizando com Supabase (Delete Week + Upsert)...");
 
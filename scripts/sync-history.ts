@@ -1,25 +1,35 @@
 import "dotenv/config";
 import { createClient } from "@supabase/supabase-js";
-import { scrapeForexFactoryMonth } from "../src/services/core/forexScraper.service";
+import {
+  diffWithCalendarFixture,
+  parseCalendarSourceArgs,
+  resolveCalendarSource,
+} from "../src/services/core/calendarSources.service";
 import { startOfYear, addMonths, isBefore, format } from "date-fns";
 
+// Mesmas opções de fonte/fixtures do sync-calendar (--source, --file, --record, --fixtures, --diff, --dry-run)
+const sourceOptions = parseCalendarSourceArgs(process.argv.slice(2));
+
 async function main() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-  if (!supabaseUrl || !supabaseServiceKey) {
+  if (!sourceOptions.dryRun && (!supabaseUrl || !supabaseServiceKey)) {
     console.error("❌ Erro: Variáveis de ambiente SUPABASE ausentes.");
     process.exit(1);
   }
 
-  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
-  });
+  const supabase = sourceOptions.dryRun
+    ? null
+    : createClient(supabaseUrl!, supabaseServiceKey!, {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      });
 
   try {
+    const source = await resolveCalendarSource(sourceOptions);
     const today = new Date();
 
     // De: Inicio do ano atual
@@ -46,10 +56,29 @@ async function main() {
       console.log(`[Sync History] 📅 Processando: ${monthStr}...`);
 
       try {
-        // 1. Scrape do Mês
-        const events = await scrapeForexFactoryMonth(currentIterDate);
+        // 1. Eventos do Mês
+        const period = { type: "month" as const, month: currentIterDate };
+        const events = await source.fetchEvents(period);
+
+        if (sourceOptions.diff) {
+          const result = await diffWithCalendarFixture(
+            events,
+            sourceOptions.diff,
+            source.id,
+            period
+          );
+          console.log(
+            result
+              ? `[Sync History] 🔍 ${monthStr}: ${result.diff.length} diferenças com a gravação`
+              : `[Sync History] ⚠️ Nenhuma gravação de ${source.id} para ${monthStr}`
+          );
+          result?.diff.forEach((line) => console.log(`   ${line}`));
+        }
 
-        if (events.length > 0) {
+        if (events.length > 0 && !supabase) {
+          console.log(`[Sync History] 🧪 Dry-run: ${events.length} eventos de ${monthStr}`);
+          totalStats.totalEvents += events.length;
+        } else if (events.length > 0 && supabase) {
           // 2. Upsert no Banco
           const { error } = await supabase.from("economic_events").upsert(events, {
             onConflict: "date, time, currency, event_name",
@@ -77,7 +106,7 @@ async function main() {
       currentIterDate = addMonths(currentIterDate, 1);
 
       // Delay gentil para não ser bloqueado (5 segundos entre meses)
-      await new Promise((r) => setTimeout(r, 5000));
+      if (!sourceOptions.fixtures) await new Promise((r) => setTimeout(r, 5000));
     }
 
     console.log("\n===========================================");
@@ -3,12 +3,21 @@
  * Este script busca eventos para o mês atual e o próximo mês.
  *
  * Uso: npx tsx scripts/sync-monthly.ts
+ *
+ * Aceita as opções de fonte/fixtures do sync-calendar:
+ *   --source=ff-html|file --file=<ics|csv> --record=<dir> --fixtures=<dir> --diff=<dir> --dry-run
  */
 
 import { createClient } from "@supabase/supabase-js";
-import { scrapeForexFactoryMonth } from "../src/services/core/forexScraper.service";
+import {
+  diffWithCalendarFixture,
+  parseCalendarSourceArgs,
+  resolveCalendarSource,
+} from "../src/services/core/calendarSources.service";
 import { format, addMonths, startOfMonth } from "date-fns";
 
+const sourceOptions = parseCalendarSourceArgs(process.argv.slice(2));
+
 async function main() {
   console.log("═══════════════════════════════════════════════════");
   console.log("📅 Forex Factory Monthly Sync");
@@ -18,12 +27,14 @@ async function main() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 
-  if (!supabaseUrl || !supabaseServiceKey) {
+  if (!sourceOptions.dryRun && (!supabaseUrl || !supabaseServiceKey)) {
     console.error("❌ ERRO: Variáveis de ambiente do Supabase não configuradas.");
     process.exit(1);
   }
 
-  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const supabase = sourceOptions.dryRun ? null : createClient(supabaseUrl, supabaseServiceKey);
+  const source = await resolveCalendarSource(sourceOptions);
+  console.log(`📡 Fonte: ${source.label}${sourceOptions.dryRun ? " (dry-run)" : ""}`);
   const today = new Date();
 
   // Meses para sincronizar: Atual e Próximo
@@ -36,7 +47,20 @@ async function main() {
     console.log(`\n🔍 Processando: ${monthStr}...`);
 
     try {
-      const events = await scrapeForexFactoryMonth(monthDate);
+      const period = { type: "month" as const, month: monthDate };
+      const events = await source.fetchEvents(period);
+
+      if (sourceOptions.diff) {
+        const result = await diffWithCalendarFixture(events, sourceOptions.diff, source.id, period);
+        if (!result) {
+          console.warn(`   ⚠️ Nenhuma gravação de ${source.id} para ${monthStr}`);
+        } else {
+          console.log(
+            `   🔍 Gravação: ${result.stats.scrape1Count} | Atual: ${result.stats.scrape2Count} | Diferenças: ${result.diff.length}`
+          );
+          result.diff.forEach((line) => console.log(`      ${line}`));
+        }
+      }
 
       if (events.length > 0) {
         console.log(`   ✅ Extraído ${events.length} eventos.`);
@@ -53,16 +77,20 @@ async function main() {
           previous: e.previous,
         }));
 
-        const { error } = await supabase.from("economic_events").upsert(dbEvents, {
-          onConflict: "date, time, currency, event_name",
-          ignoreDuplicates: false,
-        });
-
-        if (error) {
-          console.error(`   ❌ Erro ao salvar no Supabase:`, error.message);
+        if (!supabase) {
+          console.log(`   🧪 Dry-run: ${dbEvents.length} eventos não gravados.`);
         } else {
-          console.log(`   💾 ${events.length} eventos sincronizados.`);
-          totalSaved += events.length;
+          const { error } = await supabase.from("economic_events").upsert(dbEvents, {
+            onConflict: "date, time, currency, event_name",
+            ignoreDuplicates: false,
+          });
+
+          if (error) {
+            console.error(`   ❌ Erro ao salvar no Supabase:`, error.message);
+          } else {
+            console.log(`   💾 ${events.length} eventos sincronizados.`);
+            totalSaved += events.length;
+          }
         }
       } else {
         console.warn(`   ⚠️ Nenhum evento encontrado para ${monthStr}`);
@@ -72,7 +100,7 @@ async function main() {
     }
 
     // Esperar um pouco entre os meses para evitar rate limit
-    await new Promise((r) => setTimeout(r, 3000));
+    if (!sourceOptions.fixtures) await new Promise((r) => setTimeout(r, 3000));
   }
 
   console.log("\n───────────────────────────────────────────────────");
@@ -99,4 +99,53 @@ describe("DashboardHeader", () => {
     fireEvent.click(settingsBtns[0]);
     expect(mockProps.onSettingsClick).toHaveBeenCalled();
   });
+
+  it("should render prop firm gauges and timeline when evaluated", () => {
+    render(
+      <DashboardHeader
+        {...mockProps}
+        propFirmEvaluation={{
+          status: "failed",
+          tradingDays: 1,
+          gauges: [
+            {
+              rule: "daily_loss",
+              limit: 500,
+              current: 600,
+              distance: 0,
+              progress: 100,
+              state: "breached",
+            },
+          ],
+          breaches: [],
+          timeline: [
+            {
+              date: "2024-03-01",
+              pnl: -600,
+              balance: 9400,
+              drawdownFloor: 9000,
+              state: "breached",
+              breaches: [
+                {
+                  rule: "daily_loss",
+                  tradeId: "t1",
+                  tradeSymbol: "NQ",
+                  tradeTime: "10:15:00",
+                  date: "2024-03-01",
+                  value: 600,
+                  limit: 500,
+                },
+              ],
+            },
+          ],
+        }}
+      />
+    );
+
+    expect(screen.getByText("Reprovado")).toBeInTheDocument();
+    expect(screen.getByTestId("prop-gauge-daily_loss")).toHaveTextContent("Violada");
+
+    fireEvent.click(screen.getByText("Linha do tempo"));
+    expect(screen.getByText("Perda Diária violada por NQ às 10:15")).toBeInTheDocument();
+  });
 });
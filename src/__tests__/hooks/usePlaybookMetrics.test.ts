@@ -79,4 +79,42 @@ describe("usePlaybookMetrics", () => {
     expect(result.current.nestedMetrics).toEqual([]);
     expect(result.current.hierarchicalMetrics).toEqual([]);
   });
+
+  it("should compare trades that followed and broke each playbook rule", () => {
+    const ruleGroups = [
+      { id: "g1", name: "Entrada", rules: ["Esperar FVG", "Operar a favor do HTF"] },
+    ];
+    const trades = [
+      {
+        ...mockTrades[0],
+        ruleCompliance: { followed: ["Esperar FVG"], broken: ["Operar a favor do HTF"] },
+      },
+      {
+        ...mockTrades[1],
+        ruleCompliance: { followed: ["Operar a favor do HTF"], broken: ["Esperar FVG"] },
+      },
+      {
+        ...mockTrades[1],
+        id: "3",
+        outcome: "pending",
+        ruleCompliance: { followed: ["Esperar FVG"], broken: [] },
+      },
+    ] as Trade[];
+
+    const { result } = renderHook(() => usePlaybookMetrics(trades, undefined, ruleGroups));
+    const [best, worst] = result.current.ruleMetrics;
+
+    expect(best.rule).toBe("Esperar FVG");
+    expect(best.group).toBe("Entrada");
+    expect(best.followed).toMatchObject({ wins: 1, winRate: 100, expectancy: 100, avgRR: 2 });
+    expect(best.broken).toMatchObject({ losses: 1, winRate: 0, expectancy: -50 });
+    expect(worst.rule).toBe("Operar a favor do HTF");
+    expect(worst.followed.expectancy).toBe(-50);
+  });
+
+  it("should skip rules without marked trades", () => {
+    const ruleGroups = [{ id: "g1", name: "Entrada", rules: ["Esperar FVG"] }];
+    const { result } = renderHook(() => usePlaybookMetrics(mockTrades, undefined, ruleGroups));
+    expect(result.current.ruleMetrics).toEqual([]);
+  });
 });
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import { evaluatePropFirmRules, normalizePropFirmRules } from "@/lib/utils/trading";
+import type { PropFirmRules, Trade } from "@/types";
+
+let tradeCounter = 0;
+
+const trade = (date: string, pnl: number, time = "10:00:00"): Trade => ({
+  id: `t${++tradeCounter}`,
+  userId: "user1",
+  accountId: "acc1",
+  symbol: "NQ",
+  type: "Long",
+  entryPrice: 100,
+  stopLoss: 90,
+  takeProfit: 120,
+  lot: 1,
+  entryDate: date,
+  entryTime: time,
+  exitDate: date,
+  exitTime: time,
+  pnl,
+  outcome: pnl > 0 ? "win" : pnl < 0 ? "loss" : "breakeven",
+  createdAt: "",
+  updatedAt: "",
+});
+
+const baseRules: PropFirmRules = {
+  drawdownType: "static",
+  dailyLossPercent: 5,
+  profitTargetPercent: 10,
+  minTradingDays: 2,
+};
+
+describe("evaluatePropFirmRules", () => {
+  it("keeps the challenge active while no rule is met or broken", () => {
+    const result = evaluatePropFirmRules([trade("2024-03-01", 1000)], 100000, 10, baseRules);
+
+    expect(result.status).toBe("active");
+    expect(result.breaches).toHaveLength(0);
+    expect(result.tradingDays).toBe(1);
+
+    const target = result.gauges.find((g) => g.rule === "profit_target");
+    expect(target).toMatchObject({ limit: 10000, current: 1000, distance: 9000, progress: 10 });
+  });
+
+  it("records the trade that broke the daily loss limit", () => {
+    const first = trade("2024-03-01", -3000, "09:30:00");
+    const second = trade("2024-03-01", -2500, "10:15:00");
+
+    const result = evaluatePropFirmRules([second, first], 100000, 10, baseRules);
+
+    expect(result.status).toBe("failed");
+    expect(result.breaches).toEqual([
+      expect.objectContaining({
+        rule: "daily_loss",
+        tradeId: second.id,
+        date: "2024-03-01",
+        value: 5500,
+        limit: 5000,
+      }),
+    ]);
+    expect(result.timeline[0].state).toBe("breached");
+  });
+
+  it("passes once target and minimum days are reached", () => {
+    const result = evaluatePropFirmRules(
+      [trade("2024-03-01", 6000), trade("2024-03-04", 4500)],
+      100000,
+      10,
+      baseRules
+    );
+
+    expect(result.status).toBe("passed");
+    expect(result.passedOn).toBe("2024-03-04");
+    expect(result.timeline.map((day) => day.state)).toEqual(["ok", "passed"]);
+  });
+
+  it("trails the drawdown floor behind the closed balance peak", () => {
+    const rules: PropFirmRules = { drawdownType: "trailing" };
+    // Peak 103k -> floor 99k, breached by the 99k close
+    const result = evaluatePropFirmRules(
+      [trade("2024-03-01", 3000), trade("2024-03-02", -4000)],
+      100000,
+      4,
+      rules
+    );
+
+    expect(result.breaches).toEqual([
+      expect.objectContaining({ rule: "max_drawdown", date: "2024-03-02", limit: 4000 }),
+    ]);
+    expect(result.timeline[1].drawdownFloor).toBe(99000);
+  });
+
+  it("does not breach a static drawdown on the same sequence", () => {
+    const result = evaluatePropFirmRules(
+      [trade("2024-03-01", 3000), trade("2024-03-02", -4000)],
+      100000,
+      4,
+      { drawdownType: "static" }
+    );
+
+    expect(result.breaches).toHaveLength(0);
+    const drawdown = result.gauges.find((g) => g.rule === "max_drawdown");
+    expect(drawdown).toMatchObject({ distance: 3000, current: 1000, state: "ok" });
+  });
+
+  it("only moves an end-of-day trailing floor after the day closes", () => {
+    const result = evaluatePropFirmRules(
+      [trade("2024-03-01", 3000, "09:00:00"), trade("2024-03-01", -4500, "11:00:00")],
+      100000,
+      4,
+      { drawdownType: "eod_trailing" }
+    );
+
+    // Intraday trailing would breach at 98.5k (floor 99k after the 103k peak)
+    expect(result.breaches).toHaveLength(0);
+    expect(result.timeline[0].drawdownFloor).toBe(96000);
+  });
+
+  it("flags consistency when a single day dominates the profit", () => {
+    const result = evaluatePropFirmRules(
+      [trade("2024-03-01", 9000), trade("2024-03-04", 1500)],
+      100000,
+      10,
+      { ...baseRules, consistencyPercent: 50 }
+    );
+
+    expect(result.status).toBe("active");
+    expect(result.passedOn).toBeUndefined();
+    expect(result.breaches).toEqual([
+      expect.objectContaining({ rule: "consistency", date: "2024-03-01", limit: 50 }),
+    ]);
+    expect(result.timeline.map((day) => day.state)).toEqual(["breached", "ok"]);
+  });
+
+  it("ignores pending trades", () => {
+    const pending = { ...trade("2024-03-01", -9000), outcome: "pending" as const };
+    const result = evaluatePropFirmRules([pending], 100000, 10, baseRules);
+
+    expect(result.tradingDays).toBe(0);
+    expect(result.breaches).toHaveLength(0);
+  });
+
+  it("fills the daily loss gauge with today's trades only", () => {
+    const trades = [trade("2024-03-01", -3000), trade("2024-03-04", -1000, "20:00:00")];
+    const dailyLoss = (now: string) =>
+      evaluatePropFirmRules(
+        trades,
+        100000,
+        10,
+        baseRules,
+        "America/Sao_Paulo",
+        new Date(now)
+      ).gauges.find((g) => g.rule === "daily_loss");
+
+    // 23:30 on Mar 4 in São Paulo is already Mar 5 in UTC
+    expect(dailyLoss("2024-03-05T02:30:00Z")).toMatchObject({ current: 1000, distance: 4000 });
+    expect(dailyLoss("2024-03-05T12:00:00Z")).toMatchObject({ current: 0, state: "ok" });
+  });
+});
+
+describe("normalizePropFirmRules", () => {
+  it("should keep valid rules and drop invalid limits", () => {
+    expect(
+      normalizePropFirmRules({
+        drawdownType: "trailing",
+        dailyLossPercent: 5,
+        profitTargetPercent: "10",
+        minTradingDays: -1,
+      })
+    ).toEqual({ drawdownType: "trailing", dailyLossPercent: 5 });
+    expect(normalizePropFirmRules({ drawdownType: "weekly" })).toEqual({ drawdownType: "static" });
+    expect(normalizePropFirmRules(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { inflateRawSync } from "zlib";
+import {
+  columnLetter,
+  crc32,
+  createXlsx,
+  createZip,
+  encodePdfText,
+  PdfDocument,
+  renderReportPdf,
+  renderReportXlsx,
+} from "@/lib/reports";
+import { buildPerformanceReport } from "@/services/analytics/report";
+import { Trade } from "@/types";
+
+/** Reads the entries of an archive produced by createZip (local headers only) */
+function readZip(bytes: Uint8Array): Record<string, string> {
+  const buffer = Buffer.from(bytes);
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const name = buffer.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    entries[name] = inflateRawSync(buffer.subarray(start, start + compressedSize)).toString("utf8");
+    offset = start + compressedSize;
+  }
+  return entries;
+}
+
+const trades = [
+  {
+    id: "1",
+    symbol: "EURUSD",
+    type: "Long",
+    outcome: "win",
+    pnl: 100,
+    entryDate: "2025-01-10",
+    entryTime: "10:00",
+    strategy: "Breakout",
+    tags: "#A",
+  },
+  {
+    id: "2",
+    symbol: "NQ",
+    type: "Short",
+    outcome: "loss",
+    pnl: -40,
+    entryDate: "2025-02-03",
+    entryTime: "14:30",
+  },
+] as unknown as Trade[];
+
+const report = buildPerformanceReport(trades, {
+  accountName: "Conta Ação & Cia",
+  currency: "USD",
+  initialBalance: 1000,
+  startDate: "2025-01-01",
+  endDate: "2025-02-28",
+});
+
+describe("Report writers", () => {
+  describe("zip", () => {
+    it("should compute the standard CRC-32", () => {
+      expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    });
+
+    it("should write entries that inflate back to their content", () => {
+      const zip = createZip([
+        { name: "a.txt", data: "olá" },
+        { name: "dir/b.txt", data: "b".repeat(500) },
+      ]);
+
+      expect(readZip(zip)).toEqual({ "a.txt": "olá", "dir/b.txt": "b".repeat(500) });
+      // End of central directory with 2 entries
+      const end = Buffer.from(zip.subarray(zip.length - 22));
+      expect(end.readUInt32LE(0)).toBe(0x06054b50);
+      expect(end.readUInt16LE(10)).toBe(2);
+    });
+  });
+
+  describe("xlsx", () => {
+    it("should name columns like spreadsheets do", () => {
+      expect([0, 25, 26, 701, 702].map(columnLetter)).toEqual(["A", "Z", "AA", "ZZ", "AAA"]);
+    });
+
+    it("should write one worksheet per sheet with escaped strings and numbers", () => {
+      const files = readZip(
+        createXlsx([
+          {
+            name: "Trades/2025",
+            columns: [{ header: "Ativo" }, { header: "P&L", format: "currency" }],
+            rows: [
+              ["<NQ>", 12.5],
+              ["ES", null],
+            ],
+          },
+        ])
+      );
+
+      expect(files["xl/workbook.xml"]).toContain('<sheet name="Trades 2025"');
+      const sheet = files["xl/worksheets/sheet1.xml"];
+      expect(sheet).toContain("<t>P&amp;L</t>");
+      expect(sheet).toContain("&lt;NQ&gt;");
+      expect(sheet).toContain('<c r="B2" s="2"><v>12.5</v></c>');
+      expect(sheet).not.toContain('r="B3"');
+    });
+  });
+
+  describe("pdf", () => {
+    it("should encode text as WinAnsi and escape delimiters", () => {
+      expect(encodePdfText("Ação (teste)")).toBe("(A\xe7\xe3o \\(teste\\))");
+      expect(encodePdfText("€ ✓")).toBe("(\x80 ?)");
+    });
+
+    it("should write a valid cross-reference table", () => {
+      const pdf = new PdfDocument();
+      pdf.text(40, 40, "Olá");
+      pdf.addPage();
+      const content = Buffer.from(pdf.toBytes()).toString("latin1");
+
+      expect(content.startsWith("%PDF-1.4")).toBe(true);
+      expect(content).toContain("/Count 2");
+      const xrefOffset = Number(content.match(/startxref\n(\d+)/)![1]);
+      expect(content.substring(xrefOffset, xrefOffset + 4)).toBe("xref");
+      const firstObject = Number(content.match(/xref\n0 \d+\n[^\n]+\n(\d{10})/)![1]);
+      expect(content.substring(firstObject, firstObject + 7)).toBe("1 0 obj");
+    });
+  });
+
+  describe("performance report", () => {
+    it("should render the workbook sheets", () => {
+      const files = readZip(renderReportXlsx(report));
+
+      expect(files["xl/workbook.xml"]).toMatch(/Resumo.*Trades.*Mensal.*Estratégias.*Tags/);
+      expect(files["xl/worksheets/sheet1.xml"]).toContain("Conta Ação &amp; Cia");
+      expect(files["xl/worksheets/sheet2.xml"]).toContain('<t xml:space="preserve">NQ</t>');
+      expect(files["xl/worksheets/sheet3.xml"]).toContain("Fevereiro 2025");
+    });
+
+    it("should render the PDF summary", () => {
+      const content = Buffer.from(renderReportPdf(report)).toString("latin1");
+
+      expect(content).toContain("(Relat\xf3rio de Performance)");
+      expect(content).toContain("(Curva de Capital)");
+      expect(content).toContain("(Breakout)");
+    });
+  });
+});
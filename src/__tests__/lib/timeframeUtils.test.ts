@@ -1,6 +1,11 @@
 import { describe, it, expect } from "vitest";
 import {
   detectSession,
+  detectSessionAt,
+  resolveSessionAt,
+  resolveTradeSession,
+  isMarketSession,
+  normalizeSessionSettings,
   classifyTimeframe,
   validateAlignment,
   getRecommendedEntryTF,
@@ -38,6 +43,88 @@ describe("timeframeUtils", () => {
       expect(detectSession("", "", -3)).toBe("Off-Hours");
       expect(detectSession("2024-01-01", "", -3)).toBe("Off-Hours");
     });
+
+    it("should follow New York DST", () => {
+      // 18:30 Brasília = 21:30 UTC: 16:30 EST in January, 17:30 EDT in July
+      expect(detectSession("2024-01-10", "18:30", "America/Sao_Paulo")).toBe("New York");
+      expect(detectSession("2024-07-10", "18:30", "America/Sao_Paulo")).toBe("Sydney");
+    });
+
+    it("should follow London DST", () => {
+      // 04:30 Brasília = 07:30 UTC: 07:30 GMT in January, 08:30 BST in July
+      expect(detectSession("2024-01-10", "04:30", "America/Sao_Paulo")).toBe("Tokyo");
+      expect(detectSession("2024-07-10", "04:30", "America/Sao_Paulo")).toBe("London");
+    });
+
+    it("should default to the Brasília timezone", () => {
+      expect(detectSession("2024-07-10", "04:30")).toBe("London");
+    });
+
+    it("should return Off-Hours for an unknown timezone", () => {
+      expect(detectSession("2024-07-10", "10:00", "Mars/Olympus")).toBe("Off-Hours");
+    });
+
+    it("should detect the session of an instant", () => {
+      expect(detectSessionAt(new Date("2024-07-10T14:00:00Z"))).toBe("London-NY Overlap");
+    });
+  });
+
+  describe("custom sessions", () => {
+    const nyAmKillzone = {
+      name: "NY AM Killzone",
+      timezone: "America/New_York",
+      start: "08:30",
+      end: "11:00",
+    };
+    const asiaKillzone = {
+      name: "Asia Killzone",
+      timezone: "America/New_York",
+      start: "20:00",
+      end: "00:00",
+    };
+    const settings = {
+      timezone: "America/Sao_Paulo",
+      customSessions: [nyAmKillzone, asiaKillzone],
+    };
+
+    it("should prefer a matching custom session, in the session's timezone", () => {
+      // 09:45 Brasília = 08:45 EDT in July, 07:45 EST in January
+      expect(resolveTradeSession("2024-07-10", "09:45", settings)).toBe("NY AM Killzone");
+      expect(resolveTradeSession("2024-01-10", "09:45", settings)).toBe("London");
+    });
+
+    it("should handle custom sessions that cross midnight", () => {
+      // 23:30 Brasília = 21:30 EST
+      expect(resolveTradeSession("2024-01-10", "23:30", settings)).toBe("Asia Killzone");
+      expect(resolveSessionAt(new Date("2024-01-11T05:30:00Z"), [asiaKillzone])).toBe("Tokyo");
+    });
+
+    it("should tell market sessions from custom ones", () => {
+      expect(isMarketSession("London-NY Overlap")).toBe(true);
+      expect(isMarketSession("Sydney")).toBe(true);
+      expect(isMarketSession("NY AM Killzone")).toBe(false);
+      expect(isMarketSession("toString")).toBe(false);
+    });
+
+    it("should drop stored sessions with an unknown timezone or time", () => {
+      const stored = {
+        timezone: "Mars/Olympus",
+        customSessions: [
+          { name: "NY AM", timezone: "America/New_York", start: "09:30", end: "11:00" },
+          { name: "Broken", timezone: "Mars/Olympus", start: "09:30", end: "11:00" },
+          { name: "Late", timezone: "America/New_York", start: "9h", end: "11:00" },
+        ],
+      };
+
+      expect(normalizeSessionSettings(stored)).toEqual({
+        timezone: "America/Sao_Paulo",
+        customSessions: [stored.customSessions[0]],
+      });
+      expect(normalizeSessionSettings(null)).toEqual({
+        timezone: "America/Sao_Paulo",
+        customSessions: [],
+      });
+    });
   });
 
   describe("classifyTimeframe", () => {
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateRMultiple,
+  calculateTradePnL,
+  calculateWeightedPrice,
+  deriveTradeFieldsFromLegs,
+  hasTradeLegs,
+  sortTradeLegs,
+  summarizeTradeLegs,
+} from "@/lib/utils/trading";
+import type { Trade, TradeLeg } from "@/types";
+
+const leg = (overrides: Partial<TradeLeg>): TradeLeg => ({
+  id: overrides.id || `leg-${Math.random()}`,
+  tradeId: "trade-1",
+  side: "entry",
+  price: 100,
+  quantity: 1,
+  executedDate: "2024-03-12",
+  executedTime: "09:30:00",
+  ...overrides,
+});
+
+// Scale-in at 100 and 110, partial exits at 120 and 130
+const scaledLongLegs: TradeLeg[] = [
+  leg({ id: "e1", side: "entry", price: 100, quantity: 1, executedTime: "09:30:00" }),
+  leg({ id: "e2", side: "entry", price: 110, quantity: 1, executedTime: "09:45:00" }),
+  leg({ id: "x1", side: "exit", price: 120, quantity: 1, executedTime: "10:00:00" }),
+  leg({ id: "x2", side: "exit", price: 130, quantity: 1, executedTime: "10:30:00" }),
+];
+
+describe("trade legs", () => {
+  describe("sortTradeLegs", () => {
+    it("orders by time and puts entries before exits at the same instant", () => {
+      const sorted = sortTradeLegs([
+        leg({ id: "x", side: "exit", executedTime: "10:00:00" }),
+        leg({ id: "e", side: "entry", executedTime: "10:00:00" }),
+        leg({ id: "first", side: "entry", executedTime: "09:00:00" }),
+      ]);
+
+      expect(sorted.map((l) => l.id)).toEqual(["first", "e", "x"]);
+    });
+  });
+
+  describe("calculateWeightedPrice", () => {
+    it("weights prices by quantity", () => {
+      const price = calculateWeightedPrice([
+        leg({ price: 100, quantity: 3 }),
+        leg({ price: 120, quantity: 1 }),
+      ]);
+      expect(price).toBe(105);
+    });
+
+    it("returns undefined without quantity", () => {
+      expect(calculateWeightedPrice([])).toBeUndefined();
+    });
+  });
+
+  describe("summarizeTradeLegs", () => {
+    it("summarizes a scaled long position", () => {
+      const summary = summarizeTradeLegs(scaledLongLegs, "Long");
+
+      expect(summary.entryQuantity).toBe(2);
+      expect(summary.exitQuantity).toBe(2);
+      expect(summary.openQuantity).toBe(0);
+      expect(summary.avgEntryPrice).toBe(105);
+      expect(summary.avgExitPrice).toBe(125);
+      // (120 - 105) + (130 - 105) = 40
+      expect(summary.realizedPnL).toBe(40);
+      expect(summary.legPnL).toEqual([
+        { legId: "x1", pnl: 15 },
+        { legId: "x2", pnl: 25 },
+      ]);
+    });
+
+    it("realizes partial exits against the average cost at that moment", () => {
+      const summary = summarizeTradeLegs(
+        [
+          leg({ id: "e1", side: "entry", price: 100, quantity: 2, executedTime: "09:30:00" }),
+          leg({ id: "x1", side: "exit", price: 110, quantity: 1, executedTime: "09:40:00" }),
+          leg({ id: "e2", side: "entry", price: 120, quantity: 1, executedTime: "09:50:00" }),
+          leg({ id: "x2", side: "exit", price: 115, quantity: 2, executedTime: "10:00:00" }),
+        ],
+        "Long"
+      );
+
+      // x1: (110 - 100) * 1 = 10 | remaining avg cost: (100 * 1 + 120 * 1) / 2 = 110
+      // x2: (115 - 110) * 2 = 10
+      expect(summary.legPnL.map((l) => l.pnl)).toEqual([10, 10]);
+      expect(summary.realizedPnL).toBe(20);
+    });
+
+    it("inverts PnL for short positions and applies the multiplier", () => {
+      const summary = summarizeTradeLegs(
+        [
+          leg({ side: "entry", price: 5000, quantity: 2, executedTime: "09:30:00" }),
+          leg({ side: "exit", price: 4990, quantity: 1, executedTime: "09:40:00" }),
+        ],
+        "Short",
+        50
+      );
+
+      expect(summary.realizedPnL).toBe(500);
+      expect(summary.openQuantity).toBe(1);
+    });
+  });
+
+  describe("hasTradeLegs", () => {
+    it("requires at least one entry leg", () => {
+      expect(hasTradeLegs(undefined)).toBe(false);
+      expect(hasTradeLegs([])).toBe(false);
+      expect(hasTradeLegs([leg({ side: "exit" })])).toBe(false);
+      expect(hasTradeLegs(scaledLongLegs)).toBe(true);
+    });
+  });
+
+  describe("deriveTradeFieldsFromLegs", () => {
+    it("derives flat fields of a closed position", () => {
+      const fields = deriveTradeFieldsFromLegs(scaledLongLegs, "Long");
+
+      expect(fields).toMatchObject({
+        entryPrice: 105,
+        exitPrice: 125,
+        lot: 2,
+        entryDate: "2024-03-12",
+        entryTime: "09:30:00",
+        exitDate: "2024-03-12",
+        exitTime: "10:30:00",
+      });
+    });
+
+    it("leaves exit fields empty while the position is open", () => {
+      const fields = deriveTradeFieldsFromLegs(scaledLongLegs.slice(0, 3), "Long");
+
+      expect(fields.lot).toBe(2);
+      expect(fields.exitPrice).toBeUndefined();
+      expect(fields.exitDate).toBeUndefined();
+    });
+  });
+
+  describe("calculations with legs", () => {
+    const trade: Trade = {
+      id: "trade-1",
+      userId: "user1",
+      accountId: "acc1",
+      symbol: "ES",
+      type: "Long",
+      entryPrice: 105,
+      exitPrice: 125,
+      lot: 2,
+      commission: -4,
+      swap: 0,
+      stopLoss: 95,
+      takeProfit: 130,
+      entryDate: "2024-03-12",
+      pnl: 0,
+      outcome: "pending",
+      legs: scaledLongLegs,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    it("calculateTradePnL uses the realized PnL of the legs", () => {
+      // 40 points * 50 - 4 commission
+      expect(calculateTradePnL(trade, 50)).toBe(1996);
+    });
+
+    it("calculateTradePnL returns 0 while no exit leg exists", () => {
+      expect(calculateTradePnL({ ...trade, legs: scaledLongLegs.slice(0, 2) }, 50)).toBe(0);
+    });
+
+    it("calculateRMultiple uses the total risk of the scaled position", () => {
+      // Risk: (105 - 95) * 2 = 20 | Realized: 40
+      expect(calculateRMultiple(105, 125, 95, "Long", scaledLongLegs)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveB3Instrument,
+  resolveContractMultiplier,
+  calculateTradeVolume,
+  calculateB3Fees,
+  calculateBrokerage,
+  normalizeBrokerFeeSettings,
+} from "@/services/analytics/b3Fees";
+import { enrichTradesWithCosts } from "@/services/analytics/tax";
+import { Trade } from "@/types";
+
+const createTrade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: "1",
+  userId: "user1",
+  accountId: "acc1",
+  symbol: "PETR4",
+  type: "Long",
+  entryPrice: 30,
+  stopLoss: 29,
+  takeProfit: 32,
+  lot: 100,
+  entryDate: "2024-03-01",
+  exitDate: "2024-03-01",
+  pnl: 0,
+  outcome: "win",
+  createdAt: "",
+  updatedAt: "",
+  exitPrice: 30,
+  ...overrides,
+});
+
+describe("B3 fee schedule", () => {
+  describe("resolveB3Instrument", () => {
+    it("should resolve futures, cash tickers and non-B3 symbols", () => {
+      expect(resolveB3Instrument("WIN")).toBe("index_future");
+      expect(resolveB3Instrument("winj25")).toBe("index_future");
+      expect(resolveB3Instrument("WDOF26")).toBe("dollar_future");
+      expect(resolveB3Instrument("PETR4")).toBe("stock");
+      expect(resolveB3Instrument("HGLG11")).toBe("stock");
+      expect(resolveB3Instrument("EURUSD")).toBeNull();
+      expect(resolveB3Instrument("NQ")).toBeNull();
+    });
+  });
+
+  describe("resolveContractMultiplier", () => {
+    it("should use the default assets and the futures root", () => {
+      expect(resolveContractMultiplier("WIN")).toBe(0.2);
+      expect(resolveContractMultiplier("WINJ25")).toBe(0.2);
+      expect(resolveContractMultiplier("WDOF26")).toBe(10);
+      expect(resolveContractMultiplier("DOL")).toBe(50);
+      expect(resolveContractMultiplier("PETR4")).toBe(1);
+    });
+
+    it("should prefer the user multipliers", () => {
+      expect(resolveContractMultiplier("WINJ25", { WIN: 1 })).toBe(1);
+      expect(resolveContractMultiplier("WINJ25", { WIN: 1, WINJ25: 0.5 })).toBe(0.5);
+    });
+  });
+
+  describe("calculateTradeVolume", () => {
+    it("should sum entry and exit notional with the multiplier", () => {
+      const trade = createTrade({ entryPrice: 120000, exitPrice: 120500, lot: 2 });
+      expect(calculateTradeVolume(trade, 0.2)).toBe(96200);
+    });
+  });
+
+  describe("calculateB3Fees", () => {
+    it("should apply the first day-trade tier to a mini index trade", () => {
+      const trade = createTrade({
+        symbol: "WINJ25",
+        entryPrice: 120000,
+        exitPrice: 120500,
+        lot: 1,
+      });
+      const fee = calculateB3Fees([trade]).get("1")!;
+
+      expect(fee.instrument).toBe("index_future");
+      expect(fee.volume).toBeCloseTo(48100);
+      expect(fee.emolument).toBeCloseTo(0.481);
+      expect(fee.settlement).toBe(0);
+    });
+
+    it("should apply tiers progressively over the month's day-trade volume", () => {
+      // 3M each: the second trade crosses the 4M tier
+      const trades = [
+        createTrade({ id: "1", lot: 50000, exitTime: "10:00" }),
+        createTrade({ id: "2", lot: 50000, exitTime: "11:00" }),
+      ];
+      const fees = calculateB3Fees(trades);
+
+      expect(fees.get("1")!.emolument).toBeCloseTo(150);
+      expect(fees.get("2")!.emolument).toBeCloseTo(1_000_000 * 0.00005 + 2_000_000 * 0.00004);
+      expect(fees.get("2")!.settlement).toBeCloseTo(540);
+    });
+
+    it("should restart the tiers each month", () => {
+      const trades = [
+        createTrade({ id: "1", lot: 50000 }),
+        createTrade({ id: "2", lot: 50000, entryDate: "2024-04-01", exitDate: "2024-04-01" }),
+      ];
+      const fees = calculateB3Fees(trades);
+
+      expect(fees.get("2")!.emolument).toBeCloseTo(150);
+    });
+
+    it("should use swing-trade rates when the position is held overnight", () => {
+      const trade = createTrade({ exitDate: "2024-03-05", exitPrice: 32 });
+      const fee = calculateB3Fees([trade]).get("1")!;
+
+      expect(fee.volume).toBe(6200);
+      expect(fee.emolument).toBeCloseTo(0.31);
+      expect(fee.settlement).toBeCloseTo(1.55);
+      expect(fee.total).toBeCloseTo(1.86);
+    });
+
+    it("should skip symbols not traded on B3", () => {
+      const fees = calculateB3Fees([createTrade({ symbol: "EURUSD" })]);
+      expect(fees.size).toBe(0);
+    });
+  });
+
+  describe("calculateBrokerage", () => {
+    it("should charge per trade plus per contract", () => {
+      const broker = { name: "Clear", brokeragePerTrade: 1, brokeragePerContract: 0.25, issPct: 5 };
+      expect(calculateBrokerage(createTrade({ lot: 4 }), broker)).toBe(2);
+    });
+  });
+
+  describe("normalizeBrokerFeeSettings", () => {
+    it("should drop unnamed profiles, zero invalid fees and unknown default brokers", () => {
+      expect(
+        normalizeBrokerFeeSettings({
+          brokers: [{ name: "Clear", brokeragePerTrade: "2", issPct: 5 }, { brokeragePerTrade: 1 }],
+          defaultBroker: "XP",
+        })
+      ).toEqual({
+        brokers: [{ name: "Clear", brokeragePerTrade: 0, brokeragePerContract: 0, issPct: 5 }],
+      });
+      expect(normalizeBrokerFeeSettings(null)).toEqual({ brokers: [] });
+    });
+  });
+
+  describe("enrichTradesWithCosts", () => {
+    it("should fill exchange fees from the B3 schedule when enabled", () => {
+      const trade = createTrade({ symbol: "WIN", entryPrice: 120000, exitPrice: 120500, pnl: 100 });
+      const [enriched] = enrichTradesWithCosts([trade], {
+        defaultBrokerageFee: 0,
+        brokerageFeePerContract: 0.5,
+        defaultExchangeFeePct: 0,
+        defaultTaxesPct: 10,
+        autoExchangeFees: true,
+        assetMultipliers: { WIN: 0.2 },
+      });
+
+      expect(enriched.brokerageFee).toBe(50);
+      expect(enriched.taxes).toBe(5);
+      expect(enriched.exchangeFee).toBeCloseTo(48.1);
+      expect(enriched.netResult).toBeCloseTo(100 - 50 - 5 - 48.1);
+    });
+  });
+});
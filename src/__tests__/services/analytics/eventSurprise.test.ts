@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseEventValue,
+  convertEventValue,
+  calculateEventSurprise,
+  buildEventSeries,
+  calculateSeriesTradePerformance,
+} from "@/services/analytics/eventSurprise";
+import type { EconomicEvent } from "@/lib/database/repositories/external/economicEvents.repository";
+import { Trade } from "@/types";
+
+const createEvent = (overrides: Partial<EconomicEvent> = {}): EconomicEvent => ({
+  id: "ev1",
+  date: "2024-03-08",
+  time: "08:30",
+  currency: "USD",
+  impact: "high",
+  event_name: "Non-Farm Employment Change",
+  actual: "275K",
+  forecast: "198K",
+  previous: "229K",
+  ...overrides,
+});
+
+const createTrade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: "1",
+  userId: "user1",
+  accountId: "acc1",
+  symbol: "EURUSD",
+  type: "Long",
+  entryPrice: 1.1,
+  stopLoss: 1.09,
+  takeProfit: 1.12,
+  lot: 1,
+  entryDate: "2024-03-08",
+  entryTime: "10:35",
+  exitDate: "2024-03-08",
+  pnl: 100,
+  outcome: "win",
+  rMultiple: 1,
+  createdAt: "",
+  updatedAt: "",
+  ...overrides,
+});
+
+describe("Economic event surprise", () => {
+  describe("parseEventValue", () => {
+    it("should parse numbers with units", () => {
+      expect(parseEventValue("275K")).toEqual({ value: 275, unit: "K" });
+      expect(parseEventValue("-0.3%")).toEqual({ value: -0.3, unit: "%" });
+      expect(parseEventValue("<0.1%")).toEqual({ value: 0.1, unit: "%" });
+      expect(parseEventValue("$1.5B")).toEqual({ value: 1.5, unit: "B" });
+      expect(parseEventValue("1,234.5")).toEqual({ value: 1234.5, unit: null });
+      expect(parseEventValue("2.1m")).toEqual({ value: 2.1, unit: "M" });
+    });
+
+    it("should return null for empty or non-numeric values", () => {
+      expect(parseEventValue(null)).toBeNull();
+      expect(parseEventValue("")).toBeNull();
+      expect(parseEventValue("Tentative")).toBeNull();
+    });
+
+    it("should convert between units", () => {
+      expect(convertEventValue({ value: 1.2, unit: "M" }, "K")).toBe(1200);
+      expect(convertEventValue({ value: 980, unit: "K" }, "M")).toBe(0.98);
+    });
+  });
+
+  describe("calculateEventSurprise", () => {
+    it("should measure the surprise against the forecast", () => {
+      const surprise = calculateEventSurprise(createEvent());
+
+      expect(surprise).toMatchObject({
+        surprise: 77,
+        surprisePct: 38.89,
+        direction: "above",
+        sentiment: "better",
+        score: null,
+      });
+    });
+
+    it("should compare values with different units", () => {
+      const surprise = calculateEventSurprise(createEvent({ actual: "1.2M", forecast: "980K" }));
+
+      expect(surprise.surprise).toBe(0.22);
+      expect(surprise.direction).toBe("above");
+    });
+
+    it("should treat lower prints as good news for unemployment", () => {
+      const below = calculateEventSurprise(
+        createEvent({ event_name: "Unemployment Rate", actual: "3.6%", forecast: "3.7%" })
+      );
+      const inline = calculateEventSurprise(createEvent({ actual: "3.7%", forecast: "3.7%" }));
+
+      expect(below).toMatchObject({ surprise: -0.1, direction: "below", sentiment: "better" });
+      expect(inline).toMatchObject({ surprise: 0, direction: "inline", sentiment: "neutral" });
+    });
+
+    it("should leave unreleased events without surprise", () => {
+      const surprise = calculateEventSurprise(createEvent({ actual: null }));
+
+      expect(surprise.surprise).toBeNull();
+      expect(surprise.direction).toBeNull();
+      expect(surprise.forecast).toEqual({ value: 198, unit: "K" });
+    });
+
+    it("should score the surprise in standard deviations of previous surprises", () => {
+      const surprise = calculateEventSurprise(createEvent(), [10, -10, 10, -10]);
+
+      expect(surprise.score).toBe(7.7);
+    });
+  });
+
+  describe("buildEventSeries", () => {
+    it("should sort releases and score each one against the earlier ones", () => {
+      const series = buildEventSeries([
+        createEvent({ id: "d", date: "2024-04-05", actual: "303K", forecast: "214K" }),
+        createEvent({ id: "a", date: "2024-01-05", actual: "216K", forecast: "170K" }),
+        createEvent({ id: "b", date: "2024-02-02", actual: "353K", forecast: "187K" }),
+        createEvent({ id: "c", date: "2024-03-08" }),
+        createEvent({ id: "e", date: "2024-05-03", actual: null, forecast: "243K" }),
+      ]);
+
+      expect(series.map((r) => r.event.id)).toEqual(["a", "b", "c", "d", "e"]);
+      expect(series.map((r) => r.surprise.surprise)).toEqual([46, 166, 77, 89, null]);
+      expect(series[2].surprise.score).toBeNull();
+      // Previous surprises 46, 166, 77: standard deviation ~50.9
+      expect(series[3].surprise.score).toBe(1.75);
+    });
+  });
+
+  describe("calculateSeriesTradePerformance", () => {
+    it("should group closed trades around releases by surprise direction", () => {
+      const series = buildEventSeries([
+        createEvent({ id: "mar", date: "2024-03-08" }),
+        createEvent({ id: "apr", date: "2024-04-05", actual: "190K", forecast: "214K" }),
+      ]);
+      const trades = [
+        // 08:30 New York = 10:30 São Paulo (EST) and 09:30 (EDT in April)
+        createTrade({ id: "a" }),
+        createTrade({ id: "b", entryTime: "10:40", pnl: -50, outcome: "loss", rMultiple: -1 }),
+        createTrade({ id: "c", entryDate: "2024-04-05", entryTime: "09:45", pnl: 80 }),
+        createTrade({ id: "far", entryTime: "15:00" }),
+        createTrade({ id: "open", outcome: "pending" }),
+        createTrade({ id: "jpy", symbol: "EURJPY" }),
+      ];
+
+      const performance = calculateSeriesTradePerformance(series, trades);
+
+      expect(performance.overall).toMatchObject({ trades: 3, wins: 2, totalPnL: 130 });
+      expect(performance.byDirection.above).toMatchObject({ trades: 2, winRate: 50, avgR: 0 });
+      expect(performance.byDirection.below).toMatchObject({ trades: 1, totalPnL: 80 });
+      expect(performance.byDirection.inline.trades).toBe(0);
+      expect(performance.releases).toEqual([
+        { date: "2024-03-08", direction: "above", trades: 2, totalPnL: 50 },
+        { date: "2024-04-05", direction: "below", trades: 1, totalPnL: 80 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect } from "vitest";
+import {
+  getSymbolCurrencies,
+  findTradeNewsEvents,
+  annotateTradesWithNews,
+  calculateNewsImpact,
+  findBlackoutEvents,
+  findTradeBlackoutEvents,
+  countBlackoutViolationsByWeek,
+  getBlackoutRule,
+  normalizeNewsSettings,
+} from "@/services/analytics/news";
+import type { EconomicEvent } from "@/lib/database/repositories/external/economicEvents.repository";
+import { DEFAULT_NEWS_BLACKOUT_RULE, DEFAULT_NEWS_SETTINGS, Trade } from "@/types";
+
+const createTrade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: "1",
+  userId: "user1",
+  accountId: "acc1",
+  symbol: "EURUSD",
+  type: "Long",
+  entryPrice: 1.1,
+  stopLoss: 1.09,
+  takeProfit: 1.12,
+  lot: 1,
+  entryDate: "2024-03-08",
+  entryTime: "10:20",
+  exitDate: "2024-03-08",
+  pnl: 0,
+  outcome: "win",
+  createdAt: "",
+  updatedAt: "",
+  exitPrice: 1.11,
+  ...overrides,
+});
+
+const createEvent = (overrides: Partial<EconomicEvent> = {}): EconomicEvent => ({
+  id: "ev1",
+  date: "2024-03-08",
+  time: "08:30",
+  currency: "USD",
+  impact: "high",
+  event_name: "Non-Farm Employment Change",
+  actual: null,
+  forecast: null,
+  previous: null,
+  ...overrides,
+});
+
+describe("News impact analytics", () => {
+  describe("getSymbolCurrencies", () => {
+    it("should resolve FX pairs, indices, futures and crypto", () => {
+      expect(getSymbolCurrencies("EURUSD")).toEqual(["EUR", "USD"]);
+      expect(getSymbolCurrencies("gbp/jpy")).toEqual(["GBP", "JPY"]);
+      expect(getSymbolCurrencies("XAUUSD")).toEqual(["USD"]);
+      expect(getSymbolCurrencies("NQ")).toEqual(["USD"]);
+      expect(getSymbolCurrencies("US30")).toEqual(["USD"]);
+      expect(getSymbolCurrencies("GER40")).toEqual(["EUR"]);
+      expect(getSymbolCurrencies("WDOF25")).toEqual(["BRL", "USD"]);
+      expect(getSymbolCurrencies("WINJ25")).toEqual(["BRL"]);
+      expect(getSymbolCurrencies("BTCUSDT")).toEqual(["USD"]);
+      expect(getSymbolCurrencies("PETR4")).toEqual([]);
+    });
+  });
+
+  describe("findTradeNewsEvents", () => {
+    it("should match events of the symbol currencies inside the window", () => {
+      // 08:30 New York (EST) = 10:30 São Paulo
+      const matches = findTradeNewsEvents(createTrade(), [createEvent()]);
+
+      expect(matches).toEqual([
+        {
+          eventName: "Non-Farm Employment Change",
+          currency: "USD",
+          impact: "high",
+          minutesFromEntry: 10,
+        },
+      ]);
+    });
+
+    it("should ignore events outside the window, of other currencies or untracked impacts", () => {
+      const events = [
+        createEvent({ id: "late", time: "09:30" }),
+        createEvent({ id: "cad", currency: "CAD" }),
+        createEvent({ id: "low", impact: "low" }),
+      ];
+
+      expect(findTradeNewsEvents(createTrade(), events)).toEqual([]);
+    });
+
+    it("should respect a custom window and impacts", () => {
+      const events = [createEvent({ time: "09:30", impact: "low" })];
+      const settings = { minutesBefore: 0, minutesAfter: 90, impacts: ["low" as const] };
+
+      const matches = findTradeNewsEvents(createTrade(), events, settings);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].minutesFromEntry).toBe(70);
+    });
+
+    it("should follow US daylight saving for calendar times", () => {
+      // After the US switch (2024-03-10), 08:30 New York (EDT) = 09:30 São Paulo
+      const trade = createTrade({ entryDate: "2024-03-15", entryTime: "09:35" });
+      const matches = findTradeNewsEvents(trade, [createEvent({ date: "2024-03-15" })]);
+
+      expect(matches[0].minutesFromEntry).toBe(-5);
+    });
+
+    it("should use the trade timezone", () => {
+      const trade = createTrade({ entryTime: "08:25" });
+      const matches = findTradeNewsEvents(
+        trade,
+        [createEvent()],
+        DEFAULT_NEWS_SETTINGS,
+        "America/New_York"
+      );
+
+      expect(matches[0].minutesFromEntry).toBe(5);
+    });
+
+    it("should skip trades without entry time", () => {
+      const trade = createTrade({ entryTime: undefined });
+      expect(findTradeNewsEvents(trade, [createEvent()])).toEqual([]);
+    });
+  });
+
+  describe("annotateTradesWithNews", () => {
+    it("should key news-adjacent trades by id, including events of the previous calendar day", () => {
+      const trades = [
+        createTrade({ id: "nfp" }),
+        createTrade({ id: "quiet", entryTime: "15:00" }),
+        // 19:50 New York = 21:50 São Paulo on the same day
+        createTrade({ id: "jpy", symbol: "USDJPY", entryDate: "2024-03-07", entryTime: "22:00" }),
+      ];
+      const events = [
+        createEvent(),
+        createEvent({
+          id: "gdp",
+          date: "2024-03-07",
+          time: "19:50",
+          currency: "JPY",
+          event_name: "Final GDP q/q",
+        }),
+      ];
+
+      const annotations = annotateTradesWithNews(trades, events);
+
+      expect(Object.keys(annotations).sort()).toEqual(["jpy", "nfp"]);
+      expect(annotations.jpy[0].minutesFromEntry).toBe(-10);
+    });
+  });
+
+  describe("normalizeNewsSettings", () => {
+    it("should fall back to the defaults for missing or invalid stored values", () => {
+      expect(normalizeNewsSettings(null)).toEqual(DEFAULT_NEWS_SETTINGS);
+      expect(
+        normalizeNewsSettings({
+          minutesBefore: 10,
+          minutesAfter: "20",
+          impacts: ["high", "extreme"],
+          blackout: { enabled: false, currencies: ["EUR", 1], minutesBefore: -5 },
+        })
+      ).toEqual({
+        minutesBefore: 10,
+        minutesAfter: DEFAULT_NEWS_SETTINGS.minutesAfter,
+        impacts: ["high"],
+        blackout: {
+          ...DEFAULT_NEWS_BLACKOUT_RULE,
+          enabled: false,
+          currencies: ["EUR"],
+        },
+      });
+    });
+  });
+
+  describe("calculateNewsImpact", () => {
+    it("should compare win rate, R and PnL of news-adjacent trades with the others", () => {
+      const trades = [
+        createTrade({ id: "a", outcome: "win", pnl: 100, rMultiple: 2 }),
+        createTrade({ id: "b", outcome: "loss", pnl: -50, rMultiple: -1 }),
+        createTrade({ id: "c", outcome: "win", pnl: 80, rMultiple: 1.5 }),
+        createTrade({ id: "d", outcome: "pending", pnl: 0 }),
+      ];
+      const annotations = { a: [], b: [] };
+
+      const summary = calculateNewsImpact(trades, annotations);
+
+      expect(summary.news).toEqual({
+        trades: 2,
+        wins: 1,
+        winRate: 50,
+        avgR: 0.5,
+        totalPnL: 50,
+      });
+      expect(summary.others).toEqual({
+        trades: 1,
+        wins: 1,
+        winRate: 100,
+        avgR: 1.5,
+        totalPnL: 80,
+      });
+    });
+
+    it("should compute R from prices when the trade has no stored R", () => {
+      const trades = [createTrade({ id: "a", entryPrice: 100, stopLoss: 95, exitPrice: 110 })];
+
+      const summary = calculateNewsImpact(trades, { a: [] });
+
+      expect(summary.news.avgR).toBe(2);
+      expect(summary.others).toEqual({ trades: 0, wins: 0, winRate: 0, avgR: null, totalPnL: 0 });
+    });
+  });
+
+  describe("blackout rule", () => {
+    it("should fall back to the default rule", () => {
+      expect(getBlackoutRule(DEFAULT_NEWS_SETTINGS)).toEqual(DEFAULT_NEWS_BLACKOUT_RULE);
+      expect(getBlackoutRule()).toEqual(DEFAULT_NEWS_BLACKOUT_RULE);
+    });
+
+    it("should flag instants inside the window around red-folder USD releases", () => {
+      // NFP at 08:30 New York = 13:30 UTC
+      const events = [createEvent(), createEvent({ id: "eur", currency: "EUR" })];
+
+      const before = findBlackoutEvents(new Date("2024-03-08T13:20:00Z"), events);
+      const after = findBlackoutEvents(new Date("2024-03-08T13:44:00Z"), events);
+      const outside = findBlackoutEvents(new Date("2024-03-08T13:50:00Z"), events);
+
+      expect(before).toHaveLength(1);
+      expect(before[0]).toMatchObject({ currency: "USD", minutesFromEntry: 10 });
+      expect(after[0].minutesFromEntry).toBe(-14);
+      expect(outside).toEqual([]);
+    });
+
+    it("should use asymmetric windows relative to the release", () => {
+      const rule = { ...DEFAULT_NEWS_BLACKOUT_RULE, minutesBefore: 5, minutesAfter: 60 };
+
+      expect(findBlackoutEvents(new Date("2024-03-08T13:20:00Z"), [createEvent()], rule)).toEqual(
+        []
+      );
+      expect(
+        findBlackoutEvents(new Date("2024-03-08T14:20:00Z"), [createEvent()], rule)
+      ).toHaveLength(1);
+    });
+
+    it("should use the symbol currencies when the rule has none", () => {
+      const rule = { ...DEFAULT_NEWS_BLACKOUT_RULE, currencies: [] };
+      const events = [createEvent({ currency: "EUR", event_name: "ECB Press Conference" })];
+      const instant = new Date("2024-03-08T13:30:00Z");
+
+      expect(findBlackoutEvents(instant, events, rule, "EURUSD")).toHaveLength(1);
+      expect(findBlackoutEvents(instant, events, rule, "USDJPY")).toEqual([]);
+      expect(findBlackoutEvents(instant, events, rule)).toHaveLength(1);
+    });
+
+    it("should ignore disabled rules", () => {
+      const rule = { ...DEFAULT_NEWS_BLACKOUT_RULE, enabled: false };
+      expect(
+        findTradeBlackoutEvents(createTrade({ entryTime: "10:25" }), [createEvent()], rule)
+      ).toEqual([]);
+    });
+
+    it("should count violations per week starting on Monday", () => {
+      const trades = [
+        createTrade({ id: "a", entryTime: "10:25" }), // Friday, 5 min before NFP
+        createTrade({ id: "b", entryTime: "15:00" }),
+        createTrade({ id: "c", entryDate: "2024-03-11", entryTime: "10:00" }),
+      ];
+
+      expect(countBlackoutViolationsByWeek(trades, [createEvent()])).toEqual([
+        { weekStart: "2024-03-04", trades: 2, violations: 1 },
+        { weekStart: "2024-03-11", trades: 1, violations: 0 },
+      ]);
+    });
+  });
+});
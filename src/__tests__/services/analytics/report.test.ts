@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { calculateReportMetrics, calculateMonthlyMetrics } from "@/services/analytics/report";
+import {
+  calculateReportMetrics,
+  calculateMonthlyMetrics,
+  calculateStrategyMetrics,
+  buildPerformanceReport,
+} from "@/services/analytics/report";
 import { Trade } from "@/types";
 
 describe("Report Analytics Services", () => {
@@ -110,4 +115,72 @@ describe("Report Analytics Services", () => {
       expect(monthlyMetrics).toEqual([]);
     });
   });
+
+  describe("calculateStrategyMetrics", () => {
+    it("should group by strategy and sort by net P&L", () => {
+      const trades = [
+        { ...mockTrades[0], strategy: "Breakout" },
+        { ...mockTrades[1], strategy: "Breakout" },
+        mockTrades[2],
+      ] as Trade[];
+
+      expect(calculateStrategyMetrics(trades)).toEqual([
+        {
+          strategy: "Sem estratégia",
+          totalTrades: 1,
+          wins: 1,
+          losses: 0,
+          winRate: 100,
+          netPnL: 200,
+          avgPnL: 200,
+          profitFactor: 999,
+        },
+        {
+          strategy: "Breakout",
+          totalTrades: 2,
+          wins: 1,
+          losses: 1,
+          winRate: 50,
+          netPnL: 50,
+          avgPnL: 25,
+          profitFactor: 2,
+        },
+      ]);
+    });
+  });
+
+  describe("buildPerformanceReport", () => {
+    const options = {
+      accountName: "FTMO 100k",
+      currency: "USD",
+      initialBalance: 10000,
+      startDate: "2023-10-02",
+      endDate: "2023-11-30",
+    };
+
+    it("should only include trades of the range, starting from the balance before it", () => {
+      const report = buildPerformanceReport(mockTrades, options);
+
+      expect(report.trades.map((t) => t.id)).toEqual(["2", "3"]);
+      expect(report.startBalance).toBe(10100);
+      expect(report.metrics.totalPnL).toBe(150);
+      expect(report.equityCurve).toEqual([
+        { date: "2023-10-02", balance: 10100 },
+        { date: "2023-10-02", balance: 10050 },
+        { date: "2023-11-01", balance: 10250 },
+      ]);
+      expect(report.metrics.maxDrawdown).toBe(50);
+      expect(report.monthly.map((m) => m.month)).toEqual(["Outubro 2023", "Novembro 2023"]);
+    });
+
+    it("should sort trades chronologically regardless of input order", () => {
+      const report = buildPerformanceReport([...mockTrades].reverse(), {
+        ...options,
+        startDate: "2023-01-01",
+      });
+
+      expect(report.trades.map((t) => t.id)).toEqual(["1", "2", "3"]);
+      expect(report.equityCurve.at(-1)?.balance).toBe(10250);
+    });
+  });
 });
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parseForexFactoryHtml } from "../../services/core/forexScraper.service";
+import { parseCalendarCsv, parseCalendarIcs } from "../../services/core/calendarFile.service";
+import {
+  createFileCalendarSource,
+  createFixtureCalendarSource,
+  diffWithCalendarFixture,
+  getPeriodKey,
+  getPeriodRange,
+  parseCalendarSourceArgs,
+  readCalendarFixture,
+  recordCalendarSource,
+  resolveCalendarSource,
+} from "../../services/core/calendarSources.service";
+
+vi.mock("playwright", () => ({ chromium: { launch: vi.fn() } }));
+
+const fixturesDir = path.resolve(__dirname, "../fixtures/calendar");
+const readFixture = (name: string) => fs.readFileSync(path.join(fixturesDir, name), "utf-8");
+
+const recordedDir = path.join(fixturesDir, "recorded");
+const MARCH_2024 = { type: "month" as const, month: new Date(2024, 2, 1) };
+
+describe("Calendar sources", () => {
+  describe("parseForexFactoryHtml", () => {
+    it("extracts events, inheriting date and time from previous rows", () => {
+      const events = parseForexFactoryHtml(readFixture("forexfactory_month.html"), 2024);
+
+      expect(events).toHaveLength(5);
+      expect(events[1]).toEqual({
+        date: "2024-03-08",
+        time: "08:30",
+        currency: "USD",
+        impact: "high",
+        event_name: "Non-Farm Employment Change",
+        actual: "275K",
+        forecast: "198K",
+        previous: "229K",
+      });
+      expect(events[2]).toMatchObject({
+        date: "2024-03-08",
+        time: "08:30",
+        impact: "medium",
+        event_name: "Unemployment Rate",
+      });
+      expect(events[3]).toMatchObject({ time: "13:00", impact: "none", actual: null });
+      expect(events[4]).toMatchObject({ date: "2024-03-29", time: "All Day", currency: "GBP" });
+    });
+  });
+
+  describe("parseCalendarIcs", () => {
+    it("converts start times to New York and reads currency and impact", () => {
+      const events = parseCalendarIcs(readFixture("economic_calendar.ics"));
+
+      expect(events).toEqual([
+        {
+          date: "2024-03-08",
+          time: "08:30",
+          currency: "USD",
+          impact: "high",
+          event_name: "Non-Farm Employment Change",
+          actual: "275K",
+          forecast: "198K",
+          previous: "229K",
+        },
+        {
+          // 14:15 Berlin (CET) = 08:15 New York (EST)
+          date: "2024-03-07",
+          time: "08:15",
+          currency: "EUR",
+          impact: "high",
+          event_name: "Main Refinancing Rate",
+          actual: null,
+          forecast: "4.50%, unchanged",
+          previous: null,
+        },
+        {
+          date: "2024-03-29",
+          time: "All Day",
+          currency: "GBP",
+          impact: "none",
+          event_name: "Bank Holiday",
+          actual: null,
+          forecast: null,
+          previous: null,
+        },
+      ]);
+    });
+  });
+
+  describe("parseCalendarCsv", () => {
+    it("normalizes times, impacts and currencies and skips invalid rows", () => {
+      const events = parseCalendarCsv(readFixture("economic_calendar.csv"));
+
+      expect(events.map((e) => [e.date, e.time, e.currency, e.impact])).toEqual([
+        ["2024-03-08", "08:30", "USD", "high"],
+        ["2024-03-08", "08:30", "USD", "medium"],
+        ["2024-03-12", "All Day", "JPY", "low"],
+        ["2024-03-14", "14:00", "USD", "medium"],
+      ]);
+      expect(events[2].actual).toBeNull();
+      expect(events[3].event_name).toBe("Retail Sales m/m, adjusted");
+    });
+  });
+
+  describe("file source", () => {
+    it("returns only the file events inside the requested period", async () => {
+      const source = createFileCalendarSource(readFixture("economic_calendar.csv"), "csv");
+
+      expect(await source.fetchEvents(MARCH_2024)).toHaveLength(4);
+      expect(await source.fetchEvents({ type: "month", month: new Date(2024, 3, 1) })).toHaveLength(
+        0
+      );
+    });
+  });
+
+  describe("periods", () => {
+    it("covers Sunday to Saturday for the week and the whole month", () => {
+      expect(getPeriodRange({ type: "week" }, new Date(2024, 2, 13))).toEqual({
+        start: "2024-03-10",
+        end: "2024-03-16",
+      });
+      expect(getPeriodRange(MARCH_2024)).toEqual({ start: "2024-03-01", end: "2024-03-31" });
+      expect(getPeriodKey({ type: "week" })).toBe("week");
+      expect(getPeriodKey(MARCH_2024)).toBe("month-2024-03");
+    });
+  });
+
+  describe("fixtures", () => {
+    const tempDirs: string[] = [];
+
+    afterEach(() => {
+      tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+      tempDirs.length = 0;
+    });
+
+    it("replays recorded events offline", async () => {
+      const source = createFixtureCalendarSource(recordedDir, "ff-html");
+
+      const events = await source.fetchEvents(MARCH_2024);
+
+      expect(events).toEqual(parseForexFactoryHtml(readFixture("forexfactory_month.html"), 2024));
+      await expect(source.fetchEvents({ type: "week" })).rejects.toThrow("Fixture não encontrada");
+    });
+
+    it("records what the wrapped source returns", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "calendar-fixtures-"));
+      tempDirs.push(dir);
+      const source = recordCalendarSource(
+        createFileCalendarSource(readFixture("economic_calendar.ics"), "ics"),
+        dir
+      );
+
+      const events = await source.fetchEvents(MARCH_2024);
+      const fixture = await readCalendarFixture(dir, "file", MARCH_2024);
+
+      expect(fs.existsSync(path.join(dir, "file.month-2024-03.json"))).toBe(true);
+      expect(fixture).toMatchObject({ source: "file", period: "month-2024-03", events });
+    });
+
+    it("diffs fetched events against the recording", async () => {
+      const events = parseForexFactoryHtml(readFixture("forexfactory_month.html"), 2024);
+
+      const same = await diffWithCalendarFixture(events, recordedDir, "ff-html", MARCH_2024);
+      const changed = await diffWithCalendarFixture(
+        events.slice(1),
+        recordedDir,
+        "ff-html",
+        MARCH_2024
+      );
+      const missing = await diffWithCalendarFixture(events, recordedDir, "ff-json", MARCH_2024);
+
+      expect(same?.match).toBe(true);
+      expect(changed?.match).toBe(false);
+      expect(changed?.diff).toEqual([
+        "[Apenas Scrape1] 2024-03-07|08:15|EUR|Main Refinancing Rate",
+      ]);
+      expect(missing).toBeNull();
+    });
+  });
+
+  describe("CLI options", () => {
+    it("parses source, file and fixture flags", () => {
+      expect(parseCalendarSourceArgs(["--cleanup"])).toEqual({
+        source: undefined,
+        file: undefined,
+        fixtures: undefined,
+        record: undefined,
+        diff: undefined,
+        dryRun: false,
+      });
+      expect(parseCalendarSourceArgs(["--file=cal.ics", "--record=out"])).toMatchObject({
+        source: "file",
+        file: "cal.ics",
+        record: "out",
+      });
+      expect(parseCalendarSourceArgs(["--diff=recorded"])).toMatchObject({ dryRun: true });
+      expect(() => parseCalendarSourceArgs(["--source=bloomberg"])).toThrow("Fonte desconhecida");
+    });
+
+    it("resolves file and fixture sources", async () => {
+      const file = await resolveCalendarSource({
+        file: path.join(fixturesDir, "economic_calendar.ics"),
+        source: "file",
+        dryRun: true,
+      });
+      const fixture = await resolveCalendarSource({ fixtures: recordedDir, dryRun: true });
+
+      expect(file.id).toBe("file");
+      expect(await file.fetchEvents(MARCH_2024)).toHaveLength(3);
+      expect(fixture).toMatchObject({ id: "ff-html", label: "Fixture (ff-html)" });
+    });
+  });
+});
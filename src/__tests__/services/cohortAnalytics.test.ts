@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCohortAnalytics,
+  computeCohortMetrics,
+  getCohortWindows,
+  getDeterioratingMetrics,
+  type CohortMetrics,
+} from "../../services/mentor";
+import type { CohortTrade } from "@/types";
+
+const trade = (entryDate: string, overrides: Partial<CohortTrade> = {}): CohortTrade => ({
+  entryDate,
+  pnl: 100,
+  outcome: "win",
+  rMultiple: 1,
+  planAdherence: "100%",
+  ...overrides,
+});
+
+const metrics = (overrides: Partial<CohortMetrics> = {}): CohortMetrics => ({
+  tradeCount: 10,
+  winRate: 50,
+  expectancy: 20,
+  expectancyR: 0.5,
+  rDistribution: [0, 0, 5, 0, 5, 0],
+  planAdherence: 80,
+  ruleCompliance: 90,
+  journalingConsistency: 100,
+  ...overrides,
+});
+
+describe("getCohortWindows", () => {
+  it("should split the days into the period and the one before it", () => {
+    expect(getCohortWindows(30, "2026-10-19")).toEqual({
+      current: { from: "2026-09-20", to: "2026-10-19" },
+      previous: { from: "2026-08-21", to: "2026-09-19" },
+    });
+  });
+});
+
+describe("computeCohortMetrics", () => {
+  it("should compute the metrics of the closed trades", () => {
+    const result = computeCohortMetrics(
+      [
+        trade("2026-10-01", {
+          rMultiple: 2.5,
+          ruleCompliance: { followed: ["a", "b"], broken: [] },
+        }),
+        trade("2026-10-01", {
+          pnl: -50,
+          outcome: "loss",
+          rMultiple: -1,
+          planAdherence: "off-plan",
+          ruleCompliance: { followed: ["a"], broken: ["b"] },
+        }),
+        trade("2026-10-02", {
+          pnl: 0,
+          outcome: "breakeven",
+          rMultiple: undefined,
+          planAdherence: undefined,
+        }),
+        trade("2026-10-03", { outcome: "pending" }),
+      ],
+      ["2026-10-01", "2026-10-05"]
+    );
+
+    expect(result).toEqual({
+      tradeCount: 3,
+      winRate: 33,
+      expectancy: 16.67,
+      expectancyR: 0.75,
+      rDistribution: [0, 0, 1, 0, 0, 1],
+      planAdherence: 50,
+      ruleCompliance: 75,
+      journalingConsistency: 50,
+    });
+  });
+
+  it("should leave metrics without data empty", () => {
+    const result = computeCohortMetrics([], []);
+
+    expect(result.tradeCount).toBe(0);
+    expect(result.expectancyR).toBeNull();
+    expect(result.journalingConsistency).toBeNull();
+    expect(result.rDistribution).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe("getDeterioratingMetrics", () => {
+  it("should flag drops beyond the threshold", () => {
+    expect(
+      getDeterioratingMetrics(
+        metrics({ expectancyR: 0.1, planAdherence: 70, journalingConsistency: 60 }),
+        metrics()
+      )
+    ).toEqual(["expectancyR", "journalingConsistency"]);
+  });
+
+  it("should not compare periods with too few trades or missing metrics", () => {
+    expect(getDeterioratingMetrics(metrics({ tradeCount: 3, expectancyR: -1 }), metrics())).toEqual(
+      []
+    );
+    expect(getDeterioratingMetrics(metrics({ ruleCompliance: null }), metrics())).toEqual([]);
+  });
+});
+
+describe("buildCohortAnalytics", () => {
+  it("should put deteriorating mentees first", () => {
+    const steady = Array.from({ length: 5 }, (_, i) => trade(`2026-08-2${i + 1}`));
+    const result = buildCohortAnalytics(
+      [
+        {
+          menteeId: "a",
+          menteeName: "Ana",
+          trades: [
+            ...steady,
+            ...steady.map((t) => ({ ...t, entryDate: `2026-10-0${t.entryDate.slice(-1)}` })),
+          ],
+          journalDates: [],
+        },
+        {
+          menteeId: "b",
+          menteeName: "Bruno",
+          trades: [
+            ...steady,
+            ...steady.map((t) => ({
+              ...t,
+              entryDate: "2026-10-10",
+              rMultiple: -1,
+              outcome: "loss" as const,
+            })),
+          ],
+          journalDates: [],
+        },
+      ],
+      30,
+      "2026-10-19"
+    );
+
+    expect(result.mentees.map((m) => m.menteeName)).toEqual(["Bruno", "Ana"]);
+    expect(result.mentees[0].deteriorating).toEqual(["expectancyR"]);
+    expect(result.mentees[1].lastTradeDate).toBe("2026-10-05");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import {
+  detectCTraderColumns,
+  detectCTraderTimezone,
+  parseCTraderContent,
+  parseCTraderDateTime,
+  parseCTraderNumber,
+} from "../../services/trades/ctraderParser";
+import { detectColumnMapping, transformTrades } from "../../services/trades/importParsers";
+
+const content = fs.readFileSync(
+  path.resolve(__dirname, "../fixtures/import/ctrader_history.csv"),
+  "utf-8"
+);
+
+describe("cTrader History Parser", () => {
+  describe("value parsers", () => {
+    it("parses quantities and money", () => {
+      expect(parseCTraderNumber("0.50 Lots")).toBe(0.5);
+      expect(parseCTraderNumber("1,234.56")).toBe(1234.56);
+      expect(parseCTraderNumber("-12,50")).toBe(-12.5);
+      expect(parseCTraderNumber("")).toBe(0);
+    });
+
+    it("parses cTrader timestamps", () => {
+      expect(parseCTraderDateTime("13/01/2025 14:20:45.456")).toBe("2025-01-13 14:20:45");
+      expect(parseCTraderDateTime("2025-01-13 14:20:45")).toBe("2025-01-13 14:20:45");
+      expect(parseCTraderDateTime("not a date")).toBeNull();
+    });
+
+    it("derives the timezone from the time column header", () => {
+      expect(detectCTraderTimezone("Opening Time (UTC+2)")).toBe("Etc/GMT-2");
+      expect(detectCTraderTimezone("Closing Time (UTC-5)")).toBe("Etc/GMT+5");
+      expect(detectCTraderTimezone("Closing Time (UTC+0)")).toBe("Etc/UTC");
+      expect(detectCTraderTimezone("Closing Time (UTC+5:30)")).toBeUndefined();
+      expect(detectCTraderTimezone("Closing Time")).toBeUndefined();
+    });
+  });
+
+  it("detects columns regardless of currency and timezone suffixes", () => {
+    const columns = detectCTraderColumns([
+      "ID",
+      "Symbol",
+      "Direction",
+      "Open Time (UTC+0)",
+      "Close Time (UTC+0)",
+      "Volume",
+      "Net (EUR)",
+    ]);
+
+    expect(columns).toMatchObject({
+      positionId: "ID",
+      direction: "Direction",
+      openTime: "Open Time (UTC+0)",
+      quantity: "Volume",
+      net: "Net (EUR)",
+      gross: "",
+    });
+  });
+
+  it("converts the history export to standard rows", () => {
+    const result = parseCTraderContent(content);
+
+    expect(result.data).toHaveLength(3);
+    expect(result.data[1]).toEqual({
+      "Open Time": "2025-01-14 09:00:00",
+      "Close Time": "2025-01-15 16:30:10",
+      Symbol: "XAUUSD",
+      Type: "Sell",
+      Volume: "0.1",
+      "Open Price": "2675.4",
+      "Close Price": "2680.9",
+      Profit: "-55",
+      Commission: "-0.7",
+      Swap: "-1.25",
+      Currency: "USD",
+      "Position ID": "12345690",
+    });
+    expect(result.totalNetProfit).toBe(68.55);
+    expect(result.timezone).toBe("Etc/GMT-2");
+    expect(result.currencies).toEqual(["USD"]);
+  });
+
+  it("derives gross profit from Net when the export has no Gross column", () => {
+    const result = parseCTraderContent(
+      "Symbol,Opening Direction,Opening Time,Closing Time,Closing Quantity,Commissions,Swap,Net EUR\n" +
+        "GER40,Sell,2025-01-20 09:00:00,2025-01-20 09:30:00,1.00 Lots,-2.00,0.00,48.00\n"
+    );
+
+    expect(result.data[0]).toMatchObject({ Profit: "50", Commission: "-2", Currency: "EUR" });
+    expect(result.totalNetProfit).toBe(48);
+    expect(result.timezone).toBeUndefined();
+  });
+
+  it("feeds the standard import pipeline with commission and swap", () => {
+    const { data, timezone } = parseCTraderContent(content);
+    const mapping = detectColumnMapping(Object.keys(data[0]));
+    const trades = transformTrades(data, mapping, null, timezone ?? "", "acc-1");
+
+    expect(trades).toHaveLength(3);
+    expect(trades[1]).toMatchObject({
+      symbol: "XAUUSD",
+      type: "Short",
+      commission: -0.7,
+      swap: -1.25,
+      pnl: -56.95,
+      outcome: "loss",
+    });
+  });
+
+  it("rejects files that are not cTrader history exports", () => {
+    expect(() => parseCTraderContent("Foo,Bar\n1,2\n")).toThrow("cTrader");
+  });
+});
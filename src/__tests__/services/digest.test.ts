@@ -0,0 +1,333 @@
+import { describe, it, expect, vi } from "vitest";
+import net from "node:net";
+import {
+  buildDigestMessage,
+  getDigestPeriodStart,
+  hasDigestContent,
+  isDigestDue,
+  isValidWebhookUrl,
+  normalizeDigestSettings,
+  shouldIncludeWeeklySummary,
+  type DigestContent,
+} from "../../services/notifications/digest";
+import {
+  createMemoryChannel,
+  createSmtpChannel,
+  createWebhookChannel,
+  deliverDigest,
+  getSmtpConfig,
+  isPublicAddress,
+  type WebhookTransport,
+} from "../../services/notifications/channels";
+import { buildMimeMessage, sendSmtpMail } from "../../services/notifications/smtp";
+import type { MentorInvite, MentorReview, TradeComment } from "../../types";
+
+// Monday
+const now = new Date("2026-10-19T08:00:00Z");
+
+const review = (overrides: Partial<MentorReview> = {}): MentorReview => ({
+  id: "review-1",
+  mentorId: "mentor-1",
+  menteeId: "user-1",
+  reviewType: "correction",
+  content: "Stop muito curto",
+  isRead: false,
+  status: "open",
+  createdAt: "2026-10-18T10:00:00Z",
+  updatedAt: "2026-10-18T10:00:00Z",
+  ...overrides,
+});
+
+const comment = (overrides: Partial<TradeComment> = {}): TradeComment => ({
+  id: "comment-1",
+  tradeId: "trade-1",
+  userId: "mentor-1",
+  userName: "ana",
+  content: "Boa entrada",
+  createdAt: "2026-10-18T12:00:00Z",
+  updatedAt: "2026-10-18T12:00:00Z",
+  ...overrides,
+});
+
+const content = (overrides: Partial<DigestContent> = {}): DigestContent => ({
+  reviews: [],
+  comments: [],
+  invites: [],
+  ...overrides,
+});
+
+const message = () =>
+  buildDigestMessage(content({ reviews: [review()] }), {
+    frequency: "daily",
+    periodStart: new Date("2026-10-18T08:00:00Z"),
+    now,
+  });
+
+describe("normalizeDigestSettings", () => {
+  it("should turn off unknown frequencies and drop unknown channels", () => {
+    expect(
+      normalizeDigestSettings({ frequency: "hourly", channels: ["webhook", "sms"], webhookUrl: 1 })
+    ).toEqual({ frequency: "off", channels: ["webhook"] });
+    expect(normalizeDigestSettings(null)).toEqual({ frequency: "off", channels: ["email"] });
+  });
+});
+
+describe("isDigestDue", () => {
+  const daily = { frequency: "daily" as const, channels: ["email" as const] };
+
+  it("should send the first digest right away", () => {
+    expect(isDigestDue(daily, undefined, now)).toBe(true);
+  });
+
+  it("should wait for the interval, with an hour of grace", () => {
+    expect(isDigestDue(daily, "2026-10-18T12:00:00Z", now)).toBe(false);
+    expect(isDigestDue(daily, "2026-10-18T08:30:00Z", now)).toBe(true);
+    expect(isDigestDue({ ...daily, frequency: "weekly" }, "2026-10-18T08:00:00Z", now)).toBe(false);
+  });
+
+  it("should never be due when off or without channels", () => {
+    expect(isDigestDue({ ...daily, frequency: "off" }, undefined, now)).toBe(false);
+    expect(isDigestDue({ ...daily, channels: [] }, undefined, now)).toBe(false);
+  });
+});
+
+describe("getDigestPeriodStart", () => {
+  it("should start at the last delivery, or one interval ago", () => {
+    expect(getDigestPeriodStart("daily", "2026-10-18T07:00:00Z", now).toISOString()).toBe(
+      "2026-10-18T07:00:00.000Z"
+    );
+    expect(getDigestPeriodStart("weekly", undefined, now).toISOString()).toBe(
+      "2026-10-12T08:00:00.000Z"
+    );
+  });
+});
+
+describe("shouldIncludeWeeklySummary", () => {
+  it("should include the summary in weekly digests and Monday's daily digest", () => {
+    expect(shouldIncludeWeeklySummary("weekly", new Date("2026-10-21T08:00:00Z"))).toBe(true);
+    expect(shouldIncludeWeeklySummary("daily", now)).toBe(true);
+    expect(shouldIncludeWeeklySummary("daily", new Date("2026-10-21T08:00:00Z"))).toBe(false);
+  });
+});
+
+describe("isValidWebhookUrl", () => {
+  it("should only accept public https URLs", () => {
+    expect(isValidWebhookUrl("https://hooks.example.com/journal")).toBe(true);
+    expect(isValidWebhookUrl("http://hooks.example.com/journal")).toBe(false);
+    expect(isValidWebhookUrl("https://localhost:3000/hook")).toBe(false);
+    expect(isValidWebhookUrl("https://192.168.0.10/hook")).toBe(false);
+    expect(isValidWebhookUrl("https://0.0.0.0/hook")).toBe(false);
+    expect(isValidWebhookUrl("https://[::ffff:10.0.0.1]/hook")).toBe(false);
+    expect(isValidWebhookUrl("https://[fd00::1]/hook")).toBe(false);
+    expect(isValidWebhookUrl("not a url")).toBe(false);
+  });
+});
+
+describe("isPublicAddress", () => {
+  it("should refuse private, loopback and link-local addresses", () => {
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("2606:4700::1111")).toBe(true);
+    expect(isPublicAddress("0.0.0.0")).toBe(false);
+    expect(isPublicAddress("169.254.169.254")).toBe(false);
+    expect(isPublicAddress("fd12:3456::1")).toBe(false);
+    expect(isPublicAddress("::ffff:10.1.2.3")).toBe(false);
+    expect(isPublicAddress("not an ip")).toBe(false);
+  });
+});
+
+describe("buildDigestMessage", () => {
+  it("should have no content without news or trades", () => {
+    expect(hasDigestContent(content())).toBe(false);
+    expect(
+      hasDigestContent(
+        content({
+          weeklySummaries: [
+            {
+              currency: "USD",
+              totalTrades: 0,
+              winRate: 0,
+              profitFactor: 0,
+              totalPnL: 0,
+              bestTrade: 0,
+              worstTrade: 0,
+            },
+          ],
+        })
+      )
+    ).toBe(false);
+  });
+
+  it("should summarize each currency on its own", () => {
+    const summary = (currency: string, totalPnL: number) => ({
+      currency,
+      totalTrades: 2,
+      winRate: 50,
+      profitFactor: 2,
+      totalPnL,
+      bestTrade: totalPnL,
+      worstTrade: 0,
+    });
+    const result = buildDigestMessage(
+      content({ weeklySummaries: [summary("BRL", 500), summary("USD", 100)] }),
+      { frequency: "weekly", periodStart: new Date("2026-10-12T08:00:00Z"), now }
+    );
+
+    expect(result.text).toContain("📊 Resumo da semana (BRL)\n- Trades: 2");
+    expect(result.text).toContain("Resultado: BRL 500,00");
+    expect(result.text).toContain("Resultado: USD 100,00");
+    expect(result.payload.weeklySummaries).toHaveLength(2);
+  });
+
+  it("should list the items, cut long lists and count them in the payload", () => {
+    const comments = Array.from({ length: 7 }, (_, i) => comment({ id: `comment-${i}` }));
+    const result = buildDigestMessage(
+      content({
+        reviews: [review()],
+        comments,
+        invites: [{ mentorEmail: "mentor@example.com" } as MentorInvite],
+      }),
+      { frequency: "daily", periodStart: new Date("2026-10-18T08:00:00Z"), now }
+    );
+
+    expect(result.subject).toBe("Seu resumo diário do Trading Journal");
+    expect(result.text).toContain("Correção: Stop muito curto");
+    expect(result.text).toContain("e mais 2");
+    expect(result.text).toContain("mentor@example.com");
+    expect(result.payload).toMatchObject({ unreadReviews: 1, newComments: 7, pendingInvites: 1 });
+  });
+
+  it("should escape user content in the HTML", () => {
+    const result = buildDigestMessage(content({ comments: [comment({ content: "<b>x</b>" })] }), {
+      frequency: "weekly",
+      periodStart: new Date("2026-10-12T08:00:00Z"),
+      now,
+      appUrl: "https://journal.example.com/",
+    });
+
+    expect(result.html).toContain("&lt;b&gt;x&lt;/b&gt;");
+    expect(result.html).not.toContain("<b>x</b>");
+    expect(result.payload.link).toBe("https://journal.example.com/dashboard");
+  });
+});
+
+describe("deliverDigest", () => {
+  const recipient = { userId: "user-1", email: "user@example.com" };
+
+  it("should deliver through the memory channel", async () => {
+    const memory = createMemoryChannel();
+
+    const channels = { email: memory };
+
+    const results = await deliverDigest(message(), recipient, { channels: ["email"] }, channels);
+
+    expect(results).toEqual([{ kind: "email", success: true }]);
+    expect(memory.sent).toHaveLength(1);
+    expect(memory.sent[0].recipient.email).toBe("user@example.com");
+  });
+
+  it("should report channels that are not configured or fail", async () => {
+    const results = await deliverDigest(
+      message(),
+      recipient,
+      { channels: ["email", "webhook"] },
+      { webhook: createWebhookChannel({ resolve: vi.fn(), post: vi.fn() }) }
+    );
+
+    expect(results).toEqual([
+      { kind: "email", success: false, error: "Canal não configurado" },
+      { kind: "webhook", success: false, error: "URL de webhook inválida" },
+    ]);
+  });
+
+  const transport = (addresses: string[], status = 200) => ({
+    resolve: vi.fn().mockResolvedValue(addresses.map((address) => ({ address, family: 4 }))),
+    post: vi.fn<WebhookTransport["post"]>().mockResolvedValue(status),
+  });
+
+  it("should post the payload to the checked address of the webhook", async () => {
+    const webhookTransport = transport(["93.184.216.34"]);
+    const webhook = createWebhookChannel(webhookTransport);
+
+    await webhook.send(message(), { ...recipient, webhookUrl: "https://hooks.example.com/j" });
+
+    const [url, address, body] = webhookTransport.post.mock.calls[0];
+    expect(url.href).toBe("https://hooks.example.com/j");
+    expect(address).toEqual({ address: "93.184.216.34", family: 4 });
+    expect(JSON.parse(body)).toMatchObject({ frequency: "daily", unreadReviews: 1 });
+  });
+
+  it("should not post to hosts resolving to a private address", async () => {
+    const webhookTransport = transport(["93.184.216.34", "10.0.0.5"]);
+    const webhook = createWebhookChannel(webhookTransport);
+
+    await expect(
+      webhook.send(message(), { ...recipient, webhookUrl: "https://hooks.example.com/j" })
+    ).rejects.toThrow("endereço privado");
+    expect(webhookTransport.post).not.toHaveBeenCalled();
+  });
+
+  it("should fail on redirects", async () => {
+    const webhook = createWebhookChannel(transport(["93.184.216.34"], 302));
+
+    await expect(
+      webhook.send(message(), { ...recipient, webhookUrl: "https://hooks.example.com/j" })
+    ).rejects.toThrow("Webhook respondeu 302");
+  });
+
+  it("should hand the email to the SMTP sender", async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const config = getSmtpConfig({ SMTP_HOST: "smtp.example.com", SMTP_FROM: "no-reply@x.com" })!;
+
+    await createSmtpChannel(config, send).send(message(), recipient);
+
+    expect(config.port).toBe(587);
+    expect(send).toHaveBeenCalledWith(
+      config,
+      expect.objectContaining({ to: "user@example.com", subject: message().subject })
+    );
+  });
+});
+
+describe("sendSmtpMail", () => {
+  it("should not send credentials without TLS", async () => {
+    const received: string[] = [];
+    const server = net.createServer((socket) => {
+      socket.write("220 test\r\n");
+      socket.on("data", (chunk) => {
+        const line = chunk.toString().trim();
+        received.push(line);
+        if (line.startsWith("EHLO")) socket.write("250-test\r\n250 AUTH PLAIN\r\n");
+        else if (line === "QUIT") socket.end("221 bye\r\n");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    try {
+      await expect(
+        sendSmtpMail(
+          { host: "127.0.0.1", port, secure: false, user: "u", pass: "p", from: "x@x.com" },
+          { to: "user@example.com", subject: "s", text: "t", html: "h" }
+        )
+      ).rejects.toThrow("SMTP sem TLS");
+      expect(received.some((line) => line.startsWith("AUTH"))).toBe(false);
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("buildMimeMessage", () => {
+  it("should encode non-ASCII subjects and both bodies", () => {
+    const mime = buildMimeMessage("Journal <no-reply@x.com>", {
+      to: "user@example.com",
+      subject: "Seu resumo diário",
+      text: "Olá",
+      html: "<p>Olá</p>",
+    });
+
+    expect(mime).toContain("Subject: =?UTF-8?B?");
+    expect(mime).toContain("Content-Type: text/plain; charset=utf-8");
+    expect(mime).toContain(Buffer.from("<p>Olá</p>").toString("base64"));
+  });
+});
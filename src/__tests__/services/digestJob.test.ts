@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, Mock } from "vitest";
+import { runDueDigests, summarizeByCurrency } from "../../services/notifications/digestJob";
+import { createMemoryChannel } from "../../services/notifications/channels";
+import {
+  prismaMentorRepo,
+  prismaReviewRepo,
+  prismaSettingsRepo,
+  prismaTradeRepo,
+} from "@/lib/database/repositories";
+import type { Account, Trade } from "@/types";
+
+vi.mock("@/lib/database/repositories", () => ({
+  prismaSettingsRepo: { getDigestSubscribers: vi.fn(), markDigestSent: vi.fn() },
+  prismaReviewRepo: { getByMenteeId: vi.fn() },
+  prismaMentorRepo: { getCommentsOnUserTrades: vi.fn(), getReceivedInvites: vi.fn() },
+  prismaTradeRepo: { getByUserId: vi.fn() },
+  prismaAccountRepo: { getByUserId: vi.fn() },
+}));
+
+// Wednesday: daily digests have no weekly summary
+const now = new Date("2026-10-21T08:00:00Z");
+
+const subscriber = {
+  userId: "user-1",
+  email: "user@example.com",
+  digestSettings: { frequency: "daily" as const, channels: ["email" as const] },
+  digestSentAt: "2026-10-20T08:00:00Z",
+};
+
+describe("runDueDigests", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prismaReviewRepo.getByMenteeId as Mock).mockResolvedValue({
+      data: [
+        { id: "r1", reviewType: "comment", content: "Revise o stop", isRead: false },
+        { id: "r2", reviewType: "comment", content: "Já lido", isRead: true },
+      ],
+    });
+    (prismaMentorRepo.getCommentsOnUserTrades as Mock).mockResolvedValue({ data: [], error: null });
+    (prismaMentorRepo.getReceivedInvites as Mock).mockResolvedValue({ data: [], error: null });
+    (prismaTradeRepo.getByUserId as Mock).mockResolvedValue({ data: [], error: null });
+  });
+
+  it("should deliver due digests and record the delivery", async () => {
+    (prismaSettingsRepo.getDigestSubscribers as Mock).mockResolvedValue({
+      data: [subscriber, { ...subscriber, userId: "user-2", digestSentAt: "2026-10-21T06:00:00Z" }],
+      error: null,
+    });
+    const email = createMemoryChannel("email");
+
+    const summary = await runDueDigests({ email }, { now });
+
+    expect(summary).toEqual({ checked: 2, sent: 1, skipped: 1, failed: 0 });
+    expect(email.sent).toHaveLength(1);
+    expect(email.sent[0].message.payload.unreadReviews).toBe(1);
+    expect(prismaMentorRepo.getCommentsOnUserTrades).toHaveBeenCalledWith(
+      "user-1",
+      new Date("2026-10-20T08:00:00Z")
+    );
+    expect(prismaTradeRepo.getByUserId).not.toHaveBeenCalled();
+    expect(prismaSettingsRepo.markDigestSent).toHaveBeenCalledWith("user-1", now);
+  });
+
+  it("should not record dry runs or digests without news", async () => {
+    (prismaSettingsRepo.getDigestSubscribers as Mock).mockResolvedValue({
+      data: [subscriber],
+      error: null,
+    });
+    const email = createMemoryChannel("email");
+
+    await runDueDigests({ email }, { now, dryRun: true });
+    expect(email.sent).toHaveLength(1);
+
+    (prismaReviewRepo.getByMenteeId as Mock).mockResolvedValue({ data: [] });
+    const summary = await runDueDigests({ email }, { now });
+
+    expect(summary.skipped).toBe(1);
+    expect(email.sent).toHaveLength(1);
+    expect(prismaSettingsRepo.markDigestSent).not.toHaveBeenCalled();
+  });
+
+  it("should count a digest whose channels all failed", async () => {
+    (prismaSettingsRepo.getDigestSubscribers as Mock).mockResolvedValue({
+      data: [subscriber],
+      error: null,
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const summary = await runDueDigests({}, { now });
+
+    expect(summary.failed).toBe(1);
+    expect(prismaSettingsRepo.markDigestSent).not.toHaveBeenCalled();
+  });
+});
+
+describe("summarizeByCurrency", () => {
+  it("should not add up P&L of accounts in different currencies", () => {
+    const accounts = [
+      { id: "a-usd", currency: "USD" },
+      { id: "a-usd-2", currency: "USD" },
+      { id: "a-brl", currency: "BRL" },
+    ] as Account[];
+    const trade = (accountId: string, pnl: number) =>
+      ({ accountId, pnl, outcome: pnl > 0 ? "win" : "loss" }) as Trade;
+
+    const result = summarizeByCurrency(
+      [trade("a-usd", 100), trade("a-usd-2", -40), trade("a-brl", 500)],
+      accounts
+    );
+
+    expect(
+      result.map(({ currency, totalTrades, totalPnL }) => ({ currency, totalTrades, totalPnL }))
+    ).toEqual([
+      { currency: "BRL", totalTrades: 1, totalPnL: 500 },
+      { currency: "USD", totalTrades: 2, totalPnL: 60 },
+    ]);
+  });
+});
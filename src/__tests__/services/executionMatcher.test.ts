@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeUnmatchedExecutions,
+  getContractMultiplier,
+  matchExecutions,
+  roundTripsToRawData,
+  type Execution,
+} from "../../services/trades/executionMatcher";
+
+let nextId = 0;
+const execution = (
+  side: Execution["side"],
+  quantity: number,
+  price: number,
+  time: string,
+  overrides: Partial<Execution> = {}
+): Execution => ({
+  id: `x${++nextId}`,
+  accountId: "acc",
+  symbol: "NQH5",
+  side,
+  quantity,
+  price,
+  time: new Date(time),
+  ...overrides,
+});
+
+describe("executionMatcher", () => {
+  describe("matchExecutions", () => {
+    it("pairs a simple round trip", () => {
+      const { roundTrips, openLots } = matchExecutions([
+        execution("buy", 1, 100, "2025-01-13T09:30:00", { commission: -1, multiplier: 20 }),
+        execution("sell", 1, 105, "2025-01-13T09:45:00", { commission: -1 }),
+      ]);
+
+      expect(roundTrips).toHaveLength(1);
+      expect(roundTrips[0]).toMatchObject({
+        direction: "Long",
+        quantity: 1,
+        entryPrice: 100,
+        exitPrice: 105,
+        grossProfit: 100,
+        commission: -2,
+        overnight: false,
+      });
+      expect(openLots).toHaveLength(0);
+    });
+
+    it("matches partial exits FIFO or LIFO", () => {
+      const executions = [
+        execution("buy", 1, 100, "2025-01-13T09:30:00"),
+        execution("buy", 1, 110, "2025-01-13T09:35:00"),
+        execution("sell", 1, 120, "2025-01-13T09:40:00"),
+      ];
+
+      const fifo = matchExecutions(executions);
+      const lifo = matchExecutions(executions, { method: "lifo" });
+
+      expect(fifo.roundTrips[0]).toMatchObject({ entryPrice: 100, grossProfit: 20 });
+      expect(fifo.openLots[0]).toMatchObject({ price: 110, quantity: 1 });
+      expect(lifo.roundTrips[0]).toMatchObject({ entryPrice: 110, grossProfit: 10 });
+      expect(lifo.openLots[0]).toMatchObject({ price: 100, quantity: 1 });
+    });
+
+    it("splits one exit across several entry lots with prorated commissions", () => {
+      const { roundTrips } = matchExecutions([
+        execution("sell", 2, 100, "2025-01-13T09:30:00", { commission: -2 }),
+        execution("sell", 1, 102, "2025-01-13T09:31:00", { commission: -1 }),
+        execution("buy", 3, 95, "2025-01-13T09:50:00", { commission: -3 }),
+      ]);
+
+      expect(roundTrips).toHaveLength(2);
+      expect(roundTrips[0]).toMatchObject({
+        direction: "Short",
+        quantity: 2,
+        grossProfit: 10,
+        commission: -4,
+      });
+      expect(roundTrips[1]).toMatchObject({ quantity: 1, grossProfit: 7, commission: -2 });
+    });
+
+    it("flips from long to short when an execution exceeds the position", () => {
+      const { roundTrips, openLots } = matchExecutions([
+        execution("buy", 2, 100, "2025-01-13T09:30:00"),
+        execution("sell", 5, 101, "2025-01-13T09:40:00"),
+        execution("buy", 3, 99, "2025-01-13T09:50:00"),
+      ]);
+
+      expect(roundTrips.map((trip) => [trip.direction, trip.quantity, trip.grossProfit])).toEqual([
+        ["Long", 2, 2],
+        ["Short", 3, 6],
+      ]);
+      expect(roundTrips[1].entryTime).toEqual(new Date("2025-01-13T09:40:00"));
+      expect(openLots).toHaveLength(0);
+    });
+
+    it("carries positions overnight and from earlier imports", () => {
+      const first = matchExecutions([
+        execution("buy", 2, 100, "2025-01-13T15:55:00"),
+        execution("sell", 1, 104, "2025-01-14T09:35:00"),
+      ]);
+
+      expect(first.roundTrips[0].overnight).toBe(true);
+      expect(first.openLots).toHaveLength(1);
+
+      const second = matchExecutions([execution("sell", 1, 98, "2025-01-15T09:35:00")], {
+        openLots: first.openLots,
+      });
+
+      expect(second.roundTrips[0]).toMatchObject({
+        entryTime: new Date("2025-01-13T15:55:00"),
+        grossProfit: -2,
+      });
+      // Seeded lots are not mutated
+      expect(first.openLots[0].quantity).toBe(1);
+    });
+
+    it("keeps closing executions without a position as unmatched", () => {
+      const result = matchExecutions([
+        execution("sell", 1, 100, "2025-01-13T09:30:00", { effect: "close", symbol: "ESH5" }),
+        execution("buy", 1, 100, "2025-01-13T09:31:00", { effect: "open" }),
+      ]);
+
+      expect(result.roundTrips).toHaveLength(0);
+      expect(result.unmatched).toEqual([expect.objectContaining({ symbol: "ESH5", quantity: 1 })]);
+      expect(describeUnmatchedExecutions(result)).toEqual([
+        expect.stringContaining("NQH5"),
+        expect.stringContaining("ESH5"),
+      ]);
+    });
+
+    it("keeps accounts and symbols in separate books", () => {
+      const { roundTrips, openLots } = matchExecutions([
+        execution("buy", 1, 100, "2025-01-13T09:30:00", { accountId: "a" }),
+        execution("sell", 1, 101, "2025-01-13T09:31:00", { accountId: "b" }),
+        execution("sell", 1, 101, "2025-01-13T09:32:00", { symbol: "ESH5", accountId: "a" }),
+      ]);
+
+      expect(roundTrips).toHaveLength(0);
+      expect(openLots).toHaveLength(3);
+    });
+  });
+
+  describe("roundTripsToRawData", () => {
+    it("uses the standard import columns", () => {
+      const { roundTrips } = matchExecutions([
+        execution("sell", 1, 100.5, "2025-01-13T09:30:00", { id: "in", currency: "USD" }),
+        execution("buy", 1, 99.25, "2025-01-13T09:45:10", { id: "out" }),
+      ]);
+
+      expect(roundTripsToRawData(roundTrips)[0]).toEqual({
+        "Open Time": "2025-01-13 09:30:00",
+        "Close Time": "2025-01-13 09:45:10",
+        Symbol: "NQH5",
+        Type: "Sell",
+        Volume: "1",
+        "Open Price": "100.5",
+        "Close Price": "99.25",
+        Profit: "1.25",
+        Commission: "0",
+        Currency: "USD",
+        Account: "acc",
+        "Entry ID": "in",
+        "Exit ID": "out",
+      });
+    });
+  });
+
+  it("uses futures point values only for fixed contracts", () => {
+    expect(getContractMultiplier("NQ")).toBe(20);
+    expect(getContractMultiplier("mnq")).toBe(2);
+    expect(getContractMultiplier("EURUSD")).toBe(1);
+  });
+});
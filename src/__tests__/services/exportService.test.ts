@@ -11,6 +11,19 @@ vi.mock("@/lib/supabase", () => ({
   getCurrentUserIdClient: vi.fn(),
 }));
 
+// Generic mock implementation for supabase.from(table).select().eq().range() chain
+// and .select().in() for child tables fetched by parent IDs
+const createQueryMock = (data: any[]) => {
+  const rangeMock = vi.fn().mockReturnValue({ data, error: null });
+  const eqMock = vi.fn().mockReturnValue({
+    range: rangeMock,
+    maybeSingle: vi.fn().mockReturnValue({ data: data[0] || null, error: null }),
+  });
+  const inMock = vi.fn().mockReturnValue({ data, error: null });
+  const selectMock = vi.fn().mockReturnValue({ eq: eqMock, in: inMock });
+  return { select: selectMock };
+};
+
 describe("exportService", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -63,17 +76,6 @@ describe("exportService", () => {
         },
       ];
 
-      // Generic mock implementation for supabase.from(table).select().eq().range() chain
-      const createQueryMock = (data: any[]) => {
-        const rangeMock = vi.fn().mockReturnValue({ data, error: null });
-        const eqMock = vi.fn().mockReturnValue({
-          range: rangeMock,
-          maybeSingle: vi.fn().mockReturnValue({ data: data[0] || null, error: null }),
-        });
-        const selectMock = vi.fn().mockReturnValue({ eq: eqMock });
-        return { select: selectMock };
-      };
-
       // Using logic of sequential calls in exportAllData
       // 1. accounts, 2. trades, 3. journal_entries, 4. playbooks, 5. daily_routines, 6. settings
       // AND ALSO fetchAll calls 'journal_images' separately inside
@@ -103,7 +105,7 @@ describe("exportService", () => {
       const result = await exportAllData();
 
       expect(result).toBeDefined();
-      expect(result.version).toBe("1.0");
+      expect(result.version).toBe("2.0");
       expect(result.accounts).toHaveLength(1);
       expect(result.accounts[0].name).toBe("Test Account");
       expect(result.trades).toHaveLength(1);
@@ -119,6 +121,57 @@ describe("exportService", () => {
       expect(result.settings?.currencies).toContain("USD");
     });
 
+    it("should export trade legs, journal links, laboratory and mental logs", async () => {
+      const userId = "user-123";
+      const mockLegs = [
+        {
+          id: "leg-1",
+          trade_id: "trade-1",
+          side: "entry",
+          price: 1.1,
+          quantity: 1,
+          executed_date: "2024-01-01",
+        },
+      ];
+      const mockEntryTrades = [{ id: "jet-1", journal_entry_id: "entry-1", trade_id: "trade-2" }];
+      const mockExperiments = [
+        { id: "exp-1", user_id: userId, title: "Gap Fill", status: "em_aberto" },
+      ];
+      const mockExperimentTrades = [
+        { experiment_id: "exp-1", trade_id: "trade-1", category: "pro" },
+      ];
+      const mockMentalLogs = [{ id: "log-1", user_id: userId, step_1_problem: "FOMO" }];
+
+      const tableData: Record<string, any[]> = {
+        trades: [{ id: "trade-1", user_id: userId, account_id: "acc-1", symbol: "NQ" }],
+        trade_legs: mockLegs,
+        journal_entries: [{ id: "entry-1", user_id: userId, trade_id: "trade-1", title: "NQ" }],
+        journal_entry_trades: mockEntryTrades,
+        laboratory_experiments: mockExperiments,
+        laboratory_experiment_trades: mockExperimentTrades,
+        mental_logs: mockMentalLogs,
+      };
+      (getCurrentUserIdClient as any).mockResolvedValue(userId);
+      (supabase.from as any).mockImplementation((tableName: string) =>
+        createQueryMock(tableData[tableName] || [])
+      );
+
+      const result = await exportAllData();
+
+      expect(result.trades[0].legs).toEqual([
+        expect.objectContaining({ id: "leg-1", tradeId: "trade-1", side: "entry", price: 1.1 }),
+      ]);
+      // Legacy trade_id plus N:N links
+      expect(result.journalEntries[0].tradeIds).toEqual(["trade-1", "trade-2"]);
+      expect(result.laboratoryExperiments[0]).toMatchObject({
+        title: "Gap Fill",
+        linkedTrades: [{ tradeId: "trade-1", category: "pro" }],
+        images: [],
+      });
+      expect(result.laboratoryRecaps).toEqual([]);
+      expect(result.mentalLogs[0]).toMatchObject({ id: "log-1", step1Problem: "FOMO" });
+    });
+
     it("should handle pagination in fetchAll", async () => {
       const userId = "user-123";
       (getCurrentUserIdClient as any).mockResolvedValue(userId);
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import {
+  IBKR_DEFAULT_TIMEZONE,
+  parseIbkrDateTime,
+  parseIbkrFlexContent,
+  parseIbkrFlexExecutions,
+} from "../../services/trades/ibkrParser";
+import { detectColumnMapping, transformTrades } from "../../services/trades/importParsers";
+
+const readFixture = (name: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../fixtures/import", name), "utf-8");
+
+describe("Interactive Brokers Flex Query Parser", () => {
+  describe("parseIbkrDateTime", () => {
+    it("parses compact and separated Flex timestamps", () => {
+      const compact = parseIbkrDateTime("20250113;093512");
+      // Read as New York time (EST, UTC-5), whatever the runtime's timezone
+      expect(compact?.toISOString()).toBe("2025-01-13T14:35:12.000Z");
+
+      expect(parseIbkrDateTime("2025-01-13, 09:35:12")?.getTime()).toBe(compact?.getTime());
+      expect(parseIbkrDateTime("20250113", "093512")?.getTime()).toBe(compact?.getTime());
+      expect(parseIbkrDateTime("invalid")).toBeNull();
+    });
+
+    it("reads the wall-clock in the report's timezone", () => {
+      expect(parseIbkrDateTime("20250713;093512")?.toISOString()).toBe("2025-07-13T13:35:12.000Z");
+      expect(parseIbkrDateTime("20250113;093512", undefined, "Europe/London")?.toISOString()).toBe(
+        "2025-01-13T09:35:12.000Z"
+      );
+    });
+  });
+
+  describe("XML", () => {
+    const content = readFixture("ibkr_flex_trades.xml");
+
+    it("keeps only execution-level trades", () => {
+      const executions = parseIbkrFlexExecutions(content);
+
+      expect(executions).toHaveLength(9);
+      expect(executions[0]).toMatchObject({
+        symbol: "AAPL",
+        side: "buy",
+        quantity: 100,
+        effect: "open",
+      });
+      expect(executions.find((e) => e.id === "1004")?.symbol).toBe("MNQ");
+      expect(executions.find((e) => e.id === "1007")?.symbol).toBe("EURUSD");
+    });
+
+    it("pairs partial exits FIFO with prorated commissions", () => {
+      const { data } = parseIbkrFlexContent(content);
+      const aapl = data.filter((row) => row.Symbol === "AAPL");
+
+      expect(aapl).toEqual([
+        expect.objectContaining({
+          "Open Time": "2025-01-13 09:35:12",
+          "Close Time": "2025-01-13 11:02:03",
+          Type: "Buy",
+          Volume: "60",
+          "Open Price": "230.5",
+          Profit: "90",
+          Commission: "-1.2",
+          Currency: "USD",
+        }),
+        expect.objectContaining({ Volume: "40", Profit: "-60", Commission: "-0.8" }),
+      ]);
+    });
+
+    it("splits a reversal into a closed trade and a new position", () => {
+      const { data } = parseIbkrFlexContent(content);
+      const mnq = data.filter((row) => row.Symbol === "MNQ");
+
+      expect(mnq).toHaveLength(2);
+      // Short 2 @ 21500.25 closed @ 21480.25 with the multiplier of 2
+      expect(mnq[0]).toMatchObject({
+        Type: "Sell",
+        Volume: "2",
+        Profit: "80",
+        Commission: "-2.48",
+      });
+      // Remaining 1 long from the flip, closed @ 21490.25
+      expect(mnq[1]).toMatchObject({
+        Type: "Buy",
+        Volume: "1",
+        "Open Time": "2025-01-15 10:30:00",
+        "Open Price": "21480.25",
+        Profit: "20",
+        Commission: "-1.24",
+      });
+    });
+
+    it("leaves positions still open out and reports the file metadata", () => {
+      const result = parseIbkrFlexContent(content);
+
+      expect(result.data.some((row) => row.Symbol === "TSLA")).toBe(false);
+      expect(result.warnings).toEqual([expect.stringContaining("TSLA")]);
+      expect(result.data).toHaveLength(5);
+      expect(result.timezone).toBe(IBKR_DEFAULT_TIMEZONE);
+      expect(result.currencies).toEqual(["USD"]);
+      // 90 - 60 + 80 + 20 + 50 gross, -1.2 - 0.8 - 2.48 - 1.24 - 4 commissions
+      expect(result.totalNetProfit).toBe(170.28);
+    });
+
+    it("feeds the standard import pipeline", () => {
+      const { data, timezone } = parseIbkrFlexContent(content);
+      const mapping = detectColumnMapping(Object.keys(data[0]));
+      const trades = transformTrades(data, mapping, null, timezone ?? "", "acc-1");
+
+      expect(trades).toHaveLength(5);
+      expect(trades[0]).toMatchObject({
+        symbol: "AAPL",
+        type: "Long",
+        lot: 60,
+        commission: -1.2,
+        pnl: 88.8,
+        outcome: "win",
+      });
+    });
+  });
+
+  describe("CSV", () => {
+    const content = readFixture("ibkr_flex_trades.csv");
+
+    it("parses Flex CSV with repeated header rows and multiple accounts", () => {
+      const result = parseIbkrFlexContent(content);
+
+      expect(result.data).toHaveLength(3);
+      expect(result.currencies).toEqual(["USD", "EUR"]);
+      expect(result.data[2]).toMatchObject({
+        Symbol: "SAP",
+        Type: "Sell",
+        Account: "U7654321",
+        Profit: "40",
+        Commission: "-6",
+        Currency: "EUR",
+      });
+    });
+  });
+
+  it("rejects files without executions", () => {
+    expect(() => parseIbkrFlexContent("Symbol,Quantity\n")).toThrow("Nenhuma execução");
+    expect(() => parseIbkrFlexContent("<FlexQueryResponse>")).toThrow("XML");
+  });
+});
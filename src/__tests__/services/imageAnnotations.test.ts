@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  getAnnotationAnchor,
+  numberAnnotations,
+  sanitizeAnnotationShape,
+  simplifyPath,
+  toSvgPath,
+} from "../../services/mentor";
+
+describe("sanitizeAnnotationShape", () => {
+  it("should clamp coordinates to the image", () => {
+    expect(
+      sanitizeAnnotationShape({ kind: "box", from: { x: -1, y: 0.25 }, to: { x: 0.123456, y: 2 } })
+    ).toEqual({ kind: "box", from: { x: 0, y: 0.25 }, to: { x: 0.1235, y: 1 } });
+    expect(sanitizeAnnotationShape({ kind: "hline", y: 1.5 })).toEqual({ kind: "hline", y: 1 });
+  });
+
+  it("should reject stray clicks, unknown kinds and malformed points", () => {
+    expect(
+      sanitizeAnnotationShape({ kind: "arrow", from: { x: 0.5, y: 0.5 }, to: { x: 0.5, y: 0.5 } })
+    ).toBeNull();
+    expect(sanitizeAnnotationShape({ kind: "circle", at: { x: 0.5, y: 0.5 } })).toBeNull();
+    expect(
+      sanitizeAnnotationShape({ kind: "freehand", points: [{ x: 0.1, y: 0.1 }, { x: "a" }] })
+    ).toBeNull();
+    expect(sanitizeAnnotationShape({ kind: "hline", y: NaN })).toBeNull();
+  });
+
+  it("should trim text pins and drop empty ones", () => {
+    expect(
+      sanitizeAnnotationShape({ kind: "text", at: { x: 0.2, y: 0.3 }, text: "  FVG  " })
+    ).toEqual({ kind: "text", at: { x: 0.2, y: 0.3 }, text: "FVG" });
+    expect(sanitizeAnnotationShape({ kind: "text", at: { x: 0.2, y: 0.3 }, text: " " })).toBeNull();
+  });
+
+  it("should drop extra fields", () => {
+    expect(
+      sanitizeAnnotationShape({ kind: "hline", y: 0.4, from: { x: 0, y: 0 }, html: "<b>" })
+    ).toEqual({ kind: "hline", y: 0.4 });
+  });
+});
+
+describe("simplifyPath", () => {
+  it("should drop points too close to the previous one, keeping the ends", () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 0.001, y: 0 },
+      { x: 0.1, y: 0 },
+      { x: 0.1005, y: 0 },
+    ];
+
+    expect(simplifyPath(points)).toEqual([
+      { x: 0, y: 0 },
+      { x: 0.1, y: 0 },
+      { x: 0.1005, y: 0 },
+    ]);
+  });
+});
+
+describe("getAnnotationAnchor", () => {
+  it("should put the marker on the top-left corner of a box drawn backwards", () => {
+    expect(
+      getAnnotationAnchor({ kind: "box", from: { x: 0.8, y: 0.6 }, to: { x: 0.2, y: 0.4 } })
+    ).toEqual({ x: 0.2, y: 0.4 });
+  });
+});
+
+describe("numberAnnotations", () => {
+  it("should number the annotations of each image separately", () => {
+    expect(
+      numberAnnotations([
+        { id: "a", imageId: "h4" },
+        { id: "b", imageId: "m5" },
+        { id: "c", imageId: "h4" },
+      ])
+    ).toEqual({ a: 1, b: 1, c: 2 });
+  });
+});
+
+describe("toSvgPath", () => {
+  it("should scale points to the 0-100 viewBox", () => {
+    expect(
+      toSvgPath([
+        { x: 0.1, y: 0.2 },
+        { x: 0.5, y: 0.25 },
+      ])
+    ).toBe("M10 20 L50 25");
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildImportSnapshot,
+  computeImportDiff,
+  getImportSignature,
+  planImport,
+} from "../../services/trades/importDiff";
+import type { ImportCandidate, Trade } from "../../types";
+
+const incomingTrade = (overrides: Partial<Trade> = {}): Partial<Trade> => ({
+  accountId: "acc-1",
+  symbol: "NQ",
+  type: "Long",
+  entryDate: "2025-01-13",
+  entryTime: "09:30:15",
+  entryPrice: 21500.25,
+  exitDate: "2025-01-13",
+  exitTime: "09:45:00",
+  exitPrice: 21510.25,
+  lot: 1,
+  pnl: 200,
+  commission: -4.5,
+  outcome: "win",
+  ...overrides,
+});
+
+const candidate = (
+  overrides: Partial<ImportCandidate> = {},
+  imported: Partial<Trade> | null = {}
+): ImportCandidate =>
+  ({
+    id: "trade-1",
+    ...incomingTrade(),
+    importSnapshot: imported ? buildImportSnapshot(incomingTrade(imported)) : null,
+    ...overrides,
+  }) as ImportCandidate;
+
+describe("importDiff", () => {
+  describe("buildImportSnapshot", () => {
+    it("normalizes values as stored by the database", () => {
+      expect(
+        buildImportSnapshot(incomingTrade({ pnl: 88.805, swap: 0, exitTime: "09:45", stopLoss: 0 }))
+      ).toEqual({
+        exitDate: "2025-01-13",
+        exitTime: "09:45:00",
+        exitPrice: 21510.25,
+        lot: 1,
+        pnl: 88.81,
+        commission: -4.5,
+        swap: null,
+        stopLoss: null,
+        takeProfit: null,
+        outcome: "win",
+      });
+    });
+  });
+
+  it("matches trades by entry minute, symbol, direction and entry price", () => {
+    expect(getImportSignature(incomingTrade())).toBe(
+      getImportSignature(incomingTrade({ entryTime: "09:30:59", entryPrice: 21500.250001 }))
+    );
+    expect(getImportSignature(incomingTrade())).not.toBe(
+      getImportSignature(incomingTrade({ type: "Short" }))
+    );
+  });
+
+  describe("computeImportDiff", () => {
+    it("classifies new trades and exact re-imports", () => {
+      const diff = computeImportDiff(
+        [incomingTrade(), incomingTrade({ symbol: "ES" })],
+        [candidate()]
+      );
+
+      expect(diff.entries.map((e) => e.status)).toEqual(["duplicate", "new"]);
+      expect(diff.entries[0].tradeId).toBe("trade-1");
+      expect(diff.counts).toEqual({ new: 1, duplicate: 1, modified: 0, conflict: 0 });
+    });
+
+    it("flags broker-side changes on trades not edited since the last import", () => {
+      const diff = computeImportDiff([incomingTrade({ commission: -5 })], [candidate()]);
+
+      expect(diff.entries[0]).toMatchObject({
+        status: "modified",
+        changes: [{ field: "commission", current: -4.5, incoming: -5 }],
+        editedFields: [],
+      });
+    });
+
+    it("flags broker-side changes on trades edited in the journal as conflicts", () => {
+      const diff = computeImportDiff(
+        [incomingTrade({ commission: -5 })],
+        [candidate({ stopLoss: 21490 })]
+      );
+
+      expect(diff.entries[0]).toMatchObject({ status: "conflict", editedFields: ["stopLoss"] });
+      expect(diff.entries[0].changes.map((c) => c.field)).toEqual(["commission", "stopLoss"]);
+    });
+
+    it("keeps journal edits when the file did not change", () => {
+      const diff = computeImportDiff([incomingTrade()], [candidate({ pnl: 150 })]);
+
+      expect(diff.entries[0].status).toBe("duplicate");
+    });
+
+    it("treats differing trades that were never imported as conflicts", () => {
+      const diff = computeImportDiff([incomingTrade({ pnl: 210 })], [candidate({}, null)]);
+
+      expect(diff.entries[0]).toMatchObject({ status: "conflict", editedFields: [] });
+    });
+
+    it("matches each existing trade once", () => {
+      const diff = computeImportDiff([incomingTrade(), incomingTrade()], [candidate()]);
+
+      expect(diff.entries.map((e) => e.status)).toEqual(["duplicate", "new"]);
+    });
+  });
+
+  describe("planImport", () => {
+    it("creates new trades, updates modified ones and only the chosen conflicts", () => {
+      const trades = [
+        incomingTrade({ symbol: "ES" }),
+        incomingTrade({ commission: -5 }),
+        incomingTrade({ entryTime: "10:00:00", pnl: 50 }),
+        incomingTrade({ entryTime: "11:00:00", pnl: 60 }),
+        incomingTrade({ entryTime: "12:00:00" }),
+      ];
+      const existing = [
+        candidate(),
+        candidate({ id: "trade-2", entryTime: "10:00:00" }, null),
+        candidate({ id: "trade-3", entryTime: "11:00:00" }, null),
+        candidate({ id: "trade-4", entryTime: "12:00:00" }),
+      ];
+      const diff = computeImportDiff(trades, existing);
+
+      const plan = planImport(trades, diff, [3]);
+
+      expect(plan.creates.map((c) => c.trade.symbol)).toEqual(["ES"]);
+      expect(plan.creates[0].snapshot.commission).toBe(-4.5);
+      expect(plan.updates.map((u) => u.tradeId)).toEqual(["trade-1", "trade-3"]);
+      expect(plan.updates[0].snapshot.commission).toBe(-5);
+      expect(plan.skipped).toBe(2);
+    });
+  });
+});
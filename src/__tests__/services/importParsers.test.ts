@@ -1,10 +1,12 @@
 import { describe, it, expect } from "vitest";
 import {
   detectColumnMapping,
+  groupTradesIntoLegs,
   transformTrades,
   ColumnMapping,
 } from "@/services/trades/importParsers";
 import { RawTradeData } from "@/services/trades/import";
+import type { Trade } from "@/types";
 
 describe("importParsers", () => {
   it("detects standard MetaTrader English headers", () => {
@@ -181,3 +183,83 @@ describe("transformTrades", () => {
     expect(trade.pnl).toBe(495);
   });
 });
+
+describe("groupTradesIntoLegs", () => {
+  const row = (overrides: Partial<Trade>): Trade => ({
+    id: `row-${Math.random()}`,
+    userId: "",
+    accountId: "account-123",
+    symbol: "MNQ",
+    type: "Long",
+    entryPrice: 18000,
+    exitPrice: 18010,
+    lot: 1,
+    stopLoss: 0,
+    takeProfit: 0,
+    entryDate: "2024-03-12",
+    entryTime: "09:30:00",
+    exitDate: "2024-03-12",
+    exitTime: "09:45:00",
+    pnl: 20,
+    commission: -1,
+    swap: 0,
+    outcome: "win",
+    createdAt: "",
+    updatedAt: "",
+    ...overrides,
+  });
+
+  it("merges overlapping rows of the same position into one multi-leg trade", () => {
+    const trades = groupTradesIntoLegs([
+      row({ id: "a", entryPrice: 18000, exitPrice: 18010, exitTime: "09:45:00", pnl: 19 }),
+      row({
+        id: "b",
+        entryTime: "09:35:00",
+        entryPrice: 18004,
+        exitPrice: 18020,
+        exitTime: "10:00:00",
+        pnl: 31,
+      }),
+    ]);
+
+    expect(trades).toHaveLength(1);
+    const [trade] = trades;
+
+    expect(trade.id).toBe("a");
+    expect(trade.lot).toBe(2);
+    expect(trade.entryPrice).toBe(18002);
+    expect(trade.exitPrice).toBe(18015);
+    expect(trade.exitTime).toBe("10:00:00");
+    expect(trade.pnl).toBe(50);
+    expect(trade.commission).toBe(-2);
+    expect(trade.outcome).toBe("win");
+
+    expect(trade.legs).toHaveLength(4);
+    expect(trade.legs?.every((leg) => leg.tradeId === "a")).toBe(true);
+    // Exit legs carry gross PnL (row PnL without commission)
+    const exitPnl = trade.legs?.filter((leg) => leg.side === "exit").map((leg) => leg.pnl);
+    expect(exitPnl).toEqual([20, 32]);
+  });
+
+  it("merges fills executed at the same time and price into one leg", () => {
+    const [trade] = groupTradesIntoLegs([
+      row({ id: "a", exitTime: "09:45:00" }),
+      row({ id: "b", exitPrice: 18030, exitTime: "10:00:00" }),
+    ]);
+
+    const entries = trade.legs?.filter((leg) => leg.side === "entry");
+    expect(entries).toHaveLength(1);
+    expect(entries?.[0].quantity).toBe(2);
+  });
+
+  it("keeps sequential and opposite-direction trades separate", () => {
+    const trades = groupTradesIntoLegs([
+      row({ id: "a", entryTime: "09:30:00", exitTime: "09:45:00" }),
+      row({ id: "b", entryTime: "09:50:00", exitTime: "10:00:00" }),
+      row({ id: "c", type: "Short", entryTime: "09:40:00", exitTime: "09:55:00" }),
+    ]);
+
+    expect(trades).toHaveLength(3);
+    expect(trades.every((trade) => trade.legs === undefined)).toBe(true);
+  });
+});
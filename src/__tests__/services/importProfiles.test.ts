@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeHeaderFingerprint,
+  findMatchingProfile,
+  mapProfileSymbol,
+  normalizeImportProfileSettings,
+  parseDecimalNumber,
+  parseImportProfilesJson,
+  parseProfileDirection,
+  serializeImportProfiles,
+  type ImportProfileDraft,
+} from "@/services/trades/importProfiles";
+import { transformTrades } from "@/services/trades/importParsers";
+import { parseGenericCSVContent } from "@/services/trades/import";
+import type { ImportProfile } from "@/types";
+
+const HEADERS = ["Data", "Ativo", "Lado", "Qtd", "Preço", "Resultado"];
+
+const draft: ImportProfileDraft = {
+  name: "Clear - Day Trade",
+  headers: HEADERS,
+  mapping: {
+    entryDate: "Data",
+    symbol: "Ativo",
+    direction: "Lado",
+    volume: "Qtd",
+    entryPrice: "Preço",
+    exitDate: "",
+    exitPrice: "",
+    profit: "Resultado",
+    commission: "",
+    swap: "",
+    sl: "",
+    tp: "",
+  },
+  dateFormat: "DD/MM/YYYY HH:mm",
+  timezone: "America/Sao_Paulo",
+  decimalSeparator: ",",
+  symbolMap: { WINZ25: "WIN" },
+  directionVocabulary: { long: ["C"], short: ["V"] },
+};
+
+const savedProfile = (overrides: Partial<ImportProfile> = {}): ImportProfile => ({
+  ...draft,
+  id: "profile-1",
+  userId: "user-1",
+  headerFingerprint: computeHeaderFingerprint(HEADERS),
+  createdAt: "",
+  updatedAt: "",
+  ...overrides,
+});
+
+describe("importProfiles", () => {
+  describe("computeHeaderFingerprint", () => {
+    it("ignores header order, case and extra whitespace", () => {
+      expect(computeHeaderFingerprint(["Symbol", "Open  Time"])).toBe(
+        computeHeaderFingerprint([" open time", "SYMBOL "])
+      );
+    });
+
+    it("changes when the layout changes", () => {
+      expect(computeHeaderFingerprint(["Symbol", "Open Time"])).not.toBe(
+        computeHeaderFingerprint(["Symbol", "Close Time"])
+      );
+    });
+  });
+
+  describe("findMatchingProfile", () => {
+    it("prefers the exact fingerprint", () => {
+      const other = savedProfile({ id: "profile-2", headerFingerprint: "x" });
+      const exact = savedProfile();
+
+      expect(findMatchingProfile([other, exact], [...HEADERS].reverse())).toBe(exact);
+    });
+
+    it("falls back to a profile whose mapped columns all exist", () => {
+      const profile = savedProfile({ headerFingerprint: "old-layout" });
+
+      expect(findMatchingProfile([profile], [...HEADERS, "Observação"])).toBe(profile);
+      expect(findMatchingProfile([profile], ["Data", "Ativo"])).toBeNull();
+    });
+  });
+
+  describe("value parsers", () => {
+    it("parses numbers with the profile decimal separator", () => {
+      expect(parseDecimalNumber("R$ 1.234,50", ",")).toBe(1234.5);
+      expect(parseDecimalNumber("$1,234.50", ".")).toBe(1234.5);
+      expect(parseDecimalNumber("(12,00)", ",")).toBe(-12);
+      expect(parseDecimalNumber("-", ",")).toBeNaN();
+    });
+
+    it("maps symbols by raw or cleaned value", () => {
+      const map = { "US100.cash": "NQ", WINZ25: "WIN" };
+
+      expect(mapProfileSymbol("US100.cash", map)).toBe("NQ");
+      expect(mapProfileSymbol("winz25", map)).toBe("WIN");
+      expect(mapProfileSymbol("EURUSD.raw", map)).toBe("EURUSD");
+    });
+
+    it("uses the direction vocabulary before the built-in rules", () => {
+      const vocabulary = { long: ["C"], short: ["V"] };
+
+      expect(parseProfileDirection("c", vocabulary)).toBe("Long");
+      expect(parseProfileDirection("V", vocabulary)).toBe("Short");
+      expect(parseProfileDirection("Sell", vocabulary)).toBe("Short");
+      expect(parseProfileDirection("X", vocabulary)).toBeNull();
+    });
+  });
+
+  describe("JSON export / import", () => {
+    it("round-trips profiles without ids or owner", () => {
+      const json = serializeImportProfiles([savedProfile()]);
+      const parsed = parseImportProfilesJson(json);
+
+      expect(parsed).toEqual([draft]);
+      expect(json).not.toContain("user-1");
+    });
+
+    it("fills optional settings with defaults", () => {
+      const [profile] = parseImportProfilesJson(
+        JSON.stringify({ name: "Minimal", mapping: draft.mapping })
+      );
+
+      expect(profile.decimalSeparator).toBe(".");
+      expect(profile.dateFormat).toBe("");
+      expect(profile.directionVocabulary.long).toContain("buy");
+    });
+
+    it("reads malformed stored settings with defaults instead of throwing", () => {
+      const settings = normalizeImportProfileSettings({
+        mapping: { symbol: 42, entryDate: "Data" },
+        timezone: "",
+        symbolMap: { WINZ25: 1 },
+        directionVocabulary: { long: "C", short: ["V", 2] },
+      });
+
+      expect(settings.mapping.symbol).toBe("");
+      expect(settings.mapping.entryDate).toBe("Data");
+      expect(settings.timezone).toBe("Etc/UTC");
+      expect(settings.symbolMap).toEqual({});
+      expect(settings.directionVocabulary.long).toContain("buy");
+      expect(settings.directionVocabulary.short).toContain("sell");
+      expect(normalizeImportProfileSettings(null).mapping.symbol).toBe("");
+    });
+
+    it("rejects invalid files", () => {
+      expect(() => parseImportProfilesJson("not json")).toThrow("Arquivo JSON inválido.");
+      expect(() =>
+        parseImportProfilesJson(JSON.stringify({ type: "other", profiles: [] }))
+      ).toThrow("não é uma exportação");
+      expect(() =>
+        parseImportProfilesJson(JSON.stringify({ name: "Sem mapa", mapping: { symbol: "A" } }))
+      ).toThrow("sem colunas obrigatórias");
+    });
+  });
+
+  describe("transformTrades with a profile", () => {
+    it("applies date format, decimals, symbol map and vocabulary", () => {
+      const { data } = parseGenericCSVContent(
+        "Data;Ativo;Lado;Qtd;Preço;Resultado\n" +
+          "05/12/2025 10:15;WINZ25;C;2;128.450,5;R$ 1.250,00\n" +
+          "05/12/2025 11:00;WINZ25;X;1;128.000,0;0\n"
+      );
+
+      const trades = transformTrades(data, draft.mapping, "csv", "", "acc-1", draft);
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0]).toMatchObject({
+        symbol: "WIN",
+        type: "Long",
+        entryDate: "2025-12-05",
+        entryTime: "10:15:00",
+        entryPrice: 128450.5,
+        lot: 2,
+        pnl: 1250,
+        outcome: "win",
+      });
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  getMonteCarloSamples,
+  getRiskOfRuinTable,
+  getTradeRMultiple,
+  runMonteCarlo,
+  type MonteCarloConfig,
+} from "../../services/analytics/monteCarlo";
+
+const baseConfig: MonteCarloConfig = {
+  mode: "r",
+  startingBalance: 10000,
+  tradesPerPath: 50,
+  simulations: 500,
+  riskPercent: 1,
+  drawdownLimitPercent: 10,
+  ruinPercent: 50,
+  seed: 7,
+};
+
+describe("getTradeRMultiple", () => {
+  it("should prefer the stored R-multiple", () => {
+    expect(
+      getTradeRMultiple({
+        rMultiple: 2.5,
+        pnl: 10,
+        entryPrice: 1,
+        stopLoss: 0.9,
+        lot: 1,
+        symbol: "X",
+      })
+    ).toBe(2.5);
+  });
+
+  it("should compute R from the initial risk and skip trades without stop", () => {
+    expect(
+      getTradeRMultiple({ pnl: -150, entryPrice: 100, stopLoss: 99, lot: 100, symbol: "XYZ" })
+    ).toBe(-1.5);
+    expect(
+      getTradeRMultiple({ pnl: 50, entryPrice: 100, stopLoss: 0, lot: 1, symbol: "XYZ" })
+    ).toBe(null);
+  });
+
+  it("should use the user's multiplier for custom assets", () => {
+    const trade = { pnl: 300, entryPrice: 5000, stopLoss: 4990, lot: 2, symbol: "mytoken" };
+
+    // 10 points × 2 lots × 15 = 300 at risk
+    expect(getTradeRMultiple(trade, { MYTOKEN: 15 })).toBe(1);
+    expect(getTradeRMultiple(trade)).toBe(15);
+  });
+});
+
+describe("getMonteCarloSamples", () => {
+  it("should use closed trades only", () => {
+    const trades = [
+      { outcome: "win" as const, pnl: 200, entryPrice: 100, stopLoss: 99, lot: 100, symbol: "XYZ" },
+      { outcome: "loss" as const, pnl: -100, entryPrice: 100, stopLoss: 0, lot: 1, symbol: "XYZ" },
+      { outcome: "pending" as const, pnl: 0, entryPrice: 100, stopLoss: 99, lot: 1, symbol: "XYZ" },
+    ];
+
+    expect(getMonteCarloSamples(trades, "r")).toEqual([2]);
+    expect(getMonteCarloSamples(trades, "pnl")).toEqual([200, -100]);
+  });
+});
+
+describe("runMonteCarlo", () => {
+  it("should be reproducible with the same seed", () => {
+    const samples = [2, -1, -1, 1.5, -1, 3];
+    expect(runMonteCarlo(samples, baseConfig)).toEqual(runMonteCarlo(samples, baseConfig));
+  });
+
+  it("should build ordered percentile bands starting at the balance", () => {
+    const result = runMonteCarlo([2, -1, -1, 1.5, -1, 3], baseConfig);
+
+    expect(result.bands).toHaveLength(51);
+    expect(result.bands[0]).toEqual({
+      trade: 0,
+      p5: 10000,
+      p25: 10000,
+      p50: 10000,
+      p75: 10000,
+      p95: 10000,
+    });
+    result.bands.forEach((band) => {
+      expect(band.p5).toBeLessThanOrEqual(band.p25);
+      expect(band.p25).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p75);
+      expect(band.p75).toBeLessThanOrEqual(band.p95);
+    });
+  });
+
+  it("should never ruin or hit limits when every trade wins", () => {
+    const result = runMonteCarlo([1], baseConfig);
+
+    expect(result.riskOfRuin).toBe(0);
+    expect(result.drawdownLimitProbability).toBe(0);
+    expect(result.profitProbability).toBe(100);
+    expect(result.maxLosingStreak).toEqual({ expected: 0, p95: 0 });
+    // 1% risk compounded over 50 wins
+    expect(result.finalBalance.p50).toBeCloseTo(10000 * 1.01 ** 50, 0);
+  });
+
+  it("should ruin every path when every trade loses", () => {
+    const result = runMonteCarlo([-1], { ...baseConfig, riskPercent: 5, tradesPerPath: 100 });
+
+    expect(result.riskOfRuin).toBe(100);
+    expect(result.drawdownLimitProbability).toBe(100);
+    expect(result.maxLosingStreak.expected).toBeGreaterThanOrEqual(14);
+  });
+
+  it("should replay PnL without compounding in PnL mode", () => {
+    const result = runMonteCarlo([-100], {
+      ...baseConfig,
+      mode: "pnl",
+      tradesPerPath: 5,
+      drawdownLimitPercent: 0,
+    });
+
+    expect(result.finalBalance.p50).toBe(9500);
+    expect(result.drawdownLimitProbability).toBe(0);
+    expect(result.maxLosingStreak.expected).toBe(5);
+  });
+});
+
+describe("getRiskOfRuinTable", () => {
+  it("should grow the risk of ruin with the risk per trade", () => {
+    const table = getRiskOfRuinTable(
+      [1.2, -1, -1, 2, -1],
+      { ...baseConfig, tradesPerPath: 200 },
+      [1, 5, 10]
+    );
+
+    expect(table.map((row) => row.riskPercent)).toEqual([1, 5, 10]);
+    expect(table[0].riskOfRuin).toBeLessThanOrEqual(table[1].riskOfRuin);
+    expect(table[1].riskOfRuin).toBeLessThanOrEqual(table[2].riskOfRuin);
+  });
+});
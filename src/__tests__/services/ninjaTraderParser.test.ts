@@ -1,7 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { detectColumnMapping } from "../../services/trades/importParsers";
+import fs from "fs";
+import path from "path";
+import { detectColumnMapping, transformTrades } from "../../services/trades/importParsers";
 import {
   cleanSymbol,
+  isNinjaTraderExecutionsExport,
   normalizeTradeType,
   parseNinjaTraderContent,
   parseNinjaTraderDate,
@@ -117,4 +120,53 @@ describe("NinjaTrader Import Logic", () => {
       expect(result.data[0]["Qty"]).toBe("2");
     });
   });
+
+  describe("Executions export", () => {
+    const content = fs.readFileSync(
+      path.resolve(__dirname, "../fixtures/import/ninjatrader_executions.csv"),
+      "utf-8"
+    );
+
+    it("tells the Executions export apart from the Trades grid", () => {
+      expect(isNinjaTraderExecutionsExport(["Instrument", "Action", "Price", "E/X"])).toBe(true);
+      expect(isNinjaTraderExecutionsExport(["Trade number", "Instrument", "Action", "Price"])).toBe(
+        false
+      );
+    });
+
+    it("rebuilds round trips with scale-ins, reversal and overnight carry", () => {
+      const result = parseNinjaTraderContent(content);
+
+      expect(result.data.map((row) => [row.Type, row.Volume, row.Profit, row.Commission])).toEqual([
+        ["Buy", "1", "40", "-1.24"],
+        ["Buy", "1", "20", "-1.24"],
+        ["Buy", "1", "10", "-1.24"],
+        ["Sell", "3", "120", "-3.72"],
+      ]);
+      expect(result.data[3]).toMatchObject({
+        "Open Time": "2025-01-13 10:30:00",
+        "Close Time": "2025-01-14 09:31:00",
+        Symbol: "MNQ 03-25",
+        Account: "Sim101",
+      });
+      expect(result.totalNetProfit).toBe(182.56);
+      // ES exit belongs to a position opened before the export
+      expect(result.warnings).toEqual([expect.stringContaining("ES 03-25")]);
+    });
+
+    it("feeds the NinjaTrader import pipeline", () => {
+      const { data } = parseNinjaTraderContent(content);
+      const mapping = detectColumnMapping(Object.keys(data[0]));
+      const trades = transformTrades(data, mapping, "ninjatrader", "", "acc-1");
+
+      expect(trades).toHaveLength(4);
+      expect(trades[3]).toMatchObject({
+        symbol: "MNQ",
+        type: "Short",
+        lot: 3,
+        commission: -3.72,
+        pnl: 116.28,
+      });
+    });
+  });
 });
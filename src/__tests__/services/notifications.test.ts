@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildImportNotification,
+  buildReviewNotification,
+  buildReviewReplyNotification,
+  buildRuleBreachNotification,
+  buildTradeCommentNotification,
+  getNewRuleBreaches,
+  isNotificationEnabled,
+  normalizeNotificationSettings,
+  shouldNotifyShareView,
+  type RuleBreachDraft,
+} from "../../services/notifications";
+import type { MentorReview, ReviewReply } from "../../types";
+
+const review = (overrides: Partial<MentorReview> = {}): MentorReview => ({
+  id: "review-1",
+  mentorId: "mentor-1",
+  menteeId: "user-1",
+  tradeId: "trade-1",
+  reviewType: "correction",
+  content: "Stop muito curto",
+  isRead: false,
+  status: "open",
+  createdAt: "2026-10-19T10:00:00Z",
+  updatedAt: "2026-10-19T10:00:00Z",
+  entryDate: "2026-10-18T00:00:00Z",
+  entryAccountId: "acc-1",
+  ...overrides,
+});
+
+const breach = (overrides: Partial<RuleBreachDraft> = {}): RuleBreachDraft => ({
+  rule: "daily_loss",
+  breachDate: "2026-10-18",
+  tradeId: "trade-1",
+  value: 550,
+  limit: 500,
+  ...overrides,
+});
+
+describe("isNotificationEnabled", () => {
+  it("should enable every type without settings", () => {
+    expect(isNotificationEnabled(undefined, "share_view")).toBe(true);
+  });
+
+  it("should skip disabled types", () => {
+    const settings = { disabledTypes: ["share_view" as const] };
+    expect(isNotificationEnabled(settings, "share_view")).toBe(false);
+    expect(isNotificationEnabled(settings, "feedback")).toBe(true);
+  });
+});
+
+describe("normalizeNotificationSettings", () => {
+  it("should keep only known disabled types", () => {
+    expect(normalizeNotificationSettings({ disabledTypes: ["mention", "sms", 3] })).toEqual({
+      disabledTypes: ["mention"],
+    });
+    expect(normalizeNotificationSettings(null)).toEqual({ disabledTypes: [] });
+  });
+});
+
+describe("buildReviewNotification", () => {
+  it("should link to the reviewed day of the mentee's dashboard", () => {
+    const notification = buildReviewNotification(review());
+
+    expect(notification).toMatchObject({
+      type: "feedback",
+      message: "Nova correção recebida.",
+      link: "/dashboard/acc-1?date=2026-10-18",
+      data: { reviewId: "review-1", tradeId: "trade-1" },
+    });
+  });
+
+  it("should have no link without the entry account", () => {
+    expect(buildReviewNotification(review({ entryAccountId: undefined })).link).toBeUndefined();
+  });
+});
+
+describe("buildReviewReplyNotification", () => {
+  const reply: ReviewReply = {
+    id: "reply-1",
+    reviewId: "review-1",
+    authorId: "user-1",
+    authorName: "joao",
+    content: "Entendi, @ana",
+    mentions: ["mentor-1"],
+    createdAt: "2026-10-19T11:00:00Z",
+    updatedAt: "2026-10-19T11:00:00Z",
+  };
+
+  it("should send mentors to their inbox and the mentee to the reviewed day", () => {
+    const toMentor = buildReviewReplyNotification(review(), reply, "mentor-1", "mention");
+    const toMentee = buildReviewReplyNotification(review(), reply, "user-1");
+
+    expect(toMentor).toMatchObject({
+      type: "mention",
+      title: "Você foi mencionado",
+      message: "joao: Entendi, @ana",
+      link: "/mentor",
+    });
+    expect(toMentee.type).toBe("review_reply");
+    expect(toMentee.link).toBe("/dashboard/acc-1?date=2026-10-18");
+  });
+});
+
+describe("buildTradeCommentNotification", () => {
+  it("should truncate long comments", () => {
+    const notification = buildTradeCommentNotification({
+      id: "comment-1",
+      tradeId: "trade-1",
+      userName: "Ana",
+      content: "x".repeat(120),
+    });
+
+    expect(notification.message.startsWith("Ana: ")).toBe(true);
+    expect(notification.message.length).toBe("Ana: ".length + 80);
+  });
+});
+
+describe("shouldNotifyShareView", () => {
+  it("should notify on the first view and on milestones only", () => {
+    expect(shouldNotifyShareView(1)).toBe(true);
+    expect(shouldNotifyShareView(2)).toBe(false);
+    expect(shouldNotifyShareView(10)).toBe(true);
+    expect(shouldNotifyShareView(11)).toBe(false);
+  });
+});
+
+describe("getNewRuleBreaches", () => {
+  it("should return only breaches not persisted before", () => {
+    const previous = [breach()];
+    const current = [breach(), breach({ breachDate: "2026-10-19", tradeId: "trade-2" })];
+
+    expect(getNewRuleBreaches(previous, current)).toEqual([current[1]]);
+  });
+
+  it("should tell apart breaches of different rules on the same day", () => {
+    const current = [breach(), breach({ rule: "max_drawdown" })];
+
+    expect(getNewRuleBreaches([breach()], current)).toEqual([current[1]]);
+  });
+});
+
+describe("buildRuleBreachNotification", () => {
+  it("should name the rule and the account", () => {
+    const notification = buildRuleBreachNotification(breach(), { id: "acc-1", name: "FTMO 100k" });
+
+    expect(notification.title).toBe("Regra violada: Perda Diária");
+    expect(notification.message).toContain("FTMO 100k");
+    expect(notification.link).toBe("/dashboard/acc-1?date=2026-10-18");
+  });
+});
+
+describe("buildImportNotification", () => {
+  it("should only mention the counts that happened", () => {
+    const notification = buildImportNotification({
+      accountId: "acc-1",
+      fileName: "mt5.html",
+      count: 12,
+      skipped: 3,
+    });
+
+    expect(notification.message).toBe("mt5.html: 12 trade(s) importado(s), 3 ignorado(s).");
+    expect(notification.link).toBe("/dashboard/acc-1");
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffPlaybookVersions,
+  getPlaybookVersionStats,
+  hasPlaybookContentChanged,
+  normalizeRuleGroups,
+  resolvePlaybookVersion,
+} from "../../services/trades/playbookVersions";
+
+const v1 = {
+  name: "Silver Bullet",
+  description: "NY AM",
+  ruleGroups: [
+    { id: "entry", name: "Entrada", rules: ["Esperar FVG", "Confirmação M5"] },
+    { id: "risk", name: "Gestão", rules: ["Stop técnico"] },
+  ],
+};
+
+describe("normalizeRuleGroups", () => {
+  it("should drop groups without an id or name and rules that are not strings", () => {
+    expect(
+      normalizeRuleGroups([
+        { id: "g1", name: "Entrada", rules: ["Rompimento", 2] },
+        { name: "Sem id", rules: [] },
+        { id: "g2", name: "Saída" },
+      ])
+    ).toEqual([
+      { id: "g1", name: "Entrada", rules: ["Rompimento"] },
+      { id: "g2", name: "Saída", rules: [] },
+    ]);
+    expect(normalizeRuleGroups(null)).toEqual([]);
+  });
+});
+
+describe("hasPlaybookContentChanged", () => {
+  it("should detect rule, name and description changes", () => {
+    expect(
+      hasPlaybookContentChanged(v1, {
+        ruleGroups: [{ ...v1.ruleGroups[0], rules: ["Esperar FVG"] }, v1.ruleGroups[1]],
+      })
+    ).toBe(true);
+    expect(hasPlaybookContentChanged(v1, { name: "Silver Bullet 2" })).toBe(true);
+    expect(hasPlaybookContentChanged(v1, { description: "" })).toBe(true);
+  });
+
+  it("should ignore unchanged content and whitespace around rules", () => {
+    expect(hasPlaybookContentChanged(v1, {})).toBe(false);
+    expect(
+      hasPlaybookContentChanged(v1, {
+        name: "Silver Bullet",
+        ruleGroups: [
+          { ...v1.ruleGroups[0], rules: [" Esperar FVG ", "Confirmação M5"] },
+          v1.ruleGroups[1],
+        ],
+      })
+    ).toBe(false);
+  });
+});
+
+describe("diffPlaybookVersions", () => {
+  it("should list added and removed rules per group", () => {
+    const v2 = {
+      ...v1,
+      ruleGroups: [
+        { id: "entry", name: "Entrada", rules: ["Esperar FVG", "Killzone NY"] },
+        { id: "exit", name: "Saída", rules: ["Parcial em 1R"] },
+      ],
+    };
+
+    const diff = diffPlaybookVersions(v1, v2);
+
+    expect(diff.name).toBeNull();
+    expect(diff.groups).toEqual([
+      {
+        name: "Entrada",
+        added: ["Killzone NY"],
+        removed: ["Confirmação M5"],
+        kept: ["Esperar FVG"],
+      },
+      { name: "Saída", added: ["Parcial em 1R"], removed: [], kept: [] },
+      { name: "Gestão", added: [], removed: ["Stop técnico"], kept: [] },
+    ]);
+    expect(diff.changes).toBe(4);
+  });
+
+  it("should report name and description changes", () => {
+    const diff = diffPlaybookVersions(v1, { ...v1, name: "SB", description: undefined });
+
+    expect(diff.name).toEqual({ from: "Silver Bullet", to: "SB" });
+    expect(diff.description).toEqual({ from: "NY AM", to: "" });
+    expect(diff.changes).toBe(0);
+  });
+});
+
+describe("resolvePlaybookVersion", () => {
+  const versions = [
+    { version: 2, createdAt: "2026-03-10T15:00:00.000Z" },
+    { version: 1, createdAt: "2026-01-05T10:00:00.000Z" },
+    { version: 3, createdAt: "2026-06-01T09:00:00.000Z" },
+  ];
+
+  it("should pick the latest version created at or before the entry", () => {
+    expect(resolvePlaybookVersion(versions, "2026-03-09", "16:00", "UTC")).toBe(1);
+    expect(resolvePlaybookVersion(versions, "2026-03-10", "15:30", "UTC")).toBe(2);
+    expect(resolvePlaybookVersion(versions, "2026-10-19", "09:00", "UTC")).toBe(3);
+  });
+
+  it("should keep trades taken earlier on the day of an edit on the old version", () => {
+    expect(resolvePlaybookVersion(versions, "2026-03-10", "14:59", "UTC")).toBe(1);
+  });
+
+  it("should read the entry time in the user's timezone", () => {
+    // 13:00 in São Paulo is 16:00 UTC, after version 2 was created
+    expect(resolvePlaybookVersion(versions, "2026-03-10", "13:00", "America/Sao_Paulo")).toBe(2);
+    // 05:00 in São Paulo is 08:00 UTC, before version 3 was created that day
+    expect(resolvePlaybookVersion(versions, "2026-06-01", "05:00", "America/Sao_Paulo")).toBe(2);
+  });
+
+  it("should take trades without an entry time at the start of their day", () => {
+    expect(resolvePlaybookVersion(versions, "2026-03-10", undefined, "UTC")).toBe(1);
+  });
+
+  it("should fall back to the first version for older trades", () => {
+    expect(resolvePlaybookVersion(versions, "2025-12-01", "10:00", "UTC")).toBe(1);
+    expect(resolvePlaybookVersion([], "2026-01-01", "10:00", "UTC")).toBeUndefined();
+  });
+});
+
+describe("getPlaybookVersionStats", () => {
+  it("should aggregate the closed trades pinned to each version", () => {
+    const stats = getPlaybookVersionStats(
+      [{ version: 2 }, { version: 1 }],
+      [
+        { playbookVersion: 1, outcome: "win", pnl: 300 },
+        { playbookVersion: 1, outcome: "loss", pnl: -100 },
+        { playbookVersion: 2, outcome: "loss", pnl: -50 },
+        { playbookVersion: 2, outcome: "pending", pnl: 0 },
+        { outcome: "win", pnl: 999 },
+      ]
+    );
+
+    expect(stats).toEqual([
+      { version: 1, totalTrades: 2, wins: 1, winRate: 50, netPnl: 200, expectancy: 100 },
+      { version: 2, totalTrades: 2, wins: 0, winRate: 0, netPnl: -50, expectancy: -50 },
+    ]);
+  });
+});
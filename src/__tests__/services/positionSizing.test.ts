@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateKellyPercent,
+  calculatePositionSize,
+  getAllowedRisk,
+  getBalanceAtEntry,
+  getTradeRiskCheck,
+  MIN_KELLY_TRADES,
+  normalizeSizingSettings,
+  type KellyStats,
+} from "../../services/trades/positionSizing";
+import { DEFAULT_SIZING_SETTINGS, type SizingSettings } from "../../types";
+
+const settings = (overrides: Partial<SizingSettings> = {}): SizingSettings => ({
+  ...DEFAULT_SIZING_SETTINGS,
+  ...overrides,
+});
+
+const stats = (overrides: Partial<KellyStats> = {}): KellyStats => ({
+  totalTrades: 50,
+  winRate: 50,
+  avgWin: 200,
+  avgLoss: 100,
+  ...overrides,
+});
+
+describe("positionSizing", () => {
+  describe("calculateKellyPercent", () => {
+    it("should compute W - (1 - W) / R in percent", () => {
+      // 0.5 - 0.5 / 2 = 0.25
+      expect(calculateKellyPercent(stats())).toBe(25);
+    });
+
+    it("should floor negative edges at zero", () => {
+      expect(calculateKellyPercent(stats({ winRate: 20, avgWin: 100 }))).toBe(0);
+    });
+
+    it("should return null without enough trades or losses", () => {
+      expect(calculateKellyPercent(stats({ totalTrades: MIN_KELLY_TRADES - 1 }))).toBeNull();
+      expect(calculateKellyPercent(stats({ avgLoss: 0 }))).toBeNull();
+      expect(calculateKellyPercent(undefined)).toBeNull();
+    });
+  });
+
+  describe("getAllowedRisk", () => {
+    it("should risk a percent of the balance for fixed fractional", () => {
+      expect(getAllowedRisk(settings({ riskPercent: 2 }), 10000)).toEqual({
+        riskAmount: 200,
+        riskPercent: 2,
+      });
+    });
+
+    it("should risk a fixed amount for fixed amount", () => {
+      expect(getAllowedRisk(settings({ method: "fixed_amount", riskAmount: 50 }), 10000)).toEqual({
+        riskAmount: 50,
+        riskPercent: 0.5,
+      });
+    });
+
+    it("should risk a fraction of Kelly capped by the risk percent", () => {
+      const kelly = settings({ method: "kelly", kellyFraction: 0.25, riskPercent: 10 });
+      // 25% Kelly × 0.25 = 6.25%
+      expect(getAllowedRisk(kelly, 10000, stats())).toMatchObject({
+        riskAmount: 625,
+        riskPercent: 6.25,
+        kellyPercent: 25,
+      });
+      expect(getAllowedRisk({ ...kelly, riskPercent: 2 }, 10000, stats())?.riskPercent).toBe(2);
+    });
+
+    it("should return null without balance or Kelly stats", () => {
+      expect(getAllowedRisk(settings(), 0)).toBeNull();
+      expect(getAllowedRisk(settings({ method: "kelly" }), 10000)).toBeNull();
+    });
+  });
+
+  describe("calculatePositionSize", () => {
+    it("should size the position from the stop distance and multiplier", () => {
+      // 1% of 10k = 100; 50 points × 2 = 100 per contract
+      const result = calculatePositionSize({
+        balance: 10000,
+        entryPrice: 15000,
+        stopLoss: 14950,
+        multiplier: 2,
+        settings: settings(),
+        lotStep: 1,
+      });
+
+      expect(result).toMatchObject({ riskPerLot: 100, lots: 1, actualRisk: 100 });
+    });
+
+    it("should round down to the lot step", () => {
+      // 100 / (0.003 × 100000) = 0.333... lots
+      const result = calculatePositionSize({
+        balance: 10000,
+        entryPrice: 1.085,
+        stopLoss: 1.082,
+        multiplier: 100000,
+        settings: settings(),
+      });
+
+      expect(result?.lots).toBe(0.33);
+      expect(result?.actualRisk).toBe(99);
+    });
+
+    it("should not lose a step on exact multiples", () => {
+      const result = calculatePositionSize({
+        balance: 3000,
+        entryPrice: 101,
+        stopLoss: 100,
+        multiplier: 100,
+        settings: settings(),
+      });
+
+      expect(result?.lots).toBe(0.3);
+    });
+
+    it("should return null without stop distance", () => {
+      expect(
+        calculatePositionSize({
+          balance: 10000,
+          entryPrice: 100,
+          stopLoss: 100,
+          multiplier: 1,
+          settings: settings(),
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("getBalanceAtEntry", () => {
+    const history = [
+      { exitDate: "2025-01-10", exitTime: "15:00:00", pnl: 500 },
+      { exitDate: "2025-01-13", exitTime: "10:30:00", pnl: -200 },
+      // Closed after the checked trade's entry: the balance has moved since
+      { exitDate: "2025-01-13", exitTime: "16:00:00", pnl: 5000 },
+      { exitDate: undefined, pnl: undefined },
+    ];
+
+    it("should add the PnL of the trades closed before the entry", () => {
+      expect(
+        getBalanceAtEntry({ entryDate: "2025-01-13", entryTime: "11:00:00" }, history, 10000)
+      ).toBe(10300);
+    });
+
+    it("should flag a past trade against the balance it was sized with", () => {
+      const trade = { entryDate: "2025-01-13", entryTime: "11:00:00" };
+      const balance = getBalanceAtEntry(trade, history, 10000);
+      // 1% of 10300 = 103; with today's 15300 it would be 153 and pass
+      const check = getTradeRiskCheck(
+        { entryPrice: 100, stopLoss: 98.5, lot: 1 },
+        balance,
+        100,
+        settings()
+      );
+
+      expect(check).toMatchObject({ allowedRisk: 103, actualRisk: 150, exceeded: true });
+    });
+  });
+
+  describe("getTradeRiskCheck", () => {
+    it("should flag trades above the configured risk", () => {
+      // 0.006 × 1 lot × 100000 = 600 vs 1% of 10k = 100
+      const check = getTradeRiskCheck(
+        { entryPrice: 1.085, stopLoss: 1.079, lot: 1 },
+        10000,
+        100000,
+        settings()
+      );
+
+      expect(check).toMatchObject({
+        actualRisk: 600,
+        allowedRisk: 100,
+        actualRiskPercent: 6,
+        excessPct: 500,
+        exceeded: true,
+      });
+    });
+
+    it("should tolerate small excesses from lot rounding", () => {
+      const check = getTradeRiskCheck(
+        { entryPrice: 100, stopLoss: 99, lot: 1.05 },
+        10000,
+        100,
+        settings()
+      );
+
+      expect(check?.excessPct).toBe(5);
+      expect(check?.exceeded).toBe(false);
+    });
+
+    it("should compare with the fixed amount", () => {
+      const check = getTradeRiskCheck(
+        { entryPrice: 100, stopLoss: 99, lot: 1 },
+        10000,
+        100,
+        settings({ method: "fixed_amount", riskAmount: 50 })
+      );
+
+      expect(check?.allowedRisk).toBe(50);
+      expect(check?.exceeded).toBe(true);
+    });
+
+    it("should skip trades without stop", () => {
+      expect(
+        getTradeRiskCheck({ entryPrice: 100, stopLoss: 0, lot: 1 }, 10000, 1, settings())
+      ).toBeNull();
+    });
+  });
+
+  describe("normalizeSizingSettings", () => {
+    it("should fall back to the defaults for unknown methods and invalid risks", () => {
+      expect(
+        normalizeSizingSettings({ method: "martingale", riskPercent: 2, riskAmount: -50 })
+      ).toEqual(settings({ riskPercent: 2 }));
+      expect(normalizeSizingSettings(undefined)).toEqual(DEFAULT_SIZING_SETTINGS);
+    });
+  });
+});
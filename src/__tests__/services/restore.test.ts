@@ -0,0 +1,290 @@
+import { describe, it, expect } from "vitest";
+import {
+  mergeSettings,
+  parseBackupData,
+  planBackupRestore,
+  type RestoreContext,
+} from "../../services/trades/restore";
+import type { ExportData } from "../../services/trades/export";
+import type { Account, Trade } from "../../types";
+
+const account = (overrides: Partial<Account> = {}): Account => ({
+  id: "old-acc",
+  userId: "user-1",
+  name: "FTMO 100k",
+  currency: "USD",
+  initialBalance: 100000,
+  currentBalance: 101500,
+  leverage: "1:100",
+  maxDrawdown: 10,
+  createdAt: "2025-01-01T00:00:00+00:00",
+  updatedAt: "2025-01-01T00:00:00+00:00",
+  ...overrides,
+});
+
+const trade = (overrides: Partial<Trade> = {}): Trade =>
+  ({
+    id: "old-trade",
+    userId: "user-1",
+    accountId: "old-acc",
+    symbol: "NQ",
+    type: "Long",
+    entryPrice: 21500.25,
+    stopLoss: 0,
+    takeProfit: 0,
+    lot: 1,
+    entryDate: "2025-01-13",
+    entryTime: "09:30:00",
+    pnl: 1500,
+    legs: [
+      {
+        id: "old-leg",
+        tradeId: "old-trade",
+        side: "entry",
+        price: 21500.25,
+        quantity: 1,
+        executedDate: "2025-01-13",
+      },
+    ],
+    createdAt: "2025-01-13T12:00:00+00:00",
+    updatedAt: "2025-01-13T12:00:00+00:00",
+    ...overrides,
+  }) as Trade;
+
+const backup = (overrides: Partial<ExportData> = {}): ExportData => ({
+  exportedAt: "2025-02-01T00:00:00.000Z",
+  version: "2.0",
+  accounts: [account()],
+  trades: [trade()],
+  journalEntries: [
+    {
+      id: "old-entry",
+      userId: "user-1",
+      accountId: "old-acc",
+      date: "2025-01-13",
+      title: "NQ open",
+      tradeIds: ["old-trade", "missing-trade"],
+      images: [],
+      createdAt: "2025-01-13T12:00:00+00:00",
+      updatedAt: "2025-01-13T12:00:00+00:00",
+    },
+  ],
+  playbooks: [
+    {
+      id: "old-pb",
+      userId: "user-1",
+      name: "ORB",
+      icon: "📈",
+      color: "#3B82F6",
+      ruleGroups: [],
+      createdAt: "2025-01-01T00:00:00+00:00",
+      updatedAt: "2025-01-01T00:00:00+00:00",
+    },
+  ],
+  routines: [],
+  settings: null,
+  laboratoryExperiments: [
+    {
+      id: "old-exp",
+      userId: "user-1",
+      title: "Gap fill",
+      status: "em_aberto",
+      promotedToPlaybook: false,
+      images: [],
+      linkedTrades: [{ tradeId: "old-trade", category: "pro" }],
+      createdAt: "2025-01-10T10:00:00+00:00",
+      updatedAt: "2025-01-10T10:00:00+00:00",
+    },
+  ],
+  laboratoryRecaps: [],
+  mentalLogs: [{ id: "old-log", step1Problem: "FOMO", createdAt: "2025-01-13T15:00:00+00:00" }],
+  ...overrides,
+});
+
+const emptyContext = (overrides: Partial<RestoreContext> = {}): RestoreContext => ({
+  accounts: [],
+  trades: [],
+  journalEntries: [],
+  playbooks: [],
+  routines: [],
+  settings: null,
+  laboratoryExperiments: [],
+  laboratoryRecaps: [],
+  mentalLogs: [],
+  ...overrides,
+});
+
+const sequentialIds = () => {
+  let next = 0;
+  return () => `new-${++next}`;
+};
+
+describe("restore", () => {
+  describe("parseBackupData", () => {
+    it("rejects files that are not backups or have an unknown version", () => {
+      expect(() => parseBackupData([])).toThrow("Arquivo de backup inválido.");
+      expect(() => parseBackupData({ ...backup(), trades: {} })).toThrow(
+        "Arquivo de backup inválido."
+      );
+      expect(() => parseBackupData({ ...backup(), version: "9.0" })).toThrow(
+        "Versão de backup não suportada: 9.0."
+      );
+    });
+
+    it("names the first record with a missing or mistyped field", () => {
+      expect(() =>
+        parseBackupData({ ...backup(), trades: [trade(), { ...trade(), entryPrice: "21500" }] })
+      ).toThrow('Arquivo de backup inválido: trades[1] com "entryPrice" inválido.');
+      expect(() =>
+        parseBackupData({ ...backup(), trades: [trade({ legs: [{ side: "entry" }] as never })] })
+      ).toThrow('Arquivo de backup inválido: trades[0] com "legs" inválido.');
+      expect(() => parseBackupData({ ...backup(), mentalLogs: [null] })).toThrow(
+        'Arquivo de backup inválido: mentalLogs[0] com "registro" inválido.'
+      );
+      expect(() =>
+        parseBackupData({ ...backup(), settings: { currencies: ["USD"], assets: [] } })
+      ).toThrow('Arquivo de backup inválido: settings com "leverages" inválido.');
+    });
+
+    it("upgrades 1.0 backups without laboratory and mental logs", () => {
+      const v1: Partial<ExportData> = backup({ version: "1.0" });
+      delete v1.laboratoryExperiments;
+      delete v1.laboratoryRecaps;
+      delete v1.mentalLogs;
+
+      const parsed = parseBackupData(v1);
+
+      expect(parsed.laboratoryExperiments).toEqual([]);
+      expect(parsed.laboratoryRecaps).toEqual([]);
+      expect(parsed.mentalLogs).toEqual([]);
+    });
+  });
+
+  describe("planBackupRestore", () => {
+    it("remaps every ID and link when restoring to an empty user", () => {
+      const { plan, report } = planBackupRestore(
+        backup(),
+        emptyContext(),
+        "merge",
+        sequentialIds()
+      );
+
+      const accountId = plan.accounts[0].id;
+      const tradeId = plan.trades[0].id;
+      expect(plan.accounts[0]).toMatchObject({ name: "FTMO 100k", currentBalance: 100000 });
+      expect(plan.trades[0]).toMatchObject({ accountId, legs: [{ tradeId }] });
+      expect(plan.trades[0].legs?.[0].id).not.toBe("old-leg");
+      expect(plan.journalEntries[0]).toMatchObject({ accountId, tradeIds: [tradeId] });
+      expect(plan.laboratoryExperiments[0].linkedTrades).toEqual([{ tradeId, category: "pro" }]);
+      expect(report.counts.trades).toEqual({ restored: 1, skipped: 0 });
+      expect(report.conflicts).toEqual([]);
+    });
+
+    it("merges into accounts with the same name and skips records already present", () => {
+      const context = emptyContext({
+        accounts: [{ id: "acc-1", name: "FTMO 100k" }],
+        trades: [{ ...trade(), id: "trade-1", accountId: "acc-1", entryTime: "09:30:45" }],
+        journalEntries: [
+          { id: "entry-1", accountId: "acc-1", date: "2025-01-13", title: "NQ open" },
+        ],
+        playbooks: [{ id: "pb-1", name: "ORB" }],
+        laboratoryExperiments: [{ title: "Gap fill", createdAt: "2025-01-10T10:00:00.000Z" }],
+      });
+
+      const { plan, report } = planBackupRestore(
+        backup({ trades: [trade(), trade({ id: "old-trade-2", entryTime: "10:00:00" })] }),
+        context,
+        "merge",
+        sequentialIds()
+      );
+
+      expect(plan.accounts).toEqual([]);
+      expect(plan.trades.map((t) => t.accountId)).toEqual(["acc-1"]);
+      expect(plan.trades[0].entryTime).toBe("10:00:00");
+      expect(plan.journalEntries).toEqual([]);
+      expect(plan.playbooks).toEqual([]);
+      expect(plan.laboratoryExperiments).toEqual([]);
+      expect(plan.mentalLogs).toHaveLength(1);
+      expect(report.counts.trades).toEqual({ restored: 1, skipped: 1 });
+      expect(report.conflicts).toContainEqual({
+        entity: "accounts",
+        name: "FTMO 100k",
+        resolution: "merged",
+      });
+      expect(report.conflicts).toContainEqual(
+        expect.objectContaining({ entity: "playbooks", resolution: "skipped" })
+      );
+    });
+
+    it("restores to new accounts and renames name clashes in fresh mode", () => {
+      const context = emptyContext({
+        accounts: [
+          { id: "acc-1", name: "FTMO 100k" },
+          { id: "acc-2", name: "FTMO 100k (restaurada)" },
+        ],
+        trades: [{ ...trade(), id: "trade-1", accountId: "acc-1" }],
+        playbooks: [{ id: "pb-1", name: "ORB" }],
+      });
+
+      const { plan, report } = planBackupRestore(backup(), context, "fresh", sequentialIds());
+
+      expect(plan.accounts[0].name).toBe("FTMO 100k (restaurada 2)");
+      expect(plan.trades).toHaveLength(1);
+      expect(plan.trades[0].accountId).toBe(plan.accounts[0].id);
+      expect(plan.playbooks[0].name).toBe("ORB (restaurado)");
+      expect(report.conflicts.map((c) => c.resolution)).toEqual(["renamed", "renamed"]);
+    });
+
+    it("skips records whose account is not in the backup", () => {
+      const { plan, report } = planBackupRestore(
+        backup({ trades: [trade({ accountId: "deleted-acc" })] }),
+        emptyContext(),
+        "merge",
+        sequentialIds()
+      );
+
+      expect(plan.trades).toEqual([]);
+      expect(plan.journalEntries[0].tradeIds).toEqual([]);
+      expect(report.conflicts).toContainEqual({
+        entity: "trades",
+        name: "NQ 2025-01-13",
+        resolution: "skipped",
+        detail: "Conta não encontrada no backup",
+      });
+    });
+  });
+
+  it("merges settings as the union of both, keeping current asset multipliers", () => {
+    const merged = mergeSettings(
+      {
+        id: "set-1",
+        currencies: ["USD"],
+        leverages: ["1:100"],
+        assets: [{ symbol: "NQ", multiplier: 20 }],
+        strategies: ["ORB"],
+        setups: [],
+      },
+      {
+        currencies: ["USD", "BRL"],
+        leverages: ["1:100"],
+        assets: [
+          { symbol: "NQ", multiplier: 2 },
+          { symbol: "ES", multiplier: 50 },
+        ],
+        strategies: ["Pullback"],
+        setups: ["FVG"],
+      }
+    );
+
+    expect(merged).toMatchObject({
+      id: "set-1",
+      currencies: ["USD", "BRL"],
+      assets: [
+        { symbol: "NQ", multiplier: 20 },
+        { symbol: "ES", multiplier: 50 },
+      ],
+      strategies: ["ORB", "Pullback"],
+      setups: ["FVG"],
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  canSetThreadStatus,
+  extractMentions,
+  getMentionHandle,
+  getReplyRecipients,
+  isAwaitingReply,
+  splitMentions,
+} from "../../services/mentor";
+
+const candidates = [
+  { userId: "mentee-1", handle: "joao" },
+  { userId: "mentor-1", handle: "ana.silva" },
+];
+
+const review = { mentorId: "mentor-1", menteeId: "mentee-1", status: "open" as const };
+
+describe("getMentionHandle", () => {
+  it("should use the lowercased email local part", () => {
+    expect(getMentionHandle("Ana.Silva+trading@example.com")).toBe("ana.silvatrading");
+  });
+});
+
+describe("extractMentions", () => {
+  it("should find known handles once, ignoring emails and unknown handles", () => {
+    const content =
+      "@Ana.Silva olhei o stop. Obrigado @joao. @joao, mande para ana@example.com @pedro";
+
+    expect(extractMentions(content, candidates)).toEqual(["mentor-1", "mentee-1"]);
+  });
+});
+
+describe("splitMentions", () => {
+  it("should split known mentions out of the text", () => {
+    expect(splitMentions("Valeu @ana.silva.", ["ana.silva"])).toEqual([
+      { text: "Valeu ", mention: false },
+      { text: "@ana.silva", mention: true },
+      { text: ".", mention: false },
+    ]);
+  });
+
+  it("should keep unknown handles as text", () => {
+    expect(splitMentions("oi @pedro", ["ana.silva"])).toEqual([
+      { text: "oi @pedro", mention: false },
+    ]);
+  });
+});
+
+describe("canSetThreadStatus", () => {
+  it("should let only the mentee acknowledge an open thread", () => {
+    expect(canSetThreadStatus(review, "mentee-1", "acknowledged")).toBe(true);
+    expect(canSetThreadStatus(review, "mentor-1", "acknowledged")).toBe(false);
+    expect(canSetThreadStatus({ ...review, status: "resolved" }, "mentee-1", "acknowledged")).toBe(
+      false
+    );
+  });
+
+  it("should let either participant resolve and reopen, but nobody else", () => {
+    expect(canSetThreadStatus(review, "mentor-1", "resolved")).toBe(true);
+    expect(canSetThreadStatus({ ...review, status: "resolved" }, "mentee-1", "open")).toBe(true);
+    expect(canSetThreadStatus(review, "mentor-1", "open")).toBe(false);
+    expect(canSetThreadStatus(review, "stranger", "resolved")).toBe(false);
+  });
+});
+
+describe("isAwaitingReply", () => {
+  it("should wait for the mentee until they reply to the review", () => {
+    expect(isAwaitingReply(review, undefined, "mentor-1")).toBe(false);
+    expect(isAwaitingReply(review, { authorId: "mentee-1" }, "mentor-1")).toBe(true);
+  });
+});
+
+describe("getReplyRecipients", () => {
+  it("should notify mentions instead of the reply, never the author", () => {
+    expect(getReplyRecipients(review, { authorId: "mentee-1", mentions: [] })).toEqual({
+      replied: ["mentor-1"],
+      mentioned: [],
+    });
+    expect(
+      getReplyRecipients(review, { authorId: "mentee-1", mentions: ["mentor-1", "mentee-1"] })
+    ).toEqual({ replied: [], mentioned: ["mentor-1"] });
+  });
+});
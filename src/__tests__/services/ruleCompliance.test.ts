@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { normalizeRuleCompliance, pickPlaybookRules } from "../../services/trades/ruleCompliance";
+
+describe("normalizeRuleCompliance", () => {
+  it("should trim and dedupe rules, counting conflicting marks as broken", () => {
+    expect(
+      normalizeRuleCompliance({
+        followed: [" Esperar FVG", "Esperar FVG", "Stop técnico", 3],
+        broken: ["Stop técnico"],
+      })
+    ).toEqual({ followed: ["Esperar FVG"], broken: ["Stop técnico"] });
+  });
+
+  it("should return undefined for empty or invalid values", () => {
+    expect(normalizeRuleCompliance(null)).toBeUndefined();
+    expect(normalizeRuleCompliance("rules")).toBeUndefined();
+    expect(normalizeRuleCompliance({ followed: [], broken: [] })).toBeUndefined();
+  });
+});
+
+describe("pickPlaybookRules", () => {
+  it("should drop rules that are not in the playbook", () => {
+    const ruleGroups = [{ id: "g1", name: "Entrada", rules: ["Esperar FVG"] }];
+
+    expect(
+      pickPlaybookRules({ followed: ["Esperar FVG", "Regra antiga"], broken: [] }, ruleGroups)
+    ).toEqual({ followed: ["Esperar FVG"], broken: [] });
+    expect(pickPlaybookRules({ followed: ["Regra antiga"], broken: [] }, ruleGroups)).toBe(
+      undefined
+    );
+  });
+});
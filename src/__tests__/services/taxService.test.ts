@@ -4,6 +4,9 @@ import {
   calculateMonthlyTax,
   enrichTradesWithCosts,
   generateDARFData,
+  classifyB3Asset,
+  calculateMonthlyTaxReport,
+  calculateTaxPeriod,
   TaxCostsConfig,
   TaxableTrade,
 } from "@/services/analytics/tax";
@@ -296,4 +299,119 @@ describe("Tax Service", () => {
       expect(result).toHaveLength(0);
     });
   });
+
+  describe("classifyB3Asset", () => {
+    it("should classify futures, ETFs, units, FIIs and stocks", () => {
+      expect(classifyB3Asset("WINJ25")).toBe("future");
+      expect(classifyB3Asset("wdo")).toBe("future");
+      expect(classifyB3Asset("BOVA11")).toBe("etf");
+      expect(classifyB3Asset("TAEE11")).toBe("stock");
+      expect(classifyB3Asset("HGLG11")).toBe("fii");
+      expect(classifyB3Asset("PETR4")).toBe("stock");
+    });
+  });
+
+  describe("calculateMonthlyTaxReport", () => {
+    const noCosts: TaxCostsConfig = {
+      defaultBrokerageFee: 0,
+      defaultExchangeFeePct: 0,
+      defaultTaxesPct: 0,
+    };
+    const swing = (overrides: Partial<Trade>) =>
+      createMockTrade({ entryDate: "2023-10-02", exitDate: "2023-10-20", ...overrides });
+
+    it("should withhold 0.005% of the sale value on swing trades", () => {
+      const [trade] = enrichTradesWithCosts(
+        [swing({ symbol: "PETR4", lot: 1000, entryPrice: 30, exitPrice: 32, pnl: 2000 })],
+        noCosts
+      );
+
+      expect(trade.isDayTrade).toBe(false);
+      expect(trade.saleValue).toBe(32000);
+      expect(trade.irrf).toBeCloseTo(1.6);
+    });
+
+    it("should exempt stock swing profit when monthly sales are up to R$ 20.000", () => {
+      const trades = enrichTradesWithCosts(
+        [swing({ symbol: "PETR4", lot: 500, entryPrice: 30, exitPrice: 36, pnl: 3000 })],
+        noCosts
+      );
+
+      const report = calculateMonthlyTaxReport("2023-10", trades);
+
+      expect(report.stockSales).toBe(18000);
+      expect(report.stockExempt).toBe(true);
+      expect(report.swingTrade.exemptProfit).toBe(3000);
+      expect(report.swingTrade.taxDue).toBe(0);
+      expect(report.darf).toBeNull();
+    });
+
+    it("should tax swing at 15% and day trade at 20% with separate loss buckets", () => {
+      const trades = enrichTradesWithCosts(
+        [
+          swing({ id: "st", symbol: "VALE3", lot: 1000, entryPrice: 60, exitPrice: 62, pnl: 2000 }),
+          createMockTrade({ id: "dt", symbol: "WIN", pnl: -500 }),
+        ],
+        noCosts
+      );
+
+      const report = calculateMonthlyTaxReport("2023-10", trades, {
+        losses: { dayTrade: 0, swingTrade: 400, fii: 0 },
+        irrfCredit: 0,
+        pendingTax: 0,
+      });
+
+      expect(report.stockExempt).toBe(false);
+      expect(report.swingTrade.taxableBasis).toBe(1600);
+      expect(report.swingTrade.taxDue).toBe(240);
+      // Day trade loss is not offset against swing profit
+      expect(report.dayTrade.taxDue).toBe(0);
+      expect(report.carryOver.losses).toEqual({ dayTrade: 500, swingTrade: 0, fii: 0 });
+      // 0.005% of 62.000 withheld
+      expect(report.irrfDeduction).toBeCloseTo(3.1);
+      expect(report.darf?.code).toBe("6015");
+      expect(report.darf?.amount).toBeCloseTo(236.9);
+    });
+
+    it("should tax FII at 20% without the stock exemption", () => {
+      const trades = enrichTradesWithCosts(
+        [swing({ symbol: "HGLG11", lot: 10, entryPrice: 150, exitPrice: 160, pnl: 100 })],
+        noCosts
+      );
+
+      const report = calculateMonthlyTaxReport("2023-10", trades, {
+        losses: { dayTrade: 0, swingTrade: 1000, fii: 0 },
+        irrfCredit: 0,
+        pendingTax: 0,
+      });
+
+      expect(report.stockSales).toBe(0);
+      expect(report.fii.taxDue).toBe(20);
+      expect(report.swingTrade.tradeCount).toBe(0);
+      expect(report.carryOver.losses.swingTrade).toBe(1000);
+    });
+  });
+
+  describe("calculateTaxPeriod", () => {
+    it("should carry losses and tax below R$ 10 to the next month", () => {
+      const trades = enrichTradesWithCosts(
+        [
+          createMockTrade({ id: "1", entryDate: "2023-09-05", exitDate: "2023-09-05", pnl: -100 }),
+          createMockTrade({ id: "2", entryDate: "2023-10-05", exitDate: "2023-10-05", pnl: 140 }),
+          createMockTrade({ id: "3", entryDate: "2023-11-06", exitDate: "2023-11-06", pnl: 30 }),
+        ],
+        { defaultBrokerageFee: 0, defaultExchangeFeePct: 0, defaultTaxesPct: 0 }
+      );
+
+      const [sep, oct, nov] = calculateTaxPeriod(["2023-09", "2023-10", "2023-11"], trades);
+
+      expect(sep.carryOver.losses.dayTrade).toBe(100);
+      // Oct: (140 - 100) * 20% = 8 - IRRF 1.40 = 6.60, below the DARF minimum
+      expect(oct.darf).toBeNull();
+      expect(oct.carryOver.pendingTax).toBeCloseTo(6.6);
+      // Nov: 30 * 20% = 6 - IRRF 0.30 + 6.60 pending
+      expect(nov.darf?.amount).toBeCloseTo(12.3);
+      expect(nov.darf?.period).toBe("2023-11-30");
+    });
+  });
 });
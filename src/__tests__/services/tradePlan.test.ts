@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareTradeToPlan,
+  getPlanRiskReward,
+  normalizeTradePlanDraft,
+  tradePlanToTradeDraft,
+  type TradePlanDraft,
+} from "../../services/trades/tradePlan";
+import type { Trade, TradePlan } from "../../types";
+
+const draft = (overrides: Partial<TradePlanDraft> = {}): TradePlanDraft => ({
+  accountId: "acc-1",
+  symbol: "eurusd ",
+  type: "Long",
+  plannedEntry: 1.085,
+  plannedStop: 1.082,
+  plannedTarget: 1.091,
+  plannedLot: 1,
+  checkedRules: ["Tendência no H4", " "],
+  totalRules: 3,
+  bullishArgs: ["Sweep de liquidez"],
+  bearishArgs: [],
+  ...overrides,
+});
+
+const plan = (overrides: Partial<TradePlan> = {}): TradePlan => ({
+  ...normalizeTradePlanDraft(draft()),
+  id: "plan-1",
+  userId: "user-1",
+  status: "planned",
+  createdAt: "2025-01-13T09:00:00.000Z",
+  updatedAt: "2025-01-13T09:00:00.000Z",
+  ...overrides,
+});
+
+type ExecutedTrade = Parameters<typeof compareTradeToPlan>[1];
+
+const trade = (overrides: Partial<Trade> = {}): ExecutedTrade => ({
+  symbol: "EURUSD",
+  type: "Long",
+  entryPrice: 1.085,
+  stopLoss: 1.082,
+  lot: 1,
+  exitPrice: 1.091,
+  outcome: "win",
+  ...overrides,
+});
+
+describe("normalizeTradePlanDraft", () => {
+  it("should uppercase the symbol and drop empty rules", () => {
+    const result = normalizeTradePlanDraft(draft({ bullishPct: 120 }));
+
+    expect(result.symbol).toBe("EURUSD");
+    expect(result.checkedRules).toEqual(["Tendência no H4"]);
+    expect(result.bullishPct).toBe(100);
+  });
+
+  it("should reject a stop on the wrong side of the entry", () => {
+    expect(() => normalizeTradePlanDraft(draft({ plannedStop: 1.088 }))).toThrow(
+      "O stop deve ficar abaixo da entrada."
+    );
+    expect(() =>
+      normalizeTradePlanDraft(draft({ type: "Short", plannedStop: 1.088, plannedTarget: 1.091 }))
+    ).toThrow("O alvo deve ficar abaixo da entrada.");
+  });
+
+  it("should reject missing levels", () => {
+    expect(() => normalizeTradePlanDraft(draft({ plannedLot: NaN }))).toThrow(
+      "Entrada, stop, alvo e lote devem ser números positivos."
+    );
+  });
+});
+
+describe("getPlanRiskReward / tradePlanToTradeDraft", () => {
+  it("should compute the planned reward:risk", () => {
+    expect(getPlanRiskReward(plan())).toBe(2);
+  });
+
+  it("should prefill the trade form with the planned levels", () => {
+    expect(tradePlanToTradeDraft(plan())).toMatchObject({
+      symbol: "EURUSD",
+      entryPrice: 1.085,
+      stopLoss: 1.082,
+      takeProfit: 1.091,
+      lot: 1,
+      ruleCompliance: { followed: ["Tendência no H4"], broken: [] },
+    });
+  });
+});
+
+describe("compareTradeToPlan", () => {
+  it("should rate a trade executed as planned with 100% adherence", () => {
+    const result = compareTradeToPlan(plan(), trade());
+
+    expect(result).toMatchObject({ exit: "target", rating: 5, adherence: "100%", realizedR: 2 });
+    expect(result.deviations).toEqual([]);
+  });
+
+  it("should ignore slippage within the tolerance", () => {
+    const result = compareTradeToPlan(plan(), trade({ entryPrice: 1.0852 }));
+
+    expect(result.rating).toBe(5);
+  });
+
+  it("should penalize entry slippage and a widened stop", () => {
+    const result = compareTradeToPlan(
+      plan(),
+      trade({ entryPrice: 1.086, stopLoss: 1.08, exitPrice: 1.08, outcome: "loss" })
+    );
+
+    expect(result.entrySlippageR).toBe(0.33);
+    expect(result.stopChange).toBe("widened");
+    expect(result.exit).toBe("stop");
+    expect(result.rating).toBe(2);
+    expect(result.adherence).toBe("off-plan");
+  });
+
+  it("should flag an early exit as partial adherence", () => {
+    const result = compareTradeToPlan(plan(), trade({ exitPrice: 1.0875 }));
+
+    expect(result.exit).toBe("early");
+    expect(result.rating).toBe(4);
+    expect(result.adherence).toBe("partial");
+  });
+
+  it("should flag a loss beyond the stop", () => {
+    const result = compareTradeToPlan(plan(), trade({ exitPrice: 1.0805, outcome: "loss" }));
+
+    expect(result.exit).toBe("beyond-stop");
+    expect(result.rating).toBe(3);
+  });
+
+  it("should keep open trades without exit penalty", () => {
+    const result = compareTradeToPlan(
+      plan(),
+      trade({ exitPrice: undefined, outcome: "pending", lot: 1.5 })
+    );
+
+    expect(result.exit).toBe("open");
+    expect(result.realizedR).toBeNull();
+    expect(result.lotDeviationPct).toBe(50);
+    expect(result.rating).toBe(4);
+  });
+
+  it("should rate a trade in the opposite direction as off-plan", () => {
+    const result = compareTradeToPlan(
+      plan(),
+      trade({ type: "Short", stopLoss: 1.088, exitPrice: 1.079 })
+    );
+
+    expect(result.rating).toBe(1);
+    expect(result.adherence).toBe("off-plan");
+    expect(result.deviations[0]).toBe("Direção oposta à planejada");
+  });
+});
@@ -1,4 +1,6 @@
 import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
 import {
   parseTradovateMoney,
   parseTradovatePrice,
@@ -6,6 +8,7 @@ import {
   parseTradovateContent,
   determineTradovateDirection,
   cleanTradovateSymbol,
+  isTradovateFillsExport,
 } from "../../services/trades/tradovateParser";
 
 describe("Tradovate Import Logic", () => {
@@ -134,4 +137,50 @@ NQZ5,-2,0,0.25,334740350052,334740350077,1,25473.75,25473.75,$0.00,11/30/2025 20
       expect(() => parseTradovateContent("")).toThrow("File is empty");
     });
   });
+
+  describe("Fills export", () => {
+    const content = fs.readFileSync(
+      path.resolve(__dirname, "../fixtures/import/tradovate_fills.csv"),
+      "utf-8"
+    );
+
+    it("tells fills apart from the Performance report", () => {
+      expect(isTradovateFillsExport(["b/s", "contract", "price", "timestamp"])).toBe(true);
+      expect(isTradovateFillsExport(["symbol", "buyprice", "boughttimestamp"])).toBe(false);
+    });
+
+    it("pairs fills into Performance-shaped trades, including a flip", () => {
+      const result = parseTradovateContent(content);
+
+      expect(result.data).toEqual([
+        {
+          symbol: "NQH5",
+          qty: "2",
+          buyPrice: "21500.25",
+          sellPrice: "21510.25",
+          pnl: "400.00",
+          boughtTimestamp: "01/13/2025 09:35:12",
+          soldTimestamp: "01/13/2025 09:50:00",
+          duration: "14min 48sec",
+          buyFillId: "f1",
+          sellFillId: "f2",
+          commission: "-5.16",
+        },
+        expect.objectContaining({
+          qty: "1",
+          buyPrice: "21505.25",
+          sellPrice: "21510.25",
+          pnl: "100.00",
+          boughtTimestamp: "01/13/2025 10:05:00",
+          soldTimestamp: "01/13/2025 09:50:00",
+          commission: "-2.58",
+        }),
+      ]);
+      expect(
+        determineTradovateDirection(result.data[1].boughtTimestamp, result.data[1].soldTimestamp)
+      ).toBe("Short");
+      expect(result.totalPnL).toBe(500);
+      expect(result.warnings).toEqual([expect.stringContaining("MESH5")]);
+    });
+  });
 });
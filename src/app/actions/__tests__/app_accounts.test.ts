@@ -13,7 +13,10 @@ import {
   syncAllAccountsBalancesAction,
   getAccountById,
   getUserProfileAction,
+  evaluatePropFirmRulesAction,
 } from "../accounts";
+import { recordPropFirmBreaches } from "../_helpers/propFirm";
+import { notifyUser } from "../_helpers/notify";
 import {
   prismaAccountRepo,
   prismaSettingsRepo,
@@ -25,6 +28,7 @@ import { revalidateTag } from "next/cache";
 
 // Mocks
 vi.mock("@/lib/database/repositories");
+vi.mock("../_helpers/notify", () => ({ notifyUser: vi.fn() }));
 vi.mock("@/lib/database/auth", () => ({
   getCurrentUserId: vi.fn().mockResolvedValue("user-123"),
 }));
@@ -323,4 +327,61 @@ describe("App Account Actions", () => {
       expect(result).toBeNull();
     });
   });
+
+  describe("prop firm breaches", () => {
+    const propAccount = {
+      id: "acc-prop",
+      name: "Desafio 100k",
+      accountType: "prop_firm",
+      initialBalance: 100000,
+      maxDrawdown: 10,
+      propRules: { drawdownType: "static", dailyLossPercent: 5 },
+    };
+    const losingTrades = [
+      { id: "t-1", exitDate: "2024-03-01", exitTime: "09:30", pnl: -3000, outcome: "loss" },
+      { id: "t-2", exitDate: "2024-03-01", exitTime: "10:15", pnl: -2500, outcome: "loss" },
+    ];
+
+    beforeEach(() => {
+      (prismaAccountRepo.getById as Mock).mockResolvedValue({ data: propAccount, error: null });
+      (prismaTradeRepo.getByAccountId as Mock).mockResolvedValue({
+        data: losingTrades,
+        error: null,
+      });
+      (prismaSettingsRepo.getUserSettings as Mock).mockResolvedValue({ data: null, error: null });
+    });
+
+    it("should evaluate without writing breaches", async () => {
+      const result = await evaluatePropFirmRulesAction("acc-prop");
+
+      expect(result?.status).toBe("failed");
+      expect(prismaAccountRepo.replaceRuleBreaches).not.toHaveBeenCalled();
+      expect(notifyUser).not.toHaveBeenCalled();
+    });
+
+    it("should persist the breaches and notify only the new ones", async () => {
+      (prismaAccountRepo.getRuleBreaches as Mock).mockResolvedValue({
+        data: [{ rule: "max_drawdown", tradeId: "t-0", breachDate: "2024-02-28" }],
+        error: null,
+      });
+      (prismaAccountRepo.replaceRuleBreaches as Mock).mockResolvedValue({ data: 1, error: null });
+
+      await recordPropFirmBreaches(mockUserId, "acc-prop");
+
+      expect(prismaAccountRepo.replaceRuleBreaches).toHaveBeenCalledWith("acc-prop", mockUserId, [
+        expect.objectContaining({ rule: "daily_loss", tradeId: "t-2", breachDate: "2024-03-01" }),
+      ]);
+      expect(notifyUser).toHaveBeenCalledTimes(1);
+
+      (notifyUser as Mock).mockClear();
+      (prismaAccountRepo.getRuleBreaches as Mock).mockResolvedValue({
+        data: [{ rule: "daily_loss", tradeId: "t-2", breachDate: "2024-03-01" }],
+        error: null,
+      });
+
+      await recordPropFirmBreaches(mockUserId, "acc-prop");
+
+      expect(notifyUser).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,101 @@
+import { vi, describe, it, expect, beforeEach, Mock } from "vitest";
+import { previewBackupRestoreAction, restoreBackupAction } from "../backup";
+import { prismaBackupRepo } from "@/lib/database/repositories";
+import { getCurrentUserId } from "@/lib/database/auth";
+import { revalidateTag } from "next/cache";
+
+// Mocks
+vi.mock("@/lib/database/repositories");
+vi.mock("@/lib/database/auth", () => ({
+  getCurrentUserId: vi.fn().mockResolvedValue("user-123"),
+}));
+vi.mock("next/cache", () => ({
+  revalidateTag: vi.fn(),
+  revalidatePath: vi.fn(),
+}));
+
+const backup = {
+  exportedAt: "2025-02-01T00:00:00.000Z",
+  version: "1.0",
+  accounts: [
+    {
+      id: "old-acc",
+      name: "FTMO 100k",
+      currency: "USD",
+      initialBalance: 100000,
+      leverage: "1:100",
+      maxDrawdown: 10,
+    },
+  ],
+  trades: [
+    {
+      id: "old-trade",
+      accountId: "old-acc",
+      symbol: "NQ",
+      type: "Long",
+      entryPrice: 21500.25,
+      stopLoss: 0,
+      takeProfit: 0,
+      lot: 1,
+      entryDate: "2025-01-13",
+    },
+  ],
+  journalEntries: [],
+  playbooks: [],
+  routines: [],
+  settings: null,
+};
+
+const emptyContext = {
+  accounts: [],
+  trades: [],
+  journalEntries: [],
+  playbooks: [],
+  routines: [],
+  settings: null,
+  laboratoryExperiments: [],
+  laboratoryRecaps: [],
+  mentalLogs: [],
+};
+
+describe("Backup Actions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getCurrentUserId as Mock).mockResolvedValue("user-123");
+    (prismaBackupRepo.getRestoreContext as Mock).mockResolvedValue({
+      data: emptyContext,
+      error: null,
+    });
+  });
+
+  describe("previewBackupRestoreAction", () => {
+    it("should report what would be restored without writing", async () => {
+      const result = await previewBackupRestoreAction(backup, "merge");
+
+      expect(result.success && result.data.counts.trades).toEqual({ restored: 1, skipped: 0 });
+      expect(prismaBackupRepo.restore).not.toHaveBeenCalled();
+    });
+
+    it("should reject unsupported backups before reading the user's data", async () => {
+      const result = await previewBackupRestoreAction({ ...backup, version: "3.0" }, "merge");
+
+      expect(result).toEqual({ success: false, error: "Versão de backup não suportada: 3.0." });
+      expect(prismaBackupRepo.getRestoreContext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("restoreBackupAction", () => {
+    it("should restore the plan and revalidate the restored accounts", async () => {
+      (prismaBackupRepo.restore as Mock).mockResolvedValue({ data: undefined, error: null });
+
+      const result = await restoreBackupAction(backup, "fresh");
+
+      expect(result.success).toBe(true);
+      const [userId, plan] = (prismaBackupRepo.restore as Mock).mock.calls[0];
+      expect(userId).toBe("user-123");
+      expect(plan.trades[0].accountId).toBe(plan.accounts[0].id);
+      expect(revalidateTag).toHaveBeenCalledWith("accounts:user-123", "max");
+      expect(revalidateTag).toHaveBeenCalledWith(`trades:${plan.accounts[0].id}`, "max");
+    });
+  });
+});
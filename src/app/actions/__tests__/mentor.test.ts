@@ -5,8 +5,14 @@ import {
   getMenteeTradesAction,
   acceptInviteAction,
   addTradeCommentAction,
+  getCohortAnalyticsAction,
 } from "../mentor";
-import { prismaMentorRepo, prismaAdminRepo, prismaTradeRepo } from "@/lib/database/repositories";
+import {
+  prismaMentorRepo,
+  prismaAdminRepo,
+  prismaTradeRepo,
+  prismaSettingsRepo,
+} from "@/lib/database/repositories";
 import { getCurrentUserId } from "@/lib/database/auth";
 import { createClient } from "@/lib/supabase/server";
 
@@ -186,4 +192,45 @@ describe("Mentor Actions", () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe("getCohortAnalyticsAction", () => {
+    it("should load the current and the previous period of the mentees", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2026-10-19T12:00:00"));
+      (prismaMentorRepo.getCohortActivity as Mock).mockResolvedValue({
+        data: [{ menteeId: mockMenteeId, menteeName: "Ana", trades: [], journalDates: [] }],
+        error: null,
+      });
+
+      const result = await getCohortAnalyticsAction(30);
+      vi.useRealTimers();
+
+      expect(prismaMentorRepo.getCohortActivity).toHaveBeenCalledWith(mockUserId, "2026-08-21");
+      expect(result?.current).toEqual({ from: "2026-09-20", to: "2026-10-19" });
+      expect(result?.mentees[0].menteeName).toBe("Ana");
+    });
+
+    it("should take today in the mentor's timezone", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      // 22:30 of the 19th in São Paulo, already the 20th on the UTC server clock
+      vi.setSystemTime(new Date("2026-10-20T01:30:00Z"));
+      (prismaSettingsRepo.getUserSettings as Mock).mockResolvedValue({
+        data: { sessionSettings: { timezone: "America/Sao_Paulo", customSessions: [] } },
+        error: null,
+      });
+      (prismaMentorRepo.getCohortActivity as Mock).mockResolvedValue({ data: [], error: null });
+
+      const result = await getCohortAnalyticsAction(30);
+      vi.useRealTimers();
+
+      expect(result?.current).toEqual({ from: "2026-09-20", to: "2026-10-19" });
+    });
+
+    it("should reject periods outside the selectable ones", async () => {
+      const result = await getCohortAnalyticsAction(7);
+
+      expect(result).toBeNull();
+      expect(prismaMentorRepo.getCohortActivity).not.toHaveBeenCalled();
+    });
+  });
 });
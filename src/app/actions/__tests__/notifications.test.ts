@@ -0,0 +1,99 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { vi, describe, it, expect, beforeEach, Mock } from "vitest";
+import {
+  createNotificationAction,
+  getNotificationsAction,
+  sendTestDigestAction,
+} from "../notifications";
+import { notifyUser } from "../_helpers/notify";
+import { prismaNotificationRepo, prismaSettingsRepo } from "@/lib/database/repositories";
+import { getCurrentUserId } from "@/lib/database/auth";
+
+// Mocks
+vi.mock("@/lib/database/repositories");
+vi.mock("@/lib/database/auth", () => ({
+  getCurrentUserId: vi.fn().mockResolvedValue("user-123"),
+  getAuthenticatedUser: vi.fn().mockResolvedValue({ id: "user-123", email: "user@example.com" }),
+}));
+vi.mock("next/cache", () => ({
+  revalidateTag: vi.fn(),
+  revalidatePath: vi.fn(),
+
+  unstable_cache: (fn: any) => fn,
+}));
+
+describe("Notification Actions", () => {
+  const mockUserId = "user-123";
+  const input = {
+    type: "share_view" as const,
+    title: "Journal compartilhado visualizado",
+    message: "Seu journal compartilhado recebeu a primeira visualização.",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getCurrentUserId as Mock).mockResolvedValue(mockUserId);
+  });
+
+  describe("getNotificationsAction", () => {
+    it("should translate the page into an offset", async () => {
+      (prismaNotificationRepo.getByUserId as Mock).mockResolvedValue({
+        data: { data: [], count: 45 },
+        error: null,
+      });
+
+      const result = await getNotificationsAction(3, 20, "unread");
+
+      expect(prismaNotificationRepo.getByUserId).toHaveBeenCalledWith(mockUserId, {
+        filter: "unread",
+        limit: 20,
+        offset: 40,
+      });
+      expect(result.count).toBe(45);
+    });
+  });
+
+  describe("createNotificationAction", () => {
+    it("should require title and message", async () => {
+      const result = await createNotificationAction({ ...input, title: " " });
+
+      expect(result.success).toBe(false);
+      expect(prismaNotificationRepo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sendTestDigestAction", () => {
+    it("should require at least one channel", async () => {
+      (prismaSettingsRepo.getUserSettings as Mock).mockResolvedValue({
+        data: { digestSettings: { frequency: "daily", channels: [] } },
+        error: null,
+      });
+
+      const result = await sendTestDigestAction();
+
+      expect(result).toEqual({ success: false, error: "Escolha ao menos um canal" });
+    });
+  });
+
+  describe("notifyUser", () => {
+    it("should skip types the recipient disabled", async () => {
+      (prismaSettingsRepo.getUserSettings as Mock).mockResolvedValue({
+        data: { notificationSettings: { disabledTypes: ["share_view"] } },
+        error: null,
+      });
+
+      await notifyUser("owner-1", input);
+
+      expect(prismaNotificationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it("should not throw when writing fails", async () => {
+      (prismaSettingsRepo.getUserSettings as Mock).mockResolvedValue({ data: null, error: null });
+      (prismaNotificationRepo.create as Mock).mockRejectedValue(new Error("db down"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(notifyUser("owner-1", input)).resolves.toBeUndefined();
+      expect(prismaNotificationRepo.create).toHaveBeenCalledWith("owner-1", input);
+    });
+  });
+});
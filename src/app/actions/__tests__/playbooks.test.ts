@@ -7,6 +7,7 @@ import {
   updatePlaybookAction,
   deletePlaybookAction,
   clonePlaybookAction,
+  getPlaybookVersionsAction,
 } from "../playbooks";
 import { prismaPlaybookRepo } from "@/lib/database/repositories";
 import { getCurrentUserId } from "@/lib/database/auth";
@@ -95,10 +96,45 @@ describe("Playbook Actions", () => {
       expect(prismaPlaybookRepo.update).toHaveBeenCalledWith(
         "pb-1",
         mockUserId,
-        expect.objectContaining({ name: "Updated" })
+        expect.objectContaining({ name: "Updated" }),
+        undefined
       );
       expect(result.success).toBe(true);
     });
+
+    it("should pass the changelog and return the new version", async () => {
+      (prismaPlaybookRepo.update as Mock).mockResolvedValue({
+        data: { id: "pb-1", name: "Updated", currentVersion: 2 },
+        error: null,
+      });
+
+      const result = await updatePlaybookAction(
+        { id: "pb-1", name: "Updated" } as any,
+        "  Nova regra de entrada  "
+      );
+
+      expect(prismaPlaybookRepo.update).toHaveBeenCalledWith(
+        "pb-1",
+        mockUserId,
+        expect.anything(),
+        "Nova regra de entrada"
+      );
+      expect(result.playbook?.currentVersion).toBe(2);
+    });
+  });
+
+  describe("getPlaybookVersionsAction", () => {
+    it("should return the versions of the playbook", async () => {
+      (prismaPlaybookRepo.getVersions as Mock).mockResolvedValue({
+        data: [{ id: "pbv-2", version: 2 }],
+        error: null,
+      });
+
+      const result = await getPlaybookVersionsAction("pb-1");
+
+      expect(prismaPlaybookRepo.getVersions).toHaveBeenCalledWith("pb-1", mockUserId);
+      expect(result).toHaveLength(1);
+    });
   });
 
   describe("deletePlaybookAction", () => {
@@ -118,12 +154,19 @@ describe("Playbook Actions", () => {
       });
 
       const result = await clonePlaybookAction({
-        playbook: { name: "Shared Strat", ruleGroups: [] } as any,
+        playbookId: "pb-source",
+        playbook: { name: "Shared Strat", ruleGroups: [], currentVersion: 3 } as any,
         description: "Shared Desc",
       } as unknown as any);
 
       expect(prismaPlaybookRepo.create).toHaveBeenCalledWith(
-        expect.objectContaining({ name: "Shared Strat", userId: mockUserId })
+        expect.objectContaining({
+          name: "Shared Strat",
+          userId: mockUserId,
+          sourcePlaybookId: "pb-source",
+          sourceVersion: 3,
+        }),
+        "Clonado de Shared Strat v3"
       );
       expect(result.success).toBe(true);
     });
@@ -0,0 +1,92 @@
+import { vi, describe, it, expect, beforeEach, Mock } from "vitest";
+import { generatePerformanceReportAction } from "../reports";
+import { prismaAccountRepo, prismaTradeRepo } from "@/lib/database/repositories";
+import { getCurrentUserId } from "@/lib/database/auth";
+
+// Mocks
+vi.mock("@/lib/database/repositories");
+vi.mock("@/lib/database/auth", () => ({
+  getCurrentUserId: vi.fn().mockResolvedValue("user-123"),
+}));
+
+const account = {
+  id: "acc-1",
+  name: "Conta Principal",
+  currency: "BRL",
+  initialBalance: 5000,
+};
+
+const trades = [
+  { id: "t1", symbol: "WIN", type: "Long", outcome: "win", pnl: 300, entryDate: "2025-03-10" },
+];
+
+describe("Report Actions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getCurrentUserId as Mock).mockResolvedValue("user-123");
+    (prismaAccountRepo.getById as Mock).mockResolvedValue({ data: account, error: null });
+    (prismaTradeRepo.getByAccountId as Mock).mockResolvedValue({ data: trades, error: null });
+  });
+
+  describe("generatePerformanceReportAction", () => {
+    it("should return the PDF encoded as base64", async () => {
+      const result = await generatePerformanceReportAction(
+        "acc-1",
+        "2025-03-01",
+        "2025-03-31",
+        "pdf"
+      );
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.fileName).toBe("relatorio-conta-principal-2025-03-01-a-2025-03-31.pdf");
+      expect(result.data.mimeType).toBe("application/pdf");
+      expect(Buffer.from(result.data.base64, "base64").toString("latin1")).toMatch(/^%PDF-1.4/);
+      expect(prismaAccountRepo.getById).toHaveBeenCalledWith("acc-1", "user-123");
+    });
+
+    it("should return the workbook as a ZIP archive", async () => {
+      const result = await generatePerformanceReportAction(
+        "acc-1",
+        "2025-03-01",
+        "2025-03-31",
+        "xlsx"
+      );
+
+      expect(result.success && Buffer.from(result.data.base64, "base64").readUInt32LE(0)).toBe(
+        0x04034b50
+      );
+    });
+
+    it("should reject an inverted range before reading data", async () => {
+      const result = await generatePerformanceReportAction(
+        "acc-1",
+        "2025-03-31",
+        "2025-03-01",
+        "pdf"
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: "A data inicial deve ser anterior à data final.",
+      });
+      expect(prismaTradeRepo.getByAccountId).not.toHaveBeenCalled();
+    });
+
+    it("should fail when the account is not found", async () => {
+      (prismaAccountRepo.getById as Mock).mockResolvedValue({
+        data: null,
+        error: { message: "Account not found" },
+      });
+
+      const result = await generatePerformanceReportAction(
+        "acc-x",
+        "2025-03-01",
+        "2025-03-31",
+        "xlsx"
+      );
+
+      expect(result).toEqual({ success: false, error: "Account not found" });
+    });
+  });
+});
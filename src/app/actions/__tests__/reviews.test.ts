@@ -10,12 +10,22 @@ import {
   markReviewAsReadAction,
   getUnreadReviewCountAction,
   getReviewsForContextAction,
+  replyToReviewAction,
+  updateReviewReplyAction,
+  setReviewThreadStatusAction,
+  createImageAnnotationAction,
 } from "../reviews";
-import { prismaReviewRepo } from "@/lib/database/repositories";
+import {
+  prismaImageAnnotationRepo,
+  prismaReviewRepo,
+  prismaReviewThreadRepo,
+} from "@/lib/database/repositories";
 import { getCurrentUserId } from "@/lib/database/auth";
+import { notifyUser } from "../_helpers/notify";
 // import { revalidatePath } from "next/cache";
 
 vi.mock("@/lib/database/repositories");
+vi.mock("../_helpers/notify", () => ({ notifyUser: vi.fn() }));
 vi.mock("@/lib/database/auth", () => ({
   getCurrentUserId: vi.fn().mockResolvedValue("user-123"),
 }));
@@ -61,10 +71,18 @@ describe("Review Actions", () => {
   });
 
   describe("updateReviewAction", () => {
-    it("should update review content", async () => {
-      (prismaReviewRepo.updateContent as Mock).mockResolvedValue({ data: true, error: null });
+    it("should update review content as its mentor, keeping the history", async () => {
+      (prismaReviewThreadRepo.updateReviewContent as Mock).mockResolvedValue({
+        data: { id: "review-1" },
+        error: null,
+      });
       const result = await updateReviewAction("review-1", "New content");
       expect(result.success).toBe(true);
+      expect(prismaReviewThreadRepo.updateReviewContent).toHaveBeenCalledWith(
+        "review-1",
+        mockUserId,
+        "New content"
+      );
     });
   });
 
@@ -144,4 +162,165 @@ describe("Review Actions", () => {
       expect(result).toBe(0);
     });
   });
+
+  describe("Review threads", () => {
+    const review = {
+      id: "review-1",
+      mentorId: "mentor-1",
+      menteeId: mockUserId,
+      reviewType: "correction",
+      content: "Stop curto",
+      status: "open",
+    };
+
+    beforeEach(() => {
+      (prismaReviewThreadRepo.getParticipantReview as Mock).mockResolvedValue({
+        data: review,
+        error: null,
+      });
+      (prismaReviewThreadRepo.getMentionCandidates as Mock).mockResolvedValue({
+        data: [
+          { userId: mockUserId, handle: "joao" },
+          { userId: "mentor-2", handle: "carla" },
+        ],
+        error: null,
+      });
+    });
+
+    it("should save mentions and notify the mentor and the mentioned mentor", async () => {
+      (prismaReviewThreadRepo.addReply as Mock).mockImplementation(
+        async (reviewId, authorId, content, mentions) => ({
+          data: { id: "reply-1", reviewId, authorId, content, mentions },
+          error: null,
+        })
+      );
+
+      const result = await replyToReviewAction("review-1", " Ajustei, @carla pode ver? ");
+
+      expect(result.success).toBe(true);
+      expect(prismaReviewThreadRepo.addReply).toHaveBeenCalledWith(
+        "review-1",
+        mockUserId,
+        "Ajustei, @carla pode ver?",
+        ["mentor-2"]
+      );
+      expect(notifyUser).toHaveBeenCalledWith(
+        "mentor-1",
+        expect.objectContaining({ type: "review_reply" })
+      );
+      expect(notifyUser).toHaveBeenCalledWith(
+        "mentor-2",
+        expect.objectContaining({ type: "mention" })
+      );
+    });
+
+    it("should not reply to threads the user is not part of", async () => {
+      (prismaReviewThreadRepo.getParticipantReview as Mock).mockResolvedValue({
+        data: null,
+        error: new Error("Review not found"),
+      });
+
+      const result = await replyToReviewAction("review-1", "Oi");
+
+      expect(result.success).toBe(false);
+      expect(prismaReviewThreadRepo.addReply).not.toHaveBeenCalled();
+    });
+
+    it("should check the thread of the reply before editing it", async () => {
+      (prismaReviewThreadRepo.getAuthorReply as Mock).mockResolvedValue({
+        data: { id: "reply-1", reviewId: "review-2", authorId: mockUserId, content: "Oi" },
+        error: null,
+      });
+      (prismaReviewThreadRepo.updateReply as Mock).mockResolvedValue({
+        data: { id: "reply-1", content: "Oi @carla" },
+        error: null,
+      });
+
+      const result = await updateReviewReplyAction("reply-1", "Oi @carla");
+
+      expect(result.success).toBe(true);
+      expect(prismaReviewThreadRepo.getParticipantReview).toHaveBeenCalledWith(
+        "review-2",
+        mockUserId
+      );
+      expect(prismaReviewThreadRepo.updateReply).toHaveBeenCalledWith(
+        "reply-1",
+        mockUserId,
+        "Oi @carla",
+        ["mentor-2"]
+      );
+    });
+
+    it("should not edit replies of other users", async () => {
+      (prismaReviewThreadRepo.getAuthorReply as Mock).mockResolvedValue({
+        data: null,
+        error: new Error("Reply not found"),
+      });
+
+      const result = await updateReviewReplyAction("reply-1", "Oi");
+
+      expect(result.success).toBe(false);
+      expect(prismaReviewThreadRepo.updateReply).not.toHaveBeenCalled();
+    });
+
+    it("should let the mentee acknowledge but not reopen an open thread", async () => {
+      (prismaReviewThreadRepo.setStatus as Mock).mockResolvedValue({
+        data: { ...review, status: "acknowledged" },
+        error: null,
+      });
+
+      const acknowledged = await setReviewThreadStatusAction("review-1", "acknowledged");
+      const reopened = await setReviewThreadStatusAction("review-1", "open");
+
+      expect(acknowledged.success).toBe(true);
+      expect(reopened.success).toBe(false);
+      expect(prismaReviewThreadRepo.setStatus).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Image annotations", () => {
+    it("should store the sanitized shape", async () => {
+      (prismaImageAnnotationRepo.create as Mock).mockResolvedValue({
+        data: { id: "annotation-1" },
+        error: null,
+      });
+
+      const result = await createImageAnnotationAction({
+        imageId: "image-1",
+        shape: { kind: "arrow", from: { x: -0.2, y: 0.5 }, to: { x: 0.4, y: 1.3 } },
+        color: "#facc15",
+        comment: " Entrada antecipada ",
+        reviewId: "review-1",
+      });
+
+      expect(result.success).toBe(true);
+      expect(prismaImageAnnotationRepo.create).toHaveBeenCalledWith(
+        {
+          imageId: "image-1",
+          shape: { kind: "arrow", from: { x: 0, y: 0.5 }, to: { x: 0.4, y: 1 } },
+          color: "#facc15",
+          comment: "Entrada antecipada",
+          reviewId: "review-1",
+        },
+        mockUserId
+      );
+    });
+
+    it("should reject stray clicks and unknown colors", async () => {
+      const click = await createImageAnnotationAction({
+        imageId: "image-1",
+        shape: { kind: "box", from: { x: 0.5, y: 0.5 }, to: { x: 0.5, y: 0.5 } },
+        color: "#facc15",
+      });
+      const color = await createImageAnnotationAction({
+        imageId: "image-1",
+        shape: { kind: "hline", y: 0.3 },
+        color: "red",
+      });
+
+      expect(click.success).toBe(false);
+      expect(color.success).toBe(false);
+      expect(prismaImageAnnotationRepo.create).not.toHaveBeenCalled();
+    });
+  });
 });
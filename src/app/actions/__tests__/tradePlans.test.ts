@@ -0,0 +1,107 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { vi, describe, it, expect, beforeEach, Mock } from "vitest";
+import { saveTradePlanAction, executeTradePlanAction } from "../tradePlans";
+import { prismaTradePlanRepo, prismaTradeRepo } from "@/lib/database/repositories";
+import { getCurrentUserId } from "@/lib/database/auth";
+import { revalidateTag } from "next/cache";
+
+// Mocks
+vi.mock("@/lib/database/repositories");
+vi.mock("@/lib/database/auth", () => ({
+  getCurrentUserId: vi.fn().mockResolvedValue("user-123"),
+}));
+vi.mock("next/cache", () => ({
+  revalidateTag: vi.fn(),
+  revalidatePath: vi.fn(),
+
+  unstable_cache: (fn: any) => fn,
+}));
+
+describe("Trade Plan Actions", () => {
+  const mockUserId = "user-123";
+  const plan = {
+    id: "plan-1",
+    accountId: "acc-1",
+    symbol: "EURUSD",
+    type: "Long" as const,
+    plannedEntry: 1.085,
+    plannedStop: 1.082,
+    plannedTarget: 1.091,
+    plannedLot: 1,
+    checkedRules: [],
+    totalRules: 0,
+    bullishArgs: [],
+    bearishArgs: [],
+    status: "planned",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getCurrentUserId as Mock).mockResolvedValue(mockUserId);
+  });
+
+  describe("saveTradePlanAction", () => {
+    it("should return the validation error without saving", async () => {
+      const result = await saveTradePlanAction({ ...plan, plannedStop: 1.09 });
+
+      expect(result).toEqual({ success: false, error: "O stop deve ficar abaixo da entrada." });
+      expect(prismaTradePlanRepo.create).not.toHaveBeenCalled();
+    });
+
+    it("should save a normalized plan", async () => {
+      (prismaTradePlanRepo.create as Mock).mockResolvedValue({ data: plan, error: null });
+
+      const result = await saveTradePlanAction({ ...plan, symbol: "eurusd" });
+
+      expect(prismaTradePlanRepo.create).toHaveBeenCalledWith(
+        mockUserId,
+        expect.objectContaining({ symbol: "EURUSD" })
+      );
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("executeTradePlanAction", () => {
+    it("should link the trade and store its plan adherence", async () => {
+      (prismaTradePlanRepo.getById as Mock).mockResolvedValue({ data: plan, error: null });
+      (prismaTradeRepo.getById as Mock).mockResolvedValue({
+        data: {
+          id: "t-1",
+          accountId: "acc-1",
+          symbol: "EURUSD",
+          type: "Long",
+          entryPrice: 1.085,
+          stopLoss: 1.082,
+          lot: 1,
+          outcome: "pending",
+        },
+        error: null,
+      });
+      (prismaTradePlanRepo.linkTrade as Mock).mockResolvedValue({ data: plan, error: null });
+      (prismaTradeRepo.update as Mock).mockResolvedValue({ data: {}, error: null });
+
+      const result = await executeTradePlanAction("plan-1", "t-1");
+
+      expect(prismaTradePlanRepo.linkTrade).toHaveBeenCalledWith("plan-1", mockUserId, "t-1");
+      expect(prismaTradeRepo.update).toHaveBeenCalledWith("t-1", mockUserId, {
+        planAdherence: "100%",
+        planAdherenceRating: 5,
+      });
+      expect(result.success && result.data.exit).toBe("open");
+      expect(revalidateTag).toHaveBeenCalledWith("trades:acc-1", "max");
+    });
+
+    it("should reject plans that were already executed", async () => {
+      (prismaTradePlanRepo.getById as Mock).mockResolvedValue({
+        data: { ...plan, status: "executed" },
+        error: null,
+      });
+      (prismaTradeRepo.getById as Mock).mockResolvedValue({ data: { id: "t-1" }, error: null });
+
+      const result = await executeTradePlanAction("plan-1", "t-1");
+
+      expect(result).toEqual({ success: false, error: "Plano já executado ou cancelado" });
+      expect(prismaTradePlanRepo.linkTrade).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -10,8 +10,16 @@ import {
   getTradeHistoryLiteAction,
   getTradesByJournalAction,
   getAdvancedMetricsAction,
+  previewTradesImportAction,
+  rollbackImportBatchAction,
 } from "../trades";
-import { prismaTradeRepo } from "@/lib/database/repositories";
+import {
+  prismaImportBatchRepo,
+  prismaPlaybookRepo,
+  prismaSettingsRepo,
+  prismaTradePlanRepo,
+  prismaTradeRepo,
+} from "@/lib/database/repositories";
 import { getCurrentUserId } from "@/lib/database/auth";
 import { revalidateTag } from "next/cache";
 
@@ -86,6 +94,79 @@ describe("Trade Actions", () => {
       expect(result.success).toBe(true);
       expect(revalidateTag).toHaveBeenCalled();
     });
+
+    it("should pin the playbook version active at entry in the user's timezone", async () => {
+      (prismaPlaybookRepo.getVersionsByName as Mock).mockResolvedValue({
+        data: [
+          { version: 2, createdAt: "2026-03-10T15:00:00.000Z" },
+          { version: 1, createdAt: "2026-01-05T10:00:00.000Z" },
+        ],
+        error: null,
+      });
+      (prismaSettingsRepo.getUserSettings as Mock).mockResolvedValue({
+        data: { sessionSettings: { timezone: "America/Sao_Paulo", customSessions: [] } },
+        error: null,
+      });
+      (prismaTradeRepo.create as Mock).mockResolvedValue({ data: { id: "t-1" }, error: null });
+
+      // 11:00 in São Paulo is 14:00 UTC, before version 2 was saved that day
+      await saveTradeAction({
+        symbol: "EURUSD",
+        accountId: mockAccountId,
+        strategy: "Silver Bullet",
+        entryDate: "2026-03-10",
+        entryTime: "11:00",
+      });
+
+      expect(prismaPlaybookRepo.getVersionsByName).toHaveBeenCalledWith(
+        mockUserId,
+        "Silver Bullet"
+      );
+      expect(prismaTradeRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ playbookVersion: 1 })
+      );
+    });
+
+    it("should recompute plan adherence when a planned trade is edited", async () => {
+      const existing = {
+        id: "t-1",
+        accountId: mockAccountId,
+        symbol: "EURUSD",
+        type: "Long",
+        entryPrice: 1.085,
+        stopLoss: 1.082,
+        lot: 1,
+        outcome: "pending",
+      };
+      (prismaTradeRepo.getById as Mock).mockResolvedValue({ data: existing, error: null });
+      (prismaTradePlanRepo.getByTradeId as Mock).mockResolvedValue({
+        data: {
+          id: "plan-1",
+          symbol: "EURUSD",
+          type: "Long",
+          plannedEntry: 1.085,
+          plannedStop: 1.082,
+          plannedTarget: 1.091,
+          plannedLot: 1,
+        },
+        error: null,
+      });
+      (prismaTradeRepo.update as Mock).mockResolvedValue({ data: existing, error: null });
+
+      const result = await saveTradeAction({
+        id: "t-1",
+        accountId: mockAccountId,
+        exitPrice: 1.0875,
+        outcome: "win",
+      });
+
+      expect(prismaTradeRepo.update).toHaveBeenCalledWith(
+        "t-1",
+        mockUserId,
+        expect.objectContaining({ planAdherence: "partial", planAdherenceRating: 4 })
+      );
+      expect(result.success).toBe(true);
+    });
   });
 
   describe("saveTradesBatchAction", () => {
@@ -99,6 +180,78 @@ describe("Trade Actions", () => {
       expect(result.success).toBe(true);
       expect(result.count).toBe(2);
     });
+
+    it("should apply an import session as one batch, skipping duplicates", async () => {
+      const trade = {
+        symbol: "NQ",
+        type: "Long" as const,
+        entryDate: "2025-01-13",
+        entryTime: "09:30:00",
+        entryPrice: 21500,
+        pnl: 100,
+      };
+      (prismaImportBatchRepo.getCandidates as Mock).mockResolvedValue({
+        data: [{ ...trade, id: "t-1", importSnapshot: null }],
+        error: null,
+      });
+      (prismaImportBatchRepo.apply as Mock).mockResolvedValue({
+        data: { id: "batch-1", accountId: mockAccountId },
+        error: null,
+      });
+
+      const result = await saveTradesBatchAction([trade, { ...trade, symbol: "ES" }], {
+        accountId: mockAccountId,
+        source: "ninjatrader",
+        mode: "append",
+      });
+
+      expect(prismaTradeRepo.createMany).not.toHaveBeenCalled();
+      expect(prismaImportBatchRepo.apply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: mockUserId,
+          accountId: mockAccountId,
+          replaceExisting: false,
+          creates: [expect.objectContaining({ trade: expect.objectContaining({ symbol: "ES" }) })],
+          updates: [],
+          skippedCount: 1,
+        })
+      );
+      expect(result).toEqual({
+        success: true,
+        count: 1,
+        batchId: "batch-1",
+        updated: 0,
+        skipped: 1,
+      });
+    });
+  });
+
+  describe("previewTradesImportAction", () => {
+    it("should not read existing trades in replace mode", async () => {
+      const result = await previewTradesImportAction(
+        mockAccountId,
+        [{ symbol: "NQ", entryDate: "2025-01-13" }],
+        "replace"
+      );
+
+      expect(prismaImportBatchRepo.getCandidates).not.toHaveBeenCalled();
+      expect(result.success && result.data.counts.new).toBe(1);
+    });
+  });
+
+  describe("rollbackImportBatchAction", () => {
+    it("should roll back and revalidate the account", async () => {
+      (prismaImportBatchRepo.rollback as Mock).mockResolvedValue({
+        data: { id: "batch-1", accountId: mockAccountId, status: "rolled_back" },
+        error: null,
+      });
+
+      const result = await rollbackImportBatchAction("batch-1");
+
+      expect(prismaImportBatchRepo.rollback).toHaveBeenCalledWith("batch-1", mockUserId);
+      expect(result.success).toBe(true);
+      expect(revalidateTag).toHaveBeenCalledWith(`trades:${mockAccountId}`, "max");
+    });
   });
 
   describe("deleteTradeAction", () => {
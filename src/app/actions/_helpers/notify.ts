@@ -0,0 +1,33 @@
+/**
+ * Notification Helper
+ *
+ * Writes an entry to a user's notification center from a server action, unless
+ * the user disabled that notification type in the settings.
+ */
+
+import { prismaNotificationRepo, prismaSettingsRepo } from "@/lib/database/repositories";
+import {
+  isNotificationEnabled,
+  type NotificationInput,
+} from "@/services/notifications/notifications";
+
+/**
+ * Notifies a user. Never throws: a failed notification must not fail the action
+ * that triggered it.
+ *
+ * @example
+ * await notifyUser(review.menteeId, buildReviewNotification(review));
+ */
+export async function notifyUser(userId: string, input: NotificationInput): Promise<void> {
+  try {
+    const settings = await prismaSettingsRepo.getUserSettings(userId);
+    if (!isNotificationEnabled(settings?.data?.notificationSettings, input.type)) return;
+
+    const result = await prismaNotificationRepo.create(userId, input);
+    if (result?.error) {
+      console.error("[notifyUser] Error:", result.error);
+    }
+  } catch (error) {
+    console.error("[notifyUser] Unexpected error:", error);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Prop Firm Helper
+ *
+ * Evaluates a prop firm account against its rules. Reads only evaluate; the
+ * mutations that change an account's trades or rules record the breaches.
+ */
+
+import {
+  prismaAccountRepo,
+  prismaSettingsRepo,
+  prismaTradeRepo,
+} from "@/lib/database/repositories";
+import { evaluatePropFirmRules, type PropFirmEvaluation } from "@/lib/utils/trading";
+import {
+  buildRuleBreachNotification,
+  getNewRuleBreaches,
+} from "@/services/notifications/notifications";
+import type { Account } from "@/types";
+import { notifyUser } from "./notify";
+
+/**
+ * Evaluates the account's trades against its prop firm rules, with "today" in
+ * the user's timezone.
+ *
+ * @returns The evaluation, or null for other account types or on error
+ */
+export async function evaluatePropFirmAccount(
+  userId: string,
+  account: Account
+): Promise<PropFirmEvaluation | null> {
+  if (account.accountType !== "prop_firm" || !account.propRules) return null;
+
+  const [trades, settings] = await Promise.all([
+    prismaTradeRepo.getByAccountId(account.id, userId),
+    prismaSettingsRepo.getUserSettings(userId),
+  ]);
+  if (!trades || trades.error) {
+    console.error("[evaluatePropFirmAccount] Error:", trades?.error);
+    return null;
+  }
+
+  return evaluatePropFirmRules(
+    trades.data || [],
+    account.initialBalance,
+    account.maxDrawdown,
+    account.propRules,
+    settings?.data?.sessionSettings?.timezone
+  );
+}
+
+/**
+ * Re-evaluates a prop firm account after its trades or rules changed, replaces
+ * the persisted breaches and notifies the user about the breaches that are new.
+ * Never throws: breach tracking must not fail the mutation that triggered it.
+ *
+ * @example
+ * await recordPropFirmBreaches(userId, trade.accountId);
+ */
+export async function recordPropFirmBreaches(userId: string, accountId: string): Promise<void> {
+  try {
+    const account = await prismaAccountRepo.getById(accountId, userId);
+    if (!account?.data) return;
+
+    const evaluation = await evaluatePropFirmAccount(userId, account.data);
+    if (!evaluation) return;
+
+    const breaches = evaluation.breaches.map((breach) => ({
+      rule: breach.rule,
+      tradeId: breach.tradeId,
+      breachDate: breach.date,
+      value: breach.value,
+      limit: breach.limit,
+    }));
+    const previous = await prismaAccountRepo.getRuleBreaches(accountId, userId);
+
+    const persistResult = await prismaAccountRepo.replaceRuleBreaches(accountId, userId, breaches);
+    if (persistResult.error) {
+      console.error("[recordPropFirmBreaches] Error persisting breaches:", persistResult.error);
+      return;
+    }
+
+    // Breaches persisted before were already notified
+    if (previous.data) {
+      for (const breach of getNewRuleBreaches(previous.data, breaches)) {
+        await notifyUser(userId, buildRuleBreachNotification(breach, account.data));
+      }
+    }
+  } catch (error) {
+    console.error("[recordPropFirmBreaches] Unexpected error:", error);
+  }
+}
@@ -24,6 +24,8 @@ import { getCurrentUserId } from "@/lib/database/auth";
 import { Account, Settings, UserSettings } from "@/types";
 import { revalidatePath, revalidateTag, unstable_cache } from "next/cache";
 import { withAuthRead, withAuthMutation } from "./_helpers/actionHelpers";
+import type { PropFirmEvaluation } from "@/lib/utils/trading";
+import { evaluatePropFirmAccount, recordPropFirmBreaches } from "./_helpers/propFirm";
 
 /**
  * User profile data from users_extended table.
@@ -155,6 +157,11 @@ export async function saveAccountAction(
       return { success: false, error: result.error.message };
     }
 
+    // Rule changes can add or clear breaches
+    if (result.data?.accountType === "prop_firm") {
+      await recordPropFirmBreaches(userId, result.data.id);
+    }
+
     // Invalidate accounts cache and revalidate dashboard
     revalidateTag(`accounts:${userId}`, "max");
     revalidatePath("/dashboard/[accountId]", "page");
@@ -365,6 +372,23 @@ export async function syncAllAccountsBalancesAction(): Promise<{
   }
 }
 
+/**
+ * Evaluate the prop firm rules of an account against all of its trades.
+ * Read-only: breaches are recorded by the mutations that change the trades.
+ * @param accountId - The account ID.
+ * @returns The evaluation, or null if the account is not a prop firm account.
+ */
+export async function evaluatePropFirmRulesAction(
+  accountId: string
+): Promise<PropFirmEvaluation | null> {
+  return withAuthRead("evaluatePropFirmRulesAction", async (userId) => {
+    const accountResult = await prismaAccountRepo.getById(accountId, userId);
+    if (!accountResult.data) return null;
+
+    return evaluatePropFirmAccount(userId, accountResult.data);
+  });
+}
+
 /**
  * Get a single account by ID optimized for dashboard initialization.
  * Skips the repository layer for maximum performance (no extra checks/transforms).
@@ -390,6 +414,8 @@ export async function getAccountById(accountId: string): Promise<Account | null>
         currency: true,
         leverage: true,
         max_drawdown: true,
+        account_type: true,
+        prop_rules: true,
         created_at: true,
         updated_at: true,
       },
@@ -408,6 +434,8 @@ export async function getAccountById(accountId: string): Promise<Account | null>
       currency: account.currency,
       leverage: account.leverage,
       maxDrawdown: Number(account.max_drawdown),
+      accountType: account.account_type,
+      propRules: account.prop_rules || undefined,
       createdAt: account.created_at,
       updatedAt: account.updated_at,
       isArchived: false,
@@ -14,7 +14,11 @@
  */
 
 import { prismaAdminRepo, UserExtended, AuditLog, AdminStats } from "@/lib/database/repositories";
-import { deleteCurrentWeekEvents } from "@/lib/database/repositories/external/economicEvents.repository";
+import {
+  deleteCurrentWeekEvents,
+  upsertEconomicEvents,
+} from "@/lib/database/repositories/external/economicEvents.repository";
+import { getCalendarFileFormat, parseCalendarFile } from "@/services/core/calendarFile.service";
 import { getCurrentUserId } from "@/lib/database/auth";
 import { prisma } from "@/lib/database";
 import {
@@ -623,3 +627,56 @@ export async function deleteWeeklyEventsAction(): Promise<{
     return { success: false, error: "Unexpected error occurred" };
   }
 }
+
+/**
+ * Import an economic calendar file (ICS or CSV) uploaded by an admin.
+ * Events are upserted, so re-importing the same file is idempotent.
+ */
+export async function importCalendarFileAction(
+  fileName: string,
+  content: string
+): Promise<{
+  success: boolean;
+  importedCount?: number;
+  error?: string;
+}> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    // Verify admin status
+    const isAdmin = await prismaAdminRepo.isAdmin(userId);
+    if (!isAdmin.data) {
+      return { success: false, error: "Not authorized" };
+    }
+
+    let events;
+    try {
+      events = parseCalendarFile(content, getCalendarFileFormat(fileName));
+    } catch (parseError) {
+      return {
+        success: false,
+        error: parseError instanceof Error ? parseError.message : "Invalid calendar file",
+      };
+    }
+
+    if (events.length === 0) {
+      return { success: false, error: "No events found in file" };
+    }
+
+    const result = await upsertEconomicEvents(events);
+
+    await logActionAction("import_calendar_file", "system", "calendar", {
+      file_name: fileName,
+      imported_count: result.count,
+      triggered_at: new Date().toISOString(),
+    });
+
+    return { success: true, importedCount: result.count };
+  } catch (error) {
+    console.error("[importCalendarFileAction] Unexpected error:", error);
+    return { success: false, error: "Unexpected error occurred" };
+  }
+}
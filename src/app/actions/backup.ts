@@ -0,0 +1,102 @@
+"use server";
+
+/**
+ * Backup Server Actions
+ *
+ * Restores a JSON backup produced by `exportAllData`. The file is validated and the
+ * restore is planned on the server against the user's current data; the preview
+ * returns the same report the restore applies.
+ *
+ * @example
+ * import { previewBackupRestoreAction, restoreBackupAction } from "@/app/actions/backup";
+ *
+ * const preview = await previewBackupRestoreAction(json, "merge");
+ */
+
+import { prismaBackupRepo } from "@/lib/database/repositories";
+import {
+  parseBackupData,
+  planBackupRestore,
+  type RestoreMode,
+  type RestorePlan,
+  type RestoreReport,
+} from "@/services/trades/restore";
+import { revalidatePath, revalidateTag } from "next/cache";
+import { withAuth, type ActionResult } from "./_helpers/actionHelpers";
+import { recordPropFirmBreaches } from "./_helpers/propFirm";
+
+/**
+ * Validates the backup and plans the restore for the current user.
+ */
+async function planRestore(
+  userId: string,
+  raw: unknown,
+  mode: RestoreMode
+): Promise<ActionResult<{ plan: RestorePlan; report: RestoreReport }>> {
+  let data;
+  try {
+    data = parseBackupData(raw);
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+
+  const context = await prismaBackupRepo.getRestoreContext(userId);
+  if (context.error) {
+    console.error("[planRestore] Error:", context.error);
+    return { success: false, error: context.error.message };
+  }
+
+  return { success: true, data: planBackupRestore(data, context.data, mode) };
+}
+
+/**
+ * Dry run of a restore: what would be created, skipped, merged or renamed.
+ * @param raw - Parsed JSON of the backup file.
+ * @param mode - "merge" into existing accounts or "fresh" restore to new accounts.
+ */
+export async function previewBackupRestoreAction(
+  raw: unknown,
+  mode: RestoreMode
+): Promise<ActionResult<RestoreReport>> {
+  return withAuth("previewBackupRestoreAction", async (userId) => {
+    const planned = await planRestore(userId, raw, mode);
+    if (!planned.success) return planned;
+    return { success: true, data: planned.data.report };
+  });
+}
+
+/**
+ * Restores a backup in one transaction.
+ * @param raw - Parsed JSON of the backup file.
+ * @param mode - "merge" into existing accounts or "fresh" restore to new accounts.
+ */
+export async function restoreBackupAction(
+  raw: unknown,
+  mode: RestoreMode
+): Promise<ActionResult<RestoreReport>> {
+  return withAuth("restoreBackupAction", async (userId) => {
+    const planned = await planRestore(userId, raw, mode);
+    if (!planned.success) return planned;
+
+    const { plan, report } = planned.data;
+    const result = await prismaBackupRepo.restore(userId, plan);
+    if (result.error) {
+      console.error("[restoreBackupAction] Error:", result.error);
+      return { success: false, error: result.error.message };
+    }
+
+    const accountIds = new Set([
+      ...plan.trades.map((t) => t.accountId),
+      ...plan.journalEntries.map((e) => e.accountId),
+    ]);
+    revalidateTag(`accounts:${userId}`, "max");
+    for (const accountId of accountIds) {
+      await recordPropFirmBreaches(userId, accountId);
+      revalidateTag(`trades:${accountId}`, "max");
+      revalidateTag(`journals:${accountId}`, "max");
+    }
+    revalidatePath("/dashboard/[accountId]", "page");
+
+    return { success: true, data: report };
+  });
+}
@@ -0,0 +1,85 @@
+"use server";
+
+/**
+ * Import Profile Server Actions
+ *
+ * Named import profiles (column mapping + parsing options) saved per user and
+ * reused by the trade import wizard.
+ *
+ * @example
+ * import { getImportProfilesAction } from "@/app/actions/importProfiles";
+ *
+ * const profiles = await getImportProfilesAction();
+ */
+
+import { prismaImportProfileRepo } from "@/lib/database/repositories";
+import { ImportProfile } from "@/types";
+import {
+  computeHeaderFingerprint,
+  normalizeImportProfileDraft,
+  type ImportProfileDraft,
+} from "@/services/trades/importProfiles";
+import {
+  withAuth,
+  withAuthMutation,
+  withAuthRead,
+  handleResult,
+  handleMutationResult,
+  type ActionResult,
+} from "./_helpers/actionHelpers";
+
+/**
+ * Get the current user's import profiles (most recently updated first).
+ * @returns Profiles, or an empty list on error.
+ */
+export async function getImportProfilesAction(): Promise<ImportProfile[]> {
+  const profiles = await withAuthRead("getImportProfilesAction", async (userId) => {
+    const result = await prismaImportProfileRepo.getByUserId(userId);
+    if (result.error) {
+      console.error("[getImportProfilesAction] Error:", result.error);
+      return null;
+    }
+    return result.data;
+  });
+  return profiles || [];
+}
+
+/**
+ * Save an import profile. A profile with the same name is overwritten,
+ * which is also how shared (imported) profiles are updated.
+ * @param draft - Profile settings plus the headers of the file it was built from.
+ * @returns The saved profile or a validation error.
+ */
+export async function saveImportProfileAction(
+  draft: ImportProfileDraft
+): Promise<ActionResult<ImportProfile>> {
+  return withAuth("saveImportProfileAction", async (userId) => {
+    let profile: ImportProfileDraft;
+    try {
+      profile = normalizeImportProfileDraft(draft);
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+
+    const result = await prismaImportProfileRepo.save({
+      ...profile,
+      userId,
+      headerFingerprint: computeHeaderFingerprint(profile.headers),
+    });
+    return handleResult(result, "saveImportProfileAction");
+  });
+}
+
+/**
+ * Delete an import profile.
+ * @param id - The profile ID.
+ * @returns Success status and optional error.
+ */
+export async function deleteImportProfileAction(
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  return withAuthMutation("deleteImportProfileAction", async (userId) => {
+    const result = await prismaImportProfileRepo.delete(id, userId);
+    return handleMutationResult(result, "deleteImportProfileAction");
+  });
+}
@@ -12,6 +12,11 @@ export * from "./accounts";
 export * from "./routines";
 export * from "./reviews";
 export * from "./trades";
+export * from "./tradePlans";
+export * from "./notifications";
+export * from "./importProfiles";
+export * from "./backup";
+export * from "./reports";
 export * from "./journal";
 export * from "./mental";
 export * from "./laboratory";
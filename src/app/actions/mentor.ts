@@ -12,7 +12,11 @@ import {
   prismaAdminRepo,
   prismaTradeRepo,
   prismaJournalRepo,
+  prismaSettingsRepo,
 } from "@/lib/database/repositories";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
 import { getCurrentUserId } from "@/lib/database/auth";
 import { prisma } from "@/lib/database";
 import { createClient } from "@/lib/supabase/server";
@@ -24,12 +28,27 @@ import {
   Trade,
   JournalEntry,
   DailyRoutine,
+  DEFAULT_SESSION_SETTINGS,
 } from "@/types";
 import {
   getCachedPermissions,
   setCachedPermissions,
   // invalidatePermissionCache - will be used when permission changes are implemented
 } from "@/lib/cache/mentorPermissionCache";
+import {
+  buildInviteNotification,
+  buildTradeCommentNotification,
+} from "@/services/notifications/notifications";
+import {
+  buildCohortAnalytics,
+  getCohortWindows,
+  isValidCohortPeriod,
+  type CohortAnalytics,
+} from "@/services/mentor/cohortAnalytics";
+import { notifyUser } from "./_helpers/notify";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
 
 // ========================================
 // INVITES
@@ -150,6 +169,37 @@ export async function getMenteesOverviewAction(): Promise<MenteeOverview[]> {
   }
 }
 
+/**
+ * Compare the current user's mentees over the last `periodDays` days against
+ * the period before, flagging who is deteriorating.
+ */
+export async function getCohortAnalyticsAction(
+  periodDays: number
+): Promise<CohortAnalytics | null> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId || !isValidCohortPeriod(periodDays)) return null;
+
+    // "Today" in the mentor's timezone: the server clock is UTC
+    const settings = await prismaSettingsRepo.getUserSettings(userId);
+    const today = dayjs()
+      .tz(settings?.data?.sessionSettings?.timezone ?? DEFAULT_SESSION_SETTINGS.timezone)
+      .format("YYYY-MM-DD");
+    const { previous } = getCohortWindows(periodDays, today);
+    const result = await prismaMentorRepo.getCohortActivity(userId, previous.from);
+
+    if (result.error) {
+      console.error("[getCohortAnalyticsAction] Error:", result.error);
+      return null;
+    }
+
+    return buildCohortAnalytics(result.data || [], periodDays, today);
+  } catch (error) {
+    console.error("[getCohortAnalyticsAction] Unexpected error:", error);
+    return null;
+  }
+}
+
 /**
  * Invite a mentee.
  */
@@ -179,6 +229,12 @@ export async function inviteMenteeAction(
       return { success: false, error: result.error.message };
     }
 
+    // Mentees without an account see the invite after signing up
+    const mentee = await prismaMentorRepo.getUserIdByEmail(menteeEmail);
+    if (mentee?.data) {
+      await notifyUser(mentee.data, buildInviteNotification(result.data));
+    }
+
     return { success: true, invite: result.data as unknown as MentorInvite };
   } catch (error) {
     console.error("[inviteMenteeAction] Unexpected error:", error);
@@ -721,7 +777,15 @@ export async function addTradeCommentAction(
       return { success: false, error: result.error.message };
     }
 
-    return { success: true, comment: result.data as unknown as TradeComment };
+    const comment = result.data;
+
+    // Comments by the mentor notify the trade owner
+    const owner = await prismaTradeRepo.getTradeOwnerId(tradeId);
+    if (owner?.data && owner.data !== userId) {
+      await notifyUser(owner.data, buildTradeCommentNotification(comment));
+    }
+
+    return { success: true, comment };
   } catch (error) {
     console.error("[addTradeCommentAction] Unexpected error:", error);
     return { success: false, error: "Unexpected error occurred" };
@@ -0,0 +1,182 @@
+"use server";
+
+/**
+ * Notification Server Actions
+ *
+ * Persistent notification center of the current user. Entries are written by
+ * the other actions (reviews, invites, trade comments, shared journal views,
+ * prop rule breaches, imports) through `notifyUser`.
+ *
+ * @example
+ * import { getNotificationsAction, markNotificationReadAction } from "@/app/actions/notifications";
+ *
+ * const { data, count } = await getNotificationsAction(1, 20, "unread");
+ * await markNotificationReadAction(data[0].id);
+ */
+
+import {
+  prismaNotificationRepo,
+  prismaSettingsRepo,
+  type NotificationFilter,
+} from "@/lib/database/repositories";
+import { getAuthenticatedUser } from "@/lib/database/auth";
+import { DEFAULT_DIGEST_SETTINGS, Notification } from "@/types";
+import type { NotificationInput } from "@/services/notifications/notifications";
+import { buildDigestMessage, getDigestPeriodStart } from "@/services/notifications/digest";
+import {
+  createDigestChannels,
+  deliverDigest,
+  type DeliveryResult,
+} from "@/services/notifications/channels";
+import { collectDigestContent } from "@/services/notifications/digestJob";
+import {
+  withAuth,
+  withAuthMutation,
+  withAuthRead,
+  handleResult,
+  handleMutationResult,
+  type ActionResult,
+} from "./_helpers/actionHelpers";
+
+/**
+ * Get a page of the current user's notifications (newest first).
+ * @param page - 1-based page.
+ * @param pageSize - Notifications per page.
+ * @param filter - inbox (not archived), unread or archived.
+ * @returns Notifications of the page and the total matching the filter.
+ */
+export async function getNotificationsAction(
+  page: number = 1,
+  pageSize: number = 20,
+  filter: NotificationFilter = "inbox"
+): Promise<{ data: Notification[]; count: number }> {
+  const result = await withAuthRead("getNotificationsAction", async (userId) => {
+    const notifications = await prismaNotificationRepo.getByUserId(userId, {
+      filter,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+    if (notifications.error) {
+      console.error("[getNotificationsAction] Error:", notifications.error);
+      return null;
+    }
+    return notifications.data;
+  });
+  return result || { data: [], count: 0 };
+}
+
+/**
+ * Count the unread notifications of the current user.
+ * @returns Unread count, or 0 on error.
+ */
+export async function getUnreadNotificationCountAction(): Promise<number> {
+  const count = await withAuthRead("getUnreadNotificationCountAction", async (userId) => {
+    const result = await prismaNotificationRepo.countUnread(userId);
+    return result.data;
+  });
+  return count || 0;
+}
+
+/**
+ * Write a notification for the current user (e.g. a client-side event).
+ * Notifications for other users are written by the server actions only.
+ * @param input - Type, title, message, link and payload.
+ * @returns The created notification.
+ */
+export async function createNotificationAction(
+  input: NotificationInput
+): Promise<ActionResult<Notification>> {
+  return withAuth("createNotificationAction", async (userId) => {
+    if (!input.title?.trim() || !input.message?.trim()) {
+      return { success: false, error: "Título e mensagem são obrigatórios" };
+    }
+    const result = await prismaNotificationRepo.create(userId, input);
+    return handleResult(result, "createNotificationAction");
+  });
+}
+
+/**
+ * Mark a notification as read or unread.
+ * @param id - The notification ID.
+ * @param read - false marks it as unread.
+ * @returns Success status and optional error.
+ */
+export async function markNotificationReadAction(
+  id: string,
+  read: boolean = true
+): Promise<{ success: boolean; error?: string }> {
+  return withAuthMutation("markNotificationReadAction", async (userId) => {
+    const result = await prismaNotificationRepo.setRead(id, userId, read);
+    return handleMutationResult(result, "markNotificationReadAction");
+  });
+}
+
+/**
+ * Mark all notifications of the current user as read.
+ * @returns Success status and optional error.
+ */
+export async function markAllNotificationsReadAction(): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  return withAuthMutation("markAllNotificationsReadAction", async (userId) => {
+    const result = await prismaNotificationRepo.markAllRead(userId);
+    return handleMutationResult(result, "markAllNotificationsReadAction");
+  });
+}
+
+/**
+ * Archive a notification (it leaves the inbox and counts as read).
+ * @param id - The notification ID.
+ * @returns Success status and optional error.
+ */
+export async function archiveNotificationAction(
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  return withAuthMutation("archiveNotificationAction", async (userId) => {
+    const result = await prismaNotificationRepo.archive(id, userId);
+    return handleMutationResult(result, "archiveNotificationAction");
+  });
+}
+
+/**
+ * Send the digest of the current user now, through the channels in the
+ * settings, to check the setup. Does not count as the scheduled digest.
+ * @returns Delivery result per channel.
+ */
+export async function sendTestDigestAction(): Promise<ActionResult<DeliveryResult[]>> {
+  return withAuth("sendTestDigestAction", async (userId) => {
+    const user = await getAuthenticatedUser();
+    const settings = await prismaSettingsRepo.getUserSettings(userId);
+    const digestSettings = settings.data?.digestSettings || DEFAULT_DIGEST_SETTINGS;
+    if (digestSettings.channels.length === 0) {
+      return { success: false, error: "Escolha ao menos um canal" };
+    }
+
+    const frequency = digestSettings.frequency === "off" ? "daily" : digestSettings.frequency;
+    const now = new Date();
+    const periodStart = getDigestPeriodStart(frequency, undefined, now);
+    const content = await collectDigestContent({ userId, email: user.email }, periodStart, {
+      now,
+      includeSummary: true,
+    });
+    const message = buildDigestMessage(content, {
+      frequency,
+      periodStart,
+      now,
+      appUrl: process.env.NEXT_PUBLIC_APP_URL,
+    });
+
+    const results = await deliverDigest(
+      message,
+      { userId, email: user.email, webhookUrl: digestSettings.webhookUrl },
+      digestSettings,
+      createDigestChannels()
+    );
+    const failed = results.find((result) => !result.success);
+    if (failed && !results.some((result) => result.success)) {
+      return { success: false, error: failed.error || "Falha no envio" };
+    }
+    return { success: true, data: results };
+  });
+}
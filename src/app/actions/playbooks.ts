@@ -8,7 +8,7 @@
 
 import { prismaPlaybookRepo } from "@/lib/database/repositories";
 import { getCurrentUserId } from "@/lib/database/auth";
-import { Playbook, SharedPlaybook, PlaybookStats } from "@/types";
+import { Playbook, PlaybookVersion, SharedPlaybook, PlaybookStats } from "@/types";
 import { revalidatePath, revalidateTag, unstable_cache } from "next/cache";
 
 /**
@@ -109,17 +109,24 @@ export async function createPlaybookAction(
 
 /**
  * Update an existing playbook.
+ * Changes to the name, description or rules create a new version described by `changelog`.
  */
 export async function updatePlaybookAction(
-  playbook: Playbook
-): Promise<{ success: boolean; error?: string }> {
+  playbook: Playbook,
+  changelog?: string
+): Promise<{ success: boolean; playbook?: Playbook; error?: string }> {
   try {
     const userId = await getCurrentUserId();
     if (!userId) {
       return { success: false, error: "Not authenticated" };
     }
 
-    const result = await prismaPlaybookRepo.update(playbook.id, userId, playbook);
+    const result = await prismaPlaybookRepo.update(
+      playbook.id,
+      userId,
+      playbook,
+      changelog?.trim() || undefined
+    );
 
     if (result.error) {
       console.error("[updatePlaybookAction] Error:", result.error);
@@ -128,13 +135,35 @@ export async function updatePlaybookAction(
 
     revalidateTag(`playbooks:${userId}`, "max");
     revalidatePath("/laboratory");
-    return { success: true };
+    return { success: true, playbook: result.data || undefined };
   } catch (error) {
     console.error("[updatePlaybookAction] Unexpected error:", error);
     return { success: false, error: "Unexpected error occurred" };
   }
 }
 
+/**
+ * Get the version history of a playbook, newest first.
+ */
+export async function getPlaybookVersionsAction(playbookId: string): Promise<PlaybookVersion[]> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return [];
+
+    const result = await prismaPlaybookRepo.getVersions(playbookId, userId);
+
+    if (result.error) {
+      console.error("[getPlaybookVersionsAction] Error:", result.error);
+      return [];
+    }
+
+    return result.data || [];
+  } catch (error) {
+    console.error("[getPlaybookVersionsAction] Unexpected error:", error);
+    return [];
+  }
+}
+
 /**
  * Delete a playbook.
  */
@@ -187,9 +216,15 @@ export async function clonePlaybookAction(
       color: sourcePlaybook.color,
       ruleGroups: sourcePlaybook.ruleGroups,
       userId: userId,
+      // Lineage: which version of the community playbook was cloned
+      sourcePlaybookId: sharedPlaybook.playbookId,
+      sourceVersion: sourcePlaybook.currentVersion,
     };
 
-    const result = await prismaPlaybookRepo.create(newPlaybookData);
+    const result = await prismaPlaybookRepo.create(
+      newPlaybookData,
+      `Clonado de ${sourcePlaybook.name}${sourcePlaybook.currentVersion ? ` v${sourcePlaybook.currentVersion}` : ""}`
+    );
 
     if (result.error) {
       console.error("[clonePlaybookAction] Error:", result.error);
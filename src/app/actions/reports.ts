@@ -0,0 +1,97 @@
+"use server";
+
+/**
+ * Report Server Actions
+ *
+ * Generates the performance report of an account for a date range. The files are
+ * rendered on the server so the writers never reach the client bundle.
+ *
+ * @example
+ * import { generatePerformanceReportAction } from "@/app/actions/reports";
+ *
+ * const result = await generatePerformanceReportAction(accountId, "2025-01-01", "2025-01-31", "pdf");
+ */
+
+import dayjs from "dayjs";
+import { prismaAccountRepo, prismaTradeRepo } from "@/lib/database/repositories";
+import { renderReportPdf, renderReportXlsx } from "@/lib/reports";
+import { buildPerformanceReport, type ReportFormat } from "@/services/analytics/report";
+import { withAuth, type ActionResult } from "./_helpers/actionHelpers";
+
+export interface GeneratedReport {
+  fileName: string;
+  mimeType: string;
+  /** File contents, base64 encoded */
+  base64: string;
+}
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && dayjs(value).format("YYYY-MM-DD") === value;
+
+/**
+ * Generates the XLSX workbook or the PDF summary of an account.
+ * @param accountId - The account ID.
+ * @param startDate - First day of the range (YYYY-MM-DD).
+ * @param endDate - Last day of the range (YYYY-MM-DD).
+ * @param format - "xlsx" or "pdf".
+ */
+export async function generatePerformanceReportAction(
+  accountId: string,
+  startDate: string,
+  endDate: string,
+  format: ReportFormat
+): Promise<ActionResult<GeneratedReport>> {
+  return withAuth("generatePerformanceReportAction", async (userId) => {
+    if (!isValidDate(startDate) || !isValidDate(endDate)) {
+      return { success: false, error: "Período inválido." };
+    }
+    if (startDate > endDate) {
+      return { success: false, error: "A data inicial deve ser anterior à data final." };
+    }
+    if (format !== "xlsx" && format !== "pdf") {
+      return { success: false, error: "Formato de relatório inválido." };
+    }
+
+    const accountResult = await prismaAccountRepo.getById(accountId, userId);
+    if (accountResult.error) {
+      console.error("[generatePerformanceReportAction] Error:", accountResult.error);
+      return { success: false, error: accountResult.error.message };
+    }
+    const account = accountResult.data;
+
+    const tradesResult = await prismaTradeRepo.getByAccountId(accountId, userId);
+    if (tradesResult.error) {
+      console.error("[generatePerformanceReportAction] Error:", tradesResult.error);
+      return { success: false, error: tradesResult.error.message };
+    }
+
+    const report = buildPerformanceReport(tradesResult.data, {
+      accountName: account.name,
+      currency: account.currency,
+      initialBalance: account.initialBalance,
+      startDate,
+      endDate,
+    });
+    const bytes = format === "xlsx" ? renderReportXlsx(report) : renderReportPdf(report);
+    const slug = account.name
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-zA-Z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .toLowerCase();
+
+    return {
+      success: true,
+      data: {
+        fileName: `relatorio-${slug || "conta"}-${startDate}-a-${endDate}.${format}`,
+        mimeType: MIME_TYPES[format],
+        base64: Buffer.from(bytes).toString("base64"),
+      },
+    };
+  });
+}
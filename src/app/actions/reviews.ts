@@ -3,7 +3,9 @@
 /**
  * Review Server Actions
  *
- * Server-side actions for mentor review operations using Prisma ORM.
+ * Server-side actions for mentor review operations using Prisma ORM, including
+ * the review threads (replies, @mentions, edit history and status) and the
+ * annotations mentors draw over journal images.
  * These actions run exclusively on the server and can be called from client components.
  *
  * @example
@@ -14,15 +16,57 @@
  * const review = await createReviewAction(reviewData);
  */
 
-import { prismaReviewRepo, MentorReview } from "@/lib/database/repositories";
+import {
+  prismaImageAnnotationRepo,
+  prismaReviewRepo,
+  prismaReviewThreadRepo,
+  MentorReview,
+  type ImageAnnotationInput,
+} from "@/lib/database/repositories";
 import { getCurrentUserId } from "@/lib/database/auth";
 import { revalidatePath } from "next/cache";
+import {
+  buildReviewNotification,
+  buildReviewReplyNotification,
+} from "@/services/notifications/notifications";
+import {
+  canSetThreadStatus,
+  extractMentions,
+  getReplyRecipients,
+} from "@/services/mentor/reviewThreads";
+import {
+  isValidAnnotationColor,
+  sanitizeAnnotationShape,
+} from "@/services/mentor/imageAnnotations";
+import type {
+  ImageAnnotation,
+  ImageAnnotationShape,
+  MentionCandidate,
+  ReviewEdit,
+  ReviewInboxItem,
+  ReviewReply,
+  ReviewThreadFields,
+  ReviewThreadStatus,
+} from "@/types";
+import { notifyUser } from "./_helpers/notify";
+import {
+  withAuth,
+  withAuthMutation,
+  withAuthRead,
+  handleResult,
+  handleMutationResult,
+  type ActionResult,
+  type MutationResult,
+} from "./_helpers/actionHelpers";
 
 /**
  * Create a new review (correction/comment) from the current user as mentor.
  */
 export async function createReviewAction(
-  data: Omit<MentorReview, "id" | "createdAt" | "updatedAt" | "isRead" | "mentorId">
+  data: Omit<
+    MentorReview,
+    "id" | "createdAt" | "updatedAt" | "isRead" | "mentorId" | ReviewThreadFields
+  >
 ): Promise<{ success: boolean; review?: MentorReview; error?: string }> {
   try {
     const mentorId = await getCurrentUserId();
@@ -45,6 +89,10 @@ export async function createReviewAction(
       return { success: false, error: result.error.message };
     }
 
+    if (result.data) {
+      await notifyUser(result.data.menteeId, buildReviewNotification(result.data));
+    }
+
     return { success: true, review: result.data || undefined };
   } catch (error) {
     console.error("[createReviewAction] Unexpected error:", error);
@@ -53,25 +101,19 @@ export async function createReviewAction(
 }
 
 /**
- * Update a review's content.
+ * Update a review's content (its mentor only), keeping the previous text in
+ * the thread history.
  */
 export async function updateReviewAction(
   reviewId: string,
   content: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const result = await prismaReviewRepo.updateContent(reviewId, content);
-
-    if (result.error) {
-      console.error("[updateReviewAction] Error:", result.error);
-      return { success: false, error: result.error.message };
-    }
-
-    return { success: true };
-  } catch (error) {
-    console.error("[updateReviewAction] Unexpected error:", error);
-    return { success: false, error: "Unexpected error occurred" };
-  }
+): Promise<MutationResult> {
+  return withAuthMutation("updateReviewAction", async (mentorId) =>
+    handleMutationResult(
+      await prismaReviewThreadRepo.updateReviewContent(reviewId, mentorId, content),
+      "updateReviewAction"
+    )
+  );
 }
 
 /**
@@ -246,3 +288,254 @@ export async function getUnreadReviewCountAction(): Promise<number> {
     return 0;
   }
 }
+
+// ============================================
+// THREADS
+// ============================================
+
+/**
+ * Replies of the given reviews (threads the current user takes part in).
+ */
+export async function getReviewRepliesAction(reviewIds: string[]): Promise<ReviewReply[]> {
+  const replies = await withAuthRead("getReviewRepliesAction", async (userId) => {
+    const result = await prismaReviewThreadRepo.getReplies(reviewIds, userId);
+    if (result.error) {
+      console.error("[getReviewRepliesAction] Error:", result.error);
+      return null;
+    }
+    return result.data;
+  });
+  return replies || [];
+}
+
+/**
+ * Users that can be @mentioned in the threads of a mentee. Empty unless the
+ * current user is the mentee or one of their mentors.
+ */
+export async function getMentionCandidatesAction(menteeId: string): Promise<MentionCandidate[]> {
+  const candidates = await withAuthRead("getMentionCandidatesAction", async (userId) => {
+    const result = await prismaReviewThreadRepo.getMentionCandidates(menteeId);
+    if (result.error) {
+      console.error("[getMentionCandidatesAction] Error:", result.error);
+      return null;
+    }
+    return result.data?.some((c) => c.userId === userId) ? result.data : null;
+  });
+  return candidates || [];
+}
+
+/**
+ * Reply to a review thread. Mentioned users get a mention notification, the
+ * other participant a reply notification.
+ */
+export async function replyToReviewAction(
+  reviewId: string,
+  content: string
+): Promise<ActionResult<ReviewReply>> {
+  return withAuth("replyToReviewAction", async (userId) => {
+    const text = content.trim();
+    if (!text) return { success: false, error: "Escreva uma resposta" };
+
+    const reviewResult = await prismaReviewThreadRepo.getParticipantReview(reviewId, userId);
+    if (reviewResult.error || !reviewResult.data) {
+      return { success: false, error: reviewResult.error?.message || "Review not found" };
+    }
+    const review = reviewResult.data;
+
+    const candidates = await prismaReviewThreadRepo.getMentionCandidates(review.menteeId);
+    const mentions = extractMentions(text, candidates.data || []);
+
+    const result = await prismaReviewThreadRepo.addReply(reviewId, userId, text, mentions);
+    if (result.error || !result.data) {
+      console.error("[replyToReviewAction] Error:", result.error);
+      return { success: false, error: result.error?.message || "Reply not saved" };
+    }
+    const reply = result.data;
+
+    const { replied, mentioned } = getReplyRecipients(review, reply);
+    await Promise.all([
+      ...replied.map((id) => notifyUser(id, buildReviewReplyNotification(review, reply, id))),
+      ...mentioned.map((id) =>
+        notifyUser(id, buildReviewReplyNotification(review, reply, id, "mention"))
+      ),
+    ]);
+
+    return { success: true, data: reply };
+  });
+}
+
+/**
+ * Edit a reply of the current user, keeping the previous text in the history.
+ * Mentions are checked against the thread the reply belongs to.
+ */
+export async function updateReviewReplyAction(
+  replyId: string,
+  content: string
+): Promise<ActionResult<ReviewReply>> {
+  return withAuth("updateReviewReplyAction", async (userId) => {
+    const text = content.trim();
+    if (!text) return { success: false, error: "Escreva uma resposta" };
+
+    const replyResult = await prismaReviewThreadRepo.getAuthorReply(replyId, userId);
+    if (replyResult.error || !replyResult.data) {
+      return { success: false, error: replyResult.error?.message || "Reply not found" };
+    }
+
+    const reviewResult = await prismaReviewThreadRepo.getParticipantReview(
+      replyResult.data.reviewId,
+      userId
+    );
+    if (reviewResult.error || !reviewResult.data) {
+      return { success: false, error: reviewResult.error?.message || "Review not found" };
+    }
+
+    const candidates = await prismaReviewThreadRepo.getMentionCandidates(
+      reviewResult.data.menteeId
+    );
+    const mentions = extractMentions(text, candidates.data || []);
+
+    return handleResult(
+      await prismaReviewThreadRepo.updateReply(replyId, userId, text, mentions),
+      "updateReviewReplyAction"
+    );
+  });
+}
+
+/**
+ * Edit history of a review and its replies.
+ */
+export async function getReviewEditsAction(reviewId: string): Promise<ReviewEdit[]> {
+  const edits = await withAuthRead("getReviewEditsAction", async (userId) => {
+    const result = await prismaReviewThreadRepo.getEdits(reviewId, userId);
+    if (result.error) {
+      console.error("[getReviewEditsAction] Error:", result.error);
+      return null;
+    }
+    return result.data;
+  });
+  return edits || [];
+}
+
+/**
+ * Acknowledge (mentee), resolve or reopen a review thread.
+ */
+export async function setReviewThreadStatusAction(
+  reviewId: string,
+  status: ReviewThreadStatus
+): Promise<ActionResult<MentorReview>> {
+  return withAuth("setReviewThreadStatusAction", async (userId) => {
+    const reviewResult = await prismaReviewThreadRepo.getParticipantReview(reviewId, userId);
+    if (reviewResult.error || !reviewResult.data) {
+      return { success: false, error: reviewResult.error?.message || "Review not found" };
+    }
+    if (!canSetThreadStatus(reviewResult.data, userId, status)) {
+      return { success: false, error: "Não é possível mudar o status desta thread" };
+    }
+
+    const result = await prismaReviewThreadRepo.setStatus(reviewId, userId, status);
+    if (result.data) revalidatePath("/mentor", "page");
+    return handleResult(result, "setReviewThreadStatusAction");
+  });
+}
+
+/**
+ * Open threads of the current user as mentor, across all mentees.
+ */
+export async function getMentorInboxAction(): Promise<ReviewInboxItem[]> {
+  const inbox = await withAuthRead("getMentorInboxAction", async (userId) => {
+    const result = await prismaReviewThreadRepo.getInbox(userId);
+    if (result.error) {
+      console.error("[getMentorInboxAction] Error:", result.error);
+      return null;
+    }
+    return result.data;
+  });
+  return inbox || [];
+}
+
+// ============================================
+// IMAGE ANNOTATIONS
+// ============================================
+
+/**
+ * Validates the shape and color of an annotation sent by the client.
+ */
+function sanitizeAnnotation<T extends { shape?: ImageAnnotationShape; color?: string }>(
+  data: T
+): T | null {
+  const shape = data.shape && sanitizeAnnotationShape(data.shape);
+  if (data.shape && !shape) return null;
+  if (data.color !== undefined && !isValidAnnotationColor(data.color)) return null;
+  return { ...data, ...(shape && { shape }) };
+}
+
+/**
+ * Annotations over the images of a journal entry: all of them for the owner
+ * of the entry, their own for a mentor.
+ */
+export async function getImageAnnotationsAction(
+  journalEntryId: string
+): Promise<ImageAnnotation[]> {
+  const annotations = await withAuthRead("getImageAnnotationsAction", async (userId) => {
+    const result = await prismaImageAnnotationRepo.getForEntry(journalEntryId, userId);
+    if (result.error) {
+      console.error("[getImageAnnotationsAction] Error:", result.error);
+      return null;
+    }
+    return result.data;
+  });
+  return annotations || [];
+}
+
+/**
+ * Draw an annotation over an image of a mentee, optionally tied to a review.
+ */
+export async function createImageAnnotationAction(
+  data: ImageAnnotationInput
+): Promise<ActionResult<ImageAnnotation>> {
+  return withAuth("createImageAnnotationAction", async (userId) => {
+    const annotation = sanitizeAnnotation(data);
+    if (!annotation) return { success: false, error: "Anotação inválida" };
+
+    return handleResult(
+      await prismaImageAnnotationRepo.create(
+        { ...annotation, comment: annotation.comment?.trim() },
+        userId
+      ),
+      "createImageAnnotationAction"
+    );
+  });
+}
+
+/**
+ * Edit an annotation of the current user (shape, color, comment or review).
+ */
+export async function updateImageAnnotationAction(
+  id: string,
+  data: Partial<Omit<ImageAnnotationInput, "imageId">>
+): Promise<ActionResult<ImageAnnotation>> {
+  return withAuth("updateImageAnnotationAction", async (userId) => {
+    const annotation = sanitizeAnnotation(data);
+    if (!annotation) return { success: false, error: "Anotação inválida" };
+
+    return handleResult(
+      await prismaImageAnnotationRepo.update(id, userId, {
+        ...annotation,
+        comment: annotation.comment === undefined ? undefined : annotation.comment?.trim() || null,
+      }),
+      "updateImageAnnotationAction"
+    );
+  });
+}
+
+/**
+ * Delete an annotation of the current user.
+ */
+export async function deleteImageAnnotationAction(id: string): Promise<MutationResult> {
+  return withAuthMutation("deleteImageAnnotationAction", async (userId) =>
+    handleMutationResult(
+      await prismaImageAnnotationRepo.delete(id, userId),
+      "deleteImageAnnotationAction"
+    )
+  );
+}
@@ -14,6 +14,11 @@
 
 import { prismaShareRepo, SharedJournal } from "@/lib/database/repositories";
 import { getCurrentUserId } from "@/lib/database/auth";
+import {
+  buildShareViewNotification,
+  shouldNotifyShareView,
+} from "@/services/notifications/notifications";
+import { notifyUser } from "./_helpers/notify";
 
 /**
  * Create a share link for a journal entry.
@@ -61,6 +66,18 @@ export async function getSharedJournalByTokenAction(token: string): Promise<Shar
     // Increment view count
     if (result.data) {
       await prismaShareRepo.incrementViewCount(token);
+
+      // The owner hears about the first view and the milestones, not their own views
+      const viewCount = (result.data.viewCount || 0) + 1;
+      if (shouldNotifyShareView(viewCount)) {
+        const viewerId = await getCurrentUserId();
+        if (viewerId !== result.data.userId) {
+          await notifyUser(
+            result.data.userId,
+            buildShareViewNotification({ ...result.data, viewCount })
+          );
+        }
+      }
     }
 
     return result.data;
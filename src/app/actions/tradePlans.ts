@@ -0,0 +1,164 @@
+"use server";
+
+/**
+ * Trade Plan Server Actions
+ *
+ * Pre-trade plans saved from the Pre-Flight Checklist. Executing a plan links it
+ * to the created trade and fills the trade's plan adherence from the
+ * plan-vs-execution comparison.
+ *
+ * @example
+ * import { saveTradePlanAction, executeTradePlanAction } from "@/app/actions/tradePlans";
+ *
+ * const result = await saveTradePlanAction(draft);
+ * await executeTradePlanAction(result.data.id, tradeId);
+ */
+
+import { prismaTradePlanRepo, prismaTradeRepo } from "@/lib/database/repositories";
+import { TradePlan, TradePlanStatus } from "@/types";
+import {
+  compareTradeToPlan,
+  normalizeTradePlanDraft,
+  type TradePlanComparison,
+  type TradePlanDraft,
+} from "@/services/trades/tradePlan";
+import { revalidateTag } from "next/cache";
+import {
+  withAuth,
+  withAuthMutation,
+  withAuthRead,
+  handleResult,
+  handleMutationResult,
+  type ActionResult,
+} from "./_helpers/actionHelpers";
+
+/**
+ * Get the plans of an account (newest first).
+ * @param accountId - The account ID.
+ * @param status - Only plans in this status.
+ * @returns Plans, or an empty list on error.
+ */
+export async function getTradePlansAction(
+  accountId: string,
+  status?: TradePlanStatus
+): Promise<TradePlan[]> {
+  const plans = await withAuthRead("getTradePlansAction", async (userId) => {
+    const result = await prismaTradePlanRepo.getByAccountId(accountId, userId, status);
+    if (result.error) {
+      console.error("[getTradePlansAction] Error:", result.error);
+      return null;
+    }
+    return result.data;
+  });
+  return plans || [];
+}
+
+/**
+ * Save a new pre-trade plan.
+ * @param draft - Planned levels, size, playbook, checked rules and arguments.
+ * @returns The saved plan or a validation error.
+ */
+export async function saveTradePlanAction(draft: TradePlanDraft): Promise<ActionResult<TradePlan>> {
+  return withAuth("saveTradePlanAction", async (userId) => {
+    let plan: TradePlanDraft;
+    try {
+      plan = normalizeTradePlanDraft(draft);
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+
+    const result = await prismaTradePlanRepo.create(userId, plan);
+    return handleResult(result, "saveTradePlanAction");
+  });
+}
+
+/**
+ * Link a plan to the trade created from it and store the trade's plan adherence.
+ * @param planId - The executed plan.
+ * @param tradeId - The trade created from the plan.
+ * @returns The plan-vs-execution comparison.
+ */
+export async function executeTradePlanAction(
+  planId: string,
+  tradeId: string
+): Promise<ActionResult<TradePlanComparison>> {
+  return withAuth("executeTradePlanAction", async (userId) => {
+    const [planResult, tradeResult] = await Promise.all([
+      prismaTradePlanRepo.getById(planId, userId),
+      prismaTradeRepo.getById(tradeId, userId),
+    ]);
+    if (!planResult.data) return { success: false, error: "Plano não encontrado" };
+    if (!tradeResult.data) return { success: false, error: "Trade não encontrado" };
+    if (planResult.data.status !== "planned") {
+      return { success: false, error: "Plano já executado ou cancelado" };
+    }
+
+    const linked = await prismaTradePlanRepo.linkTrade(planId, userId, tradeId);
+    if (linked.error) {
+      console.error("[executeTradePlanAction] Error:", linked.error);
+      return { success: false, error: linked.error.message };
+    }
+
+    const comparison = compareTradeToPlan(planResult.data, tradeResult.data);
+    const updated = await prismaTradeRepo.update(tradeId, userId, {
+      planAdherence: comparison.adherence,
+      planAdherenceRating: comparison.rating,
+    });
+    if (updated.error) {
+      console.error("[executeTradePlanAction] Error:", updated.error);
+    }
+
+    revalidateTag(`trades:${tradeResult.data.accountId}`, "max");
+    return { success: true, data: comparison };
+  });
+}
+
+/**
+ * Plan executed by a trade and how the execution compares with it.
+ * @param tradeId - The trade ID.
+ * @returns Plan and comparison, or null when the trade has no plan.
+ */
+export async function getTradePlanComparisonAction(
+  tradeId: string
+): Promise<{ plan: TradePlan; comparison: TradePlanComparison } | null> {
+  return withAuthRead("getTradePlanComparisonAction", async (userId) => {
+    const [planResult, tradeResult] = await Promise.all([
+      prismaTradePlanRepo.getByTradeId(tradeId, userId),
+      prismaTradeRepo.getById(tradeId, userId),
+    ]);
+    if (!planResult.data || !tradeResult.data) return null;
+
+    return {
+      plan: planResult.data,
+      comparison: compareTradeToPlan(planResult.data, tradeResult.data),
+    };
+  });
+}
+
+/**
+ * Cancel a plan that will not be traded.
+ * @param id - The plan ID.
+ * @returns Success status and optional error.
+ */
+export async function cancelTradePlanAction(
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  return withAuthMutation("cancelTradePlanAction", async (userId) => {
+    const result = await prismaTradePlanRepo.cancel(id, userId);
+    return handleMutationResult(result, "cancelTradePlanAction");
+  });
+}
+
+/**
+ * Delete a plan.
+ * @param id - The plan ID.
+ * @returns Success status and optional error.
+ */
+export async function deleteTradePlanAction(
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  return withAuthMutation("deleteTradePlanAction", async (userId) => {
+    const result = await prismaTradePlanRepo.delete(id, userId);
+    return handleMutationResult(result, "deleteTradePlanAction");
+  });
+}
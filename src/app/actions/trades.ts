@@ -13,12 +13,41 @@
  * const success = await saveTradeAction(tradeData);
  */
 
-import { prismaTradeRepo } from "@/lib/database/repositories";
+import {
+  prismaImportBatchRepo,
+  prismaPlaybookRepo,
+  prismaSettingsRepo,
+  prismaTradePlanRepo,
+  prismaTradeRepo,
+} from "@/lib/database/repositories";
 import { prisma } from "@/lib/database"; // Direct access for journal link checks
 import { getCurrentUserId } from "@/lib/database/auth";
-import { Trade, TradeLite } from "@/types";
+import { ImportBatch, Trade, TradeLite } from "@/types";
+import { computeImportDiff, planImport, type ImportDiff } from "@/services/trades/importDiff";
+import { compareTradeToPlan } from "@/services/trades/tradePlan";
+import { resolvePlaybookVersion } from "@/services/trades/playbookVersions";
+import { buildImportNotification } from "@/services/notifications/notifications";
 import { revalidatePath, revalidateTag, unstable_cache } from "next/cache";
-import { withAuthRead, withAuthMutation } from "./_helpers/actionHelpers";
+import {
+  withAuth,
+  withAuthRead,
+  withAuthMutation,
+  handleResult,
+  type ActionResult,
+} from "./_helpers/actionHelpers";
+import { notifyUser } from "./_helpers/notify";
+import { recordPropFirmBreaches } from "./_helpers/propFirm";
+
+/** Confirmed import session passed to saveTradesBatchAction */
+export interface TradeImportSession {
+  accountId: string;
+  /** Parser that read the file (metatrader, ninjatrader, ibkr...) */
+  source: string;
+  fileName?: string;
+  mode: "append" | "replace";
+  /** Diff indexes of conflicting trades to overwrite with the file values */
+  overwrite?: number[];
+}
 
 /**
  * Get all trades for an account.
@@ -152,12 +181,28 @@ export async function saveTradeAction(
       // Check if exists for update vs create
       const existing = await prismaTradeRepo.getById(trade.id, userId);
       if (existing.data) {
-        result = await prismaTradeRepo.update(trade.id, userId, tradeWithUser);
+        const merged = { ...existing.data, ...trade };
+        const adherence = await getTradePlanAdherence(merged, userId);
+        // Re-pin only when the playbook or the entry date/time changed
+        const version =
+          merged.strategy !== existing.data.strategy ||
+          merged.entryDate !== existing.data.entryDate ||
+          merged.entryTime !== existing.data.entryTime ||
+          !existing.data.playbookVersion
+            ? await getTradePlaybookVersion(merged, userId)
+            : {};
+        result = await prismaTradeRepo.update(trade.id, userId, {
+          ...tradeWithUser,
+          ...adherence,
+          ...version,
+        });
       } else {
-        result = await prismaTradeRepo.create(tradeWithUser);
+        const version = await getTradePlaybookVersion(trade, userId);
+        result = await prismaTradeRepo.create({ ...tradeWithUser, ...version });
       }
     } else {
-      result = await prismaTradeRepo.create(tradeWithUser);
+      const version = await getTradePlaybookVersion(trade, userId);
+      result = await prismaTradeRepo.create({ ...tradeWithUser, ...version });
     }
 
     if (result.error) {
@@ -187,6 +232,8 @@ export async function saveTradeAction(
         }
       }
 
+      await recordPropFirmBreaches(userId, trade.accountId);
+
       // Invalidate cached metrics and history (Next.js 15 requires profile arg)
       revalidateTag(`trades:${trade.accountId}`, "max");
       revalidatePath(`/dashboard/${trade.accountId}`, "page");
@@ -199,19 +246,60 @@ export async function saveTradeAction(
   }
 }
 
+/**
+ * Dry run of an import: classifies each parsed trade against the account's trades
+ * (new, duplicate, modified since the last import, conflicting with journal edits).
+ * Nothing is written; in replace mode every trade is new.
+ */
+export async function previewTradesImportAction(
+  accountId: string,
+  trades: Partial<Trade>[],
+  mode: TradeImportSession["mode"] = "append"
+): Promise<ActionResult<ImportDiff>> {
+  return withAuth("previewTradesImportAction", async (userId) => {
+    if (mode === "replace") {
+      return { success: true, data: computeImportDiff(trades, []) };
+    }
+
+    const candidates = await prismaImportBatchRepo.getCandidates(accountId, userId);
+    if (candidates.error) {
+      console.error("[previewTradesImportAction] Error:", candidates.error);
+      return { success: false, error: candidates.error.message };
+    }
+
+    return { success: true, data: computeImportDiff(trades, candidates.data) };
+  });
+}
+
 /**
  * Save multiple trades in batch.
  * Optimized for imports to reduce overhead.
+ *
+ * With an import session the diff is recomputed on the server and applied atomically
+ * as one import batch (new trades created, modified/overwritten ones updated,
+ * duplicates skipped), so the whole import can later be rolled back.
  */
 export async function saveTradesBatchAction(
-  trades: Partial<Trade>[]
-): Promise<{ success: boolean; count: number; error?: string }> {
+  trades: Partial<Trade>[],
+  session?: TradeImportSession
+): Promise<{
+  success: boolean;
+  count: number;
+  error?: string;
+  batchId?: string;
+  updated?: number;
+  skipped?: number;
+}> {
   try {
     const userId = await getCurrentUserId();
     if (!userId) {
       return { success: false, count: 0, error: "Not authenticated" };
     }
 
+    if (session) {
+      return await applyTradeImport(trades, session, userId);
+    }
+
     if (trades.length === 0) {
       return { success: true, count: 0 };
     }
@@ -234,6 +322,11 @@ export async function saveTradesBatchAction(
     if (accountId) {
       revalidateTag(`trades:${accountId}`, "max");
       revalidatePath(`/dashboard/${accountId}`, "page");
+      await notifyUser(
+        userId,
+        buildImportNotification({ accountId, count: result.data?.count || 0 })
+      );
+      await recordPropFirmBreaches(userId, accountId);
     }
 
     return { success: true, count: result.data?.count || 0 };
@@ -243,6 +336,108 @@ export async function saveTradesBatchAction(
   }
 }
 
+async function applyTradeImport(
+  trades: Partial<Trade>[],
+  session: TradeImportSession,
+  userId: string
+): Promise<{
+  success: boolean;
+  count: number;
+  error?: string;
+  batchId?: string;
+  updated?: number;
+  skipped?: number;
+}> {
+  const { accountId } = session;
+  const incoming = trades.map((t) => ({ ...t, accountId }));
+
+  let diff = computeImportDiff(incoming, []);
+  if (session.mode === "append") {
+    const candidates = await prismaImportBatchRepo.getCandidates(accountId, userId);
+    if (candidates.error) {
+      console.error("[saveTradesBatchAction] Error:", candidates.error);
+      return { success: false, count: 0, error: candidates.error.message };
+    }
+    diff = computeImportDiff(incoming, candidates.data);
+  }
+
+  const plan = planImport(incoming, diff, session.overwrite);
+  const result = await prismaImportBatchRepo.apply({
+    userId,
+    accountId,
+    source: session.source,
+    fileName: session.fileName,
+    replaceExisting: session.mode === "replace",
+    creates: plan.creates,
+    updates: plan.updates,
+    skippedCount: plan.skipped,
+  });
+
+  if (result.error) {
+    console.error("[saveTradesBatchAction] Error:", result.error);
+    return { success: false, count: 0, error: result.error.message };
+  }
+
+  // Revalidate cache (balance sync is handled by SQL trigger)
+  revalidateTag(`trades:${accountId}`, "max");
+  revalidatePath(`/dashboard/${accountId}`, "page");
+
+  const summary = {
+    count: plan.creates.length + plan.updates.length,
+    batchId: result.data.id,
+    updated: plan.updates.length,
+    skipped: plan.skipped,
+  };
+  await notifyUser(
+    userId,
+    buildImportNotification({
+      ...summary,
+      accountId,
+      fileName: session.fileName,
+      count: plan.creates.length,
+    })
+  );
+  await recordPropFirmBreaches(userId, accountId);
+
+  return { success: true, ...summary };
+}
+
+/**
+ * Get the import history of an account (most recent first).
+ * @returns Batches, or an empty list on error.
+ */
+export async function getImportBatchesAction(accountId: string): Promise<ImportBatch[]> {
+  const batches = await withAuthRead("getImportBatchesAction", async (userId) => {
+    const result = await prismaImportBatchRepo.getByAccountId(accountId, userId);
+    if (result.error) {
+      console.error("[getImportBatchesAction] Error:", result.error);
+      return null;
+    }
+    return result.data;
+  });
+  return batches || [];
+}
+
+/**
+ * Roll back a whole import: trades it created are deleted and trades it
+ * updated get their previous values back.
+ * @param batchId - The import batch ID.
+ * @returns The rolled back batch or an error.
+ */
+export async function rollbackImportBatchAction(
+  batchId: string
+): Promise<ActionResult<ImportBatch>> {
+  return withAuth("rollbackImportBatchAction", async (userId) => {
+    const result = await prismaImportBatchRepo.rollback(batchId, userId);
+    if (result.data) {
+      await recordPropFirmBreaches(userId, result.data.accountId);
+      revalidateTag(`trades:${result.data.accountId}`, "max");
+      revalidatePath(`/dashboard/${result.data.accountId}`, "page");
+    }
+    return handleResult(result, "rollbackImportBatchAction");
+  });
+}
+
 /**
  * Delete a trade.
  */
@@ -260,6 +455,7 @@ export async function deleteTradeAction(
     }
 
     if (accountId) {
+      await recordPropFirmBreaches(userId, accountId);
       revalidateTag(`trades:${accountId}`, "max");
       revalidatePath(`/dashboard/${accountId}`, "page");
     }
@@ -288,6 +484,7 @@ export async function deleteTradesByAccountAction(
     }
 
     const deletedCount = deleteResult.data || 0;
+    await recordPropFirmBreaches(userId, accountId);
 
     // NOTE: Balance sync is handled by SQL trigger for each deleted trade
     // Invalidate cached metrics and history
@@ -480,6 +677,50 @@ export async function getAdvancedMetricsAction(
   }
 }
 
+/**
+ * Plan adherence of a trade that executed a pre-trade plan, recomputed from the
+ * edited values so it follows later changes (exit, stop, size).
+ *
+ * @returns Adherence fields, or nothing when the trade has no plan
+ */
+async function getTradePlanAdherence(
+  trade: Trade,
+  userId: string
+): Promise<Pick<Trade, "planAdherence" | "planAdherenceRating">> {
+  const plan = await prismaTradePlanRepo.getByTradeId(trade.id, userId);
+  if (!plan.data) return {};
+
+  const comparison = compareTradeToPlan(plan.data, trade);
+  return { planAdherence: comparison.adherence, planAdherenceRating: comparison.rating };
+}
+
+/**
+ * Version of the trade's playbook that was active when it was entered, so the trade
+ * keeps being evaluated against the rules it was taken under.
+ *
+ * @returns The pinned version, or nothing when the strategy has no playbook
+ */
+async function getTradePlaybookVersion(
+  trade: Partial<Trade>,
+  userId: string
+): Promise<Pick<Trade, "playbookVersion">> {
+  if (!trade.strategy || !trade.entryDate) return {};
+
+  const [versions, settings] = await Promise.all([
+    prismaPlaybookRepo.getVersionsByName(userId, trade.strategy),
+    prismaSettingsRepo.getUserSettings(userId),
+  ]);
+  if (!versions.data) return {};
+
+  const playbookVersion = resolvePlaybookVersion(
+    versions.data,
+    trade.entryDate,
+    trade.entryTime,
+    settings.data?.sessionSettings?.timezone
+  );
+  return playbookVersion ? { playbookVersion } : {};
+}
+
 /**
  * Helper to sync journal date with trade date.
  * If a trade date changes and it's linked to a journal:
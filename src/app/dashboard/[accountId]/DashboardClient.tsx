@@ -1,13 +1,18 @@
 "use client";
 
-import { useState, useCallback, useTransition } from "react";
+import { useState, useCallback, useMemo, useTransition } from "react";
 import dynamic from "next/dynamic";
+import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/providers/ToastProvider";
 import { usePrefetchCommunityData } from "@/hooks/useCommunityData";
 import { usePrefetchAdminData } from "@/hooks/useAdminData";
 import { usePrefetchMentorData } from "@/hooks/useMentorData";
 import { useDashboardData } from "@/hooks/useDashboardData";
 import { useDashboardActions } from "@/hooks/useDashboardActions";
+import { usePropFirmEvaluation } from "@/hooks/usePropFirmEvaluation";
+import { tradePlanKeys } from "@/hooks/useTradePlans";
+import { executeTradePlanAction } from "@/app/actions/tradePlans";
+import { tradePlanToTradeDraft } from "@/services/trades/tradePlan";
 import { useJournalStore } from "@/store/useJournalStore";
 
 // Core UI Components (lightweight, always needed)
@@ -19,7 +24,7 @@ import {
   SegmentedToggle,
   TabPanel,
 } from "@/components/ui";
-import { ChecklistFab } from "@/components/checklist";
+import { ChecklistFab, PendingTradePlans } from "@/components/checklist";
 
 // Static imports for critical path (LCP elements)
 import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
@@ -36,7 +41,7 @@ import {
 } from "@/components/dashboard/DashboardSkeleton";
 
 // Types
-import type { Trade, Playbook } from "@/types";
+import type { Trade, Playbook, TradePlan } from "@/types";
 
 // ============================================
 // DYNAMIC IMPORTS - PERFORMANCE OPTIMIZATION
@@ -70,6 +75,14 @@ const DashboardLaboratory = dynamic(
   { loading: () => <DashboardContentSkeleton />, ssr: false }
 );
 
+const DashboardSimulation = dynamic(
+  () =>
+    import("@/components/dashboard/tabs/DashboardSimulation").then(
+      (mod) => mod.DashboardSimulation
+    ),
+  { loading: () => <ReportsSkeleton />, ssr: false }
+);
+
 const DashboardNews = dynamic(() => import("@/components/news").then((mod) => mod.DashboardNews), {
   loading: () => (
     <div className="flex h-96 items-center justify-center">
@@ -110,6 +123,7 @@ const tabsOptions = [
   { value: "laboratorio", label: <>🧪 Laboratório</> },
   { value: "news", label: <>📰 News</> },
   { value: "relatorios", label: <>📊 Relatórios</> },
+  { value: "simulacao", label: <>🎲 Simulação</> },
 ];
 
 import { DashboardInitResult } from "@/app/actions/_batch/dashboardInit";
@@ -126,6 +140,7 @@ interface DashboardClientProps {
  */
 export function DashboardClient({ accountId, initialData, queryDate }: DashboardClientProps) {
   const { showToast } = useToast();
+  const queryClient = useQueryClient();
 
   // useTransition for non-blocking tab changes (reduces input delay from 600ms+ to <100ms)
   const [isPending, startTransition] = useTransition();
@@ -146,6 +161,7 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
   // Modal States
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isReportModalOpen, setIsReportModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDayDetailModalOpen, setIsDayDetailModalOpen] = useState(() => !!queryDate);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
@@ -168,6 +184,13 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
   // UI State
   const [activeTab, setActiveTab] = useState("novo");
 
+  // Pre-trade plan loaded in the "Novo Trade" form
+  const [activePlan, setActivePlan] = useState<TradePlan | null>(null);
+  const planTradeDraft = useMemo(
+    () => (activePlan ? tradePlanToTradeDraft(activePlan) : undefined),
+    [activePlan]
+  );
+
   // Wrap tab changes in transition for non-blocking updates
   const handleTabChange = useCallback(
     (newTab: string) => {
@@ -181,6 +204,12 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
   // Use initial data for immediate rendering (LCP optimization)
   const currentAccount = data.currentAccount || initialData.account;
 
+  // Prop firm rules are re-evaluated whenever the account's trades change
+  const propFirmEvaluation = usePropFirmEvaluation(
+    currentAccount,
+    `${data.metrics.totalTrades}:${data.pnl}`
+  );
+
   // Callbacks
   const handleJournalClick = useCallback(
     (trade: Trade, startEditing: boolean = true) => {
@@ -191,6 +220,31 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
     [setSelectedTradeForJournal, setStartJournalEditing, setIsJournalModalOpen]
   );
 
+  const handleExecutePlan = useCallback(
+    (plan?: TradePlan) => {
+      if (!plan) return;
+      setActivePlan(plan);
+      handleTabChange("novo");
+    },
+    [handleTabChange]
+  );
+
+  // Trades created from a plan are linked to it, which fills their plan adherence
+  const handleCreateTrade = useCallback(
+    async (tradeData: Omit<Trade, "id" | "createdAt" | "updatedAt">) => {
+      const trade = await actions.handleCreateTrade(tradeData);
+      if (!activePlan) return;
+
+      const result = await executeTradePlanAction(activePlan.id, trade.id);
+      if (!result.success) {
+        showToast(result.error, "error");
+      }
+      setActivePlan(null);
+      queryClient.invalidateQueries({ queryKey: tradePlanKeys.pending(accountId) });
+    },
+    [actions, activePlan, accountId, queryClient, showToast]
+  );
+
   const handleEditTrade = (trade: Trade, fromDayDetail = false) => {
     setSelectedTrade(trade);
     setIsEditFromDayDetail(fromDayDetail);
@@ -206,7 +260,10 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
     if (tabValue === "calendario" && !data.loadingPhases.heavy.calendar) {
       data.loadCalendarData();
     }
-    if (tabValue === "relatorios" && !data.loadingPhases.heavy.reports) {
+    if (
+      (tabValue === "relatorios" || tabValue === "simulacao") &&
+      !data.loadingPhases.heavy.reports
+    ) {
       data.loadReportsData();
     }
   };
@@ -229,6 +286,7 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
               prefetchMentor={prefetchMentor}
               prefetchCommunity={prefetchCommunity}
               onSettingsClick={() => setIsSettingsModalOpen(true)}
+              propFirmEvaluation={propFirmEvaluation}
             />
 
             {data.isTradesLoading ? (
@@ -282,7 +340,17 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
                     <CardTitle>➕ Novo Trade</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <TradeForm accountId={accountId} onSubmit={actions.handleCreateTrade} />
+                    <PendingTradePlans
+                      accountId={accountId}
+                      activePlanId={activePlan?.id}
+                      onExecute={handleExecutePlan}
+                    />
+                    <TradeForm
+                      key={activePlan?.id ?? "new"}
+                      accountId={accountId}
+                      initialData={planTradeDraft}
+                      onSubmit={handleCreateTrade}
+                    />
                   </CardContent>
                 </Card>
               </TabPanel>
@@ -296,6 +364,7 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
                   accountId={accountId}
                   onLoadPage={data.loadPage}
                   onImportClick={() => setIsImportModalOpen(true)}
+                  onReportClick={() => setIsReportModalOpen(true)}
                   onDeleteAllTrades={actions.handleDeleteAllTrades}
                   onEditTrade={handleEditTrade}
                   onDeleteTrade={actions.handleDeleteTrade}
@@ -401,6 +470,19 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
                   />
                 )}
               </TabPanel>
+
+              <TabPanel value="simulacao" activeTab={activeTab}>
+                {!data.loadingPhases.heavy.reports ? (
+                  <ReportsSkeleton onMount={data.loadReportsData} />
+                ) : (
+                  <DashboardSimulation
+                    trades={data.allHistory}
+                    currency={currentAccount.currency || "USD"}
+                    currentBalance={Number(currentAccount.currentBalance)}
+                    maxDrawdownPercent={Number(currentAccount.maxDrawdown)}
+                  />
+                )}
+              </TabPanel>
             </div>
 
             <DashboardModals
@@ -408,8 +490,10 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
               currentBalance={currentAccount.currentBalance}
               currency={currentAccount.currency}
               allHistory={data.allHistory as unknown as Trade[]}
+              accountCreatedAt={String(currentAccount.createdAt)}
               isCreateModalOpen={isCreateModalOpen}
               isImportModalOpen={isImportModalOpen}
+              isReportModalOpen={isReportModalOpen}
               isEditModalOpen={isEditModalOpen}
               isDayDetailModalOpen={isDayDetailModalOpen}
               isSettingsModalOpen={isSettingsModalOpen}
@@ -421,6 +505,7 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
               sharingPlaybook={sharingPlaybook}
               onCloseCreateModal={() => setIsCreateModalOpen(false)}
               onCloseImportModal={() => setIsImportModalOpen(false)}
+              onCloseReportModal={() => setIsReportModalOpen(false)}
               onCloseEditModal={() => {
                 setIsEditModalOpen(false);
                 setSelectedTrade(null);
@@ -433,7 +518,7 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
               setEditingPlaybook={setEditingPlaybook}
               setViewingPlaybook={setViewingPlaybook}
               setSharingPlaybook={setSharingPlaybook}
-              handleCreateTrade={actions.handleCreateTrade}
+              handleCreateTrade={handleCreateTrade}
               handleUpdateTrade={actions.handleUpdateTrade}
               handleDeleteTrade={actions.handleDeleteTrade}
               handleEditTrade={handleEditTrade}
@@ -467,7 +552,7 @@ export function DashboardClient({ accountId, initialData, queryDate }: Dashboard
           </>
         )}
 
-        <ChecklistFab />
+        <ChecklistFab accountId={accountId} onTradeStart={handleExecutePlan} />
       </div>
     </div>
   );
@@ -10,6 +10,8 @@ import {
   MentoradosTable,
   StudentCalendarModal,
   InviteMenteeModal,
+  MentorInbox,
+  CohortAnalytics,
 } from "@/components/mentor";
 import {
   getMenteesOverviewAction as getMentees,
@@ -32,7 +34,11 @@ export default function MentoriaPage() {
 
   // Trades modal state
   const [showTradesModal, setShowTradesModal] = useState(false);
-  const [selectedMentee, setSelectedMentee] = useState<{ id: string; name: string } | null>(null);
+  const [selectedMentee, setSelectedMentee] = useState<{
+    id: string;
+    name: string;
+    date?: string;
+  } | null>(null);
 
   // Stats
   const stats = {
@@ -65,10 +71,10 @@ export default function MentoriaPage() {
     loadData();
   }, [loadData]);
 
-  const handleViewTrades = (menteeId: string) => {
+  const handleViewTrades = (menteeId: string, date?: string) => {
     const mentee = mentees.find((m) => m.menteeId === menteeId);
     if (mentee) {
-      setSelectedMentee({ id: menteeId, name: mentee.menteeName || mentee.menteeEmail });
+      setSelectedMentee({ id: menteeId, name: mentee.menteeName || mentee.menteeEmail, date });
       setShowTradesModal(true);
     }
   };
@@ -202,6 +208,12 @@ export default function MentoriaPage() {
           />
         </div>
 
+        {/* Cohort comparison */}
+        <CohortAnalytics onOpenCalendar={handleViewTrades} />
+
+        {/* Open review threads */}
+        <MentorInbox />
+
         {/* Invite Modal */}
         <InviteMenteeModal
           isOpen={showInviteModal}
@@ -219,6 +231,7 @@ export default function MentoriaPage() {
             }}
             menteeId={selectedMentee.id}
             menteeName={selectedMentee.name}
+            initialDate={selectedMentee.date}
           />
         )}
       </div>
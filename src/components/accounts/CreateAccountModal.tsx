@@ -12,10 +12,11 @@ import {
   SelectItem,
   SelectValue,
 } from "@/components/ui";
-import type { Account } from "@/types";
+import type { Account, AccountType, PropFirmRules } from "@/types";
 import { useSettingsStore } from "@/store/useSettingsStore";
 import { useAccountStore } from "@/store/useAccountStore";
 import { useToast } from "@/providers/ToastProvider";
+import { DEFAULT_PROP_RULES, PropFirmRulesFields } from "./PropFirmRulesFields";
 
 interface CreateAccountModalProps {
   isOpen: boolean;
@@ -72,6 +73,8 @@ export function CreateAccountModal({ isOpen, onClose, onCreateAccount }: CreateA
   const [initialBalance, setInitialBalance] = useState("100000");
   const [leverage, setLeverage] = useState(leverages[0] || "1:100");
   const [maxDrawdown, setMaxDrawdown] = useState("10");
+  const [accountType, setAccountType] = useState<AccountType>("real");
+  const [propRules, setPropRules] = useState<PropFirmRules>(DEFAULT_PROP_RULES);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -89,6 +92,8 @@ export function CreateAccountModal({ isOpen, onClose, onCreateAccount }: CreateA
       currentBalance: parseFloat(initialBalance),
       leverage,
       maxDrawdown: parseFloat(maxDrawdown),
+      accountType,
+      propRules: accountType === "prop_firm" ? propRules : undefined,
     };
 
     onCreateAccount(accountData);
@@ -99,6 +104,8 @@ export function CreateAccountModal({ isOpen, onClose, onCreateAccount }: CreateA
     setInitialBalance("100000");
     setLeverage(leverages[0] || "1:100");
     setMaxDrawdown("10");
+    setAccountType("real");
+    setPropRules(DEFAULT_PROP_RULES);
     onClose();
   };
 
@@ -191,6 +198,13 @@ export function CreateAccountModal({ isOpen, onClose, onCreateAccount }: CreateA
           />
         </div>
 
+        <PropFirmRulesFields
+          accountType={accountType}
+          onAccountTypeChange={setAccountType}
+          rules={propRules}
+          onRulesChange={setPropRules}
+        />
+
         <div className="flex gap-3 pt-4">
           <Button
             type="button"
@@ -12,10 +12,11 @@ import {
   SelectValue,
   ModalFooterActions,
 } from "@/components/ui";
-import type { Account } from "@/types";
+import type { Account, AccountType, PropFirmRules } from "@/types";
 import { useSettingsStore } from "@/store/useSettingsStore";
 import { useAccountStore } from "@/store/useAccountStore";
 import { useToast } from "@/providers/ToastProvider";
+import { DEFAULT_PROP_RULES, PropFirmRulesFields } from "./PropFirmRulesFields";
 import { checkAccountHasTradesAction } from "@/app/actions/accounts";
 
 interface EditAccountModalProps {
@@ -75,6 +76,8 @@ export function EditAccountModal({ isOpen, onClose, onSave, account }: EditAccou
   const [initialBalance, setInitialBalance] = useState("100000");
   const [leverage, setLeverage] = useState("1:100");
   const [maxDrawdown, setMaxDrawdown] = useState("10");
+  const [accountType, setAccountType] = useState<AccountType>("real");
+  const [propRules, setPropRules] = useState<PropFirmRules>(DEFAULT_PROP_RULES);
   const [isLoading, setIsLoading] = useState(false);
   const [hasTrades, setHasTrades] = useState(false);
 
@@ -86,6 +89,8 @@ export function EditAccountModal({ isOpen, onClose, onSave, account }: EditAccou
       setInitialBalance(account.initialBalance.toString());
       setLeverage(account.leverage);
       setMaxDrawdown(account.maxDrawdown.toString());
+      setAccountType(account.accountType || "real");
+      setPropRules(account.propRules || DEFAULT_PROP_RULES);
 
       // Check if account has trades
       checkAccountHasTradesAction(account.id).then(setHasTrades);
@@ -122,6 +127,8 @@ export function EditAccountModal({ isOpen, onClose, onSave, account }: EditAccou
           parseFloat(initialBalance) + (account.currentBalance - account.initialBalance),
         leverage,
         maxDrawdown: parseFloat(maxDrawdown),
+        accountType,
+        propRules: accountType === "prop_firm" ? propRules : undefined,
         updatedAt: new Date().toISOString(),
       };
 
@@ -263,6 +270,14 @@ export function EditAccountModal({ isOpen, onClose, onSave, account }: EditAccou
           />
         </div>
 
+        <PropFirmRulesFields
+          accountType={accountType}
+          onAccountTypeChange={setAccountType}
+          rules={propRules}
+          onRulesChange={setPropRules}
+          disabled={isLoading}
+        />
+
         <ModalFooterActions
           mode="save-cancel"
           onSecondary={onClose}
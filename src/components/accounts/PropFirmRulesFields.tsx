@@ -0,0 +1,173 @@
+"use client";
+
+import {
+  Input,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui";
+import type { AccountType, PropDrawdownType, PropFirmRules } from "@/types";
+
+export const DEFAULT_PROP_RULES: PropFirmRules = {
+  drawdownType: "static",
+  dailyLossPercent: 5,
+  profitTargetPercent: 10,
+  minTradingDays: 4,
+};
+
+const ACCOUNT_TYPE_OPTIONS: { value: AccountType; label: string }[] = [
+  { value: "real", label: "Real" },
+  { value: "demo", label: "Demo" },
+  { value: "prop_firm", label: "Mesa Proprietária" },
+];
+
+const DRAWDOWN_TYPE_OPTIONS: { value: PropDrawdownType; label: string }[] = [
+  { value: "static", label: "Estático" },
+  { value: "trailing", label: "Trailing" },
+  { value: "eod_trailing", label: "Trailing (fim do dia)" },
+];
+
+const selectTriggerClass =
+  "flex h-12 w-full items-center justify-between rounded-lg border border-gray-700 bg-[#232b32] px-3 text-sm text-gray-100 transition-all duration-200 focus:border-transparent focus:ring-2 focus:ring-cyan-500 focus:outline-none";
+
+const selectItemClass = "cursor-pointer py-2.5 text-gray-100 hover:bg-gray-700 focus:bg-gray-700";
+
+interface PropFirmRulesFieldsProps {
+  accountType: AccountType;
+  onAccountTypeChange: (type: AccountType) => void;
+  rules: PropFirmRules;
+  onRulesChange: (rules: PropFirmRules) => void;
+  disabled?: boolean;
+}
+
+/** Parses an optional numeric input, treating empty/zero as "rule disabled" */
+const parseOptional = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Account type selector plus the prop firm rule inputs (shown only for prop firm accounts).
+ * The max drawdown limit itself comes from the account's "Max Drawdown (%)" field.
+ */
+export function PropFirmRulesFields({
+  accountType,
+  onAccountTypeChange,
+  rules,
+  onRulesChange,
+  disabled,
+}: PropFirmRulesFieldsProps) {
+  const updateRule = <K extends keyof PropFirmRules>(key: K, value: PropFirmRules[K]) =>
+    onRulesChange({ ...rules, [key]: value });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-1.5">
+        <label className="text-xs font-medium text-gray-400">Tipo de Conta</label>
+        <Select
+          value={accountType}
+          onValueChange={
+            disabled ? undefined : (value) => onAccountTypeChange(value as AccountType)
+          }
+        >
+          <SelectTrigger className={selectTriggerClass} disabled={disabled}>
+            <SelectValue placeholder="Selecione..." />
+          </SelectTrigger>
+          <SelectContent className="border-gray-700 bg-[#232b32]">
+            {ACCOUNT_TYPE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value} className={selectItemClass}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {accountType === "prop_firm" && (
+        <div className="space-y-4 rounded-lg border border-gray-700/60 bg-gray-800/30 p-4">
+          <h4 className="text-xs font-semibold tracking-wider text-gray-400 uppercase">
+            Regras da Mesa
+          </h4>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-1.5">
+              <label className="text-xs font-medium text-gray-400">Tipo de Drawdown</label>
+              <Select
+                value={rules.drawdownType}
+                onValueChange={
+                  disabled
+                    ? undefined
+                    : (value) => updateRule("drawdownType", value as PropDrawdownType)
+                }
+              >
+                <SelectTrigger className={selectTriggerClass} disabled={disabled}>
+                  <SelectValue placeholder="Selecione..." />
+                </SelectTrigger>
+                <SelectContent className="border-gray-700 bg-[#232b32]">
+                  {DRAWDOWN_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value} className={selectItemClass}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Input
+              label="Perda Diária Máx. (%)"
+              type="number"
+              placeholder="5"
+              value={rules.dailyLossPercent ?? ""}
+              onChange={(e) => updateRule("dailyLossPercent", parseOptional(e.target.value))}
+              step="0.5"
+              min="0"
+              max="100"
+              disabled={disabled}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              label="Meta de Lucro (%)"
+              type="number"
+              placeholder="10"
+              value={rules.profitTargetPercent ?? ""}
+              onChange={(e) => updateRule("profitTargetPercent", parseOptional(e.target.value))}
+              step="0.5"
+              min="0"
+              disabled={disabled}
+            />
+            <Input
+              label="Dias Mínimos"
+              type="number"
+              placeholder="4"
+              value={rules.minTradingDays ?? ""}
+              onChange={(e) => updateRule("minTradingDays", parseOptional(e.target.value))}
+              step="1"
+              min="0"
+              disabled={disabled}
+            />
+            <Input
+              label="Consistência (%)"
+              type="number"
+              placeholder="50"
+              value={rules.consistencyPercent ?? ""}
+              onChange={(e) => updateRule("consistencyPercent", parseOptional(e.target.value))}
+              step="5"
+              min="0"
+              max="100"
+              disabled={disabled}
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Percentuais sobre o saldo inicial. Consistência: fatia máxima do lucro total que um
+            único dia pode representar. Deixe em branco para desativar a regra.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
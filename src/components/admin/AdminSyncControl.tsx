@@ -1,11 +1,16 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useToast } from "@/providers/ToastProvider";
-import { triggerGithubSyncAction, deleteWeeklyEventsAction } from "@/app/actions/admin";
+import {
+  triggerGithubSyncAction,
+  deleteWeeklyEventsAction,
+  importCalendarFileAction,
+} from "@/app/actions/admin";
 
 export function AdminSyncControl() {
   const [loading, setLoading] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { showToast } = useToast();
 
   const handleSync = async (workflow: "calendar" | "monthly" | "history") => {
@@ -85,6 +90,29 @@ export function AdminSyncControl() {
     }
   };
 
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setLoading("import");
+    try {
+      showToast(`Importando ${file.name}...`, "loading");
+      const result = await importCalendarFileAction(file.name, await file.text());
+
+      if (result.success) {
+        showToast(`Sucesso! ${result.importedCount} eventos importados.`, "success");
+      } else {
+        showToast(`Erro ao importar: ${result.error}`, "error");
+      }
+    } catch (err) {
+      showToast("Erro inesperado ao importar calendário.", "error");
+      console.error(err);
+    } finally {
+      setLoading(null);
+    }
+  };
+
   return (
     <div className="mb-6 rounded-2xl border border-gray-800 bg-gray-900/50 p-6 backdrop-blur-sm">
       <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
@@ -124,6 +152,23 @@ export function AdminSyncControl() {
             <span className="hidden sm:inline">Histórico</span>
           </button>
 
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,.csv"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!loading}
+            className="group flex items-center gap-2 rounded-lg border border-cyan-900/50 bg-cyan-900/20 px-4 py-2 text-sm font-medium text-cyan-200 hover:bg-cyan-900/40 disabled:opacity-50"
+            title="Importar calendário (ICS ou CSV)"
+          >
+            <span className="opacity-70 group-hover:opacity-100">📥</span>
+            <span className="hidden sm:inline">Importar</span>
+          </button>
+
           <button
             onClick={handleDeleteWeekly}
             disabled={!!loading}
@@ -0,0 +1,114 @@
+"use client";
+
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { formatCurrency } from "@/lib/utils/trading";
+import type { MonteCarloBand } from "@/services/analytics/monteCarlo";
+
+interface MonteCarloFanChartProps {
+  bands: MonteCarloBand[];
+  currency: string;
+  startingBalance: number;
+  /** Balance at which the account counts as ruined */
+  ruinBalance?: number;
+}
+
+/**
+ * Equity fan: 5-95% and 25-75% percentile bands of the simulated paths, with the median path.
+ */
+export function MonteCarloFanChart({
+  bands,
+  currency,
+  startingBalance,
+  ruinBalance,
+}: MonteCarloFanChartProps) {
+  const data = bands.map((band) => ({
+    trade: band.trade,
+    outer: [band.p5, band.p95],
+    inner: [band.p25, band.p75],
+    median: band.p50,
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={360}>
+      <ComposedChart data={data} margin={{ top: 10, right: 20, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} vertical={false} />
+        <XAxis
+          dataKey="trade"
+          stroke="#9ca3af"
+          tick={{ fill: "#9ca3af", fontSize: 11 }}
+          label={{ value: "Trades", position: "insideBottomRight", fill: "#6b7280", fontSize: 11 }}
+        />
+        <YAxis
+          stroke="#9ca3af"
+          tick={{ fill: "#9ca3af", fontSize: 11 }}
+          tickFormatter={(value: number) => formatCurrency(value, currency)}
+          width={90}
+          domain={["auto", "auto"]}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: "#111827",
+            borderColor: "#374151",
+            borderRadius: "0.5rem",
+          }}
+          labelStyle={{ color: "#f3f4f6" }}
+          itemStyle={{ color: "#f3f4f6" }}
+          labelFormatter={(trade) => `Trade ${trade}`}
+          formatter={(value, name) => {
+            const format = (v: number) => formatCurrency(v, currency);
+            const text = Array.isArray(value)
+              ? `${format(Number(value[0]))} – ${format(Number(value[1]))}`
+              : format(Number(value));
+            return [text, name];
+          }}
+        />
+        <Area
+          type="monotone"
+          dataKey="outer"
+          name="5% – 95%"
+          stroke="none"
+          fill="#06b6d4"
+          fillOpacity={0.12}
+          isAnimationActive={false}
+        />
+        <Area
+          type="monotone"
+          dataKey="inner"
+          name="25% – 75%"
+          stroke="none"
+          fill="#06b6d4"
+          fillOpacity={0.25}
+          isAnimationActive={false}
+        />
+        <Line
+          type="monotone"
+          dataKey="median"
+          name="Mediana"
+          stroke="#22d3ee"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <ReferenceLine y={startingBalance} stroke="#6b7280" strokeDasharray="4 4" />
+        {ruinBalance !== undefined && (
+          <ReferenceLine
+            y={ruinBalance}
+            stroke="#ef4444"
+            strokeDasharray="4 4"
+            label={{ value: "Ruína", fill: "#ef4444", fontSize: 11, position: "insideTopLeft" }}
+          />
+        )}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
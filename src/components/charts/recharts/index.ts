@@ -6,3 +6,4 @@ export { AssetPerformanceChart } from "./AssetPerformanceChart";
 export { MonthlyPerformanceGrid } from "./MonthlyPerformanceGrid";
 export { WeekdayWinRateChart } from "./WeekdayWinRateChart";
 export { RMultipleDistributionChart } from "./RMultipleDistributionChart";
+export { MonteCarloFanChart } from "./MonteCarloFanChart";
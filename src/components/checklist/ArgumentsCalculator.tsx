@@ -82,16 +82,20 @@ function SortableArgumentItem({ item, onRemove, color }: SortableArgumentItemPro
 }
 
 // --- Main Component ---
+export interface ArgumentsResult {
+  bullishCount: number;
+  bearishCount: number;
+  bullishPct: number;
+  bearishPct: number;
+  label: string;
+  bullishArgs: string[];
+  bearishArgs: string[];
+}
+
 interface ArgumentsCalculatorProps {
   initialBullishArgs?: string[];
   initialBearishArgs?: string[];
-  onComplete?: (result: {
-    bullishCount: number;
-    bearishCount: number;
-    bullishPct: number;
-    bearishPct: number;
-    label: string;
-  }) => void;
+  onComplete?: (result: ArgumentsResult) => void;
 }
 
 export function ArgumentsCalculator({
@@ -145,9 +149,26 @@ export function ArgumentsCalculator({
   // Notify parent
   useEffect(() => {
     if (onComplete) {
-      onComplete({ bullishCount, bearishCount, bullishPct, bearishPct, label });
+      onComplete({
+        bullishCount,
+        bearishCount,
+        bullishPct,
+        bearishPct,
+        label,
+        bullishArgs: bullishArgs.map((a) => a.text),
+        bearishArgs: bearishArgs.map((a) => a.text),
+      });
     }
-  }, [bullishCount, bearishCount, bullishPct, bearishPct, label, onComplete]);
+  }, [
+    bullishCount,
+    bearishCount,
+    bullishPct,
+    bearishPct,
+    label,
+    bullishArgs,
+    bearishArgs,
+    onComplete,
+  ]);
 
   // Add handlers
   const addBullish = useCallback(() => {
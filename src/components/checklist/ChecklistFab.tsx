@@ -2,12 +2,14 @@
 
 import { useState } from "react";
 import { ChecklistModal } from "./ChecklistModal";
+import type { TradePlan } from "@/types";
 
 interface ChecklistFabProps {
-  onTradeStart?: () => void;
+  onTradeStart?: (plan?: TradePlan) => void;
+  accountId?: string;
 }
 
-export function ChecklistFab({ onTradeStart }: ChecklistFabProps) {
+export function ChecklistFab({ onTradeStart, accountId }: ChecklistFabProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   return (
@@ -44,6 +46,7 @@ export function ChecklistFab({ onTradeStart }: ChecklistFabProps) {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         onTradeStart={onTradeStart}
+        accountId={accountId}
       />
     </>
   );
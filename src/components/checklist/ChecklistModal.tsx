@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import {
   Modal,
   SegmentedToggle,
@@ -13,25 +13,43 @@ import {
 import { Button } from "@/components/ui/Button";
 import { CustomCheckbox } from "./CustomCheckbox";
 import { usePlaybookStore } from "@/store/usePlaybookStore";
-import { ArgumentsCalculator } from "./ArgumentsCalculator";
-import type { Playbook, RuleGroup } from "@/types";
+import { ArgumentsCalculator, type ArgumentsResult } from "./ArgumentsCalculator";
+import { TradePlanForm } from "./TradePlanForm";
+import { LiveNewsBlackoutAlert } from "@/components/news/NewsBlackoutAlert";
+import type { Playbook, RuleGroup, TradePlan } from "@/types";
 
 interface ChecklistModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onTradeStart?: () => void;
+  /** Receives the saved plan when the trade starts from the plan tab */
+  onTradeStart?: (plan?: TradePlan) => void;
+  /** Account the plans are saved to; the plan tab is hidden without it */
+  accountId?: string;
 }
 
+type ChecklistTab = "rules" | "arguments" | "plan";
+
 const CHECKLIST_OPTIONS = [
   { value: "rules", label: <>📋 Checklist & Regras</> },
   { value: "arguments", label: <>⚖️ Argumentos</> },
 ];
 
-export function ChecklistModal({ isOpen, onClose, onTradeStart }: ChecklistModalProps) {
+const PLAN_OPTION = { value: "plan", label: <>🎯 Plano</> };
+
+const isExitGroup = (group: RuleGroup) =>
+  group.name.toLowerCase().includes("saída") || group.name.toLowerCase().includes("exit");
+
+export function ChecklistModal({ isOpen, onClose, onTradeStart, accountId }: ChecklistModalProps) {
   const { playbooks, loadPlaybooks, isLoading } = usePlaybookStore();
 
-  // Tab State: 'rules' | 'arguments'
-  const [activeTab, setActiveTab] = useState<"rules" | "arguments">("rules");
+  // Tab State: 'rules' | 'arguments' | 'plan'
+  const [activeTab, setActiveTab] = useState<ChecklistTab>("rules");
+
+  // Arguments are kept here so they survive tab switches and go into the plan
+  const [argumentsResult, setArgumentsResult] = useState<ArgumentsResult | null>(null);
+  const handleArgumentsChange = useCallback((result: ArgumentsResult) => {
+    setArgumentsResult(result);
+  }, []);
 
   // Selected playbook ID
   const [selectedPlaybookId, setSelectedPlaybookId] = useState<string>("");
@@ -50,6 +68,7 @@ export function ChecklistModal({ isOpen, onClose, onTradeStart }: ChecklistModal
   const handleClose = () => {
     setSelectedPlaybookId("");
     setCheckedRules({});
+    setArgumentsResult(null);
     setActiveTab("rules"); // Reset tab
     onClose();
   };
@@ -67,9 +86,7 @@ export function ChecklistModal({ isOpen, onClose, onTradeStart }: ChecklistModal
 
     return selectedPlaybook.ruleGroups.every((group: RuleGroup) => {
       // Ignore "Critérios de Saída" from validation as they are informational
-      if (group.name.toLowerCase().includes("saída") || group.name.toLowerCase().includes("exit")) {
-        return true;
-      }
+      if (isExitGroup(group)) return true;
 
       if (!group.rules || group.rules.length === 0) return true;
       const groupChecks = checkedRules[group.id] || {};
@@ -86,9 +103,7 @@ export function ChecklistModal({ isOpen, onClose, onTradeStart }: ChecklistModal
 
     selectedPlaybook.ruleGroups.forEach((group: RuleGroup) => {
       // Skip counting info/exit groups for the progress bar
-      const isExitCriteria =
-        group.name.toLowerCase().includes("saída") || group.name.toLowerCase().includes("exit");
-      if (isExitCriteria) return;
+      if (isExitGroup(group)) return;
 
       if (group.rules) {
         total += group.rules.length;
@@ -100,6 +115,16 @@ export function ChecklistModal({ isOpen, onClose, onTradeStart }: ChecklistModal
     return { totalRules: total, checkedCount: checked };
   }, [selectedPlaybook, checkedRules]);
 
+  // Rule texts ticked in the checklist, saved with the plan
+  const checkedRuleTexts = useMemo(() => {
+    if (!selectedPlaybook) return [];
+    return selectedPlaybook.ruleGroups
+      .filter((group) => !isExitGroup(group))
+      .flatMap((group) =>
+        (group.rules || []).filter((_, index) => checkedRules[group.id]?.[index])
+      );
+  }, [selectedPlaybook, checkedRules]);
+
   const handlePlaybookChange = (playbookId: string) => {
     setSelectedPlaybookId(playbookId);
     setCheckedRules({});
@@ -124,20 +149,41 @@ export function ChecklistModal({ isOpen, onClose, onTradeStart }: ChecklistModal
     handleClose();
   };
 
+  const handlePlanSaved = (plan: TradePlan, execute: boolean) => {
+    if (execute) onTradeStart?.(plan);
+    handleClose();
+  };
+
   return (
     <Modal isOpen={isOpen} onClose={handleClose} title="✅ Pre-Flight Checklist" maxWidth="4xl">
       <div className="space-y-6">
+        {/* Upcoming releases inside the user's blackout rule */}
+        <LiveNewsBlackoutAlert />
+
         {/* Tab Switcher - Using Standard Tabs Component */}
         {/* Tab Switcher - Using Standard Tabs Component */}
         <SegmentedToggle
           value={activeTab}
-          onChange={(val) => setActiveTab(val as "rules" | "arguments")}
-          options={CHECKLIST_OPTIONS}
+          onChange={(val) => setActiveTab(val as ChecklistTab)}
+          options={accountId ? [...CHECKLIST_OPTIONS, PLAN_OPTION] : CHECKLIST_OPTIONS}
         />
 
         {/* Content switching */}
-        {activeTab === "arguments" ? (
-          <ArgumentsCalculator />
+        {activeTab === "plan" && accountId ? (
+          <TradePlanForm
+            accountId={accountId}
+            playbook={selectedPlaybook}
+            checkedRules={checkedRuleTexts}
+            totalRules={totalRules}
+            argumentsResult={argumentsResult}
+            onSaved={handlePlanSaved}
+          />
+        ) : activeTab === "arguments" ? (
+          <ArgumentsCalculator
+            initialBullishArgs={argumentsResult?.bullishArgs}
+            initialBearishArgs={argumentsResult?.bearishArgs}
+            onComplete={handleArgumentsChange}
+          />
         ) : (
           <>
             {/* Playbook Selector */}
@@ -202,9 +248,7 @@ export function ChecklistModal({ isOpen, onClose, onTradeStart }: ChecklistModal
                 ) : (
                   <div className="custom-scrollbar max-h-96 space-y-4 overflow-y-auto pr-2">
                     {selectedPlaybook.ruleGroups.map((group: RuleGroup) => {
-                      const isExitCriteria =
-                        group.name.toLowerCase().includes("saída") ||
-                        group.name.toLowerCase().includes("exit");
+                      const isExitCriteria = isExitGroup(group);
 
                       return (
                         <div key={group.id} className="space-y-2">
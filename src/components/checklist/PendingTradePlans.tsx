@@ -0,0 +1,77 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/Button";
+import { useToast } from "@/providers/ToastProvider";
+import { cancelTradePlanAction } from "@/app/actions/tradePlans";
+import { tradePlanKeys, usePendingTradePlans } from "@/hooks/useTradePlans";
+import { getPlanRiskReward } from "@/services/trades/tradePlan";
+import type { TradePlan } from "@/types";
+
+interface PendingTradePlansProps {
+  accountId: string;
+  /** Plan currently loaded in the trade form */
+  activePlanId?: string;
+  onExecute: (plan: TradePlan) => void;
+}
+
+/**
+ * Saved plans waiting to be traded: executing one fills the trade form with the
+ * planned levels and links the created trade to the plan.
+ */
+export function PendingTradePlans({ accountId, activePlanId, onExecute }: PendingTradePlansProps) {
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: plans = [] } = usePendingTradePlans(accountId);
+
+  if (plans.length === 0) return null;
+
+  const handleCancel = async (plan: TradePlan) => {
+    const result = await cancelTradePlanAction(plan.id);
+    if (!result.success) {
+      showToast(result.error || "Erro ao cancelar plano", "error");
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: tradePlanKeys.pending(accountId) });
+  };
+
+  return (
+    <div className="mb-6 space-y-2">
+      <p className="text-sm font-medium text-gray-300">🎯 Planos pendentes ({plans.length})</p>
+      {plans.map((plan) => (
+        <div
+          key={plan.id}
+          className={`flex flex-wrap items-center gap-3 rounded-xl border p-3 text-sm ${
+            plan.id === activePlanId
+              ? "border-emerald-500/40 bg-emerald-500/10"
+              : "border-gray-700 bg-gray-800/50"
+          }`}
+        >
+          <span className="font-semibold text-gray-100">
+            {plan.type === "Long" ? "📈" : "📉"} {plan.symbol}
+          </span>
+          <span className="text-gray-400">
+            {plan.plannedEntry} · SL {plan.plannedStop} · TP {plan.plannedTarget} ·{" "}
+            {plan.plannedLot} lote
+          </span>
+          <span className="text-gray-500">R:R 1:{getPlanRiskReward(plan)}</span>
+          {plan.strategy && <span className="text-gray-500">{plan.strategy}</span>}
+          {plan.probabilityLabel && <span className="text-gray-500">{plan.probabilityLabel}</span>}
+          <div className="ml-auto flex gap-2">
+            <Button
+              variant="gradient-success"
+              size="sm"
+              onClick={() => onExecute(plan)}
+              disabled={plan.id === activePlanId}
+            >
+              {plan.id === activePlanId ? "Em execução" : "▶ Executar"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleCancel(plan)}>
+              Cancelar
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
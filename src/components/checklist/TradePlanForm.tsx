@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Input, SegmentedToggle, Textarea } from "@/components/ui";
+import { Button } from "@/components/ui/Button";
+import { useToast } from "@/providers/ToastProvider";
+import { saveTradePlanAction } from "@/app/actions/tradePlans";
+import { tradePlanKeys } from "@/hooks/useTradePlans";
+import { usePositionSizing } from "@/hooks/usePositionSizing";
+import { PositionSizeHint } from "@/components/trades/shared";
+import { getPlanRiskReward } from "@/services/trades/tradePlan";
+import type { ArgumentsResult } from "./ArgumentsCalculator";
+import type { Playbook, TradePlan } from "@/types";
+
+interface TradePlanFormProps {
+  accountId: string;
+  playbook: Playbook | null;
+  checkedRules: string[];
+  totalRules: number;
+  argumentsResult: ArgumentsResult | null;
+  /** Called after saving; `execute` when the user wants to open the trade form now */
+  onSaved: (plan: TradePlan, execute: boolean) => void;
+}
+
+const DIRECTION_OPTIONS = [
+  { value: "Long", label: <>📈 Long</> },
+  { value: "Short", label: <>📉 Short</> },
+];
+
+/**
+ * Pre-trade ticket: planned levels and size, saved together with the checklist
+ * rules and the arguments of the other tabs.
+ */
+export function TradePlanForm({
+  accountId,
+  playbook,
+  checkedRules,
+  totalRules,
+  argumentsResult,
+  onSaved,
+}: TradePlanFormProps) {
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [symbol, setSymbol] = useState("");
+  const [type, setType] = useState<"Long" | "Short">("Long");
+  const [entry, setEntry] = useState("");
+  const [stop, setStop] = useState("");
+  const [target, setTarget] = useState("");
+  const [lot, setLot] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const positionSizing = usePositionSizing({
+    accountId,
+    symbol,
+    entryPrice: parseFloat(entry) || 0,
+    stopLoss: parseFloat(stop) || 0,
+    lot: parseFloat(lot) || 0,
+    strategy: playbook?.name,
+  });
+
+  const levels = {
+    plannedEntry: parseFloat(entry),
+    plannedStop: parseFloat(stop),
+    plannedTarget: parseFloat(target),
+  };
+  const hasArguments =
+    !!argumentsResult && argumentsResult.bullishCount + argumentsResult.bearishCount > 0;
+  const riskReward = Object.values(levels).every((v) => !isNaN(v))
+    ? getPlanRiskReward(levels)
+    : null;
+
+  const handleSave = async (execute: boolean) => {
+    if (isSaving) return;
+    setIsSaving(true);
+
+    try {
+      const result = await saveTradePlanAction({
+        accountId,
+        symbol,
+        type,
+        ...levels,
+        plannedLot: parseFloat(lot),
+        playbookId: playbook?.id,
+        strategy: playbook?.name,
+        checkedRules,
+        totalRules,
+        bullishArgs: argumentsResult?.bullishArgs || [],
+        bearishArgs: argumentsResult?.bearishArgs || [],
+        bullishPct: hasArguments ? argumentsResult.bullishPct : undefined,
+        probabilityLabel: hasArguments ? argumentsResult.label : undefined,
+        notes,
+      });
+
+      if (!result.success) {
+        showToast(result.error, "error");
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: tradePlanKeys.pending(accountId) });
+      showToast("Plano salvo!", "success");
+      onSaved(result.data, execute);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="animate-fadeIn space-y-5">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <Input
+          label="Ativo"
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+          placeholder="EURUSD"
+          required
+          autoComplete="off"
+        />
+        <div className="flex flex-col gap-1.5">
+          <span className="text-xs font-medium text-gray-400">Direção</span>
+          <SegmentedToggle
+            value={type}
+            onChange={(val) => setType(val as "Long" | "Short")}
+            options={DIRECTION_OPTIONS}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <Input
+          label="Entrada"
+          type="number"
+          step="0.00001"
+          value={entry}
+          onChange={(e) => setEntry(e.target.value)}
+          required
+          autoComplete="off"
+        />
+        <Input
+          label="Stop"
+          type="number"
+          step="0.00001"
+          value={stop}
+          onChange={(e) => setStop(e.target.value)}
+          required
+          autoComplete="off"
+        />
+        <Input
+          label="Alvo"
+          type="number"
+          step="0.00001"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          required
+          autoComplete="off"
+        />
+        <Input
+          label="Lote"
+          type="number"
+          step="0.01"
+          value={lot}
+          onChange={(e) => setLot(e.target.value)}
+          required
+          autoComplete="off"
+        />
+      </div>
+
+      <PositionSizeHint
+        size={positionSizing.size}
+        riskCheck={positionSizing.riskCheck}
+        method={positionSizing.settings.method}
+        balance={positionSizing.balance}
+        isKellyUnavailable={positionSizing.isKellyUnavailable}
+        onApply={(lots) => setLot(String(lots))}
+      />
+
+      <Textarea
+        label="Notas"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Gatilho, invalidação, gestão..."
+        rows={2}
+      />
+
+      {/* Summary of the other tabs */}
+      <div className="grid grid-cols-2 gap-3 rounded-xl border border-gray-700 bg-gray-800/50 p-4 text-sm md:grid-cols-4">
+        <div>
+          <p className="text-xs text-gray-500">Playbook</p>
+          <p className="font-medium text-gray-200">
+            {playbook ? `${playbook.icon} ${playbook.name}` : "-"}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Regras</p>
+          <p className="font-medium text-gray-200">
+            {totalRules > 0 ? `${checkedRules.length}/${totalRules}` : "-"}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Argumentos</p>
+          <p className="font-medium text-gray-200">{hasArguments ? argumentsResult.label : "-"}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">R:R planejado</p>
+          <p className="font-medium text-gray-200">{riskReward ? `1:${riskReward}` : "-"}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 border-t border-gray-700 pt-4 sm:flex-row">
+        <Button
+          variant="secondary"
+          onClick={() => handleSave(false)}
+          disabled={isSaving}
+          className="flex-1 py-3"
+        >
+          💾 Salvar Plano
+        </Button>
+        <Button
+          variant="gradient-success"
+          onClick={() => handleSave(true)}
+          disabled={isSaving}
+          className="flex-1 py-3 font-semibold"
+        >
+          🚀 Salvar e Executar
+        </Button>
+      </div>
+    </div>
+  );
+}
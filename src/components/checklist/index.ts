@@ -1,3 +1,5 @@
 export { ChecklistFab } from "./ChecklistFab";
 export { ChecklistModal } from "./ChecklistModal";
 export { CustomCheckbox } from "./CustomCheckbox";
+export { TradePlanForm } from "./TradePlanForm";
+export { PendingTradePlans } from "./PendingTradePlans";
@@ -0,0 +1,111 @@
+"use client";
+
+import { useMemo } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { GlassCard } from "@/components/ui";
+import { Trade } from "@/types";
+import { useTradeNews } from "@/hooks/useTradeNews";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { countBlackoutViolationsByWeek, getBlackoutRule } from "@/services/analytics/news";
+import { ShieldAlert } from "lucide-react";
+
+interface BlackoutViolationsCardProps {
+  trades: Trade[];
+}
+
+const WEEKS_SHOWN = 12;
+
+/**
+ * Trades entered inside the news blackout window, per week.
+ */
+export function BlackoutViolationsCard({ trades }: BlackoutViolationsCardProps) {
+  const { newsSettings, sessionSettings } = useSettingsStore();
+  const { events, isLoading } = useTradeNews(trades);
+  const rule = getBlackoutRule(newsSettings);
+
+  const weeks = useMemo(
+    () =>
+      countBlackoutViolationsByWeek(trades, events, rule, sessionSettings.timezone)
+        .slice(-WEEKS_SHOWN)
+        .map((week) => ({
+          ...week,
+          name: week.weekStart.substring(8, 10) + "/" + week.weekStart.substring(5, 7),
+        })),
+    [trades, events, rule, sessionSettings.timezone]
+  );
+
+  const totalViolations = weeks.reduce((sum, w) => sum + w.violations, 0);
+
+  return (
+    <GlassCard className="p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-red-400" />
+          <h3 className="text-lg font-bold text-gray-100">Violações de Blackout</h3>
+        </div>
+        <span className="text-xs text-gray-500">
+          {rule.enabled
+            ? `${rule.currencies.length > 0 ? rule.currencies.join("/") : "Moedas do ativo"} · ${rule.minutesBefore}min antes / ${rule.minutesAfter}min depois`
+            : "Regra desativada"}
+        </span>
+      </div>
+
+      {!rule.enabled ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          Ative a regra de blackout nas configurações de notícias.
+        </p>
+      ) : isLoading ? (
+        <p className="py-6 text-center text-sm text-gray-500">Carregando calendário...</p>
+      ) : (
+        <>
+          <p className="mb-4 text-sm text-gray-400">
+            <span className={totalViolations > 0 ? "font-bold text-red-400" : "text-zorin-accent"}>
+              {totalViolations}
+            </span>{" "}
+            {totalViolations === 1 ? "entrada" : "entradas"} em blackout nas últimas {weeks.length}{" "}
+            semanas
+          </p>
+          <div className="h-48 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weeks} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                <XAxis
+                  dataKey="name"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: "#9ca3af", fontSize: 11 }}
+                />
+                <YAxis
+                  allowDecimals={false}
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: "#6b7280", fontSize: 11 }}
+                />
+                <Tooltip
+                  cursor={{ fill: "#1f2937", opacity: 0.4 }}
+                  content={({ active, payload }) => {
+                    if (active && payload && payload.length) {
+                      const week = payload[0].payload;
+                      return (
+                        <div className="rounded-lg border border-gray-700 bg-gray-800 p-3 shadow-xl">
+                          <p className="mb-1 text-sm font-semibold text-gray-200">
+                            Semana de {week.name}
+                          </p>
+                          <p className="text-sm text-red-400">
+                            {week.violations} de {week.trades} trades em blackout
+                          </p>
+                        </div>
+                      );
+                    }
+                    return null;
+                  }}
+                />
+                <Bar dataKey="violations" fill="#ef4444" fillOpacity={0.9} radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </GlassCard>
+  );
+}
@@ -8,6 +8,8 @@ import dynamic from "next/dynamic";
 import type { Account } from "@/types";
 import { Menu, X, ChevronDown, ArrowLeft, Check } from "lucide-react";
 import { useAccountStore } from "@/store/useAccountStore";
+import type { PropFirmEvaluation } from "@/lib/utils/trading";
+import { PropFirmStatus } from "./PropFirmStatus";
 
 // Dynamic imports for non-critical header components
 const NotificationBell = dynamic(
@@ -31,6 +33,7 @@ interface DashboardHeaderProps {
   prefetchMentor: () => void;
   prefetchCommunity: () => void;
   onSettingsClick: () => void;
+  propFirmEvaluation?: PropFirmEvaluation | null;
 }
 
 // Icon components to avoid duplication
@@ -136,6 +139,7 @@ export const DashboardHeader = memo(function DashboardHeader({
   prefetchMentor,
   prefetchCommunity,
   onSettingsClick,
+  propFirmEvaluation,
 }: DashboardHeaderProps) {
   const router = useRouter();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -352,6 +356,11 @@ export const DashboardHeader = memo(function DashboardHeader({
           </Button>
         </div>
       </div>
+
+      {/* Prop firm rule gauges + timeline */}
+      {propFirmEvaluation && (
+        <PropFirmStatus evaluation={propFirmEvaluation} currency={account.currency} />
+      )}
     </div>
   );
 });
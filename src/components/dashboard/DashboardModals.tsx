@@ -8,6 +8,7 @@ import {
   SharePlaybookModal,
   DayDetailModal,
   ImportModal,
+  ReportModal,
 } from "@/components/modals/DynamicModals";
 import { Trade, Playbook } from "@/types";
 
@@ -16,10 +17,12 @@ interface DashboardModalsProps {
   currentBalance: number;
   currency: string;
   allHistory: Trade[];
+  accountCreatedAt?: string;
 
   // Modal States
   isCreateModalOpen: boolean;
   isImportModalOpen: boolean;
+  isReportModalOpen: boolean;
   isEditModalOpen: boolean;
   isDayDetailModalOpen: boolean;
   isSettingsModalOpen: boolean;
@@ -36,6 +39,7 @@ interface DashboardModalsProps {
   // Actions
   onCloseCreateModal: () => void;
   onCloseImportModal: () => void;
+  onCloseReportModal: () => void;
   onCloseEditModal: () => void;
   onCloseDayDetailModal: () => void;
   onCloseSettingsModal: () => void;
@@ -62,9 +66,11 @@ export function DashboardModals({
   currentBalance,
   currency,
   allHistory,
+  accountCreatedAt,
 
   isCreateModalOpen,
   isImportModalOpen,
+  isReportModalOpen,
   isEditModalOpen,
   isDayDetailModalOpen,
   isSettingsModalOpen,
@@ -79,6 +85,7 @@ export function DashboardModals({
 
   onCloseCreateModal,
   onCloseImportModal,
+  onCloseReportModal,
   onCloseEditModal,
   onCloseDayDetailModal,
   onCloseSettingsModal,
@@ -114,6 +121,13 @@ export function DashboardModals({
         onImportComplete={handleImportComplete}
       />
 
+      <ReportModal
+        isOpen={isReportModalOpen}
+        onClose={onCloseReportModal}
+        accountId={accountId}
+        accountCreatedAt={accountCreatedAt}
+      />
+
       <EditTradeModal
         isOpen={isEditModalOpen}
         onClose={onCloseEditModal}
@@ -0,0 +1,91 @@
+"use client";
+
+import { GlassCard } from "@/components/ui";
+import { Trade } from "@/types";
+import { formatCurrency } from "@/lib/utils/trading";
+import { useTradeNews } from "@/hooks/useTradeNews";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import type { NewsGroupMetrics } from "@/services/analytics/news";
+import { Newspaper } from "lucide-react";
+
+interface NewsImpactCardProps {
+  trades: Trade[];
+}
+
+const IMPACT_LABELS = { high: "alto", medium: "médio", low: "baixo" };
+
+function formatR(value: number | null): string {
+  return value === null ? "-" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function GroupColumn({ label, group }: { label: string; group: NewsGroupMetrics }) {
+  return (
+    <div className="space-y-3 rounded-xl border border-gray-700/50 bg-gray-800/40 p-4">
+      <p className="text-sm font-semibold text-gray-300">{label}</p>
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <p className="text-xs text-gray-500">Trades</p>
+          <p className="font-bold text-gray-100">{group.trades}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Win Rate</p>
+          <p className="font-bold text-gray-100">{group.winRate.toFixed(1)}%</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">R Médio</p>
+          <p
+            className={`font-bold ${
+              group.avgR === null
+                ? "text-gray-400"
+                : group.avgR >= 0
+                  ? "text-zorin-accent"
+                  : "text-red-400"
+            }`}
+          >
+            {formatR(group.avgR)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">P/L</p>
+          <p className={`font-bold ${group.totalPnL >= 0 ? "text-zorin-accent" : "text-red-400"}`}>
+            {formatCurrency(group.totalPnL)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Win rate and R of trades taken around economic news vs the other trades.
+ */
+export function NewsImpactCard({ trades }: NewsImpactCardProps) {
+  const { newsSettings } = useSettingsStore();
+  const { impact, isLoading } = useTradeNews(trades);
+
+  const impacts = newsSettings.impacts.map((i) => IMPACT_LABELS[i]).join("/");
+
+  return (
+    <GlassCard className="p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Newspaper className="h-5 w-5 text-orange-400" />
+          <h3 className="text-lg font-bold text-gray-100">Impacto de Notícias</h3>
+        </div>
+        <span className="text-xs text-gray-500">
+          Impacto {impacts} · {newsSettings.minutesBefore}min antes / {newsSettings.minutesAfter}
+          min depois da entrada
+        </span>
+      </div>
+
+      {isLoading ? (
+        <p className="py-6 text-center text-sm text-gray-500">Carregando calendário...</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <GroupColumn label="📰 Durante notícias" group={impact.news} />
+          <GroupColumn label="Demais trades" group={impact.others} />
+        </div>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { formatCurrency } from "@/lib/utils/trading";
+import type { PropFirmEvaluation, PropRuleGauge } from "@/lib/utils/trading";
+import type { PropRuleKey } from "@/types";
+import { cn } from "@/lib/utils/general";
+
+interface PropFirmStatusProps {
+  evaluation: PropFirmEvaluation;
+  currency: string;
+}
+
+const RULE_LABELS: Record<PropRuleKey, string> = {
+  daily_loss: "Perda Diária",
+  max_drawdown: "Drawdown Máx.",
+  profit_target: "Meta de Lucro",
+  min_trading_days: "Dias Operados",
+  consistency: "Consistência",
+};
+
+const STATUS_BADGES: Record<PropFirmEvaluation["status"], { label: string; className: string }> = {
+  active: { label: "Em avaliação", className: "border-cyan-500/40 bg-cyan-500/10 text-cyan-400" },
+  passed: { label: "Aprovado", className: "border-green-500/40 bg-green-500/10 text-green-400" },
+  failed: { label: "Reprovado", className: "border-red-500/40 bg-red-500/10 text-red-400" },
+};
+
+const GAUGE_COLORS: Record<PropRuleGauge["state"], string> = {
+  ok: "bg-cyan-500",
+  warning: "bg-amber-500",
+  breached: "bg-red-500",
+  passed: "bg-green-500",
+  pending: "bg-cyan-500",
+};
+
+const TIMELINE_COLORS = {
+  ok: "bg-gray-600",
+  passed: "bg-green-500",
+  breached: "bg-red-500",
+};
+
+/**
+ * Formats gauge values according to the rule unit (money, days or %)
+ */
+function formatGaugeValue(rule: PropRuleKey, value: number, currency: string): string {
+  if (rule === "min_trading_days") return `${Math.round(value)}d`;
+  if (rule === "consistency") return `${value.toFixed(1)}%`;
+  return formatCurrency(value, currency);
+}
+
+function gaugeCaption(gauge: PropRuleGauge, currency: string): string {
+  const distance = formatGaugeValue(gauge.rule, gauge.distance, currency);
+  if (gauge.state === "breached") return "Violada";
+  if (gauge.state === "passed") return "Concluída";
+  if (gauge.rule === "profit_target" || gauge.rule === "min_trading_days") {
+    return `Faltam ${distance}`;
+  }
+  return `Margem ${distance}`;
+}
+
+/**
+ * Prop firm rule-distance gauges plus a collapsible pass/breach timeline.
+ * Rendered in the dashboard header for prop firm accounts.
+ */
+export function PropFirmStatus({ evaluation, currency }: PropFirmStatusProps) {
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const badge = STATUS_BADGES[evaluation.status];
+
+  return (
+    <div className="mt-4 rounded-xl border border-gray-800 bg-gray-900/60 p-3">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-semibold tracking-wider text-gray-400 uppercase">
+            Regras da Mesa
+          </span>
+          <span
+            className={cn("rounded-full border px-2 py-0.5 text-[10px] font-bold", badge.className)}
+          >
+            {badge.label}
+          </span>
+        </div>
+        <button
+          onClick={() => setIsTimelineOpen(!isTimelineOpen)}
+          className="flex items-center gap-1 text-xs text-gray-400 transition-colors hover:text-white"
+          aria-expanded={isTimelineOpen}
+        >
+          Linha do tempo
+          <ChevronDown
+            className={cn("h-3 w-3 transition-transform", isTimelineOpen && "rotate-180")}
+          />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+        {evaluation.gauges.map((gauge) => (
+          <div key={gauge.rule} data-testid={`prop-gauge-${gauge.rule}`}>
+            <div className="mb-1 flex items-baseline justify-between gap-1">
+              <span className="truncate text-[11px] text-gray-400">{RULE_LABELS[gauge.rule]}</span>
+              <span className="text-[10px] text-gray-500">
+                {formatGaugeValue(gauge.rule, gauge.limit, currency)}
+              </span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-gray-800">
+              <div
+                className={cn("h-full rounded-full transition-all", GAUGE_COLORS[gauge.state])}
+                style={{ width: `${gauge.progress}%` }}
+              />
+            </div>
+            <span
+              className={cn(
+                "mt-1 block text-[10px]",
+                gauge.state === "breached"
+                  ? "text-red-400"
+                  : gauge.state === "warning"
+                    ? "text-amber-400"
+                    : "text-gray-500"
+              )}
+            >
+              {gaugeCaption(gauge, currency)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {isTimelineOpen && (
+        <div className="mt-3 max-h-56 space-y-1 overflow-y-auto border-t border-gray-800 pt-3">
+          {evaluation.timeline.length === 0 && (
+            <p className="text-xs text-gray-500">Nenhum trade fechado ainda.</p>
+          )}
+          {[...evaluation.timeline].reverse().map((day) => (
+            <div key={day.date} className="flex items-start gap-3 text-xs">
+              <span
+                className={cn("mt-1 h-2 w-2 shrink-0 rounded-full", TIMELINE_COLORS[day.state])}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-gray-400">
+                    {day.date.split("-").reverse().join("/")}
+                  </span>
+                  <span className={day.pnl >= 0 ? "text-green-400" : "text-red-400"}>
+                    {day.pnl >= 0 ? "+" : ""}
+                    {formatCurrency(day.pnl, currency)}
+                  </span>
+                </div>
+                {day.state === "passed" && <p className="text-green-400">Desafio aprovado</p>}
+                {day.breaches.map((breach) => (
+                  <p key={breach.rule} className="text-red-400">
+                    {RULE_LABELS[breach.rule]} violada
+                    {breach.tradeSymbol &&
+                      ` por ${breach.tradeSymbol}${breach.tradeTime ? ` às ${breach.tradeTime.substring(0, 5)}` : ""}`}
+                  </p>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ interface DashboardJournalProps {
   // Actions
   onLoadPage: (accountId: string, page: number) => Promise<void>;
   onImportClick: () => void;
+  onReportClick: () => void;
   onDeleteAllTrades: () => Promise<void>;
   onEditTrade: (trade: Trade) => void;
   onDeleteTrade: (tradeId: string) => Promise<void>;
@@ -45,6 +46,7 @@ function DashboardJournalContent({
   isLoading,
   onLoadPage,
   onImportClick,
+  onReportClick,
   onDeleteAllTrades,
   onEditTrade,
   onDeleteTrade,
@@ -87,6 +89,11 @@ function DashboardJournalContent({
         {/* Botões à direita */}
         <div className="flex shrink-0 items-center gap-2">
           <IconActionButton variant="import" onClick={onImportClick} title="Importar Trades" />
+          <IconActionButton
+            variant="report"
+            onClick={onReportClick}
+            title="Relatório de Performance"
+          />
           <IconActionButton variant="delete" onClick={handleDeleteAll} title="Limpar Histórico" />
         </div>
       </CardHeader>
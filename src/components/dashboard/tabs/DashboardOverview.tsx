@@ -29,6 +29,19 @@ const WeekdayPerformanceCard = dynamic(
     ssr: false,
   }
 );
+
+const NewsImpactCard = dynamic(
+  () => import("@/components/dashboard/NewsImpactCard").then((mod) => mod.NewsImpactCard),
+  { ssr: false }
+);
+
+const BlackoutViolationsCard = dynamic(
+  () =>
+    import("@/components/dashboard/BlackoutViolationsCard").then(
+      (mod) => mod.BlackoutViolationsCard
+    ),
+  { ssr: false }
+);
 import dynamic from "next/dynamic";
 
 const Charts = dynamic(() => import("@/components/reports/Charts").then((mod) => mod.Charts), {
@@ -355,6 +368,12 @@ export function DashboardOverview({
             <WeekdayPerformanceCard trades={allHistory} />
           </div>
 
+          {/* News Section */}
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <NewsImpactCard trades={allHistory} />
+            <BlackoutViolationsCard trades={allHistory} />
+          </div>
+
           <Charts
             trades={allHistory}
             currency={currency}
@@ -0,0 +1,275 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { GlassCard, Input, SegmentedToggle } from "@/components/ui";
+import { Button } from "@/components/ui/Button";
+import { MonteCarloFanChart } from "@/components/charts/recharts/MonteCarloFanChart";
+import { formatCurrency } from "@/lib/utils/trading";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import {
+  DEFAULT_MONTE_CARLO_CONFIG,
+  MIN_MONTE_CARLO_SAMPLES,
+  getMonteCarloSamples,
+  getRiskOfRuinTable,
+  runMonteCarlo,
+  type MonteCarloMode,
+  type MonteCarloTrade,
+} from "@/services/analytics/monteCarlo";
+
+interface DashboardSimulationProps {
+  trades: MonteCarloTrade[];
+  currency: string;
+  /** Simulations start from the current balance */
+  currentBalance: number;
+  /** Account max drawdown, in % of the balance */
+  maxDrawdownPercent: number;
+}
+
+const MODE_OPTIONS = [
+  { value: "r", label: "Múltiplos R" },
+  { value: "pnl", label: "Resultado ($)" },
+];
+
+const SIMULATION_OPTIONS = [
+  { value: "500", label: "500" },
+  { value: "1000", label: "1.000" },
+  { value: "5000", label: "5.000" },
+];
+
+/** Fewer paths per row: the table runs one simulation per risk level */
+const RISK_TABLE_SIMULATIONS = 500;
+
+const parsePositive = (value: string, fallback: number) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <GlassCard className="p-4">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="mt-1 text-xl font-bold text-white">{value}</p>
+      {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+    </GlassCard>
+  );
+}
+
+/**
+ * Forward-looking view of the account: Monte Carlo paths built from the trade
+ * history, risk of ruin and drawdown-limit probability.
+ */
+export function DashboardSimulation({
+  trades,
+  currency,
+  currentBalance,
+  maxDrawdownPercent,
+}: DashboardSimulationProps) {
+  const [mode, setMode] = useState<MonteCarloMode>("r");
+  const [riskPercent, setRiskPercent] = useState(String(DEFAULT_MONTE_CARLO_CONFIG.riskPercent));
+  const [tradesPerPath, setTradesPerPath] = useState(
+    String(DEFAULT_MONTE_CARLO_CONFIG.tradesPerPath)
+  );
+  const [ruinPercent, setRuinPercent] = useState(String(DEFAULT_MONTE_CARLO_CONFIG.ruinPercent));
+  const [simulations, setSimulations] = useState(String(DEFAULT_MONTE_CARLO_CONFIG.simulations));
+  const [seed, setSeed] = useState(DEFAULT_MONTE_CARLO_CONFIG.seed!);
+
+  const { assets } = useSettingsStore();
+  const samples = useMemo(() => {
+    const assetMultipliers = Object.fromEntries(
+      assets.map((asset) => [asset.symbol.toUpperCase(), asset.multiplier])
+    );
+    return getMonteCarloSamples(trades, mode, assetMultipliers);
+  }, [trades, mode, assets]);
+
+  const config = useMemo(
+    () => ({
+      mode,
+      startingBalance: currentBalance,
+      tradesPerPath: Math.min(1000, Math.round(parsePositive(tradesPerPath, 100))),
+      simulations: parseInt(simulations, 10),
+      riskPercent: parsePositive(riskPercent, DEFAULT_MONTE_CARLO_CONFIG.riskPercent),
+      drawdownLimitPercent: maxDrawdownPercent || 0,
+      ruinPercent: Math.min(100, parsePositive(ruinPercent, 50)),
+      seed,
+    }),
+    [
+      mode,
+      currentBalance,
+      tradesPerPath,
+      simulations,
+      riskPercent,
+      maxDrawdownPercent,
+      ruinPercent,
+      seed,
+    ]
+  );
+
+  const hasEnoughSamples = samples.length >= MIN_MONTE_CARLO_SAMPLES;
+
+  const result = useMemo(
+    () => (hasEnoughSamples ? runMonteCarlo(samples, config) : null),
+    [hasEnoughSamples, samples, config]
+  );
+
+  const riskTable = useMemo(
+    () =>
+      hasEnoughSamples && mode === "r"
+        ? getRiskOfRuinTable(samples, { ...config, simulations: RISK_TABLE_SIMULATIONS })
+        : [],
+    [hasEnoughSamples, mode, samples, config]
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <GlassCard className="space-y-4 p-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex min-w-[220px] flex-col gap-1.5">
+            <span className="text-xs font-medium text-gray-400">Reamostrar</span>
+            <SegmentedToggle
+              value={mode}
+              onChange={(val) => setMode(val as MonteCarloMode)}
+              options={MODE_OPTIONS}
+              size="sm"
+            />
+          </div>
+          {mode === "r" && (
+            <div className="w-32">
+              <Input
+                label="Risco por trade (%)"
+                type="number"
+                step="0.1"
+                value={riskPercent}
+                onChange={(e) => setRiskPercent(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="w-32">
+            <Input
+              label="Trades por caminho"
+              type="number"
+              step="10"
+              value={tradesPerPath}
+              onChange={(e) => setTradesPerPath(e.target.value)}
+            />
+          </div>
+          <div className="w-32">
+            <Input
+              label="Ruína (% perdido)"
+              type="number"
+              step="5"
+              value={ruinPercent}
+              onChange={(e) => setRuinPercent(e.target.value)}
+            />
+          </div>
+          <div className="flex min-w-[200px] flex-col gap-1.5">
+            <span className="text-xs font-medium text-gray-400">Simulações</span>
+            <SegmentedToggle
+              value={simulations}
+              onChange={setSimulations}
+              options={SIMULATION_OPTIONS}
+              size="sm"
+            />
+          </div>
+          <Button variant="secondary" onClick={() => setSeed((s) => s + 1)}>
+            🎲 Nova simulação
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          {samples.length} trades fechados usados como amostra
+          {mode === "r" && " (trades sem stop ficam de fora)"}. Saldo inicial:{" "}
+          {formatCurrency(currentBalance, currency)} · Limite de drawdown da conta:{" "}
+          {maxDrawdownPercent || 0}%.
+        </p>
+      </GlassCard>
+
+      {!result && (
+        <div className="py-12 text-center text-gray-400">
+          <div className="mb-4 text-4xl">🎲</div>
+          <p>São necessários pelo menos {MIN_MONTE_CARLO_SAMPLES} trades fechados para simular.</p>
+          {mode === "r" && (
+            <p className="mt-2 text-sm">
+              Trades sem stop não têm múltiplo R; tente reamostrar pelo resultado.
+            </p>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            <StatCard
+              label="Saldo final (mediana)"
+              value={formatCurrency(result.finalBalance.p50, currency)}
+              hint={`5%: ${formatCurrency(result.finalBalance.p5, currency)} · 95%: ${formatCurrency(result.finalBalance.p95, currency)}`}
+            />
+            <StatCard
+              label="Chance de atingir o drawdown máximo"
+              value={maxDrawdownPercent ? `${result.drawdownLimitProbability}%` : "-"}
+              hint={maxDrawdownPercent ? `Limite de ${maxDrawdownPercent}% da conta` : undefined}
+            />
+            <StatCard
+              label="Risco de ruína"
+              value={`${result.riskOfRuin}%`}
+              hint={`Perder ${config.ruinPercent}% do saldo em ${config.tradesPerPath} trades`}
+            />
+            <StatCard
+              label="Sequência de perdas esperada"
+              value={`${result.maxLosingStreak.expected}`}
+              hint={`95% dos caminhos: até ${result.maxLosingStreak.p95} seguidas`}
+            />
+          </div>
+
+          <GlassCard className="p-6">
+            <div className="mb-4 flex flex-wrap items-baseline justify-between gap-2">
+              <h3 className="text-base font-medium text-gray-400">Caminhos de capital</h3>
+              <p className="text-xs text-gray-500">
+                Lucro em {result.profitProbability}% dos caminhos · Drawdown mediano{" "}
+                {result.maxDrawdownPercent.p50}% (95%: {result.maxDrawdownPercent.p95}%)
+              </p>
+            </div>
+            <MonteCarloFanChart
+              bands={result.bands}
+              currency={currency}
+              startingBalance={currentBalance}
+              ruinBalance={currentBalance * (1 - config.ruinPercent / 100)}
+            />
+          </GlassCard>
+
+          {riskTable.length > 0 && (
+            <GlassCard className="p-6">
+              <h3 className="mb-4 text-base font-medium text-gray-400">
+                Risco de ruína por risco por trade
+              </h3>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500">
+                  <tr>
+                    <th className="py-2 text-left">Risco por trade</th>
+                    <th className="py-2 text-right">Risco de ruína</th>
+                    <th className="py-2 text-right">Atinge o drawdown máximo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {riskTable.map((row) => (
+                    <tr
+                      key={row.riskPercent}
+                      className={`border-t border-gray-700/60 ${
+                        row.riskPercent === config.riskPercent ? "text-cyan-300" : "text-gray-300"
+                      }`}
+                    >
+                      <td className="py-2">{row.riskPercent}%</td>
+                      <td className="py-2 text-right">{row.riskOfRuin}%</td>
+                      <td className="py-2 text-right">
+                        {maxDrawdownPercent ? `${row.drawdownLimitProbability}%` : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </GlassCard>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
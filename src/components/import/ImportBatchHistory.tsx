@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { History, Undo2 } from "lucide-react";
+import { getImportBatchesAction, rollbackImportBatchAction } from "@/app/actions/trades";
+import type { ImportBatch } from "@/types";
+
+interface ImportBatchHistoryProps {
+  accountId: string;
+  /** Called after a batch is rolled back (trades changed) */
+  onRollback?: () => void;
+}
+
+/**
+ * Import history of an account; each import can be rolled back as a whole,
+ * except those that replaced the account's trades.
+ */
+export const ImportBatchHistory: React.FC<ImportBatchHistoryProps> = ({
+  accountId,
+  onRollback,
+}) => {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!accountId) return;
+    let cancelled = false;
+    getImportBatchesAction(accountId).then((loaded) => {
+      if (!cancelled) setBatches(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId]);
+
+  const handleRollback = async (batch: ImportBatch) => {
+    const message =
+      `Desfazer a importação de ${dayjs(batch.createdAt).format("DD/MM/YYYY HH:mm")}? ` +
+      `${batch.createdCount} trade(s) criado(s) serão apagados e ` +
+      `${batch.updatedCount} trade(s) atualizado(s) voltarão aos valores anteriores.`;
+    if (!window.confirm(message)) return;
+
+    setError(null);
+    setRollingBackId(batch.id);
+    const result = await rollbackImportBatchAction(batch.id);
+    setRollingBackId(null);
+
+    if (!result.success) {
+      setError(result.error || "Erro ao desfazer importação.");
+      return;
+    }
+    setBatches((prev) => prev.map((b) => (b.id === batch.id ? result.data : b)));
+    onRollback?.();
+  };
+
+  if (batches.length === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-2 border-t border-gray-800 pt-4">
+      <h4 className="flex items-center gap-2 text-sm font-medium text-gray-300">
+        <History className="h-4 w-4 text-gray-500" />
+        Histórico de Importações
+      </h4>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <ul className="max-h-48 divide-y divide-gray-800 overflow-y-auto rounded-lg border border-gray-700 bg-gray-800/30">
+        {batches.map((batch) => {
+          const rolledBack = batch.status === "rolled_back";
+          return (
+            <li key={batch.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className={rolledBack ? "opacity-50" : undefined}>
+                <span className="text-xs text-gray-200">
+                  {dayjs(batch.createdAt).format("DD/MM/YYYY HH:mm")}
+                  <span className="ml-2 text-[10px] font-bold tracking-wider text-gray-500 uppercase">
+                    {batch.source}
+                  </span>
+                  {batch.fileName && (
+                    <span className="ml-2 font-mono text-gray-400">{batch.fileName}</span>
+                  )}
+                </span>
+                <span className="block text-[11px] text-gray-500">
+                  {batch.createdCount} novos · {batch.updatedCount} atualizados ·{" "}
+                  {batch.skippedCount} ignorados
+                </span>
+              </div>
+              {rolledBack ? (
+                <span className="text-[10px] font-bold tracking-wider text-gray-500 uppercase">
+                  Desfeita
+                </span>
+              ) : batch.replacedExisting ? (
+                <span
+                  className="cursor-help text-[10px] font-bold tracking-wider text-gray-500 uppercase"
+                  title="Esta importação apagou os trades anteriores da conta (Substituir Tudo) e não pode ser desfeita."
+                >
+                  Substituiu tudo
+                </span>
+              ) : (
+                <button
+                  onClick={() => handleRollback(batch)}
+                  disabled={rollingBackId !== null}
+                  className="flex items-center gap-1 rounded-md border border-red-500/30 px-2 py-1 text-xs text-red-400 transition-colors hover:bg-red-500/10 disabled:opacity-50"
+                >
+                  <Undo2 className="h-3 w-3" />
+                  {rollingBackId === batch.id ? "Desfazendo..." : "Desfazer"}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -3,37 +3,54 @@
 import React, { useState, useEffect } from "react";
 import { Modal } from "@/components/ui/Modal";
 import { IconActionButton } from "@/components/ui/IconActionButton";
-import { RawTradeData, processImportFile, parseNinjaTraderCSV } from "@/services/trades/import";
+import {
+  RawTradeData,
+  processImportFile,
+  parseNinjaTraderCSV,
+  parseGenericCSV,
+} from "@/services/trades/import";
 import {
   parseTradovateCSV,
   determineTradovateDirection,
   cleanTradovateSymbol,
   parseTradovateMoney,
 } from "@/services/trades/tradovateParser";
+import { parseIbkrFlexFile } from "@/services/trades/ibkrParser";
+import { parseCTraderCSV } from "@/services/trades/ctraderParser";
 import {
   ColumnMapping,
   DataSource,
   detectColumnMapping,
+  groupTradesIntoLegs,
   transformTrades,
 } from "@/services/trades/importParsers";
+import {
+  downloadImportProfiles,
+  findMatchingProfile,
+  parseImportProfilesJson,
+} from "@/services/trades/importProfiles";
 import { getAccountsAction } from "@/app/actions/accounts";
+import { useSettingsStore } from "@/store/useSettingsStore";
 import {
-  saveTradesBatchAction,
-  getTradeHistoryLiteAction,
-  deleteTradesByAccountAction,
-} from "@/app/actions/trades";
-
-// Helper for chunking array
-const chunkArray = <T,>(array: T[], size: number): T[][] => {
-  const chunks: T[][] = [];
-  for (let i = 0; i < array.length; i += size) {
-    chunks.push(array.slice(i, i + size));
-  }
-  return chunks;
-};
+  deleteImportProfileAction,
+  getImportProfilesAction,
+  saveImportProfileAction,
+} from "@/app/actions/importProfiles";
+import type { ImportDiff } from "@/services/trades/importDiff";
+import type { Account, ImportProfile, Trade } from "@/types";
+import { previewTradesImportAction, saveTradesBatchAction } from "@/app/actions/trades";
 import { ImportStepUpload } from "./steps/ImportStepUpload";
 import { ImportStepMapping } from "./steps/ImportStepMapping";
+import { ImportStepDiff } from "./steps/ImportStepDiff";
 import { ImportStepReview } from "./steps/ImportStepReview";
+import { ImportBatchHistory } from "./ImportBatchHistory";
+import {
+  DEFAULT_PROFILE_FORM,
+  ImportProfileForm,
+  ImportProfilePanel,
+  formToSettings,
+  profileToForm,
+} from "./ImportProfilePanel";
 
 interface ImportModalProps {
   isOpen: boolean;
@@ -42,7 +59,7 @@ interface ImportModalProps {
   defaultAccountId?: string;
 }
 
-type ImportStep = "source_selection" | "upload" | "mapping" | "importing" | "complete";
+type ImportStep = "source_selection" | "upload" | "mapping" | "preview" | "importing" | "complete";
 
 export const ImportModal: React.FC<ImportModalProps> = ({
   isOpen,
@@ -50,11 +67,13 @@ export const ImportModal: React.FC<ImportModalProps> = ({
   onImportComplete,
   defaultAccountId,
 }) => {
+  const { sessionSettings, loadSettings } = useSettingsStore();
   const [step, setStep] = useState<ImportStep>("source_selection");
   const [dataSource, setDataSource] = useState<DataSource>(null);
 
   const [error, setError] = useState<string | null>(null);
   const [selectedAccountId, setSelectedAccountId] = useState<string>(defaultAccountId || "");
+  const [accounts, setAccounts] = useState<Account[]>([]);
 
   // Timezone State
   const [brokerTimezone, setBrokerTimezone] = useState<string>("Europe/Helsinki"); // Default MT4
@@ -62,9 +81,35 @@ export const ImportModal: React.FC<ImportModalProps> = ({
   // Import Mode State (Append vs Replace)
   const [importMode, setImportMode] = useState<"append" | "replace">("append");
 
+  // Merge partial fills of the same position into one multi-leg trade (futures exports)
+  const [groupLegs, setGroupLegs] = useState(true);
+  const canGroupLegs =
+    dataSource === "ninjatrader" || dataSource === "tradovate" || dataSource === "ibkr";
+
+  // Saved import profiles (mapping + parsing options), auto-selected by header fingerprint
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [profileAutoSelected, setProfileAutoSelected] = useState(false);
+  const [profileForm, setProfileForm] = useState<ImportProfileForm>(DEFAULT_PROFILE_FORM);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [profileMessage, setProfileMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+  const useProfileParsing = dataSource === "csv" || activeProfileId !== null;
+
   // Parsed data state
   const [rawData, setRawData] = useState<RawTradeData[]>([]);
   const [headers, setHeaders] = useState<string[]>([]);
+  const [fileCurrencies, setFileCurrencies] = useState<string[]>([]);
+  const [fileWarnings, setFileWarnings] = useState<string[]>([]);
+  const [fileName, setFileName] = useState<string | undefined>(undefined);
+
+  // Dry run of the import, confirmed by the user before anything is written
+  const [pendingTrades, setPendingTrades] = useState<Partial<Trade>[]>([]);
+  const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+  const [overwrite, setOverwrite] = useState<number[]>([]);
+  const [unreadRows, setUnreadRows] = useState(0);
 
   const [mapping, setMapping] = useState<ColumnMapping>({
     entryDate: "",
@@ -82,12 +127,19 @@ export const ImportModal: React.FC<ImportModalProps> = ({
   });
 
   // Stats
-  const [importStats, setImportStats] = useState({ total: 0, success: 0, failed: 0, skipped: 0 });
-  const [importProgress, setImportProgress] = useState({ current: 0, total: 0 });
+  const [importStats, setImportStats] = useState({
+    total: 0,
+    success: 0,
+    updated: 0,
+    failed: 0,
+    skipped: 0,
+  });
 
   useEffect(() => {
     if (isOpen) {
       loadAccounts();
+      loadImportProfiles();
+      loadSettings();
       resetState();
     }
   }, [isOpen]); // eslint-disable-line react-hooks/exhaustive-deps
@@ -96,12 +148,24 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     // Use defaultAccountId if provided, otherwise load first account
     if (defaultAccountId) {
       setSelectedAccountId(defaultAccountId);
-    } else {
-      const loadedAccounts = await getAccountsAction();
-      if (loadedAccounts.length > 0) {
-        setSelectedAccountId(loadedAccounts[0].id);
-      }
     }
+    const loadedAccounts = await getAccountsAction();
+    setAccounts(loadedAccounts);
+    if (!defaultAccountId && loadedAccounts.length > 0) {
+      setSelectedAccountId(loadedAccounts[0].id);
+    }
+  };
+
+  const loadImportProfiles = async () => {
+    setImportProfiles(await getImportProfilesAction());
+  };
+
+  const applyProfile = (profile: ImportProfile, autoSelected: boolean) => {
+    setMapping({ ...profile.mapping });
+    setBrokerTimezone(profile.timezone);
+    setProfileForm(profileToForm(profile));
+    setActiveProfileId(profile.id);
+    setProfileAutoSelected(autoSelected);
   };
 
   const resetState = () => {
@@ -110,10 +174,21 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     setError(null);
     setRawData([]);
     setHeaders([]);
-    setImportStats({ total: 0, success: 0, failed: 0, skipped: 0 });
-    setImportProgress({ current: 0, total: 0 });
+    setFileCurrencies([]);
+    setFileWarnings([]);
+    setFileName(undefined);
+    setPendingTrades([]);
+    setImportDiff(null);
+    setOverwrite([]);
+    setUnreadRows(0);
+    setImportStats({ total: 0, success: 0, updated: 0, failed: 0, skipped: 0 });
     setBrokerTimezone("Europe/Helsinki");
     setImportMode("append");
+    setGroupLegs(true);
+    setActiveProfileId(null);
+    setProfileAutoSelected(false);
+    setProfileForm(DEFAULT_PROFILE_FORM);
+    setProfileMessage(null);
   };
 
   const handleSourceSelect = (source: DataSource) => {
@@ -135,6 +210,8 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     try {
       let data: RawTradeData[] = [];
       let detectedHeaders: string[] = [];
+      let currencies: string[] = [];
+      let warnings: string[] = [];
 
       if (source === "metatrader") {
         if (selectedFile.name.endsWith(".csv")) {
@@ -154,6 +231,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({
         }
         const result = await parseNinjaTraderCSV(selectedFile);
         data = result.data;
+        warnings = result.warnings ?? [];
         if (data.length === 0) throw new Error("Nenhum dado encontrado no arquivo.");
         detectedHeaders = Object.keys(data[0]);
 
@@ -175,6 +253,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({
         const result = isPdf
           ? await parseTradovatePDF(selectedFile)
           : await parseTradovateCSV(selectedFile);
+        warnings = result.warnings ?? [];
 
         // Convert Tradovate format to RawTradeData format
         data = result.data.map((trade) => {
@@ -190,6 +269,8 @@ export const ImportModal: React.FC<ImportModalProps> = ({
             "Entry Price": isLong ? trade.buyPrice : trade.sellPrice,
             "Exit Price": isLong ? trade.sellPrice : trade.buyPrice,
             Profit: String(parseTradovateMoney(trade.pnl)),
+            // Only trades rebuilt from a fills export carry commissions
+            ...(trade.commission !== undefined && { Commission: trade.commission }),
           } as RawTradeData;
         });
 
@@ -206,16 +287,66 @@ export const ImportModal: React.FC<ImportModalProps> = ({
           entryPrice: "Entry Price",
           exitPrice: "Exit Price",
           profit: "Profit",
-          commission: "",
+          commission: "Commission" in data[0] ? "Commission" : "",
           swap: "",
           sl: "",
           tp: "",
         });
         setBrokerTimezone("America/New_York"); // Tradovate uses EST
+      } else if (source === "csv") {
+        if (!selectedFile.name.toLowerCase().endsWith(".csv")) {
+          throw new Error("Selecione um arquivo .csv com linha de cabeçalho.");
+        }
+        const result = await parseGenericCSV(selectedFile);
+        data = result.data;
+        detectedHeaders = Object.keys(data[0]);
+
+        setMapping(detectColumnMapping(detectedHeaders));
+        setBrokerTimezone("Etc/UTC");
+      } else if (source === "ibkr") {
+        const name = selectedFile.name.toLowerCase();
+        if (!name.endsWith(".xml") && !name.endsWith(".csv")) {
+          throw new Error("Interactive Brokers aceita apenas arquivos .xml ou .csv do Flex Query.");
+        }
+        const result = await parseIbkrFlexFile(selectedFile);
+        data = result.data;
+        currencies = result.currencies ?? [];
+        warnings = result.warnings ?? [];
+        detectedHeaders = Object.keys(data[0]);
+
+        // Executions are already paired into round trips with standard column names
+        setMapping(detectColumnMapping(detectedHeaders));
+        setBrokerTimezone(result.timezone ?? "America/New_York");
+      } else if (source === "ctrader") {
+        if (!selectedFile.name.toLowerCase().endsWith(".csv")) {
+          throw new Error("cTrader aceita apenas arquivos .csv da aba History.");
+        }
+        const result = await parseCTraderCSV(selectedFile);
+        data = result.data;
+        currencies = result.currencies ?? [];
+        detectedHeaders = Object.keys(data[0]);
+
+        setMapping(detectColumnMapping(detectedHeaders));
+        // Export times follow the platform's UTC offset shown in the column headers
+        setBrokerTimezone(result.timezone ?? "Etc/UTC");
       }
 
+      // A saved profile for this file layout overrides the source defaults
+      const matchedProfile = findMatchingProfile(importProfiles, detectedHeaders);
+      if (matchedProfile) {
+        applyProfile(matchedProfile, true);
+      } else {
+        setActiveProfileId(null);
+        setProfileAutoSelected(false);
+        setProfileForm(DEFAULT_PROFILE_FORM);
+      }
+      setProfileMessage(null);
+
       setRawData(data);
       setHeaders(detectedHeaders);
+      setFileCurrencies(currencies);
+      setFileWarnings(warnings);
+      setFileName(selectedFile.name);
       setStep("mapping");
     } catch (err) {
       console.error(err);
@@ -223,121 +354,176 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     }
   };
 
-  const handleImport = async () => {
+  // Dry run: the server classifies the parsed trades against the account before confirming
+  const handlePreview = async () => {
     if (!selectedAccountId) {
       setError("Please select an account.");
       return;
     }
 
-    setStep("importing");
-    let successCount = 0;
-    let failedCount = 0;
-    let skippedCount = 0;
-
+    setError(null);
     try {
-      // Optional: Replace Mode - Delete all existing trades
-      if (importMode === "replace") {
-        const result = await deleteTradesByAccountAction(selectedAccountId);
-        if (!result.success) {
-          throw new Error("Failed to clear existing trades: " + result.error);
-        }
-      }
-
-      let existingSignatures = new Set<string>();
-
-      // Only fetch existing trades for deduplication if we are appending
-      if (importMode === "append") {
-        const existingTrades = await getTradeHistoryLiteAction(selectedAccountId);
-        existingSignatures = new Set(
-          existingTrades.map((t) => {
-            const time = t.entryTime ? t.entryTime.substring(0, 5) : "00:00";
-            return `${t.entryDate}|${time}|${t.symbol}|${t.type}|${t.entryPrice}`;
-          })
-        );
-      }
-
       // Use Service Parser to transform raw data to Trade objects
-      const allTrades = transformTrades(
+      const profileSettings = useProfileParsing
+        ? { ...formToSettings(profileForm), mapping, timezone: brokerTimezone }
+        : undefined;
+      const rowTrades = transformTrades(
         rawData,
         mapping,
         dataSource,
         brokerTimezone,
-        selectedAccountId
+        selectedAccountId,
+        profileSettings,
+        sessionSettings.customSessions
       );
+      const trades = canGroupLegs && groupLegs ? groupTradesIntoLegs(rowTrades) : rowTrades;
 
-      // Filter valid trades and handle deduplication
-      const validTrades = allTrades.filter((trade) => {
-        // Deduplication Check
-        const entryTime = trade.entryTime || "00:00:00";
-        const signature = `${trade.entryDate}|${entryTime.substring(0, 5)}|${trade.symbol}|${trade.type}|${trade.entryPrice}`;
-
-        if (importMode === "append" && existingSignatures.has(signature)) {
-          skippedCount++;
-          return false;
-        }
-        return true;
-      });
+      const result = await previewTradesImportAction(selectedAccountId, trades, importMode);
+      if (!result.success) throw new Error(result.error);
 
-      // Prepare for batch processing
-      const BATCH_SIZE = 50; // Process 50 trades at a time
-      const chunks = chunkArray(validTrades, BATCH_SIZE);
-      const totalToProcess = validTrades.length;
-      let processedCount = 0;
-
-      // Initialize progress
-      setImportProgress({ current: 0, total: totalToProcess });
-
-      for (const chunk of chunks) {
-        // Call server action for this batch
-        const result = await saveTradesBatchAction(chunk);
-
-        if (result.success) {
-          successCount += result.count;
-        } else {
-          // If batch fails, we assume all in batch failed (or we could retry individually)
-          failedCount += chunk.length;
-          console.error("Batch failed:", result.error);
-        }
+      setPendingTrades(trades);
+      setUnreadRows(rawData.length - rowTrades.length);
+      setImportDiff(result.data);
+      setOverwrite([]);
+      setStep("preview");
+    } catch (err) {
+      console.error("Failed import preview", err);
+      setError("Erro ao analisar a importação. Tente novamente.");
+    }
+  };
 
-        processedCount += chunk.length;
-        setImportProgress({ current: processedCount, total: totalToProcess });
-      }
+  // Applies the confirmed diff atomically as one import batch
+  const handleImport = async () => {
+    setStep("importing");
 
-      // Calculate failed/skipped based on raw data difference
-      // Trades that failed transformTrades are (rawData.length - allTrades.length)
-      // Trades that were duplicates are skippedCount
-      // Trades that failed batch save are in failedCount (from batch response)
+    const result = await saveTradesBatchAction(pendingTrades, {
+      accountId: selectedAccountId,
+      source: dataSource ?? "csv",
+      fileName,
+      mode: importMode,
+      overwrite,
+    });
 
-      const transformFailures = rawData.length - allTrades.length;
-      failedCount += transformFailures;
-    } catch (err) {
-      console.error("Failed import process", err);
-      setError("Erro na importação. Tente novamente.");
-      setStep("mapping");
+    if (!result.success) {
+      console.error("Failed import process", result.error);
+      setError("Erro na importação. Nenhum trade foi salvo. Tente novamente.");
+      setStep("preview");
       return;
     }
 
+    const updated = result.updated ?? 0;
     setImportStats({
       total: rawData.length,
-      success: successCount,
-      failed: failedCount,
-      skipped: skippedCount,
+      success: result.count - updated,
+      updated,
+      // Rows that transformTrades could not read
+      failed: unreadRows,
+      skipped: result.skipped ?? 0,
     });
     setStep("complete");
     if (onImportComplete) onImportComplete();
   };
 
+  const handleProfileSelect = (profileId: string | null) => {
+    setProfileMessage(null);
+    const profile = importProfiles.find((p) => p.id === profileId);
+    if (profile) {
+      applyProfile(profile, false);
+    } else {
+      setActiveProfileId(null);
+      setProfileAutoSelected(false);
+    }
+  };
+
+  const handleProfileSave = async (name: string) => {
+    setIsSavingProfile(true);
+    setProfileMessage(null);
+
+    const result = await saveImportProfileAction({
+      name,
+      headers,
+      mapping,
+      timezone: brokerTimezone,
+      ...formToSettings(profileForm),
+    });
+    setIsSavingProfile(false);
+
+    if (!result.success) {
+      setProfileMessage({ type: "error", text: result.error });
+      return;
+    }
+
+    const saved = result.data;
+    setImportProfiles((prev) => [saved, ...prev.filter((p) => p.id !== saved.id)]);
+    setActiveProfileId(saved.id);
+    setProfileAutoSelected(false);
+    setProfileMessage({ type: "success", text: `Perfil "${saved.name}" salvo.` });
+  };
+
+  const handleProfileDelete = async (profileId: string) => {
+    const result = await deleteImportProfileAction(profileId);
+    if (!result.success) {
+      setProfileMessage({ type: "error", text: result.error || "Erro ao excluir perfil." });
+      return;
+    }
+    setImportProfiles((prev) => prev.filter((p) => p.id !== profileId));
+    setActiveProfileId(null);
+    setProfileAutoSelected(false);
+    setProfileMessage(null);
+  };
+
+  const handleProfileExport = () => {
+    const profile = importProfiles.find((p) => p.id === activeProfileId);
+    if (profile) downloadImportProfiles([profile]);
+  };
+
+  // Shared profiles are saved to the user's list; same-name profiles are overwritten
+  const handleProfileImport = async (file: File) => {
+    setProfileMessage(null);
+    try {
+      const drafts = parseImportProfilesJson(await file.text());
+      const saved: ImportProfile[] = [];
+      for (const draft of drafts) {
+        const result = await saveImportProfileAction(draft);
+        if (!result.success) throw new Error(result.error);
+        saved.push(result.data);
+      }
+
+      const savedIds = new Set(saved.map((p) => p.id));
+      const updated = [...saved, ...importProfiles.filter((p) => !savedIds.has(p.id))];
+      setImportProfiles(updated);
+
+      const matchedProfile = findMatchingProfile(saved, headers);
+      if (matchedProfile) applyProfile(matchedProfile, true);
+
+      setProfileMessage({
+        type: "success",
+        text: `${saved.length} perfil(is) importado(s).`,
+      });
+    } catch (err) {
+      setProfileMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Erro ao importar perfis.",
+      });
+    }
+  };
+
   const renderStepContent = () => {
     switch (step) {
       case "source_selection":
       case "upload":
         return (
-          <ImportStepUpload
-            onSourceSelect={handleSourceSelect}
-            onFileSelect={handleFileSelect}
-            selectedSource={dataSource}
-            error={error}
-          />
+          <>
+            <ImportStepUpload
+              onSourceSelect={handleSourceSelect}
+              onFileSelect={handleFileSelect}
+              selectedSource={dataSource}
+              error={error}
+            />
+            {step === "source_selection" && selectedAccountId && (
+              <ImportBatchHistory accountId={selectedAccountId} onRollback={onImportComplete} />
+            )}
+          </>
         );
 
       case "mapping":
@@ -352,18 +538,58 @@ export const ImportModal: React.FC<ImportModalProps> = ({
             setBrokerTimezone={setBrokerTimezone}
             importMode={importMode}
             setImportMode={setImportMode}
-            onImport={handleImport}
+            canGroupLegs={canGroupLegs}
+            groupLegs={groupLegs}
+            setGroupLegs={setGroupLegs}
+            dateFormat={useProfileParsing ? profileForm.dateFormat : undefined}
+            fileCurrencies={fileCurrencies}
+            fileWarnings={fileWarnings}
+            accountCurrency={accounts.find((a) => a.id === selectedAccountId)?.currency}
+            profilePanel={
+              <ImportProfilePanel
+                key={activeProfileId ?? "none"}
+                profiles={importProfiles}
+                activeProfileId={activeProfileId}
+                autoSelected={profileAutoSelected}
+                onSelect={handleProfileSelect}
+                showFormatOptions={useProfileParsing}
+                form={profileForm}
+                onFormChange={setProfileForm}
+                onSave={handleProfileSave}
+                onDelete={handleProfileDelete}
+                onExport={handleProfileExport}
+                onImportFile={handleProfileImport}
+                isSaving={isSavingProfile}
+                message={profileMessage}
+              />
+            }
+            onImport={handlePreview}
             onCancel={resetState}
           />
         );
 
+      case "preview":
+        return importDiff ? (
+          <ImportStepDiff
+            diff={importDiff}
+            trades={pendingTrades}
+            importMode={importMode}
+            overwrite={overwrite}
+            setOverwrite={setOverwrite}
+            onConfirm={handleImport}
+            onBack={() => {
+              setError(null);
+              setStep("mapping");
+            }}
+          />
+        ) : null;
+
       case "importing":
       case "complete":
         return (
           <ImportStepReview
             status={step === "importing" ? "importing" : "complete"}
             stats={importStats}
-            progress={importProgress}
             onClose={onClose}
           />
         );
@@ -376,6 +602,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({
   // Dynamic title with back button when in upload step with source selected
   const renderTitle = () => {
     if (step === "complete") return "Resultado da Importação";
+    if (step === "preview") return "Revisar Importação";
 
     if (step === "upload" && dataSource) {
       return (
@@ -395,6 +622,11 @@ export const ImportModal: React.FC<ImportModalProps> = ({
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={renderTitle()} maxWidth="4xl">
+      {error && (step === "mapping" || step === "preview") && (
+        <div className="mb-4 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
       {renderStepContent()}
     </Modal>
   );
@@ -0,0 +1,299 @@
+import React from "react";
+import { Download, Save, Trash2, Upload } from "lucide-react";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui";
+import { DEFAULT_DIRECTION_VOCABULARY } from "@/services/trades/importProfiles";
+import type { ImportDecimalSeparator, ImportProfile, ImportProfileSettings } from "@/types";
+
+/**
+ * Editable (text) version of the profile parsing options.
+ * Lists are kept as raw text so typing separators doesn't get reformatted.
+ */
+export interface ImportProfileForm {
+  dateFormat: string;
+  decimalSeparator: ImportDecimalSeparator;
+  /** One "BROKER=JOURNAL" pair per line */
+  symbolMapText: string;
+  /** Comma separated words */
+  longWords: string;
+  shortWords: string;
+}
+
+export const DEFAULT_PROFILE_FORM: ImportProfileForm = {
+  dateFormat: "",
+  decimalSeparator: ".",
+  symbolMapText: "",
+  longWords: DEFAULT_DIRECTION_VOCABULARY.long.join(", "),
+  shortWords: DEFAULT_DIRECTION_VOCABULARY.short.join(", "),
+};
+
+const splitWords = (text: string) =>
+  text
+    .split(",")
+    .map((word) => word.trim())
+    .filter(Boolean);
+
+export const profileToForm = (profile: ImportProfileSettings): ImportProfileForm => ({
+  dateFormat: profile.dateFormat,
+  decimalSeparator: profile.decimalSeparator,
+  symbolMapText: Object.entries(profile.symbolMap)
+    .map(([from, to]) => `${from}=${to}`)
+    .join("\n"),
+  longWords: profile.directionVocabulary.long.join(", "),
+  shortWords: profile.directionVocabulary.short.join(", "),
+});
+
+export const formToSettings = (
+  form: ImportProfileForm
+): Omit<ImportProfileSettings, "mapping" | "timezone"> => {
+  const symbolMap: Record<string, string> = {};
+  for (const line of form.symbolMapText.split("\n")) {
+    const [from, to] = line.split("=").map((part) => part?.trim());
+    if (from && to) symbolMap[from] = to;
+  }
+
+  return {
+    dateFormat: form.dateFormat.trim(),
+    decimalSeparator: form.decimalSeparator,
+    symbolMap,
+    directionVocabulary: {
+      long: splitWords(form.longWords),
+      short: splitWords(form.shortWords),
+    },
+  };
+};
+
+const NO_PROFILE = "__none__";
+
+const fieldClass =
+  "h-10 w-full rounded-lg border border-gray-700 bg-gray-800 px-3 text-sm text-gray-200 placeholder-gray-500 focus:border-cyan-500 focus:ring-cyan-500 focus:outline-none";
+
+const iconButtonClass =
+  "flex h-10 items-center gap-1.5 rounded-lg border border-gray-700 bg-gray-800 px-3 text-xs text-gray-300 transition-colors hover:border-cyan-500/50 hover:text-white disabled:cursor-not-allowed disabled:opacity-40";
+
+interface ImportProfilePanelProps {
+  profiles: ImportProfile[];
+  activeProfileId: string | null;
+  /** True when the active profile was picked by the file's header fingerprint */
+  autoSelected: boolean;
+  onSelect: (profileId: string | null) => void;
+  /** Parsing options are only used for generic CSVs or when a profile is active */
+  showFormatOptions: boolean;
+  form: ImportProfileForm;
+  onFormChange: (form: ImportProfileForm) => void;
+  onSave: (name: string) => Promise<void>;
+  onDelete: (profileId: string) => void;
+  onExport: () => void;
+  onImportFile: (file: File) => void;
+  isSaving: boolean;
+  message: { type: "success" | "error"; text: string } | null;
+}
+
+/**
+ * Import profile selector for the mapping step: pick / save / delete a profile,
+ * share it as JSON and edit its parsing options (date format, decimals, symbols, directions).
+ */
+export const ImportProfilePanel: React.FC<ImportProfilePanelProps> = ({
+  profiles,
+  activeProfileId,
+  autoSelected,
+  onSelect,
+  showFormatOptions,
+  form,
+  onFormChange,
+  onSave,
+  onDelete,
+  onExport,
+  onImportFile,
+  isSaving,
+  message,
+}) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+  // Parent remounts the panel (key) when the active profile changes, resetting the name
+  const [profileName, setProfileName] = React.useState(activeProfile?.name ?? "");
+
+  const updateForm = <K extends keyof ImportProfileForm>(key: K, value: ImportProfileForm[K]) =>
+    onFormChange({ ...form, [key]: value });
+
+  const handleSelect = (value: string) => onSelect(value === NO_PROFILE ? null : value);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportFile(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-800 bg-gray-900 p-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="min-w-[200px] flex-1">
+          <label className="mb-1 block text-xs text-gray-500">Perfil de Importação</label>
+          <Select value={activeProfileId ?? NO_PROFILE} onValueChange={handleSelect}>
+            <SelectTrigger className="flex h-10 w-full items-center justify-between rounded-lg border border-gray-700 bg-gray-800 px-3 text-sm text-white focus:border-cyan-500 focus:ring-cyan-500">
+              <SelectValue placeholder="Nenhum perfil" />
+            </SelectTrigger>
+            <SelectContent className="border-gray-700 bg-gray-800">
+              <SelectItem
+                value={NO_PROFILE}
+                className="cursor-pointer py-2 text-gray-400 hover:bg-gray-700 focus:bg-gray-700"
+              >
+                Nenhum perfil
+              </SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem
+                  key={profile.id}
+                  value={profile.id}
+                  className="cursor-pointer py-2 text-gray-200 hover:bg-gray-700 focus:bg-gray-700"
+                >
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className={iconButtonClass}
+          title="Importar perfis de um arquivo JSON"
+        >
+          <Upload className="h-4 w-4" />
+          Importar
+        </button>
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={!activeProfile}
+          className={iconButtonClass}
+          title="Exportar perfil como JSON"
+        >
+          <Download className="h-4 w-4" />
+          Exportar
+        </button>
+        <button
+          type="button"
+          onClick={() => activeProfile && onDelete(activeProfile.id)}
+          disabled={!activeProfile}
+          className={`${iconButtonClass} hover:border-red-500/50 hover:text-red-400`}
+          title="Excluir perfil"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      {activeProfile && autoSelected && (
+        <p className="text-xs text-cyan-400">
+          Perfil <b>{activeProfile.name}</b> selecionado automaticamente pelo cabeçalho do arquivo.
+        </p>
+      )}
+
+      {showFormatOptions && (
+        <div className="grid grid-cols-1 gap-3 border-t border-gray-800 pt-4 md:grid-cols-2">
+          <div>
+            <label className="mb-1 block text-xs text-gray-500">Formato da Data</label>
+            <input
+              value={form.dateFormat}
+              onChange={(e) => updateForm("dateFormat", e.target.value)}
+              placeholder="Automático (ex.: DD/MM/YYYY HH:mm:ss)"
+              className={fieldClass}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-xs text-gray-500">Separador Decimal</label>
+            <Select
+              value={form.decimalSeparator}
+              onValueChange={(value) =>
+                updateForm("decimalSeparator", value as ImportDecimalSeparator)
+              }
+            >
+              <SelectTrigger className="flex h-10 w-full items-center justify-between rounded-lg border border-gray-700 bg-gray-800 px-3 text-sm text-white focus:border-cyan-500 focus:ring-cyan-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="border-gray-700 bg-gray-800">
+                <SelectItem
+                  value="."
+                  className="cursor-pointer py-2 text-gray-200 hover:bg-gray-700 focus:bg-gray-700"
+                >
+                  Ponto (1,234.56)
+                </SelectItem>
+                <SelectItem
+                  value=","
+                  className="cursor-pointer py-2 text-gray-200 hover:bg-gray-700 focus:bg-gray-700"
+                >
+                  Vírgula (1.234,56)
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="mb-1 block text-xs text-gray-500">Palavras para Compra (Long)</label>
+            <input
+              value={form.longWords}
+              onChange={(e) => updateForm("longWords", e.target.value)}
+              placeholder="buy, compra, C"
+              className={fieldClass}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-xs text-gray-500">Palavras para Venda (Short)</label>
+            <input
+              value={form.shortWords}
+              onChange={(e) => updateForm("shortWords", e.target.value)}
+              placeholder="sell, venda, V"
+              className={fieldClass}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="mb-1 block text-xs text-gray-500">
+              Mapeamento de Ativos (um por linha: CORRETORA=JOURNAL)
+            </label>
+            <textarea
+              value={form.symbolMapText}
+              onChange={(e) => updateForm("symbolMapText", e.target.value)}
+              placeholder={"US100.cash=NQ\nWINZ25=WIN"}
+              rows={3}
+              className="w-full rounded-lg border border-gray-700 bg-gray-800 px-3 py-2 font-mono text-xs text-gray-200 placeholder-gray-500 focus:border-cyan-500 focus:ring-cyan-500 focus:outline-none"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 border-t border-gray-800 pt-4">
+        <input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Nome do perfil (ex.: Clear - Day Trade)"
+          maxLength={100}
+          className={`${fieldClass} flex-1`}
+        />
+        <button
+          type="button"
+          onClick={() => onSave(profileName.trim())}
+          disabled={!profileName.trim() || isSaving}
+          className={iconButtonClass}
+        >
+          <Save className="h-4 w-4" />
+          {activeProfile && activeProfile.name === profileName.trim()
+            ? "Atualizar Perfil"
+            : "Salvar Perfil"}
+        </button>
+      </div>
+
+      {message && (
+        <p
+          className={message.type === "success" ? "text-xs text-green-400" : "text-xs text-red-400"}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React from "react";
+import { Button } from "@/components/ui";
+import { cn } from "@/lib/utils/general";
+import type { ImportDiff, ImportDiffEntry } from "@/services/trades/importDiff";
+import type { ImportSnapshotValue, ImportTrackedField, Trade } from "@/types";
+
+const FIELD_LABELS: Record<ImportTrackedField, string> = {
+  exitDate: "Data Saída",
+  exitTime: "Hora Saída",
+  exitPrice: "Preço Saída",
+  lot: "Lote",
+  pnl: "P&L",
+  commission: "Comissão",
+  swap: "Swap",
+  stopLoss: "Stop Loss",
+  takeProfit: "Take Profit",
+  outcome: "Resultado",
+};
+
+const formatValue = (value: ImportSnapshotValue) => (value === null ? "—" : String(value));
+
+interface ImportStepDiffProps {
+  diff: ImportDiff;
+  trades: Partial<Trade>[];
+  importMode: "append" | "replace";
+  /** Diff indexes of conflicts the user chose to overwrite with the file values */
+  overwrite: number[];
+  setOverwrite: (indexes: number[]) => void;
+  onConfirm: () => void;
+  onBack: () => void;
+}
+
+export const ImportStepDiff: React.FC<ImportStepDiffProps> = ({
+  diff,
+  trades,
+  importMode,
+  overwrite,
+  setOverwrite,
+  onConfirm,
+  onBack,
+}) => {
+  const { counts } = diff;
+  const changed = diff.entries.filter(
+    (entry) => entry.status === "modified" || entry.status === "conflict"
+  );
+  const conflicts = changed.filter((entry) => entry.status === "conflict");
+  const toApply = counts.new + counts.modified + overwrite.length;
+
+  const toggleOverwrite = (index: number) => {
+    setOverwrite(
+      overwrite.includes(index) ? overwrite.filter((i) => i !== index) : [...overwrite, index]
+    );
+  };
+
+  const cards = [
+    { label: "Novos", value: counts.new, className: "text-emerald-400", hint: "serão criados" },
+    {
+      label: "Duplicados",
+      value: counts.duplicate,
+      className: "text-gray-300",
+      hint: "serão ignorados",
+    },
+    {
+      label: "Alterados na corretora",
+      value: counts.modified,
+      className: "text-cyan-400",
+      hint: "serão atualizados",
+    },
+    {
+      label: "Conflitos",
+      value: counts.conflict,
+      className: "text-yellow-400",
+      hint: "editados no diário",
+    },
+  ];
+
+  const renderEntry = (entry: ImportDiffEntry) => {
+    const trade = trades[entry.index];
+    const isConflict = entry.status === "conflict";
+
+    return (
+      <li key={entry.index} className="space-y-1 px-3 py-2">
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-xs text-gray-200">
+            <span className="font-mono text-gray-400">
+              {trade.entryDate} {trade.entryTime?.substring(0, 5)}
+            </span>{" "}
+            <span className="font-bold">{trade.symbol}</span>{" "}
+            <span className={trade.type === "Long" ? "text-emerald-400" : "text-red-400"}>
+              {trade.type}
+            </span>
+          </span>
+          {isConflict ? (
+            <label className="flex cursor-pointer items-center gap-2 text-xs text-yellow-300">
+              <input
+                type="checkbox"
+                checked={overwrite.includes(entry.index)}
+                onChange={() => toggleOverwrite(entry.index)}
+                className="accent-yellow-500"
+              />
+              Usar valores do arquivo
+            </label>
+          ) : (
+            <span className="text-[10px] font-bold tracking-wider text-cyan-400 uppercase">
+              Atualizar
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px]">
+          {entry.changes.map((change) => (
+            <span key={change.field} className="text-gray-400">
+              {FIELD_LABELS[change.field]}:{" "}
+              <span className="font-mono text-gray-300">{formatValue(change.current)}</span>
+              {" → "}
+              <span className="font-mono text-cyan-300">{formatValue(change.incoming)}</span>
+            </span>
+          ))}
+        </div>
+        {isConflict && (
+          <p className="text-[10px] text-gray-500">
+            {entry.editedFields.length > 0
+              ? `Editado no diário: ${entry.editedFields.map((f) => FIELD_LABELS[f]).join(", ")}`
+              : "Trade sem histórico de importação (criado manualmente ou importado antes)"}
+          </p>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {importMode === "replace" && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">
+          Modo Substituir: todos os trades atuais da conta serão apagados antes da importação.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-lg border border-gray-700 bg-gray-800/50 p-3">
+            <span className="block text-[10px] font-bold tracking-wider text-gray-500 uppercase">
+              {card.label}
+            </span>
+            <span className={cn("text-2xl font-bold", card.className)}>{card.value}</span>
+            <span className="block text-[10px] text-gray-500">{card.hint}</span>
+          </div>
+        ))}
+      </div>
+
+      {changed.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-300">Trades existentes com mudanças</h4>
+            {conflicts.length > 0 && (
+              <button
+                onClick={() =>
+                  setOverwrite(
+                    overwrite.length === conflicts.length ? [] : conflicts.map((e) => e.index)
+                  )
+                }
+                className="text-xs text-yellow-400 hover:text-yellow-300"
+              >
+                {overwrite.length === conflicts.length
+                  ? "Manter todas as edições"
+                  : "Usar arquivo em todos os conflitos"}
+              </button>
+            )}
+          </div>
+          <ul className="max-h-72 divide-y divide-gray-800 overflow-y-auto rounded-lg border border-gray-700 bg-black/20">
+            {changed.map(renderEntry)}
+          </ul>
+          <p className="text-xs text-gray-500">
+            Conflitos não marcados mantêm os valores do diário.
+          </p>
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end gap-3 border-t border-gray-800 pt-4">
+        <Button variant="gradient-danger" onClick={onBack} className="font-extrabold">
+          Voltar
+        </Button>
+        <button
+          onClick={onConfirm}
+          disabled={toApply === 0}
+          className="rounded-lg bg-linear-to-r from-cyan-600 to-teal-600 px-6 py-2 text-sm font-medium text-white shadow-lg shadow-cyan-900/20 transition-all hover:from-cyan-500 hover:to-teal-500 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {toApply === 0 ? "Nada para importar" : `Confirmar ${toApply} Trades`}
+        </button>
+      </div>
+    </div>
+  );
+};
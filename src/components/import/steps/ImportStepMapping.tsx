@@ -2,6 +2,7 @@ import React from "react";
 import { ColumnMapper } from "../ColumnMapper";
 import { ColumnMapping, convertToNYTime } from "@/services/trades/importParsers";
 import { RawTradeData, parseTradeDate } from "@/services/trades/import";
+import { parseProfileDate } from "@/services/trades/importProfiles";
 import { cn } from "@/lib/utils/general";
 import dayjs from "dayjs";
 import {
@@ -23,6 +24,19 @@ interface ImportStepMappingProps {
   setBrokerTimezone: (tz: string) => void;
   importMode: "append" | "replace";
   setImportMode: (mode: "append" | "replace") => void;
+  canGroupLegs: boolean;
+  groupLegs: boolean;
+  setGroupLegs: (value: boolean) => void;
+  /** Date format of the active import profile (empty = auto-detect) */
+  dateFormat?: string;
+  /** Import profile selector/editor rendered above the column mapper */
+  profilePanel?: React.ReactNode;
+  /** Currencies reported by the broker file (IBKR, cTrader) */
+  fileCurrencies?: string[];
+  /** Currency of the destination account */
+  accountCurrency?: string;
+  /** Non-fatal notes from the file parser (e.g. executions of positions still open) */
+  fileWarnings?: string[];
   onImport: () => void;
   onCancel: () => void;
 }
@@ -37,9 +51,21 @@ export const ImportStepMapping: React.FC<ImportStepMappingProps> = ({
   setBrokerTimezone,
   importMode,
   setImportMode,
+  canGroupLegs,
+  groupLegs,
+  setGroupLegs,
+  dateFormat,
+  profilePanel,
+  fileCurrencies = [],
+  accountCurrency,
+  fileWarnings = [],
   onImport,
   onCancel,
 }) => {
+  const foreignCurrencies = accountCurrency
+    ? fileCurrencies.filter((currency) => currency !== accountCurrency)
+    : [];
+
   return (
     <div className="space-y-6">
       {/* Import Mode Selection */}
@@ -102,11 +128,49 @@ export const ImportStepMapping: React.FC<ImportStepMappingProps> = ({
           </div>
           <p className="pl-4 text-xs text-gray-500">
             <span className="font-bold text-red-400">⚠️ Apaga tudo</span> da conta selecionada antes
-            de importar.
+            de importar. Não pode ser desfeito.
           </p>
         </button>
       </div>
 
+      {/* Currency Mismatch */}
+      {foreignCurrencies.length > 0 && (
+        <div className="rounded-lg border border-yellow-500/30 bg-yellow-500/5 p-4 text-xs text-yellow-400">
+          ⚠️ O arquivo contém trades em <b>{foreignCurrencies.join(", ")}</b>, mas a conta
+          selecionada é em <b>{accountCurrency}</b>. Os valores serão importados sem conversão.
+        </div>
+      )}
+
+      {/* Parser Warnings */}
+      {fileWarnings.length > 0 && (
+        <ul className="list-inside list-disc space-y-1 rounded-lg border border-yellow-500/30 bg-yellow-500/5 p-4 text-xs text-yellow-400">
+          {fileWarnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {/* Partial Fills Grouping */}
+      {canGroupLegs && (
+        <label className="flex cursor-pointer items-start gap-3 rounded-lg border border-gray-800 bg-gray-900 p-4">
+          <input
+            type="checkbox"
+            checked={groupLegs}
+            onChange={(e) => setGroupLegs(e.target.checked)}
+            className="mt-0.5 h-4 w-4 rounded border-gray-600 bg-gray-800 accent-cyan-500"
+          />
+          <div>
+            <span className="text-sm font-semibold text-gray-300">Agrupar execuções parciais</span>
+            <p className="text-xs text-gray-500">
+              Entradas e saídas parciais da mesma posição viram um único trade com pernas (preço
+              médio ponderado).
+            </p>
+          </div>
+        </label>
+      )}
+
+      {profilePanel}
+
       <div className="overflow-hidden rounded-lg border border-gray-800 bg-gray-900">
         <div className="border-b border-gray-800 bg-gray-800/50 px-4 py-2">
           <h4 className="text-xs font-semibold tracking-wider text-gray-400 uppercase">
@@ -223,7 +287,9 @@ export const ImportStepMapping: React.FC<ImportStepMappingProps> = ({
 
               {(() => {
                 const rawValue = rawData[0][mapping.entryDate];
-                const parsed = parseTradeDate(rawValue);
+                const parsed = dateFormat
+                  ? parseProfileDate(rawValue, dateFormat)
+                  : parseTradeDate(rawValue);
 
                 if (!parsed)
                   return <div className="text-xs text-red-400">Data Inválida ou Não Mapeada</div>;
@@ -276,7 +342,7 @@ export const ImportStepMapping: React.FC<ImportStepMappingProps> = ({
           disabled={!selectedAccountId}
           className="rounded-lg bg-linear-to-r from-cyan-600 to-teal-600 px-6 py-2 text-sm font-medium text-white shadow-lg shadow-cyan-900/20 transition-all hover:from-cyan-500 hover:to-teal-500 disabled:cursor-not-allowed disabled:opacity-50"
         >
-          Importar {rawData.length} Trades
+          Revisar {rawData.length} Trades
         </button>
       </div>
     </div>
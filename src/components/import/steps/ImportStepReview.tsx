@@ -3,6 +3,8 @@ import React from "react";
 interface ImportStats {
   total: number;
   success: number;
+  /** Existing trades updated with the file values */
+  updated?: number;
   failed: number;
   skipped: number;
 }
@@ -74,9 +76,15 @@ export const ImportStepReview: React.FC<ImportStepReviewProps> = ({
           <span className="font-medium text-white">{stats.total}</span>
         </div>
         <div className="flex justify-between text-sm">
-          <span className="text-gray-400">Sucesso:</span>
+          <span className="text-gray-400">Novos:</span>
           <span className="font-medium text-emerald-400">{stats.success}</span>
         </div>
+        {!!stats.updated && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Atualizados:</span>
+            <span className="font-medium text-cyan-400">{stats.updated}</span>
+          </div>
+        )}
         {stats.skipped > 0 && (
           <div className="flex justify-between text-sm">
             <span className="text-gray-400">Duplicados (Pularam):</span>
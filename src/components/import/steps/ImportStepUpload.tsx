@@ -99,6 +99,79 @@ export const ImportStepUpload: React.FC<ImportStepUploadProps> = ({
             <h4 className="mb-2 text-lg font-semibold text-white">Tradovate</h4>
             <p className="text-center text-sm text-gray-400">Arquivo CSV ou PDF de Performance.</p>
           </button>
+          {/* Interactive Brokers Option */}
+          <button
+            onClick={() => onSourceSelect("ibkr")}
+            className="hover:bg-gray-750 group flex flex-col items-center justify-center rounded-xl border border-gray-700 bg-gray-800 p-8 transition-all hover:border-red-500/50"
+          >
+            <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-red-500/10 transition-transform group-hover:scale-110">
+              <svg
+                className="h-8 w-8 text-red-500"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 14v3m4-3v3m4-3v3M3 21h18M3 10h18M3 7l9-4 9 4M4 10h16v11H4V10z"
+                />
+              </svg>
+            </div>
+            <h4 className="mb-2 text-lg font-semibold text-white">Interactive Brokers</h4>
+            <p className="text-center text-sm text-gray-400">Flex Query de Trades em XML ou CSV.</p>
+          </button>
+          {/* cTrader Option */}
+          <button
+            onClick={() => onSourceSelect("ctrader")}
+            className="hover:bg-gray-750 group flex flex-col items-center justify-center rounded-xl border border-gray-700 bg-gray-800 p-8 transition-all hover:border-teal-500/50"
+          >
+            <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-teal-500/10 transition-transform group-hover:scale-110">
+              <svg
+                className="h-8 w-8 text-teal-500"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z"
+                />
+              </svg>
+            </div>
+            <h4 className="mb-2 text-lg font-semibold text-white">cTrader</h4>
+            <p className="text-center text-sm text-gray-400">
+              Arquivo CSV do histórico de posições.
+            </p>
+          </button>
+          {/* Generic CSV Option */}
+          <button
+            onClick={() => onSourceSelect("csv")}
+            className="hover:bg-gray-750 group flex flex-col items-center justify-center rounded-xl border border-gray-700 bg-gray-800 p-8 transition-all hover:border-violet-500/50"
+          >
+            <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-violet-500/10 transition-transform group-hover:scale-110">
+              <svg
+                className="h-8 w-8 text-violet-500"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"
+                />
+              </svg>
+            </div>
+            <h4 className="mb-2 text-lg font-semibold text-white">CSV Genérico</h4>
+            <p className="text-center text-sm text-gray-400">
+              Qualquer corretora, com perfis de importação salvos.
+            </p>
+          </button>
         </div>
 
         {/* API Option (Disabled) */}
@@ -190,6 +263,10 @@ export const ImportStepUpload: React.FC<ImportStepUploadProps> = ({
               Salve como arquivo <span className="font-medium text-orange-300">.csv</span>
             </li>
           </ol>
+          <p className="mt-2 text-xs text-gray-500">
+            A exportação da aba <span className="text-orange-300">Executions</span> também é aceita
+            — as execuções são pareadas em trades fechados (FIFO).
+          </p>
         </div>
 
         {/* Upload Area */}
@@ -324,6 +401,10 @@ export const ImportStepUpload: React.FC<ImportStepUploadProps> = ({
               <span className="font-medium text-blue-300">Download PDF</span>
             </li>
           </ol>
+          <p className="mt-2 text-xs text-gray-500">
+            Exportações de <span className="text-blue-300">Fills</span> (execuções individuais)
+            também são aceitas — as execuções são pareadas em trades fechados (FIFO).
+          </p>
         </div>
 
         {/* Upload Area */}
@@ -409,6 +490,409 @@ export const ImportStepUpload: React.FC<ImportStepUploadProps> = ({
     );
   }
 
+  // Generic CSV Upload UI
+  if (selectedSource === "csv") {
+    const handleCsvFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) {
+        setFileName(file.name);
+        onFileSelect(e, "csv");
+      }
+    };
+
+    const handleCsvClearFile = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      setFileName(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    };
+
+    const handleCsvChooseFileClick = () => {
+      fileInputRef.current?.click();
+    };
+
+    return (
+      <div className="space-y-6">
+        {/* Instructions Box */}
+        <div className="rounded-lg border border-violet-500/20 bg-violet-500/5 p-4">
+          <h4 className="mb-2 flex items-center gap-2 text-sm font-semibold text-violet-400">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+            Como funciona o CSV Genérico
+          </h4>
+          <ol className="list-inside list-decimal space-y-1 text-xs text-gray-400">
+            <li>
+              Exporte o histórico da sua corretora em{" "}
+              <span className="font-medium text-violet-300">.csv</span> com linha de cabeçalho
+            </li>
+            <li>Na próxima etapa, associe as colunas e ajuste data, decimais e ativos</li>
+            <li>
+              Salve como <span className="font-medium text-violet-300">Perfil de Importação</span> —
+              ele será selecionado automaticamente nos próximos uploads
+            </li>
+          </ol>
+        </div>
+
+        {/* Upload Area */}
+        <div className="group flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-700 bg-gray-900/50 p-8 transition-all duration-300 hover:border-violet-500/50 hover:bg-gray-800/50">
+          <div className="mb-4 rounded-full bg-violet-500/10 p-4 transition-transform duration-300 group-hover:scale-110">
+            <svg
+              className="h-10 w-10 text-violet-500"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+              />
+            </svg>
+          </div>
+          <p className="mb-2 font-medium text-gray-200">Arraste e solte ou clique para enviar</p>
+          <p className="mb-6 text-sm text-gray-500">
+            Arquivos <span className="font-medium text-violet-400">.csv</span> de qualquer corretora
+          </p>
+
+          <div className="flex w-full max-w-md flex-col items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv"
+              onChange={handleCsvFileChange}
+              className="hidden"
+            />
+
+            {!fileName ? (
+              <button
+                onClick={handleCsvChooseFileClick}
+                className="rounded-lg bg-violet-600 px-6 py-2.5 font-semibold text-white transition-colors hover:bg-violet-500"
+              >
+                Escolher Arquivo
+              </button>
+            ) : (
+              <div className="group/file flex w-full items-center justify-between gap-2 rounded-lg border border-gray-700 bg-gray-800 px-4 py-2">
+                <div className="flex items-center gap-2 overflow-hidden">
+                  <svg
+                    className="h-5 w-5 min-w-[20px] text-violet-500"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                  <span className="truncate text-sm text-gray-300">{fileName}</span>
+                </div>
+                <button
+                  onClick={handleCsvClearFile}
+                  className="rounded p-1 text-gray-500 transition-colors hover:bg-gray-700 hover:text-red-400"
+                  title="Remover arquivo"
+                >
+                  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <p className="mt-4 rounded bg-red-500/10 px-3 py-1 text-sm text-red-500">{error}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Interactive Brokers Upload UI
+  if (selectedSource === "ibkr") {
+    const handleIbkrFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) {
+        setFileName(file.name);
+        onFileSelect(e, "ibkr");
+      }
+    };
+
+    const handleIbkrClearFile = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      setFileName(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    };
+
+    const handleIbkrChooseFileClick = () => {
+      fileInputRef.current?.click();
+    };
+
+    return (
+      <div className="space-y-6">
+        {/* Instructions Box */}
+        <div className="rounded-lg border border-red-500/20 bg-red-500/5 p-4">
+          <h4 className="mb-2 flex items-center gap-2 text-sm font-semibold text-red-400">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+            Como exportar do Interactive Brokers
+          </h4>
+          <ol className="list-inside list-decimal space-y-1 text-xs text-gray-400">
+            <li>
+              No Portal do Cliente, abra{" "}
+              <span className="font-medium text-red-300">
+                Performance &amp; Reports → Flex Queries
+              </span>
+            </li>
+            <li>
+              Crie uma <span className="font-medium text-red-300">Activity Flex Query</span> com a
+              seção <span className="font-medium text-red-300">Trades</span> no nível Execution
+            </li>
+            <li>
+              Execute a consulta e salve em <span className="font-medium text-red-300">XML</span> ou{" "}
+              <span className="font-medium text-red-300">CSV</span>
+            </li>
+          </ol>
+        </div>
+
+        {/* Upload Area */}
+        <div className="group flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-700 bg-gray-900/50 p-8 transition-all duration-300 hover:border-red-500/50 hover:bg-gray-800/50">
+          <div className="mb-4 rounded-full bg-red-500/10 p-4 transition-transform duration-300 group-hover:scale-110">
+            <svg
+              className="h-10 w-10 text-red-500"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+              />
+            </svg>
+          </div>
+          <p className="mb-2 font-medium text-gray-200">Arraste e solte ou clique para enviar</p>
+          <p className="mb-6 text-sm text-gray-500">
+            Arquivos <span className="font-medium text-red-400">.xml</span> ou{" "}
+            <span className="font-medium text-red-400">.csv</span> do Flex Query
+          </p>
+
+          <div className="flex w-full max-w-md flex-col items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xml,.csv"
+              onChange={handleIbkrFileChange}
+              className="hidden"
+            />
+
+            {!fileName ? (
+              <button
+                onClick={handleIbkrChooseFileClick}
+                className="rounded-lg bg-red-600 px-6 py-2.5 font-semibold text-white transition-colors hover:bg-red-500"
+              >
+                Escolher Arquivo
+              </button>
+            ) : (
+              <div className="group/file flex w-full items-center justify-between gap-2 rounded-lg border border-gray-700 bg-gray-800 px-4 py-2">
+                <div className="flex items-center gap-2 overflow-hidden">
+                  <svg
+                    className="h-5 w-5 min-w-[20px] text-red-500"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                  <span className="truncate text-sm text-gray-300">{fileName}</span>
+                </div>
+                <button
+                  onClick={handleIbkrClearFile}
+                  className="rounded p-1 text-gray-500 transition-colors hover:bg-gray-700 hover:text-red-400"
+                  title="Remover arquivo"
+                >
+                  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <p className="mt-4 rounded bg-red-500/10 px-3 py-1 text-sm text-red-500">{error}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // cTrader Upload UI
+  if (selectedSource === "ctrader") {
+    const handleCTraderFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) {
+        setFileName(file.name);
+        onFileSelect(e, "ctrader");
+      }
+    };
+
+    const handleCTraderClearFile = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      setFileName(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    };
+
+    const handleCTraderChooseFileClick = () => {
+      fileInputRef.current?.click();
+    };
+
+    return (
+      <div className="space-y-6">
+        {/* Instructions Box */}
+        <div className="rounded-lg border border-teal-500/20 bg-teal-500/5 p-4">
+          <h4 className="mb-2 flex items-center gap-2 text-sm font-semibold text-teal-400">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+            Como exportar do cTrader
+          </h4>
+          <ol className="list-inside list-decimal space-y-1 text-xs text-gray-400">
+            <li>
+              Abra a aba <span className="font-medium text-teal-300">History</span> no painel
+              inferior do cTrader
+            </li>
+            <li>Escolha o período desejado</li>
+            <li>
+              Clique com o botão direito →{" "}
+              <span className="font-medium text-teal-300">Export to CSV</span>
+            </li>
+          </ol>
+        </div>
+
+        {/* Upload Area */}
+        <div className="group flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-700 bg-gray-900/50 p-8 transition-all duration-300 hover:border-teal-500/50 hover:bg-gray-800/50">
+          <div className="mb-4 rounded-full bg-teal-500/10 p-4 transition-transform duration-300 group-hover:scale-110">
+            <svg
+              className="h-10 w-10 text-teal-500"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+              />
+            </svg>
+          </div>
+          <p className="mb-2 font-medium text-gray-200">Arraste e solte ou clique para enviar</p>
+          <p className="mb-6 text-sm text-gray-500">
+            Apenas arquivos <span className="font-medium text-teal-400">.csv</span> do histórico do
+            cTrader
+          </p>
+
+          <div className="flex w-full max-w-md flex-col items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv"
+              onChange={handleCTraderFileChange}
+              className="hidden"
+            />
+
+            {!fileName ? (
+              <button
+                onClick={handleCTraderChooseFileClick}
+                className="rounded-lg bg-teal-600 px-6 py-2.5 font-semibold text-white transition-colors hover:bg-teal-500"
+              >
+                Escolher Arquivo
+              </button>
+            ) : (
+              <div className="group/file flex w-full items-center justify-between gap-2 rounded-lg border border-gray-700 bg-gray-800 px-4 py-2">
+                <div className="flex items-center gap-2 overflow-hidden">
+                  <svg
+                    className="h-5 w-5 min-w-[20px] text-teal-500"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                  <span className="truncate text-sm text-gray-300">{fileName}</span>
+                </div>
+                <button
+                  onClick={handleCTraderClearFile}
+                  className="rounded p-1 text-gray-500 transition-colors hover:bg-gray-700 hover:text-red-400"
+                  title="Remover arquivo"
+                >
+                  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <p className="mt-4 rounded bg-red-500/10 px-3 py-1 text-sm text-red-500">{error}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // MetaTrader Upload UI Logic
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
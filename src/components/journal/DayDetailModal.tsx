@@ -7,6 +7,7 @@ import { useJournalStore } from "@/store/useJournalStore";
 import { useToast } from "@/providers/ToastProvider";
 import { JournalEntryModal } from "@/components/journal/JournalEntryModal";
 import { DailyHabitsRow, DayStatsCards, DayTradesTable } from "@/components/journal/day-detail";
+import { useTradeNews } from "@/hooks/useTradeNews";
 import dayjs from "dayjs";
 import "dayjs/locale/pt-br";
 import { getMyMentorsAction as getMyMentors } from "@/app/actions/mentor";
@@ -49,6 +50,7 @@ export function DayDetailModal({
   } = useJournalStore();
 
   const { showToast } = useToast();
+  const { newsByTradeId } = useTradeNews(trades);
 
   const [selectedTradeForJournal, setSelectedTradeForJournal] = useState<Trade | null>(null);
   const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
@@ -250,6 +252,7 @@ export function DayDetailModal({
             onNewEntry={handleStandaloneEntryClick}
             hasMentor={hasMentor}
             reviewsMap={reviewsMap}
+            newsByTradeId={newsByTradeId}
           />
         </div>
       </Modal>
@@ -9,6 +9,9 @@ vi.mock("@/store/useJournalStore");
 vi.mock("@/providers/ToastProvider", () => ({
   useToast: () => ({ showToast: vi.fn() }),
 }));
+vi.mock("@/hooks/useTradeNews", () => ({
+  useTradeNews: () => ({ newsByTradeId: {} }),
+}));
 
 // Mock child component to verify props
 vi.mock("@/components/journal/JournalEntryModal", () => ({
@@ -5,6 +5,8 @@ import type { Trade, JournalEntry } from "@/types";
 import { Button, GlassCard, IconActionButton, AssetBadge } from "@/components/ui";
 import { formatCurrency } from "@/lib/utils/trading";
 import { getCachedImageUrl } from "@/lib/utils/general";
+import { TradeNewsBadge } from "@/components/news/TradeNewsBadge";
+import type { TradeNewsEvent } from "@/services/analytics/news";
 import dayjs from "dayjs";
 
 /**
@@ -51,6 +53,8 @@ interface DayTradesTableProps {
   reviewsMap?: Record<string, { hasUnread: boolean; count: number }>;
   /** Read-only mode - hides action buttons (for mentor view) */
   readOnly?: boolean;
+  /** Economic events around each trade entry, keyed by trade id */
+  newsByTradeId?: Record<string, TradeNewsEvent[]>;
 }
 
 /**
@@ -75,6 +79,7 @@ const DayTradesTableComponent = ({
   hasMentor = false,
   reviewsMap = {},
   readOnly = false,
+  newsByTradeId = {},
 }: DayTradesTableProps) => {
   // Scroll hint disappears after 3 seconds
   const [showScrollHint, setShowScrollHint] = useState(true);
@@ -327,8 +332,9 @@ const DayTradesTableComponent = ({
                     </span>
                   </td>
                   <td className="px-4 py-3 text-center font-medium whitespace-nowrap text-gray-300">
-                    <div className="flex justify-center">
+                    <div className="flex items-center justify-center gap-1.5">
                       <AssetBadge symbol={trade.symbol} size="sm" />
+                      <TradeNewsBadge events={newsByTradeId[trade.id]} />
                     </div>
                   </td>
                   <td className="px-4 py-3 text-center whitespace-nowrap text-gray-400">
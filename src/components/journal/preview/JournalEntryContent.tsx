@@ -4,9 +4,13 @@ import { formatCurrency } from "@/lib/utils/trading";
 import type { Trade, JournalEntry } from "@/types";
 import { useAuth } from "@/hooks/useAuth";
 import { getReviewsForJournalEntryAction, markReviewAsReadAction } from "@/app/actions/reviews";
-import type { MentorReview } from "@/types";
+import type { ImageAnnotation, MentorReview } from "@/types";
 import { getCachedImageUrl } from "@/lib/utils/general";
 import { ImagePreviewLightbox, type ImageItem } from "@/components/shared/ImagePreviewLightbox";
+import { ReviewThread } from "@/components/mentor/ReviewThread";
+import { ImageAnnotationLinks } from "@/components/mentor/ImageAnnotationLinks";
+import { useImageAnnotations, useReviewThreads } from "@/hooks/useReviewData";
+import { numberAnnotations } from "@/services/mentor/imageAnnotations";
 import dayjs from "dayjs";
 
 // Extended interface for Optimistic UI
@@ -19,17 +23,21 @@ interface JournalEntryContentProps {
   entry: JournalEntry | ExtendedJournalEntry;
   linkedTrades?: Trade[];
   showComments?: boolean;
+  /** Shows a button to annotate each image (mentor review) */
+  onAnnotateImage?: (imageId: string) => void;
 }
 
 export function JournalEntryContent({
   entry,
   linkedTrades = [],
   showComments = false,
+  onAnnotateImage,
 }: JournalEntryContentProps) {
   const { user } = useAuth();
 
   // Lightbox State
   const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [focusedAnnotationId, setFocusedAnnotationId] = useState<string>();
 
   const isPending = (entry as ExtendedJournalEntry)._isPending;
   const optimisticImages = (entry as ExtendedJournalEntry)._optimisticImages;
@@ -62,6 +70,21 @@ export function JournalEntryContent({
     }
   }, [showComments, entry.id, user, isPending]);
 
+  const { repliesByReview, mentionHandles, refetch } = useReviewThreads(
+    reviews.map((r) => r.id),
+    showComments ? entry.userId : undefined
+  );
+
+  const { data: annotations = [] } = useImageAnnotations(entry.id, !isPending);
+  const annotationNumbers = numberAnnotations(annotations);
+
+  const handleThreadChange = (updated?: MentorReview) => {
+    if (updated) {
+      setReviews((prev) => prev.map((r) => (r.id === updated.id ? { ...r, ...updated } : r)));
+    }
+    refetch();
+  };
+
   // Group reviews
   const corrections = reviews.filter((r) => r.reviewType === "correction");
   const suggestions = reviews.filter((r) => r.reviewType === "suggestion");
@@ -81,6 +104,8 @@ export function JournalEntryContent({
 
   // Parse images and ensure all URLs are complete
   const images: Record<string, string[]> = {};
+  // Ids of the server images, to attach their annotations
+  const imageIds: Record<string, string[]> = {};
 
   if (optimisticImages) {
     // OPTIMISTIC PREVIEW: Use local base64 images
@@ -90,31 +115,70 @@ export function JournalEntryContent({
     const sortedImages = [...entry.images].sort((a, b) => a.displayOrder - b.displayOrder);
     sortedImages.forEach((img) => {
       if (!images[img.timeframe]) images[img.timeframe] = [];
+      if (!imageIds[img.timeframe]) imageIds[img.timeframe] = [];
       // Ensure URL is complete with Supabase storage base and cache buster
       images[img.timeframe].push(getCachedImageUrl(img.url));
+      imageIds[img.timeframe].push(img.id);
     });
   }
 
   // Flatten images for lightbox
   // We need to keep track of the original structure to map clicks correctly,
   // but for the lightbox we just need a flat list of ImageItems
-  const allImagesFlat: (ImageItem & { key: string; index: number })[] = timeframes.flatMap((tf) => {
-    const imgs = (images[tf.key] || []) as string[];
-    return imgs.map((url, idx) => ({
-      url,
-      label: tf.label,
-      key: tf.key, // helper to identify image source
-      index: idx, // helper to identify image index within timeframe
-    }));
-  });
+  const allImagesFlat: (ImageItem & { key: string; index: number; id?: string })[] =
+    timeframes.flatMap((tf) => {
+      const imgs = (images[tf.key] || []) as string[];
+      return imgs.map((url, idx) => {
+        const id = imageIds[tf.key]?.[idx];
+        return {
+          url,
+          label: tf.label,
+          key: tf.key, // helper to identify image source
+          index: idx, // helper to identify image index within timeframe
+          id,
+          annotations: annotations.filter((a) => a.imageId === id),
+        };
+      });
+    });
+
+  const imageLabels = Object.fromEntries(
+    allImagesFlat.filter((img) => img.id).map((img) => [img.id, img.label])
+  );
 
   const handleImageClick = (key: string, index: number) => {
     const flatIndex = allImagesFlat.findIndex((img) => img.key === key && img.index === index);
     if (flatIndex !== -1) {
+      setFocusedAnnotationId(undefined);
+      setLightboxIndex(flatIndex);
+    }
+  };
+
+  const openAnnotation = (annotation: ImageAnnotation) => {
+    const flatIndex = allImagesFlat.findIndex((img) => img.id === annotation.imageId);
+    if (flatIndex !== -1) {
+      setFocusedAnnotationId(annotation.id);
       setLightboxIndex(flatIndex);
     }
   };
 
+  const renderThread = (review: MentorReview) => (
+    <>
+      <ImageAnnotationLinks
+        annotations={annotations.filter((a) => a.reviewId === review.id)}
+        numbers={annotationNumbers}
+        imageLabels={imageLabels}
+        onOpen={openAnnotation}
+      />
+      <ReviewThread
+        review={review}
+        replies={repliesByReview[review.id] || []}
+        currentUserId={user?.id}
+        mentionHandles={mentionHandles}
+        onChange={handleThreadChange}
+      />
+    </>
+  );
+
   // Parse notes for Left Side (User Self-Review)
   const parsedNotes = entry.notes ? JSON.parse(entry.notes) : {};
 
@@ -201,6 +265,10 @@ export function JournalEntryContent({
           <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
             {timeframes.map((tf) => {
               const tfImages = images[tf.key] || [];
+              const tfImageIds = imageIds[tf.key] || [];
+              const tfAnnotationCount = annotations.filter((a) =>
+                tfImageIds.includes(a.imageId)
+              ).length;
               return (
                 <GlassCard
                   key={tf.key}
@@ -208,7 +276,17 @@ export function JournalEntryContent({
                 >
                   <div className="absolute top-2 left-2 z-10 rounded bg-black/60 px-2 py-0.5 text-[10px] font-medium text-cyan-400">
                     {tf.label} {tfImages.length > 1 && `(${tfImages.length})`}
+                    {tfAnnotationCount > 0 && ` · 📌 ${tfAnnotationCount}`}
                   </div>
+                  {onAnnotateImage && tfImageIds[0] && (
+                    <button
+                      onClick={() => onAnnotateImage(tfImageIds[0])}
+                      className="absolute top-2 right-2 z-10 rounded bg-black/60 px-1.5 py-0.5 text-xs hover:bg-black/80"
+                      title="Anotar imagem"
+                    >
+                      🖍️
+                    </button>
+                  )}
                   {tfImages.length > 0 ? (
                     /* eslint-disable-next-line @next/next/no-img-element */
                     <img
@@ -330,6 +408,7 @@ export function JournalEntryContent({
                                 {new Date(review.createdAt).toLocaleDateString()}
                               </div>
                               {review.content}
+                              {renderThread(review)}
                             </div>
                           ))
                         ) : (
@@ -354,6 +433,7 @@ export function JournalEntryContent({
                                 {new Date(review.createdAt).toLocaleDateString()}
                               </div>
                               {review.content}
+                              {renderThread(review)}
                             </div>
                           ))
                         ) : (
@@ -378,6 +458,7 @@ export function JournalEntryContent({
                                 {new Date(review.createdAt).toLocaleDateString()}
                               </div>
                               {review.content}
+                              {renderThread(review)}
                             </div>
                           ))
                         ) : (
@@ -406,6 +487,7 @@ export function JournalEntryContent({
           currentIndex={lightboxIndex}
           onClose={() => setLightboxIndex(null)}
           onNavigate={setLightboxIndex}
+          focusedAnnotationId={focusedAnnotationId}
         />
       )}
     </>
@@ -0,0 +1,272 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Cell,
+} from "recharts";
+import { SegmentedToggle } from "@/components/ui";
+import { useCohortAnalytics } from "@/hooks/useMentorData";
+import {
+  COHORT_METRIC_LABELS,
+  COHORT_PERIODS,
+  R_BUCKETS,
+  type CohortMetricKey,
+  type CohortMetrics,
+  type CohortPeriodDays,
+  type MenteeCohortRow,
+} from "@/services/mentor/cohortAnalytics";
+
+const PERIOD_OPTIONS = COHORT_PERIODS.map((days) => ({
+  value: String(days),
+  label: `${days} dias`,
+}));
+
+const METRIC_KEYS = Object.keys(COHORT_METRIC_LABELS) as CohortMetricKey[];
+
+const formatMetric = (key: CohortMetricKey, value: number | null) => {
+  if (value === null) return "—";
+  if (key === "expectancyR") return `${value > 0 ? "+" : ""}${value.toFixed(2)}R`;
+  return `${value}%`;
+};
+
+function MetricCell({ row, metric }: { row: MenteeCohortRow; metric: CohortMetricKey }) {
+  const now = row.current[metric];
+  const before = row.previous[metric];
+  const delta = now !== null && before !== null ? now - before : null;
+  const worse = row.deteriorating.includes(metric);
+
+  return (
+    <td className="px-3 py-2 text-right whitespace-nowrap">
+      <span className={worse ? "font-semibold text-red-400" : "text-gray-200"}>
+        {formatMetric(metric, now)}
+      </span>
+      {delta !== null && delta !== 0 && (
+        <span className={`ml-1 text-[10px] ${delta > 0 ? "text-emerald-400" : "text-red-400"}`}>
+          {delta > 0 ? "▲" : "▼"}
+          {metric === "expectancyR" ? Math.abs(delta).toFixed(2) : Math.abs(delta)}
+        </span>
+      )}
+    </td>
+  );
+}
+
+function RDistribution({ metrics }: { metrics: CohortMetrics }) {
+  const max = Math.max(...metrics.rDistribution, 1);
+
+  return (
+    <div className="flex h-6 items-end gap-0.5">
+      {metrics.rDistribution.map((count, index) => (
+        <div
+          key={R_BUCKETS[index].label}
+          title={`${R_BUCKETS[index].label}: ${count} trades`}
+          className={`w-2 rounded-sm ${R_BUCKETS[index].max <= 0 ? "bg-red-500/70" : "bg-emerald-500/70"}`}
+          style={{ height: `${Math.max((count / max) * 100, 4)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface CohortAnalyticsProps {
+  /** Opens the mentee's calendar at the month of the given date */
+  onOpenCalendar: (menteeId: string, date: string) => void;
+}
+
+/**
+ * Compares the mentees over a period, flagging who got worse than in the
+ * period before. Clicking a bar opens the mentee's calendar.
+ */
+export function CohortAnalytics({ onOpenCalendar }: CohortAnalyticsProps) {
+  const [periodDays, setPeriodDays] = useState<CohortPeriodDays>(30);
+  const [metric, setMetric] = useState<CohortMetricKey>("expectancyR");
+  const { data: analytics, isLoading } = useCohortAnalytics(periodDays);
+
+  const rows = analytics?.mentees || [];
+  const chartData = rows
+    .filter((row) => row.current[metric] !== null)
+    .map((row) => ({
+      menteeId: row.menteeId,
+      name: row.menteeName,
+      value: row.current[metric]!,
+      previous: row.previous[metric],
+      deteriorating: row.deteriorating.includes(metric),
+      date: row.lastTradeDate || analytics!.current.to,
+    }));
+  const deterioratingCount = rows.filter((row) => row.deteriorating.length > 0).length;
+
+  const openCalendar = (row: MenteeCohortRow) =>
+    onOpenCalendar(row.menteeId, row.lastTradeDate || analytics!.current.to);
+
+  return (
+    <div className="mt-8 overflow-hidden rounded-2xl border border-gray-800 bg-gray-900/50 p-6 backdrop-blur-sm">
+      <div className="mb-4 flex flex-col justify-between gap-3 md:flex-row md:items-center">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-bold text-gray-100">
+            <span>📊</span> Comparação entre mentorados
+            {deterioratingCount > 0 && (
+              <span className="rounded-full bg-red-500/20 px-2 py-0.5 text-xs text-red-300">
+                {deterioratingCount} piorando
+              </span>
+            )}
+          </h2>
+          <p className="text-xs text-gray-500">
+            Métricas do período contra o período anterior de mesma duração. Clique em uma barra para
+            abrir o calendário do mentorado.
+          </p>
+        </div>
+        <SegmentedToggle
+          value={String(periodDays)}
+          onChange={(value) => setPeriodDays(Number(value) as CohortPeriodDays)}
+          options={PERIOD_OPTIONS}
+          size="sm"
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="animate-pulse py-6 text-center text-sm text-cyan-400">
+          Carregando comparação...
+        </p>
+      ) : rows.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">Nenhum mentorado ativo.</p>
+      ) : (
+        <>
+          <div className="mb-3 flex flex-wrap gap-1">
+            {METRIC_KEYS.map((key) => (
+              <button
+                key={key}
+                onClick={() => setMetric(key)}
+                className={`rounded-lg px-3 py-1 text-xs transition-colors ${
+                  metric === key
+                    ? "bg-cyan-500/20 text-cyan-300"
+                    : "text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+                }`}
+              >
+                {COHORT_METRIC_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          <div className="mb-6 h-56 w-full">
+            {chartData.length === 0 ? (
+              <p className="py-16 text-center text-sm text-gray-500">
+                Sem dados de {COHORT_METRIC_LABELS[metric].toLowerCase()} no período.
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                  <XAxis
+                    dataKey="name"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: "#9ca3af", fontSize: 11 }}
+                  />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: "#6b7280", fontSize: 11 }}
+                    domain={metric === "expectancyR" ? ["auto", "auto"] : [0, 100]}
+                  />
+                  <Tooltip
+                    cursor={{ fill: "#1f2937", opacity: 0.4 }}
+                    content={({ active, payload }) => {
+                      if (active && payload && payload.length) {
+                        const data = payload[0].payload;
+                        return (
+                          <div className="rounded-lg border border-gray-700 bg-gray-800 p-3 shadow-xl">
+                            <p className="mb-1 text-sm font-semibold text-gray-200">{data.name}</p>
+                            <p className="text-sm text-gray-300">
+                              {COHORT_METRIC_LABELS[metric]}: {formatMetric(metric, data.value)}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Período anterior: {formatMetric(metric, data.previous)}
+                            </p>
+                            {data.deteriorating && (
+                              <p className="mt-1 text-xs text-red-400">⚠️ Piorando</p>
+                            )}
+                          </div>
+                        );
+                      }
+                      return null;
+                    }}
+                  />
+                  <ReferenceLine y={0} stroke="#4b5563" />
+                  <Bar dataKey="value" radius={[4, 4, 0, 0]}>
+                    {chartData.map((entry) => (
+                      <Cell
+                        key={entry.menteeId}
+                        fill={entry.deteriorating ? "#ef4444" : "#22d3ee"}
+                        fillOpacity={0.9}
+                        cursor="pointer"
+                        onClick={() => onOpenCalendar(entry.menteeId, entry.date)}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-800 text-left text-xs text-gray-500">
+                  <th className="px-3 py-2">Mentorado</th>
+                  <th className="px-3 py-2 text-right">Trades</th>
+                  <th className="px-3 py-2 text-right">Win rate</th>
+                  {METRIC_KEYS.map((key) => (
+                    <th key={key} className="px-3 py-2 text-right">
+                      {COHORT_METRIC_LABELS[key]}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2">Distribuição R</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.menteeId}
+                    onClick={() => openCalendar(row)}
+                    className="cursor-pointer border-b border-gray-800/50 hover:bg-gray-800/40"
+                  >
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-200">
+                      {row.menteeName}
+                      {row.deteriorating.length > 0 && (
+                        <span
+                          className="ml-2 rounded bg-red-500/20 px-1.5 py-0.5 text-[10px] text-red-300"
+                          title={row.deteriorating
+                            .map((key) => COHORT_METRIC_LABELS[key])
+                            .join(", ")}
+                        >
+                          ⚠️ Piorando
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-300">{row.current.tradeCount}</td>
+                    <td className="px-3 py-2 text-right text-gray-300">
+                      {row.current.winRate === null ? "—" : `${row.current.winRate}%`}
+                    </td>
+                    {METRIC_KEYS.map((key) => (
+                      <MetricCell key={key} row={row} metric={key} />
+                    ))}
+                    <td className="px-3 py-2">
+                      <RDistribution metrics={row.current} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
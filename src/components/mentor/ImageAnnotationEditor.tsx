@@ -0,0 +1,379 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Modal, Button, SegmentedToggle } from "@/components/ui";
+import { useToast } from "@/providers/ToastProvider";
+import { ImageAnnotationLayer } from "@/components/shared/ImageAnnotationLayer";
+import {
+  createImageAnnotationAction,
+  deleteImageAnnotationAction,
+  updateImageAnnotationAction,
+} from "@/app/actions/reviews";
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_TOOL_LABELS,
+  DEFAULT_ANNOTATION_COLOR,
+  MAX_ANNOTATION_TEXT_LENGTH,
+  numberAnnotations,
+  sanitizeAnnotationShape,
+} from "@/services/mentor/imageAnnotations";
+import { REVIEW_TYPE_LABELS } from "@/services/mentor/reviewThreads";
+import type {
+  AnnotationPoint,
+  ImageAnnotation,
+  ImageAnnotationKind,
+  ImageAnnotationShape,
+  MentorReview,
+} from "@/types";
+
+export interface AnnotatableImage {
+  id: string;
+  url: string;
+  label: string;
+}
+
+interface ImageAnnotationEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  images: AnnotatableImage[];
+  initialImageId: string;
+  annotations: ImageAnnotation[];
+  /** Reviews of the entry an annotation can be tied to */
+  reviews: MentorReview[];
+  currentUserId?: string;
+  onChange: () => void;
+}
+
+const TOOL_OPTIONS = (Object.keys(ANNOTATION_TOOL_LABELS) as ImageAnnotationKind[]).map((kind) => ({
+  value: kind,
+  label: ANNOTATION_TOOL_LABELS[kind],
+}));
+
+const DRAFT_ID = "draft";
+
+/**
+ * Draws arrows, boxes, price lines, freehand strokes and text pins over the
+ * images of a mentee's journal entry, each with an optional comment tied to
+ * one of the mentor's reviews.
+ */
+export function ImageAnnotationEditor({
+  isOpen,
+  onClose,
+  images,
+  initialImageId,
+  annotations,
+  reviews,
+  currentUserId,
+  onChange,
+}: ImageAnnotationEditorProps) {
+  const { showToast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [imageId, setImageId] = useState(initialImageId);
+  const [tool, setTool] = useState<ImageAnnotationKind>("arrow");
+  const [color, setColor] = useState(DEFAULT_ANNOTATION_COLOR);
+  const [draft, setDraft] = useState<ImageAnnotationShape | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [pinText, setPinText] = useState("");
+  const [comment, setComment] = useState("");
+  const [reviewId, setReviewId] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const image = images.find((img) => img.id === imageId) || images[0];
+  const imageAnnotations = annotations.filter((a) => a.imageId === image?.id);
+  const numbers = numberAnnotations(imageAnnotations);
+  const draftShape = draft?.kind === "text" ? { ...draft, text: pinText } : draft;
+
+  const resetForm = () => {
+    setDraft(null);
+    setPinText("");
+    setComment("");
+    setReviewId("");
+    setEditingId(null);
+  };
+
+  const selectImage = (id: string) => {
+    resetForm();
+    setActiveId(null);
+    setImageId(id);
+  };
+
+  const toPoint = (e: React.PointerEvent): AnnotationPoint => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Finish the pending annotation before drawing another
+    if (draft || editingId) return;
+    const point = toPoint(e);
+    if (tool === "hline") {
+      setDraft({ kind: "hline", y: point.y });
+    } else if (tool === "text") {
+      setDraft({ kind: "text", at: point, text: "" });
+    } else {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setIsDrawing(true);
+      setDraft(
+        tool === "freehand"
+          ? { kind: "freehand", points: [point] }
+          : { kind: tool, from: point, to: point }
+      );
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDrawing) return;
+    const point = toPoint(e);
+    setDraft((prev) => {
+      if (prev?.kind === "freehand") return { ...prev, points: [...prev.points, point] };
+      if (prev?.kind === "arrow" || prev?.kind === "box") return { ...prev, to: point };
+      return prev;
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawing) return;
+    setIsDrawing(false);
+    setDraft((prev) => sanitizeAnnotationShape(prev));
+  };
+
+  const startEdit = (annotation: ImageAnnotation) => {
+    setDraft(null);
+    setEditingId(annotation.id);
+    setActiveId(annotation.id);
+    setComment(annotation.comment || "");
+    setReviewId(annotation.reviewId || "");
+  };
+
+  const handleSave = async () => {
+    if (!image || (!draftShape && !editingId)) return;
+    setIsSaving(true);
+    try {
+      const result = editingId
+        ? await updateImageAnnotationAction(editingId, { comment, reviewId: reviewId || null })
+        : await createImageAnnotationAction({
+            imageId: image.id,
+            shape: draftShape!,
+            color,
+            comment,
+            reviewId: reviewId || null,
+          });
+      if (result.success) {
+        resetForm();
+        setActiveId(result.data.id);
+        onChange();
+      } else {
+        showToast("Erro ao salvar anotação: " + result.error, "error");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir esta anotação?")) return;
+    const result = await deleteImageAnnotationAction(id);
+    if (result.success) {
+      if (editingId === id) resetForm();
+      onChange();
+    } else {
+      showToast("Erro ao excluir: " + result.error, "error");
+    }
+  };
+
+  const layerItems = [
+    ...imageAnnotations.map((a) => ({ ...a, number: numbers[a.id] })),
+    // A pin without text yet still shows where it goes
+    ...(draftShape
+      ? [
+          {
+            id: DRAFT_ID,
+            shape:
+              draftShape.kind === "text" ? { ...draftShape, text: pinText || "…" } : draftShape,
+            color,
+          },
+        ]
+      : []),
+  ];
+
+  const canSave =
+    !isSaving && (!!editingId || (!!draftShape && (draft?.kind !== "text" || !!pinText.trim())));
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="🖍️ Anotar imagens" maxWidth="full" noBackdrop>
+      {!image ? (
+        <p className="py-6 text-center text-sm text-gray-500 italic">Nenhuma imagem na entrada.</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-[1fr_20rem]">
+          {/* Canvas */}
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <SegmentedToggle
+                value={tool}
+                onChange={(value) => setTool(value as ImageAnnotationKind)}
+                options={TOOL_OPTIONS}
+                size="sm"
+              />
+              <div className="flex gap-1.5">
+                {ANNOTATION_COLORS.map((c) => (
+                  <button
+                    key={c}
+                    onClick={() => setColor(c)}
+                    className={`h-6 w-6 rounded-full border-2 ${
+                      c === color ? "border-white" : "border-transparent"
+                    }`}
+                    style={{ backgroundColor: c }}
+                    title={c}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div ref={containerRef} className="relative mx-auto w-fit select-none">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={image.url}
+                alt={image.label}
+                className="block max-h-[65vh] max-w-full rounded-lg"
+                draggable={false}
+              />
+              <div
+                className="absolute inset-0 cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              />
+              <ImageAnnotationLayer items={layerItems} activeId={activeId} onSelect={setActiveId} />
+            </div>
+
+            {images.length > 1 && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {images.map((img) => (
+                  <button
+                    key={img.id}
+                    onClick={() => selectImage(img.id)}
+                    className={`rounded border px-2 py-1 text-xs ${
+                      img.id === image.id
+                        ? "border-cyan-500 bg-cyan-500/10 text-cyan-400"
+                        : "border-gray-700 text-gray-400 hover:text-gray-200"
+                    }`}
+                  >
+                    {img.label}
+                    {annotations.some((a) => a.imageId === img.id) && " 📌"}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Comment form and list */}
+          <div className="space-y-4">
+            {draftShape || editingId ? (
+              <div className="space-y-2 rounded-lg border border-gray-800 bg-gray-950/50 p-3">
+                <span className="text-xs font-bold text-gray-300 uppercase">
+                  {editingId ? "Editar anotação" : `Nova ${ANNOTATION_TOOL_LABELS[draft!.kind]}`}
+                </span>
+                {draft?.kind === "text" && (
+                  <input
+                    value={pinText}
+                    onChange={(e) => setPinText(e.target.value)}
+                    maxLength={MAX_ANNOTATION_TEXT_LENGTH}
+                    placeholder="Texto do pin"
+                    autoFocus
+                    className="w-full rounded border border-gray-700 bg-gray-900 p-2 text-sm text-gray-200 focus:border-cyan-500 focus:outline-none"
+                  />
+                )}
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Comentário para o mentorado (opcional)"
+                  className="w-full rounded border border-gray-700 bg-gray-900 p-2 text-sm text-gray-200 focus:border-cyan-500 focus:outline-none"
+                  rows={3}
+                />
+                <select
+                  value={reviewId}
+                  onChange={(e) => setReviewId(e.target.value)}
+                  className="w-full rounded border border-gray-700 bg-gray-900 p-2 text-xs text-gray-300 focus:border-cyan-500 focus:outline-none"
+                >
+                  <option value="">Sem vínculo com feedback</option>
+                  {reviews.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {REVIEW_TYPE_LABELS[r.reviewType]}: {r.content.slice(0, 50)}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex justify-end gap-2">
+                  <Button onClick={resetForm} size="sm" variant="ghost">
+                    Cancelar
+                  </Button>
+                  <Button onClick={handleSave} disabled={!canSave} size="sm" variant="primary">
+                    {isSaving ? "Salvando..." : "Salvar anotação"}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">
+                {tool === "hline" || tool === "text"
+                  ? "Clique na imagem para posicionar."
+                  : "Clique e arraste sobre a imagem para desenhar."}
+              </p>
+            )}
+
+            {imageAnnotations.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">Nenhuma anotação nesta imagem.</p>
+            ) : (
+              <ul className="space-y-2">
+                {imageAnnotations.map((annotation) => {
+                  const review = reviews.find((r) => r.id === annotation.reviewId);
+                  return (
+                    <li
+                      key={annotation.id}
+                      onClick={() => setActiveId(annotation.id)}
+                      className={`cursor-pointer rounded border p-2 text-xs text-gray-300 ${
+                        annotation.id === activeId
+                          ? "border-gray-600 bg-gray-800/60"
+                          : "border-gray-800 bg-gray-900/40"
+                      }`}
+                    >
+                      <div className="mb-1 flex items-center gap-2">
+                        <span
+                          className="flex h-4 w-4 items-center justify-center rounded-full text-[9px] font-bold text-black"
+                          style={{ backgroundColor: annotation.color }}
+                        >
+                          {numbers[annotation.id]}
+                        </span>
+                        <span className="text-gray-500">
+                          {ANNOTATION_TOOL_LABELS[annotation.shape.kind]}
+                        </span>
+                        {annotation.authorId === currentUserId && (
+                          <span className="ml-auto flex gap-2">
+                            <button onClick={() => startEdit(annotation)} title="Editar">
+                              ✏️
+                            </button>
+                            <button onClick={() => handleDelete(annotation.id)} title="Excluir">
+                              🗑️
+                            </button>
+                          </span>
+                        )}
+                      </div>
+                      {annotation.comment && (
+                        <div className="whitespace-pre-wrap">{annotation.comment}</div>
+                      )}
+                      {review && (
+                        <div className="mt-1 truncate text-[10px] text-cyan-400">
+                          💬 {REVIEW_TYPE_LABELS[review.reviewType]}: {review.content}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,39 @@
+import type { ImageAnnotation } from "@/types";
+
+interface ImageAnnotationLinksProps {
+  /** Annotations tied to one review */
+  annotations: ImageAnnotation[];
+  /** Marker number of each annotation on its image */
+  numbers: Record<string, number>;
+  /** Timeframe label of each image */
+  imageLabels: Record<string, string>;
+  onOpen: (annotation: ImageAnnotation) => void;
+}
+
+/**
+ * Links from a review to the annotations tied to it, opening the image with
+ * the annotation highlighted.
+ */
+export function ImageAnnotationLinks({
+  annotations,
+  numbers,
+  imageLabels,
+  onOpen,
+}: ImageAnnotationLinksProps) {
+  if (annotations.length === 0) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {annotations.map((annotation) => (
+        <button
+          key={annotation.id}
+          onClick={() => onOpen(annotation)}
+          className="rounded border border-gray-700 px-1.5 py-0.5 text-[10px] text-cyan-400 hover:border-cyan-500 hover:text-cyan-300"
+          title={annotation.comment}
+        >
+          📌 {imageLabels[annotation.imageId] || "Imagem"} #{numbers[annotation.id]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import type { Trade, JournalEntry } from "@/types";
 import { useMenteeDataStore } from "@/store/useMenteeDataStore";
 import { MenteeJournalReviewModal } from "@/components/mentor/MenteeJournalReviewModal";
 import { DailyHabitsRow, DayStatsCards, DayTradesTable } from "@/components/journal/day-detail";
+import { useTradeNews } from "@/hooks/useTradeNews";
 
 import dayjs from "dayjs";
 import "dayjs/locale/pt-br";
@@ -66,6 +67,8 @@ export function MenteeDayDetailModal({
   const [selectedReviewEntry, setSelectedReviewEntry] = useState<JournalEntry | null>(null);
   const [selectedReviewTrade, setSelectedReviewTrade] = useState<Trade | null>(null);
 
+  const { newsByTradeId } = useTradeNews(trades);
+
   // Calculate total PnL for DayStatsCards
   const totalPnL = useMemo(() => trades.reduce((sum, t) => sum + (t.pnl || 0), 0), [trades]);
 
@@ -114,6 +117,7 @@ export function MenteeDayDetailModal({
               setReviewModalOpen(true);
             }
           }}
+          newsByTradeId={newsByTradeId}
           readOnly
         />
 
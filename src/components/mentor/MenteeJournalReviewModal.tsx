@@ -13,6 +13,12 @@ import {
 import type { MentorReview } from "@/types";
 import { useToast } from "@/providers/ToastProvider";
 import { useAuth } from "@/hooks/useAuth";
+import { useImageAnnotations, useReviewThreads } from "@/hooks/useReviewData";
+import { getCachedImageUrl } from "@/lib/utils/general";
+import { numberAnnotations } from "@/services/mentor/imageAnnotations";
+import { ReviewThread } from "./ReviewThread";
+import { ImageAnnotationEditor, type AnnotatableImage } from "./ImageAnnotationEditor";
+import { ImageAnnotationLinks } from "./ImageAnnotationLinks";
 
 interface MenteeJournalReviewModalProps {
   isOpen: boolean;
@@ -43,6 +49,35 @@ export function MenteeJournalReviewModal({
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editContent, setEditContent] = useState("");
 
+  const { repliesByReview, mentionHandles, refetch } = useReviewThreads(
+    reviews.map((r) => r.id),
+    menteeId
+  );
+
+  // Annotations over the entry images
+  const [annotatingImageId, setAnnotatingImageId] = useState<string | null>(null);
+  const { data: annotations = [], refetch: refetchAnnotations } = useImageAnnotations(
+    entry.id,
+    isOpen
+  );
+  const annotationNumbers = numberAnnotations(annotations);
+
+  const annotatableImages: AnnotatableImage[] = [...(entry.images || [])]
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map((img) => ({
+      id: img.id,
+      url: getCachedImageUrl(img.url),
+      label: img.timeframe.replace(/^tf/, ""),
+    }));
+  const imageLabels = Object.fromEntries(annotatableImages.map((img) => [img.id, img.label]));
+
+  const handleThreadChange = (updated?: MentorReview) => {
+    if (updated) {
+      setReviews((prev) => prev.map((r) => (r.id === updated.id ? { ...r, ...updated } : r)));
+    }
+    refetch();
+  };
+
   // Fetch reviews when modal opens
   const loadReviews = useCallback(async () => {
     setIsLoadingReviews(true);
@@ -193,7 +228,22 @@ export function MenteeJournalReviewModal({
             </div>
           </div>
         ) : (
-          <div className="whitespace-pre-wrap">{r.content}</div>
+          <>
+            <div className="whitespace-pre-wrap">{r.content}</div>
+            <ImageAnnotationLinks
+              annotations={annotations.filter((a) => a.reviewId === r.id)}
+              numbers={annotationNumbers}
+              imageLabels={imageLabels}
+              onOpen={(annotation) => setAnnotatingImageId(annotation.imageId)}
+            />
+            <ReviewThread
+              review={r}
+              replies={repliesByReview[r.id] || []}
+              currentUserId={user?.id}
+              mentionHandles={mentionHandles}
+              onChange={handleThreadChange}
+            />
+          </>
         )}
       </div>
     );
@@ -204,7 +254,11 @@ export function MenteeJournalReviewModal({
       <div className="grid grid-cols-1 gap-6 pb-20 lg:grid-cols-2">
         {/* Left Side: Journal Content (ReadOnly) */}
         <div className="border-gray-800 pr-2 lg:border-r">
-          <JournalEntryContent entry={entry} linkedTrades={trade ? [trade] : []} />
+          <JournalEntryContent
+            entry={entry}
+            linkedTrades={trade ? [trade] : []}
+            onAnnotateImage={setAnnotatingImageId}
+          />
         </div>
 
         {/* Right Side: Structured Review Panel */}
@@ -368,6 +422,20 @@ export function MenteeJournalReviewModal({
           </div>
         </div>
       </div>
+
+      {annotatingImageId && (
+        <ImageAnnotationEditor
+          key={annotatingImageId}
+          isOpen
+          onClose={() => setAnnotatingImageId(null)}
+          images={annotatableImages}
+          initialImageId={annotatingImageId}
+          annotations={annotations}
+          reviews={reviews.filter((r) => r.mentorId === user?.id)}
+          currentUserId={user?.id}
+          onChange={refetchAnnotations}
+        />
+      )}
     </Modal>
   );
 }
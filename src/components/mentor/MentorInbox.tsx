@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { SegmentedToggle } from "@/components/ui";
+import { useAuth } from "@/hooks/useAuth";
+import { reviewKeys, useMentorInbox, useReviewThreads } from "@/hooks/useReviewData";
+import { formatTimeAgo } from "@/components/notifications/notificationDisplay";
+import { REVIEW_TYPE_LABELS } from "@/services/mentor/reviewThreads";
+import type { ReviewInboxItem } from "@/types";
+import { ReviewThread } from "./ReviewThread";
+
+const FILTER_OPTIONS = [
+  { value: "awaiting", label: "Aguardando você" },
+  { value: "open", label: "Todas abertas" },
+];
+
+function InboxThread({ item, onChange }: { item: ReviewInboxItem; onChange: () => void }) {
+  const { user } = useAuth();
+  const { repliesByReview, mentionHandles, refetch } = useReviewThreads(
+    [item.review.id],
+    item.review.menteeId
+  );
+
+  return (
+    <ReviewThread
+      review={item.review}
+      replies={repliesByReview[item.review.id] || []}
+      currentUserId={user?.id}
+      mentionHandles={mentionHandles}
+      onChange={() => {
+        refetch();
+        onChange();
+      }}
+    />
+  );
+}
+
+/**
+ * Review threads of the mentor that are not resolved, across all mentees.
+ */
+export function MentorInbox() {
+  const queryClient = useQueryClient();
+  const { data: items = [], isLoading } = useMentorInbox();
+  const [filter, setFilter] = useState<"awaiting" | "open">("awaiting");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const awaitingCount = items.filter((i) => i.awaitingMentor).length;
+  const visible = filter === "awaiting" ? items.filter((i) => i.awaitingMentor) : items;
+
+  const refreshInbox = () => queryClient.invalidateQueries({ queryKey: reviewKeys.inbox() });
+
+  return (
+    <div className="mt-8 overflow-hidden rounded-2xl border border-gray-800 bg-gray-900/50 p-6 backdrop-blur-sm">
+      <div className="mb-4 flex flex-col justify-between gap-3 md:flex-row md:items-center">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-bold text-gray-100">
+            <span>📥</span> Threads abertas
+            {awaitingCount > 0 && (
+              <span className="rounded-full bg-cyan-500/20 px-2 py-0.5 text-xs text-cyan-300">
+                {awaitingCount}
+              </span>
+            )}
+          </h2>
+          <p className="text-xs text-gray-500">
+            Feedbacks não resolvidos de todos os mentorados, dos mais recentes aos mais antigos.
+          </p>
+        </div>
+        <SegmentedToggle
+          value={filter}
+          onChange={(value) => setFilter(value as "awaiting" | "open")}
+          options={FILTER_OPTIONS}
+          size="sm"
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="animate-pulse py-6 text-center text-sm text-cyan-400">
+          Carregando threads...
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500 italic">
+          {filter === "awaiting"
+            ? "Nenhuma thread aguardando sua resposta."
+            : "Nenhuma thread aberta."}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-800">
+          {visible.map((item) => {
+            const isExpanded = expandedId === item.review.id;
+            const lastActivity =
+              item.lastReply?.createdAt || item.review.lastActivityAt || item.review.createdAt;
+            return (
+              <li key={item.review.id} className="py-3">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : item.review.id)}
+                  className="flex w-full items-start justify-between gap-4 text-left"
+                >
+                  <div className="min-w-0">
+                    <div className="mb-1 flex flex-wrap items-center gap-2 text-xs">
+                      <span className="font-semibold text-gray-200">{item.menteeName}</span>
+                      <span className="text-gray-500">
+                        {REVIEW_TYPE_LABELS[item.review.reviewType]}
+                        {item.review.entryDate &&
+                          ` · ${new Date(item.review.entryDate).toLocaleDateString("pt-BR")}`}
+                      </span>
+                      {item.awaitingMentor && (
+                        <span className="rounded bg-cyan-500/20 px-1.5 py-0.5 text-[10px] text-cyan-300">
+                          Aguardando você
+                        </span>
+                      )}
+                    </div>
+                    <p className="truncate text-sm text-gray-400">
+                      {item.lastReply
+                        ? `${item.lastReply.authorName || "Mentorado"}: ${item.lastReply.content}`
+                        : item.review.content}
+                    </p>
+                  </div>
+                  <div className="shrink-0 text-right text-[11px] text-gray-500">
+                    <div>{formatTimeAgo(lastActivity)}</div>
+                    <div>{item.replyCount} resposta(s)</div>
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className="mt-3 rounded-lg border border-gray-800 bg-gray-950/40 p-3 text-sm text-gray-300">
+                    <div className="whitespace-pre-wrap">{item.review.content}</div>
+                    <InboxThread item={item} onChange={refreshInbox} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui";
+import { useToast } from "@/providers/ToastProvider";
+import { useReviewEdits } from "@/hooks/useReviewData";
+import { formatTimeAgo } from "@/components/notifications/notificationDisplay";
+import {
+  replyToReviewAction,
+  setReviewThreadStatusAction,
+  updateReviewReplyAction,
+} from "@/app/actions/reviews";
+import {
+  REVIEW_THREAD_STATUS_LABELS,
+  canSetThreadStatus,
+  splitMentions,
+} from "@/services/mentor/reviewThreads";
+import type { MentorReview, ReviewReply, ReviewThreadStatus } from "@/types";
+
+interface ReviewThreadProps {
+  review: MentorReview;
+  replies: ReviewReply[];
+  currentUserId?: string;
+  /** Handles that can be @mentioned (highlighted and listed in the hint) */
+  mentionHandles: string[];
+  /** After a reply, edit or status change; receives the review when it changed */
+  onChange: (review?: MentorReview) => void;
+}
+
+const STATUS_STYLES: Record<ReviewThreadStatus, string> = {
+  open: "border-cyan-500/30 bg-cyan-500/10 text-cyan-400",
+  acknowledged: "border-yellow-500/30 bg-yellow-500/10 text-yellow-400",
+  resolved: "border-green-500/30 bg-green-500/10 text-green-400",
+};
+
+export function MentionText({ content, handles }: { content: string; handles: string[] }) {
+  return (
+    <>
+      {splitMentions(content, handles).map((segment, i) =>
+        segment.mention ? (
+          <span key={i} className="font-semibold text-cyan-400">
+            {segment.text}
+          </span>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function ReviewHistory({ reviewId, replies }: { reviewId: string; replies: ReviewReply[] }) {
+  const { data: edits = [], isLoading } = useReviewEdits(reviewId, true);
+
+  if (isLoading) {
+    return <p className="animate-pulse text-[11px] text-gray-500">Carregando histórico...</p>;
+  }
+  if (edits.length === 0) {
+    return <p className="text-[11px] text-gray-500 italic">Nenhuma edição.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {edits.map((edit) => {
+        const reply = edit.replyId ? replies.find((r) => r.id === edit.replyId) : undefined;
+        return (
+          <li key={edit.id} className="rounded border border-gray-800 bg-gray-950/40 p-2">
+            <div className="mb-1 text-[10px] text-gray-500">
+              {edit.editorName || "Usuário"} editou {reply ? "uma resposta" : "o feedback"} ·{" "}
+              {formatTimeAgo(edit.editedAt)}
+            </div>
+            <div className="text-xs whitespace-pre-wrap text-gray-400 line-through decoration-gray-600">
+              {edit.previousContent}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * Replies, status and edit history of a mentor review, below the review itself.
+ * Shared by the mentor (review modal, inbox) and the mentee (journal preview).
+ */
+export function ReviewThread({
+  review,
+  replies,
+  currentUserId,
+  mentionHandles,
+  onChange,
+}: ReviewThreadProps) {
+  const { showToast } = useToast();
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyContent, setReplyContent] = useState("");
+  const [editingReplyId, setEditingReplyId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const canSet = (status: ReviewThreadStatus) =>
+    !!currentUserId && canSetThreadStatus(review, currentUserId, status);
+
+  const handleReply = async () => {
+    if (!replyContent.trim()) return;
+    setIsSubmitting(true);
+    try {
+      const result = await replyToReviewAction(review.id, replyContent);
+      if (result.success) {
+        setReplyContent("");
+        setIsReplying(false);
+        onChange();
+      } else {
+        showToast("Erro ao responder: " + result.error, "error");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEditReply = async () => {
+    if (!editingReplyId || !editContent.trim()) return;
+    setIsSubmitting(true);
+    try {
+      const result = await updateReviewReplyAction(editingReplyId, editContent);
+      if (result.success) {
+        setEditingReplyId(null);
+        setEditContent("");
+        onChange();
+      } else {
+        showToast("Erro ao editar: " + result.error, "error");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStatus = async (status: ReviewThreadStatus) => {
+    const result = await setReviewThreadStatusAction(review.id, status);
+    if (result.success) {
+      onChange(result.data);
+    } else {
+      showToast("Erro ao atualizar status: " + result.error, "error");
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {/* Status and actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={`rounded border px-1.5 py-0.5 text-[10px] font-semibold uppercase ${STATUS_STYLES[review.status]}`}
+        >
+          {REVIEW_THREAD_STATUS_LABELS[review.status]}
+        </span>
+        {canSet("acknowledged") && (
+          <button
+            onClick={() => handleStatus("acknowledged")}
+            className="text-[11px] text-yellow-400 hover:text-yellow-300"
+          >
+            👍 Ciente
+          </button>
+        )}
+        {review.status !== "resolved" && canSet("resolved") && (
+          <button
+            onClick={() => handleStatus("resolved")}
+            className="text-[11px] text-green-400 hover:text-green-300"
+          >
+            ✅ Resolver
+          </button>
+        )}
+        {review.status === "resolved" && canSet("open") && (
+          <button
+            onClick={() => handleStatus("open")}
+            className="text-[11px] text-cyan-400 hover:text-cyan-300"
+          >
+            ↺ Reabrir
+          </button>
+        )}
+        <button
+          onClick={() => setShowHistory((v) => !v)}
+          className="ml-auto text-[11px] text-gray-500 hover:text-gray-300"
+        >
+          🕘 Histórico
+        </button>
+      </div>
+
+      {showHistory && <ReviewHistory reviewId={review.id} replies={replies} />}
+
+      {/* Replies */}
+      {replies.length > 0 && (
+        <div className="space-y-2 border-l border-gray-700 pl-3">
+          {replies.map((reply) => {
+            const isOwn = reply.authorId === currentUserId;
+            const isEditing = editingReplyId === reply.id;
+            return (
+              <div key={reply.id} className="text-sm text-gray-300">
+                <div className="mb-0.5 flex items-center gap-2 text-[10px] text-gray-500">
+                  <span className="font-semibold text-gray-400">
+                    {isOwn ? "Você" : reply.authorName || "Usuário"}
+                  </span>
+                  <span>{formatTimeAgo(reply.createdAt)}</span>
+                  {reply.updatedAt !== reply.createdAt && <span>(editado)</span>}
+                  {isOwn && !isEditing && (
+                    <button
+                      onClick={() => {
+                        setEditingReplyId(reply.id);
+                        setEditContent(reply.content);
+                      }}
+                      className="hover:text-gray-300"
+                      title="Editar"
+                    >
+                      ✏️
+                    </button>
+                  )}
+                </div>
+                {isEditing ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      className="w-full rounded border border-gray-700 bg-gray-900 p-2 text-sm text-gray-200 focus:border-cyan-500 focus:outline-none"
+                      rows={2}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button onClick={() => setEditingReplyId(null)} size="sm" variant="ghost">
+                        Cancelar
+                      </Button>
+                      <Button
+                        onClick={handleEditReply}
+                        disabled={!editContent.trim() || isSubmitting}
+                        size="sm"
+                        variant="primary"
+                      >
+                        Salvar
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="whitespace-pre-wrap">
+                    <MentionText content={reply.content} handles={mentionHandles} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Reply form */}
+      {isReplying ? (
+        <div className="space-y-2">
+          <textarea
+            value={replyContent}
+            onChange={(e) => setReplyContent(e.target.value)}
+            placeholder="Escreva sua resposta..."
+            autoFocus
+            className="w-full rounded border border-gray-700 bg-gray-900 p-2 text-sm text-gray-200 focus:border-cyan-500 focus:outline-none"
+            rows={2}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[10px] text-gray-500">
+              {mentionHandles.length > 0 &&
+                `Mencione com ${mentionHandles.map((h) => `@${h}`).join(", ")}`}
+            </span>
+            <div className="flex gap-2">
+              <Button onClick={() => setIsReplying(false)} size="sm" variant="ghost">
+                Cancelar
+              </Button>
+              <Button
+                onClick={handleReply}
+                disabled={!replyContent.trim() || isSubmitting}
+                size="sm"
+                variant="primary"
+              >
+                {isSubmitting ? "Enviando..." : "Responder"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        currentUserId && (
+          <button
+            onClick={() => setIsReplying(true)}
+            className="text-[11px] text-cyan-400 hover:text-cyan-300"
+          >
+            ↩️ Responder{replies.length > 0 ? ` (${replies.length})` : ""}
+          </button>
+        )
+      )}
+    </div>
+  );
+}
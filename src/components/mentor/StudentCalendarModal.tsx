@@ -20,6 +20,8 @@ interface StudentCalendarModalProps {
   onClose: () => void;
   menteeId: string;
   menteeName: string;
+  /** Date (YYYY-MM-DD) whose month the calendar opens at */
+  initialDate?: string;
 }
 
 interface AccountOption {
@@ -33,6 +35,7 @@ export function StudentCalendarModal({
   onClose,
   menteeId,
   menteeName,
+  initialDate,
 }: StudentCalendarModalProps) {
   // Get data and functions from store
   const {
@@ -163,6 +166,8 @@ export function StudentCalendarModal({
 
               {/* Calendar - OPTIMIZED: pass journalAvailability for instant badges */}
               <TradeCalendar
+                key={initialDate}
+                initialMonth={initialDate}
                 trades={trades}
                 entries={[]}
                 journalAvailability={journalAvailability}
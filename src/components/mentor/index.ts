@@ -4,3 +4,8 @@ export { MentoradosTable } from "./MentoradosTable";
 export { ConvitesTable } from "./ConvitesTable";
 export { StudentCalendarModal } from "./StudentCalendarModal";
 export { InviteMenteeModal } from "./InviteMenteeModal";
+export { ReviewThread } from "./ReviewThread";
+export { MentorInbox } from "./MentorInbox";
+export { ImageAnnotationEditor } from "./ImageAnnotationEditor";
+export { ImageAnnotationLinks } from "./ImageAnnotationLinks";
+export { CohortAnalytics } from "./CohortAnalytics";
@@ -152,6 +152,14 @@ export const ImportModal = dynamic(
   }
 );
 
+export const ReportModal = dynamic(
+  () => import("@/components/reports/ReportModal").then((mod) => ({ default: mod.ReportModal })),
+  {
+    loading: () => <ModalSkeleton />,
+    ssr: false,
+  }
+);
+
 export const DayDetailModal = dynamic(
   () =>
     import("@/components/journal/DayDetailModal").then((mod) => ({ default: mod.DayDetailModal })),
@@ -0,0 +1,199 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { useEventSeries } from "@/hooks/useEventSeries";
+import { useTradeStore } from "@/store/useTradeStore";
+import { formatCurrency } from "@/lib/utils/trading";
+import { convertEventValue } from "@/services/analytics/eventSurprise";
+import type { SurpriseDirection } from "@/services/analytics/eventSurprise";
+import type { NewsGroupMetrics } from "@/services/analytics/news";
+import type { EconomicEvent } from "@/lib/database/repositories/external/economicEvents.repository";
+
+interface EventDetailPanelProps {
+  event: Pick<EconomicEvent, "currency" | "event_name">;
+}
+
+const DIRECTION_LABELS: Record<SurpriseDirection, string> = {
+  above: "Acima do forecast",
+  inline: "Em linha",
+  below: "Abaixo do forecast",
+};
+
+function formatR(value: number | null): string {
+  return value === null ? "-" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function PerformanceColumn({ label, group }: { label: string; group: NewsGroupMetrics }) {
+  return (
+    <div className="rounded-lg border border-gray-700/50 bg-gray-800/40 p-3">
+      <p className="mb-2 text-xs font-semibold text-gray-400">{label}</p>
+      {group.trades === 0 ? (
+        <p className="text-xs text-gray-600">Sem trades</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-1 text-xs">
+          <span className="text-gray-500">Trades</span>
+          <span className="text-right font-semibold text-gray-200">{group.trades}</span>
+          <span className="text-gray-500">Win Rate</span>
+          <span className="text-right font-semibold text-gray-200">
+            {group.winRate.toFixed(0)}%
+          </span>
+          <span className="text-gray-500">R Médio</span>
+          <span className="text-right font-semibold text-gray-200">{formatR(group.avgR)}</span>
+          <span className="text-gray-500">P/L</span>
+          <span
+            className={`text-right font-semibold ${group.totalPnL >= 0 ? "text-zorin-accent" : "text-red-400"}`}
+          >
+            {formatCurrency(group.totalPnL)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * History of an event series (actual vs forecast of every release) and the
+ * results of the trades taken around those releases.
+ */
+export function EventDetailPanel({ event }: EventDetailPanelProps) {
+  const { allHistory } = useTradeStore();
+  const { releases, performance, isLoading } = useEventSeries(event, allHistory);
+
+  const chartData = useMemo(() => {
+    // Latest unit for the whole axis ("1.2M" next to "980K")
+    const latest = [...releases].reverse().find((r) => r.surprise.actual || r.surprise.forecast);
+    const unit = (latest?.surprise.actual ?? latest?.surprise.forecast)?.unit ?? null;
+
+    return releases.map(({ event: release, surprise }) => ({
+      name: `${release.date.substring(8, 10)}/${release.date.substring(5, 7)}/${release.date.substring(2, 4)}`,
+      actual: surprise.actual ? convertEventValue(surprise.actual, unit) : null,
+      forecast: surprise.forecast ? convertEventValue(surprise.forecast, unit) : null,
+      surprise: surprise.surprise,
+      sentiment: surprise.sentiment,
+      score: surprise.score,
+      unit: unit ?? "",
+    }));
+  }, [releases]);
+
+  const scored = releases.filter((r) => r.surprise.direction !== null);
+  const beats = scored.filter((r) => r.surprise.direction === "above").length;
+
+  if (isLoading) {
+    return <p className="py-4 text-center text-xs text-gray-500">Carregando histórico...</p>;
+  }
+
+  return (
+    <div className="space-y-4 border-b border-gray-700/50 bg-gray-900/40 px-4 py-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-gray-200">
+          📈 Histórico · {event.currency} {event.event_name}
+        </p>
+        {scored.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {beats} de {scored.length} divulgações acima do forecast
+          </span>
+        )}
+      </div>
+
+      {chartData.length < 2 ? (
+        <p className="text-xs text-gray-500">Poucas divulgações registradas para esta série.</p>
+      ) : (
+        <div className="h-44 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 10, left: -10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+              <XAxis
+                dataKey="name"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: "#9ca3af", fontSize: 10 }}
+              />
+              <YAxis axisLine={false} tickLine={false} tick={{ fill: "#6b7280", fontSize: 10 }} />
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (active && payload && payload.length) {
+                    const point = payload[0].payload;
+                    return (
+                      <div className="rounded-lg border border-gray-700 bg-gray-800 p-3 text-xs shadow-xl">
+                        <p className="mb-1 font-semibold text-gray-200">{point.name}</p>
+                        <p className="text-cyan-400">
+                          Actual: {point.actual ?? "-"}
+                          {point.unit}
+                        </p>
+                        <p className="text-gray-400">
+                          Forecast: {point.forecast ?? "-"}
+                          {point.unit}
+                        </p>
+                        {point.surprise !== null && (
+                          <p
+                            className={
+                              point.sentiment === "better"
+                                ? "text-green-400"
+                                : point.sentiment === "worse"
+                                  ? "text-red-400"
+                                  : "text-gray-300"
+                            }
+                          >
+                            Surpresa: {point.surprise > 0 ? "+" : ""}
+                            {point.surprise}
+                            {point.score !== null && ` (${point.score}σ)`}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  }
+                  return null;
+                }}
+              />
+              <Line
+                type="monotone"
+                dataKey="forecast"
+                stroke="#6b7280"
+                strokeDasharray="4 4"
+                dot={false}
+                connectNulls
+              />
+              <Line
+                type="monotone"
+                dataKey="actual"
+                stroke="#22d3ee"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div>
+        <p className="mb-2 text-xs font-medium text-gray-400">
+          Seus trades ao redor das divulgações ({performance.overall.trades})
+        </p>
+        {performance.overall.trades === 0 ? (
+          <p className="text-xs text-gray-500">Nenhum trade próximo das divulgações desta série.</p>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-4">
+            <PerformanceColumn label="Total" group={performance.overall} />
+            {(Object.keys(DIRECTION_LABELS) as SurpriseDirection[]).map((direction) => (
+              <PerformanceColumn
+                key={direction}
+                label={DIRECTION_LABELS[direction]}
+                group={performance.byDirection[direction]}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
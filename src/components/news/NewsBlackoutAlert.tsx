@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useNewsBlackout } from "@/hooks/useNewsBlackout";
+import type { TradeNewsEvent } from "@/services/analytics/news";
+
+interface NewsBlackoutAlertProps {
+  events: TradeNewsEvent[];
+  title?: string;
+  className?: string;
+}
+
+function formatRelease(minutesFromEntry: number): string {
+  if (minutesFromEntry === 0) return "agora";
+  return minutesFromEntry > 0 ? `em ${minutesFromEntry}min` : `há ${Math.abs(minutesFromEntry)}min`;
+}
+
+/**
+ * Warning listing the releases of an active news blackout.
+ */
+export function NewsBlackoutAlert({
+  events,
+  title = "Blackout de notícias",
+  className = "",
+}: NewsBlackoutAlertProps) {
+  if (events.length === 0) return null;
+
+  return (
+    <div
+      role="alert"
+      className={`rounded-xl border border-red-500/30 bg-red-500/10 p-4 text-sm ${className}`}
+    >
+      <p className="mb-2 font-semibold text-red-400">🚫 {title}</p>
+      <ul className="space-y-1 text-gray-300">
+        {events.map((event) => (
+          <li key={`${event.currency}-${event.eventName}-${event.minutesFromEntry}`}>
+            <span className="font-mono text-xs text-red-300">{event.currency}</span>{" "}
+            {event.eventName}{" "}
+            <span className="text-gray-500">({formatRelease(event.minutesFromEntry)})</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const REFRESH_MS = 60 * 1000;
+
+/**
+ * Blackout alert for the current time, refreshed every minute.
+ * Mount it only while visible: the clock starts when it mounts.
+ */
+export function LiveNewsBlackoutAlert({ className }: { className?: string }) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { blackoutEvents } = useNewsBlackout(now);
+
+  return (
+    <NewsBlackoutAlert
+      events={blackoutEvents}
+      title="Blackout de notícias ativo — evite novas entradas"
+      className={className}
+    />
+  );
+}
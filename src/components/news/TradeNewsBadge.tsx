@@ -0,0 +1,35 @@
+import type { TradeNewsEvent } from "@/services/analytics/news";
+
+interface TradeNewsBadgeProps {
+  events?: TradeNewsEvent[];
+  className?: string;
+}
+
+function formatOffset(minutes: number): string {
+  if (minutes === 0) return "na entrada";
+  return minutes > 0 ? `${minutes}min após` : `${Math.abs(minutes)}min antes`;
+}
+
+/**
+ * "Traded during news" flag. The tooltip lists the events around the entry.
+ */
+export function TradeNewsBadge({ events, className = "" }: TradeNewsBadgeProps) {
+  if (!events || events.length === 0) return null;
+
+  const hasHigh = events.some((e) => e.impact === "high");
+  const title = events
+    .map((e) => `${e.currency} · ${e.eventName} (${formatOffset(e.minutesFromEntry)})`)
+    .join("\n");
+
+  return (
+    <span
+      title={title}
+      aria-label="Operado durante notícia"
+      className={`inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-semibold ${
+        hasHigh ? "bg-red-500/20 text-red-400" : "bg-orange-500/20 text-orange-400"
+      } ${className}`}
+    >
+      📰 {events.length > 1 ? events.length : "News"}
+    </span>
+  );
+}
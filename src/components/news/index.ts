@@ -1,3 +1,6 @@
 export { EconomicCalendar } from "./EconomicCalendar";
 export { EventRow } from "./EventRow";
+export { EventDetailPanel } from "./EventDetailPanel";
 export { DashboardNews } from "./DashboardNews";
+export { TradeNewsBadge } from "./TradeNewsBadge";
+export { NewsBlackoutAlert, LiveNewsBlackoutAlert } from "./NewsBlackoutAlert";
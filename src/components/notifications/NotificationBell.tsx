@@ -2,12 +2,24 @@
 
 import { useRouter } from "next/navigation";
 import { useState, useEffect, useMemo, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   acceptInviteAction as acceptInvite,
   rejectInviteAction as rejectInvite,
 } from "@/app/actions/mentor";
-import { MentorInvite, Notification } from "@/types";
+import {
+  archiveNotificationAction,
+  markAllNotificationsReadAction,
+  markNotificationReadAction,
+} from "@/app/actions/notifications";
+import {
+  notificationKeys,
+  useNotifications,
+  useUnreadNotificationCount,
+} from "@/hooks/useNotifications";
+import { Notification } from "@/types";
 import { NotificationsModal } from "./NotificationsModal";
+import { NOTIFICATION_ICONS, formatTimeAgo, isActionableInvite } from "./notificationDisplay";
 
 // Anúncios do projeto (podem vir de um CMS ou banco futuramente)
 const PROJECT_ANNOUNCEMENTS = [
@@ -25,11 +37,12 @@ const PROJECT_ANNOUNCEMENTS = [
   },
 ];
 
-import { useReceivedInvites } from "@/hooks/useMentorData";
-import { useMyReviews } from "@/hooks/useReviewData";
+/** Notifications shown in the dropdown; the modal pages through the rest */
+const DROPDOWN_SIZE = 10;
 
 export function NotificationBell({ accountId }: { accountId?: string }) {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const [isOpen, setIsOpen] = useState(false);
   const [showFullModal, setShowFullModal] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -48,15 +61,8 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [isOpen]);
 
-  // Use cached hooks
-  const {
-    data: invites = [],
-    isLoading: loadingInvites,
-    refetch: refetchInvites,
-  } = useReceivedInvites();
-  const { data: reviews = [], isLoading: loadingReviews } = useMyReviews();
-
-  const loading = loadingInvites || loadingReviews;
+  const { data: page, isLoading: loading } = useNotifications("inbox", 1, DROPDOWN_SIZE);
+  const { data: unreadStored = 0 } = useUnreadNotificationCount();
 
   // Load read announcements from local storage on mount
   const [readAnnouncementIds, setReadAnnouncementIds] = useState<string[]>([]);
@@ -71,73 +77,33 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
     }
   }, []);
 
-  // Compute notifications derived from data + local state
-  const notifications = useMemo<Notification[]>(() => {
-    // 1. Process Invites
-    const inviteNotifs: Notification[] = invites.map((inv) => ({
-      id: inv.id,
-      type: "invite",
-      title: "Convite de Mentoria",
-      message: `${inv.mentorName || inv.mentorEmail} convidou você.`,
-      timestamp: new Date(inv.createdAt),
-      read: false,
-      data: inv,
-    }));
-
-    // 2. Process Reviews
-    const reviewNotifs: Notification[] = reviews
-      .filter((r) => !r.isRead)
-      .map((r) => ({
-        id: r.id,
-        type: "feedback",
-        title: "Novo Feedback",
-        message:
-          r.reviewType === "correction"
-            ? "Nova correção recebida."
-            : r.reviewType === "suggestion"
-              ? "Nova sugestão recebida."
-              : "Novo comentário recebido.",
-        timestamp: new Date(r.createdAt),
-        read: false,
-        data: {
-          journalEntryId: r.journalEntryId,
-          date: r.entryDate,
-          accountId: r.entryAccountId,
-        },
-      })) as Notification[];
-
-    // 3. Process Announcements
-    const announcementNotifs: Notification[] = PROJECT_ANNOUNCEMENTS.map((ann) => ({
-      id: ann.id,
-      type: "announcement",
-      title: ann.title,
-      message: ann.message,
-      timestamp: ann.date,
-      read: readAnnouncementIds.includes(ann.id),
-    }));
-
-    // Merge and Sort
-    return [...inviteNotifs, ...reviewNotifs, ...announcementNotifs].sort(
-      (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
-    );
-  }, [invites, reviews, readAnnouncementIds]);
+  const announcements = useMemo<Notification[]>(
+    () =>
+      PROJECT_ANNOUNCEMENTS.map((ann) => ({
+        id: ann.id,
+        type: "announcement",
+        title: ann.title,
+        message: ann.message,
+        createdAt: ann.date.toISOString(),
+        read: readAnnouncementIds.includes(ann.id),
+        archived: false,
+      })),
+    [readAnnouncementIds]
+  );
 
-  // Calculate unread count
-  const unreadCount = notifications.filter((n) => !n.read).length;
+  // Stored notifications + static announcements, newest first
+  const notifications = useMemo(
+    () =>
+      [...(page?.data || []), ...announcements].sort(
+        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      ),
+    [page, announcements]
+  );
 
-  const handleAcceptInvite = async (invite: MentorInvite) => {
-    const success = await acceptInvite(invite.inviteToken);
-    if (success) {
-      refetchInvites();
-    }
-  };
+  const unreadCount = unreadStored + announcements.filter((n) => !n.read).length;
 
-  const handleRejectInvite = async (invite: MentorInvite) => {
-    const success = await rejectInvite(invite.id);
-    if (success) {
-      refetchInvites();
-    }
-  };
+  const refreshNotifications = () =>
+    queryClient.invalidateQueries({ queryKey: notificationKeys.all });
 
   const markAnnouncementRead = (id: string) => {
     const newReadIds = [...readAnnouncementIds, id];
@@ -146,42 +112,62 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
   };
 
   const markAllAnnouncementsRead = () => {
-    const newReadIds = [...readAnnouncementIds];
-    notifications.forEach((n) => {
-      if (n.type === "announcement" && !newReadIds.includes(n.id)) {
-        newReadIds.push(n.id);
-      }
-    });
+    const newReadIds = [
+      ...readAnnouncementIds,
+      ...announcements.filter((n) => !n.read).map((n) => n.id),
+    ];
     setReadAnnouncementIds(newReadIds);
     localStorage.setItem("readAnnouncements", JSON.stringify(newReadIds));
   };
 
-  const handleViewFeedback = (notification: Notification) => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { date, accountId: entryAccountId } = (notification.data as any) || {};
-    // Prefer prop accountId, then entryAccountId
-    const targetAccountId = accountId || entryAccountId;
+  const handleToggleRead = async (notification: Notification) => {
+    if (notification.type === "announcement") {
+      if (!notification.read) markAnnouncementRead(notification.id);
+      return;
+    }
+    await markNotificationReadAction(notification.id, !notification.read);
+    refreshNotifications();
+  };
+
+  const handleArchive = async (notification: Notification) => {
+    await archiveNotificationAction(notification.id);
+    refreshNotifications();
+  };
+
+  const handleMarkAllRead = async () => {
+    markAllAnnouncementsRead();
+    await markAllNotificationsReadAction();
+    refreshNotifications();
+  };
 
-    if (targetAccountId && date) {
-      router.push(`/dashboard/${targetAccountId}?date=${date}`);
-      setIsOpen(false); // Close bell dropdown/modal
-    } else {
-      console.error("Dados insuficientes para navegação", notification);
+  // Answered invites leave the inbox
+  const handleAcceptInvite = async (notification: Notification) => {
+    const result = await acceptInvite(String(notification.data?.inviteToken));
+    if (result.success) {
+      await handleArchive(notification);
     }
   };
 
-  const formatTimeAgo = (date: Date) => {
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
+  const handleRejectInvite = async (notification: Notification) => {
+    const result = await rejectInvite(String(notification.data?.inviteId));
+    if (result.success) {
+      await handleArchive(notification);
+    }
+  };
 
-    if (diffMins < 1) return "Agora";
-    if (diffMins < 60) return `${diffMins}m atrás`;
-    if (diffHours < 24) return `${diffHours}h atrás`;
-    if (diffDays < 7) return `${diffDays}d atrás`;
-    return date.toLocaleDateString("pt-BR");
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.read) {
+      await handleToggleRead(notification);
+    }
+    if (notification.link) {
+      // Feedback links carry the mentee's account; keep the current dashboard if any
+      const link =
+        accountId && notification.type === "feedback"
+          ? notification.link.replace(/^\/dashboard\/[^?]+/, `/dashboard/${accountId}`)
+          : notification.link;
+      router.push(link);
+      setIsOpen(false);
+    }
   };
 
   return (
@@ -225,9 +211,9 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
             {/* Header */}
             <div className="flex items-center justify-between border-b border-gray-700 px-4 py-3">
               <h2 className="font-semibold text-white">Notificações</h2>
-              {notifications.length > 0 && (
+              {unreadCount > 0 && (
                 <button
-                  onClick={markAllAnnouncementsRead}
+                  onClick={handleMarkAllRead}
                   className="text-sm text-[#4DB6AC] hover:underline"
                 >
                   Marcar lidas
@@ -250,14 +236,10 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
                 notifications.map((notif) => (
                   <div
                     key={notif.id}
-                    className={`border-b border-gray-700/50 px-4 py-3 transition-colors hover:bg-gray-800/50 ${
+                    className={`cursor-pointer border-b border-gray-700/50 px-4 py-3 transition-colors hover:bg-gray-800/50 ${
                       !notif.read ? "bg-[#4DB6AC]/5" : ""
                     }`}
-                    onClick={() => {
-                      if (notif.type === "announcement") {
-                        markAnnouncementRead(notif.id);
-                      }
-                    }}
+                    onClick={() => handleOpen(notif)}
                   >
                     <div className="flex items-start gap-3">
                       {/* Icon */}
@@ -268,7 +250,7 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
                             : "bg-[#4DB6AC]/20 text-[#4DB6AC]"
                         }`}
                       >
-                        {notif.type === "invite" ? "👨‍🏫" : "📢"}
+                        {NOTIFICATION_ICONS[notif.type]}
                       </div>
 
                       {/* Content */}
@@ -281,16 +263,16 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
                         </div>
                         <p className="truncate text-sm text-gray-400">{notif.message}</p>
                         <p className="mt-1 text-xs text-gray-500">
-                          {formatTimeAgo(notif.timestamp)}
+                          {formatTimeAgo(notif.createdAt)}
                         </p>
 
                         {/* Invite Actions (compact) */}
-                        {notif.type === "invite" && !!notif.data && (
+                        {isActionableInvite(notif) && (
                           <div className="mt-2 flex gap-2">
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleAcceptInvite(notif.data as MentorInvite);
+                                handleAcceptInvite(notif);
                               }}
                               className="rounded-lg bg-green-600 px-3 py-1 text-xs text-white hover:bg-green-700"
                             >
@@ -299,7 +281,7 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleRejectInvite(notif.data as MentorInvite);
+                                handleRejectInvite(notif);
                               }}
                               className="rounded-lg bg-red-500/20 px-3 py-1 text-xs text-red-400 hover:bg-red-500/30"
                             >
@@ -335,19 +317,14 @@ export function NotificationBell({ accountId }: { accountId?: string }) {
       <NotificationsModal
         isOpen={showFullModal}
         onClose={() => setShowFullModal(false)}
-        notifications={notifications}
+        announcements={announcements}
+        onOpen={handleOpen}
+        onToggleRead={handleToggleRead}
+        onArchive={handleArchive}
+        onMarkAllRead={handleMarkAllRead}
         onAcceptInvite={handleAcceptInvite}
         onRejectInvite={handleRejectInvite}
-        onMarkRead={markAnnouncementRead}
-        onReviewAnnouncements={markAllAnnouncementsRead}
-        onViewFeedback={handleViewFeedback}
       />
     </>
   );
 }
-
-// Hook para usar em outros lugares (simplificado)
-export function useNotifications() {
-  const { data: invites = [] } = useReceivedInvites();
-  return { unreadCount: invites.length };
-}
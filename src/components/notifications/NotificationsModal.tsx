@@ -1,44 +1,69 @@
 "use client";
 
+import { useState } from "react";
 import { Notification } from "@/types";
-import { MentorInvite } from "@/types";
 import { Button } from "@/components/ui/Button";
-import { Modal } from "@/components/ui";
+import { Modal, SegmentedToggle } from "@/components/ui";
+import { useNotifications } from "@/hooks/useNotifications";
+import type { NotificationFilter } from "@/lib/database/repositories";
+import { NOTIFICATION_ICONS, isActionableInvite } from "./notificationDisplay";
 
 interface NotificationsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  notifications: Notification[];
-  onAcceptInvite: (invite: MentorInvite) => void;
-  onRejectInvite: (invite: MentorInvite) => void;
-  onMarkRead: (id: string) => void;
-  onReviewAnnouncements: () => void;
-  onViewFeedback: (notification: Notification) => void;
+  /** Static project announcements, shown in the inbox */
+  announcements: Notification[];
+  onOpen: (notification: Notification) => void;
+  onToggleRead: (notification: Notification) => void;
+  onArchive: (notification: Notification) => void;
+  onMarkAllRead: () => void;
+  onAcceptInvite: (notification: Notification) => void;
+  onRejectInvite: (notification: Notification) => void;
 }
 
+const PAGE_SIZE = 20;
+
+const FILTER_OPTIONS = [
+  { value: "inbox", label: "Caixa de entrada" },
+  { value: "unread", label: "Não lidas" },
+  { value: "archived", label: "Arquivadas" },
+];
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleDateString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
 export function NotificationsModal({
   isOpen,
   onClose,
-  notifications,
+  announcements,
+  onOpen,
+  onToggleRead,
+  onArchive,
+  onMarkAllRead,
   onAcceptInvite,
   onRejectInvite,
-  onMarkRead,
-  onReviewAnnouncements,
-  onViewFeedback,
 }: NotificationsModalProps) {
-  // Filter notifications
-  const invites = notifications.filter((n) => n.type === "invite");
-  const announcements = notifications.filter((n) => n.type === "announcement");
-  const feedbacks = notifications.filter((n) => n.type === "feedback");
-
-  // Helper to format time
-  const formatTime = (date: Date) => {
-    return date.toLocaleDateString("pt-BR", {
-      day: "2-digit",
-      month: "2-digit",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+  const [filter, setFilter] = useState<NotificationFilter>("inbox");
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useNotifications(filter, page, PAGE_SIZE);
+  const notifications = data?.data || [];
+  const totalPages = Math.max(1, Math.ceil((data?.count || 0) / PAGE_SIZE));
+  const visibleAnnouncements =
+    filter === "inbox"
+      ? announcements
+      : filter === "unread"
+        ? announcements.filter((n) => !n.read)
+        : [];
+
+  const handleFilterChange = (value: string) => {
+    setFilter(value as NotificationFilter);
+    setPage(1);
   };
 
   const modalTitle = (
@@ -48,54 +73,75 @@ export function NotificationsModal({
       </div>
       <div>
         <h2 className="text-xl font-bold text-white">Mensagens</h2>
-        <p className="text-sm text-gray-400">Gerencie seus convites e avisos</p>
+        <p className="text-sm text-gray-400">Convites, feedbacks, alertas e avisos</p>
       </div>
     </div>
   );
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} maxWidth="2xl" title={modalTitle}>
-      <div className="space-y-8">
-        {/* SECTION: Invites */}
-        <div className="space-y-4">
-          <div className="flex items-center gap-2 border-b border-gray-700 pb-2 font-medium text-cyan-400">
-            <span>👨‍🏫</span>
-            <span>Convites de Mentoria ({invites.length})</span>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="min-w-[320px]">
+            <SegmentedToggle
+              value={filter}
+              onChange={handleFilterChange}
+              options={FILTER_OPTIONS}
+              size="sm"
+            />
           </div>
+          {filter !== "archived" && (
+            <button
+              onClick={onMarkAllRead}
+              className="text-xs text-cyan-500 hover:text-cyan-400 hover:underline"
+            >
+              Marcar todas como lidas
+            </button>
+          )}
+        </div>
 
-          {invites.length === 0 ? (
-            <p className="py-2 text-sm text-gray-500 italic">Nenhum convite pendente.</p>
-          ) : (
-            <div className="grid gap-3">
-              {invites.map((notif) => (
-                <div
-                  key={notif.id}
-                  className="flex flex-col items-start justify-between gap-4 rounded-xl border border-gray-700/50 bg-gray-800/50 p-4 transition-colors hover:bg-gray-800 md:flex-row md:items-center"
-                >
-                  <div className="flex items-center gap-4">
-                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-cyan-500/30 bg-cyan-500/20 font-bold text-cyan-400">
-                      {(notif.data as MentorInvite)?.mentorEmail?.charAt(0).toUpperCase()}
-                    </div>
-                    <div>
-                      <h4 className="font-medium text-white">
-                        {(notif.data as MentorInvite)?.mentorEmail}
-                      </h4>
-                      <p className="text-sm text-gray-400">Convidou você para ser mentorado</p>
-                      <span className="mt-1 block text-xs text-gray-500">
-                        {formatTime(notif.timestamp)}
-                      </span>
-                    </div>
+        {/* SECTION: Notifications */}
+        {isLoading ? (
+          <div className="py-8 text-center text-gray-500">
+            <div className="mx-auto h-8 w-8 animate-spin rounded-full border-t-2 border-b-2 border-[#4DB6AC]"></div>
+          </div>
+        ) : notifications.length === 0 ? (
+          <p className="py-2 text-sm text-gray-500 italic">
+            {filter === "archived" ? "Nenhuma notificação arquivada." : "Nenhuma notificação."}
+          </p>
+        ) : (
+          <div className="grid gap-3">
+            {notifications.map((notif) => (
+              <div
+                key={notif.id}
+                className={`flex flex-col items-start justify-between gap-4 rounded-xl border p-4 transition-colors md:flex-row md:items-center ${
+                  notif.read
+                    ? "border-gray-700/50 bg-gray-800/50 hover:bg-gray-800"
+                    : "border-cyan-500/20 bg-cyan-500/5 hover:bg-cyan-500/10"
+                }`}
+              >
+                <div className="flex items-center gap-4">
+                  <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-cyan-500/30 bg-cyan-500/20">
+                    {NOTIFICATION_ICONS[notif.type]}
                   </div>
+                  <div>
+                    <h4 className={`font-medium ${notif.read ? "text-gray-300" : "text-white"}`}>
+                      {notif.title}
+                    </h4>
+                    <p className="text-sm text-gray-400">{notif.message}</p>
+                    <span className="mt-1 block text-xs text-gray-500">
+                      {formatTime(notif.createdAt)}
+                    </span>
+                  </div>
+                </div>
 
-                  {!!notif.data && (
-                    <div className="flex w-full gap-2 md:w-auto">
+                <div className="flex w-full flex-wrap gap-2 md:w-auto md:flex-nowrap">
+                  {isActionableInvite(notif) ? (
+                    <>
                       <Button
                         size="sm"
                         variant="primary"
-                        onClick={() => {
-                          onAcceptInvite(notif.data as MentorInvite);
-                          onClose();
-                        }}
+                        onClick={() => onAcceptInvite(notif)}
                         className="flex-1 md:flex-none"
                       >
                         Aceitar
@@ -103,91 +149,85 @@ export function NotificationsModal({
                       <Button
                         size="sm"
                         variant="danger"
+                        onClick={() => onRejectInvite(notif)}
+                        className="flex-1 md:flex-none"
+                      >
+                        Recusar
+                      </Button>
+                    </>
+                  ) : (
+                    notif.link && (
+                      <Button
+                        size="sm"
+                        variant="gold"
                         onClick={() => {
-                          onRejectInvite(notif.data as MentorInvite);
+                          onOpen(notif);
+                          onClose();
                         }}
                         className="flex-1 md:flex-none"
                       >
-                        Recusar
+                        Ver
                       </Button>
-                    </div>
+                    )
                   )}
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-
-        {/* SECTION: Feedbacks */}
-        <div className="space-y-4">
-          <div className="flex items-center gap-2 border-b border-gray-700 pb-2 font-medium text-yellow-500">
-            <span>📝</span>
-            <span>Feedbacks ({feedbacks.length})</span>
-          </div>
-
-          {feedbacks.length === 0 ? (
-            <p className="py-2 text-sm text-gray-500 italic">Nenhum feedback não lido.</p>
-          ) : (
-            <div className="grid gap-3">
-              {feedbacks.map((notif) => (
-                <div
-                  key={notif.id}
-                  className="flex flex-col items-start justify-between gap-4 rounded-xl border border-gray-700/50 bg-gray-800/50 p-4 transition-colors hover:bg-gray-800 md:flex-row md:items-center"
-                >
-                  <div className="flex items-center gap-4">
-                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full border border-yellow-500/30 bg-yellow-500/20 font-bold text-yellow-500">
-                      📝
-                    </div>
-                    <div>
-                      <h4 className="font-medium text-white">{notif.title}</h4>
-                      <p className="text-sm text-gray-400">{notif.message}</p>
-                      <span className="mt-1 block text-xs text-gray-500">
-                        {formatTime(notif.timestamp)}
-                      </span>
-                    </div>
-                  </div>
-
-                  <div className="flex w-full gap-2 md:w-auto">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onToggleRead(notif)}
+                    className="flex-1 md:flex-none"
+                  >
+                    {notif.read ? "Marcar não lida" : "Marcar lida"}
+                  </Button>
+                  {!notif.archived && (
                     <Button
                       size="sm"
-                      variant="gold"
-                      onClick={() => {
-                        onViewFeedback(notif);
-                        onClose();
-                      }}
+                      variant="ghost"
+                      onClick={() => onArchive(notif)}
                       className="flex-1 md:flex-none"
                     >
-                      Ver
+                      Arquivar
                     </Button>
-                  </div>
+                  )}
                 </div>
-              ))}
-            </div>
-          )}
-        </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between text-sm text-gray-400">
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={page <= 1}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              Anterior
+            </Button>
+            <span>
+              Página {page} de {totalPages}
+            </span>
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={page >= totalPages}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              Próxima
+            </Button>
+          </div>
+        )}
 
         {/* SECTION: System Announcements */}
-        <div className="space-y-4">
-          <div className="flex items-center justify-between gap-2 border-b border-gray-700 pb-2 font-medium text-cyan-400">
-            <div className="flex items-center gap-2">
+        {visibleAnnouncements.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 border-b border-gray-700 pb-2 font-medium text-cyan-400">
               <span>📢</span>
-              <span>Avisos do Sistema ({announcements.length})</span>
+              <span>Avisos do Sistema ({visibleAnnouncements.length})</span>
             </div>
-            {announcements.some((n) => !n.read) && (
-              <button
-                onClick={onReviewAnnouncements}
-                className="text-xs text-cyan-500 hover:text-cyan-400 hover:underline"
-              >
-                Marcar todos como lidos
-              </button>
-            )}
-          </div>
 
-          {announcements.length === 0 ? (
-            <p className="py-2 text-sm text-gray-500 italic">Nenhum aviso do sistema.</p>
-          ) : (
             <div className="grid gap-3">
-              {announcements.map((notif) => (
+              {visibleAnnouncements.map((notif) => (
                 <div
                   key={notif.id}
                   className={`flex cursor-pointer gap-4 rounded-xl border p-4 transition-colors ${
@@ -195,7 +235,7 @@ export function NotificationsModal({
                       ? "border-gray-700 bg-transparent text-gray-400"
                       : "border-cyan-500/20 bg-cyan-500/5 text-white hover:bg-cyan-500/10"
                   }`}
-                  onClick={() => !notif.read && onMarkRead(notif.id)}
+                  onClick={() => !notif.read && onToggleRead(notif)}
                 >
                   <div
                     className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-full ${
@@ -209,15 +249,15 @@ export function NotificationsModal({
                       <h4 className={`font-medium ${!notif.read ? "text-cyan-400" : ""}`}>
                         {notif.title}
                       </h4>
-                      <span className="text-xs text-gray-500">{formatTime(notif.timestamp)}</span>
+                      <span className="text-xs text-gray-500">{formatTime(notif.createdAt)}</span>
                     </div>
                     <p className="mt-1 text-sm">{notif.message}</p>
                   </div>
                 </div>
               ))}
             </div>
-          )}
-        </div>
+          </div>
+        )}
 
         {/* Footer Button */}
         <Button variant="gradient-danger" onClick={onClose} className="w-full py-3 font-extrabold">
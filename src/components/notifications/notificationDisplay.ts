@@ -0,0 +1,31 @@
+import type { Notification } from "@/types";
+
+export const NOTIFICATION_ICONS: Record<Notification["type"], string> = {
+  invite: "👨‍🏫",
+  feedback: "📝",
+  trade_comment: "💬",
+  share_view: "👀",
+  prop_rule_breach: "🚨",
+  import_completed: "📥",
+  review_reply: "↩️",
+  mention: "📣",
+  announcement: "📢",
+};
+
+export function formatTimeAgo(iso: string): string {
+  const date = new Date(iso);
+  const diffMs = Date.now() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return "Agora";
+  if (diffMins < 60) return `${diffMins}m atrás`;
+  if (diffHours < 24) return `${diffHours}h atrás`;
+  if (diffDays < 7) return `${diffDays}d atrás`;
+  return date.toLocaleDateString("pt-BR");
+}
+
+/** Pending invite notifications carry the invite token to accept it */
+export const isActionableInvite = (notification: Notification) =>
+  notification.type === "invite" && !notification.archived && !!notification.data?.inviteToken;
@@ -212,6 +212,7 @@ export function PlaybookFormModal({
   const [activeTab, setActiveTab] = useState<"general" | "rules">("general");
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [changelog, setChangelog] = useState("");
   const [selectedIcon, setSelectedIcon] = useState("📈");
   const [selectedColor, setSelectedColor] = useState("#3B82F6");
 
@@ -237,6 +238,7 @@ export function PlaybookFormModal({
       if (isEditMode && playbook) {
         setName(playbook.name || "");
         setDescription(playbook.description || "");
+        setChangelog("");
         setSelectedIcon(playbook.icon || "📈");
         setSelectedColor(playbook.color || "#3B82F6");
 
@@ -362,6 +364,7 @@ export function PlaybookFormModal({
   const handleReset = useCallback(() => {
     setName("");
     setDescription("");
+    setChangelog("");
     setSelectedIcon("📈");
     setSelectedColor("#3B82F6");
     initializeDefaultGroups();
@@ -381,14 +384,17 @@ export function PlaybookFormModal({
       }));
 
       if (isEditMode && playbook) {
-        await updatePlaybook({
-          ...playbook,
-          name,
-          description,
-          icon: selectedIcon,
-          color: selectedColor,
-          ruleGroups: cleanRuleGroups, // Use cleaned groups
-        });
+        await updatePlaybook(
+          {
+            ...playbook,
+            name,
+            description,
+            icon: selectedIcon,
+            color: selectedColor,
+            ruleGroups: cleanRuleGroups, // Use cleaned groups
+          },
+          changelog
+        );
       } else {
         await addPlaybook({
           userId: "", // Will be set by the store
@@ -414,6 +420,7 @@ export function PlaybookFormModal({
     playbook,
     name,
     description,
+    changelog,
     selectedIcon,
     selectedColor,
     updatePlaybook,
@@ -526,6 +533,27 @@ export function PlaybookFormModal({
               className="focus:ring-zorin-accent resize-vertical w-full rounded-lg border border-white/10 bg-black/20 px-4 py-2.5 text-gray-200 placeholder-gray-500 backdrop-blur-sm transition-all focus:ring-1 focus:outline-none"
             />
           </div>
+
+          {/* Changelog: editing the name, description or rules creates a new version */}
+          {isEditMode && (
+            <div>
+              <label className="mb-2 block text-sm font-medium text-gray-300">
+                O que mudou nesta versão?
+              </label>
+              <textarea
+                placeholder="Ex: Removida a regra de confirmação no M5"
+                value={changelog}
+                onChange={(e) => setChangelog(e.target.value)}
+                rows={2}
+                className="focus:ring-zorin-accent resize-vertical w-full rounded-lg border border-white/10 bg-black/20 px-4 py-2.5 text-gray-200 placeholder-gray-500 backdrop-blur-sm transition-all focus:ring-1 focus:outline-none"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Alterar nome, descrição ou regras cria a versão v
+                {(playbook?.currentVersion || 1) + 1}. Trades antigos continuam avaliados pela
+                versão em que foram feitos.
+              </p>
+            </div>
+          )}
         </div>
       )}
 
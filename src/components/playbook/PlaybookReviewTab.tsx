@@ -3,6 +3,9 @@
 import { useState } from "react";
 import { SegmentedToggle } from "@/components/ui";
 import { usePlaybookMetrics } from "@/hooks/usePlaybookMetrics";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { formatCurrency } from "@/lib/utils/trading";
+import { getPlaybookVersionStats } from "@/services/trades/playbookVersions";
 import { HtfView, HeatmapView, ReportView, type DrillPath } from "./views";
 import type { PlaybookReviewTabProps, ViewMode } from "@/types/playbookTypes";
 
@@ -12,11 +15,28 @@ const VIEW_FILTERS = [
   { value: "report", label: "🧠 Relatório" },
 ];
 
-export function PlaybookReviewTab({ trades, currency }: PlaybookReviewTabProps) {
+export function PlaybookReviewTab({
+  trades,
+  currency,
+  ruleGroups,
+  versions = [],
+}: PlaybookReviewTabProps) {
   const [viewMode, setViewMode] = useState<ViewMode>("htf");
   const [drillPath, setDrillPath] = useState<DrillPath>({});
+  // "all" or a version number: trades are evaluated against the rules of their version
+  const [versionFilter, setVersionFilter] = useState("all");
 
-  const { nestedMetrics, hierarchicalMetrics } = usePlaybookMetrics(trades);
+  const selectedVersion = versions.find((v) => String(v.version) === versionFilter);
+  const versionTrades = selectedVersion
+    ? trades.filter((t) => t.playbookVersion === selectedVersion.version)
+    : trades;
+
+  const { sessionSettings } = useSettingsStore();
+  const { nestedMetrics, hierarchicalMetrics, ruleMetrics } = usePlaybookMetrics(
+    versionTrades,
+    sessionSettings,
+    selectedVersion?.ruleGroups || ruleGroups
+  );
 
   if (trades.length === 0) {
     return (
@@ -28,9 +48,61 @@ export function PlaybookReviewTab({ trades, currency }: PlaybookReviewTabProps)
     );
   }
 
+  const versionStats = versions.length > 1 ? getPlaybookVersionStats(versions, trades) : [];
+
   return (
     <div className="space-y-6">
-      {/* View Mode Tabs - Using Standard Component */}
+      {/* Performance per version */}
+      {versionStats.length > 0 && (
+        <div className="space-y-3">
+          <div className="overflow-x-auto rounded-xl border border-gray-700">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800/60 text-xs text-gray-400">
+                <tr>
+                  <th className="px-3 py-2 text-left">Versão</th>
+                  <th className="px-3 py-2 text-right">Trades</th>
+                  <th className="px-3 py-2 text-right">Win Rate</th>
+                  <th className="px-3 py-2 text-right">Expectativa</th>
+                  <th className="px-3 py-2 text-right">Resultado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {versionStats.map((stats) => (
+                  <tr key={stats.version} className="border-t border-gray-700/60 text-gray-300">
+                    <td className="px-3 py-2 font-medium text-white">v{stats.version}</td>
+                    <td className="px-3 py-2 text-right">{stats.totalTrades}</td>
+                    <td className="px-3 py-2 text-right">{stats.winRate.toFixed(0)}%</td>
+                    <td className="px-3 py-2 text-right">
+                      {formatCurrency(stats.expectancy, currency)}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-right font-medium ${
+                        stats.netPnl >= 0 ? "text-emerald-400" : "text-red-400"
+                      }`}
+                    >
+                      {formatCurrency(stats.netPnl, currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <SegmentedToggle
+            value={versionFilter}
+            onChange={setVersionFilter}
+            size="sm"
+            options={[
+              { value: "all", label: "Todas as versões" },
+              ...versionStats.map((stats) => ({
+                value: String(stats.version),
+                label: `v${stats.version}`,
+              })),
+            ]}
+          />
+        </div>
+      )}
+
       {/* View Mode Tabs - Using Standard Component */}
       <SegmentedToggle
         value={viewMode}
@@ -38,19 +110,37 @@ export function PlaybookReviewTab({ trades, currency }: PlaybookReviewTabProps)
         options={VIEW_FILTERS}
       />
 
-      {/* View Content */}
-      {viewMode === "htf" && (
-        <HtfView
-          hierarchicalMetrics={hierarchicalMetrics}
-          drillPath={drillPath}
-          setDrillPath={setDrillPath}
-          currency={currency}
-        />
+      {versionTrades.length === 0 && (
+        <p className="py-6 text-center text-sm text-gray-400">
+          Nenhum trade feito com a versão v{selectedVersion?.version}.
+        </p>
       )}
 
-      {viewMode === "heatmap" && <HeatmapView nestedMetrics={nestedMetrics} currency={currency} />}
+      {/* View Content */}
+      {versionTrades.length > 0 && (
+        <>
+          {viewMode === "htf" && (
+            <HtfView
+              hierarchicalMetrics={hierarchicalMetrics}
+              drillPath={drillPath}
+              setDrillPath={setDrillPath}
+              currency={currency}
+            />
+          )}
 
-      {viewMode === "report" && <ReportView nestedMetrics={nestedMetrics} currency={currency} />}
+          {viewMode === "heatmap" && (
+            <HeatmapView nestedMetrics={nestedMetrics} currency={currency} />
+          )}
+
+          {viewMode === "report" && (
+            <ReportView
+              nestedMetrics={nestedMetrics}
+              ruleMetrics={ruleMetrics}
+              currency={currency}
+            />
+          )}
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { diffPlaybookVersions } from "@/services/trades/playbookVersions";
+import type { PlaybookVersion } from "@/types";
+
+interface PlaybookVersionHistoryProps {
+  versions: PlaybookVersion[];
+  isLoading?: boolean;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("pt-BR", { day: "2-digit", month: "short", year: "numeric" });
+
+/**
+ * Changelog of a playbook. Selecting a version shows what changed compared with
+ * the previous one.
+ */
+export function PlaybookVersionHistory({ versions, isLoading }: PlaybookVersionHistoryProps) {
+  // Newest first, as returned by getPlaybookVersionsAction
+  const sorted = [...versions].sort((a, b) => b.version - a.version);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  if (isLoading) {
+    return <div className="py-12 text-center text-gray-400">Carregando versões...</div>;
+  }
+
+  if (sorted.length === 0) {
+    return (
+      <div className="py-12 text-center text-gray-400">
+        <div className="mb-4 text-4xl">🕓</div>
+        <p>Nenhuma versão registrada.</p>
+      </div>
+    );
+  }
+
+  const current = sorted.find((v) => v.version === selected) || sorted[0];
+  const previous = sorted.find((v) => v.version < current.version);
+  const diff = previous ? diffPlaybookVersions(previous, current) : null;
+  const changedGroups = diff?.groups.filter((g) => g.added.length > 0 || g.removed.length > 0);
+
+  return (
+    <div className="grid grid-cols-1 gap-6 md:grid-cols-[240px_1fr]">
+      {/* Version list */}
+      <div className="space-y-2">
+        {sorted.map((version) => (
+          <button
+            key={version.id}
+            type="button"
+            onClick={() => setSelected(version.version)}
+            className={`w-full rounded-lg border px-3 py-2 text-left transition-colors ${
+              version.version === current.version
+                ? "border-emerald-500/50 bg-emerald-500/10"
+                : "border-gray-700 bg-gray-800/40 hover:border-gray-600"
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-semibold text-white">v{version.version}</span>
+              <span className="text-xs text-gray-500">{formatDate(version.createdAt)}</span>
+            </div>
+            <p className="mt-1 line-clamp-2 text-xs text-gray-400">
+              {version.changelog || (version.version === 1 ? "Versão inicial" : "Sem descrição")}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {/* Diff with the previous version */}
+      <div className="rounded-xl border border-gray-700 bg-gray-800/40 p-4">
+        <h4 className="mb-1 font-semibold text-white">
+          {previous ? `v${previous.version} → v${current.version}` : `v${current.version}`}
+        </h4>
+        {current.changelog && <p className="mb-4 text-sm text-gray-400">{current.changelog}</p>}
+
+        {!diff && <p className="text-sm text-gray-500">Primeira versão do playbook.</p>}
+
+        {diff && (
+          <div className="space-y-4 text-sm">
+            {diff.name && (
+              <p className="text-gray-300">
+                Nome: <span className="text-red-300 line-through">{diff.name.from}</span>{" "}
+                <span className="text-emerald-300">{diff.name.to}</span>
+              </p>
+            )}
+            {diff.description && <p className="text-gray-300">Descrição alterada.</p>}
+
+            {changedGroups && changedGroups.length > 0
+              ? changedGroups.map((group) => (
+                  <div key={group.name}>
+                    <p className="mb-1 text-xs font-medium text-gray-400">{group.name}</p>
+                    <ul className="space-y-1">
+                      {group.removed.map((rule) => (
+                        <li key={`-${rule}`} className="text-red-300">
+                          − {rule}
+                        </li>
+                      ))}
+                      {group.added.map((rule) => (
+                        <li key={`+${rule}`} className="text-emerald-300">
+                          + {rule}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))
+              : !diff.name &&
+                !diff.description && <p className="text-gray-500">Nenhuma regra alterada.</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
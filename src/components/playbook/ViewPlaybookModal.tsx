@@ -5,6 +5,8 @@ import { Modal, IconActionButton, SegmentedToggle } from "@/components/ui";
 import { TabPanel } from "@/components/ui/Tabs";
 import { PlaybookReviewTab } from "./PlaybookReviewTab";
 import { PlaybookRulesDisplay } from "./PlaybookRulesDisplay";
+import { PlaybookVersionHistory } from "./PlaybookVersionHistory";
+import { usePlaybookVersions } from "@/hooks/usePlaybookVersions";
 import type { Playbook, Trade } from "@/types";
 
 interface ViewPlaybookModalProps {
@@ -25,6 +27,10 @@ export function ViewPlaybookModal({
   currency = "USD",
 }: ViewPlaybookModalProps) {
   const [activeTab, setActiveTab] = useState("info");
+  const { data: versions = [], isLoading: isLoadingVersions } = usePlaybookVersions(
+    isOpen ? playbook?.id : undefined,
+    playbook?.currentVersion
+  );
 
   if (!playbook) return null;
 
@@ -62,6 +68,13 @@ export function ViewPlaybookModal({
           <p className="px-1 text-sm leading-relaxed text-gray-400">{playbook.description}</p>
         )}
 
+        {/* Version and lineage */}
+        <p className="px-1 text-xs text-gray-500">
+          Versão v{playbook.currentVersion || 1}
+          {playbook.sourcePlaybookId &&
+            ` · 🧬 Clonado da comunidade${playbook.sourceVersion ? ` (v${playbook.sourceVersion})` : ""}`}
+        </p>
+
         {/* Tabs */}
         <SegmentedToggle
           value={activeTab}
@@ -69,6 +82,7 @@ export function ViewPlaybookModal({
           options={[
             { value: "info", label: <>📋 Info</> },
             { value: "relatorios", label: <>📊 Relatórios</> },
+            { value: "versoes", label: <>🕓 Versões</> },
           ]}
         />
 
@@ -79,7 +93,17 @@ export function ViewPlaybookModal({
 
         {/* Tab: Relatórios (Analytics) */}
         <TabPanel value="relatorios" activeTab={activeTab}>
-          <PlaybookReviewTab trades={playbookTrades} currency={currency} />
+          <PlaybookReviewTab
+            trades={playbookTrades}
+            currency={currency}
+            ruleGroups={playbook.ruleGroups}
+            versions={versions}
+          />
+        </TabPanel>
+
+        {/* Tab: Versões (Changelog and diff) */}
+        <TabPanel value="versoes" activeTab={activeTab}>
+          <PlaybookVersionHistory versions={versions} isLoading={isLoadingVersions} />
         </TabPanel>
       </div>
     </Modal>
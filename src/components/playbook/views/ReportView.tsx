@@ -2,14 +2,95 @@
 
 import { formatCurrency } from "@/lib/utils/trading";
 import { getPdArrayIcon, getConditionIcon, getConditionLabel } from "@/lib/utils/playbook";
-import type { HtfNestedMetric } from "@/types/playbookTypes";
+import type { HtfNestedMetric, RuleComplianceStats, RuleMetric } from "@/types/playbookTypes";
 
 interface ReportViewProps {
   nestedMetrics: HtfNestedMetric[];
+  ruleMetrics?: RuleMetric[];
   currency: string;
 }
 
-export function ReportView({ nestedMetrics, currency }: ReportViewProps) {
+function RuleStatsCell({
+  label,
+  stats,
+  currency,
+}: {
+  label: string;
+  stats: RuleComplianceStats;
+  currency: string;
+}) {
+  const trades = stats.totalTrades;
+  return (
+    <div className="rounded-lg bg-gray-900/50 px-3 py-2">
+      <div className="mb-1 text-[10px] font-semibold tracking-wider text-gray-500 uppercase">
+        {label} ({trades}T)
+      </div>
+      {trades === 0 && stats.pnl === 0 ? (
+        <div className="text-xs text-gray-500">Sem trades</div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <span className="font-medium text-gray-200">WR {stats.winRate.toFixed(0)}%</span>
+          <span className={stats.expectancy >= 0 ? "text-[#04df73]" : "text-[#ff6467]"}>
+            {formatCurrency(stats.expectancy, currency)}/trade
+          </span>
+          {stats.avgRR !== null && (
+            <span className="text-gray-400">
+              {stats.avgRR >= 0 ? "+" : ""}
+              {stats.avgRR.toFixed(2)}R
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Win rate and expectancy of each playbook rule when followed vs. broken.
+ */
+function RulePerformance({
+  ruleMetrics,
+  currency,
+}: {
+  ruleMetrics: RuleMetric[];
+  currency: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="text-sm font-semibold text-amber-400">📏 DESEMPENHO POR REGRA</div>
+      {ruleMetrics.map((metric) => {
+        const edge = metric.followed.expectancy - metric.broken.expectancy;
+        const compared = metric.followed.totalTrades > 0 && metric.broken.totalTrades > 0;
+        return (
+          <div key={metric.rule} className="rounded-xl border border-gray-700 bg-gray-800/40 p-4">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <div className="text-sm font-medium text-white">{metric.rule}</div>
+                <div className="text-xs text-gray-500">{metric.group}</div>
+              </div>
+              {compared && (
+                <span
+                  className={`rounded-md px-2 py-1 text-xs font-medium ${
+                    edge >= 0 ? "bg-emerald-500/20 text-emerald-300" : "bg-red-500/20 text-red-300"
+                  }`}
+                >
+                  {edge >= 0 ? "Seguir rende" : "Quebrar rende"}{" "}
+                  {formatCurrency(Math.abs(edge), currency)}/trade
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              <RuleStatsCell label="✓ Seguida" stats={metric.followed} currency={currency} />
+              <RuleStatsCell label="✗ Quebrada" stats={metric.broken} currency={currency} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ReportView({ nestedMetrics, ruleMetrics = [], currency }: ReportViewProps) {
   const allSetups: Array<{
     htf: string;
     condition?: string;
@@ -230,6 +311,8 @@ export function ReportView({ nestedMetrics, currency }: ReportViewProps) {
           )}
         </>
       )}
+
+      {ruleMetrics.length > 0 && <RulePerformance ruleMetrics={ruleMetrics} currency={currency} />}
     </div>
   );
 }
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import dayjs from "dayjs";
+import { Modal, Button } from "@/components/ui";
+import { DatePickerInput } from "@/components/ui/DateTimePicker";
+import { cn } from "@/lib/utils/general";
+import { generatePerformanceReportAction } from "@/app/actions/reports";
+import { downloadReport, type ReportFormat } from "@/services/analytics/report";
+
+interface ReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  accountId: string;
+  /** Start of the "Tudo" preset */
+  accountCreatedAt?: string;
+}
+
+const DATE_FORMAT = "YYYY-MM-DD";
+
+const PRESETS = [
+  {
+    id: "month",
+    label: "Este mês",
+    range: () => [dayjs().startOf("month"), dayjs()],
+  },
+  {
+    id: "lastMonth",
+    label: "Mês passado",
+    range: () => [
+      dayjs().subtract(1, "month").startOf("month"),
+      dayjs().subtract(1, "month").endOf("month"),
+    ],
+  },
+  {
+    id: "year",
+    label: "Este ano",
+    range: () => [dayjs().startOf("year"), dayjs()],
+  },
+] as const;
+
+const FORMATS: { id: ReportFormat; title: string; description: string }[] = [
+  {
+    id: "xlsx",
+    title: "📊 Planilha (XLSX)",
+    description: "Trades, métricas mensais, estratégias e tags em abas.",
+  },
+  {
+    id: "pdf",
+    title: "🖨️ Resumo (PDF)",
+    description: "Resumo imprimível com curva de capital.",
+  },
+];
+
+/**
+ * Generates the performance report of the account for a date range.
+ */
+export function ReportModal({ isOpen, onClose, accountId, accountCreatedAt }: ReportModalProps) {
+  const [startDate, setStartDate] = useState(() => dayjs().startOf("month").format(DATE_FORMAT));
+  const [endDate, setEndDate] = useState(() => dayjs().format(DATE_FORMAT));
+  const [generating, setGenerating] = useState<ReportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyRange = (start: dayjs.Dayjs, end: dayjs.Dayjs) => {
+    setStartDate(start.format(DATE_FORMAT));
+    setEndDate(end.format(DATE_FORMAT));
+    setError(null);
+  };
+
+  const handleGenerate = async (format: ReportFormat) => {
+    setGenerating(format);
+    setError(null);
+    const result = await generatePerformanceReportAction(accountId, startDate, endDate, format);
+    setGenerating(null);
+
+    if (!result.success) {
+      setError(result.error || "Erro ao gerar relatório.");
+      return;
+    }
+
+    const { base64, mimeType, fileName } = result.data;
+    const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+    downloadReport(new Blob([bytes], { type: mimeType }), fileName);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="📄 Relatório de Performance" maxWidth="lg">
+      <div className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => {
+                const [start, end] = preset.range();
+                applyRange(start, end);
+              }}
+              className="rounded-lg border border-gray-700 bg-gray-800/50 px-3 py-1.5 text-xs text-gray-300 transition-colors hover:border-cyan-500/50 hover:text-cyan-300"
+            >
+              {preset.label}
+            </button>
+          ))}
+          {accountCreatedAt && (
+            <button
+              onClick={() => applyRange(dayjs(accountCreatedAt), dayjs())}
+              className="rounded-lg border border-gray-700 bg-gray-800/50 px-3 py-1.5 text-xs text-gray-300 transition-colors hover:border-cyan-500/50 hover:text-cyan-300"
+            >
+              Tudo
+            </button>
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <DatePickerInput label="De" value={startDate} onChange={setStartDate} required />
+          <DatePickerInput label="Até" value={endDate} onChange={setEndDate} required />
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {FORMATS.map((format) => (
+            <div
+              key={format.id}
+              className={cn(
+                "flex flex-col justify-between gap-3 rounded-xl border border-gray-700/50 bg-gray-800/30 p-4",
+                generating === format.id && "border-cyan-500/50"
+              )}
+            >
+              <div>
+                <span className="block text-sm font-semibold text-gray-100">{format.title}</span>
+                <span className="mt-1 block text-xs text-gray-500">{format.description}</span>
+              </div>
+              <Button
+                variant="zorin-primary"
+                size="sm"
+                onClick={() => handleGenerate(format.id)}
+                isLoading={generating === format.id}
+                disabled={!!generating || !startDate || !endDate}
+              >
+                Baixar
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Modal>
+  );
+}
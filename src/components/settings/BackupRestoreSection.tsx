@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui";
+import { cn } from "@/lib/utils/general";
+import { previewBackupRestoreAction, restoreBackupAction } from "@/app/actions/backup";
+import type { RestoreEntity, RestoreMode, RestoreReport } from "@/services/trades/restore";
+
+const ENTITY_LABELS: Record<RestoreEntity, string> = {
+  accounts: "Contas",
+  trades: "Trades",
+  journalEntries: "Journal",
+  playbooks: "Playbooks",
+  routines: "Rotinas",
+  settings: "Configurações",
+  laboratoryExperiments: "Experimentos",
+  laboratoryRecaps: "Recaps",
+  mentalLogs: "Registros mentais",
+};
+
+const RESOLUTION_LABELS = {
+  skipped: "Ignorado",
+  merged: "Mesclado",
+  renamed: "Renomeado",
+} as const;
+
+const MODES: { id: RestoreMode; title: string; description: string }[] = [
+  {
+    id: "merge",
+    title: "Mesclar com dados atuais",
+    description: "Contas com o mesmo nome recebem os dados; registros já existentes são mantidos.",
+  },
+  {
+    id: "fresh",
+    title: "Restaurar em contas novas",
+    description: "Cada conta do backup vira uma nova conta; as atuais não são alteradas.",
+  },
+];
+
+/**
+ * Restores a JSON backup: pick the file and mode, review the report, confirm.
+ */
+export function BackupRestoreSection() {
+  const router = useRouter();
+  const [backup, setBackup] = useState<unknown>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = async (data: unknown, selectedMode: RestoreMode) => {
+    setIsLoading(true);
+    setError(null);
+    setReport(null);
+    const result = await previewBackupRestoreAction(data, selectedMode);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setError(result.error || "Erro ao ler backup.");
+      return;
+    }
+    setReport(result.data);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setIsDone(false);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setBackup(null);
+      setReport(null);
+      setError("Arquivo de backup inválido.");
+      return;
+    }
+    setBackup(data);
+    await preview(data, mode);
+  };
+
+  const handleModeChange = (selectedMode: RestoreMode) => {
+    setMode(selectedMode);
+    if (backup && !isDone) preview(backup, selectedMode);
+  };
+
+  const handleRestore = async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await restoreBackupAction(backup, mode);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setError(result.error || "Erro ao restaurar backup.");
+      return;
+    }
+    setReport(result.data);
+    setIsDone(true);
+    router.refresh();
+  };
+
+  const restoredTotal = report
+    ? Object.values(report.counts).reduce((sum, count) => sum + count.restored, 0)
+    : 0;
+
+  return (
+    <div className="space-y-4 border-t border-gray-800 pt-6">
+      <div>
+        <h4 className="font-semibold text-gray-100">♻️ Restaurar Backup</h4>
+        <p className="mt-1 text-sm text-gray-500">
+          Importe um arquivo .json gerado por &quot;Baixar Backup&quot;.
+        </p>
+      </div>
+
+      <label className="flex cursor-pointer items-center justify-between gap-3 rounded-xl border border-dashed border-gray-700 bg-gray-800/30 px-4 py-3 text-sm text-gray-300 hover:border-gray-600">
+        <span className="truncate">{fileName || "Selecionar arquivo de backup"}</span>
+        <span className="text-xs text-cyan-400">Procurar</span>
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </label>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {MODES.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => handleModeChange(option.id)}
+            disabled={isLoading || isDone}
+            className={cn(
+              "rounded-xl border p-4 text-left transition-all disabled:opacity-60",
+              mode === option.id
+                ? "border-cyan-500/50 bg-cyan-500/10"
+                : "border-gray-700/50 bg-gray-800/30 hover:border-gray-600"
+            )}
+          >
+            <span className="block text-sm font-semibold text-gray-100">{option.title}</span>
+            <span className="mt-1 block text-xs text-gray-500">{option.description}</span>
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {report && (
+        <div className="space-y-3">
+          {isDone && (
+            <p className="rounded-lg border border-emerald-500/30 bg-emerald-500/10 p-3 text-sm text-emerald-300">
+              Backup restaurado com sucesso.
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {(Object.keys(ENTITY_LABELS) as RestoreEntity[]).map((entity) => (
+              <div key={entity} className="rounded-lg border border-gray-700 bg-gray-800/50 p-2">
+                <span className="block text-[10px] font-bold tracking-wider text-gray-500 uppercase">
+                  {ENTITY_LABELS[entity]}
+                </span>
+                <span className="text-lg font-bold text-emerald-400">
+                  {report.counts[entity].restored}
+                </span>
+                {report.counts[entity].skipped > 0 && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    {report.counts[entity].skipped} ignorado(s)
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {report.conflicts.length > 0 && (
+            <div className="space-y-1">
+              <h5 className="text-sm font-medium text-gray-300">
+                Conflitos ({report.conflicts.length})
+              </h5>
+              <ul className="max-h-48 divide-y divide-gray-800 overflow-y-auto rounded-lg border border-gray-700 bg-black/20">
+                {report.conflicts.map((conflict, index) => (
+                  <li key={index} className="flex items-center justify-between gap-3 px-3 py-1.5">
+                    <span className="truncate text-xs text-gray-300">
+                      <span className="text-gray-500">{ENTITY_LABELS[conflict.entity]}:</span>{" "}
+                      {conflict.name}
+                      {conflict.detail && (
+                        <span className="text-gray-500">
+                          {conflict.resolution === "renamed" ? " → " : " · "}
+                          {conflict.detail}
+                        </span>
+                      )}
+                    </span>
+                    <span className="shrink-0 text-[10px] font-bold tracking-wider text-yellow-400 uppercase">
+                      {RESOLUTION_LABELS[conflict.resolution]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!isDone && (
+            <Button
+              variant="gradient-info"
+              onClick={handleRestore}
+              className="w-full py-3 text-base font-extrabold"
+              disabled={isLoading || restoredTotal === 0}
+            >
+              {isLoading
+                ? "Restaurando..."
+                : restoredTotal === 0
+                  ? "Nada para restaurar"
+                  : "♻️ Restaurar Backup"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {isLoading && !report && <p className="text-sm text-gray-500">Analisando backup...</p>}
+    </div>
+  );
+}
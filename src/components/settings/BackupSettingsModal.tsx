@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { Modal, Button } from "@/components/ui";
 import { exportAllData, downloadAsJSON } from "@/services/trades/export";
+import { BackupRestoreSection } from "./BackupRestoreSection";
 
 interface BackupSettingsModalProps {
   isOpen: boolean;
@@ -75,7 +76,7 @@ export function BackupSettingsModal({ isOpen, onClose }: BackupSettingsModalProp
   };
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="📥 Baixar Backup" maxWidth="lg">
+    <Modal isOpen={isOpen} onClose={onClose} title="📥 Backup" maxWidth="lg">
       <div className="space-y-8">
         <p className="text-sm text-gray-400">Selecione o que você deseja incluir no backup.</p>
 
@@ -131,6 +132,8 @@ export function BackupSettingsModal({ isOpen, onClose }: BackupSettingsModalProp
         >
           {isExporting ? "Exportando..." : `📥 Baixar Backup (${selectedCount} itens)`}
         </Button>
+
+        <BackupRestoreSection />
       </div>
     </Modal>
   );
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { Modal, Input, Button } from "@/components/ui";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import type { BrokerFeeProfile } from "@/types";
+
+interface BrokerFeesSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { name: "", brokeragePerTrade: "", brokeragePerContract: "", issPct: "" };
+
+const fmt = (val: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(val);
+
+const parseAmount = (value: string) => parseFloat(value.replace(",", ".")) || 0;
+
+export function BrokerFeesSettingsModal({ isOpen, onClose }: BrokerFeesSettingsModalProps) {
+  const { brokerFees, saveBrokerFees } = useSettingsStore();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const brokers = brokerFees.brokers;
+
+  const addBroker = () => {
+    const name = form.name.trim();
+    if (!name || brokers.some((b) => b.name === name)) return;
+
+    const broker: BrokerFeeProfile = {
+      name,
+      brokeragePerTrade: parseAmount(form.brokeragePerTrade),
+      brokeragePerContract: parseAmount(form.brokeragePerContract),
+      issPct: parseAmount(form.issPct),
+    };
+    saveBrokerFees({
+      brokers: [...brokers, broker],
+      defaultBroker: brokerFees.defaultBroker || name,
+    });
+    setForm(EMPTY_FORM);
+  };
+
+  const removeBroker = (name: string) => {
+    const remaining = brokers.filter((b) => b.name !== name);
+    saveBrokerFees({
+      brokers: remaining,
+      defaultBroker:
+        brokerFees.defaultBroker === name ? remaining[0]?.name : brokerFees.defaultBroker,
+    });
+  };
+
+  const setDefaultBroker = (name: string) => {
+    saveBrokerFees({ ...brokerFees, defaultBroker: name });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="🏦 Corretoras e Custos" maxWidth="lg">
+      <div className="space-y-6">
+        <p className="text-sm text-gray-400">
+          Configure a corretagem e o ISS de cada corretora. Emolumentos e liquidação da B3 são
+          calculados automaticamente a partir do volume financeiro.
+        </p>
+
+        {/* Add new broker */}
+        <div className="space-y-3">
+          <Input
+            label="Corretora"
+            placeholder="Nome (ex: Clear, XP)"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <div className="grid grid-cols-3 gap-3">
+            <Input
+              label="Por ordem (R$)"
+              type="number"
+              step="0.01"
+              placeholder="0,00"
+              value={form.brokeragePerTrade}
+              onChange={(e) => setForm({ ...form, brokeragePerTrade: e.target.value })}
+            />
+            <Input
+              label="Por contrato (R$)"
+              type="number"
+              step="0.01"
+              placeholder="0,00"
+              value={form.brokeragePerContract}
+              onChange={(e) => setForm({ ...form, brokeragePerContract: e.target.value })}
+            />
+            <Input
+              label="ISS (%)"
+              type="number"
+              step="0.01"
+              placeholder="5"
+              value={form.issPct}
+              onChange={(e) => setForm({ ...form, issPct: e.target.value })}
+            />
+          </div>
+          <Button
+            variant="gradient-success"
+            onClick={addBroker}
+            disabled={!form.name.trim()}
+            className="h-12 w-full font-extrabold"
+          >
+            Adicionar
+          </Button>
+        </div>
+
+        {/* Broker list */}
+        <div className="space-y-3">
+          {brokers.map((broker) => {
+            const isDefault = brokerFees.defaultBroker === broker.name;
+            return (
+              <div
+                key={broker.name}
+                className="group flex items-center justify-between rounded-xl border border-gray-700/50 bg-gray-800/50 px-4 py-3 transition-all hover:border-gray-600 hover:bg-gray-800"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-200">{broker.name}</span>
+                    {isDefault && (
+                      <span className="rounded-full bg-cyan-500/20 px-2 py-0.5 text-xs text-cyan-400">
+                        Padrão
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {fmt(broker.brokeragePerTrade)} por ordem · {fmt(broker.brokeragePerContract)}{" "}
+                    por contrato · ISS {broker.issPct}%
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {!isDefault && (
+                    <button
+                      onClick={() => setDefaultBroker(broker.name)}
+                      className="rounded-lg px-2 py-1 text-xs text-gray-400 transition-all hover:bg-cyan-500/20 hover:text-cyan-400"
+                    >
+                      Tornar padrão
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeBroker(broker.name)}
+                    className="rounded-full p-1.5 text-gray-500 opacity-0 transition-all group-hover:opacity-100 hover:bg-red-500/20 hover:text-red-400"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <line x1="18" y1="6" x2="6" y2="18" />
+                      <line x1="6" y1="6" x2="18" y2="18" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {brokers.length === 0 && (
+          <p className="text-center text-sm text-gray-500 italic">
+            Nenhuma corretora configurada. Adicione sua primeira corretora acima.
+          </p>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import { Modal, Input, Button, Switch } from "@/components/ui";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { CALENDAR_CURRENCIES, getBlackoutRule } from "@/services/analytics/news";
+import type { NewsBlackoutRule, NewsImpact, NewsSettings } from "@/types";
+
+interface NewsSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const IMPACT_OPTIONS: { value: NewsImpact; label: string; activeClass: string }[] = [
+  { value: "high", label: "Alto", activeClass: "border-red-500/50 bg-red-500/20 text-red-400" },
+  {
+    value: "medium",
+    label: "Médio",
+    activeClass: "border-orange-500/50 bg-orange-500/20 text-orange-400",
+  },
+  {
+    value: "low",
+    label: "Baixo",
+    activeClass: "border-yellow-500/50 bg-yellow-500/20 text-yellow-400",
+  },
+];
+
+const MAX_WINDOW_MINUTES = 24 * 60;
+
+const isValidWindow = (window: { minutesBefore: number; minutesAfter: number }) =>
+  window.minutesBefore >= 0 &&
+  window.minutesAfter >= 0 &&
+  window.minutesBefore <= MAX_WINDOW_MINUTES &&
+  window.minutesAfter <= MAX_WINDOW_MINUTES;
+
+function ImpactToggles({
+  impacts,
+  onToggle,
+}: {
+  impacts: NewsImpact[];
+  onToggle: (impact: NewsImpact) => void;
+}) {
+  return (
+    <div className="flex gap-2">
+      {IMPACT_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onToggle(option.value)}
+          className={`flex-1 rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${
+            impacts.includes(option.value)
+              ? option.activeClass
+              : "border-gray-700 bg-gray-800/50 text-gray-500 hover:text-gray-300"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const toggleItem = <T,>(list: T[], item: T): T[] =>
+  list.includes(item) ? list.filter((i) => i !== item) : [...list, item];
+
+export function NewsSettingsModal({ isOpen, onClose }: NewsSettingsModalProps) {
+  const { newsSettings, saveNewsSettings } = useSettingsStore();
+  // Unsaved edits; null shows the stored settings
+  const [draft, setDraft] = useState<NewsSettings | null>(null);
+
+  const form = draft ?? newsSettings;
+  const blackout = getBlackoutRule(form);
+  const isValid =
+    form.impacts.length > 0 &&
+    isValidWindow(form) &&
+    (!blackout.enabled || (blackout.impacts.length > 0 && isValidWindow(blackout)));
+
+  const update = (changes: Partial<NewsSettings>) => setDraft({ ...form, ...changes });
+  const updateBlackout = (changes: Partial<NewsBlackoutRule>) =>
+    update({ blackout: { ...blackout, ...changes } });
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!isValid) return;
+    saveNewsSettings(form);
+    handleClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="📰 Notícias" maxWidth="lg">
+      <div className="space-y-6">
+        <p className="text-sm text-gray-400">
+          Trades com eventos do calendário econômico das moedas do ativo dentro desta janela são
+          marcados como operados durante notícia.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Minutos antes da entrada"
+            type="number"
+            min={0}
+            max={MAX_WINDOW_MINUTES}
+            value={form.minutesBefore}
+            onChange={(e) => update({ minutesBefore: Number(e.target.value) || 0 })}
+          />
+          <Input
+            label="Minutos depois da entrada"
+            type="number"
+            min={0}
+            max={MAX_WINDOW_MINUTES}
+            value={form.minutesAfter}
+            onChange={(e) => update({ minutesAfter: Number(e.target.value) || 0 })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-400">Impacto dos eventos</label>
+          <ImpactToggles
+            impacts={form.impacts}
+            onToggle={(impact) => update({ impacts: toggleItem(form.impacts, impact) })}
+          />
+        </div>
+
+        {/* Blackout rule */}
+        <div className="space-y-4 border-t border-gray-700/50 pt-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-semibold text-gray-200">🚫 Blackout de notícias</p>
+              <p className="text-xs text-gray-500">
+                Avisa no checklist e ao registrar entradas perto de eventos.
+              </p>
+            </div>
+            <Switch
+              checked={blackout.enabled}
+              onCheckedChange={(enabled) => updateBlackout({ enabled })}
+            />
+          </div>
+
+          {blackout.enabled && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="Minutos antes do evento"
+                  type="number"
+                  min={0}
+                  max={MAX_WINDOW_MINUTES}
+                  value={blackout.minutesBefore}
+                  onChange={(e) => updateBlackout({ minutesBefore: Number(e.target.value) || 0 })}
+                />
+                <Input
+                  label="Minutos depois do evento"
+                  type="number"
+                  min={0}
+                  max={MAX_WINDOW_MINUTES}
+                  value={blackout.minutesAfter}
+                  onChange={(e) => updateBlackout({ minutesAfter: Number(e.target.value) || 0 })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-xs font-medium text-gray-400">Impacto</label>
+                <ImpactToggles
+                  impacts={blackout.impacts}
+                  onToggle={(impact) =>
+                    updateBlackout({ impacts: toggleItem(blackout.impacts, impact) })
+                  }
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-xs font-medium text-gray-400">
+                  Moedas (nenhuma = moedas do ativo operado)
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {CALENDAR_CURRENCIES.map((currency) => (
+                    <button
+                      key={currency}
+                      type="button"
+                      onClick={() =>
+                        updateBlackout({ currencies: toggleItem(blackout.currencies, currency) })
+                      }
+                      className={`rounded-lg border px-3 py-1.5 font-mono text-xs font-medium transition-colors ${
+                        blackout.currencies.includes(currency)
+                          ? "border-cyan-500/50 bg-cyan-500/20 text-cyan-400"
+                          : "border-gray-700 bg-gray-800/50 text-gray-500 hover:text-gray-300"
+                      }`}
+                    >
+                      {currency}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <Button
+          variant="gradient-success"
+          onClick={handleSave}
+          disabled={!isValid}
+          className="h-12 w-full font-extrabold"
+        >
+          Salvar
+        </Button>
+      </div>
+    </Modal>
+  );
+}
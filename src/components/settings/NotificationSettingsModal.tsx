@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { Modal, Button, Input, SegmentedToggle, Switch } from "@/components/ui";
+import { useToast } from "@/providers/ToastProvider";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { sendTestDigestAction } from "@/app/actions/notifications";
+import { NOTIFICATION_TYPE_LABELS, isValidWebhookUrl } from "@/services/notifications";
+import type {
+  DigestChannelKind,
+  DigestFrequency,
+  DigestSettings,
+  NotificationSettings,
+  NotificationType,
+} from "@/types";
+
+interface NotificationSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[];
+
+const FREQUENCY_OPTIONS = [
+  { value: "off", label: "Desligado" },
+  { value: "daily", label: "Diário" },
+  { value: "weekly", label: "Semanal" },
+];
+
+const CHANNEL_OPTIONS: { value: DigestChannelKind; label: string }[] = [
+  { value: "email", label: "✉️ E-mail" },
+  { value: "webhook", label: "🔗 Webhook" },
+];
+
+export function NotificationSettingsModal({ isOpen, onClose }: NotificationSettingsModalProps) {
+  const { notificationSettings, saveNotificationSettings, digestSettings, saveDigestSettings } =
+    useSettingsStore();
+  const { showToast } = useToast();
+  // Unsaved edits; null shows the stored settings
+  const [draft, setDraft] = useState<NotificationSettings | null>(null);
+  const [digestDraft, setDigestDraft] = useState<DigestSettings | null>(null);
+  const [isSendingTest, setIsSendingTest] = useState(false);
+
+  const form = draft ?? notificationSettings;
+  const digest = digestDraft ?? digestSettings;
+  const needsWebhook = digest.frequency !== "off" && digest.channels.includes("webhook");
+  const isValid =
+    digest.frequency === "off" ||
+    (digest.channels.length > 0 && (!needsWebhook || isValidWebhookUrl(digest.webhookUrl)));
+
+  const toggleType = (type: NotificationType, enabled: boolean) =>
+    setDraft({
+      ...form,
+      disabledTypes: enabled
+        ? form.disabledTypes.filter((t) => t !== type)
+        : [...form.disabledTypes, type],
+    });
+
+  const updateDigest = (changes: Partial<DigestSettings>) =>
+    setDigestDraft({ ...digest, ...changes });
+
+  const toggleChannel = (channel: DigestChannelKind) =>
+    updateDigest({
+      channels: digest.channels.includes(channel)
+        ? digest.channels.filter((c) => c !== channel)
+        : [...digest.channels, channel],
+    });
+
+  const handleClose = () => {
+    setDraft(null);
+    setDigestDraft(null);
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!isValid) return;
+    saveNotificationSettings(form);
+    saveDigestSettings({
+      ...digest,
+      webhookUrl: digest.webhookUrl?.trim() || undefined,
+    });
+    handleClose();
+  };
+
+  // Sends with the saved settings, so unsaved edits are not used
+  const handleSendTest = async () => {
+    setIsSendingTest(true);
+    try {
+      const result = await sendTestDigestAction();
+      if (result.success) {
+        const failed = result.data.filter((r) => !r.success);
+        showToast(
+          failed.length > 0
+            ? `Resumo enviado, mas falhou em: ${failed.map((r) => r.kind).join(", ")}`
+            : "Resumo de teste enviado!",
+          failed.length > 0 ? "warning" : "success"
+        );
+      } else {
+        showToast(`Erro ao enviar resumo: ${result.error}`, "error");
+      }
+    } finally {
+      setIsSendingTest(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="🔔 Notificações" maxWidth="lg">
+      <div className="space-y-6">
+        <p className="text-sm text-gray-400">
+          Escolha quais eventos geram notificações no sino. Tipos desativados deixam de ser
+          registrados.
+        </p>
+
+        <div className="space-y-3">
+          {NOTIFICATION_TYPES.map((type) => (
+            <div
+              key={type}
+              className="flex items-center justify-between gap-4 rounded-lg border border-gray-700 bg-gray-800/40 px-4 py-3"
+            >
+              <span className="text-sm text-gray-200">{NOTIFICATION_TYPE_LABELS[type]}</span>
+              <Switch
+                checked={!form.disabledTypes.includes(type)}
+                onCheckedChange={(enabled) => toggleType(type, enabled)}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Digest outside the app */}
+        <div className="space-y-4 border-t border-gray-700/50 pt-4">
+          <div>
+            <p className="font-semibold text-gray-200">📬 Resumo por e-mail / webhook</p>
+            <p className="text-xs text-gray-500">
+              Feedbacks não lidos, novos comentários nos seus trades, convites pendentes e o resumo
+              semanal de performance.
+            </p>
+          </div>
+
+          <SegmentedToggle
+            value={digest.frequency}
+            onChange={(value) => updateDigest({ frequency: value as DigestFrequency })}
+            options={FREQUENCY_OPTIONS}
+            size="sm"
+          />
+
+          {digest.frequency !== "off" && (
+            <>
+              <div className="space-y-2">
+                <label className="text-xs font-medium text-gray-400">Canais</label>
+                <div className="flex gap-2">
+                  {CHANNEL_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => toggleChannel(option.value)}
+                      className={`flex-1 rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${
+                        digest.channels.includes(option.value)
+                          ? "border-cyan-500/50 bg-cyan-500/20 text-cyan-400"
+                          : "border-gray-700 bg-gray-800/50 text-gray-500 hover:text-gray-300"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {needsWebhook && (
+                <Input
+                  label="URL do webhook (https)"
+                  placeholder="https://hooks.exemplo.com/journal"
+                  value={digest.webhookUrl || ""}
+                  onChange={(e) => updateDigest({ webhookUrl: e.target.value })}
+                  error={
+                    digest.webhookUrl && !isValidWebhookUrl(digest.webhookUrl)
+                      ? "Use uma URL https pública"
+                      : undefined
+                  }
+                />
+              )}
+
+              <Button
+                variant="secondary"
+                onClick={handleSendTest}
+                disabled={isSendingTest || digestDraft !== null}
+                className="w-full"
+              >
+                {isSendingTest ? "Enviando..." : "Enviar resumo de teste"}
+              </Button>
+              {digestDraft !== null && (
+                <p className="text-xs text-gray-500">Salve as alterações para enviar um teste.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <Button
+          variant="gradient-success"
+          onClick={handleSave}
+          disabled={!isValid}
+          className="h-12 w-full font-extrabold"
+        >
+          Salvar
+        </Button>
+      </div>
+    </Modal>
+  );
+}
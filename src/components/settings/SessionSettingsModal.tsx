@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Modal,
+  Input,
+  Button,
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { MARKET_SESSIONS } from "@/lib/utils/trading";
+import type { SessionWindow } from "@/types";
+
+interface SessionSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TIMEZONES = [
+  { value: "America/Sao_Paulo", label: "America/Sao_Paulo (Brasília)" },
+  { value: "America/New_York", label: "America/New_York (ET)" },
+  { value: "America/Chicago", label: "America/Chicago (CT)" },
+  { value: "Europe/London", label: "Europe/London (UK)" },
+  { value: "Europe/Lisbon", label: "Europe/Lisbon (Portugal)" },
+  { value: "Europe/Helsinki", label: "Europe/Helsinki (MT4/MT5)" },
+  { value: "Asia/Tokyo", label: "Asia/Tokyo (Japão)" },
+  { value: "Etc/UTC", label: "UTC" },
+];
+
+const EMPTY_FORM: SessionWindow = {
+  name: "",
+  timezone: "America/New_York",
+  start: "",
+  end: "",
+};
+
+const selectTriggerClass =
+  "flex h-12 w-full items-center justify-between rounded-lg border border-gray-700 bg-[#232b32] px-3 text-sm text-white focus:border-cyan-500 focus:ring-cyan-500";
+const selectItemClass = "cursor-pointer py-2 text-gray-200 hover:bg-gray-700 focus:bg-gray-700";
+
+export function SessionSettingsModal({ isOpen, onClose }: SessionSettingsModalProps) {
+  const { sessionSettings, saveSessionSettings } = useSettingsStore();
+  const [form, setForm] = useState<SessionWindow>(EMPTY_FORM);
+
+  const customSessions = sessionSettings.customSessions;
+  const canAdd = !!form.name.trim() && !!form.start && !!form.end && form.start !== form.end;
+
+  const addSession = () => {
+    const name = form.name.trim();
+    if (!canAdd || customSessions.some((s) => s.name === name)) return;
+
+    saveSessionSettings({
+      ...sessionSettings,
+      customSessions: [...customSessions, { ...form, name }],
+    });
+    setForm(EMPTY_FORM);
+  };
+
+  const removeSession = (name: string) => {
+    saveSessionSettings({
+      ...sessionSettings,
+      customSessions: customSessions.filter((s) => s.name !== name),
+    });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="🕒 Sessões de Trading" maxWidth="lg">
+      <div className="space-y-6">
+        {/* User timezone */}
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-400">
+            Fuso horário dos seus registros
+          </label>
+          <Select
+            value={sessionSettings.timezone}
+            onValueChange={(timezone) => saveSessionSettings({ ...sessionSettings, timezone })}
+          >
+            <SelectTrigger className={selectTriggerClass}>
+              <SelectValue placeholder="Selecione..." />
+            </SelectTrigger>
+            <SelectContent className="border-gray-700 bg-gray-800">
+              {TIMEZONES.map((tz) => (
+                <SelectItem key={tz.value} value={tz.value} className={selectItemClass}>
+                  {tz.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            As sessões de mercado seguem o horário local de cada bolsa (com horário de verão):{" "}
+            {Object.values(MARKET_SESSIONS)
+              .map((s) => `${s.name} ${s.start}–${s.end}`)
+              .join(" · ")}
+            .
+          </p>
+        </div>
+
+        {/* Add custom session */}
+        <div className="space-y-3 border-t border-gray-700/50 pt-4">
+          <p className="text-sm text-gray-400">
+            Sessões personalizadas (killzones) têm prioridade sobre as sessões de mercado.
+          </p>
+          <Input
+            label="Nome"
+            placeholder="Ex: NY AM Killzone, Silver Bullet"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <div className="grid grid-cols-3 gap-3">
+            <Input
+              label="Início"
+              type="time"
+              value={form.start}
+              onChange={(e) => setForm({ ...form, start: e.target.value })}
+            />
+            <Input
+              label="Fim"
+              type="time"
+              value={form.end}
+              onChange={(e) => setForm({ ...form, end: e.target.value })}
+            />
+            <div className="flex flex-col gap-1.5">
+              <label className="text-xs font-medium text-gray-400">Fuso</label>
+              <Select
+                value={form.timezone}
+                onValueChange={(timezone) => setForm({ ...form, timezone })}
+              >
+                <SelectTrigger className={selectTriggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="border-gray-700 bg-gray-800">
+                  {TIMEZONES.map((tz) => (
+                    <SelectItem key={tz.value} value={tz.value} className={selectItemClass}>
+                      {tz.value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button
+            variant="gradient-success"
+            onClick={addSession}
+            disabled={!canAdd}
+            className="h-12 w-full font-extrabold"
+          >
+            Adicionar
+          </Button>
+        </div>
+
+        {/* Custom session list */}
+        <div className="space-y-3">
+          {customSessions.map((session) => (
+            <div
+              key={session.name}
+              className="group flex items-center justify-between rounded-xl border border-gray-700/50 bg-gray-800/50 px-4 py-3 transition-all hover:border-gray-600 hover:bg-gray-800"
+            >
+              <div>
+                <span className="font-medium text-gray-200">🎯 {session.name}</span>
+                <p className="text-xs text-gray-500">
+                  {session.start}–{session.end} · {session.timezone}
+                </p>
+              </div>
+              <button
+                onClick={() => removeSession(session.name)}
+                className="rounded-full p-1.5 text-gray-500 opacity-0 transition-all group-hover:opacity-100 hover:bg-red-500/20 hover:text-red-400"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <line x1="18" y1="6" x2="6" y2="18" />
+                  <line x1="6" y1="6" x2="18" y2="18" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {customSessions.length === 0 && (
+          <p className="text-center text-sm text-gray-500 italic">
+            Nenhuma sessão personalizada. Adicione sua primeira killzone acima.
+          </p>
+        )}
+      </div>
+    </Modal>
+  );
+}
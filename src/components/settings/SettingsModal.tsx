@@ -7,6 +7,11 @@ import { MentorshipSettings } from "./MentorshipSettings";
 import { AssetsModal } from "./AssetsModal";
 import { CurrencySettingsModal } from "./CurrencySettingsModal";
 import { LeverageSettingsModal } from "./LeverageSettingsModal";
+import { BrokerFeesSettingsModal } from "./BrokerFeesSettingsModal";
+import { SessionSettingsModal } from "./SessionSettingsModal";
+import { NewsSettingsModal } from "./NewsSettingsModal";
+import { SizingSettingsModal } from "./SizingSettingsModal";
+import { NotificationSettingsModal } from "./NotificationSettingsModal";
 import { SetupSettingsModal } from "./SetupSettingsModal";
 import { BackupSettingsModal } from "./BackupSettingsModal";
 import { ProfileSettingsModal } from "./ProfileSettingsModal";
@@ -88,7 +93,8 @@ function SettingsCard({ icon, title, description, count, onClick }: SettingsCard
 
 export function SettingsModal({ isOpen, onClose, accountId }: SettingsModalProps) {
   // Global Settings State from Store
-  const { currencies, leverages, setups, loadSettings } = useSettingsStore();
+  const { currencies, leverages, setups, brokerFees, sessionSettings, loadSettings } =
+    useSettingsStore();
 
   // Load settings from Supabase when modal opens
   useEffect(() => {
@@ -100,6 +106,11 @@ export function SettingsModal({ isOpen, onClose, accountId }: SettingsModalProps
   const [isAssetsModalOpen, setIsAssetsModalOpen] = useState(false);
   const [isCurrencyModalOpen, setIsCurrencyModalOpen] = useState(false);
   const [isLeverageModalOpen, setIsLeverageModalOpen] = useState(false);
+  const [isBrokerFeesModalOpen, setIsBrokerFeesModalOpen] = useState(false);
+  const [isSessionModalOpen, setIsSessionModalOpen] = useState(false);
+  const [isNewsModalOpen, setIsNewsModalOpen] = useState(false);
+  const [isSizingModalOpen, setIsSizingModalOpen] = useState(false);
+  const [isNotificationModalOpen, setIsNotificationModalOpen] = useState(false);
   const [isMentorModalOpen, setIsMentorModalOpen] = useState(false);
   const [isSetupModalOpen, setIsSetupModalOpen] = useState(false);
   const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
@@ -141,6 +152,43 @@ export function SettingsModal({ isOpen, onClose, accountId }: SettingsModalProps
                 onClick={() => setIsLeverageModalOpen(true)}
               />
 
+              <SettingsCard
+                icon="🏦"
+                title="Corretoras"
+                description="Configure corretagem e ISS para o cálculo de custos e IR"
+                count={brokerFees.brokers.length}
+                onClick={() => setIsBrokerFeesModalOpen(true)}
+              />
+
+              <SettingsCard
+                icon="🕒"
+                title="Sessões de Trading"
+                description="Configure seu fuso horário e sessões personalizadas (killzones)"
+                count={sessionSettings.customSessions.length}
+                onClick={() => setIsSessionModalOpen(true)}
+              />
+
+              <SettingsCard
+                icon="📰"
+                title="Notícias"
+                description="Janela de notícias dos trades e regra de blackout antes das entradas"
+                onClick={() => setIsNewsModalOpen(true)}
+              />
+
+              <SettingsCard
+                icon="📐"
+                title="Gestão de Risco"
+                description="Risco por trade e método de cálculo do lote sugerido"
+                onClick={() => setIsSizingModalOpen(true)}
+              />
+
+              <SettingsCard
+                icon="🔔"
+                title="Notificações"
+                description="Escolha quais eventos geram notificações"
+                onClick={() => setIsNotificationModalOpen(true)}
+              />
+
               <SettingsCard
                 icon="🎓"
                 title="Mentoria"
@@ -161,7 +209,7 @@ export function SettingsModal({ isOpen, onClose, accountId }: SettingsModalProps
                   <SettingsCard
                     icon="📥"
                     title="Backup"
-                    description="Baixe seus dados (trades, playbooks, journal)"
+                    description="Baixe ou restaure seus dados (trades, playbooks, journal)"
                     onClick={() => setIsBackupModalOpen(true)}
                   />
                 </div>
@@ -202,6 +250,20 @@ export function SettingsModal({ isOpen, onClose, accountId }: SettingsModalProps
         isOpen={isLeverageModalOpen}
         onClose={() => setIsLeverageModalOpen(false)}
       />
+      <BrokerFeesSettingsModal
+        isOpen={isBrokerFeesModalOpen}
+        onClose={() => setIsBrokerFeesModalOpen(false)}
+      />
+      <SessionSettingsModal
+        isOpen={isSessionModalOpen}
+        onClose={() => setIsSessionModalOpen(false)}
+      />
+      <NewsSettingsModal isOpen={isNewsModalOpen} onClose={() => setIsNewsModalOpen(false)} />
+      <SizingSettingsModal isOpen={isSizingModalOpen} onClose={() => setIsSizingModalOpen(false)} />
+      <NotificationSettingsModal
+        isOpen={isNotificationModalOpen}
+        onClose={() => setIsNotificationModalOpen(false)}
+      />
       <SetupSettingsModal isOpen={isSetupModalOpen} onClose={() => setIsSetupModalOpen(false)} />
       <BackupSettingsModal isOpen={isBackupModalOpen} onClose={() => setIsBackupModalOpen(false)} />
       <ProfileSettingsModal
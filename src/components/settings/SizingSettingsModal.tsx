@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Modal, Input, Button } from "@/components/ui";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { MIN_KELLY_TRADES } from "@/services/trades/positionSizing";
+import type { PositionSizingMethod, SizingSettings } from "@/types";
+
+interface SizingSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const METHOD_OPTIONS: { value: PositionSizingMethod; label: string; description: string }[] = [
+  {
+    value: "fixed_fractional",
+    label: "% do saldo",
+    description: "Arrisca uma porcentagem fixa do saldo atual da conta em cada trade.",
+  },
+  {
+    value: "fixed_amount",
+    label: "Valor fixo",
+    description: "Arrisca sempre o mesmo valor em dinheiro por trade.",
+  },
+  {
+    value: "kelly",
+    label: "Kelly",
+    description: `Fração do Kelly calculado pelas estatísticas do playbook (mín. ${MIN_KELLY_TRADES} trades), limitada ao risco máximo em %.`,
+  },
+];
+
+export function SizingSettingsModal({ isOpen, onClose }: SizingSettingsModalProps) {
+  const { sizingSettings, saveSizingSettings } = useSettingsStore();
+  // Unsaved edits; null shows the stored settings
+  const [draft, setDraft] = useState<SizingSettings | null>(null);
+
+  const form = draft ?? sizingSettings;
+  const isValid =
+    form.riskPercent > 0 &&
+    form.riskPercent <= 100 &&
+    form.riskAmount > 0 &&
+    form.kellyFraction > 0 &&
+    form.kellyFraction <= 1;
+
+  const update = (changes: Partial<SizingSettings>) => setDraft({ ...form, ...changes });
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!isValid) return;
+    saveSizingSettings(form);
+    handleClose();
+  };
+
+  const selected = METHOD_OPTIONS.find((option) => option.value === form.method);
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="📐 Gestão de Risco" maxWidth="lg">
+      <div className="space-y-6">
+        <p className="text-sm text-gray-400">
+          O lote sugerido no registro de trades e no checklist usa o saldo da conta, o multiplicador
+          do ativo e a distância do stop. Trades que arriscaram mais do que o configurado são
+          sinalizados na lista.
+        </p>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-400">Método</label>
+          <div className="flex gap-2">
+            {METHOD_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => update({ method: option.value })}
+                className={`flex-1 rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${
+                  form.method === option.value
+                    ? "border-cyan-500/50 bg-cyan-500/20 text-cyan-400"
+                    : "border-gray-700 bg-gray-800/50 text-gray-500 hover:text-gray-300"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {selected && <p className="text-xs text-gray-500">{selected.description}</p>}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {form.method === "fixed_amount" ? (
+            <Input
+              label="Risco por trade ($)"
+              type="number"
+              min={0}
+              step="1"
+              value={form.riskAmount}
+              onChange={(e) => update({ riskAmount: Number(e.target.value) || 0 })}
+            />
+          ) : (
+            <Input
+              label={form.method === "kelly" ? "Risco máximo por trade (%)" : "Risco por trade (%)"}
+              type="number"
+              min={0}
+              max={100}
+              step="0.1"
+              value={form.riskPercent}
+              onChange={(e) => update({ riskPercent: Number(e.target.value) || 0 })}
+            />
+          )}
+          {form.method === "kelly" && (
+            <Input
+              label="Fração do Kelly (0-1)"
+              type="number"
+              min={0}
+              max={1}
+              step="0.05"
+              value={form.kellyFraction}
+              onChange={(e) => update({ kellyFraction: Number(e.target.value) || 0 })}
+            />
+          )}
+        </div>
+
+        <Button
+          variant="gradient-success"
+          onClick={handleSave}
+          disabled={!isValid}
+          className="h-12 w-full font-extrabold"
+        >
+          Salvar
+        </Button>
+      </div>
+    </Modal>
+  );
+}
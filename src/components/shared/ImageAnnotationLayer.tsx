@@ -0,0 +1,148 @@
+import type { AnnotationPoint, ImageAnnotationShape } from "@/types";
+import { getAnnotationAnchor, toSvgPath } from "@/services/mentor/imageAnnotations";
+
+export interface AnnotationLayerItem {
+  id: string;
+  shape: ImageAnnotationShape;
+  color: string;
+  /** Number of the marker linking the shape to its comment */
+  number?: number;
+}
+
+interface ImageAnnotationLayerProps {
+  items: AnnotationLayerItem[];
+  activeId?: string | null;
+  onSelect?: (id: string) => void;
+}
+
+const pct = (value: number) => `${value * 100}%`;
+
+const at = (point: AnnotationPoint) => ({ left: pct(point.x), top: pct(point.y) });
+
+function AnnotationShape({ item, isActive }: { item: AnnotationLayerItem; isActive: boolean }) {
+  const { shape, color } = item;
+  const stroke = {
+    stroke: color,
+    strokeWidth: isActive ? 3 : 2,
+    strokeLinecap: "round" as const,
+    fill: "none",
+  };
+
+  switch (shape.kind) {
+    case "arrow":
+      return (
+        <line
+          x1={pct(shape.from.x)}
+          y1={pct(shape.from.y)}
+          x2={pct(shape.to.x)}
+          y2={pct(shape.to.y)}
+          markerEnd={`url(#arrowhead-${item.id})`}
+          {...stroke}
+        />
+      );
+    case "box":
+      return (
+        <rect
+          x={pct(Math.min(shape.from.x, shape.to.x))}
+          y={pct(Math.min(shape.from.y, shape.to.y))}
+          width={pct(Math.abs(shape.to.x - shape.from.x))}
+          height={pct(Math.abs(shape.to.y - shape.from.y))}
+          {...stroke}
+          fill={color}
+          fillOpacity={0.08}
+        />
+      );
+    case "hline":
+      return (
+        <line
+          x1="0"
+          y1={pct(shape.y)}
+          x2="100%"
+          y2={pct(shape.y)}
+          strokeDasharray="6 4"
+          {...stroke}
+        />
+      );
+    case "freehand":
+      // Stretched with the image; the stroke keeps its width
+      return (
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" width="100%" height="100%">
+          <path
+            d={toSvgPath(shape.points)}
+            vectorEffect="non-scaling-stroke"
+            strokeLinejoin="round"
+            {...stroke}
+          />
+        </svg>
+      );
+    case "text":
+      return null;
+  }
+}
+
+/**
+ * Vector annotations drawn over an image. Must sit in a relatively positioned
+ * box the size of the image; coordinates are fractions of that box.
+ */
+export function ImageAnnotationLayer({ items, activeId, onSelect }: ImageAnnotationLayerProps) {
+  return (
+    <div className="pointer-events-none absolute inset-0">
+      <svg className="absolute inset-0 h-full w-full overflow-visible">
+        <defs>
+          {items
+            .filter((item) => item.shape.kind === "arrow")
+            .map((item) => (
+              <marker
+                key={item.id}
+                id={`arrowhead-${item.id}`}
+                viewBox="0 0 10 10"
+                refX="8"
+                refY="5"
+                markerWidth="5"
+                markerHeight="5"
+                orient="auto-start-reverse"
+              >
+                <path d="M0 0 L10 5 L0 10 z" fill={item.color} />
+              </marker>
+            ))}
+        </defs>
+        {items.map((item) => (
+          <AnnotationShape key={item.id} item={item} isActive={item.id === activeId} />
+        ))}
+      </svg>
+
+      {items.map((item) => {
+        const anchor = getAnnotationAnchor(item.shape);
+        const isActive = item.id === activeId;
+        return (
+          <div
+            key={item.id}
+            className="absolute flex -translate-x-1/2 -translate-y-1/2 items-center gap-1"
+            style={at(anchor)}
+          >
+            {item.number !== undefined && (
+              <button
+                type="button"
+                onClick={() => onSelect?.(item.id)}
+                className={`pointer-events-auto flex h-5 w-5 items-center justify-center rounded-full border text-[10px] font-bold text-black shadow ${
+                  isActive ? "scale-125 border-white" : "border-black/40"
+                }`}
+                style={{ backgroundColor: item.color }}
+              >
+                {item.number}
+              </button>
+            )}
+            {item.shape.kind === "text" && item.shape.text && (
+              <span
+                className="rounded bg-black/75 px-1.5 py-0.5 text-[11px] font-medium whitespace-nowrap"
+                style={{ color: item.color }}
+              >
+                {item.shape.text}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
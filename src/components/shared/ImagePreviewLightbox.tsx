@@ -3,10 +3,15 @@ import { createPortal } from "react-dom";
 import { TransformWrapper, TransformComponent } from "react-zoom-pan-pinch";
 import { useBlockBodyScroll } from "@/hooks/useBlockBodyScroll";
 import { Button, IconActionButton } from "@/components/ui";
+import { ImageAnnotationLayer } from "@/components/shared/ImageAnnotationLayer";
+import { ANNOTATION_TOOL_LABELS, numberAnnotations } from "@/services/mentor/imageAnnotations";
+import type { ImageAnnotation } from "@/types";
 
 export interface ImageItem {
   url: string;
   label?: string;
+  /** Mentor annotations drawn over the image */
+  annotations?: ImageAnnotation[];
 }
 
 interface ImagePreviewLightboxProps {
@@ -14,19 +19,25 @@ interface ImagePreviewLightboxProps {
   currentIndex: number;
   onClose: () => void;
   onNavigate: (index: number) => void;
+  /** Annotation highlighted when the lightbox opens */
+  focusedAnnotationId?: string;
 }
 
 /**
  * Reusable image preview lightbox with zoom/pan controls.
- * Used by Journal and Recap image previews.
+ * Used by Journal and Recap image previews. Mentor annotations of the image
+ * are drawn over it and listed with their comments.
  */
 export function ImagePreviewLightbox({
   images,
   currentIndex,
   onClose,
   onNavigate,
+  focusedAnnotationId,
 }: ImagePreviewLightboxProps) {
   const [showZoomHint, setShowZoomHint] = useState(true);
+  const [showAnnotations, setShowAnnotations] = useState(true);
+  const [activeAnnotationId, setActiveAnnotationId] = useState(focusedAnnotationId);
 
   // Block body scroll when lightbox is open
   useBlockBodyScroll(true);
@@ -57,6 +68,9 @@ export function ImagePreviewLightbox({
   const currentImage = images[currentIndex];
   if (!currentImage) return null;
 
+  const annotations = currentImage.annotations || [];
+  const annotationNumbers = numberAnnotations(annotations);
+
   const handlePrev = (e: React.MouseEvent) => {
     e.stopPropagation();
     const newIndex = currentIndex > 0 ? currentIndex - 1 : images.length - 1;
@@ -112,6 +126,57 @@ export function ImagePreviewLightbox({
         </>
       )}
 
+      {/* Annotation Comments */}
+      {annotations.length > 0 && (
+        <div
+          className="absolute top-16 right-4 z-50 max-h-[60vh] w-72 overflow-y-auto rounded-lg bg-black/75 p-3 backdrop-blur-sm"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-xs font-bold text-gray-200">📌 Anotações do mentor</span>
+            <button
+              onClick={() => setShowAnnotations((v) => !v)}
+              className="text-[11px] text-cyan-400 hover:text-cyan-300"
+            >
+              {showAnnotations ? "Ocultar" : "Mostrar"}
+            </button>
+          </div>
+          <ul className="space-y-1.5">
+            {annotations.map((annotation) => (
+              <li key={annotation.id}>
+                <button
+                  onClick={() => {
+                    setShowAnnotations(true);
+                    setActiveAnnotationId(annotation.id);
+                  }}
+                  className={`flex w-full items-start gap-2 rounded p-1.5 text-left text-xs text-gray-300 hover:bg-white/5 ${
+                    annotation.id === activeAnnotationId ? "bg-white/10" : ""
+                  }`}
+                >
+                  <span
+                    className="flex h-4 w-4 shrink-0 items-center justify-center rounded-full text-[9px] font-bold text-black"
+                    style={{ backgroundColor: annotation.color }}
+                  >
+                    {annotationNumbers[annotation.id]}
+                  </span>
+                  <span className="min-w-0">
+                    <span className="block text-[10px] text-gray-500">
+                      {ANNOTATION_TOOL_LABELS[annotation.shape.kind]}
+                      {annotation.authorName && ` · ${annotation.authorName}`}
+                    </span>
+                    <span className="whitespace-pre-wrap">
+                      {annotation.comment || (
+                        <span className="text-gray-500 italic">Sem comentário</span>
+                      )}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Zoomable Image Container */}
       <div
         className="absolute inset-0 flex items-center justify-center"
@@ -163,24 +228,34 @@ export function ImagePreviewLightbox({
                     justifyContent: "center",
                   }}
                 >
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img
-                    src={currentImage.url}
-                    alt="Preview"
-                    style={
-                      {
-                        maxWidth: "90vw",
-                        maxHeight: "85vh",
-                        objectFit: "contain",
-                        borderRadius: "0.5rem",
-                        userSelect: "none",
-                        WebkitUserDrag: "none",
-                        touchAction: "none",
-                        cursor: scale > 1 ? "grab" : "zoom-in",
-                      } as React.CSSProperties
-                    }
-                    draggable={false}
-                  />
+                  <div className="relative">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={currentImage.url}
+                      alt="Preview"
+                      style={
+                        {
+                          display: "block",
+                          maxWidth: "90vw",
+                          maxHeight: "85vh",
+                          objectFit: "contain",
+                          borderRadius: "0.5rem",
+                          userSelect: "none",
+                          WebkitUserDrag: "none",
+                          touchAction: "none",
+                          cursor: scale > 1 ? "grab" : "zoom-in",
+                        } as React.CSSProperties
+                      }
+                      draggable={false}
+                    />
+                    {showAnnotations && annotations.length > 0 && (
+                      <ImageAnnotationLayer
+                        items={annotations.map((a) => ({ ...a, number: annotationNumbers[a.id] }))}
+                        activeId={activeAnnotationId}
+                        onSelect={setActiveAnnotationId}
+                      />
+                    )}
+                  </div>
                 </TransformComponent>
 
                 {/* Zoom Controls */}
@@ -4,15 +4,32 @@ import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import {
   TaxableTrade,
-  TaxCalculation,
+  TaxAssetClass,
+  TaxBucket,
   TaxCostsConfig,
-  calculateMonthlyTax,
+  MonthlyTaxReport,
+  EMPTY_TAX_CARRY_OVER,
+  calculateMonthlyTaxReport,
   enrichTradesWithCosts,
 } from "@/services/analytics/tax";
 import { TaxReport } from "./TaxReport";
 import { Trade } from "@/types";
+import { useSettingsStore } from "@/store/useSettingsStore";
 import dayjs from "dayjs";
 
+const ASSET_CLASS_LABELS: Record<TaxAssetClass, string> = {
+  stock: "Ação",
+  fii: "FII",
+  etf: "ETF",
+  future: "Futuro",
+};
+
+const LOSS_BUCKET_LABELS: Record<TaxBucket, string> = {
+  dayTrade: "Day Trade",
+  swingTrade: "Swing Trade",
+  fii: "FII",
+};
+
 interface TaxCalculatorModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -28,22 +45,51 @@ export function TaxCalculatorModal({
   onClose,
   fetchTradesForMonth,
 }: TaxCalculatorModalProps) {
+  const { brokerFees, assets, loadSettings } = useSettingsStore();
   const [selectedMonth, setSelectedMonth] = useState(dayjs().format("YYYY-MM"));
   const [monthlyTrades, setMonthlyTrades] = useState<Trade[]>([]);
   const [taxableTrades, setTaxableTrades] = useState<TaxableTrade[]>([]);
 
   // Configuração de custos padrão
   const [costsConfig, setCostsConfig] = useState<TaxCostsConfig>({
-    defaultBrokerageFee: 0, // R$ por ordem (ou por contrato?) Assumindo valor fixo por trade
+    defaultBrokerageFee: 0, // R$ por ordem
+    brokerageFeePerContract: 0, // R$ por contrato
     defaultExchangeFeePct: 0.03, // 0.030%
     defaultTaxesPct: 5, // ISS 5%
+    autoExchangeFees: true, // Emolumentos e liquidação pela tabela da B3
   });
+  const [selectedBroker, setSelectedBroker] = useState<string | null>(null);
 
-  const [calculation, setCalculation] = useState<TaxCalculation | null>(null);
-  const [previousLoss, setPreviousLoss] = useState<string>("0");
+  const [report, setReport] = useState<MonthlyTaxReport | null>(null);
+  const [previousLosses, setPreviousLosses] = useState<Record<TaxBucket, string>>({
+    dayTrade: "0",
+    swingTrade: "0",
+    fii: "0",
+  });
   const [isLoading, setIsLoading] = useState(false);
   const [step, setStep] = useState<"config" | "review" | "report">("config");
 
+  useEffect(() => {
+    if (isOpen) loadSettings();
+  }, [isOpen, loadSettings]);
+
+  // Sem escolha explícita, usa a corretora padrão das configurações ("" = personalizado)
+  const activeBrokerName = selectedBroker ?? brokerFees.defaultBroker ?? "";
+  const activeBroker = brokerFees.brokers.find((b) => b.name === activeBrokerName);
+  const effectiveConfig: TaxCostsConfig = activeBroker
+    ? {
+        ...costsConfig,
+        defaultBrokerageFee: activeBroker.brokeragePerTrade,
+        brokerageFeePerContract: activeBroker.brokeragePerContract,
+        defaultTaxesPct: activeBroker.issPct,
+      }
+    : costsConfig;
+
+  const handleUpdateConfig = (changes: Partial<TaxCostsConfig>) => {
+    setSelectedBroker("");
+    setCostsConfig({ ...effectiveConfig, ...changes });
+  };
+
   // Carregar trades quando mês muda
   useEffect(() => {
     if (isOpen && fetchTradesForMonth) {
@@ -54,20 +100,31 @@ export function TaxCalculatorModal({
           setMonthlyTrades(trades);
           // Reset
           setStep("config");
-          setCalculation(null);
+          setReport(null);
         })
         .catch(console.error)
         .finally(() => setIsLoading(false));
     }
   }, [isOpen, selectedMonth, fetchTradesForMonth]);
 
+  // Apuração pelo mês da venda (saída)
+  const closedTrades = taxableTrades.filter((t) => t.exitDate?.startsWith(selectedMonth));
+
   const handleApplyConfig = () => {
-    // Aplica custos padrão
-    const enriched = enrichTradesWithCosts(monthlyTrades, costsConfig);
+    // Aplica custos padrão; emolumentos usam os multiplicadores dos ativos do usuário
+    const assetMultipliers = Object.fromEntries(
+      assets.map((asset) => [asset.symbol.toUpperCase(), asset.multiplier])
+    );
+    const enriched = enrichTradesWithCosts(monthlyTrades, { ...effectiveConfig, assetMultipliers });
     setTaxableTrades(enriched);
     setStep("review");
   };
 
+  const handleUpdateAssetClass = (symbol: string, assetClass: TaxAssetClass) => {
+    // A classe vale para todos os trades do mesmo ativo
+    setTaxableTrades((prev) => prev.map((t) => (t.symbol === symbol ? { ...t, assetClass } : t)));
+  };
+
   const handleUpdateTradeCost = (tradeId: string, field: keyof TaxableTrade, value: number) => {
     setTaxableTrades((prev) =>
       prev.map((t) => {
@@ -85,13 +142,20 @@ export function TaxCalculatorModal({
   };
 
   const handleCalculate = () => {
-    const result = calculateMonthlyTax(selectedMonth, taxableTrades, Number(previousLoss));
-    setCalculation(result);
+    const result = calculateMonthlyTaxReport(selectedMonth, taxableTrades, {
+      ...EMPTY_TAX_CARRY_OVER,
+      losses: {
+        dayTrade: Number(previousLosses.dayTrade) || 0,
+        swingTrade: Number(previousLosses.swingTrade) || 0,
+        fii: Number(previousLosses.fii) || 0,
+      },
+    });
+    setReport(result);
     setStep("report");
   };
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Calculadora de IR (Day Trade)">
+    <Modal isOpen={isOpen} onClose={onClose} title="Calculadora de IR (Day Trade e Swing Trade)">
       <div className="mx-auto flex min-h-[500px] w-full max-w-4xl flex-col">
         {/* Header: Seleção de Mês */}
         <div className="mb-6 flex items-center gap-4 rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800">
@@ -103,58 +167,74 @@ export function TaxCalculatorModal({
               onChange={(e) => setSelectedMonth(e.target.value)}
             />
           </div>
-          <div className="flex-1">
-            <label className="mb-1 block text-sm font-medium">
-              Prejuízo Acumulado Anterior (R$)
-            </label>
-            <Input
-              type="number"
-              value={previousLoss}
-              onChange={(e) => setPreviousLoss(e.target.value)}
-              placeholder="0.00"
-            />
-          </div>
+          {(Object.keys(LOSS_BUCKET_LABELS) as TaxBucket[]).map((bucket) => (
+            <div key={bucket} className="flex-1">
+              <label className="mb-1 block text-sm font-medium">
+                Prejuízo Anterior {LOSS_BUCKET_LABELS[bucket]} (R$)
+              </label>
+              <Input
+                type="number"
+                value={previousLosses[bucket]}
+                onChange={(e) => setPreviousLosses({ ...previousLosses, [bucket]: e.target.value })}
+                placeholder="0.00"
+              />
+            </div>
+          ))}
         </div>
 
         {step === "config" && (
           <div className="space-y-4">
             <h3 className="text-lg font-semibold">1. Configuração de Custos Padrão</h3>
             <p className="text-sm text-zinc-500">
-              Defina as taxas médias cobradas pela sua corretora para aplicar a todos os trades do
-              mês.
+              Escolha a corretora ou defina as taxas cobradas para aplicar a todos os trades do mês.
+              Emolumentos e liquidação são calculados pela tabela da B3 sobre o volume financeiro.
             </p>
 
+            {brokerFees.brokers.length > 0 && (
+              <div>
+                <label className="mb-1 block text-sm font-medium">Corretora</label>
+                <select
+                  className="h-12 w-full rounded-lg border bg-transparent px-3 text-sm"
+                  value={activeBroker ? activeBrokerName : ""}
+                  onChange={(e) => setSelectedBroker(e.target.value)}
+                >
+                  <option value="">Personalizado</option>
+                  {brokerFees.brokers.map((broker) => (
+                    <option key={broker.name} value={broker.name}>
+                      {broker.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
               <div>
-                <label className="mb-1 block text-sm font-medium">Corretagem (R$ / Trade)</label>
+                <label className="mb-1 block text-sm font-medium">Corretagem (R$ / Ordem)</label>
                 <Input
                   type="number"
-                  value={costsConfig.defaultBrokerageFee}
+                  value={effectiveConfig.defaultBrokerageFee}
                   onChange={(e) =>
-                    setCostsConfig({ ...costsConfig, defaultBrokerageFee: Number(e.target.value) })
+                    handleUpdateConfig({ defaultBrokerageFee: Number(e.target.value) })
                   }
                 />
               </div>
               <div>
-                <label className="mb-1 block text-sm font-medium">
-                  Emolumentos (Estimativa R$)
-                </label>
+                <label className="mb-1 block text-sm font-medium">Corretagem (R$ / Contrato)</label>
                 <Input
                   type="number"
-                  disabled // Desabilitado por ser complexo calcular sem volume exato, user deve editar na tabela se quiser
-                  value={0}
-                  placeholder="Editável na tabela"
+                  value={effectiveConfig.brokerageFeePerContract}
+                  onChange={(e) =>
+                    handleUpdateConfig({ brokerageFeePerContract: Number(e.target.value) })
+                  }
                 />
-                <span className="text-xs text-zinc-400">Edite trade a trade</span>
               </div>
               <div>
                 <label className="mb-1 block text-sm font-medium">ISS (% sobre Corretagem)</label>
                 <Input
                   type="number"
-                  value={costsConfig.defaultTaxesPct}
-                  onChange={(e) =>
-                    setCostsConfig({ ...costsConfig, defaultTaxesPct: Number(e.target.value) })
-                  }
+                  value={effectiveConfig.defaultTaxesPct}
+                  onChange={(e) => handleUpdateConfig({ defaultTaxesPct: Number(e.target.value) })}
                 />
               </div>
             </div>
@@ -179,8 +259,8 @@ export function TaxCalculatorModal({
           <div className="flex flex-1 flex-col">
             <h3 className="mb-2 text-lg font-semibold">2. Revisão de Trades e Custos</h3>
             <p className="mb-4 text-sm text-zinc-500">
-              Ajuste os custos individualmente se necessário. Apenas Day Trades (Entry = Exit) são
-              considerados.
+              Ajuste os custos e a classe do ativo se necessário. Trades com entrada e saída no
+              mesmo dia são Day Trade; os demais, Swing Trade.
             </p>
 
             <div className="mb-4 max-h-[400px] flex-1 overflow-auto rounded-md border">
@@ -190,71 +270,80 @@ export function TaxCalculatorModal({
                     <th className="p-2">Data</th>
                     <th className="p-2">Ativo</th>
                     <th className="p-2">Tipo</th>
+                    <th className="p-2">Regime</th>
+                    <th className="p-2">Classe</th>
                     <th className="p-2 text-right">Resultado Bruto</th>
                     <th className="p-2 text-right">Corretagem</th>
                     <th className="p-2 text-right">Taxas (B3/Outros)</th>
-                    <th className="p-2 text-right">IRRF (1%)</th>
+                    <th className="p-2 text-right">IRRF</th>
                     <th className="p-2 text-right">Líquido</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {taxableTrades
-                    .filter((t) => t.isDayTrade)
-                    .map((trade) => (
-                      <tr
-                        key={trade.id}
-                        className="border-b hover:bg-zinc-50 dark:hover:bg-zinc-900"
-                      >
-                        <td className="p-2">{dayjs(trade.entryDate).format("DD/MM")}</td>
-                        <td className="p-2">{trade.symbol}</td>
-                        <td className="p-2">{trade.type}</td>
-                        <td
-                          className={`p-2 text-right font-medium ${trade.pnl && trade.pnl >= 0 ? "text-green-600" : "text-red-600"}`}
+                  {closedTrades.map((trade) => (
+                    <tr key={trade.id} className="border-b hover:bg-zinc-50 dark:hover:bg-zinc-900">
+                      <td className="p-2">{dayjs(trade.entryDate).format("DD/MM")}</td>
+                      <td className="p-2">{trade.symbol}</td>
+                      <td className="p-2">{trade.type}</td>
+                      <td className="p-2">{trade.isDayTrade ? "DT" : "ST"}</td>
+                      <td className="p-2">
+                        <select
+                          className="rounded border bg-transparent p-1"
+                          value={trade.assetClass}
+                          onChange={(e) =>
+                            handleUpdateAssetClass(trade.symbol, e.target.value as TaxAssetClass)
+                          }
                         >
-                          {trade.pnl?.toFixed(2)}
-                        </td>
-                        <td className="p-2 text-right">
-                          <input
-                            className="w-20 rounded border bg-transparent p-1 text-right"
-                            type="number"
-                            value={trade.brokerageFee}
-                            onChange={(e) =>
-                              handleUpdateTradeCost(
-                                trade.id,
-                                "brokerageFee",
-                                Number(e.target.value)
-                              )
-                            }
-                          />
-                        </td>
-                        <td className="p-2 text-right">
-                          <input
-                            className="w-20 rounded border bg-transparent p-1 text-right"
-                            type="number"
-                            value={trade.exchangeFee + trade.taxes} // Simplificado visualmente
-                            onChange={(e) => {
-                              // Atualiza exchangeFee como a diferença, assumindo taxes fixo no calculo anterior ou livre
-                              // Para simplicidade, vamos jogar tudo em exchangeFee se o user editar aqui
-                              handleUpdateTradeCost(
-                                trade.id,
-                                "exchangeFee",
-                                Number(e.target.value) - trade.taxes
-                              );
-                            }}
-                          />
-                        </td>
-                        <td className="p-2 text-right text-zinc-500">{trade.irrf.toFixed(2)}</td>
-                        <td
-                          className={`p-2 text-right font-bold ${trade.netResult >= 0 ? "text-green-600" : "text-red-600"}`}
-                        >
-                          {trade.netResult.toFixed(2)}
-                        </td>
-                      </tr>
-                    ))}
-                  {taxableTrades.filter((t) => t.isDayTrade).length === 0 && (
+                          {(Object.keys(ASSET_CLASS_LABELS) as TaxAssetClass[]).map((value) => (
+                            <option key={value} value={value}>
+                              {ASSET_CLASS_LABELS[value]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td
+                        className={`p-2 text-right font-medium ${trade.pnl && trade.pnl >= 0 ? "text-green-600" : "text-red-600"}`}
+                      >
+                        {trade.pnl?.toFixed(2)}
+                      </td>
+                      <td className="p-2 text-right">
+                        <input
+                          className="w-20 rounded border bg-transparent p-1 text-right"
+                          type="number"
+                          value={trade.brokerageFee}
+                          onChange={(e) =>
+                            handleUpdateTradeCost(trade.id, "brokerageFee", Number(e.target.value))
+                          }
+                        />
+                      </td>
+                      <td className="p-2 text-right">
+                        <input
+                          className="w-20 rounded border bg-transparent p-1 text-right"
+                          type="number"
+                          value={trade.exchangeFee + trade.taxes} // Simplificado visualmente
+                          onChange={(e) => {
+                            // Atualiza exchangeFee como a diferença, assumindo taxes fixo no calculo anterior ou livre
+                            // Para simplicidade, vamos jogar tudo em exchangeFee se o user editar aqui
+                            handleUpdateTradeCost(
+                              trade.id,
+                              "exchangeFee",
+                              Number(e.target.value) - trade.taxes
+                            );
+                          }}
+                        />
+                      </td>
+                      <td className="p-2 text-right text-zinc-500">{trade.irrf.toFixed(2)}</td>
+                      <td
+                        className={`p-2 text-right font-bold ${trade.netResult >= 0 ? "text-green-600" : "text-red-600"}`}
+                      >
+                        {trade.netResult.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                  {closedTrades.length === 0 && (
                     <tr>
-                      <td colSpan={8} className="p-4 text-center text-zinc-500">
-                        Nenhum Day Trade identificado neste mês.
+                      <td colSpan={10} className="p-4 text-center text-zinc-500">
+                        Nenhum trade encerrado neste mês.
                       </td>
                     </tr>
                   )}
@@ -266,20 +355,17 @@ export function TaxCalculatorModal({
               <Button variant="outline" onClick={() => setStep("config")}>
                 Voltar
               </Button>
-              <Button
-                onClick={handleCalculate}
-                disabled={taxableTrades.filter((t) => t.isDayTrade).length === 0}
-              >
+              <Button onClick={handleCalculate} disabled={closedTrades.length === 0}>
                 Calcular Imposto
               </Button>
             </div>
           </div>
         )}
 
-        {step === "report" && calculation && (
+        {step === "report" && report && (
           <div className="flex flex-1 flex-col">
             <div className="mb-4 flex-1 overflow-auto">
-              <TaxReport calculation={calculation} />
+              <TaxReport report={report} />
             </div>
             <div className="flex justify-start">
               <Button variant="outline" onClick={() => setStep("review")}>
@@ -1,80 +1,111 @@
 import React from "react";
-import { TaxCalculation, generateDARFData } from "@/services/analytics/tax";
+import {
+  MonthlyTaxReport,
+  RegimeTaxCalculation,
+  TaxBucket,
+  DARF_CODE,
+  MIN_DARF_AMOUNT,
+  STOCK_SALES_EXEMPTION_LIMIT,
+} from "@/services/analytics/tax";
 import { Card } from "@/components/ui/Card";
 
 interface TaxReportProps {
-  calculation: TaxCalculation;
+  report: MonthlyTaxReport;
 }
 
-export function TaxReport({ calculation }: TaxReportProps) {
-  const darf = generateDARFData(calculation);
+const BUCKET_LABELS: Record<TaxBucket, string> = {
+  dayTrade: "Day Trade",
+  swingTrade: "Swing Trade",
+  fii: "Fundos Imobiliários",
+};
 
-  // Format currency helper
-  const fmt = (val: number) =>
-    new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(val);
+// Format currency helper
+const fmt = (val: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(val);
 
+function RegimeCard({ calculation }: { calculation: RegimeTaxCalculation }) {
   return (
-    <div className="space-y-6">
-      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-        <Card className="border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
-          <h3 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
-            Resumo da Apuração
-          </h3>
-          <div className="space-y-2 text-sm">
-            <div className="flex justify-between">
-              <span className="text-zinc-500">Resultado Bruto (Day Trade):</span>
-              <span className={calculation.grossProfit >= 0 ? "text-green-600" : "text-red-600"}>
-                {fmt(calculation.grossProfit)}
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-zinc-500">(-) Custos Operacionais:</span>
-              <span className="text-red-600">{fmt(calculation.costs)}</span>
-            </div>
-            <div className="flex justify-between border-t border-zinc-200 pt-2 font-medium dark:border-zinc-800">
-              <span className="text-zinc-700 dark:text-zinc-300">(=) Resultado Líquido:</span>
-              <span className={calculation.netResult >= 0 ? "text-green-600" : "text-red-600"}>
-                {fmt(calculation.netResult)}
-              </span>
-            </div>
+    <Card className="border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="mb-4 flex items-baseline justify-between text-lg font-medium text-zinc-900 dark:text-zinc-100">
+        {BUCKET_LABELS[calculation.bucket]}
+        <span className="text-sm text-zinc-500">{calculation.rate * 100}%</span>
+      </h3>
+      <div className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Resultado Bruto:</span>
+          <span className={calculation.grossProfit >= 0 ? "text-green-600" : "text-red-600"}>
+            {fmt(calculation.grossProfit)}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">(-) Custos Operacionais:</span>
+          <span className="text-red-600">{fmt(calculation.costs)}</span>
+        </div>
+        {calculation.exemptProfit > 0 && (
+          <div className="flex justify-between">
+            <span className="text-zinc-500">(-) Lucro Isento (ações):</span>
+            <span>{fmt(calculation.exemptProfit)}</span>
           </div>
-        </Card>
+        )}
+        <div className="flex justify-between border-t border-zinc-200 pt-2 font-medium dark:border-zinc-800">
+          <span className="text-zinc-700 dark:text-zinc-300">(=) Resultado Líquido:</span>
+          <span className={calculation.netResult >= 0 ? "text-green-600" : "text-red-600"}>
+            {fmt(calculation.netResult)}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">(-) Prejuízo Anterior:</span>
+          <span className="text-red-600">{fmt(calculation.previousLoss)}</span>
+        </div>
+        <div className="flex justify-between border-t border-zinc-200 pt-2 font-medium dark:border-zinc-800">
+          <span className="text-zinc-700 dark:text-zinc-300">(=) Base Tributável:</span>
+          <span>{fmt(calculation.taxableBasis)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Imposto Devido:</span>
+          <span className="font-medium">{fmt(calculation.taxDue)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Prejuízo a Compensar:</span>
+          <span>{fmt(calculation.lossCarryForward)}</span>
+        </div>
+      </div>
+    </Card>
+  );
+}
 
-        <Card className="border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
-          <h3 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
-            Base de Cálculo
-          </h3>
-          <div className="space-y-2 text-sm">
-            <div className="flex justify-between">
-              <span className="text-zinc-500">Resultado Líquido do Mês:</span>
-              <span>{fmt(calculation.netResult)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-zinc-500">(-) Prejuízo Anterior:</span>
-              <span className="text-red-600">
-                {fmt(
-                  calculation.accumulatedLoss -
-                    (calculation.netResult < 0 ? Math.abs(calculation.netResult) : 0)
-                )}
-              </span>
-              {/* Nota: accumulatedLoss retornado já inclui o prejuízo do mês se houver.
-                                Aqui queremos mostrar quanto TINHA antes de abater.
-                                Se netResult > 0, accumulatedLoss é o que sobrou.
-                                Se netResult < 0, accumulatedLoss é anterior + atual.
-                             */}
-            </div>
-            <div className="flex justify-between border-t border-zinc-200 pt-2 font-medium dark:border-zinc-800">
-              <span className="text-zinc-700 dark:text-zinc-300">(=) Base Tributável:</span>
-              <span>{fmt(calculation.taxableBasis)}</span>
-            </div>
-          </div>
-        </Card>
+export function TaxReport({ report }: TaxReportProps) {
+  const { darf } = report;
+  const regimes = [report.dayTrade, report.swingTrade, report.fii].filter(
+    (regime) => regime.tradeCount > 0 || regime.previousLoss > 0 || regime.bucket !== "fii"
+  );
+
+  return (
+    <div className="space-y-6">
+      <div
+        className={`grid grid-cols-1 gap-4 ${regimes.length === 3 ? "md:grid-cols-3" : "md:grid-cols-2"}`}
+      >
+        {regimes.map((regime) => (
+          <RegimeCard key={regime.bucket} calculation={regime} />
+        ))}
       </div>
 
+      {report.swingTrade.tradeCount > 0 && (
+        <div className="rounded-md border border-zinc-200 bg-zinc-50 p-4 text-sm dark:border-zinc-800 dark:bg-zinc-800/50">
+          <span className="text-zinc-500">Vendas de ações em Swing Trade no mês: </span>
+          <span className="font-medium">{fmt(report.stockSales)}</span>
+          <span className="text-zinc-500">
+            {report.stockExempt
+              ? ` — abaixo de ${fmt(STOCK_SALES_EXEMPTION_LIMIT)}, o lucro com ações é isento.`
+              : ` — acima de ${fmt(STOCK_SALES_EXEMPTION_LIMIT)}, sem isenção.`}
+          </span>
+        </div>
+      )}
+
       <Card className="border border-zinc-200 bg-zinc-50 p-6 dark:border-zinc-800 dark:bg-zinc-800/50">
         <h3 className="mb-6 flex items-center gap-2 text-xl font-bold text-zinc-900 dark:text-zinc-100">
           <span className="i-lucide-file-text h-6 w-6" />
-          DARF (Código 6015)
+          DARF (Código {DARF_CODE})
         </h3>
 
         <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4">
@@ -82,43 +113,58 @@ export function TaxReport({ calculation }: TaxReportProps) {
             <label className="text-xs font-medium text-zinc-500 uppercase">
               Período de Apuração
             </label>
-            <div className="font-mono text-lg text-zinc-900 dark:text-zinc-100">{darf.period}</div>
+            <div className="font-mono text-lg text-zinc-900 dark:text-zinc-100">
+              {darf?.period ?? report.month}
+            </div>
           </div>
           <div className="space-y-1">
             <label className="text-xs font-medium text-zinc-500 uppercase">
               Data de Vencimento
             </label>
-            <div className="font-mono text-lg text-zinc-900 dark:text-zinc-100">{darf.dueDate}</div>
+            <div className="font-mono text-lg text-zinc-900 dark:text-zinc-100">
+              {darf?.dueDate ?? "—"}
+            </div>
           </div>
           <div className="space-y-1">
-            <label className="text-xs font-medium text-zinc-500 uppercase">
-              Imposto Devido (20%)
-            </label>
+            <label className="text-xs font-medium text-zinc-500 uppercase">Imposto Devido</label>
             <div className="font-mono text-lg text-zinc-900 dark:text-zinc-100">
-              {fmt(calculation.taxableBasis * 0.2)}
+              {fmt(report.taxDue)}
             </div>
           </div>
           <div className="space-y-1">
             <label className="text-xs font-medium text-zinc-500 uppercase">
               (-) IRRF (Dedo-duro)
             </label>
-            <div className="font-mono text-lg text-red-500">{fmt(calculation.irrfDeduction)}</div>
+            <div className="font-mono text-lg text-red-500">{fmt(report.irrfDeduction)}</div>
           </div>
         </div>
 
         <div className="mt-8 flex flex-col items-center justify-between gap-4 border-t border-zinc-200 pt-6 md:flex-row dark:border-zinc-700">
-          <div className="max-w-md text-sm text-zinc-500">
-            <p>
-              Atenção: Para valores inferiores a R$ 10,00, o DARF não deve ser emitido, mas o valor
-              deve ser acumulado para o próximo mês.
-            </p>
+          <div className="max-w-md space-y-1 text-sm text-zinc-500">
+            {report.pendingTax > 0 && (
+              <p>Inclui {fmt(report.pendingTax)} acumulados de meses anteriores.</p>
+            )}
+            {darf ? (
+              <p>Um único DARF soma o imposto de Day Trade, Swing Trade e FII.</p>
+            ) : report.amountDue > 0 ? (
+              <p>
+                Valor inferior a {fmt(MIN_DARF_AMOUNT)}: o DARF não deve ser emitido e o valor é
+                acumulado para o próximo mês.
+              </p>
+            ) : null}
+            {report.carryOver.irrfCredit > 0 && (
+              <p>
+                IRRF de {fmt(report.carryOver.irrfCredit)} sobra como crédito para os próximos
+                meses.
+              </p>
+            )}
           </div>
           <div className="text-right">
             <label className="mb-1 block text-sm font-medium text-zinc-500">
               Valor Total a Pagar
             </label>
             <div className="text-3xl font-bold text-zinc-900 dark:text-white">
-              {calculation.taxDue > 0 ? fmt(calculation.taxDue) : "R$ 0,00"}
+              {darf ? fmt(darf.amount) : "R$ 0,00"}
             </div>
           </div>
         </div>
@@ -127,8 +173,9 @@ export function TaxReport({ calculation }: TaxReportProps) {
       <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 dark:border-yellow-900/50 dark:bg-yellow-900/20">
         <p className="flex gap-2 text-sm text-yellow-800 dark:text-yellow-200">
           <span className="font-bold">⚠️ Importante:</span>
-          Ao contrário do Swing Trade, operações de Day Trade não possuem isenção para vendas até R$
-          20.000,00. Todo lucro líquido é tributado em 20%.
+          Prejuízos só compensam lucros do mesmo tipo: Day Trade com Day Trade, Swing Trade com
+          Swing Trade e FII com FII. A isenção de vendas até R$ 20.000,00 vale apenas para ações em
+          Swing Trade.
         </p>
       </div>
     </div>
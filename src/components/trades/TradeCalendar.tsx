@@ -15,6 +15,8 @@ interface TradeCalendarProps {
   accountId?: string; // For prefetching
   onDayClick?: (date: string, dayTrades: Trade[]) => void;
   onMonthChange?: (date: dayjs.Dayjs) => void;
+  /** Any date (YYYY-MM-DD) of the month shown first; defaults to the current month */
+  initialMonth?: string;
 }
 
 interface DayStatsResult {
@@ -36,8 +38,9 @@ export function TradeCalendar({
   accountId,
   onDayClick,
   onMonthChange,
+  initialMonth,
 }: TradeCalendarProps) {
-  const [currentDate, setCurrentDate] = useState(dayjs());
+  const [currentDate, setCurrentDate] = useState(() => dayjs(initialMonth));
   const { entries: storeEntries, currentAccountId: storeAccountId } = useJournalStore();
   // Only use store entries if they match the current account (prevents stale data)
   // Wrapped in useMemo to ensure stable reference
@@ -17,6 +17,9 @@ import type { Trade, JournalEntry } from "@/types";
 import { formatCurrency } from "@/lib/utils/trading";
 import { AssetIcon } from "@/components/shared/AssetIcon";
 import { IconActionButton } from "@/components/ui";
+import { TradeNewsBadge } from "@/components/news/TradeNewsBadge";
+import { TradeLegsTable } from "./shared";
+import type { TradeNewsEvent } from "@/services/analytics/news";
 import dayjs from "dayjs";
 
 // Helper function to format price values (mesmo formato do TradeRow)
@@ -42,6 +45,8 @@ interface TradeCardProps {
   onDeleteTrade?: (tradeId: string) => void;
   onJournalClick?: (trade: Trade, startEditing?: boolean) => void;
   onViewDay?: (date: string) => void;
+  /** Economic events around the entry ("traded during news") */
+  newsEvents?: TradeNewsEvent[];
 }
 
 // Ícone inline para detalhes colapsáveis
@@ -70,6 +75,7 @@ export function TradeCard({
   onDeleteTrade,
   onJournalClick,
   onViewDay,
+  newsEvents,
 }: TradeCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -128,6 +134,7 @@ export function TradeCard({
 
             {/* Nome do Ativo */}
             <span className="truncate font-semibold text-gray-100">{trade.symbol}</span>
+            <TradeNewsBadge events={newsEvents} />
           </div>
 
           {/* Status + Tipo */}
@@ -195,6 +202,18 @@ export function TradeCard({
               <div className="text-sm text-gray-300">{trade.lot}</div>
             </div>
 
+            {/* Execuções de trades com entradas/saídas parciais */}
+            {trade.legs && trade.legs.length > 0 && (
+              <div className="col-span-3 text-left">
+                <TradeLegsTable
+                  legs={trade.legs}
+                  type={trade.type}
+                  symbol={trade.symbol}
+                  currency={currency}
+                />
+              </div>
+            )}
+
             {/* Tags - full width */}
             {tagsArray.length > 0 && (
               <div className="col-span-3 mt-2">
@@ -1,11 +1,16 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { SegmentedToggle, ModalFooterActions } from "@/components/ui";
 import type { Trade } from "@/types";
 import { useSettingsStore } from "@/store/useSettingsStore";
 import { usePlaybookStore } from "@/store/usePlaybookStore";
 import { useToast } from "@/providers/ToastProvider";
 import { validateClosedTrade } from "@/lib/validation/tradeValidation";
+import { toSessionInstant } from "@/lib/utils/trading";
+import { useNewsBlackout } from "@/hooks/useNewsBlackout";
+import { usePositionSizing } from "@/hooks/usePositionSizing";
+import { NewsBlackoutAlert } from "@/components/news/NewsBlackoutAlert";
 
 // Import hooks
 import {
@@ -20,7 +25,9 @@ import {
   TradeMarketConditionsSection,
   TradeFinancialDataSection,
   TradeDateTimeSection,
+  TradeRuleComplianceSection,
 } from "./sections";
+import { TradeLegsTable } from "./shared";
 
 interface TradeFormProps {
   accountId: string;
@@ -37,7 +44,7 @@ export function TradeForm({
   initialData,
   mode = "create",
 }: TradeFormProps) {
-  const { setups } = useSettingsStore();
+  const { setups, sessionSettings } = useSettingsStore();
   const { playbooks } = usePlaybookStore();
   const { showToast } = useToast();
 
@@ -53,6 +60,23 @@ export function TradeForm({
   });
 
   const { isTradeOpen, detectedSession, alignmentResult, rMultiplePreview, estimates } = computed;
+  const positionSizing = usePositionSizing({
+    accountId,
+    symbol: state.symbol,
+    entryPrice: parseFloat(state.entryPrice) || 0,
+    stopLoss: parseFloat(state.stopLoss) || 0,
+    lot: parseFloat(state.lot) || 0,
+    strategy: state.strategy,
+  });
+
+  // News blackout: new trades inside the window need a second submit to be logged
+  const entryInstant = useMemo(
+    () => toSessionInstant(state.entryDate, state.entryTime, sessionSettings.timezone),
+    [state.entryDate, state.entryTime, sessionSettings.timezone]
+  );
+  const { blackoutEvents, isBlackout } = useNewsBlackout(entryInstant, state.symbol);
+  const blackoutKey = `${state.symbol}|${state.entryDate}|${state.entryTime}`;
+  const [acknowledgedBlackout, setAcknowledgedBlackout] = useState<string | null>(null);
 
   // Validation hook
   const { validateForm, validateSingleField, getError, getWarning, clearAllErrors } =
@@ -106,6 +130,12 @@ export function TradeForm({
       });
       return;
     }
+
+    if (mode === "create" && isBlackout && acknowledgedBlackout !== blackoutKey) {
+      setAcknowledgedBlackout(blackoutKey);
+      showToast("Entrada em blackout de notícias. Clique novamente para registrar.", "warning");
+      return;
+    }
     submitHandler(e, state, computed);
   };
 
@@ -174,6 +204,13 @@ export function TradeForm({
         alignmentResult={alignmentResult}
       />
 
+      {/* Playbook rules followed / broken */}
+      <TradeRuleComplianceSection
+        playbook={playbooks.find((p) => p.name === state.strategy)}
+        ruleCompliance={state.ruleCompliance}
+        setRuleCompliance={setters.setRuleCompliance}
+      />
+
       {/* ===== BLOCO 2: FINANCEIRO ===== */}
       <TradeFinancialDataSection
         symbol={state.symbol}
@@ -200,9 +237,13 @@ export function TradeForm({
         isTradeOpen={isTradeOpen}
         estimates={estimates}
         rMultiplePreview={rMultiplePreview}
+        positionSizing={positionSizing}
         mode={mode}
       />
 
+      {/* Executions of multi-leg trades: prices and dates above are their averages */}
+      <TradeLegsTable legs={state.legs} type={state.type} symbol={state.symbol} />
+
       {/* ===== BLOCO 3: DATA E HORA ===== */}
       <TradeDateTimeSection
         entryDate={state.entryDate}
@@ -220,11 +261,24 @@ export function TradeForm({
         mode={mode}
       />
 
+      {/* News blackout warning */}
+      <NewsBlackoutAlert
+        events={blackoutEvents}
+        title="Entrada dentro do blackout de notícias"
+        className="mt-6"
+      />
+
       {/* Submit Button */}
       <ModalFooterActions
         isSubmit
         onSecondary={mode === "edit" && onCancel ? onCancel : undefined}
-        primaryLabel={mode === "edit" ? "Salvar" : "Registrar Trade"}
+        primaryLabel={
+          mode === "edit"
+            ? "Salvar"
+            : isBlackout && acknowledgedBlackout === blackoutKey
+              ? "Registrar Mesmo Assim"
+              : "Registrar Trade"
+        }
         primaryVariant="zorin-primary"
         isLoading={isSaving}
         disabled={isSaving}
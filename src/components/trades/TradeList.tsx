@@ -4,6 +4,8 @@ import type { Trade } from "@/types";
 import { useJournalStore } from "@/store/useJournalStore";
 import { JournalEntryModal } from "@/components/journal/JournalEntryModal";
 import { TradeRow } from "./TradeRow";
+import { useTradeNews } from "@/hooks/useTradeNews";
+import { useTradeRiskChecks } from "@/hooks/usePositionSizing";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
@@ -114,6 +116,9 @@ function TradeListContent({
     return sortedTrades.slice(startIndex, startIndex + itemsPerPage);
   }, [sortedTrades, isServerSide, localPage, itemsPerPage]);
 
+  const { newsByTradeId } = useTradeNews(currentTrades);
+  const riskChecks = useTradeRiskChecks(currentTrades);
+
   // Generate pagination numbers
   const getPageNumbers = () => {
     const delta = 2;
@@ -260,6 +265,8 @@ function TradeListContent({
                   onDeleteTrade={onDeleteTrade}
                   onJournalClick={onJournalClick}
                   onViewDay={onViewDay}
+                  newsEvents={newsByTradeId[trade.id]}
+                  riskCheck={riskChecks[trade.id]}
                 />
               ))}
             </tbody>
@@ -2,6 +2,7 @@
 
 import { Modal } from "@/components/ui";
 import { TradeForm } from "./TradeForm";
+import { TradePlanComparisonCard } from "./TradePlanComparisonCard";
 import type { Trade } from "@/types";
 
 interface TradeModalProps {
@@ -82,6 +83,7 @@ export function TradeModal({
       maxWidth="6xl"
       noBackdrop={isSecondaryModal}
     >
+      {mode === "edit" && trade && <TradePlanComparisonCard tradeId={trade.id} />}
       <TradeForm
         accountId={accountId}
         onSubmit={handleSubmit}
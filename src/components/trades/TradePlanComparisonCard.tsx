@@ -0,0 +1,99 @@
+"use client";
+
+import { useTradePlanComparison } from "@/hooks/useTradePlans";
+import type { PlanExitType } from "@/services/trades/tradePlan";
+import type { Trade } from "@/types";
+
+interface TradePlanComparisonCardProps {
+  tradeId: string;
+}
+
+const EXIT_LABELS: Record<PlanExitType, string> = {
+  target: "No alvo",
+  stop: "No stop",
+  early: "Antecipada",
+  "beyond-stop": "Além do stop",
+  open: "Em aberto",
+};
+
+const ADHERENCE_STYLES: Record<NonNullable<Trade["planAdherence"]>, string> = {
+  "100%": "border-emerald-500/30 bg-emerald-500/10 text-emerald-400",
+  partial: "border-amber-500/30 bg-amber-500/10 text-amber-400",
+  "off-plan": "border-red-500/30 bg-red-500/10 text-red-400",
+};
+
+const ADHERENCE_LABELS: Record<NonNullable<Trade["planAdherence"]>, string> = {
+  "100%": "Plano seguido",
+  partial: "Parcial",
+  "off-plan": "Fora do plano",
+};
+
+const formatR = (value: number) => `${value > 0 ? "+" : ""}${value}R`;
+
+/**
+ * Plan vs execution of a trade created from a pre-trade plan.
+ * Renders nothing for trades without plan.
+ */
+export function TradePlanComparisonCard({ tradeId }: TradePlanComparisonCardProps) {
+  const { data } = useTradePlanComparison(tradeId);
+  if (!data) return null;
+
+  const { plan, comparison } = data;
+
+  return (
+    <div className="mb-6 space-y-3 rounded-xl border border-gray-700 bg-gray-800/50 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-gray-200">🎯 Plano vs Execução</p>
+        <span
+          className={`rounded-full border px-3 py-1 text-xs font-semibold ${ADHERENCE_STYLES[comparison.adherence]}`}
+        >
+          {ADHERENCE_LABELS[comparison.adherence]} · {comparison.rating}/5
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-xs md:grid-cols-5">
+        <div>
+          <p className="text-gray-500">Entrada planejada</p>
+          <p className="font-medium text-gray-200">{plan.plannedEntry}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Slippage</p>
+          <p
+            className={`font-medium ${comparison.entrySlippageR > 0 ? "text-red-400" : "text-gray-200"}`}
+          >
+            {formatR(comparison.entrySlippageR)}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Stop</p>
+          <p className="font-medium text-gray-200">
+            {comparison.stopChange === "widened"
+              ? "Afastado"
+              : comparison.stopChange === "tightened"
+                ? "Aproximado"
+                : "Mantido"}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Saída</p>
+          <p className="font-medium text-gray-200">{EXIT_LABELS[comparison.exit]}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Resultado / Planejado</p>
+          <p className="font-medium text-gray-200">
+            {comparison.realizedR !== null ? formatR(comparison.realizedR) : "-"} / +
+            {comparison.plannedRR}R
+          </p>
+        </div>
+      </div>
+
+      {comparison.deviations.length > 0 && (
+        <ul className="space-y-1 text-xs text-amber-300">
+          {comparison.deviations.map((deviation) => (
+            <li key={deviation}>⚠️ {deviation}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
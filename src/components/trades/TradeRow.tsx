@@ -1,8 +1,12 @@
-import React from "react";
+import React, { useState } from "react";
 import { TrendingUp, TrendingDown } from "lucide-react";
 import { IconActionButton, AssetBadge } from "@/components/ui";
 import type { Trade, JournalEntry } from "@/types";
 import { formatCurrency } from "@/lib/utils/trading";
+import { TradeNewsBadge } from "@/components/news/TradeNewsBadge";
+import type { TradeNewsEvent } from "@/services/analytics/news";
+import type { TradeRiskCheck } from "@/services/trades/positionSizing";
+import { TradeLegsTable } from "./shared";
 
 interface TradeRowProps {
   trade: Trade;
@@ -12,6 +16,10 @@ interface TradeRowProps {
   onDeleteTrade?: (tradeId: string) => void;
   onJournalClick?: (trade: Trade, startEditing?: boolean) => void;
   onViewDay?: (date: string) => void;
+  /** Economic events around the entry ("traded during news") */
+  newsEvents?: TradeNewsEvent[];
+  /** Set when the trade risked more than the configured risk per trade */
+  riskCheck?: TradeRiskCheck;
 }
 
 /**
@@ -26,10 +34,14 @@ export const TradeRow = React.memo(function TradeRow({
   onDeleteTrade,
   onJournalClick,
   onViewDay,
+  newsEvents,
+  riskCheck,
 }: TradeRowProps) {
   const isProfit = (trade.pnl || 0) > 0;
   const isLoss = (trade.pnl || 0) < 0;
   const isPending = trade.outcome === "pending";
+  const legCount = trade.legs?.length ?? 0;
+  const [showLegs, setShowLegs] = useState(false);
 
   // Calculate Risk:Reward
   const riskReward =
@@ -44,113 +56,151 @@ export const TradeRow = React.memo(function TradeRow({
   const timeStr = trade.entryTime || "00:00:00";
 
   return (
-    <tr
-      key={trade.id}
-      className="group border-b border-gray-700/50 transition-colors hover:bg-gray-700/20"
-    >
-      {/* DIÁRIO */}
-      <td className="px-3 py-3 text-center">
-        <IconActionButton
-          variant={journalEntry ? "journal" : "add"}
-          size="md"
-          onClick={() =>
-            onJournalClick ? onJournalClick(trade, !journalEntry) : onViewDay?.(trade.entryDate)
-          }
-          title={journalEntry ? "Ver Diário" : "Criar Diário"}
-        />
-      </td>
-
-      {/* AÇÕES */}
-      <td className="px-3 py-3">
-        <div className="flex items-center justify-center gap-2">
-          <IconActionButton
-            variant="edit"
-            size="md"
-            onClick={() => onEditTrade?.(trade)}
-            title="Editar"
-          />
+    <>
+      <tr
+        key={trade.id}
+        className="group border-b border-gray-700/50 transition-colors hover:bg-gray-700/20"
+      >
+        {/* DIÁRIO */}
+        <td className="px-3 py-3 text-center">
           <IconActionButton
-            variant="delete"
+            variant={journalEntry ? "journal" : "add"}
             size="md"
-            onClick={() => onDeleteTrade?.(trade.id)}
-            title="Excluir"
+            onClick={() =>
+              onJournalClick ? onJournalClick(trade, !journalEntry) : onViewDay?.(trade.entryDate)
+            }
+            title={journalEntry ? "Ver Diário" : "Criar Diário"}
           />
-        </div>
-      </td>
-
-      {/* DATA */}
-      <td className="px-3 py-3 text-center whitespace-nowrap">
-        <div className="text-sm font-medium text-gray-300">{displayDate}</div>
-        <div className="font-mono text-[10px] text-cyan-500/80">{timeStr} NY</div>
-      </td>
-
-      {/* ATIVO */}
-      <td className="px-3 py-3 text-center">
-        <div className="flex justify-center">
-          <AssetBadge symbol={trade.symbol} size="sm" />
-        </div>
-      </td>
-
-      {/* TIPO */}
-      <td className="px-3 py-3 text-center">
-        <div
-          className={`inline-flex items-center gap-1 rounded px-2 py-1 text-xs font-bold ${
-            trade.type === "Long"
-              ? "bg-zorin-accent/20 text-zorin-accent border-zorin-accent/30 border"
-              : "border border-red-500/30 bg-red-500/20 text-red-400"
-          }`}
-        >
-          <span>{trade.type}</span>
-          {trade.type === "Long" ? (
-            <TrendingUp className="h-3 w-3" />
-          ) : (
-            <TrendingDown className="h-3 w-3" />
+        </td>
+
+        {/* AÇÕES */}
+        <td className="px-3 py-3">
+          <div className="flex items-center justify-center gap-2">
+            <IconActionButton
+              variant="edit"
+              size="md"
+              onClick={() => onEditTrade?.(trade)}
+              title="Editar"
+            />
+            <IconActionButton
+              variant="delete"
+              size="md"
+              onClick={() => onDeleteTrade?.(trade.id)}
+              title="Excluir"
+            />
+          </div>
+        </td>
+
+        {/* DATA */}
+        <td className="px-3 py-3 text-center whitespace-nowrap">
+          <div className="text-sm font-medium text-gray-300">{displayDate}</div>
+          <div className="font-mono text-[10px] text-cyan-500/80">{timeStr} NY</div>
+        </td>
+
+        {/* ATIVO */}
+        <td className="px-3 py-3 text-center">
+          <div className="flex items-center justify-center gap-1.5">
+            <AssetBadge symbol={trade.symbol} size="sm" />
+            <TradeNewsBadge events={newsEvents} />
+            {riskCheck?.exceeded && (
+              <span
+                className="cursor-help text-xs"
+                title={`Risco de ${formatCurrency(riskCheck.actualRisk, currency)} (${riskCheck.actualRiskPercent}% do saldo), acima do configurado de ${formatCurrency(riskCheck.allowedRisk, currency)}`}
+              >
+                ⚠️
+              </span>
+            )}
+          </div>
+        </td>
+
+        {/* TIPO */}
+        <td className="px-3 py-3 text-center">
+          <div
+            className={`inline-flex items-center gap-1 rounded px-2 py-1 text-xs font-bold ${
+              trade.type === "Long"
+                ? "bg-zorin-accent/20 text-zorin-accent border-zorin-accent/30 border"
+                : "border border-red-500/30 bg-red-500/20 text-red-400"
+            }`}
+          >
+            <span>{trade.type}</span>
+            {trade.type === "Long" ? (
+              <TrendingUp className="h-3 w-3" />
+            ) : (
+              <TrendingDown className="h-3 w-3" />
+            )}
+          </div>
+        </td>
+
+        {/* P/L */}
+        <td className="px-3 py-3 text-center font-mono font-medium">
+          <span
+            className={isProfit ? "text-zorin-accent" : isLoss ? "text-red-400" : "text-gray-400"}
+          >
+            {formatCurrency(trade.pnl || 0, currency)}
+          </span>
+        </td>
+
+        {/* PREÇOS */}
+        <td className="px-3 py-3 text-center text-xs text-gray-400">
+          {trade.entryPrice.toFixed(2)}
+        </td>
+        <td className="px-3 py-3 text-center text-xs text-gray-400">
+          {trade.exitPrice ? trade.exitPrice.toFixed(2) : "-"}
+        </td>
+        <td className="px-3 py-3 text-center text-xs text-gray-300">
+          {trade.lot}
+          {legCount > 0 && (
+            <button
+              onClick={() => setShowLegs(!showLegs)}
+              className="block w-full text-[10px] text-cyan-500/80 hover:text-cyan-400"
+              title="Ver execuções"
+            >
+              {legCount} pernas {showLegs ? "▲" : "▼"}
+            </button>
           )}
-        </div>
-      </td>
-
-      {/* P/L */}
-      <td className="px-3 py-3 text-center font-mono font-medium">
-        <span
-          className={isProfit ? "text-zorin-accent" : isLoss ? "text-red-400" : "text-gray-400"}
-        >
-          {formatCurrency(trade.pnl || 0, currency)}
-        </span>
-      </td>
-
-      {/* PREÇOS */}
-      <td className="px-3 py-3 text-center text-xs text-gray-400">{trade.entryPrice.toFixed(2)}</td>
-      <td className="px-3 py-3 text-center text-xs text-gray-400">
-        {trade.exitPrice ? trade.exitPrice.toFixed(2) : "-"}
-      </td>
-      <td className="px-3 py-3 text-center text-xs text-gray-300">{trade.lot}</td>
-
-      {/* R:R */}
-      <td className="px-3 py-3 text-center font-mono text-xs text-gray-400">
-        {riskReward !== 0 ? `${Math.abs(riskReward).toFixed(2)}R` : "-"}
-      </td>
-
-      {/* TAGS */}
-      <td className="px-3 py-3 text-center">
-        <div className="mx-auto flex max-w-[180px] flex-wrap justify-center gap-1">
-          {trade.tags && <TagList tags={trade.tags} />}
-          {!trade.tags && <span className="text-sm text-gray-500">—</span>}
-        </div>
-      </td>
-
-      {/* STATUS */}
-      <td className="px-3 py-3 text-center">
-        <span
-          className={`rounded-full border px-2 py-0.5 text-[10px] font-bold ${
-            isPending
-              ? "border-yellow-500/30 bg-yellow-500/10 text-yellow-400"
-              : "border-gray-600 bg-gray-700/50 text-gray-400"
-          }`}
-        >
-          {isPending ? "ABERTO" : "FECHADO"}
-        </span>
-      </td>
-    </tr>
+        </td>
+
+        {/* R:R */}
+        <td className="px-3 py-3 text-center font-mono text-xs text-gray-400">
+          {riskReward !== 0 ? `${Math.abs(riskReward).toFixed(2)}R` : "-"}
+        </td>
+
+        {/* TAGS */}
+        <td className="px-3 py-3 text-center">
+          <div className="mx-auto flex max-w-[180px] flex-wrap justify-center gap-1">
+            {trade.tags && <TagList tags={trade.tags} />}
+            {!trade.tags && <span className="text-sm text-gray-500">—</span>}
+          </div>
+        </td>
+
+        {/* STATUS */}
+        <td className="px-3 py-3 text-center">
+          <span
+            className={`rounded-full border px-2 py-0.5 text-[10px] font-bold ${
+              isPending
+                ? "border-yellow-500/30 bg-yellow-500/10 text-yellow-400"
+                : "border-gray-600 bg-gray-700/50 text-gray-400"
+            }`}
+          >
+            {isPending ? "ABERTO" : "FECHADO"}
+          </span>
+        </td>
+      </tr>
+
+      {/* Execuções (pernas) de trades com entradas/saídas parciais */}
+      {showLegs && legCount > 0 && (
+        <tr className="border-b border-gray-700/50 bg-gray-900/20">
+          <td colSpan={12} className="px-6 py-3">
+            <TradeLegsTable
+              legs={trade.legs}
+              type={trade.type}
+              symbol={trade.symbol}
+              currency={currency}
+            />
+          </td>
+        </tr>
+      )}
+    </>
   );
 });
 
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { TradeLegsTable } from "../shared/TradeLegsTable";
+import type { TradeLeg } from "@/types";
+
+const leg = (overrides: Partial<TradeLeg>): TradeLeg => ({
+  id: "leg-1",
+  tradeId: "trade-1",
+  side: "entry",
+  price: 100,
+  quantity: 2,
+  executedDate: "2024-01-15",
+  executedTime: "10:00:00",
+  ...overrides,
+});
+
+describe("TradeLegsTable", () => {
+  it("should list every execution with the P&L of the exits", () => {
+    render(
+      <TradeLegsTable
+        legs={[
+          leg({}),
+          leg({ id: "leg-2", side: "exit", price: 110, quantity: 1, executedTime: "11:00:00" }),
+        ]}
+        type="Long"
+        symbol="XYZ"
+      />
+    );
+
+    expect(screen.getByText("Execuções (pernas)")).toBeInTheDocument();
+    expect(screen.getByText("Entrada")).toBeInTheDocument();
+    expect(screen.getByText("Saída")).toBeInTheDocument();
+    expect(screen.getByText("+10.00")).toBeInTheDocument();
+    expect(screen.getByText("1 em aberto")).toBeInTheDocument();
+  });
+
+  it("should prefer the P&L reported by the broker", () => {
+    render(
+      <TradeLegsTable
+        legs={[leg({}), leg({ id: "leg-2", side: "exit", price: 110, pnl: -5 })]}
+        type="Long"
+        symbol="XYZ"
+      />
+    );
+
+    expect(screen.getByText("-5.00")).toBeInTheDocument();
+  });
+
+  it("should render nothing for trades without legs", () => {
+    const { container } = render(<TradeLegsTable legs={[]} type="Long" symbol="XYZ" />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -3,8 +3,12 @@
 import { useState, useEffect, useMemo, useCallback } from "react";
 import dayjs from "dayjs";
 import { useSettingsStore } from "@/store/useSettingsStore";
-import { detectSession, getTimeframeAlignment, calculateRMultiple } from "@/lib/utils/trading";
-import type { Trade } from "@/types";
+import {
+  resolveTradeSession,
+  getTimeframeAlignment,
+  calculateRMultiple,
+} from "@/lib/utils/trading";
+import type { Trade, TradeLeg, TradeRuleCompliance } from "@/types";
 
 // ============================================
 // Constants & Mappers
@@ -55,6 +59,9 @@ export interface TradeFormState {
   marketConditionV2: string;
   pdArray: string;
 
+  // Playbook rules followed / broken
+  ruleCompliance: TradeRuleCompliance;
+
   // Financial
   symbol: string;
   type: "Long" | "Short" | "";
@@ -74,6 +81,9 @@ export interface TradeFormState {
 
   // Trade Mode (open/closed) - controlled by toggle, not by exitPrice content
   tradeMode: "open" | "closed";
+
+  // Executions of a multi-leg trade (read-only, they come from imports)
+  legs?: TradeLeg[];
 }
 
 export interface TradeFormSetters {
@@ -87,6 +97,7 @@ export interface TradeFormSetters {
   setEntryQuality: (v: string) => void;
   setMarketConditionV2: (v: string) => void;
   setPdArray: (v: string) => void;
+  setRuleCompliance: (v: TradeRuleCompliance) => void;
   setSymbol: (v: string) => void;
   setType: (v: "Long" | "Short" | "") => void;
   setEntryPrice: (v: string) => void;
@@ -105,12 +116,14 @@ export interface TradeFormSetters {
 
 export interface TradeFormComputedValues {
   isTradeOpen: boolean;
-  detectedSession: ReturnType<typeof detectSession>;
+  detectedSession: string;
   alignmentResult: ReturnType<typeof getTimeframeAlignment>;
   rMultiplePreview: number | null;
   estimates: { risk: number; reward: number };
 }
 
+const EMPTY_RULE_COMPLIANCE: TradeRuleCompliance = { followed: [], broken: [] };
+
 // ============================================
 // Hook
 // ============================================
@@ -126,7 +139,7 @@ export interface TradeFormComputedValues {
  * const { state, setters, computed, resetForm } = useTradeForm(initialData);
  */
 export function useTradeForm(initialData?: Partial<Trade>) {
-  const { assets } = useSettingsStore();
+  const { assets, sessionSettings } = useSettingsStore();
 
   // Market Conditions
   const [marketCondition, setMarketCondition] = useState(initialData?.marketCondition || "");
@@ -150,6 +163,9 @@ export function useTradeForm(initialData?: Partial<Trade>) {
     mapMarketConditionFromDb(initialData?.market_condition_v2)
   );
   const [pdArray, setPdArray] = useState(initialData?.pdArray || "");
+  const [ruleCompliance, setRuleCompliance] = useState<TradeRuleCompliance>(
+    initialData?.ruleCompliance || EMPTY_RULE_COMPLIANCE
+  );
 
   // Financial
   const [symbol, setSymbol] = useState(initialData?.symbol || "");
@@ -199,6 +215,7 @@ export function useTradeForm(initialData?: Partial<Trade>) {
       setEntryQuality(mapEntryQualityFromDb(initialData.entry_quality));
       setMarketConditionV2(mapMarketConditionFromDb(initialData.market_condition_v2));
       setPdArray(initialData.pdArray || "");
+      setRuleCompliance(initialData.ruleCompliance || EMPTY_RULE_COMPLIANCE);
       setSymbol(initialData.symbol || "");
       setType(initialData.type || "");
       setEntryPrice(initialData.entryPrice?.toString() || "");
@@ -224,24 +241,27 @@ export function useTradeForm(initialData?: Partial<Trade>) {
 
   const detectedSession = useMemo(() => {
     if (entryDate && entryTime) {
-      return detectSession(entryDate, entryTime, -3);
+      return resolveTradeSession(entryDate, entryTime, sessionSettings);
     }
-    return "Off-Hours" as const;
-  }, [entryDate, entryTime]);
+    return "Off-Hours";
+  }, [entryDate, entryTime, sessionSettings]);
 
   const alignmentResult = useMemo(() => {
     return getTimeframeAlignment(tfAnalise, tfEntrada);
   }, [tfAnalise, tfEntrada]);
 
+  const legs = initialData?.legs;
+
   const rMultiplePreview = useMemo(() => {
     if (!entryPrice || !exitPrice || !stopLoss || !type) return null;
     return calculateRMultiple(
       parseFloat(entryPrice),
       parseFloat(exitPrice),
       parseFloat(stopLoss),
-      type as "Long" | "Short"
+      type as "Long" | "Short",
+      legs
     );
-  }, [entryPrice, exitPrice, stopLoss, type]);
+  }, [entryPrice, exitPrice, stopLoss, type, legs]);
 
   const calculateEstimates = useCallback(() => {
     // We need entryPrice, lot, stopLoss, and takeProfit to calculate risk/reward estimates
@@ -298,6 +318,7 @@ export function useTradeForm(initialData?: Partial<Trade>) {
     setEntryQuality("");
     setMarketConditionV2("");
     setPdArray("");
+    setRuleCompliance(EMPTY_RULE_COMPLIANCE);
   }, []);
 
   return {
@@ -313,6 +334,7 @@ export function useTradeForm(initialData?: Partial<Trade>) {
       entryQuality,
       marketConditionV2,
       pdArray,
+      ruleCompliance,
       symbol,
       type,
       entryPrice,
@@ -327,6 +349,7 @@ export function useTradeForm(initialData?: Partial<Trade>) {
       exitDate,
       exitTime,
       tradeMode,
+      legs,
     } as TradeFormState,
 
     // Setters object
@@ -341,6 +364,7 @@ export function useTradeForm(initialData?: Partial<Trade>) {
       setEntryQuality,
       setMarketConditionV2,
       setPdArray,
+      setRuleCompliance,
       setSymbol,
       setType,
       setEntryPrice,
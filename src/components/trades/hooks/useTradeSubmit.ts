@@ -3,9 +3,10 @@
 import { useState, useCallback } from "react";
 import { useSettingsStore } from "@/store/useSettingsStore";
 import { useToast } from "@/providers/ToastProvider";
-import { calculateTradePnL, determineTradeOutcome } from "@/lib/utils/trading";
+import { calculateTradePnL, determineTradeOutcome, hasTradeLegs } from "@/lib/utils/trading";
 import { calculateRMultiple } from "@/lib/utils/trading";
 import { handleServiceError } from "@/lib/errors";
+import { pickPlaybookRules } from "@/services/trades/ruleCompliance";
 import type { Trade, Playbook } from "@/types";
 import {
   mapEntryQualityToDb,
@@ -79,6 +80,7 @@ export function useTradeSubmit(options: UseTradeSubmitOptions): UseTradeSubmitRe
       try {
         const asset = assets.find((a) => a.symbol === state.symbol.toUpperCase());
         const assetMultiplier = asset ? asset.multiplier : 1;
+        const playbook = playbooks?.find((p) => p.name === state.strategy);
 
         const tradeData: Omit<Trade, "id" | "createdAt" | "updatedAt"> = {
           userId: "",
@@ -100,10 +102,7 @@ export function useTradeSubmit(options: UseTradeSubmitOptions): UseTradeSubmitRe
           tfEntrada: state.tfEntrada || undefined,
           tags: state.tagsList.length > 0 ? state.tagsList.join(", ") : "#SemConfluencias",
           strategy: state.strategy || undefined,
-          strategyIcon:
-            state.strategy && playbooks
-              ? playbooks.find((p) => p.name === state.strategy)?.icon
-              : undefined,
+          strategyIcon: state.strategy ? playbook?.icon : undefined,
           setup: state.setup || undefined,
           marketCondition: (state.marketCondition as Trade["marketCondition"]) || undefined,
           session: state.entryTime ? computed.detectedSession : undefined,
@@ -115,11 +114,22 @@ export function useTradeSubmit(options: UseTradeSubmitOptions): UseTradeSubmitRe
           entry_quality: mapEntryQualityToDb(state.entryQuality),
           market_condition_v2: mapMarketConditionToDb(state.marketConditionV2),
           pdArray: (state.pdArray as Trade["pdArray"]) || undefined,
+          // Only rules of the selected playbook (none clears what was stored)
+          ruleCompliance: pickPlaybookRules(state.ruleCompliance, playbook?.ruleGroups || []) || {
+            followed: [],
+            broken: [],
+          },
         };
 
-        // Calculate PnL if trade is closed
+        // Calculate PnL if trade is closed. Multi-leg trades keep their legs
+        // (not editable here), so PnL and R come from the legs, not the flat prices.
+        const legs = hasTradeLegs(state.legs) ? state.legs : undefined;
         if (state.exitPrice) {
-          const tempTrade = { ...tradeData, exitPrice: parseFloat(state.exitPrice) } as Trade;
+          const tempTrade = {
+            ...tradeData,
+            exitPrice: parseFloat(state.exitPrice),
+            legs,
+          } as Trade;
           const pnl = calculateTradePnL(tempTrade, assetMultiplier);
           tradeData.pnl = pnl;
           tradeData.outcome = determineTradeOutcome({ ...tempTrade, pnl } as Trade);
@@ -128,7 +138,8 @@ export function useTradeSubmit(options: UseTradeSubmitOptions): UseTradeSubmitRe
             parseFloat(state.entryPrice),
             parseFloat(state.exitPrice),
             parseFloat(state.stopLoss),
-            state.type as "Long" | "Short"
+            state.type as "Long" | "Short",
+            legs
           );
           tradeData.rMultiple = rMult ?? undefined;
         }
@@ -3,7 +3,7 @@
 import React from "react";
 import { FormSection, FormRow } from "@/components/ui";
 import { DatePickerInput, TimePickerInput } from "@/components/ui/DateTimePicker";
-import { getSessionEmoji, type TradingSession } from "@/lib/utils/trading";
+import { getSessionEmoji, isMarketSession } from "@/lib/utils/trading";
 
 interface TradeDateTimeSectionProps {
   // Values
@@ -33,7 +33,7 @@ interface TradeDateTimeSectionProps {
   ) => void;
   getError: (field: string) => string | undefined;
   // Computed
-  detectedSession: TradingSession;
+  detectedSession: string;
   isTradeOpen: boolean;
   // Mode
   mode: "create" | "edit";
@@ -83,7 +83,9 @@ export const TradeDateTimeSection = React.memo(function TradeDateTimeSection({
               ? "border border-orange-500/30 bg-orange-500/20 text-orange-300"
               : detectedSession === "New York" || detectedSession === "London"
                 ? "border border-cyan-500/30 bg-cyan-500/20 text-cyan-300"
-                : "border border-gray-600 bg-gray-700/50 text-gray-400"
+                : !isMarketSession(detectedSession)
+                  ? "border border-violet-500/30 bg-violet-500/20 text-violet-300"
+                  : "border border-gray-600 bg-gray-700/50 text-gray-400"
           }`}
         >
           {getSessionEmoji(detectedSession)} {detectedSession}
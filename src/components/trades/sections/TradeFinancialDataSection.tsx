@@ -13,7 +13,13 @@ import {
   SelectValue,
 } from "@/components/ui";
 import { AssetCombobox } from "@/components/shared/AssetCombobox";
-import { SelectValueWithIcon, RiskRewardCards, TradeResultBadge } from "../shared";
+import {
+  SelectValueWithIcon,
+  RiskRewardCards,
+  TradeResultBadge,
+  PositionSizeHint,
+} from "../shared";
+import type { PositionSizingState } from "@/hooks/usePositionSizing";
 
 interface TradeFinancialDataSectionProps {
   // Values
@@ -57,6 +63,8 @@ interface TradeFinancialDataSectionProps {
   isTradeOpen: boolean;
   estimates: { risk: number; reward: number };
   rMultiplePreview: number | null;
+  /** Suggested lot from the sizing settings (hidden when absent) */
+  positionSizing?: PositionSizingState;
   // Mode
   mode: "create" | "edit";
 }
@@ -86,6 +94,7 @@ export const TradeFinancialDataSection = React.memo(function TradeFinancialDataS
   isTradeOpen,
   estimates,
   rMultiplePreview,
+  positionSizing,
   mode,
 }: TradeFinancialDataSectionProps) {
   return (
@@ -178,6 +187,18 @@ export const TradeFinancialDataSection = React.memo(function TradeFinancialDataS
         />
       </FormRow>
 
+      {/* Position sizing */}
+      {positionSizing && (
+        <PositionSizeHint
+          size={positionSizing.size}
+          riskCheck={positionSizing.riskCheck}
+          method={positionSizing.settings.method}
+          balance={positionSizing.balance}
+          isKellyUnavailable={positionSizing.isKellyUnavailable}
+          onApply={(lots) => setLot(String(lots))}
+        />
+      )}
+
       {/* Exit Price */}
       {(mode === "edit" || !isTradeOpen) && (
         <Input
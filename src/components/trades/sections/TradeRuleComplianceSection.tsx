@@ -0,0 +1,100 @@
+"use client";
+
+import React from "react";
+import { FormSection } from "@/components/ui";
+import type { Playbook, TradeRuleCompliance } from "@/types";
+
+type RuleStatus = keyof TradeRuleCompliance;
+
+interface TradeRuleComplianceSectionProps {
+  // Playbook of the selected strategy
+  playbook: Playbook | undefined;
+  // Values
+  ruleCompliance: TradeRuleCompliance;
+  // Setters
+  setRuleCompliance: (v: TradeRuleCompliance) => void;
+}
+
+const STATUS_BUTTONS: { status: RuleStatus; label: string; activeClass: string }[] = [
+  {
+    status: "followed",
+    label: "✓ Seguida",
+    activeClass: "border-emerald-500/50 bg-emerald-500/20 text-emerald-300",
+  },
+  {
+    status: "broken",
+    label: "✗ Quebrada",
+    activeClass: "border-red-500/50 bg-red-500/20 text-red-300",
+  },
+];
+
+/**
+ * Marks each rule of the trade's playbook as followed or broken.
+ * Clicking the active status again leaves the rule unmarked.
+ */
+export const TradeRuleComplianceSection = React.memo(function TradeRuleComplianceSection({
+  playbook,
+  ruleCompliance,
+  setRuleCompliance,
+}: TradeRuleComplianceSectionProps) {
+  const groups = playbook?.ruleGroups.filter((group) => group.rules.length > 0) || [];
+  if (groups.length === 0) return null;
+
+  const getStatus = (rule: string): RuleStatus | null =>
+    ruleCompliance.broken.includes(rule)
+      ? "broken"
+      : ruleCompliance.followed.includes(rule)
+        ? "followed"
+        : null;
+
+  const handleToggle = (rule: string, status: RuleStatus) => {
+    const next = getStatus(rule) === status ? null : status;
+    setRuleCompliance({
+      followed: [
+        ...ruleCompliance.followed.filter((r) => r !== rule),
+        ...(next === "followed" ? [rule] : []),
+      ],
+      broken: [
+        ...ruleCompliance.broken.filter((r) => r !== rule),
+        ...(next === "broken" ? [rule] : []),
+      ],
+    });
+  };
+
+  return (
+    <FormSection icon="📏" title="Regras do Playbook">
+      {groups.map((group) => (
+        <div key={group.id} className="space-y-2">
+          <p className="text-xs font-medium text-gray-400">{group.name}</p>
+          {group.rules.map((rule) => {
+            const status = getStatus(rule);
+            return (
+              <div
+                key={rule}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-gray-900/40 px-3 py-2"
+              >
+                <span className="text-sm text-gray-200">{rule}</span>
+                <div className="flex gap-2">
+                  {STATUS_BUTTONS.map((button) => (
+                    <button
+                      key={button.status}
+                      type="button"
+                      onClick={() => handleToggle(rule, button.status)}
+                      className={`rounded-md border px-2 py-1 text-xs font-medium transition-colors ${
+                        status === button.status
+                          ? button.activeClass
+                          : "border-gray-700 text-gray-500 hover:text-gray-300"
+                      }`}
+                    >
+                      {button.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </FormSection>
+  );
+});
@@ -1,3 +1,4 @@
 export { TradeMarketConditionsSection } from "./TradeMarketConditionsSection";
 export { TradeFinancialDataSection } from "./TradeFinancialDataSection";
 export { TradeDateTimeSection } from "./TradeDateTimeSection";
+export { TradeRuleComplianceSection } from "./TradeRuleComplianceSection";
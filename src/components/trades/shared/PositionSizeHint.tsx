@@ -0,0 +1,79 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/Button";
+import { formatCurrency } from "@/lib/utils/trading";
+import { MIN_KELLY_TRADES } from "@/services/trades/positionSizing";
+import type { PositionSizeResult, TradeRiskCheck } from "@/services/trades/positionSizing";
+import type { PositionSizingMethod } from "@/types";
+
+interface PositionSizeHintProps {
+  size: PositionSizeResult | null;
+  /** Risk of the lot currently typed */
+  riskCheck: TradeRiskCheck | null;
+  method: PositionSizingMethod;
+  balance: number;
+  currency?: string;
+  isKellyUnavailable?: boolean;
+  onApply: (lots: number) => void;
+}
+
+const METHOD_LABELS: Record<PositionSizingMethod, string> = {
+  fixed_fractional: "% fixo do saldo",
+  fixed_amount: "Valor fixo",
+  kelly: "Kelly",
+};
+
+/**
+ * Suggested lot for the entry/stop being typed, with a warning when the typed lot
+ * risks more than the configured risk per trade.
+ */
+export const PositionSizeHint = React.memo(function PositionSizeHint({
+  size,
+  riskCheck,
+  method,
+  balance,
+  currency = "USD",
+  isKellyUnavailable,
+  onApply,
+}: PositionSizeHintProps) {
+  let message: React.ReactNode;
+  if (balance <= 0) {
+    message = "Saldo da conta indisponível para calcular o lote.";
+  } else if (isKellyUnavailable) {
+    message = `Kelly precisa de ${MIN_KELLY_TRADES}+ trades fechados do playbook com perdas.`;
+  } else if (!size) {
+    message = "Informe entrada e stop para calcular o lote.";
+  } else {
+    message = (
+      <>
+        Lote sugerido <span className="font-mono font-bold text-cyan-300">{size.lots}</span> · risco{" "}
+        {formatCurrency(size.actualRisk, currency)} ({size.riskPercent}%)
+        {size.kellyPercent !== undefined && ` · Kelly cheio ${size.kellyPercent}%`}
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-700 bg-gray-800/40 p-3 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-gray-400">
+          <span className="mr-1">📐</span>
+          <span className="text-gray-500">{METHOD_LABELS[method]}:</span> {message}
+        </p>
+        {size && size.lots > 0 && (
+          <Button type="button" variant="secondary" size="sm" onClick={() => onApply(size.lots)}>
+            Usar
+          </Button>
+        )}
+      </div>
+      {riskCheck?.exceeded && (
+        <p className="text-amber-400">
+          ⚠️ O lote atual arrisca {formatCurrency(riskCheck.actualRisk, currency)} (
+          {riskCheck.actualRiskPercent}% do saldo), {riskCheck.excessPct}% acima do risco
+          configurado de {formatCurrency(riskCheck.allowedRisk, currency)}.
+        </p>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useMemo } from "react";
+import dayjs from "dayjs";
+import type { TradeLeg } from "@/types";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { formatCurrency, hasTradeLegs, summarizeTradeLegs } from "@/lib/utils/trading";
+
+interface TradeLegsTableProps {
+  legs?: TradeLeg[];
+  type: "Long" | "Short" | "";
+  symbol: string;
+  /** Account currency; without it the P&L is shown as a plain number */
+  currency?: string;
+}
+
+const formatPnL = (value: number, currency?: string) => {
+  const formatted = currency ? formatCurrency(value, currency) : value.toFixed(2);
+  return value > 0 ? `+${formatted}` : formatted;
+};
+
+/**
+ * Read-only list of the executions (legs) of a multi-leg trade, in execution
+ * order, with the realized P&L of each exit. Renders nothing for trades
+ * without legs.
+ */
+export const TradeLegsTable = React.memo(function TradeLegsTable({
+  legs,
+  type,
+  symbol,
+  currency,
+}: TradeLegsTableProps) {
+  const { assets } = useSettingsStore();
+
+  const summary = useMemo(() => {
+    if (!hasTradeLegs(legs) || !type) return null;
+    const asset = assets.find((a) => a.symbol === symbol.toUpperCase());
+    return summarizeTradeLegs(legs, type, asset ? asset.multiplier : 1);
+  }, [legs, type, symbol, assets]);
+
+  if (!summary || !legs) return null;
+
+  // Reported P&L wins; legs imported without it use the calculated one
+  const pnlByLeg = new Map(summary.legPnL.map((item) => [item.legId, item.pnl]));
+
+  return (
+    <div className="rounded-lg border border-gray-700/50 bg-gray-900/30 p-3">
+      <div className="mb-2 flex items-center justify-between text-xs">
+        <span className="font-medium text-gray-300">Execuções (pernas)</span>
+        {summary.openQuantity > 0 && (
+          <span className="text-amber-400">{summary.openQuantity} em aberto</span>
+        )}
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-[10px] text-gray-500 uppercase">
+            <th className="py-1">Lado</th>
+            <th className="py-1 text-right">Preço</th>
+            <th className="py-1 text-right">Qtd.</th>
+            <th className="py-1 text-right">Data</th>
+            <th className="py-1 text-right">P&L</th>
+          </tr>
+        </thead>
+        <tbody>
+          {legs.map((leg) => {
+            const pnl = leg.pnl ?? pnlByLeg.get(leg.id);
+            return (
+              <tr key={leg.id} className="border-t border-gray-800/50 text-gray-300">
+                <td
+                  className={`py-1 ${leg.side === "entry" ? "text-cyan-400" : "text-purple-400"}`}
+                >
+                  {leg.side === "entry" ? "Entrada" : "Saída"}
+                </td>
+                <td className="py-1 text-right">{leg.price}</td>
+                <td className="py-1 text-right">{leg.quantity}</td>
+                <td className="py-1 text-right whitespace-nowrap">
+                  {dayjs(leg.executedDate).format("DD/MM/YY")}
+                  {leg.executedTime ? ` ${leg.executedTime.slice(0, 5)}` : ""}
+                </td>
+                <td
+                  className={`py-1 text-right ${
+                    pnl === undefined
+                      ? "text-gray-500"
+                      : pnl >= 0
+                        ? "text-green-400"
+                        : "text-red-400"
+                  }`}
+                >
+                  {leg.side === "exit" && pnl !== undefined ? formatPnL(pnl, currency) : "-"}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+});
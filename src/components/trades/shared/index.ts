@@ -2,3 +2,5 @@ export { SelectValueWithIcon } from "./SelectValueWithIcon";
 export { ConfluenceTags } from "./ConfluenceTags";
 export { RiskRewardCards } from "./RiskRewardCards";
 export { TradeResultBadge } from "./TradeResultBadge";
+export { PositionSizeHint } from "./PositionSizeHint";
+export { TradeLegsTable } from "./TradeLegsTable";
@@ -24,6 +24,7 @@ import {
   UserMinus,
   Download,
   PieChart,
+  FileText,
   type LucideIcon,
 } from "lucide-react";
 
@@ -48,6 +49,7 @@ type IconActionVariant =
   | "promote"
   | "demote"
   | "import"
+  | "report"
   | "pdarray";
 type IconActionSize = "sm" | "md" | "lg";
 
@@ -188,6 +190,12 @@ const VARIANT_CONFIG: Record<IconActionVariant, VariantConfig> = {
     defaultTitle: "Importar",
     Icon: Download,
   },
+  report: {
+    hoverText: "hover:text-cyan-400",
+    hoverBg: "hover:bg-cyan-500/10",
+    defaultTitle: "Relatório",
+    Icon: FileText,
+  },
   pdarray: {
     hoverText: "hover:text-cyan-400",
     hoverBg: "hover:bg-cyan-500/10",
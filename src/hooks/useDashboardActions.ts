@@ -9,7 +9,7 @@ import type { Trade } from "@/types";
 
 export interface DashboardActions {
   // Trade Actions
-  handleCreateTrade: (tradeData: Omit<Trade, "id" | "createdAt" | "updatedAt">) => Promise<void>;
+  handleCreateTrade: (tradeData: Omit<Trade, "id" | "createdAt" | "updatedAt">) => Promise<Trade>;
   handleUpdateTrade: (trade: Trade) => Promise<void>;
   handleDeleteTrade: (tradeId: string) => Promise<void>;
   handleDeleteAllTrades: () => Promise<void>;
@@ -59,8 +59,9 @@ export function useDashboardActions(
         updatedAt: new Date().toISOString(),
       } as Trade;
 
-      await addTrade(newTrade);
+      const createdTrade = await addTrade(newTrade);
       callbacks?.onTradeCreated?.();
+      return createdTrade;
     },
     [addTrade, callbacks]
   );
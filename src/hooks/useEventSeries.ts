@@ -0,0 +1,42 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  EconomicEvent,
+  getEventSeries,
+} from "@/lib/database/repositories/external/economicEvents.repository";
+import {
+  buildEventSeries,
+  calculateSeriesTradePerformance,
+  type EventSeriesTrade,
+} from "@/services/analytics/eventSurprise";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { tradeNewsKeys } from "./useTradeNews";
+
+/**
+ * Past releases of the event's series with their surprises, and how the trades
+ * taken around them performed.
+ */
+export function useEventSeries(
+  event: Pick<EconomicEvent, "currency" | "event_name">,
+  trades: EventSeriesTrade[]
+) {
+  const { newsSettings, sessionSettings } = useSettingsStore();
+
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: tradeNewsKeys.series(event.currency, event.event_name),
+    queryFn: () => getEventSeries(event.currency, event.event_name),
+    staleTime: 1000 * 60 * 60,
+    refetchOnWindowFocus: false,
+  });
+
+  const releases = useMemo(() => buildEventSeries(events), [events]);
+
+  const performance = useMemo(
+    () => calculateSeriesTradePerformance(releases, trades, newsSettings, sessionSettings.timezone),
+    [releases, trades, newsSettings, sessionSettings.timezone]
+  );
+
+  return { releases, performance, isLoading };
+}
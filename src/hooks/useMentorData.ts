@@ -3,6 +3,7 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   getMenteesOverviewAction,
+  getCohortAnalyticsAction,
   getSentInvitesAction,
   getReceivedInvitesAction,
   inviteMenteeAction,
@@ -15,6 +16,7 @@ export const mentorKeys = {
   all: ["mentor"] as const,
   mentees: () => [...mentorKeys.all, "mentees"] as const,
   invites: () => [...mentorKeys.all, "invites"] as const,
+  cohort: (periodDays: number) => [...mentorKeys.all, "cohort", periodDays] as const,
 };
 
 /**
@@ -28,6 +30,17 @@ export function useMentorMentees() {
   });
 }
 
+/**
+ * Hook to compare mentees over a period (cohort analytics)
+ */
+export function useCohortAnalytics(periodDays: number) {
+  return useQuery({
+    queryKey: mentorKeys.cohort(periodDays),
+    queryFn: () => getCohortAnalyticsAction(periodDays),
+    staleTime: 10 * 60 * 1000, // 10 minutes - aggregates over weeks of trades
+  });
+}
+
 /**
  * Hook to fetch sent invites with caching
  */
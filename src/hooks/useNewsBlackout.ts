@@ -0,0 +1,39 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getEventsByDateRange } from "@/lib/database/repositories/external/economicEvents.repository";
+import { findBlackoutEvents, getBlackoutRule } from "@/services/analytics/news";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { tradeNewsKeys } from "./useTradeNews";
+
+/**
+ * Releases whose blackout window contains an instant (entry time or now).
+ * Pass a symbol to match its currencies when the rule has none.
+ */
+export function useNewsBlackout(instant: Date | null, symbol?: string) {
+  const { newsSettings } = useSettingsStore();
+  const rule = getBlackoutRule(newsSettings);
+
+  const day = instant ? instant.toISOString().split("T")[0] : "";
+
+  const { data: events = [] } = useQuery({
+    queryKey: tradeNewsKeys.day(day),
+    // Calendar dates are New York dates: one day of margin on each side
+    queryFn: () =>
+      getEventsByDateRange(
+        new Date(new Date(`${day}T12:00:00Z`).getTime() - 86400000),
+        new Date(new Date(`${day}T12:00:00Z`).getTime() + 86400000)
+      ),
+    enabled: !!instant && rule.enabled,
+    staleTime: 1000 * 60 * 60,
+    refetchOnWindowFocus: false,
+  });
+
+  const blackoutEvents = useMemo(
+    () => (instant ? findBlackoutEvents(instant, events, rule, symbol) : []),
+    [instant, events, rule, symbol]
+  );
+
+  return { rule, blackoutEvents, isBlackout: blackoutEvents.length > 0 };
+}
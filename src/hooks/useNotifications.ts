@@ -0,0 +1,44 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  getNotificationsAction,
+  getUnreadNotificationCountAction,
+} from "@/app/actions/notifications";
+import type { NotificationFilter } from "@/lib/database/repositories";
+
+export const notificationKeys = {
+  all: ["notifications"] as const,
+  list: (filter: NotificationFilter, page: number, pageSize: number) =>
+    [...notificationKeys.all, "list", filter, page, pageSize] as const,
+  unreadCount: () => [...notificationKeys.all, "unread-count"] as const,
+};
+
+/** Notifications arrive from other users' actions, so the bell polls */
+const POLL_INTERVAL = 60 * 1000; // 1 minute
+
+/**
+ * A page of the user's notification center.
+ */
+export function useNotifications(filter: NotificationFilter = "inbox", page = 1, pageSize = 10) {
+  return useQuery({
+    queryKey: notificationKeys.list(filter, page, pageSize),
+    queryFn: () => getNotificationsAction(page, pageSize, filter),
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: POLL_INTERVAL,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Unread notifications (bell badge).
+ */
+export function useUnreadNotificationCount() {
+  return useQuery({
+    queryKey: notificationKeys.unreadCount(),
+    queryFn: getUnreadNotificationCountAction,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: POLL_INTERVAL,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -1,5 +1,5 @@
 import { useMemo } from "react";
-import type { Trade } from "@/types";
+import type { RuleGroup, SessionSettings, Trade } from "@/types";
 import {
   HtfNestedMetric,
   HtfExpandedMetric,
@@ -11,6 +11,8 @@ import {
   PdArrayExpandedMetric,
   LtfExpandedMetric,
   TagMetric,
+  RuleMetric,
+  RuleComplianceStats,
 } from "@/types/playbookTypes";
 import {
   getTimeframePriority,
@@ -18,6 +20,7 @@ import {
   getSessionIcon,
   getPdArrayIcon,
 } from "@/lib/utils/playbook";
+import { resolveTradeSession } from "@/lib/utils/trading";
 
 // Build nested metrics: HTF -> PD Array + Tag Combination -> LTF
 function buildNestedMetrics(trades: Trade[]): HtfNestedMetric[] {
@@ -212,7 +215,10 @@ function buildNestedMetrics(trades: Trade[]): HtfNestedMetric[] {
 }
 
 // ===== BUILD HIERARCHICAL METRICS: HTF → Condition → PD Array → Session → LTF → Tags =====
-function buildHierarchicalMetrics(trades: Trade[]): HtfExpandedMetric[] {
+function buildHierarchicalMetrics(
+  trades: Trade[],
+  sessionSettings?: SessionSettings
+): HtfExpandedMetric[] {
   // Type for the deepest stats accumulator
   type Stats = { wins: number; losses: number; pnl: number; rMultiples: number[] };
 
@@ -230,7 +236,11 @@ function buildHierarchicalMetrics(trades: Trade[]): HtfExpandedMetric[] {
     const htf = trade.tfAnalise || "N/A";
     const condition = trade.market_condition_v2 || "N/A";
     const pdArray = trade.pdArray || "N/A";
-    const session = trade.session || "N/A";
+    // With session settings, re-detect from the entry time (DST-aware, custom sessions)
+    const session =
+      sessionSettings && trade.entryTime
+        ? resolveTradeSession(trade.entryDate, trade.entryTime, sessionSettings)
+        : trade.session || "N/A";
     const ltf = trade.tfEntrada || "N/A";
     const tagCombo = trade.tags
       ? trade.tags === "#SemConfluencias"
@@ -419,12 +429,101 @@ function buildHierarchicalMetrics(trades: Trade[]): HtfExpandedMetric[] {
   return result;
 }
 
-export function usePlaybookMetrics(trades: Trade[]) {
+// ===== BUILD RULE METRICS: each playbook rule, followed vs. broken =====
+function buildRuleMetrics(trades: Trade[], ruleGroups: RuleGroup[]): RuleMetric[] {
+  type Stats = { wins: number; losses: number; closed: number; pnl: number; rMultiples: number[] };
+  const emptyStats = (): Stats => ({ wins: 0, losses: 0, closed: 0, pnl: 0, rMultiples: [] });
+
+  const ruleMap = new Map<string, { group: string; followed: Stats; broken: Stats }>();
+  ruleGroups.forEach((group) => {
+    group.rules.forEach((rule) => {
+      if (!ruleMap.has(rule)) {
+        ruleMap.set(rule, { group: group.name, followed: emptyStats(), broken: emptyStats() });
+      }
+    });
+  });
+
+  trades.forEach((trade) => {
+    if (!trade.ruleCompliance || !trade.outcome || trade.outcome === "pending") return;
+
+    const pnl = trade.pnl || 0;
+    let rMultiple = trade.rMultiple;
+    if ((rMultiple === undefined || rMultiple === null) && trade.stopLoss && trade.lot) {
+      const expectedRisk = Math.abs(trade.entryPrice - trade.stopLoss) * trade.lot;
+      if (expectedRisk > 0 && pnl !== 0) rMultiple = pnl / expectedRisk;
+    }
+
+    const addTo = (stats: Stats) => {
+      if (trade.outcome === "win") stats.wins++;
+      else if (trade.outcome === "loss") stats.losses++;
+      stats.closed++;
+      stats.pnl += pnl;
+      if (rMultiple !== undefined && rMultiple !== null && !isNaN(rMultiple)) {
+        stats.rMultiples.push(rMultiple);
+      }
+    };
+
+    trade.ruleCompliance.followed.forEach((rule) => {
+      const entry = ruleMap.get(rule);
+      if (entry) addTo(entry.followed);
+    });
+    trade.ruleCompliance.broken.forEach((rule) => {
+      const entry = ruleMap.get(rule);
+      if (entry) addTo(entry.broken);
+    });
+  });
+
+  const calcStats = ({ wins, losses, closed, pnl, rMultiples }: Stats): RuleComplianceStats => {
+    const total = wins + losses;
+    return {
+      wins,
+      losses,
+      pnl,
+      winRate: total > 0 ? (wins / total) * 100 : 0,
+      avgRR:
+        rMultiples.length > 0 ? rMultiples.reduce((a, b) => a + b, 0) / rMultiples.length : null,
+      totalTrades: total,
+      expectancy: closed > 0 ? pnl / closed : 0,
+    };
+  };
+
+  const result: RuleMetric[] = [];
+  ruleMap.forEach((entry, rule) => {
+    if (entry.followed.closed === 0 && entry.broken.closed === 0) return;
+    result.push({
+      rule,
+      group: entry.group,
+      followed: calcStats(entry.followed),
+      broken: calcStats(entry.broken),
+    });
+  });
+
+  // Rules whose compliance makes the biggest difference first
+  result.sort(
+    (a, b) =>
+      b.followed.expectancy - b.broken.expectancy - (a.followed.expectancy - a.broken.expectancy)
+  );
+  return result;
+}
+
+export function usePlaybookMetrics(
+  trades: Trade[],
+  sessionSettings?: SessionSettings,
+  ruleGroups?: RuleGroup[]
+) {
   const nestedMetrics = useMemo(() => buildNestedMetrics(trades), [trades]);
-  const hierarchicalMetrics = useMemo(() => buildHierarchicalMetrics(trades), [trades]);
+  const hierarchicalMetrics = useMemo(
+    () => buildHierarchicalMetrics(trades, sessionSettings),
+    [trades, sessionSettings]
+  );
+  const ruleMetrics = useMemo(
+    () => buildRuleMetrics(trades, ruleGroups || []),
+    [trades, ruleGroups]
+  );
 
   return {
     nestedMetrics,
     hierarchicalMetrics,
+    ruleMetrics,
   };
 }
@@ -0,0 +1,24 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { getPlaybookVersionsAction } from "@/app/actions/playbooks";
+
+export const playbookVersionKeys = {
+  all: ["playbook-versions"] as const,
+  list: (playbookId: string, currentVersion?: number) =>
+    [...playbookVersionKeys.all, playbookId, currentVersion ?? 1] as const,
+};
+
+/**
+ * Version history of a playbook, newest first.
+ * Keyed by the current version so a new version is fetched right after an edit.
+ */
+export function usePlaybookVersions(playbookId: string | undefined, currentVersion?: number) {
+  return useQuery({
+    queryKey: playbookVersionKeys.list(playbookId || "", currentVersion),
+    queryFn: () => getPlaybookVersionsAction(playbookId!),
+    enabled: !!playbookId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getPlaybookStatsAction } from "@/app/actions/playbooks";
+import { useAccountStore } from "@/store/useAccountStore";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { useTradeStore } from "@/store/useTradeStore";
+import {
+  calculateKellyPercent,
+  calculatePositionSize,
+  getBalanceAtEntry,
+  getTradeRiskCheck,
+  type TradeRiskCheck,
+} from "@/services/trades/positionSizing";
+import type { Trade } from "@/types";
+
+export const positionSizingKeys = {
+  all: ["position-sizing"] as const,
+  playbookStats: (accountId: string) =>
+    [...positionSizingKeys.all, "playbook-stats", accountId] as const,
+};
+
+interface PositionSizingInput {
+  accountId: string;
+  symbol: string;
+  entryPrice: number;
+  stopLoss: number;
+  /** Lot typed by the user, checked against the configured risk */
+  lot?: number;
+  /** Playbook whose stats feed the Kelly method */
+  strategy?: string;
+}
+
+/**
+ * Suggested size for a trade of the current account (balance, asset multiplier and
+ * sizing settings) and the risk check of the typed lot.
+ */
+export function usePositionSizing({
+  accountId,
+  symbol,
+  entryPrice,
+  stopLoss,
+  lot,
+  strategy,
+}: PositionSizingInput) {
+  const { assets, sizingSettings } = useSettingsStore();
+  const { currentAccount } = useAccountStore();
+  const balance = currentAccount?.id === accountId ? Number(currentAccount.currentBalance) : 0;
+  const isKelly = sizingSettings.method === "kelly";
+
+  const { data: playbookStats = [] } = useQuery({
+    queryKey: positionSizingKeys.playbookStats(accountId),
+    queryFn: () => getPlaybookStatsAction(accountId),
+    enabled: isKelly && !!accountId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+
+  const multiplier = assets.find((a) => a.symbol === symbol.toUpperCase())?.multiplier ?? 1;
+  const kellyStats = strategy ? playbookStats.find((s) => s.name === strategy) : undefined;
+
+  const size = useMemo(
+    () =>
+      calculatePositionSize({
+        balance,
+        entryPrice,
+        stopLoss,
+        multiplier,
+        settings: sizingSettings,
+        kellyStats,
+      }),
+    [balance, entryPrice, stopLoss, multiplier, sizingSettings, kellyStats]
+  );
+
+  const riskCheck = useMemo(
+    () =>
+      lot
+        ? getTradeRiskCheck({ entryPrice, stopLoss, lot }, balance, multiplier, sizingSettings)
+        : null,
+    [lot, entryPrice, stopLoss, balance, multiplier, sizingSettings]
+  );
+
+  return {
+    size,
+    riskCheck,
+    balance,
+    settings: sizingSettings,
+    /** Kelly selected but the playbook has no usable stats */
+    isKellyUnavailable: isKelly && calculateKellyPercent(kellyStats) === null,
+  };
+}
+
+export type PositionSizingState = ReturnType<typeof usePositionSizing>;
+
+/**
+ * Trades of the current account that risked more than the configured risk per
+ * trade, by trade id. Risk is measured against the balance at each trade's entry.
+ */
+export function useTradeRiskChecks(trades: Trade[]): Record<string, TradeRiskCheck> {
+  const { assets, sizingSettings } = useSettingsStore();
+  const { currentAccount } = useAccountStore();
+  const { allHistory } = useTradeStore();
+  const initialBalance = Number(currentAccount?.initialBalance || 0);
+
+  return useMemo(() => {
+    const checks: Record<string, TradeRiskCheck> = {};
+    trades.forEach((trade) => {
+      const multiplier =
+        assets.find((a) => a.symbol === trade.symbol.toUpperCase())?.multiplier ?? 1;
+      const balance = getBalanceAtEntry(trade, allHistory, initialBalance);
+      const check = getTradeRiskCheck(trade, balance, multiplier, sizingSettings);
+      if (check?.exceeded) checks[trade.id] = check;
+    });
+    return checks;
+  }, [trades, assets, sizingSettings, allHistory, initialBalance]);
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Account } from "@/types";
+import type { PropFirmEvaluation } from "@/lib/utils/trading";
+import { evaluatePropFirmRulesAction } from "@/app/actions/accounts";
+
+/**
+ * Hook that evaluates the prop firm rules of an account on the server.
+ * Re-runs whenever `refreshKey` changes (e.g. trade count or total PnL). Read-only:
+ * breaches are persisted by the trade mutations.
+ *
+ * @param account - Current account (evaluation is skipped for non prop firm accounts)
+ * @param refreshKey - Value that changes when the account's trades change
+ * @returns The evaluation, or null while loading / for other account types
+ */
+export function usePropFirmEvaluation(
+  account: Account | null | undefined,
+  refreshKey: string | number
+): PropFirmEvaluation | null {
+  const [state, setState] = useState<{
+    accountId: string;
+    evaluation: PropFirmEvaluation | null;
+  } | null>(null);
+
+  const accountId = account?.id;
+  const isPropFirm = account?.accountType === "prop_firm" && !!account.propRules;
+  const rulesKey = JSON.stringify(account?.propRules ?? null);
+
+  useEffect(() => {
+    if (!accountId || !isPropFirm) return;
+
+    let cancelled = false;
+    evaluatePropFirmRulesAction(accountId).then((evaluation) => {
+      if (!cancelled) setState({ accountId, evaluation });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, isPropFirm, rulesKey, refreshKey]);
+
+  // Drop results from a previous account (or after switching away from prop firm)
+  if (!isPropFirm || !state || state.accountId !== accountId) return null;
+  return state.evaluation;
+}
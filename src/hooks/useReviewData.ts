@@ -1,13 +1,31 @@
 "use client";
 
+import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { getMyReviewsAction } from "@/app/actions/reviews";
+import {
+  getImageAnnotationsAction,
+  getMentionCandidatesAction,
+  getMentorInboxAction,
+  getMyReviewsAction,
+  getReviewEditsAction,
+  getReviewRepliesAction,
+} from "@/app/actions/reviews";
+import type { ReviewReply } from "@/types";
 
 export const reviewKeys = {
   all: ["reviews"] as const,
   mine: () => [...reviewKeys.all, "mine"] as const,
+  replies: (reviewIds: string[]) => [...reviewKeys.all, "replies", reviewIds.join(",")] as const,
+  mentions: (menteeId: string) => [...reviewKeys.all, "mentions", menteeId] as const,
+  edits: (reviewId: string) => [...reviewKeys.all, "edits", reviewId] as const,
+  inbox: () => [...reviewKeys.all, "inbox"] as const,
+  annotations: (journalEntryId: string) =>
+    [...reviewKeys.all, "annotations", journalEntryId] as const,
 };
 
+/** Replies arrive from the other participant, so open threads poll */
+const THREAD_POLL_INTERVAL = 60 * 1000; // 1 minute
+
 /**
  * Hook to fetch user's reviews (feedback) with caching
  */
@@ -19,3 +37,90 @@ export function useMyReviews() {
     refetchOnWindowFocus: false,
   });
 }
+
+/**
+ * Replies of the given review threads, oldest first.
+ */
+export function useReviewReplies(reviewIds: string[]) {
+  return useQuery({
+    queryKey: reviewKeys.replies(reviewIds),
+    queryFn: () => getReviewRepliesAction(reviewIds),
+    enabled: reviewIds.length > 0,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: THREAD_POLL_INTERVAL,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Users that can be @mentioned in the threads of a mentee.
+ */
+export function useMentionCandidates(menteeId: string | undefined) {
+  return useQuery({
+    queryKey: reviewKeys.mentions(menteeId || ""),
+    queryFn: () => getMentionCandidatesAction(menteeId!),
+    enabled: !!menteeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Threads of a mentee's reviews: replies grouped by review and the handles that
+ * can be @mentioned.
+ */
+export function useReviewThreads(reviewIds: string[], menteeId: string | undefined) {
+  const { data: replies, refetch } = useReviewReplies(reviewIds);
+  const { data: candidates } = useMentionCandidates(menteeId);
+
+  const repliesByReview = useMemo(() => {
+    const map: Record<string, ReviewReply[]> = {};
+    (replies || []).forEach((reply) => {
+      (map[reply.reviewId] ||= []).push(reply);
+    });
+    return map;
+  }, [replies]);
+
+  const mentionHandles = useMemo(() => (candidates || []).map((c) => c.handle), [candidates]);
+
+  return { repliesByReview, mentionHandles, refetch };
+}
+
+/**
+ * Edit history of a review and its replies, fetched when shown.
+ */
+export function useReviewEdits(reviewId: string, enabled: boolean) {
+  return useQuery({
+    queryKey: reviewKeys.edits(reviewId),
+    queryFn: () => getReviewEditsAction(reviewId),
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Open threads of the mentor across all mentees.
+ */
+export function useMentorInbox() {
+  return useQuery({
+    queryKey: reviewKeys.inbox(),
+    queryFn: getMentorInboxAction,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: THREAD_POLL_INTERVAL,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Mentor annotations over the images of a journal entry, oldest first.
+ */
+export function useImageAnnotations(journalEntryId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: reviewKeys.annotations(journalEntryId || ""),
+    queryFn: () => getImageAnnotationsAction(journalEntryId!),
+    enabled: enabled && !!journalEntryId,
+    staleTime: 60 * 1000, // 1 minute
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getEventsByDateRange } from "@/lib/database/repositories/external/economicEvents.repository";
+import { annotateTradesWithNews, calculateNewsImpact } from "@/services/analytics/news";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import type { Trade } from "@/types";
+
+export const tradeNewsKeys = {
+  all: ["economic-events", "trades"] as const,
+  range: (start: string, end: string) => [...tradeNewsKeys.all, start, end] as const,
+  day: (date: string) => ["economic-events", "day", date] as const,
+  series: (currency: string, eventName: string) =>
+    ["economic-events", "series", currency, eventName] as const,
+};
+
+/**
+ * Economic events around each trade (within the user's news window) and the
+ * news-adjacent vs other trades comparison.
+ */
+export function useTradeNews(trades: Trade[]) {
+  const { newsSettings, sessionSettings } = useSettingsStore();
+
+  const range = useMemo(() => {
+    const dates = trades.map((t) => t.entryDate?.substring(0, 10)).filter(Boolean);
+    if (dates.length === 0) return null;
+    dates.sort();
+    return { start: dates[0], end: dates[dates.length - 1] };
+  }, [trades]);
+
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: tradeNewsKeys.range(range?.start ?? "", range?.end ?? ""),
+    // One day of margin on each side for windows that cross midnight
+    queryFn: () =>
+      getEventsByDateRange(
+        new Date(new Date(`${range!.start}T12:00:00Z`).getTime() - 86400000),
+        new Date(new Date(`${range!.end}T12:00:00Z`).getTime() + 86400000)
+      ),
+    enabled: !!range,
+    staleTime: 1000 * 60 * 60,
+    refetchOnWindowFocus: false,
+  });
+
+  const newsByTradeId = useMemo(
+    () => annotateTradesWithNews(trades, events, newsSettings, sessionSettings.timezone),
+    [trades, events, newsSettings, sessionSettings.timezone]
+  );
+
+  const impact = useMemo(() => calculateNewsImpact(trades, newsByTradeId), [trades, newsByTradeId]);
+
+  return { events, newsByTradeId, impact, isLoading };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { getTradePlanComparisonAction, getTradePlansAction } from "@/app/actions/tradePlans";
+
+export const tradePlanKeys = {
+  all: ["trade-plans"] as const,
+  pending: (accountId: string) => [...tradePlanKeys.all, "pending", accountId] as const,
+  comparison: (tradeId: string) => [...tradePlanKeys.all, "comparison", tradeId] as const,
+};
+
+/**
+ * Plans of the account that were saved but not executed or cancelled yet.
+ */
+export function usePendingTradePlans(accountId: string) {
+  return useQuery({
+    queryKey: tradePlanKeys.pending(accountId),
+    queryFn: () => getTradePlansAction(accountId, "planned"),
+    enabled: !!accountId,
+    staleTime: 60 * 1000, // 1 minute
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Plan executed by a trade and the plan-vs-execution comparison (null without plan).
+ * Always refetched on mount: the comparison changes whenever the trade is edited.
+ */
+export function useTradePlanComparison(tradeId: string | undefined) {
+  return useQuery({
+    queryKey: tradePlanKeys.comparison(tradeId || ""),
+    queryFn: () => getTradePlanComparisonAction(tradeId!),
+    enabled: !!tradeId,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -11,11 +11,16 @@
  */
 
 import { prisma } from "@/lib/database";
-import { accounts as PrismaAccount } from "@/generated/prisma";
+import {
+  Prisma,
+  accounts as PrismaAccount,
+  prop_rule_breaches as PrismaPropRuleBreach,
+} from "@/generated/prisma";
 import { Result } from "../types";
 import { AppError } from "@/lib/errors";
-import { BaseRepository } from "./BaseRepository";
-import { Account } from "@/types";
+import { BaseRepository, toJsonValue } from "./BaseRepository";
+import { normalizePropFirmRules } from "@/lib/utils/trading";
+import { Account, AccountType, PropFirmRules, PropRuleBreach, PropRuleKey } from "@/types";
 
 /**
  * Maps Prisma account to domain type
@@ -30,11 +35,39 @@ function mapAccountFromPrisma(account: PrismaAccount): Account {
     currentBalance: Number(account.current_balance),
     leverage: account.leverage,
     maxDrawdown: Number(account.max_drawdown),
+    accountType: account.account_type as AccountType,
+    propRules: normalizePropFirmRules(account.prop_rules),
     createdAt: account.created_at?.toISOString() || new Date().toISOString(),
     updatedAt: account.updated_at?.toISOString() || new Date().toISOString(),
   };
 }
 
+/**
+ * Maps Prisma prop rule breach to domain type
+ */
+function mapPropRuleBreachFromPrisma(breach: PrismaPropRuleBreach): PropRuleBreach {
+  return {
+    id: breach.id,
+    accountId: breach.account_id,
+    rule: breach.rule as PropRuleKey,
+    tradeId: breach.trade_id || undefined,
+    breachDate: breach.breach_date.toISOString().split("T")[0],
+    value: Number(breach.value),
+    limit: Number(breach.limit_value),
+    createdAt: breach.created_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+/**
+ * Prop rules are only stored for prop firm accounts
+ */
+function mapPropRulesToPrisma(
+  accountType: AccountType | undefined,
+  rules: PropFirmRules | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return accountType === "prop_firm" && rules ? toJsonValue(rules) : Prisma.DbNull;
+}
+
 class PrismaAccountRepository extends BaseRepository {
   protected readonly repositoryName = "PrismaAccountRepository";
 
@@ -92,6 +125,8 @@ class PrismaAccountRepository extends BaseRepository {
             current_balance: account.currentBalance || account.initialBalance || 0,
             leverage: account.leverage || "1:100",
             max_drawdown: account.maxDrawdown || 10,
+            account_type: account.accountType || "real",
+            prop_rules: mapPropRulesToPrisma(account.accountType, account.propRules),
           },
         });
         return mapAccountFromPrisma(created);
@@ -130,6 +165,11 @@ class PrismaAccountRepository extends BaseRepository {
             current_balance: data.currentBalance,
             leverage: data.leverage,
             max_drawdown: data.maxDrawdown,
+            account_type: data.accountType,
+            prop_rules:
+              data.accountType !== undefined
+                ? mapPropRulesToPrisma(data.accountType, data.propRules)
+                : undefined,
             updated_at: new Date(),
           },
         });
@@ -195,6 +235,69 @@ class PrismaAccountRepository extends BaseRepository {
     );
   }
 
+  /**
+   * Fetches the prop firm rule breaches of an account, oldest first.
+   */
+  async getRuleBreaches(
+    accountId: string,
+    userId: string
+  ): Promise<Result<PropRuleBreach[], AppError>> {
+    return this.withQuery(
+      "getRuleBreaches",
+      async () => {
+        const breaches = await prisma.prop_rule_breaches.findMany({
+          where: { account_id: accountId, user_id: userId },
+          orderBy: [{ breach_date: "asc" }, { created_at: "asc" }],
+        });
+        return breaches.map(mapPropRuleBreachFromPrisma);
+      },
+      { accountId, userId }
+    );
+  }
+
+  /**
+   * Replaces the persisted rule breaches of an account with a fresh evaluation.
+   * The rule engine replays the whole history, so stale breaches (e.g. from a
+   * deleted trade) are dropped instead of merged.
+   */
+  async replaceRuleBreaches(
+    accountId: string,
+    userId: string,
+    breaches: Omit<PropRuleBreach, "id" | "accountId" | "createdAt">[]
+  ): Promise<Result<number, AppError>> {
+    return this.withQuery(
+      "replaceRuleBreaches",
+      async () => {
+        const existing = await prisma.accounts.findFirst({
+          where: { id: accountId, user_id: userId },
+          select: { id: true },
+        });
+
+        if (!existing) {
+          throw this.unauthorizedError();
+        }
+
+        const [, created] = await prisma.$transaction([
+          prisma.prop_rule_breaches.deleteMany({ where: { account_id: accountId } }),
+          prisma.prop_rule_breaches.createMany({
+            data: breaches.map((breach) => ({
+              account_id: accountId,
+              user_id: userId,
+              trade_id: breach.tradeId || null,
+              rule: breach.rule,
+              breach_date: new Date(breach.breachDate),
+              value: breach.value,
+              limit_value: breach.limit,
+            })),
+          }),
+        ]);
+
+        return created.count;
+      },
+      { accountId, userId, count: breaches.length }
+    );
+  }
+
   /**
    * Gets account count for a user.
    */
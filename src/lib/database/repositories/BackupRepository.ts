@@ -0,0 +1,363 @@
+/**
+ * Prisma Backup Repository
+ *
+ * Reads what a backup restore compares against and writes a planned restore
+ * in a single transaction.
+ * Extends BaseRepository for common logging and error handling.
+ */
+
+import { prisma } from "@/lib/database";
+import { Prisma } from "@/generated/prisma";
+import { Result } from "../types";
+import { AppError } from "@/lib/errors";
+import { BaseRepository, toJsonValue } from "./BaseRepository";
+import { mapTradeLegToPrisma, mapTradeToPrismaMany } from "./TradeRepository";
+import type { Trade } from "@/types";
+import type { RestoreContext, RestorePlan } from "@/services/trades/restore";
+
+const toDateString = (value: Date) => value.toISOString().split("T")[0];
+
+const toOptionalDate = (value?: string) => (value ? new Date(value) : undefined);
+
+class PrismaBackupRepository extends BaseRepository {
+  protected readonly repositoryName = "PrismaBackupRepository";
+
+  /**
+   * Fetches the user's records a restore may duplicate.
+   */
+  async getRestoreContext(userId: string): Promise<Result<RestoreContext, AppError>> {
+    return this.withQuery(
+      "getRestoreContext",
+      async () => {
+        const [
+          accounts,
+          trades,
+          journalEntries,
+          playbooks,
+          routines,
+          settings,
+          experiments,
+          recaps,
+          mentalLogs,
+        ] = await Promise.all([
+          prisma.accounts.findMany({
+            where: { user_id: userId },
+            select: { id: true, name: true },
+          }),
+          prisma.trades.findMany({
+            where: { user_id: userId },
+            select: {
+              id: true,
+              account_id: true,
+              symbol: true,
+              type: true,
+              entry_price: true,
+              entry_date: true,
+              entry_time: true,
+            },
+          }),
+          prisma.journal_entries.findMany({
+            where: { user_id: userId },
+            select: { id: true, account_id: true, date: true, title: true },
+          }),
+          prisma.playbooks.findMany({
+            where: { user_id: userId },
+            select: { id: true, name: true },
+          }),
+          prisma.daily_routines.findMany({
+            where: { user_id: userId },
+            select: { account_id: true, date: true },
+          }),
+          prisma.settings.findUnique({ where: { user_id: userId } }),
+          prisma.laboratory_experiments.findMany({
+            where: { user_id: userId },
+            select: { title: true, created_at: true },
+          }),
+          prisma.laboratory_recaps.findMany({
+            where: { user_id: userId },
+            select: { title: true, created_at: true },
+          }),
+          prisma.mental_logs.findMany({
+            where: { user_id: userId },
+            select: { step_1_problem: true, created_at: true },
+          }),
+        ]);
+
+        return {
+          accounts,
+          trades: trades.map((t) => ({
+            id: t.id,
+            accountId: t.account_id,
+            symbol: t.symbol,
+            type: t.type as Trade["type"],
+            entryPrice: Number(t.entry_price),
+            entryDate: toDateString(t.entry_date),
+            entryTime: t.entry_time || undefined,
+          })),
+          journalEntries: journalEntries.map((e) => ({
+            id: e.id,
+            accountId: e.account_id,
+            date: toDateString(e.date),
+            title: e.title,
+          })),
+          playbooks,
+          routines: routines.map((r) => ({ accountId: r.account_id, date: toDateString(r.date) })),
+          settings: settings
+            ? {
+                id: settings.id,
+                user_id: settings.user_id,
+                currencies: (settings.currencies as string[]) || [],
+                leverages: (settings.leverages as string[]) || [],
+                assets: Object.entries((settings.assets as Record<string, number>) || {}).map(
+                  ([symbol, multiplier]) => ({ symbol, multiplier })
+                ),
+                strategies: (settings.strategies as string[]) || [],
+                setups: (settings.setups as string[]) || [],
+              }
+            : null,
+          laboratoryExperiments: experiments.map((e) => ({
+            title: e.title,
+            createdAt: e.created_at?.toISOString() || "",
+          })),
+          laboratoryRecaps: recaps.map((r) => ({
+            title: r.title,
+            createdAt: r.created_at?.toISOString() || "",
+          })),
+          mentalLogs: mentalLogs.map((l) => ({
+            step1Problem: l.step_1_problem,
+            createdAt: l.created_at?.toISOString() || "",
+          })),
+        };
+      },
+      { userId }
+    );
+  }
+
+  /**
+   * Writes a restore plan: either the whole backup is restored or nothing is.
+   * Accounts are created with their initial balance; the balance trigger adds the
+   * P&L of the restored trades.
+   */
+  async restore(userId: string, plan: RestorePlan): Promise<Result<void, AppError>> {
+    return this.withQuery(
+      "restore",
+      async () => {
+        await prisma.$transaction(async (tx) => {
+          if (plan.accounts.length > 0) {
+            await tx.accounts.createMany({
+              data: plan.accounts.map((a) => ({
+                id: a.id,
+                user_id: userId,
+                name: a.name,
+                currency: a.currency,
+                initial_balance: a.initialBalance,
+                current_balance: a.initialBalance,
+                leverage: a.leverage,
+                max_drawdown: a.maxDrawdown,
+                account_type: a.accountType || "real",
+                prop_rules: a.propRules ? toJsonValue(a.propRules) : Prisma.DbNull,
+                created_at: toOptionalDate(a.createdAt),
+              })),
+            });
+          }
+
+          if (plan.trades.length > 0) {
+            await tx.trades.createMany({
+              data: plan.trades.map((t) => ({
+                ...mapTradeToPrismaMany({ ...t, userId }),
+                created_at: toOptionalDate(t.createdAt),
+              })),
+            });
+            const legs = plan.trades.flatMap((t) =>
+              (t.legs || []).map((leg) => ({ ...mapTradeLegToPrisma(leg), trade_id: t.id }))
+            );
+            if (legs.length > 0) await tx.trade_legs.createMany({ data: legs });
+          }
+
+          if (plan.journalEntries.length > 0) {
+            await tx.journal_entries.createMany({
+              data: plan.journalEntries.map((e) => ({
+                id: e.id,
+                user_id: userId,
+                account_id: e.accountId,
+                date: new Date(e.date),
+                title: e.title,
+                asset: e.asset,
+                emotion: e.emotion,
+                analysis: e.analysis,
+                notes: e.notes,
+                created_at: toOptionalDate(e.createdAt),
+              })),
+            });
+            const images = plan.journalEntries.flatMap((e) => e.images);
+            if (images.length > 0) {
+              await tx.journal_images.createMany({
+                data: images.map((img) => ({
+                  id: img.id,
+                  user_id: userId,
+                  journal_entry_id: img.journalEntryId,
+                  url: img.url,
+                  path: img.path,
+                  timeframe: img.timeframe,
+                  display_order: img.displayOrder,
+                })),
+              });
+            }
+            const links = plan.journalEntries.flatMap((e) =>
+              (e.tradeIds || []).map((tradeId) => ({ journal_entry_id: e.id, trade_id: tradeId }))
+            );
+            if (links.length > 0) {
+              await tx.journal_entry_trades.createMany({ data: links, skipDuplicates: true });
+            }
+          }
+
+          if (plan.playbooks.length > 0) {
+            await tx.playbooks.createMany({
+              data: plan.playbooks.map((p) => ({
+                id: p.id,
+                user_id: userId,
+                account_id: p.accountId,
+                name: p.name,
+                description: p.description,
+                icon: p.icon,
+                color: p.color,
+                rule_groups: toJsonValue(p.ruleGroups || []),
+                created_at: toOptionalDate(p.createdAt),
+              })),
+            });
+          }
+
+          if (plan.routines.length > 0) {
+            await tx.daily_routines.createMany({
+              data: plan.routines.map((r) => ({
+                id: r.id,
+                user_id: userId,
+                account_id: r.accountId,
+                date: new Date(r.date),
+                aerobic: r.aerobic,
+                diet: r.diet,
+                reading: r.reading,
+                meditation: r.meditation,
+                pre_market: r.preMarket,
+                prayer: r.prayer,
+              })),
+              skipDuplicates: true,
+            });
+          }
+
+          if (plan.settings) {
+            const values = {
+              currencies: plan.settings.currencies,
+              leverages: plan.settings.leverages,
+              assets: Object.fromEntries(plan.settings.assets.map((a) => [a.symbol, a.multiplier])),
+              strategies: plan.settings.strategies,
+              setups: plan.settings.setups,
+            };
+            await tx.settings.upsert({
+              where: { user_id: userId },
+              create: { user_id: userId, account_id: null, ...values },
+              update: { ...values, updated_at: new Date() },
+            });
+          }
+
+          if (plan.laboratoryExperiments.length > 0) {
+            await tx.laboratory_experiments.createMany({
+              data: plan.laboratoryExperiments.map((e) => ({
+                id: e.id,
+                user_id: userId,
+                title: e.title,
+                description: e.description,
+                experiment_type: e.experimentType,
+                status: e.status,
+                category: e.category,
+                expected_win_rate: e.expectedWinRate,
+                expected_risk_reward: e.expectedRiskReward,
+                promoted_to_playbook: e.promotedToPlaybook,
+                created_at: toOptionalDate(e.createdAt),
+              })),
+            });
+            const images = plan.laboratoryExperiments.flatMap((e) => e.images);
+            if (images.length > 0) {
+              await tx.laboratory_images.createMany({
+                data: images.map((img) => ({
+                  id: img.id,
+                  experiment_id: img.experimentId,
+                  image_url: img.imageUrl,
+                  description: img.description,
+                  uploaded_at: toOptionalDate(img.uploadedAt),
+                })),
+              });
+            }
+            const links = plan.laboratoryExperiments.flatMap((e) =>
+              e.linkedTrades.map((link) => ({
+                experiment_id: e.id,
+                trade_id: link.tradeId,
+                category: link.category,
+              }))
+            );
+            if (links.length > 0) {
+              await tx.laboratory_experiment_trades.createMany({
+                data: links,
+                skipDuplicates: true,
+              });
+            }
+          }
+
+          if (plan.laboratoryRecaps.length > 0) {
+            await tx.laboratory_recaps.createMany({
+              data: plan.laboratoryRecaps.map((r) => ({
+                id: r.id,
+                user_id: userId,
+                trade_id: r.tradeId,
+                linked_type: r.linkedType,
+                linked_id: r.linkedId,
+                title: r.title,
+                review_type: r.type || "daily",
+                what_worked: r.whatWorked,
+                what_failed: r.whatFailed,
+                emotional_state: r.emotionalState,
+                lessons_learned: r.lessonsLearned,
+                images: r.images || [],
+                week_start_date: toOptionalDate(r.weekStartDate),
+                week_end_date: toOptionalDate(r.weekEndDate),
+                created_at: toOptionalDate(r.createdAt),
+              })),
+            });
+            const links = plan.laboratoryRecaps.flatMap((r) =>
+              r.tradeIds.map((tradeId) => ({ recap_id: r.id, trade_id: tradeId }))
+            );
+            if (links.length > 0) {
+              await tx.laboratory_recap_trades.createMany({ data: links, skipDuplicates: true });
+            }
+          }
+
+          if (plan.mentalLogs.length > 0) {
+            await tx.mental_logs.createMany({
+              data: plan.mentalLogs.map((l) => ({
+                id: l.id,
+                user_id: userId,
+                mood_tag: l.moodTag,
+                step_1_problem: l.step1Problem,
+                step_2_validation: l.step2Validation,
+                step_3_flaw: l.step3Flaw,
+                step_4_correction: l.step4Correction,
+                step_5_logic: l.step5Logic,
+                created_at: toOptionalDate(l.createdAt),
+              })),
+            });
+          }
+        });
+      },
+      {
+        userId,
+        accounts: plan.accounts.length,
+        trades: plan.trades.length,
+        journalEntries: plan.journalEntries.length,
+      }
+    );
+  }
+}
+
+// Export singleton instance
+export const prismaBackupRepo = new PrismaBackupRepository();
+export { PrismaBackupRepository };
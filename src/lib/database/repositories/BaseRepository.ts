@@ -13,6 +13,7 @@
  * }
  */
 
+import type { Prisma } from "@/generated/prisma";
 import { Logger } from "@/lib/logging/Logger";
 import { Result } from "../types";
 import { AppError, ErrorCode } from "@/lib/errors";
@@ -122,3 +123,13 @@ export abstract class BaseRepository {
     return () => performance.now() - start;
   }
 }
+
+/**
+ * Converts a typed object (rules, settings) to the value of a JSON column.
+ * Fields set to undefined are dropped, as they would be in the stored JSON.
+ */
+export function toJsonValue(value: object): Prisma.InputJsonValue;
+export function toJsonValue(value: object | undefined): Prisma.InputJsonValue | undefined;
+export function toJsonValue(value: object | undefined): Prisma.InputJsonValue | undefined {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
@@ -384,6 +384,7 @@ class PrismaCommunityRepository extends BaseRepository {
                   ruleGroups: sp.playbooks.rule_groups as
                     | { id: string; name: string; rules: string[] }[]
                     | undefined,
+                  currentVersion: sp.playbooks.current_version,
                 }
               : undefined,
             userName: profile?.display_name || "Trader Anônimo",
@@ -0,0 +1,226 @@
+/**
+ * Prisma Image Annotation Repository
+ *
+ * Handles the shapes mentors draw over the images of a journal entry. The
+ * shape geometry is stored as JSON next to its kind, apart from the image.
+ * The owner of the entry sees every annotation on it; mentors annotate the
+ * entries of mentees whose invite allows comments and manage their own.
+ * Extends BaseRepository for common logging and error handling.
+ */
+
+import { prisma } from "@/lib/database";
+import { Prisma, journal_image_annotations as PrismaImageAnnotation } from "@/generated/prisma";
+import { Result } from "../types";
+import { AppError, ErrorCode } from "@/lib/errors";
+import { BaseRepository } from "./BaseRepository";
+import { ImageAnnotation, ImageAnnotationShape } from "@/types";
+import { sanitizeAnnotationShape } from "@/services/mentor/imageAnnotations";
+
+type WithEmail = { users?: { email: string | null } | null };
+
+/** Invite permissions that allow a mentor to annotate */
+const ANNOTATE_PERMISSIONS = ["comment", "full"];
+
+const AUTHOR = { users: { select: { email: true } } };
+
+export interface ImageAnnotationInput {
+  imageId: string;
+  reviewId?: string | null;
+  shape: ImageAnnotationShape;
+  color: string;
+  comment?: string | null;
+}
+
+/**
+ * Maps Prisma annotation to domain type. The stored geometry is read through
+ * the shape sanitizer; rows whose shape is malformed map to null.
+ */
+export function mapAnnotationFromPrisma(
+  annotation: PrismaImageAnnotation & WithEmail
+): ImageAnnotation | null {
+  const geometry =
+    annotation.shape && typeof annotation.shape === "object" && !Array.isArray(annotation.shape)
+      ? annotation.shape
+      : {};
+  const shape = sanitizeAnnotationShape({ ...geometry, kind: annotation.kind });
+  if (!shape) return null;
+
+  return {
+    id: annotation.id,
+    imageId: annotation.image_id,
+    journalEntryId: annotation.journal_entry_id,
+    authorId: annotation.author_id,
+    authorName: annotation.users?.email?.split("@")[0] || undefined,
+    reviewId: annotation.review_id || undefined,
+    shape,
+    color: annotation.color,
+    comment: annotation.comment || undefined,
+    createdAt: annotation.created_at?.toISOString() || new Date().toISOString(),
+    updatedAt: annotation.updated_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+/** Splits a shape into the kind column and the JSON geometry */
+function toShapeColumns(shape: ImageAnnotationShape) {
+  const { kind, ...geometry } = shape;
+  return { kind, shape: geometry as Prisma.InputJsonObject };
+}
+
+class PrismaImageAnnotationRepository extends BaseRepository {
+  protected readonly repositoryName = "PrismaImageAnnotationRepository";
+
+  /**
+   * Maps a row just written; its shape was sanitized before storing.
+   */
+  private toAnnotation(annotation: PrismaImageAnnotation & WithEmail): ImageAnnotation {
+    const mapped = mapAnnotationFromPrisma(annotation);
+    if (!mapped) throw new AppError("Invalid annotation shape", ErrorCode.VALIDATION_ERROR, 400);
+    return mapped;
+  }
+
+  /**
+   * Fetches the annotations of an entry visible to the user, oldest first.
+   */
+  async getForEntry(
+    journalEntryId: string,
+    userId: string
+  ): Promise<Result<ImageAnnotation[], AppError>> {
+    return this.withQuery(
+      "getForEntry",
+      async () => {
+        const annotations = await prisma.journal_image_annotations.findMany({
+          where: {
+            journal_entry_id: journalEntryId,
+            OR: [{ author_id: userId }, { journal_entries: { user_id: userId } }],
+          },
+          include: AUTHOR,
+          orderBy: { created_at: "asc" },
+        });
+        // Annotations with a malformed shape would break the image layer
+        return annotations.flatMap((annotation) => mapAnnotationFromPrisma(annotation) ?? []);
+      },
+      { journalEntryId, userId }
+    );
+  }
+
+  /**
+   * Checks the review belongs to the mentor and to the entry of the image.
+   */
+  private async assertReview(reviewId: string, authorId: string, journalEntryId: string) {
+    const review = await prisma.mentor_reviews.findFirst({
+      where: { id: reviewId, mentor_id: authorId, journal_entry_id: journalEntryId },
+      select: { id: true },
+    });
+    if (!review) throw this.notFoundError("Review");
+  }
+
+  /**
+   * Adds an annotation to an image of a mentee of the author.
+   */
+  async create(
+    data: ImageAnnotationInput,
+    authorId: string
+  ): Promise<Result<ImageAnnotation, AppError>> {
+    return this.withQuery(
+      "create",
+      async () => {
+        const image = await prisma.journal_images.findUnique({
+          where: { id: data.imageId },
+          select: { journal_entry_id: true, journal_entries: { select: { user_id: true } } },
+        });
+        if (!image) throw this.notFoundError("Image");
+
+        const ownerId = image.journal_entries.user_id;
+        const invite = ownerId
+          ? await prisma.mentor_invites.findFirst({
+              where: {
+                mentor_id: authorId,
+                mentee_id: ownerId,
+                status: "accepted",
+                permission: { in: ANNOTATE_PERMISSIONS },
+              },
+              select: { id: true },
+            })
+          : null;
+        if (!invite) throw this.unauthorizedError();
+
+        if (data.reviewId) {
+          await this.assertReview(data.reviewId, authorId, image.journal_entry_id);
+        }
+
+        const created = await prisma.journal_image_annotations.create({
+          data: {
+            image_id: data.imageId,
+            journal_entry_id: image.journal_entry_id,
+            author_id: authorId,
+            review_id: data.reviewId || null,
+            ...toShapeColumns(data.shape),
+            color: data.color,
+            comment: data.comment || null,
+          },
+          include: AUTHOR,
+        });
+        return this.toAnnotation(created);
+      },
+      { imageId: data.imageId, authorId }
+    );
+  }
+
+  /**
+   * Updates an annotation of the author.
+   */
+  async update(
+    id: string,
+    authorId: string,
+    data: Partial<Omit<ImageAnnotationInput, "imageId">>
+  ): Promise<Result<ImageAnnotation, AppError>> {
+    return this.withQuery(
+      "update",
+      async () => {
+        const existing = await prisma.journal_image_annotations.findFirst({
+          where: { id, author_id: authorId },
+          select: { journal_entry_id: true },
+        });
+        if (!existing) throw this.notFoundError("Annotation");
+
+        if (data.reviewId) {
+          await this.assertReview(data.reviewId, authorId, existing.journal_entry_id);
+        }
+
+        const updated = await prisma.journal_image_annotations.update({
+          where: { id },
+          data: {
+            ...(data.shape && toShapeColumns(data.shape)),
+            ...(data.color !== undefined && { color: data.color }),
+            ...(data.comment !== undefined && { comment: data.comment || null }),
+            ...(data.reviewId !== undefined && { review_id: data.reviewId || null }),
+            updated_at: new Date(),
+          },
+          include: AUTHOR,
+        });
+        return this.toAnnotation(updated);
+      },
+      { id, authorId }
+    );
+  }
+
+  /**
+   * Deletes an annotation of the author.
+   */
+  async delete(id: string, authorId: string): Promise<Result<boolean, AppError>> {
+    return this.withQuery(
+      "delete",
+      async () => {
+        const { count } = await prisma.journal_image_annotations.deleteMany({
+          where: { id, author_id: authorId },
+        });
+        if (count === 0) throw this.notFoundError("Annotation");
+        return true;
+      },
+      { id, authorId }
+    );
+  }
+}
+
+export const prismaImageAnnotationRepo = new PrismaImageAnnotationRepository();
+export { PrismaImageAnnotationRepository };
@@ -0,0 +1,441 @@
+/**
+ * Prisma Import Batch Repository
+ *
+ * Applies confirmed trade imports atomically and rolls them back.
+ * Each import is an import_batches row; trades keep the batch that last wrote them
+ * (import_batch_id) and the values they were imported with (import_snapshot).
+ * Extends BaseRepository for common logging and error handling.
+ */
+
+import { prisma } from "@/lib/database";
+import { import_batches as PrismaImportBatch, Prisma } from "@/generated/prisma";
+import { Result } from "../types";
+import { AppError, ErrorCode } from "@/lib/errors";
+import { BaseRepository, toJsonValue } from "./BaseRepository";
+import { mapTradeLegToPrisma, mapTradeToPrismaMany } from "./TradeRepository";
+import { normalizeImportSnapshot } from "@/services/trades/importDiff";
+import {
+  ImportBatch,
+  ImportBatchStatus,
+  ImportCandidate,
+  ImportSnapshot,
+  Trade,
+  TradeLeg,
+} from "@/types";
+
+export interface ImportBatchInput {
+  userId: string;
+  accountId: string;
+  source: string;
+  fileName?: string;
+  /** Delete the account's trades before importing ("Substituir Tudo") */
+  replaceExisting?: boolean;
+  creates: { trade: Partial<Trade>; snapshot: ImportSnapshot }[];
+  updates: { tradeId: string; snapshot: ImportSnapshot; legs?: TradeLeg[] }[];
+  skippedCount: number;
+}
+
+/** Values an import overwrote, kept on the batch to restore them on rollback */
+interface ImportPreviousValues {
+  tradeId: string;
+  values: ImportSnapshot;
+  /** Only when the import replaced the legs */
+  legs?: TradeLeg[];
+  importBatchId: string | null;
+  importSnapshot: ImportSnapshot | null;
+}
+
+const RESTORABLE_SELECT = {
+  id: true,
+  exit_date: true,
+  exit_time: true,
+  exit_price: true,
+  lot: true,
+  pnl: true,
+  commission: true,
+  swap: true,
+  stop_loss: true,
+  take_profit: true,
+  outcome: true,
+  import_batch_id: true,
+  import_snapshot: true,
+  trade_legs: true,
+} satisfies Prisma.tradesSelect;
+
+type RestorableTrade = Prisma.tradesGetPayload<{ select: typeof RESTORABLE_SELECT }>;
+
+const toNumber = (value: Prisma.Decimal | null): number | null =>
+  value === null ? null : Number(value);
+
+const toDateString = (value: Date | null): string | null =>
+  value ? value.toISOString().split("T")[0] : null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Reads legs stored with the previous values; legs without a side, price or
+ * quantity are dropped.
+ */
+function parsePreviousLegs(value: unknown): TradeLeg[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter(isRecord).flatMap((leg): TradeLeg[] => {
+    const { side, price, quantity, executedDate } = leg;
+    if ((side !== "entry" && side !== "exit") || typeof executedDate !== "string") return [];
+    if (typeof price !== "number" || typeof quantity !== "number") return [];
+    return [
+      {
+        id: String(leg.id ?? ""),
+        tradeId: String(leg.tradeId ?? ""),
+        side,
+        price,
+        quantity,
+        executedDate,
+        executedTime: typeof leg.executedTime === "string" ? leg.executedTime : undefined,
+        pnl: typeof leg.pnl === "number" ? leg.pnl : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Reads the values stored on a batch; entries without a trade or values are
+ * skipped.
+ */
+function parsePreviousValues(value: unknown): ImportPreviousValues[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).flatMap((entry): ImportPreviousValues[] => {
+    const values = normalizeImportSnapshot(entry.values);
+    if (typeof entry.tradeId !== "string" || !values) return [];
+    return [
+      {
+        tradeId: entry.tradeId,
+        values,
+        legs: parsePreviousLegs(entry.legs),
+        importBatchId: typeof entry.importBatchId === "string" ? entry.importBatchId : null,
+        importSnapshot: normalizeImportSnapshot(entry.importSnapshot),
+      },
+    ];
+  });
+}
+
+/**
+ * Maps Prisma import batch to domain type
+ */
+function mapImportBatchFromPrisma(b: PrismaImportBatch): ImportBatch {
+  return {
+    id: b.id,
+    userId: b.user_id,
+    accountId: b.account_id,
+    source: b.source,
+    fileName: b.file_name || undefined,
+    status: b.status as ImportBatchStatus,
+    createdCount: b.created_count,
+    updatedCount: b.updated_count,
+    skippedCount: b.skipped_count,
+    replacedExisting: b.replaced_existing,
+    createdAt: b.created_at?.toISOString() || new Date().toISOString(),
+    rolledBackAt: b.rolled_back_at?.toISOString(),
+  };
+}
+
+/**
+ * Maps tracked import values to trade columns
+ */
+function mapSnapshotToPrisma(snapshot: ImportSnapshot): Prisma.tradesUpdateManyMutationInput {
+  return {
+    exit_date: snapshot.exitDate ? new Date(String(snapshot.exitDate)) : null,
+    exit_time: snapshot.exitTime === null ? null : String(snapshot.exitTime),
+    exit_price: snapshot.exitPrice === null ? null : Number(snapshot.exitPrice),
+    lot: snapshot.lot === null ? 1 : Number(snapshot.lot),
+    pnl: snapshot.pnl === null ? null : Number(snapshot.pnl),
+    commission: snapshot.commission === null ? null : Number(snapshot.commission),
+    swap: snapshot.swap === null ? null : Number(snapshot.swap),
+    stop_loss: snapshot.stopLoss === null ? null : Number(snapshot.stopLoss),
+    take_profit: snapshot.takeProfit === null ? null : Number(snapshot.takeProfit),
+    outcome: snapshot.outcome === null ? null : String(snapshot.outcome),
+  };
+}
+
+/**
+ * Captures the current values of a trade before an import overwrites them
+ */
+function mapPreviousValues(trade: RestorableTrade, replacesLegs: boolean): ImportPreviousValues {
+  return {
+    tradeId: trade.id,
+    values: {
+      exitDate: toDateString(trade.exit_date),
+      exitTime: trade.exit_time,
+      exitPrice: toNumber(trade.exit_price),
+      lot: toNumber(trade.lot),
+      pnl: toNumber(trade.pnl),
+      commission: toNumber(trade.commission),
+      swap: toNumber(trade.swap),
+      stopLoss: toNumber(trade.stop_loss),
+      takeProfit: toNumber(trade.take_profit),
+      outcome: trade.outcome,
+    },
+    legs: replacesLegs
+      ? trade.trade_legs.map((leg) => ({
+          id: leg.id,
+          tradeId: leg.trade_id,
+          side: leg.side as TradeLeg["side"],
+          price: Number(leg.price),
+          quantity: Number(leg.quantity),
+          executedDate: leg.executed_date.toISOString().split("T")[0],
+          executedTime: leg.executed_time || undefined,
+          pnl: leg.pnl !== null ? Number(leg.pnl) : undefined,
+        }))
+      : undefined,
+    importBatchId: trade.import_batch_id,
+    importSnapshot: normalizeImportSnapshot(trade.import_snapshot),
+  };
+}
+
+class PrismaImportBatchRepository extends BaseRepository {
+  protected readonly repositoryName = "PrismaImportBatchRepository";
+
+  /**
+   * Fetches the import batches of an account, most recent first.
+   */
+  async getByAccountId(
+    accountId: string,
+    userId: string
+  ): Promise<Result<ImportBatch[], AppError>> {
+    return this.withQuery(
+      "getByAccountId",
+      async () => {
+        const batches = await prisma.import_batches.findMany({
+          where: { account_id: accountId, user_id: userId },
+          orderBy: { created_at: "desc" },
+        });
+        return batches.map(mapImportBatchFromPrisma);
+      },
+      { accountId }
+    );
+  }
+
+  /**
+   * Fetches the account's trades with the fields compared by the import dry run.
+   */
+  async getCandidates(
+    accountId: string,
+    userId: string
+  ): Promise<Result<ImportCandidate[], AppError>> {
+    return this.withQuery(
+      "getCandidates",
+      async () => {
+        const trades = await prisma.trades.findMany({
+          where: { account_id: accountId, user_id: userId },
+          select: {
+            id: true,
+            symbol: true,
+            type: true,
+            entry_price: true,
+            entry_date: true,
+            entry_time: true,
+            exit_date: true,
+            exit_time: true,
+            exit_price: true,
+            lot: true,
+            pnl: true,
+            commission: true,
+            swap: true,
+            stop_loss: true,
+            take_profit: true,
+            outcome: true,
+            import_snapshot: true,
+          },
+        });
+
+        return trades.map((t) => ({
+          id: t.id,
+          symbol: t.symbol,
+          type: t.type as Trade["type"],
+          entryPrice: Number(t.entry_price),
+          entryDate: t.entry_date.toISOString().split("T")[0],
+          entryTime: t.entry_time || undefined,
+          exitDate: toDateString(t.exit_date) || undefined,
+          exitTime: t.exit_time || undefined,
+          exitPrice: toNumber(t.exit_price) ?? undefined,
+          lot: Number(t.lot),
+          pnl: toNumber(t.pnl) ?? undefined,
+          commission: toNumber(t.commission) ?? undefined,
+          swap: toNumber(t.swap) ?? undefined,
+          stopLoss: toNumber(t.stop_loss) ?? 0,
+          takeProfit: toNumber(t.take_profit) ?? 0,
+          outcome: (t.outcome as Trade["outcome"]) || undefined,
+          importSnapshot: normalizeImportSnapshot(t.import_snapshot),
+        }));
+      },
+      { accountId }
+    );
+  }
+
+  /**
+   * Records an import and writes all its trades in one transaction:
+   * either every trade of the file is applied or none is.
+   */
+  async apply(input: ImportBatchInput): Promise<Result<ImportBatch, AppError>> {
+    return this.withQuery(
+      "apply",
+      async () => {
+        const { userId, accountId, creates, updates } = input;
+
+        const account = await prisma.accounts.findFirst({
+          where: { id: accountId, user_id: userId },
+          select: { id: true },
+        });
+        if (!account) throw this.unauthorizedError();
+
+        const batch = await prisma.$transaction(async (tx) => {
+          if (input.replaceExisting) {
+            await tx.trades.deleteMany({ where: { account_id: accountId, user_id: userId } });
+          }
+
+          const current = updates.length
+            ? await tx.trades.findMany({
+                where: {
+                  id: { in: updates.map((u) => u.tradeId) },
+                  account_id: accountId,
+                  user_id: userId,
+                },
+                select: RESTORABLE_SELECT,
+              })
+            : [];
+          if (current.length !== updates.length) throw this.notFoundError("Trade");
+
+          const replacesLegs = new Set(updates.filter((u) => u.legs?.length).map((u) => u.tradeId));
+          const previousValues = current.map((trade) =>
+            mapPreviousValues(trade, replacesLegs.has(trade.id))
+          );
+
+          const created = await tx.import_batches.create({
+            data: {
+              user_id: userId,
+              account_id: accountId,
+              source: input.source,
+              file_name: input.fileName,
+              created_count: creates.length,
+              updated_count: updates.length,
+              skipped_count: input.skippedCount,
+              replaced_existing: !!input.replaceExisting,
+              previous_values: toJsonValue(previousValues),
+            },
+          });
+
+          if (creates.length > 0) {
+            await tx.trades.createMany({
+              data: creates.map(({ trade, snapshot }) => ({
+                ...mapTradeToPrismaMany({ ...trade, accountId, userId }),
+                import_batch_id: created.id,
+                import_snapshot: snapshot,
+              })),
+            });
+
+            // Legs need the trade IDs, which imports generate client-side
+            const legs = creates.flatMap(({ trade }) =>
+              trade.id && trade.legs?.length
+                ? trade.legs.map((leg) => ({ ...mapTradeLegToPrisma(leg), trade_id: trade.id! }))
+                : []
+            );
+            if (legs.length > 0) await tx.trade_legs.createMany({ data: legs });
+          }
+
+          for (const update of updates) {
+            await tx.trades.update({
+              where: { id: update.tradeId },
+              data: {
+                ...mapSnapshotToPrisma(update.snapshot),
+                import_batches: { connect: { id: created.id } },
+                import_snapshot: update.snapshot,
+                trade_legs: update.legs?.length
+                  ? { deleteMany: {}, create: update.legs.map(mapTradeLegToPrisma) }
+                  : undefined,
+                updated_at: new Date(),
+              },
+            });
+          }
+
+          return created;
+        });
+
+        return mapImportBatchFromPrisma(batch);
+      },
+      { accountId: input.accountId, creates: input.creates.length, updates: input.updates.length }
+    );
+  }
+
+  /**
+   * Undoes an import: deletes the trades it created and restores the values it overwrote.
+   * Trades a later import has written since belong to that import and are left untouched.
+   * Imports that replaced the account's trades cannot be undone.
+   */
+  async rollback(id: string, userId: string): Promise<Result<ImportBatch, AppError>> {
+    return this.withQuery(
+      "rollback",
+      async () => {
+        const batch = await prisma.$transaction(async (tx) => {
+          const existing = await tx.import_batches.findUnique({ where: { id } });
+          if (!existing) throw this.notFoundError("Import batch");
+          if (existing.user_id !== userId) throw this.unauthorizedError();
+          if (existing.status === "rolled_back") {
+            throw new AppError("Import batch already rolled back", ErrorCode.VALIDATION_ERROR, 409);
+          }
+          // The trades it deleted are gone (with their journal links), nothing to restore them from
+          if (existing.replaced_existing) {
+            throw new AppError(
+              "Import batch replaced the account's trades and cannot be rolled back",
+              ErrorCode.VALIDATION_ERROR,
+              409
+            );
+          }
+
+          const previousValues = parsePreviousValues(existing.previous_values);
+
+          await tx.trades.deleteMany({
+            where: {
+              import_batch_id: id,
+              user_id: userId,
+              id: { notIn: previousValues.map((p) => p.tradeId) },
+            },
+          });
+
+          for (const previous of previousValues) {
+            const restored = await tx.trades.updateMany({
+              where: { id: previous.tradeId, import_batch_id: id },
+              data: {
+                ...mapSnapshotToPrisma(previous.values),
+                import_batch_id: previous.importBatchId,
+                import_snapshot: previous.importSnapshot ?? Prisma.DbNull,
+                updated_at: new Date(),
+              },
+            });
+
+            if (restored.count > 0 && previous.legs) {
+              await tx.trade_legs.deleteMany({ where: { trade_id: previous.tradeId } });
+              await tx.trade_legs.createMany({
+                data: previous.legs.map((leg) => ({
+                  ...mapTradeLegToPrisma(leg),
+                  trade_id: previous.tradeId,
+                })),
+              });
+            }
+          }
+
+          return tx.import_batches.update({
+            where: { id },
+            data: { status: "rolled_back", rolled_back_at: new Date() },
+          });
+        });
+
+        return mapImportBatchFromPrisma(batch);
+      },
+      { id, userId }
+    );
+  }
+}
+
+// Export singleton instance
+export const prismaImportBatchRepo = new PrismaImportBatchRepository();
+export { PrismaImportBatchRepository };
@@ -0,0 +1,121 @@
+/**
+ * Prisma Import Profile Repository
+ *
+ * Handles the per-user import profiles used by the trade import wizard.
+ * Parsing options are stored in a single JSON column.
+ * Extends BaseRepository for common logging and error handling.
+ */
+
+import { prisma } from "@/lib/database";
+import { import_profiles as PrismaImportProfile, Prisma } from "@/generated/prisma";
+import { Result } from "../types";
+import { AppError } from "@/lib/errors";
+import { BaseRepository } from "./BaseRepository";
+import { ImportProfile, ImportProfileSettings } from "@/types";
+import { normalizeImportProfileSettings } from "@/services/trades/importProfiles";
+
+/**
+ * Maps Prisma import profile to domain type
+ */
+function mapImportProfileFromPrisma(p: PrismaImportProfile): ImportProfile {
+  return {
+    id: p.id,
+    userId: p.user_id,
+    name: p.name,
+    headerFingerprint: p.header_fingerprint,
+    headers: p.headers || [],
+    ...normalizeImportProfileSettings(p.settings),
+    createdAt: p.created_at?.toISOString() || new Date().toISOString(),
+    updatedAt: p.updated_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+/**
+ * Maps the parsing options to the JSON settings column
+ */
+function mapSettingsToPrisma(profile: ImportProfileSettings): Prisma.InputJsonValue {
+  return {
+    mapping: { ...profile.mapping },
+    dateFormat: profile.dateFormat,
+    timezone: profile.timezone,
+    decimalSeparator: profile.decimalSeparator,
+    symbolMap: { ...profile.symbolMap },
+    directionVocabulary: {
+      long: [...profile.directionVocabulary.long],
+      short: [...profile.directionVocabulary.short],
+    },
+  };
+}
+
+class PrismaImportProfileRepository extends BaseRepository {
+  protected readonly repositoryName = "PrismaImportProfileRepository";
+
+  /**
+   * Fetches all import profiles of a user, most recently updated first.
+   */
+  async getByUserId(userId: string): Promise<Result<ImportProfile[], AppError>> {
+    return this.withQuery(
+      "getByUserId",
+      async () => {
+        const profiles = await prisma.import_profiles.findMany({
+          where: { user_id: userId },
+          orderBy: { updated_at: "desc" },
+        });
+        return profiles.map(mapImportProfileFromPrisma);
+      },
+      { userId }
+    );
+  }
+
+  /**
+   * Creates a profile, or overwrites the user's profile with the same name.
+   */
+  async save(
+    profile: Omit<ImportProfile, "id" | "createdAt" | "updatedAt">
+  ): Promise<Result<ImportProfile, AppError>> {
+    return this.withQuery(
+      "save",
+      async () => {
+        const data = {
+          header_fingerprint: profile.headerFingerprint,
+          headers: profile.headers,
+          settings: mapSettingsToPrisma(profile),
+        };
+
+        const saved = await prisma.import_profiles.upsert({
+          where: { user_id_name: { user_id: profile.userId, name: profile.name } },
+          create: { ...data, user_id: profile.userId, name: profile.name },
+          update: { ...data, updated_at: new Date() },
+        });
+
+        return mapImportProfileFromPrisma(saved);
+      },
+      { userId: profile.userId, name: profile.name }
+    );
+  }
+
+  /**
+   * Deletes an import profile owned by the user.
+   */
+  async delete(id: string, userId: string): Promise<Result<boolean, AppError>> {
+    return this.withQuery(
+      "delete",
+      async () => {
+        const deleted = await prisma.import_profiles.deleteMany({
+          where: { id, user_id: userId },
+        });
+
+        if (deleted.count === 0) {
+          throw this.notFoundError("Import profile");
+        }
+
+        return true;
+      },
+      { id, userId }
+    );
+  }
+}
+
+// Export singleton instance
+export const prismaImportProfileRepo = new PrismaImportProfileRepository();
+export { PrismaImportProfileRepository };
@@ -15,7 +15,8 @@ import {
 import { Result } from "../types";
 import { AppError } from "@/lib/errors";
 import { BaseRepository } from "./BaseRepository";
-import { MenteeOverview } from "@/types";
+import { CohortTrade, MenteeCohortActivity, MenteeOverview } from "@/types";
+import { normalizeRuleCompliance } from "@/services/trades/ruleCompliance";
 
 // Domain types
 export interface MentorInvite {
@@ -294,6 +295,104 @@ class PrismaMentorRepository extends BaseRepository {
     );
   }
 
+  /**
+   * Trades and journal days of each accepted mentee since a date, limited to
+   * the accounts the mentor can see (no permission rows means all accounts).
+   */
+  async getCohortActivity(
+    mentorId: string,
+    since: string
+  ): Promise<Result<MenteeCohortActivity[], AppError>> {
+    return this.withQuery(
+      "getCohortActivity",
+      async () => {
+        const invites = await prisma.mentor_invites.findMany({
+          where: { mentor_id: mentorId, status: "accepted", mentee_id: { not: null } },
+          include: {
+            mentor_account_permissions: {
+              select: { account_id: true, can_view_trades: true, can_view_journal: true },
+            },
+            users_mentor_invites_mentee_idTousers: {
+              include: { profiles: true, users_extended_users_extended_idTousers: true },
+            },
+          },
+        });
+
+        const menteeIds = invites.map((i) => i.mentee_id!);
+        if (menteeIds.length === 0) return [];
+
+        const sinceDate = new Date(since);
+        const [trades, entries] = await Promise.all([
+          prisma.trades.findMany({
+            where: { user_id: { in: menteeIds }, entry_date: { gte: sinceDate } },
+            select: {
+              user_id: true,
+              account_id: true,
+              entry_date: true,
+              pnl: true,
+              outcome: true,
+              r_multiple: true,
+              plan_adherence: true,
+              rule_compliance: true,
+            },
+          }),
+          prisma.journal_entries.findMany({
+            where: { user_id: { in: menteeIds }, date: { gte: sinceDate } },
+            select: { user_id: true, account_id: true, date: true },
+          }),
+        ]);
+
+        const isVisible = (
+          permissions: {
+            account_id: string;
+            can_view_trades: boolean | null;
+            can_view_journal: boolean | null;
+          }[],
+          accountId: string,
+          flag: "can_view_trades" | "can_view_journal"
+        ) =>
+          permissions.length === 0 ||
+          permissions.some((p) => p.account_id === accountId && p[flag]);
+
+        return invites.map((invite) => {
+          const permissions = invite.mentor_account_permissions;
+          const user = invite.users_mentor_invites_mentee_idTousers;
+
+          return {
+            menteeId: invite.mentee_id!,
+            menteeName:
+              user?.profiles?.display_name ||
+              user?.users_extended_users_extended_idTousers?.name ||
+              invite.mentee_email?.split("@")[0] ||
+              "Mentorado",
+            trades: trades
+              .filter(
+                (t) =>
+                  t.user_id === invite.mentee_id &&
+                  isVisible(permissions, t.account_id, "can_view_trades")
+              )
+              .map((t) => ({
+                entryDate: t.entry_date.toISOString().split("T")[0],
+                pnl: Number(t.pnl ?? 0),
+                outcome: (t.outcome as CohortTrade["outcome"]) || undefined,
+                rMultiple: t.r_multiple !== null ? Number(t.r_multiple) : undefined,
+                planAdherence: (t.plan_adherence as CohortTrade["planAdherence"]) || undefined,
+                ruleCompliance: normalizeRuleCompliance(t.rule_compliance),
+              })),
+            journalDates: entries
+              .filter(
+                (e) =>
+                  e.user_id === invite.mentee_id &&
+                  isVisible(permissions, e.account_id, "can_view_journal")
+              )
+              .map((e) => e.date.toISOString().split("T")[0]),
+          };
+        });
+      },
+      { mentorId, since }
+    );
+  }
+
   async createInvite(
     mentorId: string,
     mentorEmail: string,
@@ -326,6 +425,23 @@ class PrismaMentorRepository extends BaseRepository {
     );
   }
 
+  /**
+   * Finds the user registered with an email (the mentee of an invite), if any.
+   */
+  async getUserIdByEmail(email: string): Promise<Result<string | null, AppError>> {
+    return this.withQuery(
+      "getUserIdByEmail",
+      async () => {
+        const user = await prisma.users.findFirst({
+          where: { email: email.toLowerCase() },
+          select: { id: true },
+        });
+        return user?.id || null;
+      },
+      { email }
+    );
+  }
+
   async acceptInvite(token: string, menteeId: string): Promise<Result<boolean, AppError>> {
     return this.withQuery(
       "acceptInvite",
@@ -464,6 +580,31 @@ class PrismaMentorRepository extends BaseRepository {
     );
   }
 
+  /**
+   * Comments other users left on the user's trades since a date (digest).
+   */
+  async getCommentsOnUserTrades(
+    userId: string,
+    since: Date
+  ): Promise<Result<TradeComment[], AppError>> {
+    return this.withQuery(
+      "getCommentsOnUserTrades",
+      async () => {
+        const comments = await prisma.trade_comments.findMany({
+          where: {
+            trades: { user_id: userId },
+            user_id: { not: userId },
+            created_at: { gt: since },
+          },
+          include: { users: { select: { email: true } } },
+          orderBy: { created_at: "desc" },
+        });
+        return comments.map(mapCommentFromPrisma);
+      },
+      { userId }
+    );
+  }
+
   async addTradeComment(
     tradeId: string,
     userId: string,
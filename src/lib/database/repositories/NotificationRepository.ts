@@ -0,0 +1,174 @@
+/**
+ * Prisma Notification Repository
+ *
+ * Handles the persistent notification center: entries written by the server
+ * actions for a user, read/unread state and archive.
+ * Extends BaseRepository for common logging and error handling.
+ */
+
+import { prisma } from "@/lib/database";
+import { Prisma, notifications as PrismaNotification } from "@/generated/prisma";
+import { Result } from "../types";
+import { AppError } from "@/lib/errors";
+import { BaseRepository } from "./BaseRepository";
+import { Notification, NotificationType } from "@/types";
+import type { NotificationInput } from "@/services/notifications/notifications";
+
+/** inbox: not archived; unread: not archived and not read; archived: archived only */
+export type NotificationFilter = "inbox" | "unread" | "archived";
+
+/**
+ * Maps Prisma notification to domain type
+ */
+function mapNotificationFromPrisma(n: PrismaNotification): Notification {
+  return {
+    id: n.id,
+    type: n.type as NotificationType,
+    title: n.title,
+    message: n.message,
+    link: n.link || undefined,
+    data: (n.data as Record<string, unknown>) || undefined,
+    read: !!n.read_at,
+    archived: !!n.archived_at,
+    createdAt: n.created_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+function filterWhere(userId: string, filter: NotificationFilter): Prisma.notificationsWhereInput {
+  if (filter === "archived") return { user_id: userId, archived_at: { not: null } };
+  if (filter === "unread") return { user_id: userId, archived_at: null, read_at: null };
+  return { user_id: userId, archived_at: null };
+}
+
+class PrismaNotificationRepository extends BaseRepository {
+  protected readonly repositoryName = "PrismaNotificationRepository";
+
+  /**
+   * Fetches a page of the user's notifications (newest first) and the total
+   * matching the filter.
+   */
+  async getByUserId(
+    userId: string,
+    options: { filter?: NotificationFilter; limit?: number; offset?: number } = {}
+  ): Promise<Result<{ data: Notification[]; count: number }, AppError>> {
+    const { filter = "inbox", limit = 20, offset = 0 } = options;
+    return this.withQuery(
+      "getByUserId",
+      async () => {
+        const where = filterWhere(userId, filter);
+        const [rows, count] = await Promise.all([
+          prisma.notifications.findMany({
+            where,
+            orderBy: { created_at: "desc" },
+            take: limit,
+            skip: offset,
+          }),
+          prisma.notifications.count({ where }),
+        ]);
+        return { data: rows.map(mapNotificationFromPrisma), count };
+      },
+      { userId, filter, limit, offset }
+    );
+  }
+
+  /**
+   * Counts the unread, not archived notifications of the user.
+   */
+  async countUnread(userId: string): Promise<Result<number, AppError>> {
+    return this.withQuery(
+      "countUnread",
+      async () => prisma.notifications.count({ where: filterWhere(userId, "unread") }),
+      { userId }
+    );
+  }
+
+  /**
+   * Writes a notification for the user.
+   */
+  async create(userId: string, input: NotificationInput): Promise<Result<Notification, AppError>> {
+    return this.withQuery(
+      "create",
+      async () => {
+        const created = await prisma.notifications.create({
+          data: {
+            user_id: userId,
+            type: input.type,
+            title: input.title,
+            message: input.message,
+            link: input.link,
+            data: input.data as Prisma.InputJsonValue | undefined,
+          },
+        });
+        return mapNotificationFromPrisma(created);
+      },
+      { userId, type: input.type }
+    );
+  }
+
+  /**
+   * Marks a notification of the user as read or unread.
+   */
+  async setRead(
+    id: string,
+    userId: string,
+    read: boolean
+  ): Promise<Result<Notification, AppError>> {
+    return this.withQuery(
+      "setRead",
+      async () => {
+        const existing = await prisma.notifications.findFirst({ where: { id, user_id: userId } });
+        if (!existing) throw this.notFoundError("Notification");
+
+        const updated = await prisma.notifications.update({
+          where: { id },
+          data: { read_at: read ? existing.read_at || new Date() : null },
+        });
+        return mapNotificationFromPrisma(updated);
+      },
+      { id, userId, read }
+    );
+  }
+
+  /**
+   * Marks every unread notification of the user as read.
+   * @returns Number of notifications marked.
+   */
+  async markAllRead(userId: string): Promise<Result<number, AppError>> {
+    return this.withQuery(
+      "markAllRead",
+      async () => {
+        const result = await prisma.notifications.updateMany({
+          where: filterWhere(userId, "unread"),
+          data: { read_at: new Date() },
+        });
+        return result.count;
+      },
+      { userId }
+    );
+  }
+
+  /**
+   * Archives a notification of the user. Archiving also marks it as read.
+   */
+  async archive(id: string, userId: string): Promise<Result<Notification, AppError>> {
+    return this.withQuery(
+      "archive",
+      async () => {
+        const existing = await prisma.notifications.findFirst({ where: { id, user_id: userId } });
+        if (!existing) throw this.notFoundError("Notification");
+
+        const now = new Date();
+        const updated = await prisma.notifications.update({
+          where: { id },
+          data: { archived_at: now, read_at: existing.read_at || now },
+        });
+        return mapNotificationFromPrisma(updated);
+      },
+      { id, userId }
+    );
+  }
+}
+
+// Export singleton instance
+export const prismaNotificationRepo = new PrismaNotificationRepository();
+export { PrismaNotificationRepository };
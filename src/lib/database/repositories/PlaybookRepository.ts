@@ -7,11 +7,15 @@
  */
 
 import { prisma } from "@/lib/database";
-import { playbooks as PrismaPlaybook } from "@/generated/prisma";
+import {
+  playbooks as PrismaPlaybook,
+  playbook_versions as PrismaPlaybookVersion,
+} from "@/generated/prisma";
 import { Result } from "../types";
 import { AppError } from "@/lib/errors";
-import { BaseRepository } from "./BaseRepository";
-import { Playbook, RuleGroup, PlaybookStats } from "@/types";
+import { BaseRepository, toJsonValue } from "./BaseRepository";
+import { Playbook, PlaybookVersion, PlaybookStats } from "@/types";
+import { hasPlaybookContentChanged, normalizeRuleGroups } from "@/services/trades/playbookVersions";
 
 /**
  * Maps Prisma playbook to domain type
@@ -25,12 +29,31 @@ function mapPlaybookFromPrisma(playbook: PrismaPlaybook): Playbook {
     description: playbook.description || undefined,
     icon: playbook.icon || "📈",
     color: playbook.color || "#3B82F6",
-    ruleGroups: (playbook.rule_groups as unknown as RuleGroup[]) || [],
+    ruleGroups: normalizeRuleGroups(playbook.rule_groups),
+    currentVersion: playbook.current_version ?? 1,
+    sourcePlaybookId: playbook.source_playbook_id || undefined,
+    sourceVersion: playbook.source_version ?? undefined,
     createdAt: playbook.created_at?.toISOString() || new Date().toISOString(),
     updatedAt: playbook.updated_at?.toISOString() || new Date().toISOString(),
   };
 }
 
+/**
+ * Maps Prisma playbook version to domain type
+ */
+function mapPlaybookVersionFromPrisma(version: PrismaPlaybookVersion): PlaybookVersion {
+  return {
+    id: version.id,
+    playbookId: version.playbook_id,
+    version: version.version,
+    name: version.name,
+    description: version.description || undefined,
+    ruleGroups: normalizeRuleGroups(version.rule_groups),
+    changelog: version.changelog || undefined,
+    createdAt: version.created_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
 class PrismaPlaybookRepository extends BaseRepository {
   protected readonly repositoryName = "PrismaPlaybookRepository";
 
@@ -220,12 +243,16 @@ class PrismaPlaybookRepository extends BaseRepository {
   }
 
   /**
-   * Creates a new playbook.
+   * Creates a new playbook together with its first version.
    */
-  async create(playbook: Partial<Playbook>): Promise<Result<Playbook, AppError>> {
+  async create(
+    playbook: Partial<Playbook>,
+    changelog?: string
+  ): Promise<Result<Playbook, AppError>> {
     return this.withQuery(
       "create",
       async () => {
+        const ruleGroups = toJsonValue(playbook.ruleGroups || []);
         const created = await prisma.playbooks.create({
           data: {
             users: { connect: { id: playbook.userId } },
@@ -234,7 +261,20 @@ class PrismaPlaybookRepository extends BaseRepository {
             description: playbook.description,
             icon: playbook.icon || "📈",
             color: playbook.color || "#3B82F6",
-            rule_groups: (playbook.ruleGroups || []) as unknown as object,
+            rule_groups: ruleGroups,
+            current_version: 1,
+            source_playbook_id: playbook.sourcePlaybookId,
+            source_version: playbook.sourceVersion,
+            playbook_versions: {
+              create: {
+                user_id: playbook.userId!,
+                version: 1,
+                name: playbook.name!,
+                description: playbook.description,
+                rule_groups: ruleGroups,
+                changelog,
+              },
+            },
           },
         });
         return mapPlaybookFromPrisma(created);
@@ -245,24 +285,32 @@ class PrismaPlaybookRepository extends BaseRepository {
 
   /**
    * Updates a playbook with ownership verification.
+   * Changing the name, description or rules creates a new version; versions are
+   * never edited, so trades keep the rules they were taken under.
    */
   async update(
     id: string,
     userId: string,
-    data: Partial<Playbook>
+    data: Partial<Playbook>,
+    changelog?: string
   ): Promise<Result<Playbook, AppError>> {
     return this.withQuery(
       "update",
       async () => {
         const existing = await prisma.playbooks.findUnique({
           where: { id },
-          select: { user_id: true },
         });
 
         if (!existing || existing.user_id !== userId) {
           throw this.unauthorizedError();
         }
 
+        const current = mapPlaybookFromPrisma(existing);
+        const nextVersion = hasPlaybookContentChanged(current, data)
+          ? (current.currentVersion || 1) + 1
+          : undefined;
+        const ruleGroups = data.ruleGroups ?? current.ruleGroups;
+
         const updated = await prisma.playbooks.update({
           where: { id },
           data: {
@@ -270,8 +318,21 @@ class PrismaPlaybookRepository extends BaseRepository {
             description: data.description,
             icon: data.icon,
             color: data.color,
-            rule_groups: data.ruleGroups as unknown as object | undefined,
+            rule_groups: toJsonValue(data.ruleGroups),
             updated_at: new Date(),
+            ...(nextVersion && {
+              current_version: nextVersion,
+              playbook_versions: {
+                create: {
+                  user_id: userId,
+                  version: nextVersion,
+                  name: data.name ?? current.name,
+                  description: data.description ?? current.description,
+                  rule_groups: toJsonValue(ruleGroups),
+                  changelog,
+                },
+              },
+            }),
           },
         });
 
@@ -281,6 +342,47 @@ class PrismaPlaybookRepository extends BaseRepository {
     );
   }
 
+  /**
+   * Fetches the versions of a playbook, newest first.
+   */
+  async getVersions(
+    playbookId: string,
+    userId: string
+  ): Promise<Result<PlaybookVersion[], AppError>> {
+    return this.withQuery(
+      "getVersions",
+      async () => {
+        const versions = await prisma.playbook_versions.findMany({
+          where: { playbook_id: playbookId, user_id: userId },
+          orderBy: { version: "desc" },
+        });
+        return versions.map(mapPlaybookVersionFromPrisma);
+      },
+      { playbookId, userId }
+    );
+  }
+
+  /**
+   * Fetches the versions of the user's playbook with the given name (trades
+   * reference playbooks by strategy name).
+   */
+  async getVersionsByName(
+    userId: string,
+    name: string
+  ): Promise<Result<PlaybookVersion[], AppError>> {
+    return this.withQuery(
+      "getVersionsByName",
+      async () => {
+        const versions = await prisma.playbook_versions.findMany({
+          where: { user_id: userId, playbooks: { name } },
+          orderBy: { version: "desc" },
+        });
+        return versions.map(mapPlaybookVersionFromPrisma);
+      },
+      { userId, name }
+    );
+  }
+
   /**
    * Deletes a playbook with ownership verification.
    */
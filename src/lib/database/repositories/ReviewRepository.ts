@@ -1,9 +1,9 @@
 import { prisma } from "@/lib/database";
 import { Prisma } from "@/generated/prisma";
-import { MentorReview } from "@/types";
+import { MentorReview, ReviewThreadFields, ReviewThreadStatus } from "@/types";
 export type { MentorReview };
 
-type ReviewWithJournal = Prisma.mentor_reviewsGetPayload<{
+export type ReviewWithJournal = Prisma.mentor_reviewsGetPayload<{
   include: {
     journal_entries: {
       select: {
@@ -14,27 +14,35 @@ type ReviewWithJournal = Prisma.mentor_reviewsGetPayload<{
   };
 }>;
 
+/**
+ * Maps Prisma result to Domain type
+ */
+export function mapReviewFromPrisma(db: ReviewWithJournal): MentorReview {
+  return {
+    id: db.id,
+    mentorId: db.mentor_id,
+    menteeId: db.mentee_id,
+    tradeId: db.trade_id || undefined,
+    journalEntryId: db.journal_entry_id || undefined,
+    reviewType: db.review_type as MentorReview["reviewType"],
+    content: db.content,
+    rating: db.rating || undefined,
+    isRead: db.is_read ?? false,
+    status: (db.status as ReviewThreadStatus) || "open",
+    statusChangedAt: db.status_changed_at?.toISOString(),
+    statusChangedBy: db.status_changed_by || undefined,
+    lastActivityAt: db.last_activity_at?.toISOString(),
+    createdAt: db.created_at?.toISOString() || "",
+    updatedAt: db.updated_at?.toISOString() || "",
+    // Join fields
+    entryDate: db.journal_entries?.date?.toISOString(),
+    entryAccountId: db.journal_entries?.account_id,
+  };
+}
+
 export class PrismaReviewRepository {
-  /**
-   * Maps Prisma result to Domain type
-   */
   private mapToDomain(db: ReviewWithJournal): MentorReview {
-    return {
-      id: db.id,
-      mentorId: db.mentor_id,
-      menteeId: db.mentee_id,
-      tradeId: db.trade_id || undefined,
-      journalEntryId: db.journal_entry_id || undefined,
-      reviewType: db.review_type as MentorReview["reviewType"],
-      content: db.content,
-      rating: db.rating || undefined,
-      isRead: db.is_read ?? false,
-      createdAt: db.created_at?.toISOString() || "",
-      updatedAt: db.updated_at?.toISOString() || "",
-      // Join fields
-      entryDate: db.journal_entries?.date?.toISOString(),
-      entryAccountId: db.journal_entries?.account_id,
-    };
+    return mapReviewFromPrisma(db);
   }
 
   /**
@@ -147,7 +155,7 @@ export class PrismaReviewRepository {
    * Creates a new review
    */
   async create(
-    data: Omit<MentorReview, "id" | "createdAt" | "updatedAt" | "isRead">
+    data: Omit<MentorReview, "id" | "createdAt" | "updatedAt" | "isRead" | ReviewThreadFields>
   ): Promise<{ data: MentorReview | null; error?: Error }> {
     try {
       const result = await prisma.mentor_reviews.create({
@@ -0,0 +1,365 @@
+/**
+ * Prisma Review Thread Repository
+ *
+ * Handles the conversation on a mentor review: replies, edit history of the
+ * review and its replies, thread status and the mentor inbox of open threads.
+ * Participants of a thread are the mentor and the mentee of the review.
+ * Extends BaseRepository for common logging and error handling.
+ */
+
+import { prisma } from "@/lib/database";
+import {
+  Prisma,
+  mentor_review_replies as PrismaReviewReply,
+  mentor_review_edits as PrismaReviewEdit,
+} from "@/generated/prisma";
+import { Result } from "../types";
+import { AppError } from "@/lib/errors";
+import { BaseRepository } from "./BaseRepository";
+import { mapReviewFromPrisma } from "./ReviewRepository";
+import {
+  MentionCandidate,
+  MentorReview,
+  ReviewEdit,
+  ReviewInboxItem,
+  ReviewReply,
+  ReviewThreadStatus,
+} from "@/types";
+import { getMentionHandle, isAwaitingReply } from "@/services/mentor/reviewThreads";
+
+type WithEmail = { users?: { email: string | null } | null };
+
+const userName = (user: WithEmail["users"]) => user?.email?.split("@")[0] || undefined;
+
+const JOURNAL_CONTEXT = { journal_entries: { select: { date: true, account_id: true } } };
+
+const AUTHOR = { users: { select: { email: true } } };
+
+/**
+ * Maps Prisma reply to domain type
+ */
+export function mapReplyFromPrisma(reply: PrismaReviewReply & WithEmail): ReviewReply {
+  return {
+    id: reply.id,
+    reviewId: reply.review_id,
+    authorId: reply.author_id,
+    authorName: userName(reply.users),
+    content: reply.content,
+    mentions: reply.mentions || [],
+    createdAt: reply.created_at?.toISOString() || new Date().toISOString(),
+    updatedAt: reply.updated_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+/**
+ * Maps Prisma edit to domain type
+ */
+export function mapEditFromPrisma(edit: PrismaReviewEdit & WithEmail): ReviewEdit {
+  return {
+    id: edit.id,
+    reviewId: edit.review_id,
+    replyId: edit.reply_id || undefined,
+    editorId: edit.editor_id,
+    editorName: userName(edit.users),
+    previousContent: edit.previous_content,
+    editedAt: edit.edited_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+const participantWhere = (userId: string): Prisma.mentor_reviewsWhereInput => ({
+  OR: [{ mentor_id: userId }, { mentee_id: userId }],
+});
+
+class PrismaReviewThreadRepository extends BaseRepository {
+  protected readonly repositoryName = "PrismaReviewThreadRepository";
+
+  /**
+   * Fetches a review the user takes part in (as mentor or mentee).
+   */
+  async getParticipantReview(
+    reviewId: string,
+    userId: string
+  ): Promise<Result<MentorReview, AppError>> {
+    return this.withQuery(
+      "getParticipantReview",
+      async () => {
+        const review = await prisma.mentor_reviews.findFirst({
+          where: { id: reviewId, ...participantWhere(userId) },
+          include: JOURNAL_CONTEXT,
+        });
+        if (!review) throw this.notFoundError("Review");
+        return mapReviewFromPrisma(review);
+      },
+      { reviewId, userId }
+    );
+  }
+
+  /**
+   * Fetches the replies of the reviews the user takes part in, oldest first.
+   */
+  async getReplies(reviewIds: string[], userId: string): Promise<Result<ReviewReply[], AppError>> {
+    return this.withQuery(
+      "getReplies",
+      async () => {
+        if (reviewIds.length === 0) return [];
+        const replies = await prisma.mentor_review_replies.findMany({
+          where: { review_id: { in: reviewIds }, mentor_reviews: participantWhere(userId) },
+          include: AUTHOR,
+          orderBy: { created_at: "asc" },
+        });
+        return replies.map(mapReplyFromPrisma);
+      },
+      { count: reviewIds.length, userId }
+    );
+  }
+
+  /**
+   * Users that can be @mentioned in the threads of a mentee: the mentee and
+   * their mentors with an accepted invite.
+   */
+  async getMentionCandidates(menteeId: string): Promise<Result<MentionCandidate[], AppError>> {
+    return this.withQuery(
+      "getMentionCandidates",
+      async () => {
+        const [mentee, invites] = await Promise.all([
+          prisma.users.findUnique({ where: { id: menteeId }, select: { email: true } }),
+          prisma.mentor_invites.findMany({
+            where: { mentee_id: menteeId, status: "accepted", mentor_id: { not: null } },
+            select: { mentor_id: true, mentor_email: true },
+          }),
+        ]);
+
+        const candidates: MentionCandidate[] = [];
+        if (mentee?.email) {
+          candidates.push({ userId: menteeId, handle: getMentionHandle(mentee.email) });
+        }
+        invites.forEach((invite) => {
+          if (invite.mentor_id && !candidates.some((c) => c.userId === invite.mentor_id)) {
+            candidates.push({
+              userId: invite.mentor_id,
+              handle: getMentionHandle(invite.mentor_email),
+            });
+          }
+        });
+        return candidates;
+      },
+      { menteeId }
+    );
+  }
+
+  /**
+   * Fetches a reply written by the author.
+   */
+  async getAuthorReply(replyId: string, authorId: string): Promise<Result<ReviewReply, AppError>> {
+    return this.withQuery(
+      "getAuthorReply",
+      async () => {
+        const reply = await prisma.mentor_review_replies.findFirst({
+          where: { id: replyId, author_id: authorId },
+          include: AUTHOR,
+        });
+        if (!reply) throw this.notFoundError("Reply");
+        return mapReplyFromPrisma(reply);
+      },
+      { replyId, authorId }
+    );
+  }
+
+  /**
+   * Adds a reply to a review and bumps the thread's last activity.
+   */
+  async addReply(
+    reviewId: string,
+    authorId: string,
+    content: string,
+    mentions: string[]
+  ): Promise<Result<ReviewReply, AppError>> {
+    return this.withQuery(
+      "addReply",
+      async () => {
+        const [created] = await prisma.$transaction([
+          prisma.mentor_review_replies.create({
+            data: { review_id: reviewId, author_id: authorId, content, mentions },
+            include: AUTHOR,
+          }),
+          prisma.mentor_reviews.update({
+            where: { id: reviewId },
+            data: { last_activity_at: new Date() },
+          }),
+        ]);
+        return mapReplyFromPrisma(created);
+      },
+      { reviewId, authorId }
+    );
+  }
+
+  /**
+   * Edits a reply of the author, keeping the previous text in the history.
+   */
+  async updateReply(
+    replyId: string,
+    authorId: string,
+    content: string,
+    mentions: string[]
+  ): Promise<Result<ReviewReply, AppError>> {
+    return this.withQuery(
+      "updateReply",
+      async () => {
+        const existing = await prisma.mentor_review_replies.findFirst({
+          where: { id: replyId, author_id: authorId },
+          include: AUTHOR,
+        });
+        if (!existing) throw this.notFoundError("Reply");
+        if (existing.content === content) return mapReplyFromPrisma(existing);
+
+        const now = new Date();
+        const [, updated] = await prisma.$transaction([
+          prisma.mentor_review_edits.create({
+            data: {
+              review_id: existing.review_id,
+              reply_id: replyId,
+              editor_id: authorId,
+              previous_content: existing.content,
+            },
+          }),
+          prisma.mentor_review_replies.update({
+            where: { id: replyId },
+            data: { content, mentions, updated_at: now },
+            include: AUTHOR,
+          }),
+          prisma.mentor_reviews.update({
+            where: { id: existing.review_id },
+            data: { last_activity_at: now },
+          }),
+        ]);
+        return mapReplyFromPrisma(updated);
+      },
+      { replyId, authorId }
+    );
+  }
+
+  /**
+   * Edits a review of the mentor, keeping the previous text in the history.
+   */
+  async updateReviewContent(
+    reviewId: string,
+    mentorId: string,
+    content: string
+  ): Promise<Result<MentorReview, AppError>> {
+    return this.withQuery(
+      "updateReviewContent",
+      async () => {
+        const existing = await prisma.mentor_reviews.findFirst({
+          where: { id: reviewId, mentor_id: mentorId },
+          include: JOURNAL_CONTEXT,
+        });
+        if (!existing) throw this.notFoundError("Review");
+        if (existing.content === content) return mapReviewFromPrisma(existing);
+
+        const now = new Date();
+        const [, updated] = await prisma.$transaction([
+          prisma.mentor_review_edits.create({
+            data: { review_id: reviewId, editor_id: mentorId, previous_content: existing.content },
+          }),
+          prisma.mentor_reviews.update({
+            where: { id: reviewId },
+            data: { content, updated_at: now, last_activity_at: now },
+            include: JOURNAL_CONTEXT,
+          }),
+        ]);
+        return mapReviewFromPrisma(updated);
+      },
+      { reviewId, mentorId }
+    );
+  }
+
+  /**
+   * Edit history of a review and its replies, oldest first.
+   */
+  async getEdits(reviewId: string, userId: string): Promise<Result<ReviewEdit[], AppError>> {
+    return this.withQuery(
+      "getEdits",
+      async () => {
+        const edits = await prisma.mentor_review_edits.findMany({
+          where: { review_id: reviewId, mentor_reviews: participantWhere(userId) },
+          include: AUTHOR,
+          orderBy: { edited_at: "asc" },
+        });
+        return edits.map(mapEditFromPrisma);
+      },
+      { reviewId, userId }
+    );
+  }
+
+  /**
+   * Sets the thread status. Who may set it is checked by the caller
+   * (`canSetThreadStatus`).
+   */
+  async setStatus(
+    reviewId: string,
+    userId: string,
+    status: ReviewThreadStatus
+  ): Promise<Result<MentorReview, AppError>> {
+    return this.withQuery(
+      "setStatus",
+      async () => {
+        const now = new Date();
+        const updated = await prisma.mentor_reviews.update({
+          where: { id: reviewId },
+          data: {
+            status,
+            status_changed_at: now,
+            status_changed_by: userId,
+            last_activity_at: now,
+          },
+          include: JOURNAL_CONTEXT,
+        });
+        return mapReviewFromPrisma(updated);
+      },
+      { reviewId, userId, status }
+    );
+  }
+
+  /**
+   * Threads of the mentor that are not resolved, across all mentees, most
+   * recently active first.
+   */
+  async getInbox(mentorId: string): Promise<Result<ReviewInboxItem[], AppError>> {
+    return this.withQuery(
+      "getInbox",
+      async () => {
+        const reviews = await prisma.mentor_reviews.findMany({
+          where: { mentor_id: mentorId, status: { not: "resolved" } },
+          include: {
+            ...JOURNAL_CONTEXT,
+            users_mentor_reviews_mentee_idTousers: {
+              select: { email: true, profiles: { select: { display_name: true } } },
+            },
+            mentor_review_replies: { include: AUTHOR, orderBy: { created_at: "desc" }, take: 1 },
+            _count: { select: { mentor_review_replies: true } },
+          },
+          orderBy: { last_activity_at: "desc" },
+        });
+
+        return reviews.map((db) => {
+          const review = mapReviewFromPrisma(db);
+          const mentee = db.users_mentor_reviews_mentee_idTousers;
+          const lastReply = db.mentor_review_replies[0]
+            ? mapReplyFromPrisma(db.mentor_review_replies[0])
+            : undefined;
+          return {
+            review,
+            menteeName: mentee?.profiles?.display_name || userName(mentee) || "Mentorado",
+            replyCount: db._count.mentor_review_replies,
+            lastReply,
+            awaitingMentor: isAwaitingReply(review, lastReply, mentorId),
+          };
+        });
+      },
+      { mentorId }
+    );
+  }
+}
+
+export const prismaReviewThreadRepo = new PrismaReviewThreadRepository();
+export { PrismaReviewThreadRepository };
@@ -6,11 +6,26 @@
  */
 
 import { prisma } from "@/lib/database";
-import { settings as PrismaSettings } from "@/generated/prisma";
+import { Prisma, settings as PrismaSettings } from "@/generated/prisma";
 import { Result } from "../types";
 import { AppError } from "@/lib/errors";
-import { BaseRepository } from "./BaseRepository";
-import { Settings, UserSettings } from "@/types";
+import { BaseRepository, toJsonValue } from "./BaseRepository";
+import { DigestSettings, Settings, UserSettings } from "@/types";
+import { normalizeSessionSettings } from "@/lib/utils/trading";
+import { normalizeBrokerFeeSettings } from "@/services/analytics/b3Fees";
+import { normalizeNewsSettings } from "@/services/analytics/news";
+import { normalizeDigestSettings } from "@/services/notifications/digest";
+import { normalizeNotificationSettings } from "@/services/notifications/notifications";
+import { normalizeSizingSettings } from "@/services/trades/positionSizing";
+
+/** User with a digest enabled, as read by the digest job */
+export interface DigestSubscriber {
+  userId: string;
+  email?: string;
+  digestSettings: DigestSettings;
+  /** Last delivery (ISO), if any */
+  digestSentAt?: string;
+}
 
 /**
  * Maps Prisma settings to domain Settings type
@@ -47,6 +62,12 @@ function mapUserSettingsFromPrisma(s: PrismaSettings): UserSettings {
     ),
     strategies: (s.strategies as string[]) || [],
     setups: (s.setups as string[]) || [],
+    brokerFees: normalizeBrokerFeeSettings(s.broker_fees),
+    sessionSettings: normalizeSessionSettings(s.session_settings),
+    newsSettings: normalizeNewsSettings(s.news_settings),
+    sizingSettings: normalizeSizingSettings(s.sizing_settings),
+    notificationSettings: normalizeNotificationSettings(s.notification_settings),
+    digestSettings: normalizeDigestSettings(s.digest_settings),
     created_at: s.created_at?.toISOString() || new Date().toISOString(),
     updated_at: s.updated_at?.toISOString() || new Date().toISOString(),
   };
@@ -160,6 +181,12 @@ class PrismaSettingsRepository extends BaseRepository {
               : {},
             strategies: settings.strategies || [],
             setups: settings.setups || [],
+            broker_fees: toJsonValue(settings.brokerFees),
+            session_settings: toJsonValue(settings.sessionSettings),
+            news_settings: toJsonValue(settings.newsSettings),
+            sizing_settings: toJsonValue(settings.sizingSettings),
+            notification_settings: toJsonValue(settings.notificationSettings),
+            digest_settings: toJsonValue(settings.digestSettings),
           },
           update: {
             currencies: settings.currencies,
@@ -169,6 +196,12 @@ class PrismaSettingsRepository extends BaseRepository {
               : undefined,
             strategies: settings.strategies,
             setups: settings.setups,
+            broker_fees: toJsonValue(settings.brokerFees),
+            session_settings: toJsonValue(settings.sessionSettings),
+            news_settings: toJsonValue(settings.newsSettings),
+            sizing_settings: toJsonValue(settings.sizingSettings),
+            notification_settings: toJsonValue(settings.notificationSettings),
+            digest_settings: toJsonValue(settings.digestSettings),
             updated_at: new Date(),
           },
         });
@@ -178,6 +211,53 @@ class PrismaSettingsRepository extends BaseRepository {
       { userId }
     );
   }
+
+  /**
+   * Fetches the users with a daily or weekly digest, with their email and when
+   * the last digest was sent.
+   */
+  async getDigestSubscribers(): Promise<Result<DigestSubscriber[], AppError>> {
+    return this.withQuery("getDigestSubscribers", async () => {
+      const rows = await prisma.settings.findMany({
+        where: {
+          account_id: null,
+          NOT: { digest_settings: { equals: Prisma.DbNull } },
+        },
+        select: {
+          user_id: true,
+          digest_settings: true,
+          digest_sent_at: true,
+          users: { select: { email: true } },
+        },
+      });
+
+      return rows
+        .map((row) => ({
+          userId: row.user_id,
+          email: row.users.email || undefined,
+          digestSettings: normalizeDigestSettings(row.digest_settings),
+          digestSentAt: row.digest_sent_at?.toISOString(),
+        }))
+        .filter((row) => row.digestSettings.frequency !== "off");
+    });
+  }
+
+  /**
+   * Records when the user's digest was delivered.
+   */
+  async markDigestSent(userId: string, sentAt: Date): Promise<Result<boolean, AppError>> {
+    return this.withQuery(
+      "markDigestSent",
+      async () => {
+        await prisma.settings.updateMany({
+          where: { user_id: userId, account_id: null },
+          data: { digest_sent_at: sentAt },
+        });
+        return true;
+      },
+      { userId }
+    );
+  }
 }
 
 export const prismaSettingsRepo = new PrismaSettingsRepository();
@@ -0,0 +1,195 @@
+/**
+ * Prisma Trade Plan Repository
+ *
+ * Handles the pre-trade plans saved from the Pre-Flight Checklist and their
+ * link to the trade that executed them.
+ * Extends BaseRepository for common logging and error handling.
+ */
+
+import { prisma } from "@/lib/database";
+import { trade_plans as PrismaTradePlan } from "@/generated/prisma";
+import { Result } from "../types";
+import { AppError } from "@/lib/errors";
+import { BaseRepository } from "./BaseRepository";
+import { TradePlan, TradePlanStatus } from "@/types";
+import type { TradePlanDraft } from "@/services/trades/tradePlan";
+
+/**
+ * Maps Prisma trade plan to domain type
+ */
+function mapTradePlanFromPrisma(p: PrismaTradePlan): TradePlan {
+  return {
+    id: p.id,
+    userId: p.user_id,
+    accountId: p.account_id,
+    symbol: p.symbol,
+    type: p.type as TradePlan["type"],
+    plannedEntry: Number(p.planned_entry),
+    plannedStop: Number(p.planned_stop),
+    plannedTarget: Number(p.planned_target),
+    plannedLot: Number(p.planned_lot),
+    playbookId: p.playbook_id || undefined,
+    strategy: p.strategy || undefined,
+    checkedRules: p.checked_rules || [],
+    totalRules: p.total_rules,
+    bullishArgs: p.bullish_args || [],
+    bearishArgs: p.bearish_args || [],
+    bullishPct: p.bullish_pct !== null ? Number(p.bullish_pct) : undefined,
+    probabilityLabel: p.probability_label || undefined,
+    notes: p.notes || undefined,
+    status: p.status as TradePlanStatus,
+    tradeId: p.trade_id || undefined,
+    createdAt: p.created_at?.toISOString() || new Date().toISOString(),
+    updatedAt: p.updated_at?.toISOString() || new Date().toISOString(),
+  };
+}
+
+class PrismaTradePlanRepository extends BaseRepository {
+  protected readonly repositoryName = "PrismaTradePlanRepository";
+
+  /**
+   * Fetches the plans of an account, newest first, optionally by status.
+   */
+  async getByAccountId(
+    accountId: string,
+    userId: string,
+    status?: TradePlanStatus
+  ): Promise<Result<TradePlan[], AppError>> {
+    return this.withQuery(
+      "getByAccountId",
+      async () => {
+        const plans = await prisma.trade_plans.findMany({
+          where: { account_id: accountId, user_id: userId, ...(status ? { status } : {}) },
+          orderBy: { created_at: "desc" },
+        });
+        return plans.map(mapTradePlanFromPrisma);
+      },
+      { accountId, userId, status }
+    );
+  }
+
+  /**
+   * Fetches a plan owned by the user.
+   */
+  async getById(id: string, userId: string): Promise<Result<TradePlan | null, AppError>> {
+    return this.withQuery(
+      "getById",
+      async () => {
+        const plan = await prisma.trade_plans.findFirst({ where: { id, user_id: userId } });
+        return plan ? mapTradePlanFromPrisma(plan) : null;
+      },
+      { id, userId }
+    );
+  }
+
+  /**
+   * Fetches the plan executed by a trade, if any.
+   */
+  async getByTradeId(tradeId: string, userId: string): Promise<Result<TradePlan | null, AppError>> {
+    return this.withQuery(
+      "getByTradeId",
+      async () => {
+        const plan = await prisma.trade_plans.findFirst({
+          where: { trade_id: tradeId, user_id: userId },
+        });
+        return plan ? mapTradePlanFromPrisma(plan) : null;
+      },
+      { tradeId, userId }
+    );
+  }
+
+  /**
+   * Creates a plan in the "planned" status.
+   */
+  async create(userId: string, draft: TradePlanDraft): Promise<Result<TradePlan, AppError>> {
+    return this.withQuery(
+      "create",
+      async () => {
+        const created = await prisma.trade_plans.create({
+          data: {
+            user_id: userId,
+            account_id: draft.accountId,
+            playbook_id: draft.playbookId,
+            symbol: draft.symbol,
+            type: draft.type,
+            planned_entry: draft.plannedEntry,
+            planned_stop: draft.plannedStop,
+            planned_target: draft.plannedTarget,
+            planned_lot: draft.plannedLot,
+            strategy: draft.strategy,
+            checked_rules: draft.checkedRules,
+            total_rules: draft.totalRules,
+            bullish_args: draft.bullishArgs,
+            bearish_args: draft.bearishArgs,
+            bullish_pct: draft.bullishPct,
+            probability_label: draft.probabilityLabel,
+            notes: draft.notes,
+          },
+        });
+        return mapTradePlanFromPrisma(created);
+      },
+      { userId, accountId: draft.accountId, symbol: draft.symbol }
+    );
+  }
+
+  /**
+   * Marks the plan as executed by the trade.
+   */
+  async linkTrade(
+    id: string,
+    userId: string,
+    tradeId: string
+  ): Promise<Result<TradePlan, AppError>> {
+    return this.withQuery(
+      "linkTrade",
+      async () => {
+        const plan = await prisma.trade_plans.findFirst({ where: { id, user_id: userId } });
+        if (!plan) throw this.notFoundError("Trade plan");
+
+        const updated = await prisma.trade_plans.update({
+          where: { id },
+          data: { trade_id: tradeId, status: "executed", updated_at: new Date() },
+        });
+        return mapTradePlanFromPrisma(updated);
+      },
+      { id, userId, tradeId }
+    );
+  }
+
+  /**
+   * Cancels a plan that was not executed.
+   */
+  async cancel(id: string, userId: string): Promise<Result<boolean, AppError>> {
+    return this.withQuery(
+      "cancel",
+      async () => {
+        const updated = await prisma.trade_plans.updateMany({
+          where: { id, user_id: userId, status: "planned" },
+          data: { status: "cancelled", updated_at: new Date() },
+        });
+        if (updated.count === 0) throw this.notFoundError("Trade plan");
+        return true;
+      },
+      { id, userId }
+    );
+  }
+
+  /**
+   * Deletes a plan owned by the user.
+   */
+  async delete(id: string, userId: string): Promise<Result<boolean, AppError>> {
+    return this.withQuery(
+      "delete",
+      async () => {
+        const deleted = await prisma.trade_plans.deleteMany({ where: { id, user_id: userId } });
+        if (deleted.count === 0) throw this.notFoundError("Trade plan");
+        return true;
+      },
+      { id, userId }
+    );
+  }
+}
+
+// Export singleton instance
+export const prismaTradePlanRepo = new PrismaTradePlanRepository();
+export { PrismaTradePlanRepository };
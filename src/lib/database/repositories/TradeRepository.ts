@@ -6,13 +6,59 @@
  */
 
 import { prisma } from "@/lib/database";
-import { trades as PrismaTrade, Prisma } from "@/generated/prisma";
+import { trades as PrismaTrade, trade_legs as PrismaTradeLeg, Prisma } from "@/generated/prisma";
 import { Result } from "../types";
 import { AppError } from "@/lib/errors";
 import { BaseRepository } from "./BaseRepository";
-import { Trade, TradeLite } from "@/types";
+import { Trade, TradeLeg, TradeLite, TradeRuleCompliance } from "@/types";
+import { normalizeRuleCompliance } from "@/services/trades/ruleCompliance";
 
-function mapPrismaToTrade(prismaTrade: PrismaTrade): Trade {
+const LEGS_ORDER_BY: Prisma.trade_legsOrderByWithRelationInput[] = [
+  { executed_date: "asc" },
+  { executed_time: "asc" },
+];
+
+const LEGS_INCLUDE = { trade_legs: { orderBy: LEGS_ORDER_BY } } satisfies Prisma.tradesInclude;
+
+function mapPrismaToTradeLeg(leg: PrismaTradeLeg): TradeLeg {
+  return {
+    id: leg.id,
+    tradeId: leg.trade_id,
+    side: leg.side as TradeLeg["side"],
+    price: Number(leg.price),
+    quantity: Number(leg.quantity),
+    executedDate:
+      leg.executed_date instanceof Date
+        ? leg.executed_date.toISOString().split("T")[0]
+        : String(leg.executed_date),
+    executedTime: leg.executed_time || undefined,
+    pnl: leg.pnl !== null && leg.pnl !== undefined ? Number(leg.pnl) : undefined,
+    createdAt: leg.created_at?.toISOString(),
+  };
+}
+
+export function mapTradeLegToPrisma(leg: TradeLeg): Prisma.trade_legsCreateWithoutTradesInput {
+  return {
+    id: leg.id || undefined,
+    side: leg.side,
+    price: leg.price,
+    quantity: leg.quantity,
+    executed_date: new Date(leg.executedDate),
+    executed_time: leg.executedTime,
+    pnl: leg.pnl,
+  };
+}
+
+// undefined leaves the stored value untouched; no marked rule clears it
+function mapRuleComplianceToPrisma(
+  compliance: TradeRuleCompliance | undefined
+): Prisma.InputJsonValue | Prisma.NullableJsonNullValueInput | undefined {
+  if (!compliance) return undefined;
+  if (compliance.followed.length === 0 && compliance.broken.length === 0) return Prisma.DbNull;
+  return { followed: compliance.followed, broken: compliance.broken };
+}
+
+function mapPrismaToTrade(prismaTrade: PrismaTrade & { trade_legs?: PrismaTradeLeg[] }): Trade {
   return {
     id: prismaTrade.id,
     accountId: prismaTrade.account_id,
@@ -54,7 +100,13 @@ function mapPrismaToTrade(prismaTrade: PrismaTrade): Trade {
     market_condition_v2: prismaTrade.market_condition_v2 as Trade["market_condition_v2"],
     planAdherence: prismaTrade.plan_adherence as Trade["planAdherence"],
     planAdherenceRating: prismaTrade.plan_adherence_rating || undefined,
+    ruleCompliance: normalizeRuleCompliance(prismaTrade.rule_compliance),
+    playbookVersion: prismaTrade.playbook_version ?? undefined,
     entry_quality: prismaTrade.entry_quality as Trade["entry_quality"],
+    legs: prismaTrade.trade_legs?.length
+      ? prismaTrade.trade_legs.map(mapPrismaToTradeLeg)
+      : undefined,
+    importBatchId: prismaTrade.import_batch_id || undefined,
     createdAt: prismaTrade.created_at?.toISOString() || new Date().toISOString(),
     updatedAt: prismaTrade.updated_at?.toISOString() || new Date().toISOString(),
   };
@@ -94,11 +146,15 @@ function mapTradeToPrisma(trade: Partial<Trade>): Prisma.tradesCreateInput {
     market_condition_v2: trade.market_condition_v2,
     plan_adherence: trade.planAdherence,
     plan_adherence_rating: trade.planAdherenceRating,
+    rule_compliance: mapRuleComplianceToPrisma(trade.ruleCompliance),
+    playbook_version: trade.playbookVersion,
     entry_quality: trade.entry_quality,
+    trade_legs: trade.legs?.length ? { create: trade.legs.map(mapTradeLegToPrisma) } : undefined,
   };
 }
 
-function mapTradeToPrismaMany(trade: Partial<Trade>): Prisma.tradesCreateManyInput {
+// Also used by ImportBatchRepository, which writes imported trades in its own transaction
+export function mapTradeToPrismaMany(trade: Partial<Trade>): Prisma.tradesCreateManyInput {
   return {
     id: trade.id,
     account_id: trade.accountId!,
@@ -132,6 +188,8 @@ function mapTradeToPrismaMany(trade: Partial<Trade>): Prisma.tradesCreateManyInp
     market_condition_v2: trade.market_condition_v2,
     plan_adherence: trade.planAdherence,
     plan_adherence_rating: trade.planAdherenceRating,
+    rule_compliance: mapRuleComplianceToPrisma(trade.ruleCompliance),
+    playbook_version: trade.playbookVersion,
     entry_quality: trade.entry_quality,
   };
 }
@@ -161,6 +219,7 @@ class PrismaTradeRepository extends BaseRepository {
           orderBy: options?.orderBy || [{ entry_date: "desc" }, { entry_time: "desc" }],
           take: options?.limit,
           skip: options?.offset,
+          include: LEGS_INCLUDE,
         });
         return trades.map(mapPrismaToTrade);
       },
@@ -175,7 +234,7 @@ class PrismaTradeRepository extends BaseRepository {
     skip?: number;
   }): Promise<Result<Trade[], AppError>> {
     return this.withQuery("getMany", async () => {
-      const trades = await prisma.trades.findMany(options);
+      const trades = await prisma.trades.findMany({ ...options, include: LEGS_INCLUDE });
       return trades.map(mapPrismaToTrade);
     });
   }
@@ -200,7 +259,10 @@ class PrismaTradeRepository extends BaseRepository {
     return this.withQuery(
       "getById",
       async () => {
-        const trade = await prisma.trades.findFirst({ where: { id: tradeId, user_id: userId } });
+        const trade = await prisma.trades.findFirst({
+          where: { id: tradeId, user_id: userId },
+          include: LEGS_INCLUDE,
+        });
         if (!trade) throw this.notFoundError("Trade");
         return mapPrismaToTrade(trade);
       },
@@ -235,6 +297,7 @@ class PrismaTradeRepository extends BaseRepository {
           orderBy: { created_at: "desc" },
           take: options?.limit,
           skip: options?.offset,
+          include: LEGS_INCLUDE,
         });
         return trades.map(mapPrismaToTrade);
       },
@@ -246,7 +309,10 @@ class PrismaTradeRepository extends BaseRepository {
     return this.withQuery(
       "create",
       async () => {
-        const created = await prisma.trades.create({ data: mapTradeToPrisma(trade) });
+        const created = await prisma.trades.create({
+          data: mapTradeToPrisma(trade),
+          include: LEGS_INCLUDE,
+        });
         return mapPrismaToTrade(created);
       },
       { symbol: trade.symbol }
@@ -258,10 +324,29 @@ class PrismaTradeRepository extends BaseRepository {
       "createMany",
       async () => {
         if (trades.length === 0) return { count: 0 };
-        const created = await prisma.trades.createMany({
-          data: trades.map(mapTradeToPrismaMany),
-          skipDuplicates: true,
-        });
+
+        // Legs need the trade IDs, which imports generate client-side
+        const legs: Prisma.trade_legsCreateManyInput[] = trades.flatMap((trade) =>
+          trade.id && trade.legs?.length
+            ? trade.legs.map((leg) => ({ ...mapTradeLegToPrisma(leg), trade_id: trade.id! }))
+            : []
+        );
+
+        if (legs.length === 0) {
+          const created = await prisma.trades.createMany({
+            data: trades.map(mapTradeToPrismaMany),
+            skipDuplicates: true,
+          });
+          return { count: created.count };
+        }
+
+        const [created] = await prisma.$transaction([
+          prisma.trades.createMany({
+            data: trades.map(mapTradeToPrismaMany),
+            skipDuplicates: true,
+          }),
+          prisma.trade_legs.createMany({ data: legs, skipDuplicates: true }),
+        ]);
         return { count: created.count };
       },
       { count: trades.length }
@@ -283,7 +368,10 @@ class PrismaTradeRepository extends BaseRepository {
           });
           if (!journal) throw this.notFoundError("Journal");
           if (journal.user_id !== userId) throw this.unauthorizedError();
-          const created = await tx.trades.create({ data: mapTradeToPrisma(trade) });
+          const created = await tx.trades.create({
+            data: mapTradeToPrisma(trade),
+            include: LEGS_INCLUDE,
+          });
           await tx.journal_entry_trades.create({
             data: { journal_entry_id: journalId, trade_id: created.id },
           });
@@ -343,9 +431,15 @@ class PrismaTradeRepository extends BaseRepository {
             market_condition_v2: data.market_condition_v2,
             plan_adherence: data.planAdherence,
             plan_adherence_rating: data.planAdherenceRating,
+            rule_compliance: mapRuleComplianceToPrisma(data.ruleCompliance),
+            playbook_version: data.playbookVersion,
             entry_quality: data.entry_quality,
+            trade_legs: data.legs
+              ? { deleteMany: {}, create: data.legs.map(mapTradeLegToPrisma) }
+              : undefined,
             updated_at: new Date(),
           },
+          include: LEGS_INCLUDE,
         });
         return mapPrismaToTrade(updated);
       },
@@ -482,13 +576,30 @@ class PrismaTradeRepository extends BaseRepository {
             max_loss: number | null;
           }>
         >`
+        WITH leg_totals AS (
+          SELECT l.trade_id, SUM(l.pnl) as legs_pnl FROM trade_legs l
+          JOIN trades t ON t.id = l.trade_id
+          WHERE t.account_id = ${accountId}::uuid AND t.user_id = ${userId}::uuid
+            AND l.side = 'exit' AND l.pnl IS NOT NULL
+          GROUP BY l.trade_id
+        ), trade_results AS (
+          SELECT CASE WHEN lt.legs_pnl IS NULL THEN t.pnl
+            ELSE lt.legs_pnl + COALESCE(t.commission, 0) + COALESCE(t.swap, 0) END as pnl,
+          t.outcome, lt.legs_pnl IS NOT NULL as has_legs
+          FROM trades t LEFT JOIN leg_totals lt ON lt.trade_id = t.id
+          WHERE t.account_id = ${accountId}::uuid AND t.user_id = ${userId}::uuid
+        ), trade_pnl AS (
+          SELECT pnl, CASE WHEN NOT has_legs THEN outcome WHEN pnl > 0 THEN 'win'
+            WHEN pnl < 0 THEN 'loss' ELSE 'breakeven' END as outcome
+          FROM trade_results
+        )
         SELECT AVG(pnl) as avg_pnl, STDDEV_POP(pnl) as pnl_stddev, SUM(pnl) as total_pnl,
         COUNT(*) FILTER (WHERE outcome = 'win') as total_wins, COUNT(*) FILTER (WHERE outcome = 'loss') as total_losses,
         COALESCE(SUM(pnl) FILTER (WHERE outcome = 'win'), 0) as sum_wins,
         COALESCE(ABS(SUM(pnl) FILTER (WHERE outcome = 'loss')), 0) as sum_losses,
         COALESCE(MAX(pnl) FILTER (WHERE outcome = 'win'), 0) as max_win,
         COALESCE(MIN(pnl) FILTER (WHERE outcome = 'loss'), 0) as max_loss
-        FROM trades WHERE account_id = ${accountId}::uuid AND user_id = ${userId}::uuid
+        FROM trade_pnl
       `;
 
         const streakResult = await prisma.$queryRaw<
@@ -596,6 +707,8 @@ class PrismaTradeRepository extends BaseRepository {
             session: true,
             commission: true,
             swap: true,
+            rule_compliance: true,
+            playbook_version: true,
           },
           orderBy: [{ entry_date: "desc" }, { entry_time: "desc" }],
         });
@@ -635,6 +748,8 @@ class PrismaTradeRepository extends BaseRepository {
           session: t.session || undefined,
           commission: t.commission ? Number(t.commission) : undefined,
           swap: t.swap ? Number(t.swap) : undefined,
+          ruleCompliance: normalizeRuleCompliance(t.rule_compliance),
+          playbookVersion: t.playbook_version ?? undefined,
         }));
       },
       { accountId }
@@ -643,7 +758,14 @@ class PrismaTradeRepository extends BaseRepository {
 
   async getByUserId(
     userId: string,
-    options?: { limit?: number; offset?: number; accountId?: string; accountIds?: string[] }
+    options?: {
+      limit?: number;
+      offset?: number;
+      accountId?: string;
+      accountIds?: string[];
+      /** Only trades entered on or after this date (YYYY-MM-DD) */
+      fromDate?: string;
+    }
   ): Promise<Result<Trade[], AppError>> {
     return this.withQuery(
       "getByUserId",
@@ -651,12 +773,14 @@ class PrismaTradeRepository extends BaseRepository {
         const where: Prisma.tradesWhereInput = { user_id: userId };
         if (options?.accountId) where.account_id = options.accountId;
         else if (options?.accountIds?.length) where.account_id = { in: options.accountIds };
+        if (options?.fromDate) where.entry_date = { gte: new Date(options.fromDate) };
 
         const trades = await prisma.trades.findMany({
           where,
           orderBy: [{ entry_date: "desc" }, { entry_time: "desc" }],
           take: options?.limit,
           skip: options?.offset,
+          include: LEGS_INCLUDE,
         });
         return trades.map(mapPrismaToTrade);
       },
@@ -139,4 +139,46 @@ describe("PrismaAccountRepository Unit Tests", () => {
       expect(result.data?.currentBalance).toBe(750);
     });
   });
+
+  describe("replaceRuleBreaches", () => {
+    it("should replace breaches of an owned account in a transaction", async () => {
+      mockPrisma.accounts.findFirst.mockResolvedValue({ id: "acc-1" });
+      mockPrisma.$transaction.mockResolvedValue([{ count: 3 }, { count: 1 }]);
+
+      const result = await prismaAccountRepo.replaceRuleBreaches("acc-1", "user-123", [
+        {
+          rule: "daily_loss",
+          tradeId: "trade-1",
+          breachDate: "2024-03-01",
+          value: 5500,
+          limit: 5000,
+        },
+      ]);
+
+      expect(mockPrisma.prop_rule_breaches.deleteMany).toHaveBeenCalledWith({
+        where: { account_id: "acc-1" },
+      });
+      expect(mockPrisma.prop_rule_breaches.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            account_id: "acc-1",
+            user_id: "user-123",
+            trade_id: "trade-1",
+            rule: "daily_loss",
+            limit_value: 5000,
+          }),
+        ],
+      });
+      expect(result.data).toBe(1);
+    });
+
+    it("should reject accounts not owned by the user", async () => {
+      mockPrisma.accounts.findFirst.mockResolvedValue(null);
+
+      const result = await prismaAccountRepo.replaceRuleBreaches("acc-1", "other-user", []);
+
+      expect(result.data).toBeNull();
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,216 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { createPrismaMock, type PrismaMock } from "./prismaMock";
+
+// Mock Prisma client
+vi.mock("@/lib/database", () => ({
+  prisma: createPrismaMock(),
+}));
+
+// Import after mocking
+import { prisma } from "@/lib/database";
+import { prismaBackupRepo } from "../index";
+import type { RestorePlan } from "@/services/trades/restore";
+
+const emptyPlan = (overrides: Partial<RestorePlan> = {}): RestorePlan => ({
+  accounts: [],
+  trades: [],
+  journalEntries: [],
+  playbooks: [],
+  routines: [],
+  settings: null,
+  laboratoryExperiments: [],
+  laboratoryRecaps: [],
+  mentalLogs: [],
+  ...overrides,
+});
+
+describe("PrismaBackupRepository Unit Tests", () => {
+  let mockPrisma: PrismaMock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = prisma as unknown as PrismaMock;
+    mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockPrisma));
+  });
+
+  describe("getRestoreContext", () => {
+    it("should map the user's records to domain values", async () => {
+      mockPrisma.trades.findMany.mockResolvedValue([
+        {
+          id: "trade-1",
+          account_id: "account-123",
+          symbol: "NQ",
+          type: "Long",
+          entry_price: "21500.25",
+          entry_date: new Date("2025-01-13"),
+          entry_time: "09:30:00",
+        },
+      ]);
+      mockPrisma.settings.findUnique.mockResolvedValue({
+        id: "set-1",
+        user_id: "user-123",
+        currencies: ["USD"],
+        leverages: [],
+        assets: { NQ: 20 },
+        strategies: [],
+        setups: [],
+      });
+      mockPrisma.mental_logs.findMany.mockResolvedValue([
+        { step_1_problem: "FOMO", created_at: new Date("2025-01-13T15:00:00Z") },
+      ]);
+
+      const result = await prismaBackupRepo.getRestoreContext("user-123");
+
+      expect(mockPrisma.trades.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { user_id: "user-123" } })
+      );
+      expect(result.data?.trades).toEqual([
+        {
+          id: "trade-1",
+          accountId: "account-123",
+          symbol: "NQ",
+          type: "Long",
+          entryPrice: 21500.25,
+          entryDate: "2025-01-13",
+          entryTime: "09:30:00",
+        },
+      ]);
+      expect(result.data?.settings?.assets).toEqual([{ symbol: "NQ", multiplier: 20 }]);
+      expect(result.data?.mentalLogs).toEqual([
+        { step1Problem: "FOMO", createdAt: "2025-01-13T15:00:00.000Z" },
+      ]);
+    });
+  });
+
+  describe("restore", () => {
+    it("should create accounts at their initial balance, trades, legs and links in one transaction", async () => {
+      const result = await prismaBackupRepo.restore(
+        "user-123",
+        emptyPlan({
+          accounts: [
+            {
+              id: "acc-new",
+              userId: "old-user",
+              name: "FTMO 100k",
+              currency: "USD",
+              initialBalance: 100000,
+              currentBalance: 100000,
+              leverage: "1:100",
+              maxDrawdown: 10,
+              createdAt: "2025-01-01T00:00:00.000Z",
+              updatedAt: "2025-01-01T00:00:00.000Z",
+            },
+          ],
+          trades: [
+            {
+              id: "trade-new",
+              userId: "old-user",
+              accountId: "acc-new",
+              symbol: "NQ",
+              type: "Long",
+              entryPrice: 21500.25,
+              stopLoss: 0,
+              takeProfit: 0,
+              lot: 1,
+              entryDate: "2025-01-13",
+              pnl: 1500,
+              legs: [
+                {
+                  id: "leg-new",
+                  tradeId: "trade-new",
+                  side: "entry",
+                  price: 21500.25,
+                  quantity: 1,
+                  executedDate: "2025-01-13",
+                },
+              ],
+              createdAt: "2025-01-13T12:00:00.000Z",
+              updatedAt: "2025-01-13T12:00:00.000Z",
+            },
+          ],
+          journalEntries: [
+            {
+              id: "entry-new",
+              userId: "old-user",
+              accountId: "acc-new",
+              date: "2025-01-13",
+              title: "NQ open",
+              tradeIds: ["trade-new", "trade-existing"],
+              images: [],
+              createdAt: "2025-01-13T12:00:00.000Z",
+              updatedAt: "2025-01-13T12:00:00.000Z",
+            },
+          ],
+        })
+      );
+
+      expect(result.error).toBeNull();
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.accounts.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            id: "acc-new",
+            user_id: "user-123",
+            initial_balance: 100000,
+            current_balance: 100000,
+          }),
+        ],
+      });
+      expect(mockPrisma.trades.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ id: "trade-new", user_id: "user-123", pnl: 1500 })],
+      });
+      expect(mockPrisma.trade_legs.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ id: "leg-new", trade_id: "trade-new" })],
+      });
+      expect(mockPrisma.journal_entry_trades.createMany).toHaveBeenCalledWith({
+        data: [
+          { journal_entry_id: "entry-new", trade_id: "trade-new" },
+          { journal_entry_id: "entry-new", trade_id: "trade-existing" },
+        ],
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.settings.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should upsert merged settings and restore laboratory records with their links", async () => {
+      await prismaBackupRepo.restore(
+        "user-123",
+        emptyPlan({
+          settings: {
+            currencies: ["USD", "BRL"],
+            leverages: [],
+            assets: [{ symbol: "NQ", multiplier: 20 }],
+            strategies: [],
+            setups: [],
+          },
+          laboratoryExperiments: [
+            {
+              id: "exp-new",
+              userId: "old-user",
+              title: "Gap fill",
+              status: "em_aberto",
+              promotedToPlaybook: false,
+              images: [],
+              linkedTrades: [{ tradeId: "trade-new", category: "contra" }],
+              createdAt: "2025-01-10T10:00:00.000Z",
+              updatedAt: "2025-01-10T10:00:00.000Z",
+            },
+          ],
+        })
+      );
+
+      expect(mockPrisma.settings.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { user_id: "user-123" },
+          update: expect.objectContaining({ currencies: ["USD", "BRL"], assets: { NQ: 20 } }),
+        })
+      );
+      expect(mockPrisma.laboratory_experiment_trades.createMany).toHaveBeenCalledWith({
+        data: [{ experiment_id: "exp-new", trade_id: "trade-new", category: "contra" }],
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.trades.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { createPrismaMock, createMockData, type PrismaMock } from "./prismaMock";
+
+// Mock Prisma client
+vi.mock("@/lib/database", () => ({
+  prisma: createPrismaMock(),
+}));
+
+// Import after mocking
+import { prisma } from "@/lib/database";
+import { prismaImageAnnotationRepo } from "../index";
+
+describe("PrismaImageAnnotationRepository Unit Tests", () => {
+  let mockPrisma: PrismaMock;
+
+  const image = { journal_entry_id: "entry-123", journal_entries: { user_id: "mentee-123" } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = prisma as unknown as PrismaMock;
+  });
+
+  describe("getForEntry", () => {
+    it("should map the kind and the geometry into the shape", async () => {
+      mockPrisma.journal_image_annotations.findMany.mockResolvedValue([
+        createMockData.imageAnnotation(),
+      ]);
+
+      const result = await prismaImageAnnotationRepo.getForEntry("entry-123", "mentee-123");
+
+      expect(mockPrisma.journal_image_annotations.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            journal_entry_id: "entry-123",
+            OR: [{ author_id: "mentee-123" }, { journal_entries: { user_id: "mentee-123" } }],
+          },
+        })
+      );
+      expect(result.data).toEqual([
+        expect.objectContaining({
+          id: "annotation-123",
+          authorName: "ana",
+          shape: { kind: "hline", y: 0.42 },
+          reviewId: undefined,
+        }),
+      ]);
+    });
+
+    it("should drop annotations whose stored shape is malformed", async () => {
+      mockPrisma.journal_image_annotations.findMany.mockResolvedValue([
+        createMockData.imageAnnotation({ id: "broken-1", shape: { y: "x" } }),
+        createMockData.imageAnnotation({ id: "broken-2", kind: "circle" }),
+        createMockData.imageAnnotation({ id: "broken-3", kind: "box", shape: null }),
+        createMockData.imageAnnotation(),
+      ]);
+
+      const result = await prismaImageAnnotationRepo.getForEntry("entry-123", "mentee-123");
+
+      expect(result.data?.map((a) => a.id)).toEqual(["annotation-123"]);
+    });
+  });
+
+  describe("create", () => {
+    const input = {
+      imageId: "image-123",
+      shape: { kind: "hline" as const, y: 0.42 },
+      color: "#f87171",
+      comment: "Stop acima da máxima",
+    };
+
+    it("should store the geometry apart from the kind", async () => {
+      mockPrisma.journal_images.findUnique.mockResolvedValue(image);
+      mockPrisma.mentor_invites.findFirst.mockResolvedValue({ id: "invite-123" });
+      mockPrisma.journal_image_annotations.create.mockResolvedValue(
+        createMockData.imageAnnotation()
+      );
+
+      const result = await prismaImageAnnotationRepo.create(input, "mentor-123");
+
+      expect(mockPrisma.mentor_invites.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            mentor_id: "mentor-123",
+            mentee_id: "mentee-123",
+            status: "accepted",
+            permission: { in: ["comment", "full"] },
+          },
+        })
+      );
+      expect(mockPrisma.journal_image_annotations.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            journal_entry_id: "entry-123",
+            kind: "hline",
+            shape: { y: 0.42 },
+            review_id: null,
+          }),
+        })
+      );
+      expect(result.data?.shape).toEqual({ kind: "hline", y: 0.42 });
+    });
+
+    it("should not let mentors without comment permission annotate", async () => {
+      mockPrisma.journal_images.findUnique.mockResolvedValue(image);
+      mockPrisma.mentor_invites.findFirst.mockResolvedValue(null);
+
+      const result = await prismaImageAnnotationRepo.create(input, "mentor-123");
+
+      expect(result.error?.code).toBe("AUTH_FORBIDDEN");
+      expect(mockPrisma.journal_image_annotations.create).not.toHaveBeenCalled();
+    });
+
+    it("should only tie the annotation to a review of the mentor on the same entry", async () => {
+      mockPrisma.journal_images.findUnique.mockResolvedValue(image);
+      mockPrisma.mentor_invites.findFirst.mockResolvedValue({ id: "invite-123" });
+      mockPrisma.mentor_reviews.findFirst.mockResolvedValue(null);
+
+      const result = await prismaImageAnnotationRepo.create(
+        { ...input, reviewId: "review-456" },
+        "mentor-123"
+      );
+
+      expect(mockPrisma.mentor_reviews.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: "review-456", mentor_id: "mentor-123", journal_entry_id: "entry-123" },
+        })
+      );
+      expect(result.error?.code).toBe("DB_NOT_FOUND");
+      expect(mockPrisma.journal_image_annotations.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("delete", () => {
+    it("should fail when the annotation is not the author's", async () => {
+      mockPrisma.journal_image_annotations.deleteMany.mockResolvedValue({ count: 0 });
+
+      const result = await prismaImageAnnotationRepo.delete("annotation-123", "mentee-123");
+
+      expect(mockPrisma.journal_image_annotations.deleteMany).toHaveBeenCalledWith({
+        where: { id: "annotation-123", author_id: "mentee-123" },
+      });
+      expect(result.error?.code).toBe("DB_NOT_FOUND");
+    });
+  });
+});
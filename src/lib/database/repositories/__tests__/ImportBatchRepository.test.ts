@@ -0,0 +1,273 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { createPrismaMock, createMockData, type PrismaMock } from "./prismaMock";
+
+// Mock Prisma client
+vi.mock("@/lib/database", () => ({
+  prisma: createPrismaMock(),
+}));
+
+// Import after mocking
+import { prisma } from "@/lib/database";
+import { Prisma } from "@/generated/prisma";
+import { prismaImportBatchRepo } from "../index";
+import type { ImportSnapshot } from "@/types";
+
+const snapshot = (overrides: Partial<ImportSnapshot> = {}): ImportSnapshot => ({
+  exitDate: "2025-01-13",
+  exitTime: "09:45:00",
+  exitPrice: 21510.25,
+  lot: 1,
+  pnl: 200,
+  commission: -4.5,
+  swap: null,
+  stopLoss: null,
+  takeProfit: null,
+  outcome: "win",
+  ...overrides,
+});
+
+describe("PrismaImportBatchRepository Unit Tests", () => {
+  let mockPrisma: PrismaMock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = prisma as unknown as PrismaMock;
+    mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockPrisma));
+    mockPrisma.accounts.findFirst.mockResolvedValue({ id: "account-123" });
+  });
+
+  describe("getByAccountId", () => {
+    it("should list the account's batches, most recent first", async () => {
+      mockPrisma.import_batches.findMany.mockResolvedValue([createMockData.importBatch()]);
+
+      const result = await prismaImportBatchRepo.getByAccountId("account-123", "user-123");
+
+      expect(mockPrisma.import_batches.findMany).toHaveBeenCalledWith({
+        where: { account_id: "account-123", user_id: "user-123" },
+        orderBy: { created_at: "desc" },
+      });
+      expect(result.data?.[0]).toMatchObject({
+        source: "ninjatrader",
+        fileName: "executions.csv",
+        status: "applied",
+        createdCount: 2,
+        rolledBackAt: undefined,
+      });
+    });
+  });
+
+  describe("apply", () => {
+    it("should create the batch, new trades and updates in one transaction", async () => {
+      mockPrisma.trades.findMany.mockResolvedValue([
+        {
+          id: "trade-1",
+          exit_date: new Date("2025-01-13"),
+          exit_time: "09:45:00",
+          exit_price: 21510.25,
+          lot: 1,
+          pnl: 200,
+          commission: -4.5,
+          swap: null,
+          stop_loss: null,
+          take_profit: null,
+          outcome: "win",
+          import_batch_id: "import-batch-old",
+          import_snapshot: snapshot(),
+          trade_legs: [],
+        },
+      ]);
+      mockPrisma.import_batches.create.mockResolvedValue(createMockData.importBatch());
+
+      const result = await prismaImportBatchRepo.apply({
+        userId: "user-123",
+        accountId: "account-123",
+        source: "ninjatrader",
+        fileName: "executions.csv",
+        creates: [
+          {
+            trade: { symbol: "ES", type: "Short", entryPrice: 6000, entryDate: "2025-01-14" },
+            snapshot: snapshot(),
+          },
+        ],
+        updates: [{ tradeId: "trade-1", snapshot: snapshot({ commission: -5 }) }],
+        skippedCount: 3,
+      });
+
+      expect(result.error).toBeNull();
+      expect(mockPrisma.trades.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.import_batches.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          created_count: 1,
+          updated_count: 1,
+          skipped_count: 3,
+          previous_values: [
+            expect.objectContaining({
+              tradeId: "trade-1",
+              values: expect.objectContaining({ commission: -4.5, exitDate: "2025-01-13" }),
+              importBatchId: "import-batch-old",
+            }),
+          ],
+        }),
+      });
+      expect(
+        mockPrisma.import_batches.create.mock.calls[0][0].data.previous_values[0]
+      ).not.toHaveProperty("legs");
+      expect(mockPrisma.trades.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            symbol: "ES",
+            account_id: "account-123",
+            user_id: "user-123",
+            import_batch_id: "import-batch-123",
+          }),
+        ],
+      });
+      expect(mockPrisma.trades.update).toHaveBeenCalledWith({
+        where: { id: "trade-1" },
+        data: expect.objectContaining({
+          commission: -5,
+          import_batches: { connect: { id: "import-batch-123" } },
+          import_snapshot: snapshot({ commission: -5 }),
+        }),
+      });
+    });
+
+    it("should clear the account first in replace mode", async () => {
+      mockPrisma.import_batches.create.mockResolvedValue(createMockData.importBatch());
+
+      await prismaImportBatchRepo.apply({
+        userId: "user-123",
+        accountId: "account-123",
+        source: "csv",
+        replaceExisting: true,
+        creates: [],
+        updates: [],
+        skippedCount: 0,
+      });
+
+      expect(mockPrisma.trades.deleteMany).toHaveBeenCalledWith({
+        where: { account_id: "account-123", user_id: "user-123" },
+      });
+      expect(mockPrisma.import_batches.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ replaced_existing: true }),
+      });
+    });
+
+    it("should not import into accounts of other users", async () => {
+      mockPrisma.accounts.findFirst.mockResolvedValue(null);
+
+      const result = await prismaImportBatchRepo.apply({
+        userId: "user-123",
+        accountId: "other-account",
+        source: "csv",
+        replaceExisting: true,
+        creates: [],
+        updates: [],
+        skippedCount: 0,
+      });
+
+      expect(mockPrisma.accounts.findFirst).toHaveBeenCalledWith({
+        where: { id: "other-account", user_id: "user-123" },
+        select: { id: true },
+      });
+      expect(result.error?.code).toBe("AUTH_FORBIDDEN");
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should fail when an updated trade is not in the account", async () => {
+      mockPrisma.trades.findMany.mockResolvedValue([]);
+
+      const result = await prismaImportBatchRepo.apply({
+        userId: "user-123",
+        accountId: "account-123",
+        source: "csv",
+        creates: [],
+        updates: [{ tradeId: "other-trade", snapshot: snapshot() }],
+        skippedCount: 0,
+      });
+
+      expect(result.error?.code).toBe("DB_NOT_FOUND");
+      expect(mockPrisma.import_batches.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("rollback", () => {
+    it("should delete created trades and restore updated ones", async () => {
+      const previous = {
+        tradeId: "trade-1",
+        values: snapshot({ commission: -4.5 }),
+        importBatchId: null,
+        importSnapshot: null,
+      };
+      mockPrisma.import_batches.findUnique.mockResolvedValue(
+        createMockData.importBatch({ previous_values: [previous] })
+      );
+      mockPrisma.trades.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.import_batches.update.mockResolvedValue(
+        createMockData.importBatch({ status: "rolled_back", rolled_back_at: new Date() })
+      );
+
+      const result = await prismaImportBatchRepo.rollback("import-batch-123", "user-123");
+
+      expect(mockPrisma.trades.deleteMany).toHaveBeenCalledWith({
+        where: {
+          import_batch_id: "import-batch-123",
+          user_id: "user-123",
+          id: { notIn: ["trade-1"] },
+        },
+      });
+      expect(mockPrisma.trades.updateMany).toHaveBeenCalledWith({
+        where: { id: "trade-1", import_batch_id: "import-batch-123" },
+        data: expect.objectContaining({
+          commission: -4.5,
+          import_batch_id: null,
+          import_snapshot: Prisma.DbNull,
+        }),
+      });
+      expect(result.data?.status).toBe("rolled_back");
+    });
+
+    it("should skip malformed stored values", async () => {
+      mockPrisma.import_batches.findUnique.mockResolvedValue(
+        createMockData.importBatch({
+          previous_values: [
+            { values: snapshot() },
+            { tradeId: "trade-1", values: snapshot(), legs: [{ side: "entry", price: "x" }] },
+          ],
+        })
+      );
+      mockPrisma.trades.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.import_batches.update.mockResolvedValue(
+        createMockData.importBatch({ status: "rolled_back", rolled_back_at: new Date() })
+      );
+
+      await prismaImportBatchRepo.rollback("import-batch-123", "user-123");
+
+      expect(mockPrisma.trades.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.trade_legs.createMany).toHaveBeenCalledWith({ data: [] });
+    });
+
+    it("should reject batches of other users, already rolled back or that replaced the account", async () => {
+      mockPrisma.import_batches.findUnique.mockResolvedValue(
+        createMockData.importBatch({ user_id: "other-user" })
+      );
+      const forbidden = await prismaImportBatchRepo.rollback("import-batch-123", "user-123");
+      expect(forbidden.error?.code).toBe("AUTH_FORBIDDEN");
+
+      mockPrisma.import_batches.findUnique.mockResolvedValue(
+        createMockData.importBatch({ status: "rolled_back" })
+      );
+      const repeated = await prismaImportBatchRepo.rollback("import-batch-123", "user-123");
+      expect(repeated.error?.code).toBe("VALIDATION_ERROR");
+
+      mockPrisma.import_batches.findUnique.mockResolvedValue(
+        createMockData.importBatch({ replaced_existing: true })
+      );
+      const replaced = await prismaImportBatchRepo.rollback("import-batch-123", "user-123");
+      expect(replaced.error?.code).toBe("VALIDATION_ERROR");
+
+      expect(mockPrisma.trades.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
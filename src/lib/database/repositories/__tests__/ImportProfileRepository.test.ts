@@ -0,0 +1,95 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { createPrismaMock, createMockData, type PrismaMock } from "./prismaMock";
+
+// Mock Prisma client
+vi.mock("@/lib/database", () => ({
+  prisma: createPrismaMock(),
+}));
+
+// Import after mocking
+import { prisma } from "@/lib/database";
+import { prismaImportProfileRepo } from "../index";
+
+describe("PrismaImportProfileRepository Unit Tests", () => {
+  let mockPrisma: PrismaMock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = prisma as unknown as PrismaMock;
+  });
+
+  describe("getByUserId", () => {
+    it("should map settings JSON and fill missing mapping fields", async () => {
+      mockPrisma.import_profiles.findMany.mockResolvedValue([createMockData.importProfile()]);
+
+      const result = await prismaImportProfileRepo.getByUserId("user-123");
+
+      expect(mockPrisma.import_profiles.findMany).toHaveBeenCalledWith({
+        where: { user_id: "user-123" },
+        orderBy: { updated_at: "desc" },
+      });
+      expect(result.data?.[0]).toMatchObject({
+        name: "Corretora XP",
+        decimalSeparator: ",",
+        symbolMap: { WINZ25: "WIN" },
+        mapping: { entryDate: "Data", exitDate: "" },
+      });
+    });
+  });
+
+  describe("save", () => {
+    it("should upsert by user and name", async () => {
+      mockPrisma.import_profiles.upsert.mockResolvedValue(createMockData.importProfile());
+
+      const profile = {
+        userId: "user-123",
+        name: "Corretora XP",
+        headerFingerprint: "5-1a2b3c4d",
+        headers: ["Data", "Ativo", "Lado", "Qtd", "Preço"],
+        mapping: {
+          entryDate: "Data",
+          symbol: "Ativo",
+          direction: "Lado",
+          volume: "Qtd",
+          entryPrice: "Preço",
+          exitDate: "",
+          exitPrice: "",
+          profit: "",
+          commission: "",
+          swap: "",
+          sl: "",
+          tp: "",
+        },
+        dateFormat: "DD/MM/YYYY HH:mm",
+        timezone: "America/Sao_Paulo",
+        decimalSeparator: "," as const,
+        symbolMap: { WINZ25: "WIN" },
+        directionVocabulary: { long: ["C"], short: ["V"] },
+      };
+
+      const result = await prismaImportProfileRepo.save(profile);
+
+      expect(mockPrisma.import_profiles.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { user_id_name: { user_id: "user-123", name: "Corretora XP" } },
+          create: expect.objectContaining({
+            user_id: "user-123",
+            header_fingerprint: "5-1a2b3c4d",
+            settings: expect.objectContaining({ decimalSeparator: "," }),
+          }),
+        })
+      );
+      expect(result.data?.id).toBe("import-profile-123");
+    });
+  });
+
+  describe("delete", () => {
+    it("should return not found when the profile is not owned by the user", async () => {
+      mockPrisma.import_profiles.deleteMany.mockResolvedValue({ count: 0 });
+
+      const result = await prismaImportProfileRepo.delete("import-profile-123", "other-user");
+
+      expect(result.error?.code).toBe("DB_NOT_FOUND");
+    });
+  });
+});
@@ -124,6 +124,81 @@ describe("PrismaMentorRepository Unit Tests", () => {
     });
   });
 
+  describe("getCohortActivity", () => {
+    it("should only include trades and journal days of the permitted accounts", async () => {
+      mockPrisma.mentor_invites.findMany.mockResolvedValue([
+        {
+          id: "inv-1",
+          mentee_id: "mentee-1",
+          mentee_email: "mentee1@test.com",
+          mentor_account_permissions: [
+            { account_id: "acc-1", can_view_trades: true, can_view_journal: false },
+          ],
+          users_mentor_invites_mentee_idTousers: { profiles: null },
+        },
+      ]);
+      mockPrisma.trades.findMany.mockResolvedValue([
+        {
+          user_id: "mentee-1",
+          account_id: "acc-1",
+          entry_date: new Date("2026-10-01"),
+          pnl: "150.5",
+          outcome: "win",
+          r_multiple: "1.5",
+          plan_adherence: "100%",
+          rule_compliance: { followed: ["stop"], broken: [] },
+        },
+        {
+          user_id: "mentee-1",
+          account_id: "acc-2",
+          entry_date: new Date("2026-10-02"),
+          pnl: "-80",
+          outcome: "loss",
+          r_multiple: null,
+          plan_adherence: null,
+          rule_compliance: null,
+        },
+      ]);
+      mockPrisma.journal_entries.findMany.mockResolvedValue([
+        { user_id: "mentee-1", account_id: "acc-1", date: new Date("2026-10-01") },
+      ]);
+
+      const result = await prismaMentorRepo.getCohortActivity("mentor-1", "2026-08-20");
+
+      expect(mockPrisma.trades.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { user_id: { in: ["mentee-1"] }, entry_date: { gte: new Date("2026-08-20") } },
+        })
+      );
+      expect(result.data).toEqual([
+        {
+          menteeId: "mentee-1",
+          menteeName: "mentee1",
+          trades: [
+            {
+              entryDate: "2026-10-01",
+              pnl: 150.5,
+              outcome: "win",
+              rMultiple: 1.5,
+              planAdherence: "100%",
+              ruleCompliance: { followed: ["stop"], broken: [] },
+            },
+          ],
+          journalDates: [],
+        },
+      ]);
+    });
+
+    it("should not query trades when there are no accepted mentees", async () => {
+      mockPrisma.mentor_invites.findMany.mockResolvedValue([]);
+
+      const result = await prismaMentorRepo.getCohortActivity("mentor-1", "2026-08-20");
+
+      expect(result.data).toEqual([]);
+      expect(mockPrisma.trades.findMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe("createInvite", () => {
     it("should create a new invitation", async () => {
       mockPrisma.mentor_invites.findFirst.mockResolvedValue(null);
@@ -0,0 +1,114 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { createPrismaMock, createMockData, type PrismaMock } from "./prismaMock";
+
+// Mock Prisma client
+vi.mock("@/lib/database", () => ({
+  prisma: createPrismaMock(),
+}));
+
+// Import after mocking
+import { prisma } from "@/lib/database";
+import { prismaNotificationRepo } from "../index";
+
+describe("PrismaNotificationRepository Unit Tests", () => {
+  let mockPrisma: PrismaMock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = prisma as unknown as PrismaMock;
+  });
+
+  describe("getByUserId", () => {
+    it("should page the unread inbox and map read/archive state", async () => {
+      mockPrisma.notifications.findMany.mockResolvedValue([createMockData.notification()]);
+      mockPrisma.notifications.count.mockResolvedValue(25);
+
+      const result = await prismaNotificationRepo.getByUserId("user-123", {
+        filter: "unread",
+        limit: 10,
+        offset: 20,
+      });
+
+      expect(mockPrisma.notifications.findMany).toHaveBeenCalledWith({
+        where: { user_id: "user-123", archived_at: null, read_at: null },
+        orderBy: { created_at: "desc" },
+        take: 10,
+        skip: 20,
+      });
+      expect(result.data?.count).toBe(25);
+      expect(result.data?.data[0]).toMatchObject({
+        id: "notification-123",
+        type: "feedback",
+        read: false,
+        archived: false,
+        data: { reviewId: "review-123" },
+      });
+    });
+
+    it("should only list archived notifications in the archive", async () => {
+      await prismaNotificationRepo.getByUserId("user-123", { filter: "archived" });
+
+      expect(mockPrisma.notifications.count).toHaveBeenCalledWith({
+        where: { user_id: "user-123", archived_at: { not: null } },
+      });
+    });
+  });
+
+  describe("setRead", () => {
+    it("should clear read_at when marking as unread", async () => {
+      mockPrisma.notifications.findFirst.mockResolvedValue(
+        createMockData.notification({ read_at: new Date() })
+      );
+      mockPrisma.notifications.update.mockResolvedValue(createMockData.notification());
+
+      const result = await prismaNotificationRepo.setRead("notification-123", "user-123", false);
+
+      expect(mockPrisma.notifications.update).toHaveBeenCalledWith({
+        where: { id: "notification-123" },
+        data: { read_at: null },
+      });
+      expect(result.data?.read).toBe(false);
+    });
+
+    it("should return not found for notifications of other users", async () => {
+      mockPrisma.notifications.findFirst.mockResolvedValue(null);
+
+      const result = await prismaNotificationRepo.setRead("notification-123", "other-user", true);
+
+      expect(result.error).toBeTruthy();
+      expect(mockPrisma.notifications.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("markAllRead", () => {
+    it("should mark the unread inbox and return how many changed", async () => {
+      mockPrisma.notifications.updateMany.mockResolvedValue({ count: 3 });
+
+      const result = await prismaNotificationRepo.markAllRead("user-123");
+
+      expect(mockPrisma.notifications.updateMany).toHaveBeenCalledWith({
+        where: { user_id: "user-123", archived_at: null, read_at: null },
+        data: { read_at: expect.any(Date) },
+      });
+      expect(result.data).toBe(3);
+    });
+  });
+
+  describe("archive", () => {
+    it("should archive and mark as read", async () => {
+      const archivedAt = new Date();
+      mockPrisma.notifications.findFirst.mockResolvedValue(createMockData.notification());
+      mockPrisma.notifications.update.mockResolvedValue(
+        createMockData.notification({ archived_at: archivedAt, read_at: archivedAt })
+      );
+
+      const result = await prismaNotificationRepo.archive("notification-123", "user-123");
+
+      expect(mockPrisma.notifications.update).toHaveBeenCalledWith({
+        where: { id: "notification-123" },
+        data: { archived_at: expect.any(Date), read_at: expect.any(Date) },
+      });
+      expect(result.data).toMatchObject({ archived: true, read: true });
+    });
+  });
+});
@@ -1,6 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { vi, describe, it, expect, beforeEach } from "vitest";
-import { createPrismaMock, type PrismaMock } from "./prismaMock";
+import { createMockData, createPrismaMock, type PrismaMock } from "./prismaMock";
 
 // Mock Prisma client
 vi.mock("@/lib/database", () => ({
@@ -64,12 +64,102 @@ describe("PrismaPlaybookRepository Unit Tests", () => {
         data: expect.objectContaining({
           users: { connect: { id: "user-123" } },
           name: "New Strategy",
+          current_version: 1,
+          playbook_versions: {
+            create: expect.objectContaining({ user_id: "user-123", version: 1 }),
+          },
         }),
       });
       expect(result.data?.id).toBe("pb-new");
     });
   });
 
+  describe("update", () => {
+    const existing = {
+      id: "pb-1",
+      user_id: "user-123",
+      name: "My Strategy",
+      description: null,
+      icon: "📈",
+      color: "#3B82F6",
+      rule_groups: [{ id: "entry", name: "Entrada", rules: ["Esperar FVG"] }],
+      current_version: 2,
+    };
+
+    it("should create a new version when the rules change", async () => {
+      mockPrisma.playbooks.findUnique.mockResolvedValue(existing as any);
+      mockPrisma.playbooks.update.mockResolvedValue({ ...existing, current_version: 3 } as any);
+
+      const ruleGroups = [{ id: "entry", name: "Entrada", rules: ["Esperar FVG", "Stop técnico"] }];
+      const result = await prismaPlaybookRepo.update(
+        "pb-1",
+        "user-123",
+        { ruleGroups },
+        "Stop técnico obrigatório"
+      );
+
+      expect(mockPrisma.playbooks.update).toHaveBeenCalledWith({
+        where: { id: "pb-1" },
+        data: expect.objectContaining({
+          current_version: 3,
+          playbook_versions: {
+            create: expect.objectContaining({
+              user_id: "user-123",
+              version: 3,
+              name: "My Strategy",
+              rule_groups: ruleGroups,
+              changelog: "Stop técnico obrigatório",
+            }),
+          },
+        }),
+      });
+      expect(result.data?.currentVersion).toBe(3);
+    });
+
+    it("should update cosmetic fields in place", async () => {
+      mockPrisma.playbooks.findUnique.mockResolvedValue(existing as any);
+      mockPrisma.playbooks.update.mockResolvedValue({ ...existing, icon: "🎯" } as any);
+
+      await prismaPlaybookRepo.update("pb-1", "user-123", {
+        icon: "🎯",
+        ruleGroups: existing.rule_groups,
+      });
+
+      const { data } = mockPrisma.playbooks.update.mock.calls[0][0] as any;
+      expect(data.icon).toBe("🎯");
+      expect(data.current_version).toBeUndefined();
+      expect(data.playbook_versions).toBeUndefined();
+    });
+
+    it("should reject playbooks of other users", async () => {
+      mockPrisma.playbooks.findUnique.mockResolvedValue({ ...existing, user_id: "other" } as any);
+
+      const result = await prismaPlaybookRepo.update("pb-1", "user-123", { name: "X" });
+
+      expect(result.error).toBeTruthy();
+      expect(mockPrisma.playbooks.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getVersions", () => {
+    it("should return the versions newest first", async () => {
+      mockPrisma.playbook_versions.findMany.mockResolvedValue([
+        createMockData.playbookVersion({ id: "pbv-2", version: 2, changelog: "Nova regra" }),
+        createMockData.playbookVersion(),
+      ] as any);
+
+      const result = await prismaPlaybookRepo.getVersions("pb-123", "user-123");
+
+      expect(mockPrisma.playbook_versions.findMany).toHaveBeenCalledWith({
+        where: { playbook_id: "pb-123", user_id: "user-123" },
+        orderBy: { version: "desc" },
+      });
+      expect(result.data?.map((v) => v.version)).toEqual([2, 1]);
+      expect(result.data?.[0].changelog).toBe("Nova regra");
+      expect(result.data?.[1].changelog).toBeUndefined();
+    });
+  });
+
   describe("getById", () => {
     it("should return playbook if owned by user", async () => {
       const mockPlaybook = { id: "pb-1", user_id: "user-123", name: "My Strategy" };
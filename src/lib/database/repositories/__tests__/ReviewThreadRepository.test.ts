@@ -0,0 +1,173 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { createPrismaMock, createMockData, type PrismaMock } from "./prismaMock";
+
+// Mock Prisma client
+vi.mock("@/lib/database", () => ({
+  prisma: createPrismaMock(),
+}));
+
+// Import after mocking
+import { prisma } from "@/lib/database";
+import { prismaReviewThreadRepo } from "../index";
+
+describe("PrismaReviewThreadRepository Unit Tests", () => {
+  let mockPrisma: PrismaMock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = prisma as unknown as PrismaMock;
+  });
+
+  describe("getParticipantReview", () => {
+    it("should only find reviews the user takes part in", async () => {
+      mockPrisma.mentor_reviews.findFirst.mockResolvedValue(null);
+
+      const result = await prismaReviewThreadRepo.getParticipantReview("review-123", "stranger");
+
+      expect(mockPrisma.mentor_reviews.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            id: "review-123",
+            OR: [{ mentor_id: "stranger" }, { mentee_id: "stranger" }],
+          },
+        })
+      );
+      expect(result.error?.code).toBe("DB_NOT_FOUND");
+    });
+  });
+
+  describe("getReplies", () => {
+    it("should map replies with the author name", async () => {
+      mockPrisma.mentor_review_replies.findMany.mockResolvedValue([createMockData.reviewReply()]);
+
+      const result = await prismaReviewThreadRepo.getReplies(["review-123"], "mentor-123");
+
+      expect(result.data).toEqual([
+        expect.objectContaining({ id: "reply-123", authorName: "joao", content: "Entendi" }),
+      ]);
+    });
+
+    it("should not query without reviews", async () => {
+      const result = await prismaReviewThreadRepo.getReplies([], "mentor-123");
+
+      expect(result.data).toEqual([]);
+      expect(mockPrisma.mentor_review_replies.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getAuthorReply", () => {
+    it("should only find replies of the author", async () => {
+      mockPrisma.mentor_review_replies.findFirst.mockResolvedValue(null);
+
+      const result = await prismaReviewThreadRepo.getAuthorReply("reply-123", "stranger");
+
+      expect(mockPrisma.mentor_review_replies.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "reply-123", author_id: "stranger" } })
+      );
+      expect(result.error?.code).toBe("DB_NOT_FOUND");
+    });
+  });
+
+  describe("getMentionCandidates", () => {
+    it("should list the mentee and their accepted mentors once", async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({ email: "joao@example.com" });
+      mockPrisma.mentor_invites.findMany.mockResolvedValue([
+        { mentor_id: "mentor-123", mentor_email: "Ana@example.com" },
+        { mentor_id: "mentor-123", mentor_email: "ana@example.com" },
+      ]);
+
+      const result = await prismaReviewThreadRepo.getMentionCandidates("mentee-123");
+
+      expect(result.data).toEqual([
+        { userId: "mentee-123", handle: "joao" },
+        { userId: "mentor-123", handle: "ana" },
+      ]);
+    });
+  });
+
+  describe("updateReply", () => {
+    it("should keep the previous text in the history", async () => {
+      mockPrisma.mentor_review_replies.findFirst.mockResolvedValue(createMockData.reviewReply());
+      mockPrisma.$transaction.mockResolvedValue([
+        {},
+        createMockData.reviewReply({ content: "Entendi, obrigado" }),
+        {},
+      ]);
+
+      const result = await prismaReviewThreadRepo.updateReply(
+        "reply-123",
+        "mentee-123",
+        "Entendi, obrigado",
+        []
+      );
+
+      expect(mockPrisma.mentor_review_edits.create).toHaveBeenCalledWith({
+        data: {
+          review_id: "review-123",
+          reply_id: "reply-123",
+          editor_id: "mentee-123",
+          previous_content: "Entendi",
+        },
+      });
+      expect(result.data?.content).toBe("Entendi, obrigado");
+    });
+
+    it("should not edit replies of other users", async () => {
+      mockPrisma.mentor_review_replies.findFirst.mockResolvedValue(null);
+
+      const result = await prismaReviewThreadRepo.updateReply("reply-123", "mentor-123", "x", []);
+
+      expect(result.error).toBeDefined();
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateReviewContent", () => {
+    it("should skip the history when the text did not change", async () => {
+      mockPrisma.mentor_reviews.findFirst.mockResolvedValue(createMockData.mentorReview());
+
+      const result = await prismaReviewThreadRepo.updateReviewContent(
+        "review-123",
+        "mentor-123",
+        "Good trade"
+      );
+
+      expect(result.data?.content).toBe("Good trade");
+      expect(mockPrisma.mentor_review_edits.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getInbox", () => {
+    it("should list unresolved threads and flag those waiting for the mentor", async () => {
+      mockPrisma.mentor_reviews.findMany.mockResolvedValue([
+        {
+          ...createMockData.mentorReview(),
+          users_mentor_reviews_mentee_idTousers: {
+            email: "joao@example.com",
+            profiles: { display_name: "João" },
+          },
+          mentor_review_replies: [createMockData.reviewReply()],
+          _count: { mentor_review_replies: 3 },
+        },
+        {
+          ...createMockData.mentorReview({ id: "review-456" }),
+          users_mentor_reviews_mentee_idTousers: { email: "maria@example.com", profiles: null },
+          mentor_review_replies: [],
+          _count: { mentor_review_replies: 0 },
+        },
+      ]);
+
+      const result = await prismaReviewThreadRepo.getInbox("mentor-123");
+
+      expect(mockPrisma.mentor_reviews.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { mentor_id: "mentor-123", status: { not: "resolved" } },
+        })
+      );
+      expect(result.data?.map((i) => [i.menteeName, i.replyCount, i.awaitingMentor])).toEqual([
+        ["João", 3, true],
+        ["maria", 0, false],
+      ]);
+    });
+  });
+});
@@ -42,6 +42,13 @@ describe("PrismaSettingsRepository Unit Tests", () => {
         assets: { EURUSD: 1.0, GBPUSD: 1.5 },
         strategies: ["Scalping", "Swing"],
         setups: ["Breakout", "Reversal"],
+        broker_fees: null,
+        session_settings: null,
+        news_settings: null,
+        sizing_settings: null,
+        notification_settings: null,
+        digest_settings: null,
+        digest_sent_at: null,
         created_at: new Date("2024-01-01"),
         updated_at: new Date("2024-01-02"),
       };
@@ -81,6 +88,13 @@ describe("PrismaSettingsRepository Unit Tests", () => {
         assets: { EURUSD: 2.0 },
         strategies: ["Day Trading"],
         setups: ["Support"],
+        broker_fees: null,
+        session_settings: null,
+        news_settings: null,
+        sizing_settings: null,
+        notification_settings: null,
+        digest_settings: null,
+        digest_sent_at: null,
         created_at: new Date("2024-01-01"),
         updated_at: new Date("2024-01-02"),
       };
@@ -133,6 +147,13 @@ describe("PrismaSettingsRepository Unit Tests", () => {
         assets: { EURUSD: 1.0, GBPUSD: 1.5 },
         strategies: ["Scalping"],
         setups: ["Breakout"],
+        broker_fees: null,
+        session_settings: null,
+        news_settings: null,
+        sizing_settings: null,
+        notification_settings: null,
+        digest_settings: null,
+        digest_sent_at: null,
         created_at: new Date("2024-01-01"),
         updated_at: new Date("2024-01-02"),
       };
@@ -152,6 +173,17 @@ describe("PrismaSettingsRepository Unit Tests", () => {
         ],
         strategies: ["Scalping"],
         setups: ["Breakout"],
+        brokerFees: { brokers: [] },
+        sessionSettings: { timezone: "America/Sao_Paulo", customSessions: [] },
+        newsSettings: { minutesBefore: 30, minutesAfter: 30, impacts: ["high", "medium"] },
+        sizingSettings: {
+          method: "fixed_fractional",
+          riskPercent: 1,
+          riskAmount: 100,
+          kellyFraction: 0.25,
+        },
+        notificationSettings: { disabledTypes: [] },
+        digestSettings: { frequency: "off", channels: ["email"] },
         created_at: expect.any(String),
         updated_at: expect.any(String),
       });
@@ -189,6 +221,13 @@ describe("PrismaSettingsRepository Unit Tests", () => {
         assets: { EURUSD: 1.0 },
         strategies: ["Scalping"],
         setups: ["Breakout"],
+        broker_fees: null,
+        session_settings: null,
+        news_settings: null,
+        sizing_settings: null,
+        notification_settings: null,
+        digest_settings: null,
+        digest_sent_at: null,
         created_at: new Date(),
         updated_at: new Date(),
       };
@@ -219,6 +258,13 @@ describe("PrismaSettingsRepository Unit Tests", () => {
         assets: { EURUSD: 2.0 },
         strategies: ["Day Trading"],
         setups: ["Support"],
+        broker_fees: null,
+        session_settings: null,
+        news_settings: null,
+        sizing_settings: null,
+        notification_settings: null,
+        digest_settings: null,
+        digest_sent_at: null,
         created_at: new Date("2024-01-01"),
         updated_at: new Date(),
       };
@@ -262,6 +308,13 @@ describe("PrismaSettingsRepository Unit Tests", () => {
         assets: { EURUSD: 1.0, GBPUSD: 1.5 },
         strategies: ["Scalping"],
         setups: ["Breakout"],
+        broker_fees: null,
+        session_settings: null,
+        news_settings: null,
+        sizing_settings: null,
+        notification_settings: null,
+        digest_settings: null,
+        digest_sent_at: null,
         created_at: new Date(),
         updated_at: new Date(),
       };
@@ -297,6 +350,13 @@ describe("PrismaSettingsRepository Unit Tests", () => {
         assets: { EURUSD: 2.0 },
         strategies: ["Day Trading"],
         setups: ["Support"],
+        broker_fees: null,
+        session_settings: null,
+        news_settings: null,
+        sizing_settings: null,
+        notification_settings: null,
+        digest_settings: null,
+        digest_sent_at: null,
         created_at: new Date("2024-01-01"),
         updated_at: new Date(),
       };
@@ -0,0 +1,111 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { createPrismaMock, createMockData, type PrismaMock } from "./prismaMock";
+
+// Mock Prisma client
+vi.mock("@/lib/database", () => ({
+  prisma: createPrismaMock(),
+}));
+
+// Import after mocking
+import { prisma } from "@/lib/database";
+import { prismaTradePlanRepo } from "../index";
+
+describe("PrismaTradePlanRepository Unit Tests", () => {
+  let mockPrisma: PrismaMock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma = prisma as unknown as PrismaMock;
+  });
+
+  describe("getByAccountId", () => {
+    it("should filter by status and map decimals", async () => {
+      mockPrisma.trade_plans.findMany.mockResolvedValue([createMockData.tradePlan()]);
+
+      const result = await prismaTradePlanRepo.getByAccountId("account-123", "user-123", "planned");
+
+      expect(mockPrisma.trade_plans.findMany).toHaveBeenCalledWith({
+        where: { account_id: "account-123", user_id: "user-123", status: "planned" },
+        orderBy: { created_at: "desc" },
+      });
+      expect(result.data?.[0]).toMatchObject({
+        symbol: "EURUSD",
+        plannedEntry: 1.085,
+        plannedStop: 1.082,
+        checkedRules: ["Tendência no H4", "FVG no M5"],
+        tradeId: undefined,
+        notes: undefined,
+      });
+    });
+  });
+
+  describe("create", () => {
+    it("should store the plan levels and arguments", async () => {
+      mockPrisma.trade_plans.create.mockResolvedValue(createMockData.tradePlan());
+
+      const result = await prismaTradePlanRepo.create("user-123", {
+        accountId: "account-123",
+        symbol: "EURUSD",
+        type: "Long",
+        plannedEntry: 1.085,
+        plannedStop: 1.082,
+        plannedTarget: 1.091,
+        plannedLot: 1,
+        checkedRules: ["Tendência no H4"],
+        totalRules: 3,
+        bullishArgs: ["Sweep de liquidez"],
+        bearishArgs: [],
+      });
+
+      expect(mockPrisma.trade_plans.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: "user-123",
+          account_id: "account-123",
+          planned_entry: 1.085,
+          checked_rules: ["Tendência no H4"],
+        }),
+      });
+      expect(result.data?.id).toBe("plan-123");
+    });
+  });
+
+  describe("linkTrade", () => {
+    it("should mark the plan as executed by the trade", async () => {
+      mockPrisma.trade_plans.findFirst.mockResolvedValue(createMockData.tradePlan());
+      mockPrisma.trade_plans.update.mockResolvedValue(
+        createMockData.tradePlan({ trade_id: "trade-123", status: "executed" })
+      );
+
+      const result = await prismaTradePlanRepo.linkTrade("plan-123", "user-123", "trade-123");
+
+      expect(mockPrisma.trade_plans.update).toHaveBeenCalledWith({
+        where: { id: "plan-123" },
+        data: expect.objectContaining({ trade_id: "trade-123", status: "executed" }),
+      });
+      expect(result.data).toMatchObject({ tradeId: "trade-123", status: "executed" });
+    });
+
+    it("should return not found for plans of other users", async () => {
+      mockPrisma.trade_plans.findFirst.mockResolvedValue(null);
+
+      const result = await prismaTradePlanRepo.linkTrade("plan-123", "other-user", "trade-123");
+
+      expect(result.error).toBeTruthy();
+      expect(mockPrisma.trade_plans.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cancel", () => {
+    it("should only cancel plans still waiting to be traded", async () => {
+      mockPrisma.trade_plans.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await prismaTradePlanRepo.cancel("plan-123", "user-123");
+
+      expect(mockPrisma.trade_plans.updateMany).toHaveBeenCalledWith({
+        where: { id: "plan-123", user_id: "user-123", status: "planned" },
+        data: expect.objectContaining({ status: "cancelled" }),
+      });
+      expect(result.error).toBeTruthy();
+    });
+  });
+});
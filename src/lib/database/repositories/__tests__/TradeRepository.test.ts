@@ -9,6 +9,7 @@ vi.mock("@/lib/database", () => ({
 
 // Import after mocking
 import { prisma } from "@/lib/database";
+import { Prisma } from "@/generated/prisma";
 import { prismaTradeRepo } from "../index";
 
 describe("PrismaTradeRepository Unit Tests", () => {
@@ -31,11 +32,44 @@ describe("PrismaTradeRepository Unit Tests", () => {
         take: 10,
         skip: undefined,
         orderBy: [{ entry_date: "desc" }, { entry_time: "desc" }],
+        include: { trade_legs: { orderBy: [{ executed_date: "asc" }, { executed_time: "asc" }] } },
       });
       expect(result.data).toHaveLength(2);
       expect(result.error).toBeNull();
     });
 
+    it("should map the legs of multi-leg trades", async () => {
+      mockPrisma.trades.findMany.mockResolvedValue([
+        {
+          ...createMockData.trade(),
+          trade_legs: [
+            {
+              id: "leg-1",
+              trade_id: "trade-123",
+              side: "entry",
+              price: 1.1,
+              quantity: 1,
+              executed_date: new Date("2024-01-15"),
+              executed_time: "10:00",
+              pnl: null,
+              created_at: null,
+            },
+          ],
+        },
+      ]);
+
+      const result = await prismaTradeRepo.getByAccountId("account-123", "user-123");
+
+      expect(result.data?.[0].legs).toEqual([
+        expect.objectContaining({
+          id: "leg-1",
+          side: "entry",
+          price: 1.1,
+          executedDate: "2024-01-15",
+        }),
+      ]);
+    });
+
     it("should handle errors", async () => {
       mockPrisma.trades.findMany.mockRejectedValue(new Error("DB Error"));
       const result = await prismaTradeRepo.getByAccountId("account-123", "user-123");
@@ -91,6 +125,44 @@ describe("PrismaTradeRepository Unit Tests", () => {
       const result = await prismaTradeRepo.createMany([{ symbol: "A" }] as any);
       expect(result.data?.count).toBe(5);
     });
+
+    it("should create legs in the same transaction", async () => {
+      mockPrisma.$transaction.mockResolvedValue([{ count: 1 }, { count: 2 }]);
+      const result = await prismaTradeRepo.createMany([
+        {
+          id: "trade-1",
+          symbol: "MNQ",
+          legs: [
+            {
+              id: "leg-1",
+              tradeId: "trade-1",
+              side: "entry",
+              price: 18000,
+              quantity: 1,
+              executedDate: "2024-03-12",
+            },
+            {
+              id: "leg-2",
+              tradeId: "trade-1",
+              side: "exit",
+              price: 18010,
+              quantity: 1,
+              executedDate: "2024-03-12",
+              pnl: 20,
+            },
+          ],
+        },
+      ] as any);
+
+      expect(result.data?.count).toBe(1);
+      expect(mockPrisma.trade_legs.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ id: "leg-1", trade_id: "trade-1", side: "entry" }),
+          expect.objectContaining({ id: "leg-2", trade_id: "trade-1", side: "exit" }),
+        ],
+        skipDuplicates: true,
+      });
+    });
   });
 
   describe("createWithJournal", () => {
@@ -129,6 +201,35 @@ describe("PrismaTradeRepository Unit Tests", () => {
       const result = await prismaTradeRepo.update("trade-123", "user-123", { pnl: 100 });
       expect(result.data?.pnl).toBe(100);
     });
+
+    it("should store rule compliance and clear it when no rule is marked", async () => {
+      mockPrisma.trades.findUnique.mockResolvedValue({ user_id: "user-123" });
+      mockPrisma.trades.update.mockResolvedValue(
+        createMockData.trade({ rule_compliance: { followed: ["Stop técnico"], broken: [] } })
+      );
+
+      const result = await prismaTradeRepo.update("trade-123", "user-123", {
+        ruleCompliance: { followed: ["Stop técnico"], broken: [] },
+      });
+
+      expect(mockPrisma.trades.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            rule_compliance: { followed: ["Stop técnico"], broken: [] },
+          }),
+        })
+      );
+      expect(result.data?.ruleCompliance).toEqual({ followed: ["Stop técnico"], broken: [] });
+
+      await prismaTradeRepo.update("trade-123", "user-123", {
+        ruleCompliance: { followed: [], broken: [] },
+      });
+      expect(mockPrisma.trades.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ rule_compliance: Prisma.DbNull }),
+        })
+      );
+    });
   });
 
   describe("delete", () => {
@@ -45,6 +45,7 @@ export function createPrismaMock() {
     laboratory_images: createMockQueryBuilder("laboratory_images"),
     laboratory_recaps: createMockQueryBuilder("laboratory_recaps"),
     laboratory_recap_trades: createMockQueryBuilder("laboratory_recap_trades"),
+    laboratory_experiment_trades: createMockQueryBuilder("laboratory_experiment_trades"),
 
     // Admin models
     users: createMockQueryBuilder("users"),
@@ -57,16 +58,26 @@ export function createPrismaMock() {
     user_settings: createMockQueryBuilder("user_settings"),
     settings: createMockQueryBuilder("settings"),
     trades: createMockQueryBuilder("trades"),
+    trade_legs: createMockQueryBuilder("trade_legs"),
+    trade_plans: createMockQueryBuilder("trade_plans"),
+    prop_rule_breaches: createMockQueryBuilder("prop_rule_breaches"),
     journal_entries: createMockQueryBuilder("journal_entries"),
     journal_images: createMockQueryBuilder("journal_images"),
+    journal_image_annotations: createMockQueryBuilder("journal_image_annotations"),
     journal_entry_trades: createMockQueryBuilder("journal_entry_trades"),
     playbooks: createMockQueryBuilder("playbooks"),
     daily_routines: createMockQueryBuilder("daily_routines"),
+    import_profiles: createMockQueryBuilder("import_profiles"),
+    import_batches: createMockQueryBuilder("import_batches"),
     mentor_reviews: createMockQueryBuilder("mentor_reviews"),
+    mentor_review_replies: createMockQueryBuilder("mentor_review_replies"),
+    mentor_review_edits: createMockQueryBuilder("mentor_review_edits"),
+    notifications: createMockQueryBuilder("notifications"),
 
     // Community models
     shared_playbooks: createMockQueryBuilder("shared_playbooks"),
     playbook_stars: createMockQueryBuilder("playbook_stars"),
+    playbook_versions: createMockQueryBuilder("playbook_versions"),
     leaderboard_opt_in: createMockQueryBuilder("leaderboard_opt_in"),
 
     // Mentor models
@@ -255,6 +266,19 @@ export const createMockData = {
     ...overrides,
   }),
 
+  playbookVersion: (overrides = {}) => ({
+    id: "pbv-123",
+    playbook_id: "pb-123",
+    user_id: "user-123",
+    version: 1,
+    name: "Strategy 1",
+    description: "Best strategy",
+    rule_groups: [{ id: "market", name: "Mercado", rules: ["Tendência definida"] }],
+    changelog: null,
+    created_at: new Date("2024-12-20T10:00:00Z"),
+    ...overrides,
+  }),
+
   dailyRoutine: (overrides = {}) => ({
     id: "routine-123",
     user_id: "user-123",
@@ -271,6 +295,74 @@ export const createMockData = {
     ...overrides,
   }),
 
+  importBatch: (overrides = {}) => ({
+    id: "import-batch-123",
+    user_id: "user-123",
+    account_id: "account-123",
+    source: "ninjatrader",
+    file_name: "executions.csv",
+    status: "applied",
+    created_count: 2,
+    updated_count: 1,
+    skipped_count: 3,
+    replaced_existing: false,
+    previous_values: [],
+    created_at: new Date("2024-12-20T10:00:00Z"),
+    rolled_back_at: null,
+    ...overrides,
+  }),
+
+  importProfile: (overrides = {}) => ({
+    id: "import-profile-123",
+    user_id: "user-123",
+    name: "Corretora XP",
+    header_fingerprint: "5-1a2b3c4d",
+    headers: ["Data", "Ativo", "Lado", "Qtd", "Preço"],
+    settings: {
+      mapping: {
+        entryDate: "Data",
+        symbol: "Ativo",
+        direction: "Lado",
+        volume: "Qtd",
+        entryPrice: "Preço",
+      },
+      dateFormat: "DD/MM/YYYY HH:mm",
+      timezone: "America/Sao_Paulo",
+      decimalSeparator: ",",
+      symbolMap: { WINZ25: "WIN" },
+      directionVocabulary: { long: ["C"], short: ["V"] },
+    },
+    created_at: new Date("2024-12-20T10:00:00Z"),
+    updated_at: new Date("2024-12-20T10:00:00Z"),
+    ...overrides,
+  }),
+
+  tradePlan: (overrides = {}) => ({
+    id: "plan-123",
+    user_id: "user-123",
+    account_id: "account-123",
+    playbook_id: "playbook-123",
+    trade_id: null,
+    symbol: "EURUSD",
+    type: "Long",
+    planned_entry: 1.085,
+    planned_stop: 1.082,
+    planned_target: 1.091,
+    planned_lot: 1,
+    strategy: "Pullback",
+    checked_rules: ["Tendência no H4", "FVG no M5"],
+    total_rules: 3,
+    bullish_args: ["Sweep de liquidez"],
+    bearish_args: [],
+    bullish_pct: 100,
+    probability_label: "High Probability Long 🟢",
+    notes: null,
+    status: "planned",
+    created_at: new Date("2024-12-20T10:00:00Z"),
+    updated_at: new Date("2024-12-20T10:00:00Z"),
+    ...overrides,
+  }),
+
   mentorReview: (overrides = {}) => ({
     id: "review-123",
     mentor_id: "mentor-123",
@@ -281,10 +373,56 @@ export const createMockData = {
     content: "Good trade",
     rating: 5,
     is_read: false,
+    status: "open",
+    status_changed_at: null,
+    status_changed_by: null,
+    last_activity_at: new Date("2024-12-20T10:00:00Z"),
     created_at: new Date("2024-12-20T10:00:00Z"),
     updated_at: new Date("2024-12-20T10:00:00Z"),
     ...overrides,
   }),
+
+  reviewReply: (overrides = {}) => ({
+    id: "reply-123",
+    review_id: "review-123",
+    author_id: "mentee-123",
+    content: "Entendi",
+    mentions: [],
+    created_at: new Date("2024-12-20T12:00:00Z"),
+    updated_at: new Date("2024-12-20T12:00:00Z"),
+    users: { email: "joao@example.com" },
+    ...overrides,
+  }),
+
+  imageAnnotation: (overrides = {}) => ({
+    id: "annotation-123",
+    image_id: "image-123",
+    journal_entry_id: "entry-123",
+    author_id: "mentor-123",
+    review_id: null,
+    kind: "hline",
+    shape: { y: 0.42 },
+    color: "#f87171",
+    comment: "Stop acima da máxima",
+    created_at: new Date("2024-12-20T12:00:00Z"),
+    updated_at: new Date("2024-12-20T12:00:00Z"),
+    users: { email: "ana@example.com" },
+    ...overrides,
+  }),
+
+  notification: (overrides = {}) => ({
+    id: "notification-123",
+    user_id: "user-123",
+    type: "feedback",
+    title: "Novo Feedback",
+    message: "Nova correção recebida.",
+    link: "/dashboard/account-123?date=2024-12-20",
+    data: { reviewId: "review-123" },
+    read_at: null,
+    archived_at: null,
+    created_at: new Date("2024-12-20T10:00:00Z"),
+    ...overrides,
+  }),
 };
 
 // Type for the mock
@@ -116,6 +116,27 @@ export async function getHighImpactEvents(startDate: Date): Promise<EconomicEven
   return data as EconomicEvent[];
 }
 
+/**
+ * Buscar as últimas divulgações de uma série (mesma moeda e evento), mais recentes primeiro
+ */
+export async function getEventSeries(
+  currency: string,
+  eventName: string,
+  limit: number = 24
+): Promise<EconomicEvent[]> {
+  const { data, error } = await supabase
+    .from("economic_events")
+    .select("*")
+    .eq("currency", currency)
+    .eq("event_name", eventName)
+    .order("date", { ascending: false })
+    .order("time", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data as EconomicEvent[];
+}
+
 // ============================================
 // WRITE OPERATIONS (use admin client - requires service role)
 // ============================================
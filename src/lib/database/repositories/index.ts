@@ -17,7 +17,26 @@ export { prismaJournalRepo, PrismaJournalRepository } from "./JournalRepository"
 export { prismaAccountRepo, PrismaAccountRepository } from "./AccountRepository";
 export { prismaPlaybookRepo, PrismaPlaybookRepository } from "./PlaybookRepository";
 export { prismaRoutineRepo, PrismaRoutineRepository } from "./RoutineRepository";
+export { prismaImportProfileRepo, PrismaImportProfileRepository } from "./ImportProfileRepository";
+export {
+  prismaImportBatchRepo,
+  PrismaImportBatchRepository,
+  type ImportBatchInput,
+} from "./ImportBatchRepository";
+export { prismaBackupRepo, PrismaBackupRepository } from "./BackupRepository";
+export { prismaTradePlanRepo, PrismaTradePlanRepository } from "./TradePlanRepository";
+export {
+  prismaNotificationRepo,
+  PrismaNotificationRepository,
+  type NotificationFilter,
+} from "./NotificationRepository";
 export { prismaReviewRepo, PrismaReviewRepository, type MentorReview } from "./ReviewRepository";
+export { prismaReviewThreadRepo, PrismaReviewThreadRepository } from "./ReviewThreadRepository";
+export {
+  prismaImageAnnotationRepo,
+  PrismaImageAnnotationRepository,
+  type ImageAnnotationInput,
+} from "./ImageAnnotationRepository";
 export {
   prismaMentalRepo,
   PrismaMentalRepository,
@@ -55,7 +74,11 @@ export {
   type TradeComment,
 } from "./MentorRepository";
 export { prismaShareRepo, PrismaShareRepository, type SharedJournal } from "./ShareRepository";
-export { prismaSettingsRepo, PrismaSettingsRepository } from "./SettingsRepository";
+export {
+  prismaSettingsRepo,
+  PrismaSettingsRepository,
+  type DigestSubscriber,
+} from "./SettingsRepository";
 export {
   prismaEmotionalProfileRepo,
   PrismaEmotionalProfileRepository,
@@ -97,6 +97,8 @@ export async function getTradeHistoryLite(accountId: string): Promise<TradeLite[
     market_condition_v2: trade.market_condition_v2,
     commission: trade.commission,
     swap: trade.swap,
+    ruleCompliance: trade.ruleCompliance,
+    playbookVersion: trade.playbookVersion,
   }));
 }
 
@@ -0,0 +1,5 @@
+// Server-only report writers (XLSX/PDF); keep out of client components
+export * from "./zip";
+export * from "./xlsx";
+export * from "./pdf";
+export * from "./performanceReport";
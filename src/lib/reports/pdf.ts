@@ -0,0 +1,198 @@
+/**
+ * Minimal PDF writer: A4 pages with text (Helvetica, WinAnsi encoding), lines,
+ * polylines and rectangles. Enough for printable summaries and simple charts
+ * without a PDF library.
+ * Coordinates are in points from the TOP-left corner of the page.
+ */
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  /** x is the left edge (left), the center (center) or the right edge (right) */
+  align?: "left" | "center" | "right";
+}
+
+export interface PdfStrokeOptions {
+  width?: number;
+  color?: PdfColor;
+}
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+/** Helvetica glyph widths (1/1000 em) of the characters used in numbers; others use the average */
+const HELVETICA_WIDTHS: Record<string, number> = {
+  " ": 278,
+  ",": 278,
+  ".": 278,
+  ":": 278,
+  "-": 333,
+  "%": 889,
+  $: 556,
+  "/": 278,
+  "(": 333,
+  ")": 333,
+};
+const DEFAULT_GLYPH_WIDTH = 556;
+
+/** Unicode characters outside Latin-1 that WinAnsi encodes */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "“": 0x93,
+  "”": 0x94,
+  "‘": 0x91,
+  "’": 0x92,
+  "−": 0x2d, // minus sign
+};
+
+/** Encodes text as a WinAnsi PDF string literal, replacing unsupported characters with "?" */
+export const encodePdfText = (value: string): string => {
+  let out = "";
+  for (const char of value) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.codePointAt(0)!;
+    if (code > 0xff || (code < 0x20 && code !== 0x09)) {
+      out += "?";
+    } else if (char === "(" || char === ")" || char === "\\") {
+      out += `\\${char}`;
+    } else {
+      out += String.fromCharCode(code);
+    }
+  }
+  return `(${out})`;
+};
+
+/** Approximate width of a text in points (exact for digits and punctuation) */
+export const measurePdfText = (value: string, size: number): number => {
+  let width = 0;
+  for (const char of value) width += HELVETICA_WIDTHS[char] ?? DEFAULT_GLYPH_WIDTH;
+  return (width * size) / 1000;
+};
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`;
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private y(top: number): number {
+    return PDF_PAGE_HEIGHT - top;
+  }
+
+  text(x: number, top: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    let left = x;
+    if (options.align === "right") left = x - measurePdfText(value, size);
+    if (options.align === "center") left = x - measurePdfText(value, size) / 2;
+
+    this.current.push(
+      `BT ${rgb(options.color ?? [0, 0, 0])} rg /${options.bold ? "F2" : "F1"} ${size} Tf ` +
+        `${num(left)} ${num(this.y(top))} Td ${encodePdfText(value)} Tj ET`
+    );
+  }
+
+  line(x1: number, top1: number, x2: number, top2: number, options: PdfStrokeOptions = {}): void {
+    this.polyline(
+      [
+        [x1, top1],
+        [x2, top2],
+      ],
+      options
+    );
+  }
+
+  polyline(points: [number, number][], options: PdfStrokeOptions = {}): void {
+    if (points.length < 2) return;
+    const path = points
+      .map(([x, top], i) => `${num(x)} ${num(this.y(top))} ${i === 0 ? "m" : "l"}`)
+      .join(" ");
+    this.current.push(
+      `${num(options.width ?? 1)} w ${rgb(options.color ?? [0, 0, 0])} RG ${path} S`
+    );
+  }
+
+  rect(
+    x: number,
+    top: number,
+    width: number,
+    height: number,
+    options: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number } = {}
+  ): void {
+    const box = `${num(x)} ${num(this.y(top + height))} ${num(width)} ${num(height)} re`;
+    if (options.fill && options.stroke) {
+      this.current.push(
+        `${num(options.lineWidth ?? 1)} w ${rgb(options.fill)} rg ${rgb(options.stroke)} RG ${box} B`
+      );
+    } else if (options.fill) {
+      this.current.push(`${rgb(options.fill)} rg ${box} f`);
+    } else {
+      this.current.push(
+        `${num(options.lineWidth ?? 1)} w ${rgb(options.stroke ?? [0, 0, 0])} RG ${box} S`
+      );
+    }
+  }
+
+  /**
+   * Serializes the document. Object layout: 1 catalog, 2 pages, 3-4 fonts,
+   * then a page object and its content stream per page.
+   */
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${this.pages.length} >>`;
+    objects[3] =
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] =
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    this.pages.forEach((ops, i) => {
+      const pageId = pageIds[i];
+      const content = ops.join("\n");
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] =
+        `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+    });
+
+    let pdf = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(pdf, "latin1");
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(pdf, "latin1");
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new Uint8Array(Buffer.from(pdf, "latin1"));
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Renders a PerformanceReport as a multi-sheet XLSX workbook or a printable PDF summary.
+ * Server-only.
+ */
+
+import dayjs from "dayjs";
+import { formatCurrency } from "@/lib/utils/trading";
+import type { PerformanceReport } from "@/services/analytics/report";
+import { createXlsx } from "./xlsx";
+import { PdfDocument, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, type PdfColor } from "./pdf";
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+
+const GRAY: PdfColor = [0.4, 0.4, 0.45];
+const LIGHT_GRAY: PdfColor = [0.85, 0.85, 0.88];
+const GREEN: PdfColor = [0.05, 0.55, 0.35];
+const RED: PdfColor = [0.8, 0.15, 0.15];
+const CYAN: PdfColor = [0.03, 0.57, 0.7];
+
+const formatDate = (date: string) => dayjs(date).format("DD/MM/YYYY");
+
+// 999 marks a profit factor without losses; "∞" is not in the WinAnsi font encoding
+const formatFactor = (value: number) => (value >= 999 ? "—" : value.toFixed(2));
+
+/**
+ * Workbook with the summary, trades, monthly, strategy and tag sheets.
+ */
+export function renderReportXlsx(report: PerformanceReport): Uint8Array {
+  const { metrics } = report;
+
+  return createXlsx([
+    {
+      name: "Resumo",
+      columns: [
+        { header: "Métrica", width: 24 },
+        { header: "Valor", width: 40 },
+      ],
+      rows: [
+        ["Conta", report.accountName],
+        ["Período", `${formatDate(report.startDate)} - ${formatDate(report.endDate)}`],
+        ["Moeda", report.currency],
+        ["Saldo Inicial", report.startBalance],
+        ["Saldo Final", report.startBalance + metrics.totalPnL],
+        ["Total de Trades", metrics.totalTrades],
+        ["Win Rate (%)", Number(metrics.winRate.toFixed(2))],
+        ["Profit Factor", Number(metrics.profitFactor.toFixed(2))],
+        ["P&L Total", metrics.totalPnL],
+        ["Melhor Trade", metrics.bestTrade],
+        ["Pior Trade", metrics.worstTrade],
+        ["Drawdown Máximo", metrics.maxDrawdown],
+      ],
+    },
+    {
+      name: "Trades",
+      columns: [
+        { header: "Data Entrada", width: 12 },
+        { header: "Hora", width: 9 },
+        { header: "Ativo", width: 12 },
+        { header: "Direção", width: 9 },
+        { header: "Entrada", format: "number", width: 12 },
+        { header: "Saída", format: "number", width: 12 },
+        { header: "Lote", format: "number", width: 8 },
+        { header: "Stop Loss", format: "number", width: 12 },
+        { header: "Take Profit", format: "number", width: 12 },
+        { header: "Comissão", format: "currency", width: 11 },
+        { header: "Swap", format: "currency", width: 10 },
+        { header: "P&L", format: "currency", width: 12 },
+        { header: "Resultado", width: 11 },
+        { header: "Estratégia", width: 18 },
+        { header: "Setup", width: 18 },
+        { header: "Tags", width: 24 },
+        { header: "Sessão", width: 12 },
+      ],
+      rows: report.trades.map((t) => [
+        t.entryDate.substring(0, 10),
+        t.entryTime?.substring(0, 5),
+        t.symbol,
+        t.type,
+        t.entryPrice,
+        t.exitPrice,
+        t.lot,
+        t.stopLoss || null,
+        t.takeProfit || null,
+        t.commission,
+        t.swap,
+        t.pnl,
+        t.outcome,
+        t.strategy,
+        t.setup,
+        t.tags,
+        t.session,
+      ]),
+    },
+    {
+      name: "Mensal",
+      columns: [
+        { header: "Mês", width: 18 },
+        { header: "Trades", format: "integer" },
+        { header: "Wins", format: "integer" },
+        { header: "Losses", format: "integer" },
+        { header: "Win Rate (%)", format: "percent", width: 13 },
+        { header: "P&L", format: "currency", width: 14 },
+      ],
+      rows: report.monthly.map((m) => [m.month, m.trades, m.wins, m.losses, m.winRate, m.pnl]),
+    },
+    {
+      name: "Estratégias",
+      columns: [
+        { header: "Estratégia", width: 24 },
+        { header: "Trades", format: "integer" },
+        { header: "Wins", format: "integer" },
+        { header: "Losses", format: "integer" },
+        { header: "Win Rate (%)", format: "percent", width: 13 },
+        { header: "P&L Líquido", format: "currency", width: 14 },
+        { header: "P&L Médio", format: "currency", width: 14 },
+        { header: "Profit Factor", format: "number", width: 13 },
+      ],
+      rows: report.strategies.map((s) => [
+        s.strategy,
+        s.totalTrades,
+        s.wins,
+        s.losses,
+        s.winRate,
+        s.netPnL,
+        s.avgPnL,
+        s.profitFactor,
+      ]),
+    },
+    {
+      name: "Tags",
+      columns: [
+        { header: "Tag", width: 24 },
+        { header: "Trades", format: "integer" },
+        { header: "Wins", format: "integer" },
+        { header: "Losses", format: "integer" },
+        { header: "Win Rate (%)", format: "percent", width: 13 },
+        { header: "P&L Líquido", format: "currency", width: 14 },
+        { header: "P&L Médio", format: "currency", width: 14 },
+        { header: "Profit Factor", format: "number", width: 13 },
+      ],
+      rows: report.tags.map((t) => [
+        t.tag,
+        t.totalTrades,
+        t.wins,
+        t.losses,
+        t.winRate,
+        t.netPnL,
+        t.avgPnL,
+        t.profitFactor,
+      ]),
+    },
+  ]);
+}
+
+interface PdfTableColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+/**
+ * Draws a table; rows that do not fit continue on a new page (header repeated).
+ * @returns Position below the table
+ */
+function drawTable(
+  pdf: PdfDocument,
+  top: number,
+  title: string,
+  columns: PdfTableColumn[],
+  rows: string[][]
+): number {
+  const rowHeight = 16;
+  let y = top;
+
+  const drawHeader = () => {
+    pdf.rect(MARGIN, y, CONTENT_WIDTH, rowHeight, { fill: [0.93, 0.95, 0.97] });
+    let x = MARGIN;
+    columns.forEach((col) => {
+      pdf.text(col.align === "right" ? x + col.width - 4 : x + 4, y + 11, col.header, {
+        size: 8,
+        bold: true,
+        color: GRAY,
+        align: col.align,
+      });
+      x += col.width;
+    });
+    y += rowHeight;
+  };
+
+  if (y + 20 + rowHeight * 2 > PDF_PAGE_HEIGHT - MARGIN) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  pdf.text(MARGIN, y + 12, title, { size: 12, bold: true });
+  y += 20;
+  drawHeader();
+
+  rows.forEach((row) => {
+    if (y + rowHeight > PDF_PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+      drawHeader();
+    }
+    let x = MARGIN;
+    row.forEach((value, i) => {
+      const col = columns[i];
+      pdf.text(col.align === "right" ? x + col.width - 4 : x + 4, y + 11, value, {
+        size: 9,
+        align: col.align,
+      });
+      x += col.width;
+    });
+    pdf.line(MARGIN, y + rowHeight, MARGIN + CONTENT_WIDTH, y + rowHeight, {
+      width: 0.5,
+      color: LIGHT_GRAY,
+    });
+    y += rowHeight;
+  });
+
+  return y + 20;
+}
+
+function drawEquityCurve(pdf: PdfDocument, report: PerformanceReport, top: number): number {
+  const height = 180;
+  const chartLeft = MARGIN + 60;
+  const chartWidth = CONTENT_WIDTH - 60;
+  const chartTop = top + 20;
+  const points = report.equityCurve;
+
+  pdf.text(MARGIN, top + 12, "Curva de Capital", { size: 12, bold: true });
+  pdf.rect(chartLeft, chartTop, chartWidth, height, { stroke: LIGHT_GRAY, lineWidth: 0.5 });
+
+  const balances = points.map((p) => p.balance);
+  const min = Math.min(...balances);
+  const max = Math.max(...balances);
+  const range = max - min || 1;
+  const toY = (balance: number) => chartTop + height - ((balance - min) / range) * height;
+
+  [max, (max + min) / 2, min].forEach((value) => {
+    const y = toY(value);
+    pdf.line(chartLeft, y, chartLeft + chartWidth, y, { width: 0.3, color: LIGHT_GRAY });
+    pdf.text(chartLeft - 4, y + 3, formatCurrency(value, report.currency), {
+      size: 7,
+      color: GRAY,
+      align: "right",
+    });
+  });
+
+  // Starting balance reference
+  if (report.startBalance > min && report.startBalance < max) {
+    const y = toY(report.startBalance);
+    pdf.line(chartLeft, y, chartLeft + chartWidth, y, { width: 0.5, color: GRAY });
+  }
+
+  const step = points.length > 1 ? chartWidth / (points.length - 1) : 0;
+  pdf.polyline(
+    points.map((p, i) => [chartLeft + i * step, toY(p.balance)]),
+    { width: 1.5, color: CYAN }
+  );
+
+  pdf.text(chartLeft, chartTop + height + 12, formatDate(points[0].date), {
+    size: 7,
+    color: GRAY,
+  });
+  pdf.text(
+    chartLeft + chartWidth,
+    chartTop + height + 12,
+    formatDate(points[points.length - 1].date),
+    { size: 7, color: GRAY, align: "right" }
+  );
+
+  return chartTop + height + 32;
+}
+
+/**
+ * Printable summary: key metrics, equity curve, monthly, strategy and tag tables.
+ */
+export function renderReportPdf(report: PerformanceReport): Uint8Array {
+  const pdf = new PdfDocument();
+  const { metrics, currency } = report;
+  const money = (value: number) => formatCurrency(value, currency);
+
+  pdf.text(MARGIN, MARGIN + 16, "Relatório de Performance", { size: 20, bold: true });
+  pdf.text(
+    MARGIN,
+    MARGIN + 34,
+    `${report.accountName} · ${formatDate(report.startDate)} a ${formatDate(report.endDate)}`,
+    { size: 10, color: GRAY }
+  );
+  pdf.text(
+    MARGIN + CONTENT_WIDTH,
+    MARGIN + 34,
+    `Gerado em ${dayjs(report.generatedAt).format("DD/MM/YYYY HH:mm")}`,
+    { size: 8, color: GRAY, align: "right" }
+  );
+
+  const cards: { label: string; value: string; color?: PdfColor }[] = [
+    {
+      label: "P&L Total",
+      value: money(metrics.totalPnL),
+      color: metrics.totalPnL >= 0 ? GREEN : RED,
+    },
+    { label: "Trades", value: String(metrics.totalTrades) },
+    { label: "Win Rate", value: `${metrics.winRate.toFixed(1)}%` },
+    { label: "Profit Factor", value: formatFactor(metrics.profitFactor) },
+    { label: "Melhor Trade", value: money(metrics.bestTrade), color: GREEN },
+    { label: "Pior Trade", value: money(metrics.worstTrade), color: RED },
+    { label: "Drawdown Máx.", value: money(metrics.maxDrawdown), color: RED },
+    { label: "Saldo Final", value: money(report.startBalance + metrics.totalPnL) },
+  ];
+  const cardWidth = CONTENT_WIDTH / 4;
+  cards.forEach((card, i) => {
+    const x = MARGIN + (i % 4) * cardWidth;
+    const y = MARGIN + 52 + Math.floor(i / 4) * 50;
+    pdf.rect(x + 2, y, cardWidth - 4, 44, { fill: [0.96, 0.97, 0.98], stroke: LIGHT_GRAY });
+    pdf.text(x + 10, y + 15, card.label.toUpperCase(), { size: 7, bold: true, color: GRAY });
+    pdf.text(x + 10, y + 33, card.value, { size: 12, bold: true, color: card.color });
+  });
+
+  let y = MARGIN + 162;
+  y = drawEquityCurve(pdf, report, y);
+
+  const metricColumns = (first: string): PdfTableColumn[] => [
+    { header: first, width: 175 },
+    { header: "Trades", width: 60, align: "right" },
+    { header: "Wins", width: 55, align: "right" },
+    { header: "Losses", width: 55, align: "right" },
+    { header: "Win Rate", width: 70, align: "right" },
+    { header: "P&L", width: CONTENT_WIDTH - 415, align: "right" },
+  ];
+
+  y = drawTable(
+    pdf,
+    y,
+    "Resultado Mensal",
+    metricColumns("Mês"),
+    report.monthly.map((m) => [
+      m.month,
+      String(m.trades),
+      String(m.wins),
+      String(m.losses),
+      `${m.winRate.toFixed(1)}%`,
+      money(m.pnl),
+    ])
+  );
+
+  if (report.strategies.length > 0) {
+    y = drawTable(
+      pdf,
+      y,
+      "Estratégias",
+      metricColumns("Estratégia"),
+      report.strategies.map((s) => [
+        s.strategy,
+        String(s.totalTrades),
+        String(s.wins),
+        String(s.losses),
+        `${s.winRate.toFixed(1)}%`,
+        money(s.netPnL),
+      ])
+    );
+  }
+
+  if (report.tags.length > 0) {
+    drawTable(
+      pdf,
+      y,
+      "Tags",
+      metricColumns("Tag"),
+      report.tags.map((t) => [
+        t.tag,
+        String(t.totalTrades),
+        String(t.wins),
+        String(t.losses),
+        `${t.winRate.toFixed(1)}%`,
+        money(t.netPnL),
+      ])
+    );
+  }
+
+  return pdf.toBytes();
+}
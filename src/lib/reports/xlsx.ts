@@ -0,0 +1,171 @@
+/**
+ * Minimal XLSX writer: one worksheet per sheet, inline strings, a bold header row
+ * and a few number formats. Enough for tabular reports without pulling a spreadsheet
+ * library into the bundle.
+ * Server-only: relies on the ZIP writer (Node's zlib).
+ */
+
+import { createZip } from "./zip";
+
+export type XlsxColumnFormat = "text" | "integer" | "number" | "currency" | "percent";
+
+export interface XlsxColumn {
+  header: string;
+  /** Column width in characters */
+  width?: number;
+  /** percent expects values already in 0-100 */
+  format?: XlsxColumnFormat;
+}
+
+export type XlsxCell = string | number | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCell[][];
+}
+
+/** cellXfs index of each format (0 = default, 1 = bold header) */
+const STYLE_INDEX: Record<XlsxColumnFormat, number> = {
+  text: 0,
+  integer: 4,
+  number: 5,
+  currency: 2,
+  percent: 3,
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="#,##0.00"/><numFmt numFmtId="165" formatCode="0.00&quot;%&quot;"/><numFmt numFmtId="166" formatCode="0.00###"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** 0 -> A, 25 -> Z, 26 -> AA */
+export const columnLetter = (index: number): string => {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+/** Sheet names: max 31 chars, no []:*?/\ and unique within the workbook */
+const sanitizeSheetNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const base =
+      name
+        .replace(/[[\]:*?/\\]/g, " ")
+        .trim()
+        .substring(0, 31) || "Sheet";
+    let unique = base;
+    for (let i = 2; used.has(unique.toLowerCase()); i++) {
+      unique = `${base.substring(0, 31 - String(i).length - 1)} ${i}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+};
+
+const renderCell = (value: XlsxCell, ref: string, style: number): string => {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return "";
+    return `<c r="${ref}"${style ? ` s="${style}"` : ""}><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const renderSheet = (sheet: XlsxSheet): string => {
+  const cols = sheet.columns
+    .map(
+      (col, i) =>
+        `<col min="${i + 1}" max="${i + 1}" width="${col.width ?? Math.max(10, col.header.length + 2)}" customWidth="1"/>`
+    )
+    .join("");
+
+  const header = `<row r="1">${sheet.columns
+    .map(
+      (col, i) =>
+        `<c r="${columnLetter(i)}1" t="inlineStr" s="1"><is><t>${escapeXml(col.header)}</t></is></c>`
+    )
+    .join("")}</row>`;
+
+  const rows = sheet.rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) =>
+          renderCell(
+            value,
+            `${columnLetter(c)}${r + 2}`,
+            STYLE_INDEX[sheet.columns[c]?.format || "text"]
+          )
+        )
+        .join("");
+      return `<row r="${r + 2}">${cells}</row>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${cols}</cols><sheetData>${header}${rows}</sheetData></worksheet>`;
+};
+
+/**
+ * Builds an XLSX workbook with one worksheet per sheet.
+ */
+export function createXlsx(sheets: XlsxSheet[]): Uint8Array {
+  const names = sanitizeSheetNames(sheets.map((sheet) => sheet.name));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+    .map(
+      (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("")}</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+    .map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+    .join("")}</sheets></workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+    .map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    )
+    .join(
+      ""
+    )}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+  return createZip([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "_rels/.rels", data: rootRels },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: workbookRels },
+    { name: "xl/styles.xml", data: STYLES_XML },
+    ...sheets.map((sheet, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      data: renderSheet(sheet),
+    })),
+  ]);
+}
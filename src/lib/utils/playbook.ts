@@ -28,6 +28,7 @@ export const getTimeframePriority = (tf: string): number => {
 export const getSessionIcon = (session: string): string => {
   switch (session.toLowerCase()) {
     case "asian":
+    case "tokyo":
       return "🌏";
     case "london":
       return "🇬🇧";
@@ -35,6 +36,7 @@ export const getSessionIcon = (session: string): string => {
     case "new-york":
       return "🇺🇸";
     case "overlap":
+    case "london-ny overlap":
       return "🔄";
     default:
       return "🌐";
@@ -2,6 +2,8 @@
  * Calcula a sessão de trading baseada no horário de New York.
  * @param timeStr Horário no formato HH:mm:ss
  * @returns Nome da sessão (Asian, London, Overlap, New-York)
+ * @deprecated Horários fixos ignoram o horário de verão; use resolveSessionAt de
+ * "@/lib/utils/trading".
  */
 export const calculateSession = (timeStr: string): string => {
   if (!timeStr) return "N/A";
@@ -3,11 +3,23 @@
 // ============================================
 
 import type { Trade, TradeMetrics, TradeFilters } from "@/types";
+import { hasTradeLegs, summarizeTradeLegs } from "./legs";
 
 /**
  * Calcular P&L de um trade
+ * Trades com legs (entradas/saídas parciais) realizam o P&L perna a perna.
  */
 export function calculateTradePnL(trade: Trade, assetMultiplier: number = 1): number {
+  if (hasTradeLegs(trade.legs)) {
+    const { realizedPnL, exitQuantity } = summarizeTradeLegs(
+      trade.legs,
+      trade.type,
+      assetMultiplier
+    );
+    if (exitQuantity === 0) return 0;
+    return realizedPnL + (trade.commission || 0) + (trade.swap || 0);
+  }
+
   if (!trade.exitPrice) return 0;
 
   const { type, entryPrice, exitPrice, lot } = trade;
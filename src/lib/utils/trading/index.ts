@@ -2,7 +2,9 @@
 // All trading-related calculations, metrics, and utilities
 
 export * from "./calculations";
+export * from "./legs";
 export * from "./timeframes";
 export * from "./wolfScore";
 export * from "./helpers";
 export * from "./mappings";
+export * from "./propFirm";
@@ -0,0 +1,151 @@
+/**
+ * Trade Legs Utilities
+ *
+ * Helpers for trades composed of multiple fills (scale-ins and partial exits).
+ * Legs are replayed chronologically using the average-cost method, so an exit
+ * realizes PnL against the average entry price of the position open at that moment.
+ */
+
+import type { TradeDirection, TradeLeg } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TradeLegSummary {
+  entryQuantity: number;
+  exitQuantity: number;
+  openQuantity: number;
+  avgEntryPrice: number | undefined;
+  avgExitPrice: number | undefined;
+  /** Realized PnL in price units × quantity (multiply by the asset multiplier for money) */
+  realizedPnL: number;
+  /** Realized PnL for each exit leg, in the same units as realizedPnL */
+  legPnL: { legId: string; pnl: number }[];
+  firstEntry?: TradeLeg;
+  lastExit?: TradeLeg;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const legTimestamp = (leg: TradeLeg): string =>
+  `${leg.executedDate}T${leg.executedTime || "00:00:00"}`;
+
+/**
+ * Sort legs chronologically. Entries come before exits executed at the same instant.
+ */
+export function sortTradeLegs(legs: TradeLeg[]): TradeLeg[] {
+  return [...legs].sort((a, b) => {
+    const byTime = legTimestamp(a).localeCompare(legTimestamp(b));
+    if (byTime !== 0) return byTime;
+    if (a.side === b.side) return 0;
+    return a.side === "entry" ? -1 : 1;
+  });
+}
+
+/**
+ * Quantity-weighted average price of a set of legs
+ */
+export function calculateWeightedPrice(legs: TradeLeg[]): number | undefined {
+  const totalQuantity = legs.reduce((sum, leg) => sum + leg.quantity, 0);
+  if (totalQuantity <= 0) return undefined;
+
+  const notional = legs.reduce((sum, leg) => sum + leg.price * leg.quantity, 0);
+  return notional / totalQuantity;
+}
+
+// ============================================
+// SUMMARY
+// ============================================
+
+/**
+ * Replays the legs of a trade and returns weighted prices and realized PnL.
+ *
+ * @param legs - Entry and exit fills of the trade
+ * @param type - Trade direction
+ * @param assetMultiplier - Contract/lot multiplier applied to realized PnL
+ */
+export function summarizeTradeLegs(
+  legs: TradeLeg[],
+  type: TradeDirection,
+  assetMultiplier: number = 1
+): TradeLegSummary {
+  const sorted = sortTradeLegs(legs);
+  const entries = sorted.filter((leg) => leg.side === "entry");
+  const exits = sorted.filter((leg) => leg.side === "exit");
+  const direction = type === "Long" ? 1 : -1;
+
+  let openQuantity = 0;
+  let avgCost = 0;
+  let realizedPnL = 0;
+  const legPnL: TradeLegSummary["legPnL"] = [];
+
+  for (const leg of sorted) {
+    if (leg.side === "entry") {
+      avgCost = (avgCost * openQuantity + leg.price * leg.quantity) / (openQuantity + leg.quantity);
+      openQuantity += leg.quantity;
+      continue;
+    }
+
+    // Exits before any entry (or oversized exits) fall back to the overall average entry
+    const cost = openQuantity > 0 ? avgCost : (calculateWeightedPrice(entries) ?? leg.price);
+    const pnl = (leg.price - cost) * leg.quantity * direction * assetMultiplier;
+    legPnL.push({ legId: leg.id, pnl });
+    realizedPnL += pnl;
+    openQuantity = Math.max(0, openQuantity - leg.quantity);
+  }
+
+  const entryQuantity = entries.reduce((sum, leg) => sum + leg.quantity, 0);
+  const exitQuantity = exits.reduce((sum, leg) => sum + leg.quantity, 0);
+
+  return {
+    entryQuantity,
+    exitQuantity,
+    openQuantity: Math.max(0, entryQuantity - exitQuantity),
+    avgEntryPrice: calculateWeightedPrice(entries),
+    avgExitPrice: calculateWeightedPrice(exits),
+    realizedPnL,
+    legPnL,
+    firstEntry: entries[0],
+    lastExit: exits[exits.length - 1],
+  };
+}
+
+/**
+ * Whether a trade carries leg data that should drive its calculations
+ */
+export function hasTradeLegs(legs: TradeLeg[] | undefined): legs is TradeLeg[] {
+  return !!legs && legs.some((leg) => leg.side === "entry");
+}
+
+/**
+ * Derives the flat trade fields (prices, size and timestamps) from its legs,
+ * so listings and legacy calculations keep working with multi-leg trades.
+ */
+export function deriveTradeFieldsFromLegs(
+  legs: TradeLeg[],
+  type: TradeDirection
+): {
+  entryPrice: number;
+  exitPrice?: number;
+  lot: number;
+  entryDate?: string;
+  entryTime?: string;
+  exitDate?: string;
+  exitTime?: string;
+} {
+  const summary = summarizeTradeLegs(legs, type);
+  const isClosed = summary.exitQuantity > 0 && summary.openQuantity === 0;
+
+  return {
+    entryPrice: summary.avgEntryPrice ?? 0,
+    exitPrice: isClosed ? summary.avgExitPrice : undefined,
+    lot: summary.entryQuantity,
+    entryDate: summary.firstEntry?.executedDate,
+    entryTime: summary.firstEntry?.executedTime,
+    exitDate: isClosed ? summary.lastExit?.executedDate : undefined,
+    exitTime: isClosed ? summary.lastExit?.executedTime : undefined,
+  };
+}
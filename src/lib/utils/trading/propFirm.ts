@@ -0,0 +1,347 @@
+// ============================================
+// PROP FIRM RULE ENGINE
+// ============================================
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { DEFAULT_SESSION_SETTINGS } from "@/types";
+import type { PropDrawdownType, PropFirmRules, PropRuleKey, Trade } from "@/types";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/** Share of a limit consumed before a gauge turns into a warning */
+const WARNING_THRESHOLD = 0.8;
+
+/**
+ * Rule gauge shown in the dashboard header
+ */
+export interface PropRuleGauge {
+  rule: PropRuleKey;
+  limit: number;
+  current: number;
+  distance: number; // Room left before a breach (or left to reach a target)
+  progress: number; // 0-100 fill of the gauge
+  state: "ok" | "warning" | "breached" | "passed" | "pending";
+}
+
+/**
+ * A rule breach and the trade that caused it
+ */
+export interface PropBreachEvent {
+  rule: PropRuleKey;
+  tradeId?: string;
+  tradeSymbol?: string;
+  tradeTime?: string;
+  date: string;
+  value: number;
+  limit: number;
+}
+
+/**
+ * End-of-day snapshot for the pass/breach timeline
+ */
+export interface PropTimelineDay {
+  date: string;
+  pnl: number;
+  balance: number;
+  drawdownFloor: number;
+  state: "ok" | "passed" | "breached";
+  breaches: PropBreachEvent[];
+}
+
+export interface PropFirmEvaluation {
+  status: "active" | "passed" | "failed";
+  gauges: PropRuleGauge[];
+  breaches: PropBreachEvent[];
+  timeline: PropTimelineDay[];
+  tradingDays: number;
+  passedOn?: string;
+}
+
+/** Rules whose breach fails the challenge */
+const HARD_RULES: PropRuleKey[] = ["daily_loss", "max_drawdown"];
+
+const DRAWDOWN_TYPES: PropDrawdownType[] = ["static", "trailing", "eod_trailing"];
+
+const positiveNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+
+/**
+ * Reads the rules stored with the account. Unknown drawdown types fall back to
+ * static and limits that are not positive numbers are left out.
+ * Returns undefined when nothing is stored.
+ */
+export function normalizePropFirmRules(value: unknown): PropFirmRules | undefined {
+  if (!value || typeof value !== "object") return undefined;
+
+  const raw = value as Partial<Record<keyof PropFirmRules, unknown>>;
+  const rules: PropFirmRules = {
+    drawdownType: DRAWDOWN_TYPES.includes(raw.drawdownType as PropDrawdownType)
+      ? (raw.drawdownType as PropDrawdownType)
+      : "static",
+  };
+  const limits = [
+    "dailyLossPercent",
+    "profitTargetPercent",
+    "minTradingDays",
+    "consistencyPercent",
+  ] as const;
+  limits.forEach((key) => {
+    const limit = positiveNumber(raw[key]);
+    if (limit !== undefined) rules[key] = limit;
+  });
+  return rules;
+}
+
+const tradeDay = (trade: Trade) => trade.exitDate || trade.entryDate;
+
+const tradeTimestamp = (trade: Trade) =>
+  `${tradeDay(trade)}T${trade.exitTime || trade.entryTime || "00:00:00"}`;
+
+const lossGaugeState = (current: number, limit: number): PropRuleGauge["state"] => {
+  if (current >= limit) return "breached";
+  return current >= limit * WARNING_THRESHOLD ? "warning" : "ok";
+};
+
+const toProgress = (current: number, limit: number) =>
+  limit > 0 ? Math.min(100, Math.max(0, (current / limit) * 100)) : 0;
+
+/**
+ * Replays the closed trades of an account against its prop firm rules.
+ *
+ * Trades are applied in exit order and grouped by exit date (trading day).
+ * Trailing floors follow the highest closed balance (or end-of-day balance for
+ * `eod_trailing`) and lock at the initial balance once it is reached.
+ *
+ * @param trades - Account trades (pending trades are ignored)
+ * @param initialBalance - Starting balance of the challenge
+ * @param maxDrawdownPercent - Account max drawdown, in % of the initial balance
+ * @param rules - Prop firm rules configured for the account
+ * @param timezone - IANA timezone of the trade dates, which decides what "today" is
+ * @param now - Current instant, for the daily loss gauge
+ */
+export function evaluatePropFirmRules(
+  trades: Trade[],
+  initialBalance: number,
+  maxDrawdownPercent: number,
+  rules: PropFirmRules,
+  timezone: string = DEFAULT_SESSION_SETTINGS.timezone,
+  now: Date = new Date()
+): PropFirmEvaluation {
+  const drawdownAmount = (initialBalance * maxDrawdownPercent) / 100;
+  const dailyLossAmount = rules.dailyLossPercent
+    ? (initialBalance * rules.dailyLossPercent) / 100
+    : undefined;
+  const profitTargetAmount = rules.profitTargetPercent
+    ? (initialBalance * rules.profitTargetPercent) / 100
+    : undefined;
+
+  const closedTrades = trades
+    .filter((trade) => trade.outcome !== "pending" && tradeDay(trade))
+    .sort((a, b) => tradeTimestamp(a).localeCompare(tradeTimestamp(b)));
+
+  const computeFloor = (peak: number) =>
+    rules.drawdownType === "static"
+      ? initialBalance - drawdownAmount
+      : Math.min(peak - drawdownAmount, initialBalance);
+
+  const breaches: PropBreachEvent[] = [];
+  const timeline: PropTimelineDay[] = [];
+  const dailyPnL = new Map<string, { pnl: number; lastTrade: Trade }>();
+
+  let balance = initialBalance;
+  let peak = initialBalance;
+  let floor = computeFloor(peak);
+  let drawdownBreached = false;
+  let passedOn: string | undefined;
+
+  let index = 0;
+  while (index < closedTrades.length) {
+    const date = tradeDay(closedTrades[index]);
+    const dayBreaches: PropBreachEvent[] = [];
+    let dayPnL = 0;
+    let dailyBreached = false;
+
+    for (; index < closedTrades.length && tradeDay(closedTrades[index]) === date; index++) {
+      const trade = closedTrades[index];
+      const pnl = trade.pnl || 0;
+      balance += pnl;
+      dayPnL += pnl;
+      dailyPnL.set(date, { pnl: dayPnL, lastTrade: trade });
+
+      if (dailyLossAmount && !dailyBreached && -dayPnL >= dailyLossAmount) {
+        dailyBreached = true;
+        dayBreaches.push({
+          rule: "daily_loss",
+          tradeId: trade.id,
+          tradeSymbol: trade.symbol,
+          tradeTime: trade.exitTime || trade.entryTime,
+          date,
+          value: -dayPnL,
+          limit: dailyLossAmount,
+        });
+      }
+
+      if (!drawdownBreached && drawdownAmount > 0 && balance <= floor) {
+        drawdownBreached = true;
+        dayBreaches.push({
+          rule: "max_drawdown",
+          tradeId: trade.id,
+          tradeSymbol: trade.symbol,
+          tradeTime: trade.exitTime || trade.entryTime,
+          date,
+          value: floor + drawdownAmount - balance,
+          limit: drawdownAmount,
+        });
+      }
+
+      if (rules.drawdownType === "trailing") {
+        peak = Math.max(peak, balance);
+        floor = computeFloor(peak);
+      }
+    }
+
+    const dayFloor = floor;
+    if (rules.drawdownType === "eod_trailing") {
+      peak = Math.max(peak, balance);
+      floor = computeFloor(peak);
+    }
+
+    breaches.push(...dayBreaches);
+    const failed = breaches.some((breach) => HARD_RULES.includes(breach.rule));
+
+    const targetReached =
+      profitTargetAmount === undefined || balance - initialBalance >= profitTargetAmount;
+    const daysReached = !rules.minTradingDays || timeline.length + 1 >= rules.minTradingDays;
+    if (!passedOn && !failed && targetReached && daysReached && profitTargetAmount !== undefined) {
+      passedOn = date;
+    }
+
+    timeline.push({
+      date,
+      pnl: dayPnL,
+      balance,
+      drawdownFloor: dayFloor,
+      state: dayBreaches.length > 0 ? "breached" : passedOn === date ? "passed" : "ok",
+      breaches: dayBreaches,
+    });
+  }
+
+  // Consistency: the best day may not exceed a share of the total profit
+  const totalProfit = balance - initialBalance;
+  const bestDay = Array.from(dailyPnL.entries()).reduce<
+    [string, { pnl: number; lastTrade: Trade }] | undefined
+  >((best, entry) => (!best || entry[1].pnl > best[1].pnl ? entry : best), undefined);
+  const consistencyShare =
+    totalProfit > 0 && bestDay && bestDay[1].pnl > 0 ? (bestDay[1].pnl / totalProfit) * 100 : 0;
+  const consistencyBroken =
+    rules.consistencyPercent !== undefined &&
+    rules.consistencyPercent > 0 &&
+    consistencyShare > rules.consistencyPercent;
+
+  if (consistencyBroken && bestDay) {
+    const consistencyBreach: PropBreachEvent = {
+      rule: "consistency",
+      tradeId: bestDay[1].lastTrade.id,
+      tradeSymbol: bestDay[1].lastTrade.symbol,
+      tradeTime: bestDay[1].lastTrade.exitTime || bestDay[1].lastTrade.entryTime,
+      date: bestDay[0],
+      value: consistencyShare,
+      limit: rules.consistencyPercent!,
+    };
+    breaches.push(consistencyBreach);
+    const day = timeline.find((entry) => entry.date === bestDay[0]);
+    if (day) {
+      day.breaches.push(consistencyBreach);
+      day.state = "breached";
+    }
+  }
+
+  // A consistency breach only delays the pass until other days dilute the best one
+  if (consistencyBroken && passedOn) {
+    const passedDay = timeline.find((entry) => entry.date === passedOn);
+    if (passedDay?.state === "passed") passedDay.state = "ok";
+    passedOn = undefined;
+  }
+
+  const failed = breaches.some((breach) => HARD_RULES.includes(breach.rule));
+  const tradingDays = timeline.length;
+
+  const gauges: PropRuleGauge[] = [];
+
+  if (dailyLossAmount) {
+    // Only today's trades count: a fresh day starts with the whole limit available
+    const today = dayjs(now).tz(timezone).format("YYYY-MM-DD");
+    const todayLoss = Math.max(0, -(dailyPnL.get(today)?.pnl || 0));
+    gauges.push({
+      rule: "daily_loss",
+      limit: dailyLossAmount,
+      current: todayLoss,
+      distance: Math.max(0, dailyLossAmount - todayLoss),
+      progress: toProgress(todayLoss, dailyLossAmount),
+      state: lossGaugeState(todayLoss, dailyLossAmount),
+    });
+  }
+
+  if (drawdownAmount > 0) {
+    const distance = Math.max(0, balance - floor);
+    const used = Math.max(0, drawdownAmount - distance);
+    gauges.push({
+      rule: "max_drawdown",
+      limit: drawdownAmount,
+      current: used,
+      distance,
+      progress: toProgress(used, drawdownAmount),
+      state: drawdownBreached ? "breached" : lossGaugeState(used, drawdownAmount),
+    });
+  }
+
+  if (profitTargetAmount !== undefined) {
+    const profit = Math.max(0, totalProfit);
+    gauges.push({
+      rule: "profit_target",
+      limit: profitTargetAmount,
+      current: profit,
+      distance: Math.max(0, profitTargetAmount - profit),
+      progress: toProgress(profit, profitTargetAmount),
+      state: profit >= profitTargetAmount ? "passed" : "pending",
+    });
+  }
+
+  if (rules.minTradingDays) {
+    gauges.push({
+      rule: "min_trading_days",
+      limit: rules.minTradingDays,
+      current: tradingDays,
+      distance: Math.max(0, rules.minTradingDays - tradingDays),
+      progress: toProgress(tradingDays, rules.minTradingDays),
+      state: tradingDays >= rules.minTradingDays ? "passed" : "pending",
+    });
+  }
+
+  if (rules.consistencyPercent) {
+    gauges.push({
+      rule: "consistency",
+      limit: rules.consistencyPercent,
+      current: consistencyShare,
+      distance: Math.max(0, rules.consistencyPercent - consistencyShare),
+      progress: toProgress(consistencyShare, rules.consistencyPercent),
+      state: consistencyBroken
+        ? "breached"
+        : consistencyShare >= rules.consistencyPercent * WARNING_THRESHOLD
+          ? "warning"
+          : "ok",
+    });
+  }
+
+  return {
+    status: failed ? "failed" : passedOn ? "passed" : "active",
+    gauges,
+    breaches,
+    timeline,
+    tradingDays,
+    passedOn,
+  };
+}
@@ -5,6 +5,16 @@
  * validation of HTF/LTF alignment for professional trading analysis.
  */
 
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { DEFAULT_SESSION_SETTINGS } from "@/types";
+import type { SessionSettings, SessionWindow, TradeLeg } from "@/types";
+import { hasTradeLegs, summarizeTradeLegs } from "./legs";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
 // ============================================
 // TYPES
 // ============================================
@@ -230,72 +240,199 @@ const TF_HIERARCHY: Record<string, number> = {
 // SESSION DETECTION
 // ============================================
 
+/**
+ * Market sessions in the exchange's local wall clock. Because the windows are anchored
+ * to IANA timezones, London and New York shift by an hour against UTC (and against
+ * Brazil) when their DST starts or ends.
+ */
+export const MARKET_SESSIONS: Record<"Sydney" | "Tokyo" | "London" | "New York", SessionWindow> = {
+  Sydney: { name: "Sydney", timezone: "Australia/Sydney", start: "07:00", end: "16:00" },
+  Tokyo: { name: "Tokyo", timezone: "Asia/Tokyo", start: "09:00", end: "18:00" },
+  London: { name: "London", timezone: "Europe/London", start: "08:00", end: "17:00" },
+  "New York": { name: "New York", timezone: "America/New_York", start: "08:00", end: "17:00" },
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Absolute instant of a wall-clock date/time in a timezone.
+ * A numeric timezone is a fixed UTC offset in hours (legacy callers, e.g. -3).
+ * Returns null for missing or invalid input.
+ */
+export function toSessionInstant(
+  date: string,
+  time: string,
+  timezone: string | number
+): Date | null {
+  if (!date || !time) return null;
+  const [hours, minutes = "0", seconds = "0"] = time.split(":");
+  const clock = [hours, minutes, seconds].map((part) => part.padStart(2, "0")).join(":");
+  const wallClock = `${date.substring(0, 10)}T${clock}`;
+
+  try {
+    const instant =
+      typeof timezone === "number"
+        ? dayjs.utc(wallClock).subtract(timezone, "hour")
+        : dayjs.tz(wallClock, timezone);
+    return instant.isValid() ? instant.toDate() : null;
+  } catch {
+    return null; // Unknown IANA timezone
+  }
+}
+
+/**
+ * Whether an instant falls inside a session window (end exclusive).
+ * Windows whose end is before their start cross midnight.
+ */
+export function isInSessionWindow(instant: Date, window: SessionWindow): boolean {
+  try {
+    const local = dayjs(instant).tz(window.timezone);
+    const minutes = local.hour() * 60 + local.minute();
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Market session of an instant. The London-NY overlap has the highest priority,
+ * followed by New York, London, Tokyo and Sydney.
+ */
+export function detectSessionAt(instant: Date): TradingSession {
+  const inLondon = isInSessionWindow(instant, MARKET_SESSIONS.London);
+  const inNewYork = isInSessionWindow(instant, MARKET_SESSIONS["New York"]);
+
+  if (inLondon && inNewYork) return "London-NY Overlap";
+  if (inNewYork) return "New York";
+  if (inLondon) return "London";
+  if (isInSessionWindow(instant, MARKET_SESSIONS.Tokyo)) return "Tokyo";
+  if (isInSessionWindow(instant, MARKET_SESSIONS.Sydney)) return "Sydney";
+  return "Off-Hours";
+}
+
 /**
  * Detect trading session based on entry time
- * Uses UTC internally, expecting local time input
  *
- * Sessions (in UTC):
- * - Tokyo: 00:00 - 09:00 UTC
- * - London: 07:00 - 16:00 UTC
- * - New York: 12:00 - 21:00 UTC
- * - London-NY Overlap: 12:00 - 16:00 UTC
- * - Sydney: 21:00 - 06:00 UTC
+ * Sessions (local time of each exchange):
+ * - Sydney: 07:00 - 16:00 Australia/Sydney
+ * - Tokyo: 09:00 - 18:00 Asia/Tokyo
+ * - London: 08:00 - 17:00 Europe/London
+ * - New York: 08:00 - 17:00 America/New_York
+ * - London-NY Overlap: London and New York open at the same time
  *
  * @param entryDate - Date string (YYYY-MM-DD)
  * @param entryTime - Time string (HH:mm)
- * @param timezoneOffsetHours - Offset from UTC (e.g., -3 for Brazil)
+ * @param timezone - IANA timezone of the entry time, or a fixed UTC offset in hours
  */
 export function detectSession(
   entryDate: string,
   entryTime: string,
-  timezoneOffsetHours: number = -3 // Default: Brazil (UTC-3)
+  timezone: string | number = DEFAULT_SESSION_SETTINGS.timezone
 ): TradingSession {
-  if (!entryDate || !entryTime) return "Off-Hours";
+  const instant = toSessionInstant(entryDate, entryTime, timezone);
+  return instant ? detectSessionAt(instant) : "Off-Hours";
+}
+
+/**
+ * Whether a stored session is one of the market sessions (not a custom one).
+ */
+export function isMarketSession(session: string): session is TradingSession {
+  return (
+    Object.hasOwn(MARKET_SESSIONS, session) ||
+    session === "London-NY Overlap" ||
+    session === "Off-Hours"
+  );
+}
+
+/**
+ * First user session (killzone) that contains the instant, or null.
+ */
+export function detectCustomSessionAt(
+  instant: Date,
+  customSessions: SessionWindow[] = []
+): string | null {
+  return customSessions.find((session) => isInSessionWindow(instant, session))?.name ?? null;
+}
+
+/**
+ * Session stored on a trade at an instant: the user's custom session when one matches,
+ * otherwise the market session.
+ */
+export function resolveSessionAt(instant: Date, customSessions: SessionWindow[] = []): string {
+  return detectCustomSessionAt(instant, customSessions) ?? detectSessionAt(instant);
+}
+
+/**
+ * Session of an entry recorded in the user's timezone, with their custom sessions.
+ */
+export function resolveTradeSession(
+  entryDate: string,
+  entryTime: string,
+  settings: SessionSettings = DEFAULT_SESSION_SETTINGS
+): string {
+  const instant = toSessionInstant(entryDate, entryTime, settings.timezone);
+  return instant ? resolveSessionAt(instant, settings.customSessions) : "Off-Hours";
+}
+
+const CLOCK_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
 
+const isTimezone = (value: unknown): value is string => {
+  if (typeof value !== "string" || !value) return false;
   try {
-    const [, ,] = entryDate.split("-").map(Number);
-    const [hours] = entryTime.split(":").map(Number);
-
-    // Convert local time to UTC
-    let utcHour = hours - timezoneOffsetHours;
-    if (utcHour < 0) utcHour += 24;
-    if (utcHour >= 24) utcHour -= 24;
-
-    // London-NY Overlap (MOST LIQUID - highest priority)
-    if (utcHour >= 12 && utcHour < 16) {
-      return "London-NY Overlap";
-    }
-
-    // New York Session
-    if (utcHour >= 12 && utcHour < 21) {
-      return "New York";
-    }
-
-    // London Session
-    if (utcHour >= 7 && utcHour < 16) {
-      return "London";
-    }
-
-    // Tokyo Session
-    if (utcHour >= 0 && utcHour < 9) {
-      return "Tokyo";
-    }
-
-    // Sydney Session
-    if (utcHour >= 21 || utcHour < 6) {
-      return "Sydney";
-    }
-
-    return "Off-Hours";
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
   } catch {
-    return "Off-Hours";
+    return false; // Unknown IANA timezone
   }
+};
+
+/**
+ * Reads the session settings stored for the user. An unknown timezone falls back
+ * to the default one and custom sessions without a name, a valid timezone or an
+ * HH:mm start and end are left out.
+ */
+export function normalizeSessionSettings(value: unknown): SessionSettings {
+  if (!value || typeof value !== "object") return DEFAULT_SESSION_SETTINGS;
+
+  const raw = value as Partial<Record<keyof SessionSettings, unknown>>;
+  const sessions: Partial<Record<keyof SessionWindow, unknown>>[] = Array.isArray(
+    raw.customSessions
+  )
+    ? raw.customSessions
+    : [];
+  return {
+    timezone: isTimezone(raw.timezone) ? raw.timezone : DEFAULT_SESSION_SETTINGS.timezone,
+    customSessions: sessions.flatMap((session) =>
+      session &&
+      typeof session.name === "string" &&
+      session.name &&
+      isTimezone(session.timezone) &&
+      typeof session.start === "string" &&
+      CLOCK_PATTERN.test(session.start) &&
+      typeof session.end === "string" &&
+      CLOCK_PATTERN.test(session.end)
+        ? [
+            {
+              name: session.name,
+              timezone: session.timezone,
+              start: session.start,
+              end: session.end,
+            },
+          ]
+        : []
+    ),
+  };
 }
 
 /**
  * Get session emoji for display
  */
-export function getSessionEmoji(session: TradingSession): string {
+export function getSessionEmoji(session: string): string {
   switch (session) {
     case "Tokyo":
       return "🇯🇵";
@@ -307,8 +444,10 @@ export function getSessionEmoji(session: TradingSession): string {
       return "🔥";
     case "Sydney":
       return "🇦🇺";
-    default:
+    case "Off-Hours":
       return "⏸️";
+    default:
+      return "🎯"; // Custom session
   }
 }
 
@@ -416,17 +555,34 @@ export function validateAlignment(tfAnalise: string, tfEntrada: string): Alignme
  * R > 1 = Gained more than risked
  * R < 1 = Gained less than risked
  *
+ * With legs, risk is measured from the weighted entry to the stop for the full
+ * position size, and profit is the realized PnL of every exit leg.
+ *
  * @param entryPrice - Trade entry price
  * @param exitPrice - Trade exit price
  * @param stopLoss - Stop loss price
  * @param type - 'Long' or 'Short'
+ * @param legs - Optional partial fills of the trade
  */
 export function calculateRMultiple(
   entryPrice: number,
   exitPrice: number | undefined,
   stopLoss: number,
-  type: "Long" | "Short"
+  type: "Long" | "Short",
+  legs?: TradeLeg[]
 ): number | null {
+  if (hasTradeLegs(legs)) {
+    const summary = summarizeTradeLegs(legs, type);
+    if (!stopLoss || !summary.avgEntryPrice || summary.exitQuantity === 0) return null;
+
+    const riskPerUnit =
+      type === "Long" ? summary.avgEntryPrice - stopLoss : stopLoss - summary.avgEntryPrice;
+    if (riskPerUnit <= 0) return null;
+
+    const rMultiple = summary.realizedPnL / (riskPerUnit * summary.entryQuantity);
+    return Math.round(rMultiple * 100) / 100;
+  }
+
   if (!exitPrice || !entryPrice || !stopLoss) return null;
 
   let risk: number;
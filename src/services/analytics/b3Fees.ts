@@ -0,0 +1,232 @@
+/**
+ * B3 Fee Schedule
+ *
+ * Emolumentos and liquidação charged by B3 on stocks (ações, FII, ETF) and on index
+ * and dollar futures (WIN/IND, WDO/DOL). Fees are a rate over the financial volume
+ * (price x quantity x contract multiplier, entry plus exit). Day trade rates are tiered
+ * by the month's day-trade volume of each instrument and applied progressively: every
+ * slice of volume pays the rate of the tier it falls in.
+ *
+ * Rates are reference values of the B3 price list; update B3_FEE_SCHEDULES when B3
+ * publishes a new table.
+ */
+
+import { BrokerFeeProfile, BrokerFeeSettings, DEFAULT_ASSETS, Trade } from "@/types";
+import { getDefaultAsset } from "@/constants/defaultAssets";
+
+export type B3Instrument = "stock" | "index_future" | "dollar_future";
+
+/** Fractions of the financial volume (0.00005 = 0,005%) */
+export interface B3FeeRates {
+  emolument: number;
+  settlement: number;
+}
+
+export interface B3FeeTier extends B3FeeRates {
+  /** Upper bound of the tier, in month-to-date day-trade volume (R$) */
+  upToVolume: number;
+}
+
+export interface B3FeeSchedule {
+  dayTrade: B3FeeTier[];
+  swingTrade: B3FeeRates;
+}
+
+export const B3_FEE_SCHEDULES: Record<B3Instrument, B3FeeSchedule> = {
+  stock: {
+    dayTrade: [
+      { upToVolume: 4_000_000, emolument: 0.00005, settlement: 0.00018 },
+      { upToVolume: 12_500_000, emolument: 0.00004, settlement: 0.00018 },
+      { upToVolume: 25_000_000, emolument: 0.000035, settlement: 0.00018 },
+      { upToVolume: Infinity, emolument: 0.00003, settlement: 0.00018 },
+    ],
+    swingTrade: { emolument: 0.00005, settlement: 0.00025 },
+  },
+  index_future: {
+    dayTrade: [
+      { upToVolume: 50_000_000, emolument: 0.00001, settlement: 0 },
+      { upToVolume: 250_000_000, emolument: 0.000008, settlement: 0 },
+      { upToVolume: Infinity, emolument: 0.000006, settlement: 0 },
+    ],
+    swingTrade: { emolument: 0.000018, settlement: 0 },
+  },
+  dollar_future: {
+    dayTrade: [
+      { upToVolume: 50_000_000, emolument: 0.00002, settlement: 0 },
+      { upToVolume: 250_000_000, emolument: 0.000016, settlement: 0 },
+      { upToVolume: Infinity, emolument: 0.000012, settlement: 0 },
+    ],
+    swingTrade: { emolument: 0.000035, settlement: 0 },
+  },
+};
+
+/** Futures roots: instrument and R$ per point of one contract */
+const B3_FUTURES: Record<string, { instrument: B3Instrument; multiplier: number }> = {
+  WIN: { instrument: "index_future", multiplier: 0.2 },
+  IND: { instrument: "index_future", multiplier: 1 },
+  WDO: { instrument: "dollar_future", multiplier: 10 },
+  DOL: { instrument: "dollar_future", multiplier: 50 },
+};
+
+/** Root plus optional maturity (WIN, WINJ25, WDOF26) */
+const FUTURE_TICKER = /^(WIN|IND|WDO|DOL)([FGHJKMNQUVXZ]\d{2})?$/;
+
+/** Cash market tickers: PETR4, BOVA11, HGLG11, PETR4F (fractional) */
+const CASH_TICKER = /^[A-Z]{4}\d{1,2}F?$/;
+
+export interface B3FeeBreakdown {
+  instrument: B3Instrument;
+  volume: number;
+  emolument: number;
+  settlement: number;
+  total: number;
+}
+
+/**
+ * B3 instrument of a symbol, or null when the symbol is not traded on B3 (EURUSD, NQ...).
+ */
+export function resolveB3Instrument(symbol: string): B3Instrument | null {
+  const ticker = symbol.trim().toUpperCase();
+  const future = ticker.match(FUTURE_TICKER);
+  if (future) return B3_FUTURES[future[1]].instrument;
+  return CASH_TICKER.test(ticker) ? "stock" : null;
+}
+
+/**
+ * Contract multiplier of a symbol: the user's assets first, then the default assets,
+ * then the B3 futures table. Futures maturities use the root (WINJ25 -> WIN).
+ * Stocks are quoted per share (1).
+ */
+export function resolveContractMultiplier(
+  symbol: string,
+  userMultipliers: Record<string, number> = {}
+): number {
+  const ticker = symbol.trim().toUpperCase();
+  const root = ticker.match(FUTURE_TICKER)?.[1];
+  const candidates = root && root !== ticker ? [ticker, root] : [ticker];
+
+  for (const candidate of candidates) {
+    if (userMultipliers[candidate] > 0) return userMultipliers[candidate];
+  }
+  for (const candidate of candidates) {
+    const multiplier = getDefaultAsset(candidate)?.multiplier ?? DEFAULT_ASSETS[candidate];
+    if ((multiplier ?? 0) > 0) return multiplier!;
+  }
+  return root ? B3_FUTURES[root].multiplier : 1;
+}
+
+/**
+ * Financial volume of a trade: entry plus exit notional.
+ */
+export function calculateTradeVolume(trade: Trade, multiplier: number): number {
+  const exitPrice = trade.exitPrice ?? trade.entryPrice;
+  return (Math.abs(trade.entryPrice) + Math.abs(exitPrice)) * Math.abs(trade.lot) * multiplier;
+}
+
+/** Fees of a slice of volume that starts at `from` month-to-date volume */
+function applyTiers(tiers: B3FeeTier[], from: number, volume: number): B3FeeRates {
+  const fees = { emolument: 0, settlement: 0 };
+  let lower = 0;
+  for (const tier of tiers) {
+    const start = Math.max(from, lower);
+    const end = Math.min(from + volume, tier.upToVolume);
+    if (end > start) {
+      fees.emolument += (end - start) * tier.emolument;
+      fees.settlement += (end - start) * tier.settlement;
+    }
+    lower = tier.upToVolume;
+  }
+  return fees;
+}
+
+const tradeDay = (date?: string) => date?.substring(0, 10);
+
+/**
+ * B3 fees of each trade (by trade id). Trades outside B3 are left out.
+ * Day trades are tiered by the month's day-trade volume of the same instrument,
+ * in chronological order of exit.
+ */
+export function calculateB3Fees(
+  trades: Trade[],
+  userMultipliers: Record<string, number> = {}
+): Map<string, B3FeeBreakdown> {
+  const fees = new Map<string, B3FeeBreakdown>();
+  const monthVolume = new Map<string, number>();
+
+  const sorted = [...trades].sort((a, b) =>
+    `${a.exitDate || a.entryDate} ${a.exitTime || ""}`.localeCompare(
+      `${b.exitDate || b.entryDate} ${b.exitTime || ""}`
+    )
+  );
+
+  sorted.forEach((trade) => {
+    const instrument = resolveB3Instrument(trade.symbol);
+    if (!instrument) return;
+
+    const volume = calculateTradeVolume(
+      trade,
+      resolveContractMultiplier(trade.symbol, userMultipliers)
+    );
+    const schedule = B3_FEE_SCHEDULES[instrument];
+    const isDayTrade = !!trade.exitDate && tradeDay(trade.entryDate) === tradeDay(trade.exitDate);
+
+    let rates: B3FeeRates;
+    if (isDayTrade) {
+      const key = `${instrument}:${trade.exitDate!.substring(0, 7)}`;
+      const from = monthVolume.get(key) || 0;
+      rates = applyTiers(schedule.dayTrade, from, volume);
+      monthVolume.set(key, from + volume);
+    } else {
+      rates = {
+        emolument: volume * schedule.swingTrade.emolument,
+        settlement: volume * schedule.swingTrade.settlement,
+      };
+    }
+
+    fees.set(trade.id, {
+      instrument,
+      volume,
+      emolument: rates.emolument,
+      settlement: rates.settlement,
+      total: rates.emolument + rates.settlement,
+    });
+  });
+
+  return fees;
+}
+
+/**
+ * Brokerage of a trade for a broker profile (per trade plus per contract).
+ */
+export function calculateBrokerage(trade: Trade, broker: BrokerFeeProfile): number {
+  return broker.brokeragePerTrade + broker.brokeragePerContract * Math.abs(trade.lot);
+}
+
+const feeValue = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+
+/**
+ * Reads the broker profiles stored in the settings. Profiles without a name are
+ * left out, fees that are not positive numbers count as zero and a default broker
+ * that is not among the profiles is dropped.
+ */
+export function normalizeBrokerFeeSettings(value: unknown): BrokerFeeSettings {
+  if (!value || typeof value !== "object") return { brokers: [] };
+
+  const raw = value as Partial<Record<keyof BrokerFeeSettings, unknown>>;
+  const brokers = (Array.isArray(raw.brokers) ? raw.brokers : []).flatMap(
+    (broker: Partial<Record<keyof BrokerFeeProfile, unknown>> | null): BrokerFeeProfile[] =>
+      broker && typeof broker.name === "string" && broker.name.trim()
+        ? [
+            {
+              name: broker.name,
+              brokeragePerTrade: feeValue(broker.brokeragePerTrade),
+              brokeragePerContract: feeValue(broker.brokeragePerContract),
+              issPct: feeValue(broker.issPct),
+            },
+          ]
+        : []
+  );
+  const defaultBroker = brokers.find((broker) => broker.name === raw.defaultBroker)?.name;
+  return defaultBroker ? { brokers, defaultBroker } : { brokers };
+}
@@ -0,0 +1,263 @@
+/**
+ * Economic Event Surprise Analytics
+ *
+ * Parses the raw calendar strings ("275K", "3.9%", "-1.2B") into numbers, measures
+ * how far each release landed from its forecast and follows every release of an
+ * event series (e.g. all "CPI m/m" prints of USD) to relate the surprises with
+ * the trades taken around them.
+ */
+
+import { DEFAULT_NEWS_SETTINGS, DEFAULT_SESSION_SETTINGS } from "@/types";
+import type { NewsSettings, Trade } from "@/types";
+import type { EconomicEvent } from "@/lib/database/repositories/external/economicEvents.repository";
+import {
+  calculateNewsGroupMetrics,
+  findTradeNewsEvents,
+  NewsGroupMetrics,
+  NewsMetricsTrade,
+} from "./news";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export type EventValueUnit = "%" | "K" | "M" | "B" | "T" | null;
+
+export interface ParsedEventValue {
+  /** Number as displayed, in `unit` */
+  value: number;
+  unit: EventValueUnit;
+}
+
+export type SurpriseDirection = "above" | "below" | "inline";
+
+export interface EventSurprise {
+  actual: ParsedEventValue | null;
+  forecast: ParsedEventValue | null;
+  previous: ParsedEventValue | null;
+  /** Actual minus forecast, in the unit of the actual */
+  surprise: number | null;
+  /** Surprise relative to the forecast magnitude, in % */
+  surprisePct: number | null;
+  direction: SurpriseDirection | null;
+  /** Whether the print is good for the currency (lower is better for unemployment/claims) */
+  sentiment: "better" | "worse" | "neutral" | null;
+  /** Surprise in standard deviations of the series' previous surprises */
+  score: number | null;
+}
+
+export interface EventSeriesRelease {
+  event: EconomicEvent;
+  surprise: EventSurprise;
+}
+
+/** Trade matched against the releases of a series (full or lite trade history) */
+export type EventSeriesTrade = NewsMetricsTrade &
+  Pick<Trade, "id" | "symbol" | "entryDate" | "entryTime">;
+
+export interface EventSeriesPerformance {
+  overall: NewsGroupMetrics;
+  byDirection: Record<SurpriseDirection, NewsGroupMetrics>;
+  /** Releases with trades around them, oldest first */
+  releases: {
+    date: string;
+    direction: SurpriseDirection | null;
+    trades: number;
+    totalPnL: number;
+  }[];
+}
+
+// ============================================
+// VALUE PARSING
+// ============================================
+
+const UNIT_SCALE: Record<Exclude<EventValueUnit, null>, number> = {
+  "%": 1,
+  K: 1e3,
+  M: 1e6,
+  B: 1e9,
+  T: 1e12,
+};
+
+/** Previous surprises needed before a release gets a score */
+const MIN_SCORE_HISTORY = 3;
+
+/**
+ * Parse a calendar value such as "275K", "-0.3%", "<0.1%", "$1.5B" or "1,234".
+ * Returns null for empty or non-numeric values.
+ */
+export function parseEventValue(raw: string | null | undefined): ParsedEventValue | null {
+  if (!raw) return null;
+
+  const cleaned = raw.replace(/[\s,<>$£€¥]/g, "").toUpperCase();
+  const match = cleaned.match(/^([-+]?\d*\.?\d+)(%|K|M|B|T)?$/);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  if (isNaN(value)) return null;
+
+  return { value, unit: (match[2] as EventValueUnit) ?? null };
+}
+
+const round = (value: number, decimals = 4) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const toBase = (parsed: ParsedEventValue) =>
+  parsed.unit && parsed.unit !== "%" ? parsed.value * UNIT_SCALE[parsed.unit] : parsed.value;
+
+/**
+ * Express a parsed value in another unit (e.g. "1.2M" as 1200 in K), so
+ * releases of a series can share one axis.
+ */
+export function convertEventValue(parsed: ParsedEventValue, unit: EventValueUnit): number {
+  const scale = unit && unit !== "%" ? UNIT_SCALE[unit] : 1;
+  return round(toBase(parsed) / scale);
+}
+
+/**
+ * Indicators where a lower print is the good news for the currency.
+ */
+export function isLowerBetterEvent(eventName: string): boolean {
+  return /unemployment|jobless|claimant count/i.test(eventName);
+}
+
+// ============================================
+// SURPRISE
+// ============================================
+
+/**
+ * Surprise of a release against its forecast. `previousSurprises` are the
+ * surprises of earlier releases of the same series, used for the score.
+ */
+export function calculateEventSurprise(
+  event: Pick<EconomicEvent, "event_name" | "actual" | "forecast" | "previous">,
+  previousSurprises: number[] = []
+): EventSurprise {
+  const actual = parseEventValue(event.actual);
+  const forecast = parseEventValue(event.forecast);
+  const previous = parseEventValue(event.previous);
+
+  const result: EventSurprise = {
+    actual,
+    forecast,
+    previous,
+    surprise: null,
+    surprisePct: null,
+    direction: null,
+    sentiment: null,
+    score: null,
+  };
+  if (!actual || !forecast) return result;
+
+  const scale = actual.unit && actual.unit !== "%" ? UNIT_SCALE[actual.unit] : 1;
+  const surprise = round((toBase(actual) - toBase(forecast)) / scale);
+  const direction: SurpriseDirection = surprise > 0 ? "above" : surprise < 0 ? "below" : "inline";
+  const isGood = (direction === "above") !== isLowerBetterEvent(event.event_name);
+
+  result.surprise = surprise;
+  result.surprisePct =
+    toBase(forecast) !== 0
+      ? round(((toBase(actual) - toBase(forecast)) / Math.abs(toBase(forecast))) * 100, 2)
+      : null;
+  result.direction = direction;
+  result.sentiment = direction === "inline" ? "neutral" : isGood ? "better" : "worse";
+
+  if (previousSurprises.length >= MIN_SCORE_HISTORY) {
+    const mean = previousSurprises.reduce((sum, s) => sum + s, 0) / previousSurprises.length;
+    const variance =
+      previousSurprises.reduce((sum, s) => sum + (s - mean) ** 2, 0) / previousSurprises.length;
+    const stdDev = Math.sqrt(variance);
+    if (stdDev > 0) result.score = round(surprise / stdDev, 2);
+  }
+
+  return result;
+}
+
+// ============================================
+// SERIES
+// ============================================
+
+/**
+ * Releases of one series, oldest first, each scored against the releases before it.
+ */
+export function buildEventSeries(events: EconomicEvent[]): EventSeriesRelease[] {
+  const sorted = [...events].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time)
+  );
+
+  const surprises: number[] = [];
+  return sorted.map((event) => {
+    const surprise = calculateEventSurprise(event, surprises);
+    if (surprise.surprise !== null) surprises.push(surprise.surprise);
+    return { event, surprise };
+  });
+}
+
+// ============================================
+// TRADES AROUND RELEASES
+// ============================================
+
+/**
+ * Closed trades taken inside the news window of the series releases, overall and
+ * by surprise direction. A trade counts for the first release it is around.
+ * Every release counts regardless of the impact filter of the settings.
+ */
+export function calculateSeriesTradePerformance(
+  releases: EventSeriesRelease[],
+  trades: EventSeriesTrade[],
+  settings: NewsSettings = DEFAULT_NEWS_SETTINGS,
+  timezone: string = DEFAULT_SESSION_SETTINGS.timezone
+): EventSeriesPerformance {
+  const window: NewsSettings = { ...settings, impacts: ["high", "medium", "low"] };
+
+  const tradesByDate = new Map<string, EventSeriesTrade[]>();
+  trades.forEach((trade) => {
+    if (!trade.entryDate) return;
+    const date = trade.entryDate.substring(0, 10);
+    tradesByDate.set(date, [...(tradesByDate.get(date) || []), trade]);
+  });
+
+  const assigned = new Set<string>();
+  const grouped: Record<SurpriseDirection, EventSeriesTrade[]> = {
+    above: [],
+    below: [],
+    inline: [],
+  };
+  const releaseStats: EventSeriesPerformance["releases"] = [];
+
+  releases.forEach(({ event, surprise }) => {
+    // Windows are hours at most: the release day and its neighbours cover them
+    const day = new Date(`${event.date}T12:00:00Z`).getTime();
+    const candidates = [-1, 0, 1].flatMap(
+      (offset) =>
+        tradesByDate.get(new Date(day + offset * 86400000).toISOString().split("T")[0]) || []
+    );
+
+    const around = candidates.filter(
+      (trade) =>
+        !assigned.has(trade.id) &&
+        trade.outcome &&
+        trade.outcome !== "pending" &&
+        findTradeNewsEvents(trade, [event], window, timezone).length > 0
+    );
+    if (around.length === 0) return;
+
+    around.forEach((trade) => assigned.add(trade.id));
+    if (surprise.direction) grouped[surprise.direction].push(...around);
+    releaseStats.push({
+      date: event.date,
+      direction: surprise.direction,
+      trades: around.length,
+      totalPnL: around.reduce((sum, t) => sum + (t.pnl || 0), 0),
+    });
+  });
+
+  return {
+    overall: calculateNewsGroupMetrics(trades.filter((t) => assigned.has(t.id))),
+    byDirection: {
+      above: calculateNewsGroupMetrics(grouped.above),
+      below: calculateNewsGroupMetrics(grouped.below),
+      inline: calculateNewsGroupMetrics(grouped.inline),
+    },
+    releases: releaseStats,
+  };
+}
@@ -4,3 +4,7 @@
 export * from "./report";
 export * from "./tagAnalytics";
 export * from "./tax";
+export * from "./b3Fees";
+export * from "./news";
+export * from "./eventSurprise";
+export * from "./monteCarlo";
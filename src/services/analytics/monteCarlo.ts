@@ -0,0 +1,272 @@
+/**
+ * Monte Carlo Simulation
+ *
+ * Resamples the account's closed trades (as R-multiples or PnL) into thousands of
+ * possible future equity paths. The paths give the equity fan chart, the chance of
+ * hitting the account drawdown limit (`accounts.max_drawdown`), the risk of ruin
+ * at a given risk per trade and the losing streaks to expect.
+ */
+
+import type { Trade } from "@/types";
+import { resolveContractMultiplier } from "./b3Fees";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/** Fields of a historical trade used as a sample (the lite trade history has them) */
+export type MonteCarloTrade = Pick<
+  Trade,
+  "outcome" | "rMultiple" | "pnl" | "entryPrice" | "stopLoss" | "lot" | "symbol"
+>;
+
+/** "r": each trade risks `riskPercent` of the balance; "pnl": trades replay their PnL */
+export type MonteCarloMode = "r" | "pnl";
+
+export interface MonteCarloConfig {
+  mode: MonteCarloMode;
+  startingBalance: number;
+  /** Trades in each simulated path */
+  tradesPerPath: number;
+  /** Number of simulated paths */
+  simulations: number;
+  /** Risk per trade in % of the current balance (R mode only) */
+  riskPercent: number;
+  /** Drawdown limit from the peak, in % of the starting balance (0 = no limit) */
+  drawdownLimitPercent: number;
+  /** Loss, in % of the starting balance, at which the account counts as ruined */
+  ruinPercent: number;
+  /** Same seed + same inputs = same paths */
+  seed?: number;
+}
+
+export interface MonteCarloBand {
+  /** Trade number (0 = starting balance) */
+  trade: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  /** Historical trades used as samples */
+  sampleSize: number;
+  /** Equity percentiles after each trade */
+  bands: MonteCarloBand[];
+  finalBalance: { p5: number; p50: number; p95: number };
+  /** % of paths that ended above the starting balance */
+  profitProbability: number;
+  /** % of paths whose drawdown reached the limit */
+  drawdownLimitProbability: number;
+  /** % of paths that lost `ruinPercent` of the starting balance */
+  riskOfRuin: number;
+  /** Max drawdown of the paths, in % of the peak */
+  maxDrawdownPercent: { p50: number; p95: number };
+  /** Longest losing streak of the paths */
+  maxLosingStreak: { expected: number; p95: number };
+}
+
+export interface RiskOfRuinRow {
+  riskPercent: number;
+  riskOfRuin: number;
+  drawdownLimitProbability: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const DEFAULT_MONTE_CARLO_CONFIG: Omit<MonteCarloConfig, "startingBalance"> = {
+  mode: "r",
+  tradesPerPath: 100,
+  simulations: 1000,
+  riskPercent: 1,
+  drawdownLimitPercent: 10,
+  ruinPercent: 50,
+  seed: 42,
+};
+
+/** Minimum closed trades for a meaningful simulation */
+export const MIN_MONTE_CARLO_SAMPLES = 20;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/** Small seeded PRNG (mulberry32) so a simulation can be reproduced */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Percentile of an ascending sorted array (linear interpolation) */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * R-multiple of a closed trade: the stored one, or the PnL over the initial risk
+ * (entry-to-stop distance × lot × asset multiplier). The multiplier comes from the
+ * user's assets (symbol -> multiplier) before the defaults.
+ */
+export function getTradeRMultiple(
+  trade: Pick<Trade, "rMultiple" | "pnl" | "entryPrice" | "stopLoss" | "lot" | "symbol">,
+  userMultipliers: Record<string, number> = {}
+): number | null {
+  if (typeof trade.rMultiple === "number" && Number.isFinite(trade.rMultiple)) {
+    return trade.rMultiple;
+  }
+  if (!trade.entryPrice || !trade.stopLoss || trade.pnl === undefined) return null;
+
+  const multiplier = resolveContractMultiplier(trade.symbol, userMultipliers);
+  const risk = Math.abs(trade.entryPrice - trade.stopLoss) * trade.lot * multiplier;
+  return risk > 0 ? trade.pnl / risk : null;
+}
+
+/**
+ * Results of the closed trades to resample: R-multiples (trades without stop are
+ * skipped) or PnL.
+ */
+export function getMonteCarloSamples(
+  trades: MonteCarloTrade[],
+  mode: MonteCarloMode,
+  userMultipliers: Record<string, number> = {}
+): number[] {
+  return trades
+    .filter((trade) => trade.outcome && trade.outcome !== "pending")
+    .map((trade) =>
+      mode === "r" ? getTradeRMultiple(trade, userMultipliers) : (trade.pnl ?? null)
+    )
+    .filter((value): value is number => value !== null && Number.isFinite(value));
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+/**
+ * Runs the simulation: every path draws `tradesPerPath` results at random (with
+ * replacement) from the samples. A ruined path stops trading.
+ */
+export function runMonteCarlo(samples: number[], config: MonteCarloConfig): MonteCarloResult {
+  const { startingBalance, tradesPerPath, simulations } = config;
+  const random = createRandom(config.seed ?? DEFAULT_MONTE_CARLO_CONFIG.seed!);
+  const drawdownLimit = (startingBalance * config.drawdownLimitPercent) / 100;
+  const ruinBalance = startingBalance * (1 - config.ruinPercent / 100);
+
+  // equity[step][path]
+  const equity = Array.from({ length: tradesPerPath + 1 }, () => new Array<number>(simulations));
+  const finalBalances: number[] = [];
+  const maxDrawdowns: number[] = [];
+  const losingStreaks: number[] = [];
+  let hitDrawdownLimit = 0;
+  let ruined = 0;
+
+  for (let path = 0; path < simulations; path++) {
+    let balance = startingBalance;
+    let peak = startingBalance;
+    let maxDrawdown = 0;
+    let streak = 0;
+    let maxStreak = 0;
+    let hitLimit = false;
+    let isRuined = false;
+    equity[0][path] = balance;
+
+    for (let step = 1; step <= tradesPerPath; step++) {
+      if (!isRuined && samples.length > 0) {
+        const result = samples[Math.floor(random() * samples.length)];
+        balance += config.mode === "r" ? balance * (config.riskPercent / 100) * result : result;
+
+        streak = result < 0 ? streak + 1 : 0;
+        maxStreak = Math.max(maxStreak, streak);
+        peak = Math.max(peak, balance);
+        if (peak > 0) maxDrawdown = Math.max(maxDrawdown, ((peak - balance) / peak) * 100);
+        if (drawdownLimit > 0 && peak - balance >= drawdownLimit) hitLimit = true;
+        if (balance <= ruinBalance) isRuined = true;
+      }
+      equity[step][path] = balance;
+    }
+
+    finalBalances.push(balance);
+    maxDrawdowns.push(maxDrawdown);
+    losingStreaks.push(maxStreak);
+    if (hitLimit) hitDrawdownLimit++;
+    if (isRuined) ruined++;
+  }
+
+  const sortAsc = (values: number[]) => [...values].sort((a, b) => a - b);
+  const toPct = (count: number) => (simulations > 0 ? round((count / simulations) * 100, 1) : 0);
+
+  const bands = equity.map((values, trade) => {
+    const sorted = sortAsc(values);
+    return {
+      trade,
+      p5: round(percentile(sorted, 5)),
+      p25: round(percentile(sorted, 25)),
+      p50: round(percentile(sorted, 50)),
+      p75: round(percentile(sorted, 75)),
+      p95: round(percentile(sorted, 95)),
+    };
+  });
+
+  const sortedFinal = sortAsc(finalBalances);
+  const sortedDrawdowns = sortAsc(maxDrawdowns);
+  const sortedStreaks = sortAsc(losingStreaks);
+
+  return {
+    sampleSize: samples.length,
+    bands,
+    finalBalance: {
+      p5: round(percentile(sortedFinal, 5)),
+      p50: round(percentile(sortedFinal, 50)),
+      p95: round(percentile(sortedFinal, 95)),
+    },
+    profitProbability: toPct(finalBalances.filter((b) => b > startingBalance).length),
+    drawdownLimitProbability: toPct(hitDrawdownLimit),
+    riskOfRuin: toPct(ruined),
+    maxDrawdownPercent: {
+      p50: round(percentile(sortedDrawdowns, 50)),
+      p95: round(percentile(sortedDrawdowns, 95)),
+    },
+    maxLosingStreak: {
+      expected: round(
+        losingStreaks.reduce((sum, s) => sum + s, 0) / Math.max(1, losingStreaks.length),
+        1
+      ),
+      p95: Math.round(percentile(sortedStreaks, 95)),
+    },
+  };
+}
+
+/**
+ * Risk of ruin and chance of hitting the drawdown limit for several risks per
+ * trade (R mode), with the same seed so the rows are comparable.
+ */
+export function getRiskOfRuinTable(
+  samples: number[],
+  config: MonteCarloConfig,
+  riskLevels: number[] = [0.5, 1, 2, 3, 5]
+): RiskOfRuinRow[] {
+  return riskLevels.map((riskPercent) => {
+    const result = runMonteCarlo(samples, { ...config, mode: "r", riskPercent });
+    return {
+      riskPercent,
+      riskOfRuin: result.riskOfRuin,
+      drawdownLimitProbability: result.drawdownLimitProbability,
+    };
+  });
+}
@@ -0,0 +1,411 @@
+/**
+ * News Impact Analytics
+ *
+ * Links economic calendar events to trades: a trade is "news-adjacent" when an event
+ * of one of its symbol's currencies, with a tracked impact, happens inside the
+ * configured window around the entry. Calendar times are New York wall clock (as
+ * synced from ForexFactory); trade times are in the user's session timezone.
+ *
+ * The blackout rule is the preventive side: entries inside its window around a
+ * release are warned about before logging and counted as violations afterwards.
+ */
+
+import {
+  DEFAULT_NEWS_BLACKOUT_RULE,
+  DEFAULT_NEWS_SETTINGS,
+  DEFAULT_SESSION_SETTINGS,
+  NewsImpact,
+} from "@/types";
+import type { NewsBlackoutRule, NewsSettings, Trade } from "@/types";
+import type { EconomicEvent } from "@/lib/database/repositories/external/economicEvents.repository";
+import { getDefaultAsset } from "@/constants/defaultAssets";
+import { calculateRMultiple, toSessionInstant } from "@/lib/utils/trading";
+
+/** Timezone of the economic calendar event times */
+export const NEWS_EVENT_TIMEZONE = "America/New_York";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export interface TradeNewsEvent {
+  eventName: string;
+  currency: string;
+  impact: NewsImpact;
+  /** Event time minus entry time; negative when the event came before the entry */
+  minutesFromEntry: number;
+}
+
+/** Fields of a trade used by the group metrics (the lite trade history has them) */
+export type NewsMetricsTrade = Pick<
+  Trade,
+  "outcome" | "pnl" | "rMultiple" | "entryPrice" | "exitPrice" | "stopLoss" | "type" | "legs"
+>;
+
+export interface NewsGroupMetrics {
+  trades: number;
+  wins: number;
+  winRate: number;
+  /** Average R of the trades with a computable R */
+  avgR: number | null;
+  totalPnL: number;
+}
+
+export interface NewsImpactSummary {
+  news: NewsGroupMetrics;
+  others: NewsGroupMetrics;
+}
+
+export interface BlackoutWeek {
+  /** Monday of the week, YYYY-MM-DD */
+  weekStart: string;
+  trades: number;
+  violations: number;
+}
+
+// ============================================
+// SYMBOL CURRENCIES
+// ============================================
+
+/** Currencies of the economic calendar */
+export const CALENDAR_CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "AUD",
+  "NZD",
+  "CAD",
+  "CHF",
+  "CNY",
+  "BRL",
+];
+
+/** Indices, futures and commodities driven by a single economy */
+const SYMBOL_CURRENCIES: Record<string, string[]> = {
+  US30: ["USD"],
+  US100: ["USD"],
+  US500: ["USD"],
+  USTEC: ["USD"],
+  NAS100: ["USD"],
+  SPX: ["USD"],
+  SPX500: ["USD"],
+  NQ: ["USD"],
+  MNQ: ["USD"],
+  ES: ["USD"],
+  MES: ["USD"],
+  YM: ["USD"],
+  MYM: ["USD"],
+  RTY: ["USD"],
+  GC: ["USD"],
+  MGC: ["USD"],
+  CL: ["USD"],
+  MCL: ["USD"],
+  GER40: ["EUR"],
+  DE40: ["EUR"],
+  DAX: ["EUR"],
+  UK100: ["GBP"],
+  JP225: ["JPY"],
+  AUS200: ["AUD"],
+  WIN: ["BRL"],
+  IND: ["BRL"],
+  WDO: ["BRL", "USD"],
+  DOL: ["BRL", "USD"],
+};
+
+/** Markets of the default assets quoted in USD */
+const USD_MARKETS = ["CME", "CFD", "COMEX", "NYMEX", "Commodities", "Crypto"];
+
+/**
+ * Currencies whose economic news move a symbol.
+ * FX pairs (and metals/crypto quoted against a currency) use both legs;
+ * B3 futures maturities use the root (WDOF25 -> WDO).
+ */
+export function getSymbolCurrencies(symbol: string): string[] {
+  const ticker = symbol
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "");
+
+  const known =
+    SYMBOL_CURRENCIES[ticker] || SYMBOL_CURRENCIES[ticker.replace(/[FGHJKMNQUVXZ]\d{2}$/, "")];
+  if (known) return known;
+
+  if (ticker.length === 6) {
+    const legs = [ticker.slice(0, 3), ticker.slice(3)].filter((c) =>
+      CALENDAR_CURRENCIES.includes(c)
+    );
+    if (legs.length > 0) return legs;
+  }
+
+  const quote = CALENDAR_CURRENCIES.find((c) => ticker.endsWith(c) || ticker.endsWith(`${c}T`));
+  if (quote) return [quote];
+
+  const asset = getDefaultAsset(ticker);
+  return asset && USD_MARKETS.includes(asset.market) ? ["USD"] : [];
+}
+
+// ============================================
+// EVENT MATCHING
+// ============================================
+
+/**
+ * Events of the given currencies (any when null) and impacts whose time minus
+ * the entry falls in [-minutesBefore, minutesAfter], sorted by time.
+ */
+function matchEventsAround(
+  entry: Date,
+  currencies: string[] | null,
+  events: EconomicEvent[],
+  window: Pick<NewsSettings, "minutesBefore" | "minutesAfter" | "impacts">
+): TradeNewsEvent[] {
+  const matches: TradeNewsEvent[] = [];
+
+  for (const event of events) {
+    if (currencies && !currencies.includes(event.currency.toUpperCase())) continue;
+    if (!window.impacts.includes(event.impact as NewsImpact)) continue;
+
+    const instant = toSessionInstant(event.date, event.time, NEWS_EVENT_TIMEZONE);
+    if (!instant) continue;
+
+    const minutesFromEntry = Math.round((instant.getTime() - entry.getTime()) / 60000);
+    if (minutesFromEntry < -window.minutesBefore || minutesFromEntry > window.minutesAfter) {
+      continue;
+    }
+
+    matches.push({
+      eventName: event.event_name,
+      currency: event.currency.toUpperCase(),
+      impact: event.impact as NewsImpact,
+      minutesFromEntry,
+    });
+  }
+
+  return matches.sort((a, b) => a.minutesFromEntry - b.minutesFromEntry);
+}
+
+/**
+ * Events inside the news window of a trade, sorted by time.
+ * Trades without an entry time can't be placed against the calendar and get none.
+ */
+export function findTradeNewsEvents(
+  trade: Pick<Trade, "symbol" | "entryDate" | "entryTime">,
+  events: EconomicEvent[],
+  settings: NewsSettings = DEFAULT_NEWS_SETTINGS,
+  timezone: string = DEFAULT_SESSION_SETTINGS.timezone
+): TradeNewsEvent[] {
+  if (!trade.entryTime) return [];
+  const entry = toSessionInstant(trade.entryDate, trade.entryTime, timezone);
+  if (!entry) return [];
+
+  return matchEventsAround(entry, getSymbolCurrencies(trade.symbol), events, settings);
+}
+
+/**
+ * News events of every trade, keyed by trade id. Only news-adjacent trades are present.
+ */
+export function annotateTradesWithNews(
+  trades: Trade[],
+  events: EconomicEvent[],
+  settings: NewsSettings = DEFAULT_NEWS_SETTINGS,
+  timezone: string = DEFAULT_SESSION_SETTINGS.timezone
+): Record<string, TradeNewsEvent[]> {
+  const eventsAround = groupEventsByDate(events);
+
+  const annotations: Record<string, TradeNewsEvent[]> = {};
+  trades.forEach((trade) => {
+    const matches = findTradeNewsEvents(trade, eventsAround(trade.entryDate), settings, timezone);
+    if (matches.length > 0) annotations[trade.id] = matches;
+  });
+
+  return annotations;
+}
+
+/**
+ * Lookup of the events of a day and its neighbours. Windows are hours at most,
+ * so they are enough to cover entries near midnight.
+ */
+function groupEventsByDate(events: EconomicEvent[]): (date: string) => EconomicEvent[] {
+  const byDate = new Map<string, EconomicEvent[]>();
+  events.forEach((event) => {
+    const list = byDate.get(event.date) || [];
+    list.push(event);
+    byDate.set(event.date, list);
+  });
+
+  return (date) => {
+    const day = new Date(`${date.substring(0, 10)}T12:00:00Z`);
+    return [-1, 0, 1].flatMap((offset) => {
+      const key = new Date(day.getTime() + offset * 86400000).toISOString().split("T")[0];
+      return byDate.get(key) || [];
+    });
+  };
+}
+
+// ============================================
+// STORED SETTINGS
+// ============================================
+
+const NEWS_IMPACTS: NewsImpact[] = ["high", "medium", "low"];
+
+const toMinutes = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+const toImpacts = (value: unknown, fallback: NewsImpact[]) =>
+  Array.isArray(value) ? NEWS_IMPACTS.filter((impact) => value.includes(impact)) : fallback;
+
+/**
+ * Reads the news settings stored for the user. Missing or invalid values fall back
+ * to DEFAULT_NEWS_SETTINGS (and DEFAULT_NEWS_BLACKOUT_RULE for the blackout rule);
+ * unknown impacts and currencies that are not strings are left out.
+ */
+export function normalizeNewsSettings(value: unknown): NewsSettings {
+  if (!value || typeof value !== "object") return DEFAULT_NEWS_SETTINGS;
+
+  const raw = value as Partial<Record<keyof NewsSettings, unknown>>;
+  const settings: NewsSettings = {
+    minutesBefore: toMinutes(raw.minutesBefore, DEFAULT_NEWS_SETTINGS.minutesBefore),
+    minutesAfter: toMinutes(raw.minutesAfter, DEFAULT_NEWS_SETTINGS.minutesAfter),
+    impacts: toImpacts(raw.impacts, DEFAULT_NEWS_SETTINGS.impacts),
+  };
+  if (!raw.blackout || typeof raw.blackout !== "object") return settings;
+
+  const blackout = raw.blackout as Partial<Record<keyof NewsBlackoutRule, unknown>>;
+  const defaults = DEFAULT_NEWS_BLACKOUT_RULE;
+  return {
+    ...settings,
+    blackout: {
+      enabled: typeof blackout.enabled === "boolean" ? blackout.enabled : defaults.enabled,
+      currencies: Array.isArray(blackout.currencies)
+        ? blackout.currencies.filter((currency): currency is string => typeof currency === "string")
+        : defaults.currencies,
+      impacts: toImpacts(blackout.impacts, defaults.impacts),
+      minutesBefore: toMinutes(blackout.minutesBefore, defaults.minutesBefore),
+      minutesAfter: toMinutes(blackout.minutesAfter, defaults.minutesAfter),
+    },
+  };
+}
+
+// ============================================
+// BLACKOUT RULE
+// ============================================
+
+/**
+ * Blackout rule of the user's news settings, falling back to the default rule.
+ */
+export function getBlackoutRule(settings?: NewsSettings): NewsBlackoutRule {
+  return settings?.blackout ?? DEFAULT_NEWS_BLACKOUT_RULE;
+}
+
+/**
+ * Releases whose blackout window contains the instant. Without a symbol, a rule with
+ * no currencies matches events of any currency.
+ */
+export function findBlackoutEvents(
+  instant: Date,
+  events: EconomicEvent[],
+  rule: NewsBlackoutRule = DEFAULT_NEWS_BLACKOUT_RULE,
+  symbol?: string
+): TradeNewsEvent[] {
+  if (!rule.enabled) return [];
+
+  const currencies =
+    rule.currencies.length > 0 ? rule.currencies : symbol ? getSymbolCurrencies(symbol) : null;
+
+  // "Before the release" means the event is still ahead of the entry
+  return matchEventsAround(instant, currencies, events, {
+    minutesBefore: rule.minutesAfter,
+    minutesAfter: rule.minutesBefore,
+    impacts: rule.impacts,
+  });
+}
+
+/**
+ * Releases whose blackout window contains the trade entry.
+ */
+export function findTradeBlackoutEvents(
+  trade: Pick<Trade, "symbol" | "entryDate" | "entryTime">,
+  events: EconomicEvent[],
+  rule: NewsBlackoutRule = DEFAULT_NEWS_BLACKOUT_RULE,
+  timezone: string = DEFAULT_SESSION_SETTINGS.timezone
+): TradeNewsEvent[] {
+  if (!trade.entryTime) return [];
+  const entry = toSessionInstant(trade.entryDate, trade.entryTime, timezone);
+  if (!entry) return [];
+
+  return findBlackoutEvents(entry, events, rule, trade.symbol);
+}
+
+/**
+ * Trades and blackout violations per week (weeks start on Monday), oldest first.
+ */
+export function countBlackoutViolationsByWeek(
+  trades: Trade[],
+  events: EconomicEvent[],
+  rule: NewsBlackoutRule = DEFAULT_NEWS_BLACKOUT_RULE,
+  timezone: string = DEFAULT_SESSION_SETTINGS.timezone
+): BlackoutWeek[] {
+  const eventsAround = groupEventsByDate(events);
+  const weeks = new Map<string, BlackoutWeek>();
+
+  trades.forEach((trade) => {
+    if (!trade.entryDate) return;
+    const day = new Date(`${trade.entryDate.substring(0, 10)}T12:00:00Z`);
+    const monday = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * 86400000);
+    const weekStart = monday.toISOString().split("T")[0];
+
+    const week = weeks.get(weekStart) || { weekStart, trades: 0, violations: 0 };
+    week.trades += 1;
+    if (findTradeBlackoutEvents(trade, eventsAround(trade.entryDate), rule, timezone).length > 0) {
+      week.violations += 1;
+    }
+    weeks.set(weekStart, week);
+  });
+
+  return Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+}
+
+// ============================================
+// METRICS CALCULATION
+// ============================================
+
+function getTradeR(trade: NewsMetricsTrade): number | null {
+  if (trade.rMultiple !== undefined && trade.rMultiple !== null) return trade.rMultiple;
+  return calculateRMultiple(
+    trade.entryPrice,
+    trade.exitPrice,
+    trade.stopLoss,
+    trade.type,
+    trade.legs
+  );
+}
+
+/**
+ * Win rate, average R and PnL of the closed trades of a group.
+ */
+export function calculateNewsGroupMetrics(trades: NewsMetricsTrade[]): NewsGroupMetrics {
+  const closed = trades.filter((t) => t.outcome && t.outcome !== "pending");
+  const wins = closed.filter((t) => t.outcome === "win").length;
+  const rValues = closed.map(getTradeR).filter((r): r is number => r !== null);
+
+  return {
+    trades: closed.length,
+    wins,
+    winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0,
+    avgR: rValues.length > 0 ? rValues.reduce((sum, r) => sum + r, 0) / rValues.length : null,
+    totalPnL: closed.reduce((sum, t) => sum + (t.pnl || 0), 0),
+  };
+}
+
+/**
+ * Compare closed trades taken around news with the rest.
+ */
+export function calculateNewsImpact(
+  trades: Trade[],
+  annotations: Record<string, TradeNewsEvent[]>
+): NewsImpactSummary {
+  return {
+    news: calculateNewsGroupMetrics(trades.filter((t) => annotations[t.id])),
+    others: calculateNewsGroupMetrics(trades.filter((t) => !annotations[t.id])),
+  };
+}
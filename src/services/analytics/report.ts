@@ -1,23 +1,21 @@
 /**
- * Excel Report Generator
+ * Performance Report
  *
- * NOTE: Excel export functionality is currently DISABLED because ExcelJS
- * was removed to reduce bundle size (~800KB savings).
- *
- * To re-enable:
- * 1. Run: npm install exceljs
- * 2. Restore the original implementation from git history
- *
- * The helper functions are preserved and can be used for other report formats.
+ * Builds the data of the performance report (summary, monthly metrics, strategy and
+ * tag stats, equity curve) for a date range. Pure: the XLSX/PDF files are rendered
+ * on the server by src/lib/reports.
  */
 
 import { Trade } from "@/types";
 import dayjs from "dayjs";
 import "dayjs/locale/pt-br";
+import { calculateTagMetrics, type TagMetrics } from "./tagAnalytics";
 
 dayjs.locale("pt-br");
 
-interface ReportMetrics {
+export type ReportFormat = "xlsx" | "pdf";
+
+export interface ReportMetrics {
   totalTrades: number;
   winRate: number;
   profitFactor: number;
@@ -26,7 +24,7 @@ interface ReportMetrics {
   worstTrade: number;
 }
 
-interface MonthlyMetrics {
+export interface MonthlyMetrics {
   month: string;
   trades: number;
   wins: number;
@@ -36,32 +34,11 @@ interface MonthlyMetrics {
 }
 
 /**
- * Generates an Excel report for a given period and account.
- *
- * @deprecated Excel export is currently disabled. ExcelJS was removed to reduce bundle size.
- * @throws Error - Always throws, indicating the feature is disabled.
- */
-export async function generateReport(
-  _accountId: string,
-  _startDate: Date,
-  _endDate: Date
-): Promise<Blob> {
-  // Suppress unused vars warning until feature is re-enabled
-  void _accountId;
-  void _startDate;
-  void _endDate;
-
-  throw new Error(
-    "Excel export is currently disabled. To enable, install exceljs: npm install exceljs"
-  );
-}
-
-/**
- * Triggers a download of the Excel file in the browser.
- * @param blob - The Blob containing the Excel file.
+ * Triggers a download of a report file in the browser.
+ * @param blob - The Blob containing the report.
  * @param filename - The name of the file to be downloaded.
  */
-export function downloadExcel(blob: Blob, filename: string): void {
+export function downloadReport(blob: Blob, filename: string): void {
   if (typeof window === "undefined") return;
   const url = window.URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -74,7 +51,7 @@ export function downloadExcel(blob: Blob, filename: string): void {
 }
 
 // ---------------------------------------------------------
-// HELPER FUNCTIONS (preserved for potential future use)
+// HELPER FUNCTIONS
 // ---------------------------------------------------------
 
 export function calculateReportMetrics(trades: Trade[]): ReportMetrics {
@@ -154,3 +131,121 @@ export function calculateMonthlyMetrics(trades: Trade[]): MonthlyMetrics[] {
 
   return metrics;
 }
+
+export interface StrategyMetrics {
+  strategy: string;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  netPnL: number;
+  avgPnL: number;
+  profitFactor: number;
+}
+
+/**
+ * Metrics per strategy; trades without strategy are grouped under "Sem estratégia".
+ */
+export function calculateStrategyMetrics(trades: Trade[]): StrategyMetrics[] {
+  const groups = new Map<string, Trade[]>();
+  trades.forEach((t) => {
+    const key = t.strategy || "Sem estratégia";
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([strategy, group]) => {
+      const wins = group.filter((t) => t.outcome === "win");
+      const losses = group.filter((t) => t.outcome === "loss");
+      const grossProfit = wins.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      const grossLoss = Math.abs(losses.reduce((sum, t) => sum + (t.pnl || 0), 0));
+      const netPnL = group.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      const decided = wins.length + losses.length;
+
+      return {
+        strategy,
+        totalTrades: group.length,
+        wins: wins.length,
+        losses: losses.length,
+        winRate: decided > 0 ? (wins.length / decided) * 100 : 0,
+        netPnL,
+        avgPnL: netPnL / group.length,
+        profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999 : 0,
+      };
+    })
+    .sort((a, b) => b.netPnL - a.netPnL);
+}
+
+export interface EquityPoint {
+  date: string;
+  balance: number;
+}
+
+export interface PerformanceReportOptions {
+  accountName: string;
+  currency: string;
+  initialBalance: number;
+  /** Inclusive range, YYYY-MM-DD */
+  startDate: string;
+  endDate: string;
+}
+
+export interface PerformanceReport extends PerformanceReportOptions {
+  generatedAt: string;
+  /** Balance at the start of the range (initial balance plus earlier trades) */
+  startBalance: number;
+  metrics: ReportMetrics & { maxDrawdown: number };
+  monthly: MonthlyMetrics[];
+  strategies: StrategyMetrics[];
+  tags: TagMetrics[];
+  /** Balance after each trade of the range, starting at startBalance */
+  equityCurve: EquityPoint[];
+  /** Trades of the range, oldest first */
+  trades: Trade[];
+}
+
+const tradeDate = (t: Trade) => t.entryDate.substring(0, 10);
+
+/**
+ * Builds the performance report of a date range.
+ * @param allTrades - Every trade of the account (earlier trades set the starting balance).
+ */
+export function buildPerformanceReport(
+  allTrades: Trade[],
+  options: PerformanceReportOptions
+): PerformanceReport {
+  const sorted = [...allTrades].sort((a, b) =>
+    `${tradeDate(a)} ${a.entryTime || ""}`.localeCompare(`${tradeDate(b)} ${b.entryTime || ""}`)
+  );
+  const trades = sorted.filter(
+    (t) => tradeDate(t) >= options.startDate && tradeDate(t) <= options.endDate
+  );
+  const startBalance =
+    options.initialBalance +
+    sorted
+      .filter((t) => tradeDate(t) < options.startDate)
+      .reduce((sum, t) => sum + (t.pnl || 0), 0);
+
+  const equityCurve: EquityPoint[] = [{ date: options.startDate, balance: startBalance }];
+  let balance = startBalance;
+  let peak = startBalance;
+  let maxDrawdown = 0;
+  trades.forEach((t) => {
+    balance += t.pnl || 0;
+    peak = Math.max(peak, balance);
+    maxDrawdown = Math.max(maxDrawdown, peak - balance);
+    equityCurve.push({ date: tradeDate(t), balance });
+  });
+
+  return {
+    ...options,
+    generatedAt: new Date().toISOString(),
+    startBalance,
+    metrics: { ...calculateReportMetrics(trades), maxDrawdown },
+    monthly: calculateMonthlyMetrics(trades),
+    strategies: calculateStrategyMetrics(trades),
+    tags: calculateTagMetrics(trades),
+    equityCurve,
+    trades,
+  };
+}
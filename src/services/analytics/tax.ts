@@ -1,4 +1,5 @@
 import { Trade } from "@/types";
+import { calculateB3Fees } from "./b3Fees";
 import dayjs from "dayjs";
 import isSameOrBefore from "dayjs/plugin/isSameOrBefore";
 import isSameOrAfter from "dayjs/plugin/isSameOrAfter";
@@ -6,13 +7,53 @@ import isSameOrAfter from "dayjs/plugin/isSameOrAfter";
 dayjs.extend(isSameOrBefore);
 dayjs.extend(isSameOrAfter);
 
+/** Classe do ativo na B3, define alíquota, isenção e em qual prejuízo o resultado compensa */
+export type TaxAssetClass = "stock" | "fii" | "etf" | "future";
+
+export type TaxRegime = "dayTrade" | "swingTrade";
+
+/**
+ * Prejuízos acumulados. Cada grupo só compensa lucro do mesmo grupo:
+ * Day Trade com Day Trade, Swing Trade (operações comuns) com Swing Trade e FII com FII.
+ */
+export interface TaxLossBuckets {
+  dayTrade: number;
+  swingTrade: number;
+  fii: number;
+}
+
+export type TaxBucket = keyof TaxLossBuckets;
+
+export const TAX_RATES: Record<TaxBucket, number> = {
+  dayTrade: 0.2,
+  swingTrade: 0.15,
+  fii: 0.2,
+};
+
+/** IRRF (dedo-duro): 1% do lucro no Day Trade, 0,005% do valor de venda no Swing Trade */
+export const IRRF_RATES: Record<TaxRegime, number> = {
+  dayTrade: 0.01,
+  swingTrade: 0.00005,
+};
+
+/** Vendas de ações em Swing Trade até este valor no mês são isentas */
+export const STOCK_SALES_EXEMPTION_LIMIT = 20000;
+
+/** DARF abaixo deste valor não é emitido; o imposto é somado ao mês seguinte */
+export const MIN_DARF_AMOUNT = 10;
+
+/** Todo o IR de renda variável de pessoa física (ações, FII, ETF, futuros) usa o código 6015 */
+export const DARF_CODE = "6015";
+
 export interface TaxableTrade extends Trade {
   brokerageFee: number;
   exchangeFee: number; // Emolumentos + Liquidação
   taxes: number; // ISS + outros
-  irrf: number; // Dedo-duro (1%)
+  irrf: number; // Dedo-duro (1% DT, 0,005% ST)
   netResult: number;
   isDayTrade: boolean;
+  assetClass?: TaxAssetClass; // Padrão: classifyB3Asset(symbol)
+  saleValue?: number; // Valor de venda (base do IRRF de Swing Trade e da isenção de 20k)
 }
 
 export interface TaxCalculation {
@@ -27,6 +68,50 @@ export interface TaxCalculation {
   dayTradeLossCarryForward: number; // Prejuízo a carregar para o próximo mês
 }
 
+/** Apuração de um grupo (Day Trade, Swing Trade ou FII) no mês */
+export interface RegimeTaxCalculation {
+  bucket: TaxBucket;
+  rate: number;
+  tradeCount: number;
+  grossProfit: number;
+  costs: number;
+  netResult: number; // Resultado considerado (sem o lucro isento)
+  exemptProfit: number; // Lucro de ações isento (vendas até 20k no Swing Trade)
+  previousLoss: number;
+  taxableBasis: number;
+  taxDue: number; // taxableBasis * rate, antes do IRRF
+  irrf: number;
+  lossCarryForward: number;
+}
+
+export interface TaxCarryOver {
+  losses: TaxLossBuckets;
+  irrfCredit: number; // IRRF retido maior que o imposto devido em meses anteriores
+  pendingTax: number; // Imposto abaixo de R$ 10,00 de meses anteriores
+}
+
+/** Apuração completa do mês: os três grupos e o DARF único (6015) */
+export interface MonthlyTaxReport {
+  month: string; // 'YYYY-MM'
+  dayTrade: RegimeTaxCalculation;
+  swingTrade: RegimeTaxCalculation;
+  fii: RegimeTaxCalculation;
+  stockSales: number; // Vendas de ações em Swing Trade no mês
+  stockExempt: boolean;
+  taxDue: number; // Soma dos grupos
+  irrfDeduction: number; // IRRF do mês + crédito anterior
+  pendingTax: number; // Imposto acumulado de meses anteriores (< R$ 10,00)
+  amountDue: number; // taxDue - irrfDeduction + pendingTax (0 se negativo)
+  darf: DARFModel | null; // null quando amountDue < R$ 10,00
+  carryOver: TaxCarryOver; // Saldo para o mês seguinte
+}
+
+export const EMPTY_TAX_CARRY_OVER: TaxCarryOver = {
+  losses: { dayTrade: 0, swingTrade: 0, fii: 0 },
+  irrfCredit: 0,
+  pendingTax: 0,
+};
+
 export interface DARFModel {
   code: string; // '6015'
   period: string; // 'YYYY-MM-DD' (último dia do mês)
@@ -38,6 +123,48 @@ export interface TaxCostsConfig {
   defaultBrokerageFee: number;
   defaultExchangeFeePct: number; // % sobre volume financeiro
   defaultTaxesPct: number; // % sobre corretagem (ISS)
+  assetClasses?: Record<string, TaxAssetClass>; // Classe por ativo, sobrepõe classifyB3Asset
+  brokerageFeePerContract?: number; // R$ por contrato/lote, somado à corretagem por trade
+  autoExchangeFees?: boolean; // Calcula emolumentos e liquidação pela tabela da B3
+  assetMultipliers?: Record<string, number>; // Multiplicadores do usuário (padrão: DEFAULT_ASSETS)
+}
+
+/** Contratos futuros negociados na B3 (mini e cheios) */
+const B3_FUTURES_PREFIXES = ["WIN", "WDO", "IND", "DOL", "BGI", "CCM", "ICF", "SFI", "DI1"];
+
+/** ETFs de final 11 mais negociados; os demais tickers 11 são tratados como FII */
+const B3_ETFS = new Set(
+  `BOVA11 BOVV11 BOVB11 BRAX11 DIVO11 ECOO11 FIND11 GOVE11 HASH11 IMAB11 IVVB11 MATB11
+  NASD11 PIBB11 SMAL11 SMAC11 SPXI11 XBOV11 XINA11 ACWI11 EURP11 GOLD11 QBTC11 ETHE11
+  BBSD11 B5P211 FIXA11`.split(/\s+/)
+);
+
+/** Units (ações) de final 11 */
+const B3_UNITS = new Set(
+  `TAEE11 SANB11 KLBN11 ALUP11 BPAC11 ENGI11 SAPR11 TIET11 IGTI11 BIDI11 CPLE11 RNEW11
+  AESB11 BRBI11 ITUB11 SULA11`.split(/\s+/)
+);
+
+/**
+ * Classifica o ativo pelo ticker da B3.
+ * Futuros pelo prefixo (WINJ25, WDO...), ETFs e units por lista e os demais tickers
+ * terminados em 11 como FII. Ajuste pela tela quando a heurística errar.
+ */
+export function classifyB3Asset(symbol: string): TaxAssetClass {
+  const ticker = symbol.trim().toUpperCase();
+  if (B3_FUTURES_PREFIXES.some((prefix) => ticker.startsWith(prefix))) return "future";
+  if (B3_ETFS.has(ticker)) return "etf";
+  if (/^[A-Z0-9]{4}11B?$/.test(ticker) && !B3_UNITS.has(ticker)) return "fii";
+  return "stock";
+}
+
+/**
+ * Valor de venda do trade: saída na compra (Long), entrada na venda a descoberto (Short).
+ * Considera o lote como quantidade de ações/cotas.
+ */
+export function calculateSaleValue(trade: Trade): number {
+  const price = trade.type === "Short" ? trade.entryPrice : (trade.exitPrice ?? trade.entryPrice);
+  return Math.abs(price * trade.lot);
 }
 
 /**
@@ -62,32 +189,33 @@ export function identifyDayTrades(trades: Trade[]): Trade[] {
  * Se o usuário fornecer custos padrão, aplicamos aqui.
  */
 export function enrichTradesWithCosts(trades: Trade[], config: TaxCostsConfig): TaxableTrade[] {
+  const b3Fees = config.autoExchangeFees
+    ? calculateB3Fees(trades, config.assetMultipliers)
+    : new Map<string, { total: number }>();
+
   return trades.map((trade) => {
     const isDT = trade.entryDate === trade.exitDate;
-
-    // Se não for Day Trade, não calculamos custos de DT, mas retornamos como TaxableTrade
-    // A lógica de IR de Swing Trade é diferente (isenção 20k), mas aqui focamos em Day Trade.
+    const assetClass =
+      config.assetClasses?.[trade.symbol.toUpperCase()] ?? classifyB3Asset(trade.symbol);
+    const saleValue = calculateSaleValue(trade);
 
     // Custos padrão
-    const brokerage = config.defaultBrokerageFee;
+    const brokerage =
+      config.defaultBrokerageFee + (config.brokerageFeePerContract || 0) * Math.abs(trade.lot);
     const taxes = brokerage * (config.defaultTaxesPct / 100);
 
-    // Emolumentos dependem do volume. Sem multiplicador do contrato, é difícil estimar.
-    // Vamos deixar 0 se não tivermos como calcular, ou usar um valor fixo se o usuário quiser.
-    // O ideal é o usuário editar na tabela.
-    // Vamos assumir que exchangeFeePct é sobre o RESULTADO BRUTO apenas como placeholder
-    // se não tivermos volume, mas isso estaria errado.
-    // Melhor: Deixar 0 e o usuário preenche, ou assumir volume = preço * lote (para ações).
-    // Para futuros, precisaria do multiplicador.
-    // Vamos deixar 0 por padrão para segurança.
-    const exchangeFee = 0;
+    // Emolumentos + liquidação pela tabela da B3 (volume com o multiplicador do contrato).
+    // Sem autoExchangeFees, ou fora da B3, fica 0 e o usuário preenche na tabela.
+    const exchangeFee = b3Fees.get(trade.id)?.total ?? 0;
 
     // IRRF (Dedo-duro)
-    // 1% sobre o lucro positivo
+    // Day Trade: 1% sobre o lucro positivo. Swing Trade: 0,005% sobre o valor de venda.
     let irrf = 0;
     const grossPnl = trade.pnl || 0;
     if (isDT && grossPnl > 0) {
-      irrf = grossPnl * 0.01;
+      irrf = grossPnl * IRRF_RATES.dayTrade;
+    } else if (!isDT) {
+      irrf = saleValue * IRRF_RATES.swingTrade;
     }
 
     const totalCosts = brokerage + taxes + exchangeFee;
@@ -100,12 +228,33 @@ export function enrichTradesWithCosts(trades: Trade[], config: TaxCostsConfig):
       irrf: irrf,
       netResult: grossPnl - totalCosts,
       isDayTrade: isDT,
+      assetClass,
+      saleValue,
     };
   });
 }
 
+/**
+ * Compensa o prejuízo acumulado com o resultado líquido do mês.
+ * @returns Base tributável e prejuízo que sobra para o mês seguinte
+ */
+function compensateLoss(
+  netResult: number,
+  previousLoss: number
+): { taxableBasis: number; lossCarryForward: number } {
+  if (netResult <= 0) {
+    // Prejuízo no mês, soma ao acumulado
+    return { taxableBasis: 0, lossCarryForward: previousLoss + Math.abs(netResult) };
+  }
+  if (netResult >= previousLoss) {
+    return { taxableBasis: netResult - previousLoss, lossCarryForward: 0 };
+  }
+  return { taxableBasis: 0, lossCarryForward: previousLoss - netResult };
+}
+
 /**
  * Calcula o imposto mensal para Day Trade.
+ * Para a apuração completa (Day Trade, Swing Trade e FII) use calculateMonthlyTaxReport.
  */
 export function calculateMonthlyTax(
   month: string, // 'YYYY-MM'
@@ -133,28 +282,10 @@ export function calculateMonthlyTax(
 
   const netResult = grossProfit - totalCosts;
 
-  // Compensação de prejuízos
-  // Compensação de prejuízos
-  let taxableBasis = 0;
-  let accumulatedLoss = previousLoss;
-
-  if (netResult > 0) {
-    if (accumulatedLoss > 0) {
-      if (netResult >= accumulatedLoss) {
-        taxableBasis = netResult - accumulatedLoss;
-        accumulatedLoss = 0;
-      } else {
-        accumulatedLoss -= netResult;
-        taxableBasis = 0;
-      }
-    } else {
-      taxableBasis = netResult;
-    }
-  } else {
-    // Prejuízo no mês, soma ao acumulado
-    // netResult é negativo, então subtraimos (somamos o valor absoluto)
-    accumulatedLoss += Math.abs(netResult);
-  }
+  const { taxableBasis, lossCarryForward: accumulatedLoss } = compensateLoss(
+    netResult,
+    previousLoss
+  );
 
   let taxDue = 0;
   if (taxableBasis > 0) {
@@ -184,7 +315,136 @@ export function calculateMonthlyTax(
   };
 }
 
-export function generateDARFData(calculation: TaxCalculation): DARFModel {
+const tradeCosts = (t: TaxableTrade) => t.brokerageFee + t.exchangeFee + t.taxes;
+
+const taxBucketOf = (t: TaxableTrade): TaxBucket =>
+  (t.assetClass ?? classifyB3Asset(t.symbol)) === "fii"
+    ? "fii"
+    : t.isDayTrade
+      ? "dayTrade"
+      : "swingTrade";
+
+function calculateRegimeTax(
+  bucket: TaxBucket,
+  trades: TaxableTrade[],
+  previousLoss: number,
+  isExempt: (t: TaxableTrade) => boolean = () => false
+): RegimeTaxCalculation {
+  let grossProfit = 0;
+  let costs = 0;
+  let netResult = 0;
+  let exemptProfit = 0;
+  let irrf = 0;
+
+  trades.forEach((t) => {
+    const net = (t.pnl || 0) - tradeCosts(t);
+    grossProfit += t.pnl || 0;
+    costs += tradeCosts(t);
+    irrf += t.irrf;
+    // Lucro isento não entra na apuração; prejuízo de mês isento continua compensável
+    if (isExempt(t) && net > 0) exemptProfit += net;
+    else netResult += net;
+  });
+
+  const { taxableBasis, lossCarryForward } = compensateLoss(netResult, previousLoss);
+
+  return {
+    bucket,
+    rate: TAX_RATES[bucket],
+    tradeCount: trades.length,
+    grossProfit,
+    costs,
+    netResult,
+    exemptProfit,
+    previousLoss,
+    taxableBasis,
+    taxDue: taxableBasis * TAX_RATES[bucket],
+    irrf,
+    lossCarryForward,
+  };
+}
+
+/**
+ * Apuração mensal de renda variável: Day Trade (20%), Swing Trade (15%, com isenção
+ * para vendas de ações até R$ 20.000,00) e FII (20%), cada um com seu prejuízo acumulado.
+ * O IRRF do mês e o crédito anterior abatem o imposto total, que é pago em um único
+ * DARF 6015; abaixo de R$ 10,00 o valor passa para o mês seguinte.
+ */
+export function calculateMonthlyTaxReport(
+  month: string, // 'YYYY-MM'
+  trades: TaxableTrade[],
+  previous: TaxCarryOver = EMPTY_TAX_CARRY_OVER
+): MonthlyTaxReport {
+  const monthTrades = trades.filter((t) => t.exitDate?.startsWith(month));
+  const byBucket = (bucket: TaxBucket) => monthTrades.filter((t) => taxBucketOf(t) === bucket);
+
+  const isStockSwing = (t: TaxableTrade) =>
+    !t.isDayTrade && (t.assetClass ?? classifyB3Asset(t.symbol)) === "stock";
+  const stockSales = monthTrades
+    .filter(isStockSwing)
+    .reduce((sum, t) => sum + (t.saleValue ?? calculateSaleValue(t)), 0);
+  const stockExempt = stockSales > 0 && stockSales <= STOCK_SALES_EXEMPTION_LIMIT;
+
+  const dayTrade = calculateRegimeTax("dayTrade", byBucket("dayTrade"), previous.losses.dayTrade);
+  const swingTrade = calculateRegimeTax(
+    "swingTrade",
+    byBucket("swingTrade"),
+    previous.losses.swingTrade,
+    (t) => stockExempt && isStockSwing(t)
+  );
+  const fii = calculateRegimeTax("fii", byBucket("fii"), previous.losses.fii);
+
+  const taxDue = dayTrade.taxDue + swingTrade.taxDue + fii.taxDue;
+  const irrfDeduction = dayTrade.irrf + swingTrade.irrf + fii.irrf + previous.irrfCredit;
+  const afterIrrf = taxDue - irrfDeduction;
+  const payable = Math.max(0, afterIrrf) + previous.pendingTax;
+  const hasDarf = payable >= MIN_DARF_AMOUNT;
+
+  return {
+    month,
+    dayTrade,
+    swingTrade,
+    fii,
+    stockSales,
+    stockExempt,
+    taxDue,
+    irrfDeduction,
+    pendingTax: previous.pendingTax,
+    amountDue: payable,
+    darf: hasDarf ? generateDARFData({ month, taxDue: payable }) : null,
+    carryOver: {
+      losses: {
+        dayTrade: dayTrade.lossCarryForward,
+        swingTrade: swingTrade.lossCarryForward,
+        fii: fii.lossCarryForward,
+      },
+      irrfCredit: Math.max(0, -afterIrrf),
+      pendingTax: hasDarf ? 0 : payable,
+    },
+  };
+}
+
+/**
+ * Apura os meses em sequência, levando prejuízos, crédito de IRRF e imposto
+ * abaixo de R$ 10,00 de um mês para o outro.
+ * @param months - Meses 'YYYY-MM' em ordem cronológica.
+ */
+export function calculateTaxPeriod(
+  months: string[],
+  trades: TaxableTrade[],
+  initial: TaxCarryOver = EMPTY_TAX_CARRY_OVER
+): MonthlyTaxReport[] {
+  const reports: MonthlyTaxReport[] = [];
+  let carryOver = initial;
+  months.forEach((month) => {
+    const report = calculateMonthlyTaxReport(month, trades, carryOver);
+    reports.push(report);
+    carryOver = report.carryOver;
+  });
+  return reports;
+}
+
+export function generateDARFData(calculation: Pick<TaxCalculation, "month" | "taxDue">): DARFModel {
   // Vencimento: Último dia útil do mês subsequente
   const [year, month] = calculation.month.split("-").map(Number);
 
@@ -207,7 +467,7 @@ export function generateDARFData(calculation: TaxCalculation): DARFModel {
   if (dayOfWeek === 0) dueDate = dueDate.subtract(2, "day");
 
   return {
-    code: "6015",
+    code: DARF_CODE,
     period: dayjs(`${year}-${month}-01`).endOf("month").format("YYYY-MM-DD"),
     dueDate: dueDate.format("YYYY-MM-DD"),
     amount: Math.max(0, calculation.taxDue), // Só gera DARF se valor > 0. Se < 10 reais, acumula (regra geral), mas aqui retornamos o valor calculado.
@@ -0,0 +1,223 @@
+/**
+ * Calendários econômicos enviados pelo usuário (ICS / CSV)
+ *
+ * Converte os arquivos para o formato do banco (DBEvent), com data e horário
+ * de Nova York como os eventos do Forex Factory. Sem dependências de rede:
+ * usado pela fonte "file" dos scripts de sync e pelo upload do painel admin.
+ */
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type { DBEvent } from "./forexCalendar.service";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const CALENDAR_TIMEZONE = "America/New_York";
+
+export type CalendarFileFormat = "ics" | "csv";
+
+export function getCalendarFileFormat(fileName: string): CalendarFileFormat {
+  const extension = fileName.substring(fileName.lastIndexOf(".")).toLowerCase();
+  if (extension === ".ics" || extension === ".ical") return "ics";
+  if (extension === ".csv") return "csv";
+  throw new Error(`Formato de calendário não suportado: ${fileName}`);
+}
+
+/**
+ * Converter o conteúdo do arquivo conforme o formato
+ */
+export function parseCalendarFile(content: string, fileFormat: CalendarFileFormat): DBEvent[] {
+  return fileFormat === "ics" ? parseCalendarIcs(content) : parseCalendarCsv(content);
+}
+
+const IMPACT_ALIASES: Record<string, DBEvent["impact"]> = {
+  high: "high",
+  "high impact": "high",
+  red: "high",
+  "3": "high",
+  medium: "medium",
+  "medium impact": "medium",
+  orange: "medium",
+  "2": "medium",
+  low: "low",
+  "low impact": "low",
+  yellow: "low",
+  "1": "low",
+};
+
+export function normalizeCalendarImpact(value: string | undefined | null): DBEvent["impact"] {
+  return IMPACT_ALIASES[(value || "").trim().toLowerCase()] || "none";
+}
+
+/**
+ * Normalizar horário para o formato do banco ("13:30", "All Day" ou "Tentative")
+ * Aceita 24h ("8:30", "08:30") e 12h do Forex Factory ("8:30am").
+ */
+function normalizeCalendarTime(value: string | undefined): string {
+  const time = (value || "").trim().toLowerCase();
+  if (!time || time.includes("day")) return "All Day";
+  if (time.includes("tentative")) return "Tentative";
+
+  const match = time.match(/^(\d{1,2}):(\d{2})\s*([ap]m)?/);
+  if (!match) return "All Day";
+
+  let hours = parseInt(match[1]);
+  if (match[3] === "pm" && hours < 12) hours += 12;
+  if (match[3] === "am" && hours === 12) hours = 0;
+
+  return `${hours.toString().padStart(2, "0")}:${match[2]}`;
+}
+
+const emptyToNull = (value: string | undefined) => value?.trim() || null;
+
+/**
+ * CSV com cabeçalho: date, time, currency, impact, event (ou event_name/title),
+ * actual, forecast, previous. Datas em yyyy-MM-dd e horários de Nova York.
+ */
+export function parseCalendarCsv(content: string): DBEvent[] {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const Papa = require("papaparse") as typeof import("papaparse");
+
+  const result = Papa.parse<Record<string, string>>(content.replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim().toLowerCase().replace(/\s+/g, "_"),
+  });
+
+  const events: DBEvent[] = [];
+
+  for (const row of result.data) {
+    const date = (row.date || "").trim();
+    const currency = (row.currency || row.country || "").trim().toUpperCase();
+    const eventName = (row.event || row.event_name || row.title || "").trim();
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !currency || !eventName) continue;
+
+    events.push({
+      date,
+      time: normalizeCalendarTime(row.time),
+      currency,
+      impact: normalizeCalendarImpact(row.impact),
+      event_name: eventName,
+      actual: emptyToNull(row.actual),
+      forecast: emptyToNull(row.forecast),
+      previous: emptyToNull(row.previous),
+    });
+  }
+
+  return events;
+}
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeIcs = (value: string) =>
+  value
+    .replace(/\\n/gi, "\n")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+
+/**
+ * Converter DTSTART para data e horário de Nova York
+ * Aceita UTC ("...Z"), TZID, data sem horário (VALUE=DATE) e horário flutuante.
+ */
+function parseIcsStart(property: IcsProperty): { date: string; time: string } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , isUtc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (!hours) return { date, time: "All Day" };
+
+  const wallClock = `${date}T${hours}:${minutes}:00`;
+  const instant = isUtc
+    ? dayjs.utc(wallClock)
+    : dayjs.tz(wallClock, property.params.TZID || CALENDAR_TIMEZONE);
+  if (!instant.isValid()) return null;
+
+  const newYork = instant.tz(CALENDAR_TIMEZONE);
+  return { date: newYork.format("YYYY-MM-DD"), time: newYork.format("HH:mm") };
+}
+
+/**
+ * Calendário iCalendar (.ics)
+ * Moeda em X-CURRENCY ou no prefixo do título ("USD - Non-Farm Payrolls", "[USD] ...");
+ * impacto em X-IMPACT, CATEGORIES ou "Impact: High" na descrição, assim como
+ * "Actual:", "Forecast:" e "Previous:". Eventos sem moeda são ignorados.
+ */
+export function parseCalendarIcs(content: string): DBEvent[] {
+  // Desdobrar linhas continuadas (RFC 5545: começam com espaço ou tab)
+  const lines = content
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n");
+
+  const events: DBEvent[] = [];
+  let current: Record<string, IcsProperty> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+
+    if (line === "END:VEVENT") {
+      if (current) {
+        const event = toDBEvent(current);
+        if (event) events.push(event);
+      }
+      current = null;
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (!current || separator < 0) continue;
+
+    const [name, ...paramParts] = line.substring(0, separator).split(";");
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, paramValue = ""] = part.split("=");
+      params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, "");
+    }
+
+    current[name.toUpperCase()] = { params, value: line.substring(separator + 1) };
+  }
+
+  return events;
+}
+
+function toDBEvent(properties: Record<string, IcsProperty>): DBEvent | null {
+  const start = properties.DTSTART && parseIcsStart(properties.DTSTART);
+  if (!start) return null;
+
+  let title = unescapeIcs(properties.SUMMARY?.value || "");
+  let currency = unescapeIcs(properties["X-CURRENCY"]?.value || "").toUpperCase();
+
+  const prefix = title.match(/^\[?([A-Z]{3})\]?\s*[-:]?\s+(.+)$/);
+  if (prefix && (!currency || prefix[1] === currency)) {
+    currency = prefix[1];
+    title = prefix[2].trim();
+  }
+  if (!currency || !title) return null;
+
+  const description = unescapeIcs(properties.DESCRIPTION?.value || "");
+  const field = (label: string) =>
+    description.match(new RegExp(`${label}:\\s*([^\\n]+)`, "i"))?.[1].trim() || null;
+
+  return {
+    date: start.date,
+    time: start.time,
+    currency,
+    impact: normalizeCalendarImpact(
+      properties["X-IMPACT"]?.value || properties.CATEGORIES?.value || field("Impact")
+    ),
+    event_name: title,
+    actual: field("Actual"),
+    forecast: field("Forecast"),
+    previous: field("Previous"),
+  };
+}
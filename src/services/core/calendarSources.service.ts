@@ -0,0 +1,273 @@
+/**
+ * Fontes do calendário econômico
+ *
+ * Interface única para os scripts de sync buscarem eventos de qualquer origem:
+ * - ff-html: scraping do site do Forex Factory (Playwright)
+ * - ff-json: feed JSON oficial (apenas semana atual)
+ * - file: calendário enviado pelo usuário (ICS ou CSV)
+ *
+ * Modo fixture: `recordCalendarSource` grava o resultado de uma fonte em JSON e
+ * `createFixtureCalendarSource` reproduz a gravação sem rede, para testar os
+ * scripts offline e comparar execuções com `compareScrapedEvents`.
+ *
+ * Todos os horários retornados estão no fuso de Nova York (como o Forex Factory).
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from "date-fns";
+import { syncForexCalendar, DBEvent } from "./forexCalendar.service";
+import {
+  compareScrapedEvents,
+  scrapeForexFactory,
+  scrapeForexFactoryMonth,
+} from "./forexScraper.service";
+import {
+  CalendarFileFormat,
+  getCalendarFileFormat,
+  parseCalendarFile,
+} from "./calendarFile.service";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/** Período buscado: semana atual (Domingo a Sábado) ou um mês inteiro */
+export type CalendarPeriod = { type: "week" } | { type: "month"; month: Date };
+
+export type CalendarSourceId = "ff-html" | "ff-json" | "file";
+
+export interface CalendarSource {
+  id: CalendarSourceId;
+  label: string;
+  fetchEvents(period: CalendarPeriod): Promise<DBEvent[]>;
+}
+
+export interface CalendarFixture {
+  source: CalendarSourceId;
+  period: string;
+  recordedAt: string;
+  events: DBEvent[];
+}
+
+export interface CalendarSourceOptions {
+  source?: CalendarSourceId;
+  /** Arquivo ICS/CSV (implica source "file") */
+  file?: string;
+  /** Diretório com gravações para reproduzir offline */
+  fixtures?: string;
+  /** Diretório onde gravar o resultado da fonte */
+  record?: string;
+  /** Diretório com gravações para comparar, sem gravar no banco */
+  diff?: string;
+  dryRun: boolean;
+}
+
+// ============================================
+// PERÍODOS
+// ============================================
+
+/**
+ * Datas (yyyy-MM-dd) cobertas pelo período
+ */
+export function getPeriodRange(
+  period: CalendarPeriod,
+  today: Date = new Date()
+): { start: string; end: string } {
+  const [start, end] =
+    period.type === "week"
+      ? [startOfWeek(today, { weekStartsOn: 0 }), endOfWeek(today, { weekStartsOn: 0 })]
+      : [startOfMonth(period.month), endOfMonth(period.month)];
+
+  return { start: format(start, "yyyy-MM-dd"), end: format(end, "yyyy-MM-dd") };
+}
+
+/**
+ * Chave do período no nome do arquivo de fixture ("week" ou "month-2025-03")
+ * A semana não leva data: a gravação mais recente é reproduzida em qualquer dia.
+ */
+export function getPeriodKey(period: CalendarPeriod): string {
+  return period.type === "week" ? "week" : `month-${format(period.month, "yyyy-MM")}`;
+}
+
+// ============================================
+// ADAPTERS
+// ============================================
+
+export const forexFactoryHtmlSource: CalendarSource = {
+  id: "ff-html",
+  label: "Forex Factory (HTML)",
+  fetchEvents: (period) =>
+    period.type === "week" ? scrapeForexFactory() : scrapeForexFactoryMonth(period.month),
+};
+
+export const forexFactoryJsonSource: CalendarSource = {
+  id: "ff-json",
+  label: "Forex Factory (JSON)",
+  fetchEvents: async (period) => {
+    if (period.type !== "week") {
+      throw new Error("O feed JSON do Forex Factory cobre apenas a semana atual");
+    }
+    return syncForexCalendar();
+  },
+};
+
+/**
+ * Fonte a partir do conteúdo de um calendário ICS ou CSV
+ * Cada busca retorna apenas os eventos do arquivo dentro do período.
+ */
+export function createFileCalendarSource(
+  content: string,
+  fileFormat: CalendarFileFormat
+): CalendarSource {
+  const events = parseCalendarFile(content, fileFormat);
+
+  return {
+    id: "file",
+    label: `Arquivo ${fileFormat.toUpperCase()}`,
+    fetchEvents: async (period) => {
+      const { start, end } = getPeriodRange(period);
+      return events.filter((e) => e.date >= start && e.date <= end);
+    },
+  };
+}
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const getFixturePath = (dir: string, source: CalendarSourceId, period: CalendarPeriod) =>
+  path.join(dir, `${source}.${getPeriodKey(period)}.json`);
+
+/**
+ * Ler uma gravação; null quando o período não foi gravado
+ */
+export async function readCalendarFixture(
+  dir: string,
+  source: CalendarSourceId,
+  period: CalendarPeriod
+): Promise<CalendarFixture | null> {
+  try {
+    const content = await fs.readFile(getFixturePath(dir, source, period), "utf-8");
+    return JSON.parse(content) as CalendarFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Envolver uma fonte gravando cada resultado em `<dir>/<fonte>.<período>.json`
+ */
+export function recordCalendarSource(source: CalendarSource, dir: string): CalendarSource {
+  return {
+    ...source,
+    fetchEvents: async (period) => {
+      const events = await source.fetchEvents(period);
+      const fixture: CalendarFixture = {
+        source: source.id,
+        period: getPeriodKey(period),
+        recordedAt: new Date().toISOString(),
+        events,
+      };
+
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(
+        getFixturePath(dir, source.id, period),
+        JSON.stringify(fixture, null, 2) + "\n"
+      );
+      return events;
+    },
+  };
+}
+
+/**
+ * Fonte que reproduz as gravações de outra, sem acesso à rede
+ */
+export function createFixtureCalendarSource(dir: string, source: CalendarSourceId): CalendarSource {
+  return {
+    id: source,
+    label: `Fixture (${source})`,
+    fetchEvents: async (period) => {
+      const fixture = await readCalendarFixture(dir, source, period);
+      if (!fixture) {
+        throw new Error(
+          `Fixture não encontrada: ${getFixturePath(dir, source, period)} (grave com --record)`
+        );
+      }
+      return fixture.events;
+    },
+  };
+}
+
+/**
+ * Comparar eventos buscados com a gravação do mesmo período
+ * Scrape1 = gravação, Scrape2 = busca atual. null quando não há gravação.
+ */
+export async function diffWithCalendarFixture(
+  events: DBEvent[],
+  dir: string,
+  source: CalendarSourceId,
+  period: CalendarPeriod
+): Promise<ReturnType<typeof compareScrapedEvents> | null> {
+  const fixture = await readCalendarFixture(dir, source, period);
+  return fixture ? compareScrapedEvents(fixture.events, events) : null;
+}
+
+// ============================================
+// CLI
+// ============================================
+
+const SOURCE_IDS: CalendarSourceId[] = ["ff-html", "ff-json", "file"];
+
+/**
+ * Ler as opções de fonte dos argumentos dos scripts de sync
+ * --source=ff-html|ff-json|file  --file=<ics|csv>  --fixtures=<dir>
+ * --record=<dir>  --diff=<dir>  --dry-run
+ */
+export function parseCalendarSourceArgs(args: string[]): CalendarSourceOptions {
+  const value = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.substring(name.length + 3) || undefined;
+
+  const source = value("source");
+  if (source && !SOURCE_IDS.includes(source as CalendarSourceId)) {
+    throw new Error(`Fonte desconhecida: ${source} (use ${SOURCE_IDS.join(", ")})`);
+  }
+
+  const file = value("file");
+  const diff = value("diff");
+
+  return {
+    source: file ? "file" : (source as CalendarSourceId | undefined),
+    file,
+    fixtures: value("fixtures"),
+    record: value("record"),
+    diff,
+    dryRun: args.includes("--dry-run") || !!diff,
+  };
+}
+
+/**
+ * Montar a fonte pedida pelas opções (reprodução e gravação de fixtures incluídas)
+ */
+export async function resolveCalendarSource(
+  options: CalendarSourceOptions,
+  fallback: CalendarSourceId = "ff-html"
+): Promise<CalendarSource> {
+  const id = options.source ?? fallback;
+
+  if (options.fixtures) {
+    return createFixtureCalendarSource(options.fixtures, id);
+  }
+
+  let source: CalendarSource;
+  if (id === "file") {
+    if (!options.file) throw new Error("Informe o calendário com --file=<arquivo.ics|.csv>");
+    const content = await fs.readFile(options.file, "utf-8");
+    source = createFileCalendarSource(content, getCalendarFileFormat(options.file));
+  } else {
+    source = id === "ff-json" ? forexFactoryJsonSource : forexFactoryHtmlSource;
+  }
+
+  return options.record ? recordCalendarSource(source, options.record) : source;
+}
@@ -9,7 +9,7 @@
  * - Funciona em serverless (Vercel, etc)
  */
 
-interface ForexFactoryEvent {
+export interface ForexFactoryEvent {
   title: string;
   country: string; // "USD", "EUR", etc.
   date: string; // ISO 8601: "2025-12-18T10:30:00-05:00"
@@ -111,8 +111,6 @@ export async function fetchForexCalendarJSON(): Promise<ForexFactoryEvent[]> {
  */
 export function transformEventsToDBFormat(events: ForexFactoryEvent[]): DBEvent[] {
   return events.map((event) => {
-    const eventDate = new Date(event.date);
-
     // Formatar horário em 24h no timezone NY (o JSON já vem em -05:00 = NY)
     // Extrair horas/minutos do ISO que já está em NY
     const timeMatch = event.date.match(/T(\d{2}):(\d{2})/);
@@ -130,7 +128,8 @@ export function transformEventsToDBFormat(events: ForexFactoryEvent[]): DBEvent[
     };
 
     return {
-      date: eventDate.toISOString().split("T")[0],
+      // Data no fuso de NY, consistente com o horário (eventos da noite não viram o dia UTC)
+      date: event.date.substring(0, 10),
       time,
       currency: event.country.toUpperCase(),
       impact: impactMap[event.impact] || "none",
@@ -1,5 +1,6 @@
 import { chromium } from "playwright";
 import { format, parse } from "date-fns";
+import * as cheerio from "cheerio";
 
 export interface ScrapedEvent {
   date: string; // ISO "2025-12-18"
@@ -92,92 +93,8 @@ export async function scrapeForexFactory(): Promise<ScrapedEvent[]> {
 
     console.log("[Scraper] Página carregada. Extraindo dados...");
 
-    // Executar script no contexto da página para extrair dados
-    const rawEvents = await page.evaluate(() => {
-      const rows = Array.from(document.querySelectorAll("tr.calendar__row"));
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const results: any[] = [];
-
-      let currentDateText = "";
-      let currentTime = "";
-
-      rows.forEach((row) => {
-        if (row.classList.contains("calendar__row--day-breaker")) return;
-
-        const dateText =
-          row.querySelector(".calendar__date .date")?.textContent?.trim() ||
-          row.querySelector(".calendar__date")?.textContent?.trim() ||
-          "";
-
-        if (dateText) {
-          currentDateText = dateText;
-        }
-
-        const timeText = row.querySelector(".calendar__time")?.textContent?.trim() || "";
-        if (timeText) {
-          currentTime = timeText;
-        }
-
-        const currency = row.querySelector(".calendar__currency")?.textContent?.trim() || "";
-
-        const impactSpan = row.querySelector(".calendar__impact span");
-        const impactTitle = impactSpan?.getAttribute("title") || "";
-        const impactClass = impactSpan?.className || "";
-
-        let impact = "none";
-        if (impactTitle.includes("High") || impactClass.includes("icon--ff-impact-red"))
-          impact = "high";
-        else if (impactTitle.includes("Medium") || impactClass.includes("icon--ff-impact-ora"))
-          impact = "medium";
-        else if (impactTitle.includes("Low") || impactClass.includes("icon--ff-impact-yel"))
-          impact = "low";
-
-        const eventName = row.querySelector(".calendar__event-title")?.textContent?.trim() || "";
-
-        const actual = row.querySelector(".calendar__actual")?.textContent?.trim() || null;
-        const forecast = row.querySelector(".calendar__forecast")?.textContent?.trim() || null;
-        const previous = row.querySelector(".calendar__previous")?.textContent?.trim() || null;
-
-        if (currency && eventName) {
-          results.push({
-            dateText: currentDateText,
-            time: currentTime,
-            currency,
-            impact,
-            event_name: eventName,
-            actual,
-            forecast,
-            previous,
-          });
-        }
-      });
-
-      return results;
-    });
-
-    console.log(`[Scraper] RAW: ${rawEvents.length} linhas extraídas. Processando datas...`);
-
-    const events: ScrapedEvent[] = [];
-
-    for (const raw of rawEvents) {
-      if (!raw.dateText) continue;
-
-      const isoDate = parseForexFactoryDate(raw.dateText);
-      if (!isoDate) continue;
-
-      const time24 = convertTo24Hour(raw.time) || "All Day";
-
-      events.push({
-        date: isoDate,
-        time: time24,
-        currency: raw.currency,
-        impact: raw.impact as "high" | "medium" | "low" | "none",
-        event_name: raw.event_name,
-        actual: raw.actual,
-        forecast: raw.forecast,
-        previous: raw.previous,
-      });
-    }
+    const html = await page.content();
+    const events = parseForexFactoryHtml(html);
 
     console.log(`[Scraper] Sucesso! ${events.length} eventos processados e prontos.`);
     return events;
@@ -243,86 +160,10 @@ export async function scrapeForexFactoryMonth(targetDate: Date): Promise<Scraped
     await page.waitForTimeout(2000);
     await page.locator(".calendar__table").waitFor({ timeout: 30000 });
 
-    const rawEvents = await page.evaluate(() => {
-      const rows = Array.from(document.querySelectorAll("tr.calendar__row"));
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const results: any[] = [];
-      let currentDateText = "";
-      let currentTime = "";
-
-      rows.forEach((row) => {
-        if (row.classList.contains("calendar__row--day-breaker")) return;
-
-        const dateText =
-          row.querySelector(".calendar__date .date")?.textContent?.trim() ||
-          row.querySelector(".calendar__date")?.textContent?.trim() ||
-          "";
-
-        if (dateText) currentDateText = dateText;
-
-        const timeText = row.querySelector(".calendar__time")?.textContent?.trim() || "";
-        if (timeText) currentTime = timeText;
-
-        const currency = row.querySelector(".calendar__currency")?.textContent?.trim() || "";
-
-        const impactSpan = row.querySelector(".calendar__impact span");
-        const impactTitle = impactSpan?.getAttribute("title") || "";
-        const impactClass = impactSpan?.className || "";
-
-        let impact = "none";
-        if (impactTitle.includes("High") || impactClass.includes("icon--ff-impact-red"))
-          impact = "high";
-        else if (impactTitle.includes("Medium") || impactClass.includes("icon--ff-impact-ora"))
-          impact = "medium";
-        else if (impactTitle.includes("Low") || impactClass.includes("icon--ff-impact-yel"))
-          impact = "low";
-
-        const eventName = row.querySelector(".calendar__event-title")?.textContent?.trim() || "";
-        const actual = row.querySelector(".calendar__actual")?.textContent?.trim() || null;
-        const forecast = row.querySelector(".calendar__forecast")?.textContent?.trim() || null;
-        const previous = row.querySelector(".calendar__previous")?.textContent?.trim() || null;
-
-        if (currency && eventName) {
-          results.push({
-            dateText: currentDateText,
-            time: currentTime,
-            currency,
-            impact,
-            event_name: eventName,
-            actual,
-            forecast,
-            previous,
-          });
-        }
-      });
-      return results;
-    });
-
-    console.log(`[Scraper History] ${rawEvents.length} linhas extraídas.`);
-    const events: ScrapedEvent[] = [];
-
-    const targetYear = targetDate.getFullYear();
-
-    for (const raw of rawEvents) {
-      if (!raw.dateText) continue;
-
-      const isoDate = parseForexFactoryDateWithYear(raw.dateText, targetYear);
-      if (!isoDate) continue;
-
-      const time24 = convertTo24Hour(raw.time) || "All Day";
-
-      events.push({
-        date: isoDate,
-        time: time24,
-        currency: raw.currency,
-        impact: raw.impact as "high" | "medium" | "low" | "none",
-        event_name: raw.event_name,
-        actual: raw.actual,
-        forecast: raw.forecast,
-        previous: raw.previous,
-      });
-    }
+    const html = await page.content();
+    const events = parseForexFactoryHtml(html, targetDate.getFullYear());
 
+    console.log(`[Scraper History] ${events.length} eventos extraídos.`);
     return events;
   } catch (error) {
     console.error("[Scraper History] Erro:", error);
@@ -333,6 +174,69 @@ export async function scrapeForexFactoryMonth(targetDate: Date): Promise<Scraped
   }
 }
 
+/**
+ * Extrair eventos do HTML do calendário do Forex Factory
+ * Linhas sem data/horário herdam os da linha anterior (como na tabela do site).
+ * Sem `year`, o ano é inferido da data atual (semana corrente).
+ */
+export function parseForexFactoryHtml(html: string, year?: number): ScrapedEvent[] {
+  const $ = cheerio.load(html);
+  const events: ScrapedEvent[] = [];
+
+  let currentDateText = "";
+  let currentTime = "";
+
+  $("tr.calendar__row").each((_, element) => {
+    const row = $(element);
+    if (row.hasClass("calendar__row--day-breaker")) return;
+
+    const dateText =
+      row.find(".calendar__date .date").first().text().trim() ||
+      row.find(".calendar__date").first().text().trim();
+    if (dateText) currentDateText = dateText;
+
+    const timeText = row.find(".calendar__time").first().text().trim();
+    if (timeText) currentTime = timeText;
+
+    const currency = row.find(".calendar__currency").first().text().trim();
+    const eventName = row.find(".calendar__event-title").first().text().trim();
+    if (!currency || !eventName || !currentDateText) return;
+
+    const isoDate =
+      year === undefined
+        ? parseForexFactoryDate(currentDateText)
+        : parseForexFactoryDateWithYear(currentDateText, year);
+    if (!isoDate) return;
+
+    const impactSpan = row.find(".calendar__impact span").first();
+    const impactTitle = impactSpan.attr("title") || "";
+    const impactClass = impactSpan.attr("class") || "";
+
+    let impact: ScrapedEvent["impact"] = "none";
+    if (impactTitle.includes("High") || impactClass.includes("icon--ff-impact-red"))
+      impact = "high";
+    else if (impactTitle.includes("Medium") || impactClass.includes("icon--ff-impact-ora"))
+      impact = "medium";
+    else if (impactTitle.includes("Low") || impactClass.includes("icon--ff-impact-yel"))
+      impact = "low";
+
+    const cell = (selector: string) => row.find(selector).first().text().trim() || null;
+
+    events.push({
+      date: isoDate,
+      time: convertTo24Hour(currentTime) || "All Day",
+      currency,
+      impact,
+      event_name: eventName,
+      actual: cell(".calendar__actual"),
+      forecast: cell(".calendar__forecast"),
+      previous: cell(".calendar__previous"),
+    });
+  });
+
+  return events;
+}
+
 /**
  * Parser auxiliar que aceita o ano forçado (para histórico)
  */
@@ -0,0 +1,246 @@
+/**
+ * Mentor Cohort Analytics
+ *
+ * Compares the mentees of a mentor over a period: expectancy, R distribution,
+ * plan adherence, playbook rule compliance and journaling consistency. Each
+ * metric is also computed for the period before, so mentees whose numbers are
+ * getting worse stand out.
+ */
+
+import dayjs from "dayjs";
+import type { CohortTrade, MenteeCohortActivity } from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Selectable period lengths, in days */
+export const COHORT_PERIODS = [30, 90, 180] as const;
+
+export type CohortPeriodDays = (typeof COHORT_PERIODS)[number];
+
+/** R multiple ranges of the distribution; each bucket is [min, max) */
+export const R_BUCKETS = [
+  { label: "< -2R", min: -Infinity, max: -2 },
+  { label: "-2R a -1R", min: -2, max: -1 },
+  { label: "-1R a 0", min: -1, max: 0 },
+  { label: "0 a 1R", min: 0, max: 1 },
+  { label: "1R a 2R", min: 1, max: 2 },
+  { label: "≥ 2R", min: 2, max: Infinity },
+];
+
+/** Metrics compared across mentees and against the previous period */
+export type CohortMetricKey =
+  | "expectancyR"
+  | "planAdherence"
+  | "ruleCompliance"
+  | "journalingConsistency";
+
+export const COHORT_METRIC_LABELS: Record<CohortMetricKey, string> = {
+  expectancyR: "Expectativa (R)",
+  planAdherence: "Adesão ao plano",
+  ruleCompliance: "Regras cumpridas",
+  journalingConsistency: "Consistência do diário",
+};
+
+/** Drop from the previous period that counts as deterioration (R or points) */
+export const DETERIORATION_THRESHOLDS: Record<CohortMetricKey, number> = {
+  expectancyR: 0.3,
+  planAdherence: 15,
+  ruleCompliance: 15,
+  journalingConsistency: 20,
+};
+
+/** Fewer closed trades than this in either period is too little to compare */
+export const MIN_TRADES_FOR_TREND = 5;
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export interface CohortMetrics {
+  /** Closed trades in the period */
+  tradeCount: number;
+  winRate: number | null;
+  /** Average P&L per trade, in the currency of the mentee's accounts */
+  expectancy: number | null;
+  /** Average R per trade, among the trades with an R multiple */
+  expectancyR: number | null;
+  /** Trades per bucket of R_BUCKETS */
+  rDistribution: number[];
+  /** % of the trades with plan adherence filled in that followed the plan fully */
+  planAdherence: number | null;
+  /** % of the marked playbook rules that were followed */
+  ruleCompliance: number | null;
+  /** % of the trading days with a journal entry */
+  journalingConsistency: number | null;
+}
+
+export interface MenteeCohortRow {
+  menteeId: string;
+  menteeName: string;
+  current: CohortMetrics;
+  previous: CohortMetrics;
+  /** Metrics that dropped beyond their threshold since the previous period */
+  deteriorating: CohortMetricKey[];
+  /** Last trade of the period, where the calendar opens */
+  lastTradeDate?: string;
+}
+
+export interface CohortWindow {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface CohortAnalytics {
+  periodDays: CohortPeriodDays;
+  current: CohortWindow;
+  previous: CohortWindow;
+  /** Deteriorating mentees first */
+  mentees: MenteeCohortRow[];
+}
+
+// ============================================
+// CALCULATIONS
+// ============================================
+
+const round = (value: number, decimals = 0) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const percent = (part: number, total: number) => (total > 0 ? round((part / total) * 100) : null);
+
+export function isValidCohortPeriod(days: number): days is CohortPeriodDays {
+  return (COHORT_PERIODS as readonly number[]).includes(days);
+}
+
+/**
+ * The period ending today and the period of the same length before it.
+ */
+export function getCohortWindows(
+  periodDays: CohortPeriodDays,
+  today: string
+): { current: CohortWindow; previous: CohortWindow } {
+  const end = dayjs(today);
+  const currentFrom = end.subtract(periodDays - 1, "day");
+  const previousTo = currentFrom.subtract(1, "day");
+  return {
+    current: { from: currentFrom.format("YYYY-MM-DD"), to: end.format("YYYY-MM-DD") },
+    previous: {
+      from: previousTo.subtract(periodDays - 1, "day").format("YYYY-MM-DD"),
+      to: previousTo.format("YYYY-MM-DD"),
+    },
+  };
+}
+
+const inWindow = (date: string, window: CohortWindow) => date >= window.from && date <= window.to;
+
+/**
+ * Metrics of the closed trades and journal days of one period.
+ */
+export function computeCohortMetrics(trades: CohortTrade[], journalDates: string[]): CohortMetrics {
+  const closed = trades.filter((t) => t.outcome !== "pending");
+  const tradeCount = closed.length;
+
+  const withR = closed.filter((t) => t.rMultiple !== undefined);
+  const rDistribution = R_BUCKETS.map(
+    (bucket) => withR.filter((t) => t.rMultiple! >= bucket.min && t.rMultiple! < bucket.max).length
+  );
+
+  const withAdherence = closed.filter((t) => t.planAdherence);
+  const fullyAdherent = withAdherence.filter((t) => t.planAdherence === "100%").length;
+
+  const followedRules = closed.reduce(
+    (sum, t) => sum + (t.ruleCompliance?.followed.length || 0),
+    0
+  );
+  const markedRules = closed.reduce(
+    (sum, t) =>
+      sum +
+      (t.ruleCompliance ? t.ruleCompliance.followed.length + t.ruleCompliance.broken.length : 0),
+    0
+  );
+
+  const tradingDays = new Set(closed.map((t) => t.entryDate));
+  const journalDays = new Set(journalDates);
+  const journaledDays = [...tradingDays].filter((day) => journalDays.has(day)).length;
+
+  return {
+    tradeCount,
+    winRate: percent(closed.filter((t) => t.outcome === "win").length, tradeCount),
+    expectancy:
+      tradeCount > 0 ? round(closed.reduce((sum, t) => sum + t.pnl, 0) / tradeCount, 2) : null,
+    expectancyR:
+      withR.length > 0
+        ? round(withR.reduce((sum, t) => sum + t.rMultiple!, 0) / withR.length, 2)
+        : null,
+    rDistribution,
+    planAdherence: percent(fullyAdherent, withAdherence.length),
+    ruleCompliance: percent(followedRules, markedRules),
+    journalingConsistency: percent(journaledDays, tradingDays.size),
+  };
+}
+
+/**
+ * Metrics that dropped beyond their threshold. Needs enough trades in both
+ * periods; a metric missing in either period is not compared.
+ */
+export function getDeterioratingMetrics(
+  current: CohortMetrics,
+  previous: CohortMetrics
+): CohortMetricKey[] {
+  if (current.tradeCount < MIN_TRADES_FOR_TREND || previous.tradeCount < MIN_TRADES_FOR_TREND) {
+    return [];
+  }
+
+  return (Object.keys(DETERIORATION_THRESHOLDS) as CohortMetricKey[]).filter((key) => {
+    const now = current[key];
+    const before = previous[key];
+    if (now === null || before === null) return false;
+    return before - now >= DETERIORATION_THRESHOLDS[key];
+  });
+}
+
+/**
+ * Compares the mentees over the period ending today.
+ */
+export function buildCohortAnalytics(
+  activity: MenteeCohortActivity[],
+  periodDays: CohortPeriodDays,
+  today: string
+): CohortAnalytics {
+  const { current, previous } = getCohortWindows(periodDays, today);
+
+  const mentees = activity.map((mentee) => {
+    const periodMetrics = (window: CohortWindow) =>
+      computeCohortMetrics(
+        mentee.trades.filter((t) => inWindow(t.entryDate, window)),
+        mentee.journalDates.filter((d) => inWindow(d, window))
+      );
+
+    const currentMetrics = periodMetrics(current);
+    const previousMetrics = periodMetrics(previous);
+    const lastTradeDate = mentee.trades
+      .map((t) => t.entryDate)
+      .filter((d) => inWindow(d, current))
+      .sort()
+      .pop();
+
+    return {
+      menteeId: mentee.menteeId,
+      menteeName: mentee.menteeName,
+      current: currentMetrics,
+      previous: previousMetrics,
+      deteriorating: getDeterioratingMetrics(currentMetrics, previousMetrics),
+      lastTradeDate,
+    };
+  });
+
+  mentees.sort(
+    (a, b) =>
+      b.deteriorating.length - a.deteriorating.length || a.menteeName.localeCompare(b.menteeName)
+  );
+
+  return { periodDays, current, previous, mentees };
+}
@@ -0,0 +1,155 @@
+/**
+ * Image Annotations
+ *
+ * Vector shapes a mentor draws over a journal image. Coordinates are fractions
+ * of the image size, so an annotation lands on the same candle whatever size
+ * the image is shown at. Shapes come from the client and are sanitized here
+ * before they are stored.
+ */
+
+import type {
+  AnnotationPoint,
+  ImageAnnotation,
+  ImageAnnotationKind,
+  ImageAnnotationShape,
+} from "@/types";
+
+export const ANNOTATION_TOOL_LABELS: Record<ImageAnnotationKind, string> = {
+  arrow: "Seta",
+  box: "Caixa",
+  hline: "Linha de preço",
+  freehand: "Livre",
+  text: "Texto",
+};
+
+export const ANNOTATION_COLORS = ["#f87171", "#facc15", "#4ade80", "#22d3ee", "#ffffff"];
+
+export const DEFAULT_ANNOTATION_COLOR = ANNOTATION_COLORS[0];
+
+export const MAX_ANNOTATION_TEXT_LENGTH = 80;
+
+export const MAX_FREEHAND_POINTS = 400;
+
+/** Freehand points closer than this to the previous one add nothing */
+const MIN_POINT_DISTANCE = 0.004;
+
+/** Arrows and boxes shorter than this are stray clicks */
+const MIN_SHAPE_SIZE = 0.01;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const clamp = (value: number) => round(Math.min(1, Math.max(0, value)));
+
+const distance = (a: AnnotationPoint, b: AnnotationPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function toPoint(value: unknown): AnnotationPoint | null {
+  if (!value || typeof value !== "object") return null;
+  const { x, y } = value as Record<string, unknown>;
+  if (typeof x !== "number" || typeof y !== "number") return null;
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+  return { x: clamp(x), y: clamp(y) };
+}
+
+/**
+ * Drops points too close to the previous one, keeping the first and the last.
+ */
+export function simplifyPath(
+  points: AnnotationPoint[],
+  minDistance = MIN_POINT_DISTANCE
+): AnnotationPoint[] {
+  if (points.length <= 2) return points;
+  const kept = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    if (distance(points[i], kept[kept.length - 1]) >= minDistance) kept.push(points[i]);
+  }
+  kept.push(points[points.length - 1]);
+  return kept;
+}
+
+/**
+ * Validates a shape received from the client: coordinates are clamped to the
+ * image, freehand paths are simplified and stray clicks are rejected.
+ *
+ * @returns The shape to store, or null when it is invalid
+ */
+export function sanitizeAnnotationShape(value: unknown): ImageAnnotationShape | null {
+  if (!value || typeof value !== "object") return null;
+  const shape = value as Record<string, unknown>;
+
+  switch (shape.kind) {
+    case "arrow":
+    case "box": {
+      const from = toPoint(shape.from);
+      const to = toPoint(shape.to);
+      if (!from || !to || distance(from, to) < MIN_SHAPE_SIZE) return null;
+      return { kind: shape.kind, from, to };
+    }
+    case "hline": {
+      const point = toPoint({ x: 0, y: shape.y });
+      return point ? { kind: "hline", y: point.y } : null;
+    }
+    case "freehand": {
+      if (!Array.isArray(shape.points)) return null;
+      const points = shape.points.map(toPoint);
+      if (points.some((p) => !p)) return null;
+      const path = simplifyPath(points as AnnotationPoint[]);
+      if (path.length < 2 || path.length > MAX_FREEHAND_POINTS) return null;
+      return { kind: "freehand", points: path };
+    }
+    case "text": {
+      const at = toPoint(shape.at);
+      const text = typeof shape.text === "string" ? shape.text.trim() : "";
+      if (!at || !text) return null;
+      return { kind: "text", at, text: text.slice(0, MAX_ANNOTATION_TEXT_LENGTH) };
+    }
+    default:
+      return null;
+  }
+}
+
+export function isValidAnnotationColor(color: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(color);
+}
+
+/**
+ * Where the numbered marker of an annotation goes, linking it to its comment.
+ */
+export function getAnnotationAnchor(shape: ImageAnnotationShape): AnnotationPoint {
+  switch (shape.kind) {
+    case "arrow":
+      return shape.from;
+    case "box":
+      return { x: Math.min(shape.from.x, shape.to.x), y: Math.min(shape.from.y, shape.to.y) };
+    case "hline":
+      return { x: 0.02, y: shape.y };
+    case "freehand":
+      return shape.points[0];
+    case "text":
+      return shape.at;
+  }
+}
+
+/**
+ * Numbers the annotations of each image in the order they were drawn, so a
+ * marker on the image and its comment share a number.
+ */
+export function numberAnnotations(
+  annotations: Pick<ImageAnnotation, "id" | "imageId">[]
+): Record<string, number> {
+  const perImage: Record<string, number> = {};
+  const numbers: Record<string, number> = {};
+  annotations.forEach((annotation) => {
+    perImage[annotation.imageId] = (perImage[annotation.imageId] || 0) + 1;
+    numbers[annotation.id] = perImage[annotation.imageId];
+  });
+  return numbers;
+}
+
+/**
+ * SVG path of a freehand annotation, in a 0–100 viewBox.
+ */
+export function toSvgPath(points: AnnotationPoint[]): string {
+  return points
+    .map((p, i) => `${i === 0 ? "M" : "L"}${round(p.x * 100)} ${round(p.y * 100)}`)
+    .join(" ");
+}
@@ -0,0 +1,6 @@
+/**
+ * Mentor Domain Services
+ */
+export * from "./reviewThreads";
+export * from "./imageAnnotations";
+export * from "./cohortAnalytics";
@@ -0,0 +1,128 @@
+/**
+ * Mentor Review Threads
+ *
+ * Rules of the conversations on mentor reviews: @mentions among the mentee and
+ * their mentors, who may change the status of a thread, whose turn it is to
+ * answer and who is notified of a reply.
+ */
+
+import type { MentionCandidate, MentorReview, ReviewReply, ReviewThreadStatus } from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const REVIEW_THREAD_STATUS_LABELS: Record<ReviewThreadStatus, string> = {
+  open: "Aberto",
+  acknowledged: "Ciente",
+  resolved: "Resolvido",
+};
+
+export const REVIEW_TYPE_LABELS: Record<MentorReview["reviewType"], string> = {
+  correction: "Correção",
+  suggestion: "Sugestão",
+  comment: "Comentário",
+};
+
+/** `@handle` not preceded by a word character (so emails are not mentions) */
+const MENTION_PATTERN = /(^|[^\w@.])@([\w.-]+)/g;
+
+// ============================================
+// MENTIONS
+// ============================================
+
+/** Handle of a user: the local part of the email, lowercased */
+export function getMentionHandle(email: string): string {
+  return email
+    .split("@")[0]
+    .toLowerCase()
+    .replace(/[^\w.-]/g, "");
+}
+
+/** A sentence may end right after the handle ("obrigado @ana.") */
+const normalizeHandle = (handle: string) => handle.replace(/\.+$/, "").toLowerCase();
+
+/**
+ * Users @mentioned in the content, among the candidates.
+ * @returns Unique user ids, in order of first mention.
+ */
+export function extractMentions(content: string, candidates: MentionCandidate[]): string[] {
+  const byHandle = new Map(candidates.map((c) => [c.handle.toLowerCase(), c.userId]));
+  const ids = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const userId = byHandle.get(normalizeHandle(match[2]));
+    if (userId) ids.add(userId);
+  }
+  return [...ids];
+}
+
+export interface MentionSegment {
+  text: string;
+  mention: boolean;
+}
+
+/** Splits the content into text and known @mentions, for highlighting */
+export function splitMentions(content: string, handles: string[]): MentionSegment[] {
+  const known = new Set(handles.map((h) => h.toLowerCase()));
+  const segments: MentionSegment[] = [];
+  let cursor = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const handle = match[2].replace(/\.+$/, "");
+    if (!known.has(handle.toLowerCase())) continue;
+
+    const start = match.index + match[1].length;
+    if (start > cursor) segments.push({ text: content.slice(cursor, start), mention: false });
+    segments.push({ text: `@${handle}`, mention: true });
+    cursor = start + handle.length + 1;
+  }
+
+  if (cursor < content.length) segments.push({ text: content.slice(cursor), mention: false });
+  return segments;
+}
+
+// ============================================
+// STATUS
+// ============================================
+
+type ThreadParticipants = Pick<MentorReview, "mentorId" | "menteeId" | "status">;
+
+/**
+ * Only the mentee acknowledges an open thread; either participant resolves or
+ * reopens it.
+ */
+export function canSetThreadStatus(
+  review: ThreadParticipants,
+  userId: string,
+  status: ReviewThreadStatus
+): boolean {
+  const isMentee = userId === review.menteeId;
+  if (!isMentee && userId !== review.mentorId) return false;
+  if (status === review.status) return false;
+  if (status === "acknowledged") return isMentee && review.status === "open";
+  return true;
+}
+
+/** The other participant spoke last (the review itself counts as the mentor's) */
+export function isAwaitingReply(
+  review: Pick<MentorReview, "mentorId">,
+  lastReply: Pick<ReviewReply, "authorId"> | undefined,
+  userId: string
+): boolean {
+  return (lastReply?.authorId ?? review.mentorId) !== userId;
+}
+
+/**
+ * Who is notified of a reply: mentioned users get a mention, the other
+ * participant not mentioned gets a reply notification. Never the author.
+ */
+export function getReplyRecipients(
+  review: Pick<MentorReview, "mentorId" | "menteeId">,
+  reply: Pick<ReviewReply, "authorId" | "mentions">
+): { replied: string[]; mentioned: string[] } {
+  const mentioned = reply.mentions.filter((id) => id !== reply.authorId);
+  const replied = [review.mentorId, review.menteeId].filter(
+    (id) => id !== reply.authorId && !mentioned.includes(id)
+  );
+  return { replied, mentioned };
+}
@@ -0,0 +1,260 @@
+/**
+ * Digest Channels
+ *
+ * Outbound channels the digest is delivered through. Each channel implements
+ * `DigestChannel`; the user's `DigestSettings.channels` picks which ones run.
+ * - email: SMTP server configured by the SMTP_* environment variables
+ * - webhook: JSON POST to the URL in the user's settings, only to public addresses
+ * - memory: keeps the messages in memory (tests, dry runs)
+ *
+ * Server-only (the SMTP client and the webhook use node:net).
+ */
+
+import { lookup } from "node:dns/promises";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP } from "node:net";
+import type { DigestChannelKind, DigestSettings } from "@/types";
+import { isValidWebhookUrl, type DigestMessage } from "./digest";
+import { sendSmtpMail, type SmtpConfig, type SmtpMail } from "./smtp";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DigestRecipient {
+  userId: string;
+  email?: string;
+  webhookUrl?: string;
+}
+
+export interface DigestChannel {
+  kind: DigestChannelKind;
+  send(message: DigestMessage, recipient: DigestRecipient): Promise<void>;
+}
+
+export type DigestChannels = Partial<Record<DigestChannelKind, DigestChannel>>;
+
+export interface DeliveryResult {
+  kind: DigestChannelKind;
+  success: boolean;
+  error?: string;
+}
+
+export interface MemoryChannel extends DigestChannel {
+  sent: { message: DigestMessage; recipient: DigestRecipient }[];
+}
+
+export interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+export interface WebhookTransport {
+  /** Resolves a hostname to all its addresses */
+  resolve(hostname: string): Promise<ResolvedAddress[]>;
+  /** POSTs the JSON body to the URL, connecting to the given address; returns the status */
+  post(url: URL, address: ResolvedAddress, body: string): Promise<number>;
+}
+
+// ============================================
+// WEBHOOK ADDRESSES
+// ============================================
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Private, loopback, link-local and other non-public ranges, as [network, prefix] */
+const BLOCKED_IPV4: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+];
+const BLOCKED_IPV6: [string, number][] = [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+];
+
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_IPV4.forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4"));
+BLOCKED_IPV6.forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6"));
+
+/** Whether the IP is publicly routable (IPv4-mapped IPv6 is checked as IPv4) */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Resolves the webhook host and checks every address it resolves to, so a
+ * public name pointing at a private address is refused too.
+ * @returns The address to connect to
+ */
+export async function resolveWebhookAddress(
+  url: URL,
+  resolve: WebhookTransport["resolve"]
+): Promise<ResolvedAddress> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(hostname);
+  const addresses = family ? [{ address: hostname, family }] : await resolve(hostname);
+
+  if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+    throw new Error("Webhook aponta para um endereço privado");
+  }
+  return addresses[0];
+}
+
+/**
+ * POSTs over https to the checked address, keeping the hostname for SNI and
+ * the certificate. Redirects are not followed.
+ */
+function postWebhook(url: URL, address: ResolvedAddress, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+        lookup: (_hostname, options, callback) =>
+          options.all ? callback(null, [address]) : callback(null, address.address, address.family),
+        timeout: WEBHOOK_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      }
+    );
+    req.on("timeout", () => req.destroy(new Error("Webhook não respondeu")));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+const defaultWebhookTransport: WebhookTransport = {
+  resolve: (hostname) => lookup(hostname, { all: true }),
+  post: postWebhook,
+};
+
+// ============================================
+// CHANNELS
+// ============================================
+
+export function createSmtpChannel(
+  config: SmtpConfig,
+  send: (config: SmtpConfig, mail: SmtpMail) => Promise<void> = sendSmtpMail
+): DigestChannel {
+  return {
+    kind: "email",
+    async send(message, recipient) {
+      if (!recipient.email) throw new Error("Usuário sem e-mail");
+      await send(config, {
+        to: recipient.email,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    },
+  };
+}
+
+export function createWebhookChannel(
+  transport: WebhookTransport = defaultWebhookTransport
+): DigestChannel {
+  return {
+    kind: "webhook",
+    async send(message, recipient) {
+      if (!isValidWebhookUrl(recipient.webhookUrl)) throw new Error("URL de webhook inválida");
+
+      const url = new URL(recipient.webhookUrl!);
+      const address = await resolveWebhookAddress(url, transport.resolve);
+      const status = await transport.post(
+        url,
+        address,
+        JSON.stringify({ subject: message.subject, text: message.text, ...message.payload })
+      );
+      if (status < 200 || status >= 300) throw new Error(`Webhook respondeu ${status}`);
+    },
+  };
+}
+
+/** Local stand-in transport: records what would have been sent */
+export function createMemoryChannel(kind: DigestChannelKind = "email"): MemoryChannel {
+  const sent: MemoryChannel["sent"] = [];
+  return {
+    kind,
+    sent,
+    async send(message, recipient) {
+      sent.push({ message, recipient });
+    },
+  };
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+ * and SMTP_FROM. Null when the host or the sender is missing.
+ */
+export function getSmtpConfig(env: Record<string, string | undefined> = process.env) {
+  if (!env.SMTP_HOST || !env.SMTP_FROM) return null;
+  const secure = env.SMTP_SECURE === "true";
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER,
+    pass: env.SMTP_PASS,
+    from: env.SMTP_FROM,
+  } satisfies SmtpConfig;
+}
+
+/** Channels available in this environment (email only when SMTP is configured) */
+export function createDigestChannels(
+  env: Record<string, string | undefined> = process.env
+): DigestChannels {
+  const smtp = getSmtpConfig(env);
+  return {
+    ...(smtp ? { email: createSmtpChannel(smtp) } : {}),
+    webhook: createWebhookChannel(),
+  };
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+/**
+ * Sends the digest through every channel the user picked. A failing channel
+ * does not stop the others.
+ */
+export async function deliverDigest(
+  message: DigestMessage,
+  recipient: DigestRecipient,
+  settings: Pick<DigestSettings, "channels">,
+  channels: DigestChannels
+): Promise<DeliveryResult[]> {
+  return Promise.all(
+    settings.channels.map(async (kind): Promise<DeliveryResult> => {
+      const channel = channels[kind];
+      if (!channel) return { kind, success: false, error: "Canal não configurado" };
+      try {
+        await channel.send(message, recipient);
+        return { kind, success: true };
+      } catch (error) {
+        return { kind, success: false, error: (error as Error).message };
+      }
+    })
+  );
+}
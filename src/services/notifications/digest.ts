@@ -0,0 +1,303 @@
+/**
+ * Notification Digest
+ *
+ * Builds the daily/weekly digest sent outside the app: unread mentor reviews,
+ * new comments on the user's trades, pending mentor invites and, once a week,
+ * a performance summary per account currency (`calculateReportMetrics`).
+ * Delivery is done by the channels in `./channels`.
+ */
+
+import { DEFAULT_DIGEST_SETTINGS } from "@/types";
+import type {
+  DigestChannelKind,
+  DigestFrequency,
+  DigestSettings,
+  MentorInvite,
+  MentorReview,
+  TradeComment,
+} from "@/types";
+import type { ReportMetrics } from "@/services/analytics/report";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Metrics of the accounts in one currency */
+export interface DigestCurrencySummary extends ReportMetrics {
+  currency: string;
+}
+
+export interface DigestContent {
+  /** Unread reviews */
+  reviews: MentorReview[];
+  /** Comments left by others since the last digest */
+  comments: TradeComment[];
+  /** Pending invites */
+  invites: Pick<MentorInvite, "mentorName" | "mentorEmail">[];
+  /**
+   * Metrics of the last 7 days per account currency (weekly digests, and daily
+   * ones on Mondays)
+   */
+  weeklySummaries?: DigestCurrencySummary[];
+}
+
+/** Structured digest, sent as is by the webhook channel */
+export interface DigestPayload {
+  frequency: Exclude<DigestFrequency, "off">;
+  periodStart: string;
+  periodEnd: string;
+  unreadReviews: number;
+  newComments: number;
+  pendingInvites: number;
+  weeklySummaries?: DigestCurrencySummary[];
+  link?: string;
+}
+
+export interface DigestMessage {
+  subject: string;
+  text: string;
+  html: string;
+  payload: DigestPayload;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DIGEST_INTERVAL_HOURS: Record<Exclude<DigestFrequency, "off">, number> = {
+  daily: 24,
+  weekly: 24 * 7,
+};
+
+/** The job may run a bit early; a digest this close to its interval is due */
+export const DIGEST_GRACE_HOURS = 1;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DIGEST_FREQUENCIES: DigestFrequency[] = ["off", "daily", "weekly"];
+
+const DIGEST_CHANNELS: DigestChannelKind[] = ["email", "webhook"];
+
+/**
+ * Loopback, private and link-local hosts written as such in the URL. Names
+ * resolving to them are refused by the webhook channel at delivery.
+ */
+const PRIVATE_HOST =
+  /^(localhost|0\.|127\.|10\.|192\.168\.|169\.254\.|172\.(1[6-9]|2\d|3[01])\.|\[(::1?|::ffff:.*|f[cd].*|fe[89ab].*)\]$)/i;
+
+/** Digest lists are cut at this many items; the counts are still complete */
+const MAX_LIST_ITEMS = 5;
+
+const REVIEW_TYPE_LABELS: Record<MentorReview["reviewType"], string> = {
+  correction: "Correção",
+  suggestion: "Sugestão",
+  comment: "Comentário",
+};
+
+// ============================================
+// SCHEDULE
+// ============================================
+
+/**
+ * Reads the digest settings stored for the user. An unknown frequency turns the
+ * digest off and unknown channels are left out.
+ */
+export function normalizeDigestSettings(value: unknown): DigestSettings {
+  if (!value || typeof value !== "object") return DEFAULT_DIGEST_SETTINGS;
+
+  const raw = value as Partial<Record<keyof DigestSettings, unknown>>;
+  const channels = Array.isArray(raw.channels) ? raw.channels : [];
+  const settings: DigestSettings = {
+    frequency: DIGEST_FREQUENCIES.find((frequency) => frequency === raw.frequency) ?? "off",
+    channels: DIGEST_CHANNELS.filter((channel) => channels.includes(channel)),
+  };
+  return typeof raw.webhookUrl === "string"
+    ? { ...settings, webhookUrl: raw.webhookUrl }
+    : settings;
+}
+
+export function isDigestDue(
+  settings: DigestSettings,
+  lastSentAt: string | undefined,
+  now: Date
+): boolean {
+  if (settings.frequency === "off" || settings.channels.length === 0) return false;
+  if (!lastSentAt) return true;
+
+  const elapsedHours = (now.getTime() - new Date(lastSentAt).getTime()) / HOUR_MS;
+  return elapsedHours >= DIGEST_INTERVAL_HOURS[settings.frequency] - DIGEST_GRACE_HOURS;
+}
+
+/**
+ * Start of the digest period: the last delivery, or one interval ago for the
+ * first digest.
+ */
+export function getDigestPeriodStart(
+  frequency: Exclude<DigestFrequency, "off">,
+  lastSentAt: string | undefined,
+  now: Date
+): Date {
+  if (lastSentAt) return new Date(lastSentAt);
+  return new Date(now.getTime() - DIGEST_INTERVAL_HOURS[frequency] * HOUR_MS);
+}
+
+export function shouldIncludeWeeklySummary(
+  frequency: Exclude<DigestFrequency, "off">,
+  now: Date
+): boolean {
+  return frequency === "weekly" || now.getUTCDay() === 1;
+}
+
+/** Webhooks must be public https endpoints */
+export function isValidWebhookUrl(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== "https:") return false;
+    return !PRIVATE_HOST.test(hostname);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// CONTENT
+// ============================================
+
+export function hasDigestContent(content: DigestContent): boolean {
+  return (
+    content.reviews.length > 0 ||
+    content.comments.length > 0 ||
+    content.invites.length > 0 ||
+    (content.weeklySummaries?.some((summary) => summary.totalTrades > 0) ?? false)
+  );
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const truncate = (value: string, length = 120) =>
+  value.length > length ? `${value.slice(0, length - 3)}...` : value;
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+interface DigestSection {
+  title: string;
+  lines: string[];
+  /** Items left out of `lines` */
+  more: number;
+}
+
+function getDigestSections(content: DigestContent): DigestSection[] {
+  const sections: DigestSection[] = [];
+  const list = <T>(items: T[], format: (item: T) => string) => ({
+    lines: items.slice(0, MAX_LIST_ITEMS).map(format),
+    more: Math.max(0, items.length - MAX_LIST_ITEMS),
+  });
+
+  if (content.reviews.length > 0) {
+    sections.push({
+      title: `📝 Feedbacks não lidos (${content.reviews.length})`,
+      ...list(
+        content.reviews,
+        (review) => `${REVIEW_TYPE_LABELS[review.reviewType]}: ${truncate(review.content)}`
+      ),
+    });
+  }
+
+  if (content.comments.length > 0) {
+    sections.push({
+      title: `💬 Novos comentários nos seus trades (${content.comments.length})`,
+      ...list(
+        content.comments,
+        (comment) => `${comment.userName || "Mentor"}: ${truncate(comment.content)}`
+      ),
+    });
+  }
+
+  if (content.invites.length > 0) {
+    sections.push({
+      title: `👨‍🏫 Convites de mentoria pendentes (${content.invites.length})`,
+      ...list(content.invites, (invite) => invite.mentorName || invite.mentorEmail),
+    });
+  }
+
+  const summaries = (content.weeklySummaries || []).filter((summary) => summary.totalTrades > 0);
+  summaries.forEach((summary) => {
+    const money = (value: number) => `${summary.currency} ${formatNumber(value)}`;
+    sections.push({
+      title: `📊 Resumo da semana${summaries.length > 1 ? ` (${summary.currency})` : ""}`,
+      lines: [
+        `Trades: ${summary.totalTrades}`,
+        `Win rate: ${formatNumber(summary.winRate)}%`,
+        `Profit factor: ${formatNumber(summary.profitFactor)}`,
+        `Resultado: ${money(summary.totalPnL)}`,
+        `Melhor trade: ${money(summary.bestTrade)} · Pior trade: ${money(summary.worstTrade)}`,
+      ],
+      more: 0,
+    });
+  });
+
+  return sections;
+}
+
+/**
+ * Renders the digest as an email (text and HTML) and as the webhook payload.
+ * @param options.appUrl - Base URL of the app for the link back (optional).
+ */
+export function buildDigestMessage(
+  content: DigestContent,
+  options: {
+    frequency: Exclude<DigestFrequency, "off">;
+    periodStart: Date;
+    now: Date;
+    appUrl?: string;
+  }
+): DigestMessage {
+  const sections = getDigestSections(content);
+  const link = options.appUrl ? `${options.appUrl.replace(/\/$/, "")}/dashboard` : undefined;
+  const subject =
+    options.frequency === "weekly"
+      ? "Seu resumo semanal do Trading Journal"
+      : "Seu resumo diário do Trading Journal";
+
+  const textBody = sections.length
+    ? sections
+        .map((section) =>
+          [
+            section.title,
+            ...section.lines.map((line) => `- ${line}`),
+            ...(section.more ? [`  e mais ${section.more}`] : []),
+          ].join("\n")
+        )
+        .join("\n\n")
+    : "Nada novo desde o último resumo.";
+
+  const htmlBody = sections.length
+    ? sections
+        .map(
+          (section) =>
+            `<h3>${escapeHtml(section.title)}</h3><ul>${section.lines
+              .map((line) => `<li>${escapeHtml(line)}</li>`)
+              .join("")}${section.more ? `<li>e mais ${section.more}</li>` : ""}</ul>`
+        )
+        .join("")
+    : "<p>Nada novo desde o último resumo.</p>";
+
+  return {
+    subject,
+    text: link ? `${textBody}\n\nAbrir o journal: ${link}` : textBody,
+    html: `<div>${htmlBody}${link ? `<p><a href="${escapeHtml(link)}">Abrir o journal</a></p>` : ""}</div>`,
+    payload: {
+      frequency: options.frequency,
+      periodStart: options.periodStart.toISOString(),
+      periodEnd: options.now.toISOString(),
+      unreadReviews: content.reviews.length,
+      newComments: content.comments.length,
+      pendingInvites: content.invites.length,
+      weeklySummaries: content.weeklySummaries,
+      link,
+    },
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Digest Job
+ *
+ * Collects each subscriber's digest content from the repositories, renders it
+ * and delivers it through the channels. Run by `scripts/send-digests.ts`;
+ * `sendTestDigestAction` uses the same pieces for the current user.
+ */
+
+import {
+  prismaAccountRepo,
+  prismaMentorRepo,
+  prismaReviewRepo,
+  prismaSettingsRepo,
+  prismaTradeRepo,
+  type DigestSubscriber,
+} from "@/lib/database/repositories";
+import { calculateReportMetrics } from "@/services/analytics/report";
+import type { Account, DigestFrequency, Trade } from "@/types";
+import {
+  buildDigestMessage,
+  getDigestPeriodStart,
+  hasDigestContent,
+  isDigestDue,
+  shouldIncludeWeeklySummary,
+  type DigestContent,
+  type DigestCurrencySummary,
+} from "./digest";
+import { deliverDigest, type DeliveryResult, type DigestChannels } from "./channels";
+
+export interface DigestRunSummary {
+  checked: number;
+  sent: number;
+  /** Not due yet, or nothing to report */
+  skipped: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Metrics of the trades grouped by the currency of their account, so P&L in
+ * different currencies is never added up.
+ */
+export function summarizeByCurrency(trades: Trade[], accounts: Account[]): DigestCurrencySummary[] {
+  const currencies = new Map(accounts.map((account) => [account.id, account.currency]));
+  const groups = new Map<string, Trade[]>();
+  trades.forEach((trade) => {
+    const currency = currencies.get(trade.accountId);
+    if (currency) groups.set(currency, [...(groups.get(currency) || []), trade]);
+  });
+
+  return [...groups]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, group]) => ({ currency, ...calculateReportMetrics(group) }));
+}
+
+/**
+ * Loads the digest content of a user: unread reviews, comments since
+ * `periodStart`, pending invites and, when asked, the last 7 days of trades
+ * per account currency.
+ */
+export async function collectDigestContent(
+  subscriber: Pick<DigestSubscriber, "userId" | "email">,
+  periodStart: Date,
+  options: { now: Date; includeSummary: boolean }
+): Promise<DigestContent> {
+  const [reviews, comments, invites, trades, accounts] = await Promise.all([
+    prismaReviewRepo.getByMenteeId(subscriber.userId),
+    prismaMentorRepo.getCommentsOnUserTrades(subscriber.userId, periodStart),
+    subscriber.email ? prismaMentorRepo.getReceivedInvites(subscriber.email) : null,
+    options.includeSummary
+      ? prismaTradeRepo.getByUserId(subscriber.userId, {
+          fromDate: new Date(options.now.getTime() - 7 * DAY_MS).toISOString().split("T")[0],
+        })
+      : null,
+    options.includeSummary ? prismaAccountRepo.getByUserId(subscriber.userId) : null,
+  ]);
+
+  return {
+    reviews: (reviews.data || []).filter((review) => !review.isRead),
+    comments: comments.data || [],
+    invites: invites?.data || [],
+    weeklySummaries:
+      trades?.data && accounts?.data ? summarizeByCurrency(trades.data, accounts.data) : undefined,
+  };
+}
+
+/**
+ * Sends the digest of one subscriber if it is due and has something to report.
+ * The delivery is recorded when at least one channel succeeded (not on dry runs).
+ */
+export async function sendDigestToSubscriber(
+  subscriber: DigestSubscriber,
+  channels: DigestChannels,
+  options: { now: Date; appUrl?: string; dryRun?: boolean }
+): Promise<{ sent: boolean; results: DeliveryResult[] }> {
+  const { digestSettings: settings, digestSentAt } = subscriber;
+  if (!isDigestDue(settings, digestSentAt, options.now)) return { sent: false, results: [] };
+
+  const frequency = settings.frequency as Exclude<DigestFrequency, "off">;
+  const periodStart = getDigestPeriodStart(frequency, digestSentAt, options.now);
+  const content = await collectDigestContent(subscriber, periodStart, {
+    now: options.now,
+    includeSummary: shouldIncludeWeeklySummary(frequency, options.now),
+  });
+  if (!hasDigestContent(content)) return { sent: false, results: [] };
+
+  const message = buildDigestMessage(content, {
+    frequency,
+    periodStart,
+    now: options.now,
+    appUrl: options.appUrl,
+  });
+  const results = await deliverDigest(
+    message,
+    { userId: subscriber.userId, email: subscriber.email, webhookUrl: settings.webhookUrl },
+    settings,
+    channels
+  );
+
+  const sent = results.some((result) => result.success);
+  if (sent && !options.dryRun) {
+    await prismaSettingsRepo.markDigestSent(subscriber.userId, options.now);
+  }
+  return { sent, results };
+}
+
+/**
+ * Sends every digest that is due. One failing subscriber does not stop the run.
+ */
+export async function runDueDigests(
+  channels: DigestChannels,
+  options: { now?: Date; appUrl?: string; dryRun?: boolean } = {}
+): Promise<DigestRunSummary> {
+  const now = options.now || new Date();
+  const summary: DigestRunSummary = { checked: 0, sent: 0, skipped: 0, failed: 0 };
+
+  const subscribers = await prismaSettingsRepo.getDigestSubscribers();
+  if (subscribers.error) throw subscribers.error;
+
+  for (const subscriber of subscribers.data || []) {
+    summary.checked++;
+    try {
+      const { sent, results } = await sendDigestToSubscriber(subscriber, channels, {
+        now,
+        appUrl: options.appUrl,
+        dryRun: options.dryRun,
+      });
+      if (sent) summary.sent++;
+      else if (results.length > 0) summary.failed++;
+      else summary.skipped++;
+
+      for (const result of results.filter((r) => !r.success)) {
+        console.error(`[runDueDigests] ${subscriber.userId} ${result.kind}: ${result.error}`);
+      }
+    } catch (error) {
+      summary.failed++;
+      console.error(`[runDueDigests] ${subscriber.userId}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,7 @@
+/**
+ * Notification Domain Services
+ *
+ * `./channels`, `./smtp` and `./digestJob` are server-only; import them by path.
+ */
+export * from "./notifications";
+export * from "./digest";
@@ -0,0 +1,239 @@
+/**
+ * Notification Builders
+ *
+ * Turns the events of the app (mentor review and its replies, invite, trade
+ * comment, shared journal view, prop rule breach, import) into the entries written to the
+ * notification center, and applies the per-type preferences of the recipient.
+ */
+
+import { DEFAULT_NOTIFICATION_SETTINGS } from "@/types";
+import type {
+  MentorInvite,
+  MentorReview,
+  NotificationSettings,
+  NotificationType,
+  PropRuleBreach,
+  PropRuleKey,
+  ReviewReply,
+  TradeComment,
+} from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  data?: Record<string, unknown>;
+}
+
+/** Breach as evaluated by the rule engine, before it is persisted */
+export type RuleBreachDraft = Pick<
+  PropRuleBreach,
+  "rule" | "tradeId" | "breachDate" | "value" | "limit"
+>;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  invite: "Convites de mentoria",
+  feedback: "Feedbacks do mentor",
+  trade_comment: "Comentários em trades",
+  share_view: "Visualizações de journals compartilhados",
+  prop_rule_breach: "Violações de regras da mesa",
+  import_completed: "Importações concluídas",
+  review_reply: "Respostas em feedbacks",
+  mention: "Menções",
+};
+
+/** Shared journal view counts that notify the owner (first view, then milestones) */
+export const SHARE_VIEW_MILESTONES = [1, 10, 50, 100, 500];
+
+const PROP_RULE_LABELS: Record<PropRuleKey, string> = {
+  daily_loss: "Perda Diária",
+  max_drawdown: "Drawdown Máx.",
+  profit_target: "Meta de Lucro",
+  min_trading_days: "Dias Operados",
+  consistency: "Consistência",
+};
+
+const REVIEW_MESSAGES: Record<MentorReview["reviewType"], string> = {
+  correction: "Nova correção recebida.",
+  suggestion: "Nova sugestão recebida.",
+  comment: "Novo comentário recebido.",
+};
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+export function isNotificationEnabled(
+  settings: NotificationSettings | undefined,
+  type: NotificationType
+): boolean {
+  return !settings?.disabledTypes?.includes(type);
+}
+
+/**
+ * Reads the notification settings stored for the user, keeping only known types.
+ */
+export function normalizeNotificationSettings(value: unknown): NotificationSettings {
+  if (!value || typeof value !== "object") return DEFAULT_NOTIFICATION_SETTINGS;
+
+  const raw = value as Partial<Record<keyof NotificationSettings, unknown>>;
+  const disabled = Array.isArray(raw.disabledTypes) ? raw.disabledTypes : [];
+  return {
+    disabledTypes: (Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).filter((type) =>
+      disabled.includes(type)
+    ),
+  };
+}
+
+// ============================================
+// BUILDERS
+// ============================================
+
+const dashboardLink = (accountId?: string, date?: string) =>
+  accountId ? `/dashboard/${accountId}${date ? `?date=${date.split("T")[0]}` : ""}` : undefined;
+
+const preview = (content: string) => (content.length > 80 ? `${content.slice(0, 77)}...` : content);
+
+export function buildReviewNotification(review: MentorReview): NotificationInput {
+  return {
+    type: "feedback",
+    title: "Novo Feedback",
+    message: REVIEW_MESSAGES[review.reviewType] || REVIEW_MESSAGES.comment,
+    link: dashboardLink(review.entryAccountId, review.entryDate),
+    data: {
+      reviewId: review.id,
+      tradeId: review.tradeId,
+      journalEntryId: review.journalEntryId,
+    },
+  };
+}
+
+/**
+ * Reply (or @mention in a reply) on a review thread. The mentee is taken to the
+ * reviewed day, mentors to their inbox.
+ */
+export function buildReviewReplyNotification(
+  review: MentorReview,
+  reply: ReviewReply,
+  recipientId: string,
+  kind: "review_reply" | "mention" = "review_reply"
+): NotificationInput {
+  return {
+    type: kind,
+    title: kind === "mention" ? "Você foi mencionado" : "Nova resposta no feedback",
+    message: `${reply.authorName || "Alguém"}: ${preview(reply.content)}`,
+    link:
+      recipientId === review.menteeId
+        ? dashboardLink(review.entryAccountId, review.entryDate)
+        : "/mentor",
+    data: { reviewId: review.id, replyId: reply.id, journalEntryId: review.journalEntryId },
+  };
+}
+
+export function buildInviteNotification(
+  invite: Pick<MentorInvite, "id" | "inviteToken" | "mentorEmail" | "mentorName">
+): NotificationInput {
+  return {
+    type: "invite",
+    title: "Convite de Mentoria",
+    message: `${invite.mentorName || invite.mentorEmail} convidou você.`,
+    data: {
+      inviteId: invite.id,
+      inviteToken: invite.inviteToken,
+      mentorEmail: invite.mentorEmail,
+    },
+  };
+}
+
+export function buildTradeCommentNotification(
+  comment: Pick<TradeComment, "id" | "tradeId" | "userName" | "content">
+): NotificationInput {
+  return {
+    type: "trade_comment",
+    title: "Novo comentário no trade",
+    message: `${comment.userName || "Seu mentor"}: ${preview(comment.content)}`,
+    data: { commentId: comment.id, tradeId: comment.tradeId },
+  };
+}
+
+/** Whether the view that brought the count to `viewCount` should notify */
+export function shouldNotifyShareView(viewCount: number): boolean {
+  return SHARE_VIEW_MILESTONES.includes(viewCount);
+}
+
+export function buildShareViewNotification(share: {
+  id: string;
+  journalEntryId: string;
+  viewCount: number;
+}): NotificationInput {
+  return {
+    type: "share_view",
+    title: "Journal compartilhado visualizado",
+    message:
+      share.viewCount === 1
+        ? "Seu journal compartilhado recebeu a primeira visualização."
+        : `Seu journal compartilhado chegou a ${share.viewCount} visualizações.`,
+    data: { shareId: share.id, journalEntryId: share.journalEntryId, viewCount: share.viewCount },
+  };
+}
+
+const breachKey = (breach: RuleBreachDraft) =>
+  `${breach.rule}|${breach.breachDate}|${breach.tradeId || ""}`;
+
+/**
+ * Breaches of a fresh evaluation that were not persisted before. The rule engine
+ * replays the whole history, so only these are news for the user.
+ */
+export function getNewRuleBreaches(
+  previous: RuleBreachDraft[],
+  current: RuleBreachDraft[]
+): RuleBreachDraft[] {
+  const known = new Set(previous.map(breachKey));
+  return current.filter((breach) => !known.has(breachKey(breach)));
+}
+
+export function buildRuleBreachNotification(
+  breach: RuleBreachDraft,
+  account: { id: string; name: string }
+): NotificationInput {
+  return {
+    type: "prop_rule_breach",
+    title: `Regra violada: ${PROP_RULE_LABELS[breach.rule]}`,
+    message: `${account.name}: ${breach.value.toFixed(2)} de limite ${breach.limit.toFixed(2)} em ${breach.breachDate}.`,
+    link: dashboardLink(account.id, breach.breachDate),
+    data: { accountId: account.id, rule: breach.rule, tradeId: breach.tradeId },
+  };
+}
+
+export function buildImportNotification(result: {
+  accountId: string;
+  batchId?: string;
+  fileName?: string;
+  /** New trades */
+  count: number;
+  updated?: number;
+  skipped?: number;
+}): NotificationInput {
+  const details = [
+    `${result.count} trade(s) importado(s)`,
+    result.updated ? `${result.updated} atualizado(s)` : null,
+    result.skipped ? `${result.skipped} ignorado(s)` : null,
+  ].filter(Boolean);
+
+  return {
+    type: "import_completed",
+    title: "Importação concluída",
+    message: `${result.fileName ? `${result.fileName}: ` : ""}${details.join(", ")}.`,
+    link: dashboardLink(result.accountId),
+    data: { accountId: result.accountId, batchId: result.batchId, count: result.count },
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Minimal SMTP Client
+ *
+ * Sends one multipart (text + HTML) email per connection: EHLO, STARTTLS when
+ * offered (or implicit TLS on `secure`), AUTH PLAIN, MAIL/RCPT/DATA. Enough for
+ * the digest; server-only. Credentials are only sent over TLS.
+ */
+
+import net from "node:net";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465); otherwise STARTTLS is used when offered */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Sender, e.g. "Trading Journal <no-reply@example.com>" */
+  from: string;
+}
+
+export interface SmtpMail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const TIMEOUT_MS = 30_000;
+
+/** Reads SMTP replies; a reply ends on the line with a space after the code */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: ((line: string) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding("utf8");
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("SMTP timeout")));
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.flush();
+    });
+    socket.on("error", (error) => {
+      this.failure = error;
+      this.flush();
+    });
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    if (this.lines.length > 0) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(this.lines.shift()!);
+    } else if (this.failure) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(`000 ${this.failure.message}`);
+    }
+  }
+
+  private nextLine(): Promise<string> {
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+      this.flush();
+    });
+  }
+
+  async read(expected: number[]): Promise<string[]> {
+    const reply: string[] = [];
+    let line: string;
+    do {
+      line = await this.nextLine();
+      reply.push(line);
+    } while (line[3] === "-");
+
+    const code = parseInt(line.slice(0, 3), 10);
+    if (!expected.includes(code)) {
+      throw new Error(`SMTP ${reply.join(" | ")}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, expected: number[]): Promise<string[]> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  /** Upgrades the plain connection after STARTTLS */
+  async upgrade(host: string) {
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: host }, () =>
+        resolve(upgraded)
+      );
+      upgraded.once("error", reject);
+    });
+    this.socket.removeAllListeners("data");
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+const base64Lines = (value: string) =>
+  Buffer.from(value).toString("base64").replace(/.{76}/g, "$&\r\n");
+
+const extractAddress = (value: string) => value.match(/<([^>]+)>/)?.[1] || value.trim();
+
+/** Builds the MIME message (headers + multipart body) */
+export function buildMimeMessage(from: string, mail: SmtpMail, date = new Date()): string {
+  const boundary = `digest-${randomUUID()}`;
+  return [
+    `From: ${from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(mail.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(mail.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Sends an email through the SMTP server. Rejects with the server reply when a
+ * command fails, and before AUTH when the connection is not encrypted.
+ */
+export async function sendSmtpMail(config: SmtpConfig, mail: SmtpMail): Promise<void> {
+  const socket = await new Promise<net.Socket>((resolve, reject) => {
+    const connected = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () =>
+          resolve(connected)
+        )
+      : net.connect({ host: config.host, port: config.port }, () => resolve(connected));
+    connected.once("error", reject);
+  });
+
+  const smtp = new SmtpConnection(socket);
+  try {
+    await smtp.read([220]);
+    const capabilities = await smtp.command("EHLO trading-journal", [250]);
+    let encrypted = config.secure;
+
+    if (!encrypted && capabilities.some((line) => /STARTTLS/i.test(line))) {
+      await smtp.command("STARTTLS", [220]);
+      await smtp.upgrade(config.host);
+      await smtp.command("EHLO trading-journal", [250]);
+      encrypted = true;
+    }
+
+    if (config.user && config.pass) {
+      if (!encrypted) {
+        throw new Error("SMTP sem TLS: o servidor não oferece STARTTLS, credenciais não enviadas");
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString("base64");
+      await smtp.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await smtp.command(`MAIL FROM:<${extractAddress(config.from)}>`, [250]);
+    await smtp.command(`RCPT TO:<${extractAddress(mail.to)}>`, [250, 251]);
+    await smtp.command("DATA", [354]);
+    // Dot-stuffing: lines starting with "." get an extra one
+    smtp.write(buildMimeMessage(config.from, mail).replace(/^\./gm, ".."));
+    await smtp.command(".", [250]);
+    await smtp.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    smtp.close();
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * cTrader History Parser
+ *
+ * Parses the "History" (closed positions) CSV export of cTrader.
+ * Column names vary with the broker and platform language/version, so they are matched loosely:
+ * Position ID, Symbol, Opening Direction, Opening Time (UTC+N), Entry Price, Closing Time (UTC+N),
+ * Closing Price, Closing Quantity, Gross <CUR>, Commissions, Swap, Net <CUR>.
+ * Rows are converted to the standard import columns used by detectColumnMapping.
+ */
+
+import dayjs from "dayjs";
+import customParseFormat from "dayjs/plugin/customParseFormat";
+import { decodeCsvBuffer, type ImportResult, type RawTradeData } from "./import";
+
+dayjs.extend(customParseFormat);
+
+const DATE_FORMATS = [
+  "DD/MM/YYYY HH:mm:ss.SSS",
+  "DD/MM/YYYY HH:mm:ss",
+  "DD/MM/YYYY HH:mm",
+  "DD.MM.YYYY HH:mm:ss.SSS",
+  "DD.MM.YYYY HH:mm:ss",
+  "DD.MM.YYYY HH:mm",
+  "YYYY-MM-DD HH:mm:ss.SSS",
+  "YYYY-MM-DD HH:mm:ss",
+  "YYYY-MM-DDTHH:mm:ss.SSS",
+  "YYYY-MM-DDTHH:mm:ss",
+  "YYYY/MM/DD HH:mm:ss",
+];
+
+/** Lowercase header without "(...)" suffixes, currency codes or punctuation */
+const headerBase = (header: string) =>
+  header
+    .replace(/\(.*?\)/g, " ")
+    .replace(/\b[A-Z]{3}\b/g, " ")
+    .toLowerCase()
+    .replace(/[^a-z ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const findHeader = (headers: string[], candidates: string[], prefix = false) =>
+  headers.find((header) => {
+    const base = headerBase(header);
+    return candidates.some((candidate) =>
+      prefix ? base.startsWith(candidate) : base === candidate
+    );
+  }) ?? "";
+
+export interface CTraderColumns {
+  positionId: string;
+  symbol: string;
+  direction: string;
+  openTime: string;
+  openPrice: string;
+  closeTime: string;
+  closePrice: string;
+  quantity: string;
+  gross: string;
+  net: string;
+  commission: string;
+  swap: string;
+}
+
+/**
+ * Locates the cTrader columns in a header row. Missing columns are empty strings.
+ */
+export const detectCTraderColumns = (headers: string[]): CTraderColumns => ({
+  positionId: findHeader(headers, ["position id", "position", "id"]),
+  symbol: findHeader(headers, ["symbol"]),
+  direction: findHeader(headers, ["opening direction", "direction", "side"]),
+  openTime: findHeader(headers, ["opening time", "open time", "entry time"]),
+  openPrice: findHeader(headers, ["entry price", "opening price", "open price"]),
+  closeTime: findHeader(headers, ["closing time", "close time"]),
+  closePrice: findHeader(headers, ["closing price", "close price"]),
+  quantity: findHeader(headers, ["closing quantity", "quantity", "volume", "closed volume"]),
+  gross: findHeader(headers, ["gross"], true),
+  net: findHeader(headers, ["net"], true),
+  commission: findHeader(headers, ["commissions", "commission"]),
+  swap: findHeader(headers, ["swap"]),
+});
+
+/**
+ * Timezone of the export, from a "(UTC+3)" style suffix on the time columns.
+ * Etc/GMT zones have the sign inverted (UTC+3 -> Etc/GMT-3).
+ */
+export const detectCTraderTimezone = (header: string): string | undefined => {
+  const match = header.match(/\(UTC\s*([+-])?\s*(\d{1,2})(?::?(\d{2}))?\)/i);
+  if (!match) return undefined;
+
+  const [, sign = "+", hours, minutes] = match;
+  // Etc/GMT only covers whole hours
+  if (minutes && minutes !== "00") return undefined;
+  const offset = Number(hours);
+  if (offset === 0) return "Etc/UTC";
+  return `Etc/GMT${sign === "+" ? "-" : "+"}${offset}`;
+};
+
+/** Currency code from a money header such as "Net USD" or "Gross (EUR)" */
+const detectCurrency = (header: string) => header.match(/\b([A-Z]{3})\b/)?.[1];
+
+/**
+ * Parses cTrader numbers: "1 234.56", "1,234.56", "-12,50", "0.10 Lots".
+ */
+export const parseCTraderNumber = (value: string | number | undefined): number => {
+  if (typeof value === "number") return value;
+  if (!value) return 0;
+
+  let str = value.replace(/[^\d.,-]/g, "");
+  if (str.includes(",") && !str.includes(".") && /,\d{1,2}$/.test(str)) {
+    str = str.replace(",", ".");
+  } else {
+    str = str.replace(/,/g, "");
+  }
+
+  const num = parseFloat(str);
+  return isNaN(num) ? 0 : num;
+};
+
+/**
+ * Parses a cTrader timestamp to the "YYYY-MM-DD HH:mm:ss" import format (wall-clock of the export).
+ */
+export const parseCTraderDateTime = (value: string): string | null => {
+  if (!value) return null;
+  const parsed = dayjs(value.trim(), DATE_FORMATS, true);
+  return parsed.isValid() ? parsed.format("YYYY-MM-DD HH:mm:ss") : null;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Parses the content of a cTrader history CSV.
+ * @throws Error when the required columns are missing or no closed position is found
+ */
+export const parseCTraderContent = (content: string): ImportResult => {
+  if (!content || !content.trim()) throw new Error("File is empty");
+
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const Papa = require("papaparse") as typeof import("papaparse");
+
+  const result = Papa.parse(content, {
+    skipEmptyLines: "greedy",
+    dynamicTyping: false,
+    header: true,
+    transformHeader: (header: string) => header.replace(/^\uFEFF/, "").trim(),
+  });
+
+  if (result.errors.length > 0) {
+    console.warn("cTrader CSV parse warnings:", result.errors);
+  }
+
+  const headers = result.meta.fields ?? [];
+  const columns = detectCTraderColumns(headers);
+  const missing = (["symbol", "direction", "openTime", "closeTime", "quantity"] as const).filter(
+    (key) => !columns[key]
+  );
+  if (missing.length > 0 || (!columns.gross && !columns.net)) {
+    throw new Error(
+      "Arquivo não reconhecido como histórico do cTrader. Exporte a aba History em CSV."
+    );
+  }
+
+  const currency = detectCurrency(columns.net) ?? detectCurrency(columns.gross);
+  const data: RawTradeData[] = [];
+  let totalNetProfit = 0;
+
+  for (const row of result.data as Record<string, string>[]) {
+    const openTime = parseCTraderDateTime(row[columns.openTime]);
+    const closeTime = parseCTraderDateTime(row[columns.closeTime]);
+    const symbol = row[columns.symbol]?.trim();
+    if (!openTime || !closeTime || !symbol) continue;
+
+    const commission = parseCTraderNumber(row[columns.commission]);
+    const swap = parseCTraderNumber(row[columns.swap]);
+    const net = parseCTraderNumber(row[columns.net]);
+    // Gross excludes commission and swap; derive it from Net when the export omits it
+    const gross = columns.gross ? parseCTraderNumber(row[columns.gross]) : net - commission - swap;
+
+    const direction = row[columns.direction]?.trim().toLowerCase() ?? "";
+
+    data.push({
+      "Open Time": openTime,
+      "Close Time": closeTime,
+      Symbol: symbol,
+      Type: direction.startsWith("s") ? "Sell" : "Buy",
+      Volume: String(parseCTraderNumber(row[columns.quantity])),
+      "Open Price": String(parseCTraderNumber(row[columns.openPrice])),
+      "Close Price": String(parseCTraderNumber(row[columns.closePrice])),
+      Profit: String(round(gross)),
+      Commission: String(round(commission)),
+      Swap: String(round(swap)),
+      Currency: currency ?? "",
+      "Position ID": row[columns.positionId] ?? "",
+    });
+
+    totalNetProfit += columns.net ? net : gross + commission + swap;
+  }
+
+  if (data.length === 0) {
+    throw new Error("Nenhuma posição fechada encontrada no arquivo do cTrader.");
+  }
+
+  return {
+    data,
+    totalNetProfit: round(totalNetProfit),
+    timezone: detectCTraderTimezone(columns.openTime) ?? detectCTraderTimezone(columns.closeTime),
+    currencies: currency ? [currency] : [],
+  };
+};
+
+/**
+ * Reads a cTrader history CSV file.
+ */
+export const parseCTraderCSV = async (file: File): Promise<ImportResult> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const buffer = e.target?.result as ArrayBuffer;
+        if (!buffer) throw new Error("File is empty");
+        resolve(parseCTraderContent(decodeCsvBuffer(buffer)));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    reader.onerror = (error) => reject(error);
+    reader.readAsArrayBuffer(file);
+  });
+};
@@ -0,0 +1,255 @@
+/**
+ * Execution Matcher
+ *
+ * Rebuilds closed round trips from raw execution logs (individual buys/sells) for any broker parser.
+ * Executions are matched per account/symbol against the open lots, FIFO or LIFO, so:
+ * - partial fills and scale-ins/outs produce one round trip per matched lot portion
+ *   (ImportModal's "group partial fills" merges them back into multi-leg trades);
+ * - an execution larger than the open position closes it and opens the rest on the other side (flip);
+ * - lots stay open across sessions (overnight carry) and can be seeded from/returned to earlier imports.
+ */
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { getDefaultMultiplier } from "@/constants/defaultMultipliers";
+import type { RawTradeData } from "./import";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type MatchingMethod = "fifo" | "lifo";
+
+export type ExecutionSide = "buy" | "sell";
+
+export interface Execution {
+  id: string;
+  accountId: string;
+  /** Contract as reported by the broker; executions are matched by exact symbol */
+  symbol: string;
+  side: ExecutionSide;
+  /** Always positive; the side carries the direction */
+  quantity: number;
+  price: number;
+  time: Date;
+  /** Negative = cost */
+  commission?: number;
+  /** Money per price point per unit (futures point value); defaults to 1 */
+  multiplier?: number;
+  currency?: string;
+  /**
+   * Broker open/close flag, when the export has one. A "close" execution never opens a
+   * position: without an open lot to match it belongs to a position opened before the log.
+   */
+  effect?: "open" | "close";
+}
+
+export interface OpenLot {
+  executionId: string;
+  accountId: string;
+  symbol: string;
+  side: ExecutionSide;
+  /** Quantity still open */
+  quantity: number;
+  price: number;
+  time: Date;
+  commissionPerUnit: number;
+  multiplier: number;
+  currency?: string;
+}
+
+export interface RoundTrip {
+  accountId: string;
+  symbol: string;
+  direction: "Long" | "Short";
+  quantity: number;
+  entryTime: Date;
+  exitTime: Date;
+  entryPrice: number;
+  exitPrice: number;
+  /** (exit - entry) x quantity x multiplier, signed by direction */
+  grossProfit: number;
+  /** Prorated commissions of the entry and exit executions (negative = cost) */
+  commission: number;
+  multiplier: number;
+  currency?: string;
+  entryExecutionId: string;
+  exitExecutionId: string;
+  /** Entry and exit on different calendar days */
+  overnight: boolean;
+}
+
+export interface MatchOptions {
+  method?: MatchingMethod;
+  /** Positions carried from a previous log (e.g. the open lots of the last import) */
+  openLots?: OpenLot[];
+  /** IANA timezone of the calendar days used for `overnight`; defaults to the runtime's */
+  timezone?: string;
+}
+
+export interface MatchResult {
+  roundTrips: RoundTrip[];
+  /** Positions still open at the end of the log */
+  openLots: OpenLot[];
+  /** Closing quantity with no open position to match (opened before the log) */
+  unmatched: Execution[];
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Point value of a futures root (NQ = 20, MNQ = 2...). Editable defaults (forex, CFDs, crypto)
+ * depend on the broker's lot size, so those symbols are valued per unit.
+ */
+export const getContractMultiplier = (root: string): number => {
+  const { value, locked } = getDefaultMultiplier(root.toUpperCase());
+  return locked ? value : 1;
+};
+
+const inTimezone = (date: Date, tz?: string) => (tz ? dayjs(date).tz(tz) : dayjs(date));
+
+const lotKey = (accountId: string, symbol: string) => `${accountId}|${symbol}`;
+
+/**
+ * Matches executions into closed round trips.
+ * Executions are processed in time order (ties keep the input order).
+ */
+export const matchExecutions = (
+  executions: Execution[],
+  { method = "fifo", openLots = [], timezone }: MatchOptions = {}
+): MatchResult => {
+  const books = new Map<string, OpenLot[]>();
+  for (const lot of openLots) {
+    const key = lotKey(lot.accountId, lot.symbol);
+    books.set(key, [...(books.get(key) ?? []), { ...lot }]);
+  }
+
+  const roundTrips: RoundTrip[] = [];
+  const unmatched: Execution[] = [];
+  const ordered = executions
+    .map((execution, index) => ({ execution, index }))
+    .sort((a, b) => a.execution.time.getTime() - b.execution.time.getTime() || a.index - b.index)
+    .map(({ execution }) => execution);
+
+  for (const execution of ordered) {
+    if (!(execution.quantity > 0)) continue;
+
+    const key = lotKey(execution.accountId, execution.symbol);
+    const lots = books.get(key) ?? [];
+    books.set(key, lots);
+
+    const multiplier = execution.multiplier || 1;
+    const commissionPerUnit = (execution.commission ?? 0) / execution.quantity;
+    let remaining = execution.quantity;
+
+    while (remaining > EPSILON && lots.length > 0 && lots[0].side !== execution.side) {
+      const index = method === "lifo" ? lots.length - 1 : 0;
+      const lot = lots[index];
+      const quantity = Math.min(remaining, lot.quantity);
+      const direction = lot.side === "buy" ? 1 : -1;
+
+      roundTrips.push({
+        accountId: execution.accountId,
+        symbol: execution.symbol,
+        direction: lot.side === "buy" ? "Long" : "Short",
+        quantity,
+        entryTime: lot.time,
+        exitTime: execution.time,
+        entryPrice: lot.price,
+        exitPrice: execution.price,
+        grossProfit: (execution.price - lot.price) * quantity * lot.multiplier * direction,
+        commission: (lot.commissionPerUnit + commissionPerUnit) * quantity,
+        multiplier: lot.multiplier,
+        currency: lot.currency ?? execution.currency,
+        entryExecutionId: lot.executionId,
+        exitExecutionId: execution.id,
+        overnight:
+          inTimezone(lot.time, timezone).format("YYYY-MM-DD") !==
+          inTimezone(execution.time, timezone).format("YYYY-MM-DD"),
+      });
+
+      lot.quantity -= quantity;
+      remaining -= quantity;
+      if (lot.quantity <= EPSILON) lots.splice(index, 1);
+    }
+
+    if (remaining <= EPSILON) continue;
+
+    if (execution.effect === "close") {
+      unmatched.push({
+        ...execution,
+        quantity: remaining,
+        commission: commissionPerUnit * remaining,
+      });
+      continue;
+    }
+
+    lots.push({
+      executionId: execution.id,
+      accountId: execution.accountId,
+      symbol: execution.symbol,
+      side: execution.side,
+      quantity: remaining,
+      price: execution.price,
+      time: execution.time,
+      commissionPerUnit,
+      multiplier,
+      currency: execution.currency,
+    });
+  }
+
+  return {
+    roundTrips,
+    openLots: Array.from(books.values()).flat(),
+    unmatched,
+  };
+};
+
+const round = (value: number, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const formatDateTime = (date: Date, tz?: string) =>
+  inTimezone(date, tz).format("YYYY-MM-DD HH:mm:ss");
+
+/**
+ * Converts round trips to the standard import columns recognized by detectColumnMapping.
+ * Times are written as wall-clock in `timezone` (the runtime's when omitted).
+ */
+export const roundTripsToRawData = (roundTrips: RoundTrip[], timezone?: string): RawTradeData[] =>
+  roundTrips.map((trip) => ({
+    "Open Time": formatDateTime(trip.entryTime, timezone),
+    "Close Time": formatDateTime(trip.exitTime, timezone),
+    Symbol: trip.symbol,
+    Type: trip.direction === "Long" ? "Buy" : "Sell",
+    Volume: String(round(trip.quantity, 8)),
+    "Open Price": String(round(trip.entryPrice, 8)),
+    "Close Price": String(round(trip.exitPrice, 8)),
+    Profit: String(round(trip.grossProfit)),
+    Commission: String(round(trip.commission)),
+    Currency: trip.currency ?? "",
+    Account: trip.accountId,
+    "Entry ID": trip.entryExecutionId,
+    "Exit ID": trip.exitExecutionId,
+  }));
+
+/**
+ * Import warnings for executions the matcher could not turn into closed trades.
+ */
+export const describeUnmatchedExecutions = ({ openLots, unmatched }: MatchResult): string[] => {
+  const warnings: string[] = [];
+  if (openLots.length > 0) {
+    const symbols = Array.from(new Set(openLots.map((lot) => lot.symbol))).join(", ");
+    warnings.push(
+      `${openLots.length} posição(ões) ainda aberta(s) no fim do arquivo (${symbols}) não foram importadas.`
+    );
+  }
+  if (unmatched.length > 0) {
+    const symbols = Array.from(new Set(unmatched.map((execution) => execution.symbol))).join(", ");
+    warnings.push(
+      `${unmatched.length} saída(s) de posições abertas antes do arquivo (${symbols}) foram ignoradas.`
+    );
+  }
+  return warnings;
+};
@@ -1,6 +1,67 @@
 import { supabase, getCurrentUserIdClient } from "@/lib/supabase";
-import { Account, Trade, JournalEntry, Playbook, DailyRoutine, UserSettings, Asset } from "@/types";
-import { DBAccount, DBTrade, DBJournalEntry, DBDailyRoutine, DBSettings } from "@/types/database";
+import type {
+  Prisma,
+  laboratory_experiment_trades as PrismaExperimentTrade,
+  laboratory_experiments as PrismaExperiment,
+  laboratory_images as PrismaLaboratoryImage,
+  laboratory_recap_trades as PrismaRecapTrade,
+  laboratory_recaps as PrismaRecap,
+  mental_logs as PrismaMentalLog,
+  trade_legs as PrismaTradeLeg,
+} from "@/generated/prisma";
+import {
+  Account,
+  AccountType,
+  Trade,
+  TradeLeg,
+  JournalEntry,
+  Playbook,
+  DailyRoutine,
+  UserSettings,
+  Asset,
+  EmotionalState,
+  ExperimentStatus,
+  ExperimentType,
+  LaboratoryExperiment,
+  LaboratoryRecap,
+  RecapLinkedType,
+} from "@/types";
+import {
+  DBAccount,
+  DBTrade,
+  DBJournalEntry,
+  DBJournalEntryTrade,
+  DBDailyRoutine,
+  DBSettings,
+} from "@/types/database";
+import { normalizePropFirmRules } from "@/lib/utils/trading";
+import { normalizeRuleCompliance } from "@/services/trades/ruleCompliance";
+
+/** Current backup format. 1.0 lacked trade costs/telemetry/legs, journal links, laboratory and mental logs */
+export const BACKUP_VERSION = "2.0";
+
+export interface BackupLaboratoryExperiment extends LaboratoryExperiment {
+  /** Trades linked to the experiment (pro = supports it, contra = against it) */
+  linkedTrades: { tradeId: string; category: "pro" | "contra" }[];
+}
+
+export interface BackupLaboratoryRecap extends LaboratoryRecap {
+  /** Trades reviewed in the recap (weekly recaps have several) */
+  tradeIds: string[];
+  weekStartDate?: string;
+  weekEndDate?: string;
+}
+
+export interface BackupMentalLog {
+  id: string;
+  moodTag?: string;
+  step1Problem: string;
+  step2Validation?: string;
+  step3Flaw?: string;
+  step4Correction?: string;
+  step5Logic?: string;
+  createdAt: string;
+}
 
 export interface ExportData {
   exportedAt: string;
@@ -11,8 +72,16 @@ export interface ExportData {
   playbooks: Playbook[];
   routines: DailyRoutine[];
   settings: UserSettings | null;
+  laboratoryExperiments: BackupLaboratoryExperiment[];
+  laboratoryRecaps: BackupLaboratoryRecap[];
+  mentalLogs: BackupMentalLog[];
 }
 
+type ApiValue<V> = V extends Date ? string : V extends Prisma.Decimal ? number | string : V;
+
+/** Row of a table as the REST API returns it: dates as ISO strings, decimals as numbers or strings */
+type ApiRow<T> = { [K in keyof T]: ApiValue<T[K]> };
+
 /**
  * Helper to fetch all rows from a table, bypassing the default row limit.
  * @param tableName The name of the table to fetch from.
@@ -52,6 +121,37 @@ async function fetchAll<T>(tableName: string, userId: string): Promise<T[]> {
   return allData;
 }
 
+/**
+ * Helper to fetch the rows of a table without user_id (links, legs, images) by parent IDs.
+ * @param tableName The name of the table to fetch from.
+ * @param column The parent ID column.
+ * @param ids The parent IDs.
+ * @returns An array of all rows.
+ */
+async function fetchByParentIds<T>(tableName: string, column: string, ids: string[]): Promise<T[]> {
+  const chunkSize = 200;
+  let allData: T[] = [];
+
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from(tableName)
+      .select("*")
+      .in(column, ids.slice(i, i + chunkSize));
+
+    if (error) {
+      console.error(`Error fetching data from ${tableName}:`, error);
+      throw error;
+    }
+
+    allData = [...allData, ...(data || [])];
+  }
+
+  return allData;
+}
+
+const toOptionalNumber = (value: number | string | null | undefined) =>
+  value !== null && value !== undefined && value !== "" ? Number(value) : undefined;
+
 /**
  * Export all user data.
  * @returns {Promise<ExportData>} The exported data.
@@ -63,7 +163,19 @@ export async function exportAllData(): Promise<ExportData> {
     throw new Error("User not authenticated");
   }
 
-  const [accounts, trades, journalEntries, playbooks, routines, settingsData] = await Promise.all([
+  const exportedAt = new Date().toISOString();
+
+  const [
+    accounts,
+    trades,
+    journalEntries,
+    playbooks,
+    routines,
+    settingsData,
+    experiments,
+    recaps,
+    mentalLogs,
+  ] = await Promise.all([
     fetchAll<DBAccount>("accounts", userId),
     fetchAll<DBTrade>("trades", userId),
     fetchAll<DBJournalEntry>("journal_entries", userId),
@@ -71,8 +183,42 @@ export async function exportAllData(): Promise<ExportData> {
     fetchAll<any>("playbooks", userId),
     fetchAll<DBDailyRoutine>("daily_routines", userId),
     supabase.from("settings").select("*").eq("user_id", userId).maybeSingle(),
+    fetchAll<ApiRow<PrismaExperiment>>("laboratory_experiments", userId),
+    fetchAll<ApiRow<PrismaRecap>>("laboratory_recaps", userId),
+    fetchAll<ApiRow<PrismaMentalLog>>("mental_logs", userId),
   ]);
 
+  // Child tables have no user_id: fetch them by parent
+  const experimentIds = experiments.map((e) => e.id);
+  const [tradeLegs, journalLinks, experimentImages, experimentTrades, recapTrades] =
+    await Promise.all([
+      fetchByParentIds<ApiRow<PrismaTradeLeg>>(
+        "trade_legs",
+        "trade_id",
+        trades.map((t) => t.id)
+      ),
+      fetchByParentIds<DBJournalEntryTrade>(
+        "journal_entry_trades",
+        "journal_entry_id",
+        journalEntries.map((e) => e.id)
+      ),
+      fetchByParentIds<ApiRow<PrismaLaboratoryImage>>(
+        "laboratory_images",
+        "experiment_id",
+        experimentIds
+      ),
+      fetchByParentIds<ApiRow<PrismaExperimentTrade>>(
+        "laboratory_experiment_trades",
+        "experiment_id",
+        experimentIds
+      ),
+      fetchByParentIds<ApiRow<PrismaRecapTrade>>(
+        "laboratory_recap_trades",
+        "recap_id",
+        recaps.map((r) => r.id)
+      ),
+    ]);
+
   const mapAccount = (db: DBAccount): Account => ({
     id: db.id,
     userId: db.user_id,
@@ -82,10 +228,24 @@ export async function exportAllData(): Promise<ExportData> {
     currentBalance: Number(db.current_balance),
     leverage: db.leverage,
     maxDrawdown: Number(db.max_drawdown),
+    accountType: (db.account_type as AccountType) || "real",
+    propRules: normalizePropFirmRules(db.prop_rules),
     createdAt: db.created_at,
     updatedAt: db.updated_at,
   });
 
+  const mapTradeLeg = (db: ApiRow<PrismaTradeLeg>): TradeLeg => ({
+    id: db.id,
+    tradeId: db.trade_id,
+    side: db.side as TradeLeg["side"],
+    price: Number(db.price),
+    quantity: Number(db.quantity),
+    executedDate: db.executed_date,
+    executedTime: db.executed_time || undefined,
+    pnl: toOptionalNumber(db.pnl),
+    createdAt: db.created_at || undefined,
+  });
+
   const mapTrade = (db: DBTrade): Trade => ({
     id: db.id,
     userId: db.user_id,
@@ -109,6 +269,21 @@ export async function exportAllData(): Promise<ExportData> {
     exitTime: db.exit_time,
     pnl: db.pnl ? Number(db.pnl) : undefined,
     outcome: db.outcome,
+    commission: toOptionalNumber(db.commission),
+    swap: toOptionalNumber(db.swap),
+    strategyIcon: db.strategy_icon,
+    session: db.session,
+    htfAligned: db.htf_aligned,
+    rMultiple: toOptionalNumber(db.r_multiple),
+    marketCondition: db.market_condition as Trade["marketCondition"],
+    market_condition_v2: db.market_condition_v2 as Trade["market_condition_v2"],
+    planAdherence: db.plan_adherence as Trade["planAdherence"],
+    planAdherenceRating: db.plan_adherence_rating,
+    ruleCompliance: normalizeRuleCompliance(db.rule_compliance),
+    playbookVersion: db.playbook_version ?? undefined,
+    entry_quality: db.entry_quality as Trade["entry_quality"],
+    pdArray: db.pd_array as Trade["pdArray"],
+    legs: tradeLegs.filter((leg) => leg.trade_id === db.id).map(mapTradeLeg),
     createdAt: db.created_at,
     updatedAt: db.updated_at,
   });
@@ -120,7 +295,14 @@ export async function exportAllData(): Promise<ExportData> {
     date: db.date,
     title: db.title || "",
     asset: db.asset || "",
-    tradeIds: db.trade_id ? [db.trade_id] : [], // Legacy support
+    tradeIds: Array.from(
+      new Set([
+        ...(db.trade_id ? [db.trade_id] : []), // Legacy support
+        ...journalLinks
+          .filter((link) => link.journal_entry_id === db.id)
+          .map((link) => link.trade_id),
+      ])
+    ),
     images: [], // Images are handled separately
     emotion: db.emotion as JournalEntry["emotion"],
     analysis: db.analysis,
@@ -199,15 +381,80 @@ export async function exportAllData(): Promise<ExportData> {
     return mapped;
   });
 
+  const mapExperiment = (db: ApiRow<PrismaExperiment>): BackupLaboratoryExperiment => ({
+    id: db.id,
+    userId: db.user_id,
+    title: db.title,
+    description: db.description || undefined,
+    experimentType: (db.experiment_type as ExperimentType | null) || undefined,
+    status: db.status as ExperimentStatus,
+    category: db.category || undefined,
+    expectedWinRate: toOptionalNumber(db.expected_win_rate),
+    expectedRiskReward: toOptionalNumber(db.expected_risk_reward),
+    promotedToPlaybook: !!db.promoted_to_playbook,
+    images: experimentImages
+      .filter((img) => img.experiment_id === db.id)
+      .map((img) => ({
+        id: img.id,
+        experimentId: img.experiment_id,
+        imageUrl: img.image_url,
+        description: img.description || undefined,
+        uploadedAt: img.uploaded_at || exportedAt,
+      })),
+    linkedTrades: experimentTrades
+      .filter((link) => link.experiment_id === db.id)
+      .map((link) => ({
+        tradeId: link.trade_id,
+        category: link.category as BackupLaboratoryExperiment["linkedTrades"][number]["category"],
+      })),
+    createdAt: db.created_at || exportedAt,
+    updatedAt: db.updated_at || exportedAt,
+  });
+
+  const mapRecap = (db: ApiRow<PrismaRecap>): BackupLaboratoryRecap => ({
+    id: db.id,
+    userId: db.user_id,
+    tradeId: db.trade_id || undefined,
+    linkedType: (db.linked_type as RecapLinkedType | null) || undefined,
+    linkedId: db.linked_id || undefined,
+    title: db.title,
+    type: (db.review_type as LaboratoryRecap["type"] | null) || "daily",
+    whatWorked: db.what_worked || undefined,
+    whatFailed: db.what_failed || undefined,
+    emotionalState: (db.emotional_state as EmotionalState | null) || undefined,
+    lessonsLearned: db.lessons_learned || undefined,
+    images: db.images || [],
+    tradeIds: recapTrades
+      .filter((link) => link.recap_id === db.id && link.trade_id)
+      .map((link) => link.trade_id!),
+    weekStartDate: db.week_start_date || undefined,
+    weekEndDate: db.week_end_date || undefined,
+    createdAt: db.created_at || exportedAt,
+  });
+
+  const mapMentalLog = (db: ApiRow<PrismaMentalLog>): BackupMentalLog => ({
+    id: db.id,
+    moodTag: db.mood_tag || undefined,
+    step1Problem: db.step_1_problem,
+    step2Validation: db.step_2_validation || undefined,
+    step3Flaw: db.step_3_flaw || undefined,
+    step4Correction: db.step_4_correction || undefined,
+    step5Logic: db.step_5_logic || undefined,
+    createdAt: db.created_at || exportedAt,
+  });
+
   return {
-    exportedAt: new Date().toISOString(),
-    version: "1.0",
+    exportedAt,
+    version: BACKUP_VERSION,
     accounts: accounts.map(mapAccount),
     trades: trades.map(mapTrade),
     journalEntries: mappedJournalEntries,
     playbooks: playbooks.map(mapPlaybook),
     routines: routines.map(mapRoutine),
     settings: settingsData.data ? mapSettings(settingsData.data) : null,
+    laboratoryExperiments: experiments.map(mapExperiment),
+    laboratoryRecaps: recaps.map(mapRecap),
+    mentalLogs: mentalLogs.map(mapMentalLog),
   };
 }
 
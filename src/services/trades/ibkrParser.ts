@@ -0,0 +1,262 @@
+/**
+ * Interactive Brokers Flex Query Parser
+ *
+ * Parses Flex Query trade confirmations exported as XML or CSV ("Trades" section,
+ * execution level of detail). IBKR reports individual executions, so they are matched
+ * per account/symbol into closed round trips by the execution matcher.
+ */
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { decodeCsvBuffer, type ImportResult } from "./import";
+import {
+  describeUnmatchedExecutions,
+  matchExecutions,
+  roundTripsToRawData,
+  type Execution,
+  type MatchingMethod,
+} from "./executionMatcher";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/** Flex Query timestamps follow the account's report timezone, US/Eastern by default */
+export const IBKR_DEFAULT_TIMEZONE = "America/New_York";
+
+/** Flex field name (XML attribute or CSV header) -> canonical key */
+const FIELD_ALIASES: Record<string, string> = {
+  clientaccountid: "accountId",
+  accountid: "accountId",
+  symbol: "symbol",
+  underlyingsymbol: "underlyingSymbol",
+  assetcategory: "assetCategory",
+  assetclass: "assetCategory",
+  currency: "currency",
+  currencyprimary: "currency",
+  datetime: "dateTime",
+  tradedate: "tradeDate",
+  tradetime: "tradeTime",
+  buysell: "buySell",
+  quantity: "quantity",
+  tradeprice: "tradePrice",
+  price: "tradePrice",
+  ibcommission: "commission",
+  commission: "commission",
+  multiplier: "multiplier",
+  opencloseindicator: "openClose",
+  tradeid: "tradeId",
+  transactionid: "transactionId",
+  levelofdetail: "levelOfDetail",
+};
+
+const normalizeRecord = (record: Record<string, string>): Record<string, string> => {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const alias = FIELD_ALIASES[key.toLowerCase().replace(/[^a-z0-9]/g, "")];
+    if (alias && normalized[alias] === undefined) normalized[alias] = String(value ?? "").trim();
+  }
+  return normalized;
+};
+
+const parseIbkrNumber = (value: string | undefined): number => {
+  if (!value) return 0;
+  const num = parseFloat(value.replace(/,/g, ""));
+  return isNaN(num) ? 0 : num;
+};
+
+/**
+ * Parses IBKR date/time values: "20250115;093015", "2025-01-15;09:30:15",
+ * "2025-01-15, 09:30:15" or a date plus a separate time field. The wall-clock is
+ * read in the report's timezone.
+ */
+export const parseIbkrDateTime = (
+  value: string,
+  time?: string,
+  reportTimezone: string = IBKR_DEFAULT_TIMEZONE
+): Date | null => {
+  if (!value) return null;
+  const combined = time ? `${value};${time}` : value;
+  const match = combined
+    .trim()
+    .match(/^(\d{4})-?(\d{2})-?(\d{2})(?:[;,\sT]+(\d{2}):?(\d{2}):?(\d{2})?)?/);
+  if (!match) return null;
+
+  const [, year, month, day, hours = "00", minutes = "00", seconds = "00"] = match;
+  try {
+    const date = dayjs.tz(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}`, reportTimezone);
+    return date.isValid() ? date.toDate() : null;
+  } catch {
+    return null; // Unknown IANA timezone
+  }
+};
+
+/**
+ * Journal symbol for an IBKR contract: futures use the underlying ("NQH5" -> "NQ"),
+ * forex pairs drop the dot ("EUR.USD" -> "EURUSD").
+ */
+const toJournalSymbol = (record: Record<string, string>) => {
+  const category = (record.assetCategory || "").toUpperCase();
+  if (category === "FUT" && record.underlyingSymbol) return record.underlyingSymbol;
+  if (category === "CASH") return record.symbol.replace(/\./g, "");
+  return record.symbol;
+};
+
+/** "O" opens, "C" closes; "C;O" (reversal) and empty leave it to the position */
+const toEffect = (openClose: string | undefined): Execution["effect"] => {
+  const value = (openClose || "").toUpperCase();
+  if (value === "O") return "open";
+  if (value === "C") return "close";
+  return undefined;
+};
+
+const toExecution = (record: Record<string, string>, reportTimezone: string): Execution | null => {
+  // Order / summary rows repeat the executions they aggregate
+  if (record.levelOfDetail && record.levelOfDetail.toUpperCase() !== "EXECUTION") return null;
+  if (!record.symbol || record.symbol === "Symbol") return null;
+
+  const dateTime = record.dateTime
+    ? parseIbkrDateTime(record.dateTime, undefined, reportTimezone)
+    : parseIbkrDateTime(record.tradeDate, record.tradeTime, reportTimezone);
+  const signedQuantity = parseIbkrNumber(record.quantity);
+  if (!dateTime || signedQuantity === 0) return null;
+
+  const buySell = (record.buySell || "").toUpperCase();
+  const side = buySell.startsWith("BUY")
+    ? "buy"
+    : buySell.startsWith("SELL")
+      ? "sell"
+      : signedQuantity > 0
+        ? "buy"
+        : "sell";
+
+  return {
+    id: record.tradeId || record.transactionId || "",
+    accountId: record.accountId || "",
+    symbol: toJournalSymbol(record),
+    side,
+    quantity: Math.abs(signedQuantity),
+    price: parseIbkrNumber(record.tradePrice),
+    time: dateTime,
+    commission: parseIbkrNumber(record.commission),
+    multiplier: parseIbkrNumber(record.multiplier) || 1,
+    currency: record.currency || undefined,
+    effect: toEffect(record.openClose),
+  };
+};
+
+const parseFlexXml = (content: string): Record<string, string>[] => {
+  const doc = new DOMParser().parseFromString(content, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Arquivo XML do Flex Query inválido.");
+  }
+
+  return Array.from(doc.getElementsByTagName("Trade")).map((element) => {
+    const record: Record<string, string> = {};
+    for (const attribute of Array.from(element.attributes)) {
+      record[attribute.name] = attribute.value;
+    }
+    return record;
+  });
+};
+
+const parseFlexCsv = (content: string): Record<string, string>[] => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const Papa = require("papaparse") as typeof import("papaparse");
+
+  const result = Papa.parse(content, {
+    skipEmptyLines: true,
+    dynamicTyping: false,
+    header: true,
+    transformHeader: (header: string) => header.replace(/^\uFEFF/, "").trim(),
+  });
+
+  if (result.errors.length > 0) {
+    console.warn("IBKR CSV parse warnings:", result.errors);
+  }
+
+  return result.data as Record<string, string>[];
+};
+
+/**
+ * Extracts the executions of a Flex Query export (XML or CSV).
+ * @throws Error when the file has no recognizable trade rows
+ */
+export const parseIbkrFlexExecutions = (
+  content: string,
+  reportTimezone: string = IBKR_DEFAULT_TIMEZONE
+): Execution[] => {
+  if (!content || !content.trim()) throw new Error("File is empty");
+
+  const records = content.trim().startsWith("<") ? parseFlexXml(content) : parseFlexCsv(content);
+  const executions = records
+    .map(normalizeRecord)
+    .map((record) => toExecution(record, reportTimezone))
+    .filter((execution): execution is Execution => execution !== null);
+
+  if (executions.length === 0) {
+    throw new Error(
+      "Nenhuma execução encontrada. Exporte a seção Trades do Flex Query no nível Execution."
+    );
+  }
+
+  return executions;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Parses a Flex Query export into closed round trips. Times are written as
+ * wall-clock in the report's timezone, returned as `timezone` so the import
+ * converts them to the journal's.
+ */
+export const parseIbkrFlexContent = (
+  content: string,
+  method: MatchingMethod = "fifo",
+  reportTimezone: string = IBKR_DEFAULT_TIMEZONE
+): ImportResult => {
+  const executions = parseIbkrFlexExecutions(content, reportTimezone);
+  const match = matchExecutions(executions, { method, timezone: reportTimezone });
+  const data = roundTripsToRawData(match.roundTrips, reportTimezone);
+
+  if (data.length === 0) {
+    throw new Error("Nenhuma posição fechada encontrada no arquivo do Interactive Brokers.");
+  }
+
+  const currencies = Array.from(
+    new Set(executions.map((e) => e.currency).filter((c): c is string => Boolean(c)))
+  );
+  const totalNetProfit = round(
+    data.reduce((sum, row) => sum + Number(row.Profit) + Number(row.Commission), 0)
+  );
+
+  return {
+    data,
+    totalNetProfit,
+    timezone: reportTimezone,
+    currencies,
+    warnings: describeUnmatchedExecutions(match),
+  };
+};
+
+/**
+ * Reads an Interactive Brokers Flex Query file (.xml or .csv).
+ */
+export const parseIbkrFlexFile = async (file: File): Promise<ImportResult> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const buffer = e.target?.result as ArrayBuffer;
+        if (!buffer) throw new Error("File is empty");
+        resolve(parseIbkrFlexContent(decodeCsvBuffer(buffer)));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    reader.onerror = (error) => reject(error);
+    reader.readAsArrayBuffer(file);
+  });
+};
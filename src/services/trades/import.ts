@@ -2,6 +2,13 @@
 // import ExcelJS from "exceljs"; // REMOVED - see dynamic import in parseTradingFile
 import dayjs from "dayjs";
 import customParseFormat from "dayjs/plugin/customParseFormat";
+import {
+  describeUnmatchedExecutions,
+  getContractMultiplier,
+  matchExecutions,
+  roundTripsToRawData,
+  type Execution,
+} from "./executionMatcher";
 
 dayjs.extend(customParseFormat);
 
@@ -29,6 +36,12 @@ export interface ParsedTrade {
 export interface ImportResult {
   data: RawTradeData[];
   totalNetProfit?: number;
+  /** IANA timezone the file's timestamps are in, when the format defines it */
+  timezone?: string;
+  /** Account currencies found in the file (broker exports that carry them) */
+  currencies?: string[];
+  /** Non-fatal parsing notes shown in the mapping step */
+  warnings?: string[];
 }
 
 /**
@@ -563,6 +576,18 @@ export interface NinjaTraderColumnMapping {
   bars: string; // Barras
 }
 
+/**
+ * Decodes CSV bytes, honoring the UTF-16 LE BOM some brokers (NinjaTrader) emit.
+ * TextDecoder handles encodings better than FileReader.readAsText.
+ */
+export const decodeCsvBuffer = (buffer: ArrayBuffer): string => {
+  const uint8Array = new Uint8Array(buffer);
+  if (uint8Array.length > 2 && uint8Array[0] === 0xff && uint8Array[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(buffer);
+  }
+  return new TextDecoder("utf-8").decode(buffer);
+};
+
 /**
  * Parses NinjaTrader CSV file with semicolon separator.
  * @param file - CSV file from NinjaTrader Grid
@@ -577,20 +602,7 @@ export const parseNinjaTraderCSV = async (file: File): Promise<ImportResult> =>
         const buffer = e.target?.result as ArrayBuffer;
         if (!buffer) throw new Error("File is empty");
 
-        // Use TextDecoder to handle encodings (UTF-8, UTF-16, ISO-8859-1) better than readAsText
-        // Check for common BOMs
-        const uint8Array = new Uint8Array(buffer);
-        let content = "";
-
-        if (uint8Array.length > 2 && uint8Array[0] === 0xff && uint8Array[1] === 0xfe) {
-          const decoder = new TextDecoder("utf-16le");
-          content = decoder.decode(buffer);
-        } else {
-          const decoder = new TextDecoder("utf-8");
-          content = decoder.decode(buffer);
-        }
-
-        const result = parseNinjaTraderContent(content);
+        const result = parseNinjaTraderContent(decodeCsvBuffer(buffer));
         resolve(result);
       } catch (error) {
         reject(error);
@@ -629,6 +641,11 @@ export const parseNinjaTraderContent = (content: string): ImportResult => {
     throw new Error("CSV file must have at least a header and one data row");
   }
 
+  // Executions tab export: one row per fill, rebuilt into round trips
+  if (isNinjaTraderExecutionsExport(result.meta.fields ?? [])) {
+    return buildNinjaTraderExecutionImport(result.data as Record<string, string>[]);
+  }
+
   // Filter rows that look like trade data (have a trade number)
   const rawData: RawTradeData[] = (result.data as Record<string, string>[])
     .filter((row) => {
@@ -649,6 +666,101 @@ export const parseNinjaTraderContent = (content: string): ImportResult => {
   return { data: rawData };
 };
 
+/**
+ * NinjaTrader Executions export columns (English / Portuguese)
+ */
+const NINJA_EXECUTION_COLUMNS = {
+  instrument: ["Instrument", "Instrumento", "Ativo"],
+  action: ["Action", "Ação"],
+  quantity: ["Quantity", "Quantidade", "Qtd"],
+  price: ["Price", "Preço"],
+  time: ["Time", "Hora", "Data"],
+  id: ["ID", "Execution ID", "ID execução"],
+  entryExit: ["E/X", "E/S"],
+  commission: ["Commission", "Comissão", "Corretagem"],
+  account: ["Account", "Conta"],
+};
+
+const findNinjaColumn = (headers: string[], candidates: string[]) =>
+  headers.find((header) =>
+    candidates.some((candidate) => header.trim().toLowerCase() === candidate.toLowerCase())
+  ) ?? "";
+
+/**
+ * True for the Executions tab export (individual fills) instead of the Trades grid.
+ */
+export const isNinjaTraderExecutionsExport = (headers: string[]): boolean =>
+  !headers.some((header) => header === "Trade number" || header === "Núm. Neg.") &&
+  Boolean(findNinjaColumn(headers, NINJA_EXECUTION_COLUMNS.action)) &&
+  Boolean(findNinjaColumn(headers, NINJA_EXECUTION_COLUMNS.price));
+
+/**
+ * Converts NinjaTrader Executions rows to matcher executions.
+ * Action: Buy / Sell / Buy to cover / Sell short (Compra / Venda); E/X: Entry / Exit.
+ */
+export const parseNinjaTraderExecutions = (rows: Record<string, string>[]): Execution[] => {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const column = Object.fromEntries(
+    Object.entries(NINJA_EXECUTION_COLUMNS).map(([key, candidates]) => [
+      key,
+      findNinjaColumn(headers, candidates),
+    ])
+  ) as Record<keyof typeof NINJA_EXECUTION_COLUMNS, string>;
+
+  const executions: Execution[] = [];
+  rows.forEach((row, index) => {
+    const action = (row[column.action] || "").trim().toLowerCase();
+    const side = /^(buy|compra)/.test(action)
+      ? "buy"
+      : /^(sell|venda)/.test(action)
+        ? "sell"
+        : null;
+    const instrument = (row[column.instrument] || "").trim();
+    const time = parseNinjaTraderDate(row[column.time]);
+    const quantity = Math.abs(parseNinjaTraderPrice(row[column.quantity]));
+    if (!side || !instrument || !time || !quantity) return;
+
+    const entryExit = (row[column.entryExit] || "").trim().toLowerCase();
+
+    executions.push({
+      id: (row[column.id] || "").trim() || String(index + 1),
+      accountId: (row[column.account] || "").trim(),
+      symbol: instrument,
+      side,
+      quantity,
+      price: parseNinjaTraderPrice(row[column.price]),
+      time,
+      commission: -Math.abs(parseNinjaTraderMoney(row[column.commission])),
+      multiplier: getContractMultiplier(cleanSymbol(instrument)),
+      effect: /^(entry|entrada)/.test(entryExit)
+        ? "open"
+        : /^(exit|sa[ií]da)/.test(entryExit)
+          ? "close"
+          : undefined,
+    });
+  });
+
+  return executions;
+};
+
+const buildNinjaTraderExecutionImport = (rows: Record<string, string>[]): ImportResult => {
+  const match = matchExecutions(parseNinjaTraderExecutions(rows));
+  if (match.roundTrips.length === 0) {
+    throw new Error("Nenhuma posição fechada encontrada nas execuções do NinjaTrader.");
+  }
+
+  const totalNetProfit = match.roundTrips.reduce(
+    (sum, trip) => sum + trip.grossProfit + trip.commission,
+    0
+  );
+
+  return {
+    data: roundTripsToRawData(match.roundTrips),
+    totalNetProfit: Math.round(totalNetProfit * 100) / 100,
+    warnings: describeUnmatchedExecutions(match),
+  };
+};
+
 /**
  * Parses NinjaTrader money format: "$ 19,00" or "-$ 14,00" -> number
  */
@@ -769,3 +881,70 @@ export const getNinjaTraderAutoMapping = () => ({
   sl: "",
   tp: "",
 });
+
+// ============================================
+// GENERIC CSV PARSING
+// ============================================
+
+/**
+ * Parses any broker CSV with a header row (delimiter auto-detected).
+ * Columns are resolved later by the mapping step / import profile.
+ */
+export const parseGenericCSVContent = (content: string): ImportResult => {
+  if (!content) throw new Error("File is empty");
+
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const Papa = require("papaparse") as typeof import("papaparse");
+
+  const result = Papa.parse(content, {
+    skipEmptyLines: "greedy",
+    dynamicTyping: false,
+    header: true,
+    transformHeader: (header) => header.replace(/^\uFEFF/, "").trim(),
+  });
+
+  if (result.errors.length > 0) {
+    console.warn("CSV parse warnings:", result.errors);
+  }
+
+  const rawData: RawTradeData[] = (result.data as Record<string, string>[])
+    .map((row) => {
+      const rowData: RawTradeData = {};
+      Object.entries(row).forEach(([key, val]) => {
+        if (key && val !== undefined && val !== null) {
+          rowData[key] = String(val).trim();
+        }
+      });
+      return rowData;
+    })
+    .filter((row) => Object.values(row).some((val) => val !== ""));
+
+  if (rawData.length === 0) {
+    throw new Error("CSV file must have at least a header and one data row");
+  }
+
+  return { data: rawData };
+};
+
+/**
+ * Reads a generic broker CSV file.
+ * @param file - CSV exported by any broker/platform
+ */
+export const parseGenericCSV = async (file: File): Promise<ImportResult> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const buffer = e.target?.result as ArrayBuffer;
+        if (!buffer) throw new Error("File is empty");
+        resolve(parseGenericCSVContent(decodeCsvBuffer(buffer)));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    reader.onerror = (error) => reject(error);
+    reader.readAsArrayBuffer(file);
+  });
+};
@@ -0,0 +1,238 @@
+/**
+ * Import Diff
+ *
+ * Dry run of a trade import against the trades already in the account.
+ * Incoming trades are matched by their import signature (entry date and minute, symbol,
+ * direction, entry price). Trades written by an import keep the values they were imported
+ * with (import snapshot), which separates broker-side changes from journal edits:
+ * - new: no matching trade;
+ * - duplicate: the file brings nothing the trade does not already have;
+ * - modified: the broker values changed since the last import and the trade was not edited;
+ * - conflict: the broker values changed but the trade was edited in the journal, or it was
+ *   never imported (manual/legacy trades), so the user picks which values to keep.
+ */
+
+import type {
+  ImportCandidate,
+  ImportSnapshot,
+  ImportSnapshotValue,
+  ImportTrackedField,
+  Trade,
+} from "@/types";
+
+export type ImportDiffStatus = "new" | "duplicate" | "modified" | "conflict";
+
+export interface ImportFieldChange {
+  field: ImportTrackedField;
+  /** Value in the journal */
+  current: ImportSnapshotValue;
+  /** Value in the file */
+  incoming: ImportSnapshotValue;
+}
+
+export interface ImportDiffEntry {
+  /** Index of the trade in the imported list */
+  index: number;
+  status: ImportDiffStatus;
+  /** Matched trade (all statuses but "new") */
+  tradeId?: string;
+  /** Fields the import would overwrite (modified/conflict) */
+  changes: ImportFieldChange[];
+  /** Fields edited in the journal since the last import */
+  editedFields: ImportTrackedField[];
+}
+
+export interface ImportDiff {
+  entries: ImportDiffEntry[];
+  counts: Record<ImportDiffStatus, number>;
+}
+
+export interface ImportPlan {
+  creates: { trade: Partial<Trade>; snapshot: ImportSnapshot }[];
+  updates: { tradeId: string; snapshot: ImportSnapshot; legs?: Trade["legs"] }[];
+  skipped: number;
+}
+
+export const IMPORT_TRACKED_FIELDS: ImportTrackedField[] = [
+  "exitDate",
+  "exitTime",
+  "exitPrice",
+  "lot",
+  "pnl",
+  "commission",
+  "swap",
+  "stopLoss",
+  "takeProfit",
+  "outcome",
+];
+
+/** Decimal places of the numeric columns (values are compared as stored) */
+const NUMERIC_PRECISION: Partial<Record<ImportTrackedField, number>> = {
+  exitPrice: 5,
+  lot: 2,
+  pnl: 2,
+  commission: 2,
+  swap: 2,
+  stopLoss: 5,
+  takeProfit: 5,
+};
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/** Empty values and 0 are equivalent: the trade mappers read 0 back as undefined and vice versa */
+const normalizeNumber = (value: unknown, decimals: number): number | null => {
+  const number = Number(value);
+  if (value === null || value === undefined || value === "" || !Number.isFinite(number)) {
+    return null;
+  }
+  const rounded = roundTo(number, decimals);
+  return rounded === 0 ? null : rounded;
+};
+
+const normalizeTime = (value: string | undefined): string | null => {
+  if (!value) return null;
+  const time = value.trim();
+  return time.length === 5 ? `${time}:00` : time.substring(0, 8);
+};
+
+/**
+ * Normalized tracked values of a trade, as stored in the import snapshot.
+ */
+export const buildImportSnapshot = (trade: Partial<Trade>): ImportSnapshot => {
+  const snapshot = {} as ImportSnapshot;
+  for (const field of IMPORT_TRACKED_FIELDS) {
+    const decimals = NUMERIC_PRECISION[field];
+    if (decimals !== undefined) {
+      snapshot[field] = normalizeNumber(trade[field], decimals);
+    } else if (field === "exitTime") {
+      snapshot[field] = normalizeTime(trade.exitTime);
+    } else {
+      snapshot[field] = (trade[field] as string | undefined) || null;
+    }
+  }
+  return snapshot;
+};
+
+/**
+ * Reads a stored import snapshot; values that are not strings or numbers read
+ * as empty. Returns null when nothing is stored.
+ */
+export const normalizeImportSnapshot = (value: unknown): ImportSnapshot | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Partial<Record<ImportTrackedField, unknown>>;
+  const snapshot = {} as ImportSnapshot;
+  for (const field of IMPORT_TRACKED_FIELDS) {
+    const stored = raw[field];
+    snapshot[field] = typeof stored === "string" || typeof stored === "number" ? stored : null;
+  }
+  return snapshot;
+};
+
+/**
+ * Key used to recognize the same trade across imports.
+ */
+export const getImportSignature = (
+  trade: Pick<Partial<Trade>, "entryDate" | "entryTime" | "symbol" | "type" | "entryPrice">
+): string => {
+  const time = trade.entryTime ? trade.entryTime.substring(0, 5) : "00:00";
+  const price = normalizeNumber(trade.entryPrice, 5) ?? 0;
+  return `${trade.entryDate}|${time}|${trade.symbol}|${trade.type}|${price}`;
+};
+
+const changedFields = (from: ImportSnapshot, to: ImportSnapshot): ImportTrackedField[] =>
+  IMPORT_TRACKED_FIELDS.filter((field) => (from[field] ?? null) !== (to[field] ?? null));
+
+/**
+ * Classifies each incoming trade against the existing trades of the account.
+ * Each existing trade matches at most one incoming trade, so a file with two
+ * identical rows still imports the second one once.
+ */
+export const computeImportDiff = (
+  incoming: Partial<Trade>[],
+  existing: ImportCandidate[]
+): ImportDiff => {
+  const bySignature = new Map<string, ImportCandidate[]>();
+  for (const candidate of existing) {
+    const key = getImportSignature(candidate);
+    bySignature.set(key, [...(bySignature.get(key) ?? []), candidate]);
+  }
+
+  const counts: Record<ImportDiffStatus, number> = {
+    new: 0,
+    duplicate: 0,
+    modified: 0,
+    conflict: 0,
+  };
+
+  const entries = incoming.map((trade, index): ImportDiffEntry => {
+    const candidate = bySignature.get(getImportSignature(trade))?.shift();
+    if (!candidate) {
+      counts.new++;
+      return { index, status: "new", changes: [], editedFields: [] };
+    }
+
+    const current = buildImportSnapshot(candidate);
+    const file = buildImportSnapshot(trade);
+    const base = candidate.importSnapshot ?? current;
+    const editedFields = candidate.importSnapshot ? changedFields(base, current) : [];
+
+    let status: ImportDiffStatus;
+    if (changedFields(base, file).length === 0 || changedFields(current, file).length === 0) {
+      status = "duplicate";
+    } else if (candidate.importSnapshot && editedFields.length === 0) {
+      status = "modified";
+    } else {
+      status = "conflict";
+    }
+    counts[status]++;
+
+    const changes =
+      status === "duplicate"
+        ? []
+        : changedFields(current, file).map((field) => ({
+            field,
+            current: current[field],
+            incoming: file[field],
+          }));
+
+    return { index, status, tradeId: candidate.id, changes, editedFields };
+  });
+
+  return { entries, counts };
+};
+
+/**
+ * Turns a confirmed diff into the writes of the import.
+ * Modified trades are updated; conflicts only when listed in `overwrite` (diff indexes),
+ * otherwise the journal values are kept. Duplicates are skipped.
+ */
+export const planImport = (
+  incoming: Partial<Trade>[],
+  diff: ImportDiff,
+  overwrite: number[] = []
+): ImportPlan => {
+  const overwriteSet = new Set(overwrite);
+  const plan: ImportPlan = { creates: [], updates: [], skipped: 0 };
+
+  for (const entry of diff.entries) {
+    const trade = incoming[entry.index];
+    const snapshot = buildImportSnapshot(trade);
+
+    if (entry.status === "new") {
+      plan.creates.push({ trade, snapshot });
+    } else if (
+      entry.tradeId &&
+      (entry.status === "modified" ||
+        (entry.status === "conflict" && overwriteSet.has(entry.index)))
+    ) {
+      plan.updates.push({ tradeId: entry.tradeId, snapshot, legs: trade.legs });
+    } else {
+      plan.skipped++;
+    }
+  }
+
+  return plan;
+};
@@ -14,25 +14,32 @@ import {
   parseNinjaTraderPrice,
   parseNinjaTraderMoney,
 } from "./import";
-import { calculateSession } from "@/lib/utils/trade";
-import { Trade } from "@/types";
-
-export interface ColumnMapping {
-  entryDate: string;
-  symbol: string;
-  direction: string;
-  volume: string;
-  entryPrice: string;
-  exitDate: string;
-  exitPrice: string;
-  profit: string;
-  commission: string;
-  swap: string;
-  sl: string;
-  tp: string;
-}
-
-export type DataSource = "metatrader" | "ninjatrader" | "tradovate" | null;
+import {
+  mapProfileSymbol,
+  parseDecimalNumber,
+  parseProfileDate,
+  parseProfileDirection,
+} from "./importProfiles";
+import { calculateWeightedPrice, resolveSessionAt } from "@/lib/utils/trading";
+import {
+  ImportColumnMapping,
+  ImportProfileSettings,
+  SessionWindow,
+  Trade,
+  TradeLeg,
+} from "@/types";
+
+export type ColumnMapping = ImportColumnMapping;
+
+/** "csv" = generic CSV from any broker, parsed with the mapping step / an import profile */
+export type DataSource =
+  | "metatrader"
+  | "ninjatrader"
+  | "tradovate"
+  | "ibkr"
+  | "ctrader"
+  | "csv"
+  | null;
 
 /**
  * Robust UUID generator that works in insecure contexts (HTTP)
@@ -270,25 +277,40 @@ export const convertToNYTime = (date: Date, sourceTimezone: string): Date => {
 /**
  * Transforms raw data rows into Trade objects ready for saving.
  * Excludes ID and AccountID generation (should be handled by caller or DB).
+ * When an import profile is given, its date format, decimal separator, symbol map
+ * and direction vocabulary replace the per-source parsing rules.
+ * Sessions are detected from the entry instant, with the user's custom sessions first.
  */
 export const transformTrades = (
   rawData: RawTradeData[],
   mapping: ColumnMapping,
   dataSource: DataSource,
   brokerTimezone: string,
-  accountId: string
+  accountId: string,
+  profile?: ImportProfileSettings,
+  customSessions: SessionWindow[] = []
 ): Trade[] => {
   const trades: Trade[] = [];
+  const isNinja = !profile && dataSource === "ninjatrader";
+
+  // Per-source readers (NaN is returned for non-numeric values)
+  const readDate = (value: string | number): Date | null => {
+    if (profile) return parseProfileDate(value, profile.dateFormat);
+    return isNinja ? parseNinjaTraderDate(value) : parseTradeDate(value);
+  };
+  const readNumber = (value: string | number): number => {
+    if (profile) return parseDecimalNumber(value, profile.decimalSeparator);
+    return isNinja ? parseNinjaTraderPrice(value) : Number(value);
+  };
+  const readMoney = (value: string | number): number => {
+    if (profile) return parseDecimalNumber(value, profile.decimalSeparator);
+    return isNinja ? parseNinjaTraderMoney(value) : Number(value);
+  };
 
   for (const row of rawData) {
     try {
       // 1. Parse Entry Date
-      let entryDate: Date | null;
-      if (dataSource === "ninjatrader") {
-        entryDate = parseNinjaTraderDate(row[mapping.entryDate]);
-      } else {
-        entryDate = parseTradeDate(row[mapping.entryDate]);
-      }
+      let entryDate = readDate(row[mapping.entryDate]);
 
       if (!entryDate) continue;
 
@@ -298,8 +320,12 @@ export const transformTrades = (
       }
 
       // 3. Parse Symbol & Type
-      const symbol = cleanSymbol(String(row[mapping.symbol]));
-      const type = normalizeTradeType(String(row[mapping.direction]));
+      const symbol = profile
+        ? mapProfileSymbol(String(row[mapping.symbol]), profile.symbolMap)
+        : cleanSymbol(String(row[mapping.symbol]));
+      const type = profile
+        ? parseProfileDirection(String(row[mapping.direction]), profile.directionVocabulary)
+        : normalizeTradeType(String(row[mapping.direction]));
 
       if (!symbol || !type) continue;
 
@@ -308,35 +334,19 @@ export const transformTrades = (
       const entryTimeStr = dayjs(entryDate).format("HH:mm:ss");
 
       // 5. Parse Entry Price
-      let entryPrice: number;
-      if (dataSource === "ninjatrader") {
-        entryPrice = parseNinjaTraderPrice(row[mapping.entryPrice]);
-      } else {
-        entryPrice = Number(row[mapping.entryPrice]) || 0;
-      }
+      const entryPrice = readNumber(row[mapping.entryPrice]) || 0;
 
       // 6. Parse Volume
-      let volume: number;
-      if (dataSource === "ninjatrader") {
-        volume = parseNinjaTraderPrice(row[mapping.volume]);
-      } else {
-        volume = Number(row[mapping.volume]) || 0;
-      }
+      const volume = readNumber(row[mapping.volume]) || 0;
 
       // 6b. Parse S/L and T/P
       let stopLoss = 0;
       let takeProfit = 0;
       if (mapping.sl && row[mapping.sl]) {
-        stopLoss =
-          dataSource === "ninjatrader"
-            ? parseNinjaTraderPrice(row[mapping.sl])
-            : Number(row[mapping.sl]) || 0;
+        stopLoss = readNumber(row[mapping.sl]) || 0;
       }
       if (mapping.tp && row[mapping.tp]) {
-        takeProfit =
-          dataSource === "ninjatrader"
-            ? parseNinjaTraderPrice(row[mapping.tp])
-            : Number(row[mapping.tp]) || 0;
+        takeProfit = readNumber(row[mapping.tp]) || 0;
       }
 
       // Construct partial trade object
@@ -354,17 +364,12 @@ export const transformTrades = (
         takeProfit: takeProfit,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-        session: calculateSession(entryTimeStr),
+        session: resolveSessionAt(entryDate, customSessions),
       };
 
       // 7. Exit Date/Price
       if (mapping.exitDate && row[mapping.exitDate]) {
-        let exitDate: Date | null;
-        if (dataSource === "ninjatrader") {
-          exitDate = parseNinjaTraderDate(row[mapping.exitDate]);
-        } else {
-          exitDate = parseTradeDate(row[mapping.exitDate]);
-        }
+        let exitDate = readDate(row[mapping.exitDate]);
         if (exitDate) {
           if (brokerTimezone) {
             exitDate = convertToNYTime(exitDate, brokerTimezone);
@@ -375,33 +380,25 @@ export const transformTrades = (
       }
 
       if (mapping.exitPrice && row[mapping.exitPrice]) {
-        if (dataSource === "ninjatrader") {
-          trade.exitPrice = parseNinjaTraderPrice(row[mapping.exitPrice]);
-        } else {
-          trade.exitPrice = Number(row[mapping.exitPrice]);
-        }
+        trade.exitPrice = readNumber(row[mapping.exitPrice]);
       }
 
+      // Ninja exports commission as a positive cost; store it as negative
+      const commVal =
+        mapping.commission && row[mapping.commission]
+          ? isNinja
+            ? -Math.abs(readMoney(row[mapping.commission]))
+            : readMoney(row[mapping.commission])
+          : NaN;
+      const swapVal = mapping.swap && row[mapping.swap] ? readMoney(row[mapping.swap]) : NaN;
+
       // 8. Profit / PnL / Outcome
       if (mapping.profit && row[mapping.profit]) {
-        if (dataSource === "ninjatrader") {
-          trade.pnl = parseNinjaTraderMoney(row[mapping.profit]);
-        } else {
-          trade.pnl = Number(row[mapping.profit]);
-        }
+        trade.pnl = readMoney(row[mapping.profit]);
 
         // Add commission and swap to PnL if they exist
-        if (mapping.commission && row[mapping.commission]) {
-          const commVal =
-            dataSource === "ninjatrader"
-              ? -Math.abs(parseNinjaTraderMoney(row[mapping.commission])) // Ninja is positive, make negative
-              : Number(row[mapping.commission]);
-          if (!isNaN(commVal)) trade.pnl += commVal;
-        }
-        if (mapping.swap && row[mapping.swap]) {
-          const swapVal = Number(row[mapping.swap]);
-          if (!isNaN(swapVal)) trade.pnl += swapVal;
-        }
+        if (!isNaN(commVal)) trade.pnl += commVal;
+        if (!isNaN(swapVal)) trade.pnl += swapVal;
 
         if (trade.pnl > 0) trade.outcome = "win";
         else if (trade.pnl < 0) trade.outcome = "loss";
@@ -409,21 +406,8 @@ export const transformTrades = (
       }
 
       // 9. Commission & Swap fields
-      if (mapping.commission && row[mapping.commission]) {
-        let commVal: number;
-        if (dataSource === "ninjatrader") {
-          commVal = parseNinjaTraderMoney(row[mapping.commission]);
-          if (commVal > 0) commVal = -commVal; // Store as negative cost
-        } else {
-          commVal = Number(row[mapping.commission]);
-        }
-        if (!isNaN(commVal)) trade.commission = commVal;
-      }
-
-      if (mapping.swap && row[mapping.swap]) {
-        const swapVal = Number(row[mapping.swap]);
-        if (!isNaN(swapVal)) trade.swap = swapVal;
-      }
+      if (!isNaN(commVal)) trade.commission = commVal;
+      if (!isNaN(swapVal)) trade.swap = swapVal;
 
       // 10. Notes construction if needed (omitted as per original simplified logic)
 
@@ -436,3 +420,122 @@ export const transformTrades = (
 
   return trades;
 };
+
+// ============================================
+// MULTI-LEG GROUPING (scale-ins / partial exits)
+// ============================================
+
+const entryTimestamp = (trade: Trade) => `${trade.entryDate}T${trade.entryTime || "00:00:00"}`;
+const exitTimestamp = (trade: Trade) =>
+  trade.exitDate ? `${trade.exitDate}T${trade.exitTime || "00:00:00"}` : undefined;
+
+/**
+ * Builds legs for one side, merging fills that share the same timestamp and price
+ * (e.g. one entry fill split across several partial exit rows).
+ */
+const buildLegs = (trades: Trade[], tradeId: string, side: TradeLeg["side"]): TradeLeg[] => {
+  const legs = new Map<string, TradeLeg>();
+
+  for (const trade of trades) {
+    const date = side === "entry" ? trade.entryDate : trade.exitDate;
+    const time = side === "entry" ? trade.entryTime : trade.exitTime;
+    const price = side === "entry" ? trade.entryPrice : trade.exitPrice;
+    if (!date || price === undefined) continue;
+
+    const key = `${date}|${time}|${price}`;
+    const existing = legs.get(key);
+    // Broker profit is per closed row; commission/swap are kept on the trade
+    const grossPnl =
+      side === "exit" && trade.pnl !== undefined
+        ? trade.pnl - (trade.commission || 0) - (trade.swap || 0)
+        : undefined;
+
+    if (existing) {
+      existing.quantity += trade.lot;
+      if (grossPnl !== undefined) existing.pnl = (existing.pnl || 0) + grossPnl;
+    } else {
+      legs.set(key, {
+        id: generateUUID(),
+        tradeId,
+        side,
+        price,
+        quantity: trade.lot,
+        executedDate: date,
+        executedTime: time,
+        pnl: grossPnl,
+      });
+    }
+  }
+
+  return Array.from(legs.values());
+};
+
+const sumOptional = (trades: Trade[], pick: (t: Trade) => number | undefined) => {
+  const values = trades.map(pick).filter((v): v is number => v !== undefined);
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) : undefined;
+};
+
+/**
+ * Merges a group of closed rows of the same position into a single multi-leg trade.
+ */
+const mergeTradeGroup = (group: Trade[]): Trade => {
+  const [first] = group;
+  if (group.length === 1) return first;
+
+  const entryLegs = buildLegs(group, first.id, "entry");
+  const exitLegs = buildLegs(group, first.id, "exit");
+  const lastExit = [...group].sort((a, b) =>
+    (exitTimestamp(a) || "").localeCompare(exitTimestamp(b) || "")
+  )[group.length - 1];
+
+  const pnl = sumOptional(group, (t) => t.pnl);
+
+  return {
+    ...first,
+    entryPrice: calculateWeightedPrice(entryLegs) ?? first.entryPrice,
+    exitPrice: calculateWeightedPrice(exitLegs),
+    lot: entryLegs.reduce((sum, leg) => sum + leg.quantity, 0),
+    stopLoss: group.find((t) => t.stopLoss)?.stopLoss || 0,
+    takeProfit: group.find((t) => t.takeProfit)?.takeProfit || 0,
+    exitDate: lastExit.exitDate,
+    exitTime: lastExit.exitTime,
+    pnl,
+    commission: sumOptional(group, (t) => t.commission),
+    swap: sumOptional(group, (t) => t.swap),
+    outcome: pnl === undefined ? first.outcome : pnl > 0 ? "win" : pnl < 0 ? "loss" : "breakeven",
+    legs: [...entryLegs, ...exitLegs],
+  };
+};
+
+/**
+ * Groups closed rows that belong to the same position into multi-leg trades.
+ *
+ * Platforms like NinjaTrader and Tradovate export one row per matched fill pair,
+ * so a position scaled in/out becomes several rows. Rows of the same account,
+ * symbol and direction are grouped while the position is still open, i.e. the
+ * next row enters before the latest exit of the current group.
+ */
+export const groupTradesIntoLegs = (trades: Trade[]): Trade[] => {
+  const sorted = [...trades].sort((a, b) => entryTimestamp(a).localeCompare(entryTimestamp(b)));
+  const openGroups = new Map<string, { trades: Trade[]; lastExit: string }>();
+  const groups: Trade[][] = [];
+
+  for (const trade of sorted) {
+    const key = `${trade.accountId}|${trade.symbol}|${trade.type}`;
+    const exit = exitTimestamp(trade);
+    const current = openGroups.get(key);
+
+    if (exit && current && entryTimestamp(trade) < current.lastExit) {
+      current.trades.push(trade);
+      if (exit > current.lastExit) current.lastExit = exit;
+      continue;
+    }
+
+    const group = [trade];
+    groups.push(group);
+    if (exit) openGroups.set(key, { trades: group, lastExit: exit });
+    else openGroups.delete(key);
+  }
+
+  return groups.map(mergeTradeGroup);
+};
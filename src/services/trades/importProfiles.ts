@@ -0,0 +1,329 @@
+import dayjs from "dayjs";
+import customParseFormat from "dayjs/plugin/customParseFormat";
+import { cleanSymbol, normalizeTradeType, parseTradeDate } from "./import";
+import type {
+  ImportColumnMapping,
+  ImportDecimalSeparator,
+  ImportProfile,
+  ImportProfileSettings,
+} from "@/types";
+
+dayjs.extend(customParseFormat);
+
+/** Format tag written to exported profile files */
+export const IMPORT_PROFILE_FILE_TYPE = "journal-import-profiles";
+export const IMPORT_PROFILE_FILE_VERSION = 1;
+
+export const DEFAULT_DIRECTION_VOCABULARY: ImportProfileSettings["directionVocabulary"] = {
+  long: ["buy", "long", "compra", "comprada"],
+  short: ["sell", "short", "venda", "vendida"],
+};
+
+const MAPPING_FIELDS: (keyof ImportColumnMapping)[] = [
+  "entryDate",
+  "symbol",
+  "direction",
+  "volume",
+  "entryPrice",
+  "exitDate",
+  "exitPrice",
+  "profit",
+  "commission",
+  "swap",
+  "sl",
+  "tp",
+];
+
+const REQUIRED_MAPPING_FIELDS: (keyof ImportColumnMapping)[] = [
+  "entryDate",
+  "symbol",
+  "direction",
+  "volume",
+  "entryPrice",
+];
+
+/** Shape shared between saved profiles and exported files (no ids / owner) */
+export type ImportProfileDraft = ImportProfileSettings & {
+  name: string;
+  headers: string[];
+};
+
+// ============================================
+// HEADER FINGERPRINT
+// ============================================
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Builds a stable fingerprint for a file layout.
+ * Order, case and extra whitespace are ignored, so re-exports of the same report match.
+ *
+ * @example
+ * computeHeaderFingerprint(["Symbol", "Open Time"]) === computeHeaderFingerprint(["open time ", "SYMBOL"])
+ */
+export const computeHeaderFingerprint = (headers: string[]): string => {
+  const normalized = Array.from(new Set(headers.map(normalizeHeader).filter(Boolean))).sort();
+  const source = normalized.join("|");
+
+  // FNV-1a (32 bit) - only needs to be stable, not cryptographic
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return `${normalized.length}-${(hash >>> 0).toString(16).padStart(8, "0")}`;
+};
+
+/**
+ * Picks the saved profile for an uploaded file.
+ * Exact fingerprint wins; otherwise the first profile (callers pass them most recent
+ * first) whose mapped columns all exist in the file is used.
+ */
+export const findMatchingProfile = <
+  T extends ImportProfileSettings & { headerFingerprint: string },
+>(
+  profiles: T[],
+  headers: string[]
+): T | null => {
+  const fingerprint = computeHeaderFingerprint(headers);
+  const exact = profiles.find((profile) => profile.headerFingerprint === fingerprint);
+  if (exact) return exact;
+
+  const available = new Set(headers.map(normalizeHeader));
+  const compatible = profiles.filter((profile) => {
+    const mapped = MAPPING_FIELDS.map((field) => profile.mapping[field]).filter(Boolean);
+    return (
+      REQUIRED_MAPPING_FIELDS.every((field) => !!profile.mapping[field]) &&
+      mapped.every((column) => available.has(normalizeHeader(column)))
+    );
+  });
+
+  return compatible[0] ?? null;
+};
+
+// ============================================
+// VALUE PARSERS
+// ============================================
+
+/**
+ * Parses a number written with the given decimal separator.
+ * Handles currency symbols, thousand separators and "(100.00)" negatives.
+ *
+ * @returns NaN when the value is not numeric
+ */
+export const parseDecimalNumber = (
+  value: string | number,
+  decimalSeparator: ImportDecimalSeparator
+): number => {
+  if (typeof value === "number") return value;
+  if (!value) return NaN;
+
+  let str = String(value).trim();
+  const isParenthesis = str.startsWith("(") && str.endsWith(")");
+  if (isParenthesis) str = str.slice(1, -1);
+
+  // Drop currency symbols / spaces, keep digits, signs and separators
+  str = str.replace(/[^\d.,\-+]/g, "");
+
+  if (decimalSeparator === ",") {
+    str = str.replace(/\./g, "").replace(",", ".");
+  } else {
+    str = str.replace(/,/g, "");
+  }
+
+  const num = parseFloat(str);
+  if (isNaN(num)) return NaN;
+  return isParenthesis ? -Math.abs(num) : num;
+};
+
+/**
+ * Parses a date with the profile's format, falling back to auto-detection
+ * when no format is set.
+ */
+export const parseProfileDate = (value: string | number, dateFormat: string): Date | null => {
+  if (!value) return null;
+  if (!dateFormat || typeof value === "number") return parseTradeDate(value);
+
+  const parsed = dayjs(String(value).trim(), dateFormat, true);
+  return parsed.isValid() ? parsed.toDate() : null;
+};
+
+/**
+ * Resolves the journal symbol, checking the raw value before the cleaned one
+ * so both "US100.cash" and "US100" can be mapped.
+ */
+export const mapProfileSymbol = (value: string, symbolMap: Record<string, string>): string => {
+  const raw = String(value ?? "").trim();
+  if (!raw) return "";
+
+  const lookup = (key: string) =>
+    Object.entries(symbolMap).find(
+      ([from]) => from.trim().toLowerCase() === key.toLowerCase()
+    )?.[1];
+
+  const cleaned = cleanSymbol(raw);
+  return (lookup(raw) ?? lookup(cleaned) ?? cleaned).trim();
+};
+
+/**
+ * Normalizes the direction using the profile vocabulary first, then the built-in rules.
+ */
+export const parseProfileDirection = (
+  value: string,
+  vocabulary: ImportProfileSettings["directionVocabulary"]
+): "Long" | "Short" | null => {
+  const lower = String(value ?? "")
+    .trim()
+    .toLowerCase();
+  if (!lower) return null;
+
+  if (vocabulary.long.some((word) => word.trim().toLowerCase() === lower)) return "Long";
+  if (vocabulary.short.some((word) => word.trim().toLowerCase() === lower)) return "Short";
+  return normalizeTradeType(lower);
+};
+
+// ============================================
+// JSON EXPORT / IMPORT
+// ============================================
+
+const toDraft = (profile: ImportProfileDraft): ImportProfileDraft => ({
+  name: profile.name,
+  headers: profile.headers,
+  mapping: profile.mapping,
+  dateFormat: profile.dateFormat,
+  timezone: profile.timezone,
+  decimalSeparator: profile.decimalSeparator,
+  symbolMap: profile.symbolMap,
+  directionVocabulary: profile.directionVocabulary,
+});
+
+/**
+ * Serializes profiles to a shareable JSON file (ids and owner are stripped).
+ */
+export const serializeImportProfiles = (profiles: (ImportProfile | ImportProfileDraft)[]) =>
+  JSON.stringify(
+    {
+      type: IMPORT_PROFILE_FILE_TYPE,
+      version: IMPORT_PROFILE_FILE_VERSION,
+      profiles: profiles.map(toDraft),
+    },
+    null,
+    2
+  );
+
+/**
+ * Triggers a download of the profiles as a shareable JSON file.
+ */
+export function downloadImportProfiles(profiles: (ImportProfile | ImportProfileDraft)[]): void {
+  if (typeof window === "undefined" || profiles.length === 0) return;
+
+  const slug = profiles.length === 1 ? profiles[0].name : "perfis";
+  const filename = `perfil_importacao_${slug.replace(/[^\w-]+/g, "_").toLowerCase()}.json`;
+  const blob = new Blob([serializeImportProfiles(profiles)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  !!value &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.values(value).every((item) => typeof item === "string");
+
+/**
+ * Reads the parsing options of a profile (file or database JSON). Malformed
+ * options fall back to defaults; unlike the draft, nothing is required.
+ */
+export const normalizeImportProfileSettings = (input: unknown): ImportProfileSettings => {
+  const data = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+
+  const rawMapping = (data.mapping ?? {}) as Record<string, unknown>;
+  const mapping = {} as ImportColumnMapping;
+  for (const field of MAPPING_FIELDS) {
+    const column = rawMapping[field];
+    mapping[field] = typeof column === "string" ? column : "";
+  }
+
+  const vocabulary = (data.directionVocabulary ?? {}) as Record<string, unknown>;
+
+  return {
+    mapping,
+    dateFormat: typeof data.dateFormat === "string" ? data.dateFormat : "",
+    timezone: typeof data.timezone === "string" && data.timezone ? data.timezone : "Etc/UTC",
+    decimalSeparator: data.decimalSeparator === "," ? "," : ".",
+    symbolMap: isStringRecord(data.symbolMap) ? data.symbolMap : {},
+    directionVocabulary: {
+      long: isStringArray(vocabulary.long) ? vocabulary.long : DEFAULT_DIRECTION_VOCABULARY.long,
+      short: isStringArray(vocabulary.short)
+        ? vocabulary.short
+        : DEFAULT_DIRECTION_VOCABULARY.short,
+    },
+  };
+};
+
+/**
+ * Validates one profile coming from an external source (file or database JSON).
+ * Missing optional settings fall back to defaults.
+ *
+ * @throws Error with a user-facing message when the profile is malformed
+ */
+export const normalizeImportProfileDraft = (input: unknown): ImportProfileDraft => {
+  if (!input || typeof input !== "object") throw new Error("Perfil inválido.");
+  const data = input as Record<string, unknown>;
+
+  const name = typeof data.name === "string" ? data.name.trim() : "";
+  if (!name) throw new Error("Perfil sem nome.");
+
+  const settings = normalizeImportProfileSettings(data);
+  const missing = REQUIRED_MAPPING_FIELDS.filter((field) => !settings.mapping[field]);
+  if (missing.length > 0) {
+    throw new Error(`Perfil "${name}" sem colunas obrigatórias: ${missing.join(", ")}.`);
+  }
+
+  return {
+    name,
+    headers: isStringArray(data.headers) ? data.headers : [],
+    ...settings,
+  };
+};
+
+/**
+ * Parses a shared profile file. Accepts the export envelope, a bare array or a single profile.
+ *
+ * @throws Error with a user-facing message when the file is not a valid profile export
+ */
+export const parseImportProfilesJson = (json: string): ImportProfileDraft[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Arquivo JSON inválido.");
+  }
+
+  let items: unknown[];
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (data && typeof data === "object" && "profiles" in data) {
+    const envelope = data as { type?: unknown; profiles: unknown };
+    if (envelope.type !== undefined && envelope.type !== IMPORT_PROFILE_FILE_TYPE) {
+      throw new Error("O arquivo não é uma exportação de perfis de importação.");
+    }
+    items = Array.isArray(envelope.profiles) ? envelope.profiles : [];
+  } else {
+    items = [data];
+  }
+
+  if (items.length === 0) throw new Error("Nenhum perfil encontrado no arquivo.");
+  return items.map(normalizeImportProfileDraft);
+};
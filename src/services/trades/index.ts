@@ -3,4 +3,11 @@
  */
 export * from "@/services/trades/import";
 export * from "@/services/trades/importParsers";
+export * from "@/services/trades/importProfiles";
+export * from "@/services/trades/importDiff";
 export * from "@/services/trades/export";
+export * from "@/services/trades/restore";
+export * from "@/services/trades/tradePlan";
+export * from "@/services/trades/ruleCompliance";
+export * from "@/services/trades/playbookVersions";
+export * from "@/services/trades/positionSizing";
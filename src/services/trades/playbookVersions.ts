@@ -0,0 +1,182 @@
+/**
+ * Playbook Versions Service
+ *
+ * Playbooks are versioned: changing the name, description or rules creates a
+ * new immutable version. Trades are pinned to the version active at entry, so
+ * they are evaluated against the rules they were taken under.
+ */
+
+import { DEFAULT_SESSION_SETTINGS } from "@/types";
+import type { Playbook, PlaybookVersion, RuleGroup, Trade } from "@/types";
+import { toSessionInstant } from "@/lib/utils/trading";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PlaybookVersionContent = Pick<Playbook, "name" | "description" | "ruleGroups">;
+
+export interface RuleGroupDiff {
+  name: string;
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+export interface PlaybookVersionDiff {
+  name: { from: string; to: string } | null;
+  description: { from: string; to: string } | null;
+  groups: RuleGroupDiff[];
+  /** Number of added + removed rules */
+  changes: number;
+}
+
+export interface PlaybookVersionStats {
+  version: number;
+  totalTrades: number;
+  wins: number;
+  /** % of closed trades */
+  winRate: number;
+  netPnl: number;
+  /** PnL per closed trade */
+  expectancy: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const normalizeGroups = (groups: RuleGroup[] | undefined) =>
+  (groups || []).map((group) => ({
+    id: group.id,
+    name: group.name,
+    rules: group.rules.map((rule) => rule.trim()).filter(Boolean),
+  }));
+
+/**
+ * Reads the rule groups stored with a playbook or version. Groups without an id
+ * or a name are left out, as are rules that are not strings.
+ */
+export function normalizeRuleGroups(value: unknown): RuleGroup[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((group: Partial<Record<keyof RuleGroup, unknown>> | null): RuleGroup[] =>
+    group && typeof group.id === "string" && typeof group.name === "string"
+      ? [
+          {
+            id: group.id,
+            name: group.name,
+            rules: Array.isArray(group.rules)
+              ? group.rules.filter((rule): rule is string => typeof rule === "string")
+              : [],
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * Whether an edit changes what a version captures (cosmetic fields like icon and
+ * color are updated in place).
+ */
+export function hasPlaybookContentChanged(
+  previous: PlaybookVersionContent,
+  next: Partial<PlaybookVersionContent>
+): boolean {
+  if (next.name !== undefined && next.name !== previous.name) return true;
+  if (next.description !== undefined && (next.description || "") !== (previous.description || "")) {
+    return true;
+  }
+  if (next.ruleGroups !== undefined) {
+    return (
+      JSON.stringify(normalizeGroups(next.ruleGroups)) !==
+      JSON.stringify(normalizeGroups(previous.ruleGroups))
+    );
+  }
+  return false;
+}
+
+/**
+ * Rules added and removed between two versions, per group (matched by group id).
+ */
+export function diffPlaybookVersions(
+  from: PlaybookVersionContent,
+  to: PlaybookVersionContent
+): PlaybookVersionDiff {
+  const fromGroups = normalizeGroups(from.ruleGroups);
+  const toGroups = normalizeGroups(to.ruleGroups);
+  const groupIds = Array.from(new Set([...toGroups, ...fromGroups].map((group) => group.id)));
+
+  const groups = groupIds.map((id) => {
+    const before = fromGroups.find((group) => group.id === id);
+    const after = toGroups.find((group) => group.id === id);
+    const beforeRules = before?.rules || [];
+    const afterRules = after?.rules || [];
+
+    return {
+      name: after?.name || before?.name || id,
+      added: afterRules.filter((rule) => !beforeRules.includes(rule)),
+      removed: beforeRules.filter((rule) => !afterRules.includes(rule)),
+      kept: afterRules.filter((rule) => beforeRules.includes(rule)),
+    };
+  });
+
+  const fromDescription = from.description || "";
+  const toDescription = to.description || "";
+
+  return {
+    name: from.name !== to.name ? { from: from.name, to: to.name } : null,
+    description:
+      fromDescription !== toDescription ? { from: fromDescription, to: toDescription } : null,
+    groups,
+    changes: groups.reduce((sum, group) => sum + group.added.length + group.removed.length, 0),
+  };
+}
+
+/**
+ * Version active when the trade was entered: the latest one created at or before
+ * the entry instant, read as wall-clock time in the user's timezone. Trades
+ * without an entry time are taken at the start of their day. Trades older than
+ * the first version use the first one.
+ */
+export function resolvePlaybookVersion(
+  versions: Pick<PlaybookVersion, "version" | "createdAt">[],
+  entryDate: string,
+  entryTime: string | undefined,
+  timezone: string = DEFAULT_SESSION_SETTINGS.timezone
+): number | undefined {
+  if (versions.length === 0) return undefined;
+
+  const sorted = [...versions].sort((a, b) => a.version - b.version);
+  const entry = toSessionInstant(entryDate, entryTime || "00:00", timezone);
+  if (!entry) return sorted[0].version;
+
+  const active = sorted.filter((v) => new Date(v.createdAt).getTime() <= entry.getTime()).pop();
+  return (active || sorted[0]).version;
+}
+
+/**
+ * Results of the trades pinned to each version, oldest version first.
+ */
+export function getPlaybookVersionStats(
+  versions: Pick<PlaybookVersion, "version">[],
+  trades: Pick<Trade, "playbookVersion" | "outcome" | "pnl">[]
+): PlaybookVersionStats[] {
+  return [...versions]
+    .sort((a, b) => a.version - b.version)
+    .map(({ version }) => {
+      const pinned = trades.filter((trade) => trade.playbookVersion === version);
+      const closed = pinned.filter((trade) => trade.outcome !== "pending");
+      const wins = closed.filter((trade) => trade.outcome === "win").length;
+      const netPnl = closed.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+
+      return {
+        version,
+        totalTrades: pinned.length,
+        wins,
+        winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0,
+        netPnl,
+        expectancy: closed.length > 0 ? netPnl / closed.length : 0,
+      };
+    });
+}
@@ -0,0 +1,231 @@
+/**
+ * Position Sizing Service
+ *
+ * Turns the account balance, the sizing settings and the stop distance into a
+ * lot/contract size, and checks whether a trade risked more than configured.
+ * Money at risk per lot = stop distance × asset multiplier (`Settings.assets`).
+ */
+
+import { DEFAULT_SIZING_SETTINGS } from "@/types";
+import type { PlaybookStats, PositionSizingMethod, SizingSettings, Trade } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type KellyStats = Pick<PlaybookStats, "totalTrades" | "winRate" | "avgWin" | "avgLoss">;
+
+export interface AllowedRisk {
+  /** Money to risk on the trade */
+  riskAmount: number;
+  /** Same, in % of the balance */
+  riskPercent: number;
+  /** Full Kelly in % (kelly method only) */
+  kellyPercent?: number;
+}
+
+export interface PositionSizeInput {
+  balance: number;
+  entryPrice: number;
+  stopLoss: number;
+  /** Asset contract multiplier */
+  multiplier: number;
+  settings: SizingSettings;
+  /** Playbook stats for the Kelly method */
+  kellyStats?: KellyStats;
+  /** Smallest lot increment */
+  lotStep?: number;
+}
+
+export interface PositionSizeResult extends AllowedRisk {
+  /** Money lost per lot if the stop is hit */
+  riskPerLot: number;
+  /** Size rounded down to the lot step */
+  lots: number;
+  /** Money at risk with the rounded size */
+  actualRisk: number;
+}
+
+export interface TradeRiskCheck {
+  actualRisk: number;
+  allowedRisk: number;
+  /** Actual risk in % of the balance */
+  actualRiskPercent: number;
+  /** How much the actual risk exceeds the allowed one, in % (0 when within) */
+  excessPct: number;
+  exceeded: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Closed trades needed before the playbook stats are used for Kelly */
+export const MIN_KELLY_TRADES = 20;
+
+/** Risk above the allowed one by less than this (lot rounding, slippage) is not flagged */
+export const RISK_TOLERANCE_PCT = 10;
+
+export const DEFAULT_LOT_STEP = 0.01;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const stepDecimals = (step: number) => (step.toString().split(".")[1] || "").length;
+
+/**
+ * Full Kelly fraction in %: W − (1 − W) / R, with W the win rate and R the
+ * average win over the average loss. Null when the stats are not enough.
+ */
+export function calculateKellyPercent(stats: KellyStats | undefined): number | null {
+  if (!stats || stats.totalTrades < MIN_KELLY_TRADES || stats.avgLoss <= 0) return null;
+
+  const winRate = stats.winRate / 100;
+  const payoff = stats.avgWin / stats.avgLoss;
+  if (payoff <= 0) return 0;
+
+  return round(Math.max(0, winRate - (1 - winRate) / payoff) * 100);
+}
+
+/**
+ * Money to risk on the next trade. Kelly risks `kellyFraction` of the full Kelly,
+ * never more than `riskPercent`. Null when Kelly has no stats to use.
+ */
+export function getAllowedRisk(
+  settings: SizingSettings,
+  balance: number,
+  kellyStats?: KellyStats
+): AllowedRisk | null {
+  if (balance <= 0) return null;
+
+  if (settings.method === "fixed_amount") {
+    return {
+      riskAmount: round(settings.riskAmount),
+      riskPercent: round((settings.riskAmount / balance) * 100),
+    };
+  }
+
+  if (settings.method === "kelly") {
+    const kellyPercent = calculateKellyPercent(kellyStats);
+    if (kellyPercent === null) return null;
+
+    const riskPercent = Math.min(settings.riskPercent, kellyPercent * settings.kellyFraction);
+    return {
+      riskAmount: round((balance * riskPercent) / 100),
+      riskPercent: round(riskPercent),
+      kellyPercent,
+    };
+  }
+
+  return {
+    riskAmount: round((balance * settings.riskPercent) / 100),
+    riskPercent: settings.riskPercent,
+  };
+}
+
+/**
+ * Lots/contracts to trade so that hitting the stop loses the allowed risk.
+ * Null when the stop distance or the allowed risk is unknown.
+ */
+export function calculatePositionSize(input: PositionSizeInput): PositionSizeResult | null {
+  const lotStep = input.lotStep || DEFAULT_LOT_STEP;
+  const riskPerLot = Math.abs(input.entryPrice - input.stopLoss) * input.multiplier;
+  if (!Number.isFinite(riskPerLot) || riskPerLot <= 0) return null;
+
+  const allowed = getAllowedRisk(input.settings, input.balance, input.kellyStats);
+  if (!allowed) return null;
+
+  // Epsilon keeps exact multiples (e.g. 0.3 / 0.01) from flooring one step down
+  const steps = Math.floor(allowed.riskAmount / riskPerLot / lotStep + 1e-9);
+  const lots = round(steps * lotStep, stepDecimals(lotStep));
+
+  return {
+    ...allowed,
+    riskPerLot: round(riskPerLot),
+    lots,
+    actualRisk: round(lots * riskPerLot),
+  };
+}
+
+type ClosedTrade = Pick<Trade, "exitDate" | "exitTime" | "pnl">;
+
+const sortableInstant = (date: string, time?: string) =>
+  `${date.split("T")[0]}T${time || "00:00:00"}`;
+
+/**
+ * Account balance when a trade was entered: the initial balance plus the PnL of
+ * the trades closed before its entry. Lets past trades be checked against the
+ * balance they were sized with, not today's.
+ */
+export function getBalanceAtEntry(
+  trade: Pick<Trade, "entryDate" | "entryTime">,
+  history: ClosedTrade[],
+  initialBalance: number
+): number {
+  const entry = sortableInstant(trade.entryDate, trade.entryTime);
+  return history.reduce(
+    (balance, closed) =>
+      closed.exitDate &&
+      closed.pnl !== undefined &&
+      sortableInstant(closed.exitDate, closed.exitTime) < entry
+        ? balance + closed.pnl
+        : balance,
+    initialBalance
+  );
+}
+
+/**
+ * Compares the money a trade put at risk (entry to stop) with the configured risk
+ * per trade. Kelly trades are checked against `riskPercent`, the Kelly cap.
+ * Null for trades without stop.
+ */
+export function getTradeRiskCheck(
+  trade: Pick<Trade, "entryPrice" | "stopLoss" | "lot">,
+  balance: number,
+  multiplier: number,
+  settings: SizingSettings
+): TradeRiskCheck | null {
+  if (!trade.stopLoss || !trade.entryPrice || !trade.lot || balance <= 0) return null;
+
+  const actualRisk = Math.abs(trade.entryPrice - trade.stopLoss) * trade.lot * multiplier;
+  const allowedRisk =
+    settings.method === "fixed_amount"
+      ? settings.riskAmount
+      : (balance * settings.riskPercent) / 100;
+  if (actualRisk <= 0 || allowedRisk <= 0) return null;
+
+  const excessPct = Math.max(0, (actualRisk / allowedRisk - 1) * 100);
+
+  return {
+    actualRisk: round(actualRisk),
+    allowedRisk: round(allowedRisk),
+    actualRiskPercent: round((actualRisk / balance) * 100),
+    excessPct: round(excessPct),
+    exceeded: excessPct > RISK_TOLERANCE_PCT,
+  };
+}
+
+const SIZING_METHODS: PositionSizingMethod[] = ["fixed_fractional", "fixed_amount", "kelly"];
+
+const positiveOr = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+
+/**
+ * Reads the sizing settings stored for the user. Unknown methods and values that
+ * are not positive numbers fall back to DEFAULT_SIZING_SETTINGS.
+ */
+export function normalizeSizingSettings(value: unknown): SizingSettings {
+  if (!value || typeof value !== "object") return DEFAULT_SIZING_SETTINGS;
+
+  const raw = value as Partial<Record<keyof SizingSettings, unknown>>;
+  return {
+    method:
+      SIZING_METHODS.find((method) => method === raw.method) ?? DEFAULT_SIZING_SETTINGS.method,
+    riskPercent: positiveOr(raw.riskPercent, DEFAULT_SIZING_SETTINGS.riskPercent),
+    riskAmount: positiveOr(raw.riskAmount, DEFAULT_SIZING_SETTINGS.riskAmount),
+    kellyFraction: positiveOr(raw.kellyFraction, DEFAULT_SIZING_SETTINGS.kellyFraction),
+  };
+}
@@ -0,0 +1,576 @@
+/**
+ * Backup Restore
+ *
+ * Plans the restore of an `ExportData` backup into the user's current data.
+ * Every restored record gets a new ID and its references (account, trades, journal
+ * entries, experiments) are remapped, so a backup can be restored next to the data it
+ * came from. Two modes:
+ * - merge: accounts with the same name receive the backup data and records already
+ *   present (same trade, journal entry, playbook, routine day) are kept as they are;
+ * - fresh: every backup account is restored as a new account (renamed on name clash),
+ *   leaving the existing accounts untouched.
+ * Settings are merged (union of lists) and laboratory/mental records already present
+ * are skipped in both modes.
+ */
+
+import type { Account, DailyRoutine, JournalEntry, Playbook, Trade, UserSettings } from "@/types";
+import {
+  BACKUP_VERSION,
+  type BackupLaboratoryExperiment,
+  type BackupLaboratoryRecap,
+  type BackupMentalLog,
+  type ExportData,
+} from "@/services/trades/export";
+import { getImportSignature } from "@/services/trades/importDiff";
+
+export type RestoreMode = "merge" | "fresh";
+
+export const SUPPORTED_BACKUP_VERSIONS = ["1.0", BACKUP_VERSION];
+
+export type RestoreEntity =
+  | "accounts"
+  | "trades"
+  | "journalEntries"
+  | "playbooks"
+  | "routines"
+  | "settings"
+  | "laboratoryExperiments"
+  | "laboratoryRecaps"
+  | "mentalLogs";
+
+export interface RestoreConflict {
+  entity: RestoreEntity;
+  /** Human readable identification of the record */
+  name: string;
+  /** skipped: already present or orphan; merged: combined with the existing record; renamed: name clash */
+  resolution: "skipped" | "merged" | "renamed";
+  detail?: string;
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  version: string;
+  counts: Record<RestoreEntity, { restored: number; skipped: number }>;
+  conflicts: RestoreConflict[];
+}
+
+/** Records already in the target, used to detect what the backup would duplicate */
+export interface RestoreContext {
+  accounts: Pick<Account, "id" | "name">[];
+  trades: Pick<
+    Trade,
+    "id" | "accountId" | "symbol" | "type" | "entryPrice" | "entryDate" | "entryTime"
+  >[];
+  journalEntries: Pick<JournalEntry, "id" | "accountId" | "date" | "title">[];
+  playbooks: Pick<Playbook, "id" | "name">[];
+  routines: Pick<DailyRoutine, "accountId" | "date">[];
+  settings: UserSettings | null;
+  laboratoryExperiments: { title: string; createdAt: string }[];
+  laboratoryRecaps: { title: string; createdAt: string }[];
+  mentalLogs: { step1Problem: string; createdAt: string }[];
+}
+
+/** Records to create, already remapped to new IDs */
+export interface RestorePlan {
+  accounts: Account[];
+  trades: Trade[];
+  /** tradeIds may point to existing trades (merge mode) */
+  journalEntries: JournalEntry[];
+  playbooks: Playbook[];
+  routines: DailyRoutine[];
+  /** Settings after the merge; null keeps the current ones */
+  settings: UserSettings | null;
+  laboratoryExperiments: BackupLaboratoryExperiment[];
+  laboratoryRecaps: BackupLaboratoryRecap[];
+  mentalLogs: BackupMentalLog[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+type FieldType = "string" | "number" | "boolean" | "array";
+
+/** Fields a record needs to be restored; list items are either strings or records with these fields */
+interface RecordShape {
+  fields: Record<string, FieldType>;
+  /** Optional lists restored with the record */
+  lists?: Record<string, "string" | Record<string, FieldType>>;
+}
+
+type BackupList = Exclude<RestoreEntity, "settings">;
+
+const RECORD_SHAPES: Record<BackupList, RecordShape> = {
+  accounts: {
+    fields: {
+      id: "string",
+      name: "string",
+      currency: "string",
+      initialBalance: "number",
+      leverage: "string",
+      maxDrawdown: "number",
+    },
+  },
+  trades: {
+    fields: {
+      id: "string",
+      accountId: "string",
+      symbol: "string",
+      type: "string",
+      entryPrice: "number",
+      stopLoss: "number",
+      takeProfit: "number",
+      lot: "number",
+      entryDate: "string",
+    },
+    lists: {
+      legs: { side: "string", price: "number", quantity: "number", executedDate: "string" },
+    },
+  },
+  journalEntries: {
+    fields: { id: "string", accountId: "string", date: "string", title: "string" },
+    lists: {
+      tradeIds: "string",
+      images: { url: "string", path: "string", timeframe: "string" },
+    },
+  },
+  playbooks: {
+    fields: { id: "string", name: "string", icon: "string", color: "string" },
+    lists: { ruleGroups: { id: "string", name: "string", rules: "array" } },
+  },
+  routines: {
+    fields: {
+      id: "string",
+      accountId: "string",
+      date: "string",
+      aerobic: "boolean",
+      diet: "boolean",
+      reading: "boolean",
+      meditation: "boolean",
+      preMarket: "boolean",
+      prayer: "boolean",
+    },
+  },
+  laboratoryExperiments: {
+    fields: {
+      id: "string",
+      title: "string",
+      status: "string",
+      promotedToPlaybook: "boolean",
+      images: "array",
+      linkedTrades: "array",
+      createdAt: "string",
+    },
+    lists: {
+      images: { imageUrl: "string" },
+      linkedTrades: { tradeId: "string", category: "string" },
+    },
+  },
+  laboratoryRecaps: {
+    fields: { id: "string", title: "string", tradeIds: "array", createdAt: "string" },
+    lists: { tradeIds: "string" },
+  },
+  mentalLogs: {
+    fields: { id: "string", step1Problem: "string", createdAt: "string" },
+  },
+};
+
+const SETTINGS_SHAPE: RecordShape = {
+  fields: {
+    currencies: "array",
+    leverages: "array",
+    assets: "array",
+    strategies: "array",
+    setups: "array",
+  },
+  lists: {
+    currencies: "string",
+    leverages: "string",
+    assets: { symbol: "string", multiplier: "number" },
+    strategies: "string",
+    setups: "string",
+  },
+};
+
+const hasType = (value: unknown, type: FieldType) =>
+  type === "array" ? Array.isArray(value) : typeof value === type;
+
+/** Name of the first field missing or with the wrong type, or null when the record matches */
+const findInvalidField = (value: unknown, shape: RecordShape): string | null => {
+  if (!isObject(value)) return "registro";
+
+  for (const [field, type] of Object.entries(shape.fields)) {
+    if (!hasType(value[field], type)) return field;
+  }
+  for (const [field, item] of Object.entries(shape.lists || {})) {
+    const list = value[field];
+    if (list === undefined || list === null) continue;
+    if (!Array.isArray(list)) return field;
+    const valid = list.every((entry) =>
+      item === "string"
+        ? typeof entry === "string"
+        : findInvalidField(entry, { fields: item }) === null
+    );
+    if (!valid) return field;
+  }
+  return null;
+};
+
+const matchesShape = <T>(value: unknown, shape: RecordShape): value is T =>
+  findInvalidField(value, shape) === null;
+
+/** Validates every record of a list, naming the first invalid one */
+const readRecords = <T>(data: Record<string, unknown>, key: BackupList): T[] => {
+  const list = data[key];
+  if (!Array.isArray(list)) throw new Error("Arquivo de backup inválido.");
+
+  return list.map((record, index) => {
+    if (!matchesShape<T>(record, RECORD_SHAPES[key])) {
+      const field = findInvalidField(record, RECORD_SHAPES[key]);
+      throw new Error(`Arquivo de backup inválido: ${key}[${index}] com "${field}" inválido.`);
+    }
+    return record;
+  });
+};
+
+/**
+ * Validates a parsed backup file and upgrades older versions to the current shape.
+ * Every record is checked before anything is written, so a damaged file fails as a whole.
+ * @throws Error with a user-facing message when the file is not a supported backup
+ */
+export const parseBackupData = (raw: unknown): ExportData => {
+  if (!isObject(raw) || typeof raw.version !== "string") {
+    throw new Error("Arquivo de backup inválido.");
+  }
+  if (!SUPPORTED_BACKUP_VERSIONS.includes(raw.version)) {
+    throw new Error(`Versão de backup não suportada: ${raw.version}.`);
+  }
+
+  // 1.0 backups had no laboratory and mental logs
+  const data: Record<string, unknown> = {
+    laboratoryExperiments: [],
+    laboratoryRecaps: [],
+    mentalLogs: [],
+    ...raw,
+  };
+
+  const settings = data.settings ?? null;
+  if (settings !== null && !matchesShape<UserSettings>(settings, SETTINGS_SHAPE)) {
+    const field = findInvalidField(settings, SETTINGS_SHAPE);
+    throw new Error(`Arquivo de backup inválido: settings com "${field}" inválido.`);
+  }
+
+  return {
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    version: raw.version,
+    accounts: readRecords<Account>(data, "accounts"),
+    trades: readRecords<Trade>(data, "trades"),
+    journalEntries: readRecords<JournalEntry>(data, "journalEntries"),
+    playbooks: readRecords<Playbook>(data, "playbooks"),
+    routines: readRecords<DailyRoutine>(data, "routines"),
+    settings,
+    laboratoryExperiments: readRecords<BackupLaboratoryExperiment>(data, "laboratoryExperiments"),
+    laboratoryRecaps: readRecords<BackupLaboratoryRecap>(data, "laboratoryRecaps"),
+    mentalLogs: readRecords<BackupMentalLog>(data, "mentalLogs"),
+  };
+};
+
+/** Timestamps come from Supabase ("+00:00") in backups and from Prisma ("Z") in the context */
+const timeKey = (value: string) => String(new Date(value).getTime());
+
+const union = (current: string[] = [], incoming: string[] = []) =>
+  Array.from(new Set([...current, ...incoming]));
+
+/**
+ * Union of the current and backup settings; current values win for assets with the same symbol.
+ */
+export const mergeSettings = (
+  current: UserSettings | null,
+  incoming: UserSettings
+): UserSettings => {
+  if (!current) return { ...incoming, id: undefined, user_id: undefined };
+
+  const symbols = new Set(current.assets.map((asset) => asset.symbol));
+  return {
+    ...current,
+    currencies: union(current.currencies, incoming.currencies),
+    leverages: union(current.leverages, incoming.leverages),
+    assets: [
+      ...current.assets,
+      ...(incoming.assets || []).filter((asset) => !symbols.has(asset.symbol)),
+    ],
+    strategies: union(current.strategies, incoming.strategies),
+    setups: union(current.setups, incoming.setups),
+  };
+};
+
+/** Returns the first free name: "Name (suffix)", "Name (suffix 2)", ... */
+const uniqueName = (name: string, taken: Set<string>, suffix: string) => {
+  let candidate = `${name} (${suffix})`;
+  for (let i = 2; taken.has(candidate); i++) candidate = `${name} (${suffix} ${i})`;
+  return candidate;
+};
+
+const createCounts = (): RestoreReport["counts"] => ({
+  accounts: { restored: 0, skipped: 0 },
+  trades: { restored: 0, skipped: 0 },
+  journalEntries: { restored: 0, skipped: 0 },
+  playbooks: { restored: 0, skipped: 0 },
+  routines: { restored: 0, skipped: 0 },
+  settings: { restored: 0, skipped: 0 },
+  laboratoryExperiments: { restored: 0, skipped: 0 },
+  laboratoryRecaps: { restored: 0, skipped: 0 },
+  mentalLogs: { restored: 0, skipped: 0 },
+});
+
+/**
+ * Builds the records to create for a backup and the report shown before confirming.
+ * @param idFactory Generates the new IDs (injectable for tests)
+ */
+export const planBackupRestore = (
+  data: ExportData,
+  context: RestoreContext,
+  mode: RestoreMode,
+  idFactory: () => string = () => crypto.randomUUID()
+): { plan: RestorePlan; report: RestoreReport } => {
+  const counts = createCounts();
+  const conflicts: RestoreConflict[] = [];
+  const plan: RestorePlan = {
+    accounts: [],
+    trades: [],
+    journalEntries: [],
+    playbooks: [],
+    routines: [],
+    settings: null,
+    laboratoryExperiments: [],
+    laboratoryRecaps: [],
+    mentalLogs: [],
+  };
+
+  const skip = (entity: RestoreEntity, name: string, detail: string) => {
+    counts[entity].skipped++;
+    conflicts.push({ entity, name, resolution: "skipped", detail });
+  };
+
+  // Accounts
+  const accountIds = new Map<string, string>();
+  /** Accounts that already existed (merge mode), the only ones that may hold duplicates */
+  const mergedAccounts = new Set<string>();
+  const accountNames = new Set(context.accounts.map((a) => a.name));
+  for (const account of data.accounts) {
+    const existing = mode === "merge" && context.accounts.find((a) => a.name === account.name);
+    if (existing) {
+      accountIds.set(account.id, existing.id);
+      mergedAccounts.add(existing.id);
+      counts.accounts.skipped++;
+      conflicts.push({ entity: "accounts", name: account.name, resolution: "merged" });
+      continue;
+    }
+
+    const id = idFactory();
+    let name = account.name;
+    if (accountNames.has(name)) {
+      name = uniqueName(account.name, accountNames, "restaurada");
+      conflicts.push({
+        entity: "accounts",
+        name: account.name,
+        resolution: "renamed",
+        detail: name,
+      });
+    }
+    accountNames.add(name);
+    accountIds.set(account.id, id);
+    counts.accounts.restored++;
+    // Trades restored below rebuild the balance from the initial one
+    plan.accounts.push({ ...account, id, name, currentBalance: account.initialBalance });
+  }
+
+  // Trades: in merged accounts each existing trade absorbs one backup trade
+  const tradeIds = new Map<string, string>();
+  const existingTrades = new Map<string, string[]>();
+  for (const trade of context.trades) {
+    if (!mergedAccounts.has(trade.accountId)) continue;
+    const key = `${trade.accountId}|${getImportSignature(trade)}`;
+    existingTrades.set(key, [...(existingTrades.get(key) || []), trade.id]);
+  }
+  for (const trade of data.trades) {
+    const label = `${trade.symbol} ${trade.entryDate}`;
+    const accountId = accountIds.get(trade.accountId);
+    if (!accountId) {
+      skip("trades", label, "Conta não encontrada no backup");
+      continue;
+    }
+
+    const matches = existingTrades.get(`${accountId}|${getImportSignature(trade)}`);
+    if (matches?.length) {
+      tradeIds.set(trade.id, matches.shift()!);
+      skip("trades", label, "Trade já existe");
+      continue;
+    }
+
+    const id = idFactory();
+    tradeIds.set(trade.id, id);
+    counts.trades.restored++;
+    plan.trades.push({
+      ...trade,
+      id,
+      accountId,
+      legs: trade.legs?.map((leg) => ({ ...leg, id: idFactory(), tradeId: id })),
+    });
+  }
+
+  // Journal entries
+  const journalIds = new Map<string, string>();
+  const journalKey = (e: Pick<JournalEntry, "accountId" | "date" | "title">) =>
+    `${e.accountId}|${e.date}|${e.title}`;
+  const existingJournals = new Map(context.journalEntries.map((e) => [journalKey(e), e.id]));
+  for (const entry of data.journalEntries) {
+    const label = `${entry.title} (${entry.date})`;
+    const accountId = accountIds.get(entry.accountId);
+    if (!accountId) {
+      skip("journalEntries", label, "Conta não encontrada no backup");
+      continue;
+    }
+
+    const existingId = mergedAccounts.has(accountId)
+      ? existingJournals.get(journalKey({ ...entry, accountId }))
+      : undefined;
+    if (existingId) {
+      journalIds.set(entry.id, existingId);
+      skip("journalEntries", label, "Entrada já existe");
+      continue;
+    }
+
+    const id = idFactory();
+    journalIds.set(entry.id, id);
+    counts.journalEntries.restored++;
+    plan.journalEntries.push({
+      ...entry,
+      id,
+      accountId,
+      tradeIds: (entry.tradeIds || [])
+        .map((tradeId) => tradeIds.get(tradeId))
+        .filter((tradeId): tradeId is string => !!tradeId),
+      images: (entry.images || []).map((image) => ({
+        ...image,
+        id: idFactory(),
+        journalEntryId: id,
+      })),
+    });
+  }
+
+  // Playbooks: names are unique per user
+  const playbookNames = new Set(context.playbooks.map((p) => p.name));
+  for (const playbook of data.playbooks) {
+    const accountId = playbook.accountId ? accountIds.get(playbook.accountId) : undefined;
+    if (playbook.accountId && !accountId) {
+      skip("playbooks", playbook.name, "Conta não encontrada no backup");
+      continue;
+    }
+
+    let name = playbook.name;
+    if (playbookNames.has(name)) {
+      if (mode === "merge") {
+        skip("playbooks", playbook.name, "Playbook com o mesmo nome já existe");
+        continue;
+      }
+      name = uniqueName(playbook.name, playbookNames, "restaurado");
+      conflicts.push({
+        entity: "playbooks",
+        name: playbook.name,
+        resolution: "renamed",
+        detail: name,
+      });
+    }
+    playbookNames.add(name);
+    counts.playbooks.restored++;
+    plan.playbooks.push({ ...playbook, id: idFactory(), accountId, name });
+  }
+
+  // Routines: one per account and day
+  const routineDays = new Set(context.routines.map((r) => `${r.accountId}|${r.date}`));
+  for (const routine of data.routines) {
+    const accountId = accountIds.get(routine.accountId);
+    if (!accountId) {
+      skip("routines", routine.date, "Conta não encontrada no backup");
+      continue;
+    }
+    if (routineDays.has(`${accountId}|${routine.date}`)) {
+      skip("routines", routine.date, "Rotina do dia já existe");
+      continue;
+    }
+    routineDays.add(`${accountId}|${routine.date}`);
+    counts.routines.restored++;
+    plan.routines.push({ ...routine, id: idFactory(), accountId });
+  }
+
+  // Settings
+  if (data.settings) {
+    plan.settings = mergeSettings(context.settings, data.settings);
+    counts.settings.restored++;
+    if (context.settings) {
+      conflicts.push({ entity: "settings", name: "Configurações", resolution: "merged" });
+    }
+  }
+
+  // Laboratory and mental logs are not account-scoped: skip the ones already present
+  const existingExperiments = new Set(
+    context.laboratoryExperiments.map((e) => `${e.title}|${timeKey(e.createdAt)}`)
+  );
+  for (const experiment of data.laboratoryExperiments) {
+    if (existingExperiments.has(`${experiment.title}|${timeKey(experiment.createdAt)}`)) {
+      skip("laboratoryExperiments", experiment.title, "Experimento já existe");
+      continue;
+    }
+
+    const id = idFactory();
+    counts.laboratoryExperiments.restored++;
+    plan.laboratoryExperiments.push({
+      ...experiment,
+      id,
+      images: experiment.images.map((image) => ({ ...image, id: idFactory(), experimentId: id })),
+      linkedTrades: experiment.linkedTrades.flatMap((link) => {
+        const tradeId = tradeIds.get(link.tradeId);
+        return tradeId ? [{ ...link, tradeId }] : [];
+      }),
+    });
+  }
+
+  const existingRecaps = new Set(
+    context.laboratoryRecaps.map((r) => `${r.title}|${timeKey(r.createdAt)}`)
+  );
+  for (const recap of data.laboratoryRecaps) {
+    if (existingRecaps.has(`${recap.title}|${timeKey(recap.createdAt)}`)) {
+      skip("laboratoryRecaps", recap.title, "Recap já existe");
+      continue;
+    }
+
+    const linkedId = recap.linkedId
+      ? (recap.linkedType === "journal" ? journalIds : tradeIds).get(recap.linkedId)
+      : undefined;
+    counts.laboratoryRecaps.restored++;
+    plan.laboratoryRecaps.push({
+      ...recap,
+      id: idFactory(),
+      tradeId: recap.tradeId ? tradeIds.get(recap.tradeId) : undefined,
+      linkedType: linkedId ? recap.linkedType : undefined,
+      linkedId,
+      tradeIds: recap.tradeIds
+        .map((tradeId) => tradeIds.get(tradeId))
+        .filter((tradeId): tradeId is string => !!tradeId),
+    });
+  }
+
+  const existingLogs = new Set(
+    context.mentalLogs.map((l) => `${l.step1Problem}|${timeKey(l.createdAt)}`)
+  );
+  for (const log of data.mentalLogs) {
+    if (existingLogs.has(`${log.step1Problem}|${timeKey(log.createdAt)}`)) {
+      skip("mentalLogs", log.step1Problem, "Registro já existe");
+      continue;
+    }
+    counts.mentalLogs.restored++;
+    plan.mentalLogs.push({ ...log, id: idFactory() });
+  }
+
+  return { plan, report: { mode, version: data.version, counts, conflicts } };
+};
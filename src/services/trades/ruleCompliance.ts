@@ -0,0 +1,51 @@
+/**
+ * Trade Rule Compliance Service
+ *
+ * Which rules of the trade's playbook were followed or broken. Rules are
+ * identified by their text, as stored in `RuleGroup.rules`.
+ */
+
+import type { RuleGroup, TradeRuleCompliance } from "@/types";
+
+const toRuleList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(
+        new Set(
+          value
+            .filter((v): v is string => typeof v === "string" && v.trim() !== "")
+            .map((v) => v.trim())
+        )
+      )
+    : [];
+
+/**
+ * Reads the stored JSON; a rule marked as both followed and broken counts as broken.
+ * Returns undefined when no rule was marked.
+ */
+export function normalizeRuleCompliance(value: unknown): TradeRuleCompliance | undefined {
+  if (!value || typeof value !== "object") return undefined;
+
+  const raw = value as Partial<Record<keyof TradeRuleCompliance, unknown>>;
+  const broken = toRuleList(raw.broken);
+  const followed = toRuleList(raw.followed).filter((rule) => !broken.includes(rule));
+
+  if (followed.length === 0 && broken.length === 0) return undefined;
+  return { followed, broken };
+}
+
+/**
+ * Keeps only the rules that still exist in the playbook (a trade can be moved
+ * to another playbook, or a rule can be renamed, after it was marked).
+ */
+export function pickPlaybookRules(
+  compliance: TradeRuleCompliance | undefined,
+  ruleGroups: RuleGroup[]
+): TradeRuleCompliance | undefined {
+  if (!compliance) return undefined;
+
+  const rules = new Set(ruleGroups.flatMap((group) => group.rules));
+  return normalizeRuleCompliance({
+    followed: compliance.followed.filter((rule) => rules.has(rule)),
+    broken: compliance.broken.filter((rule) => rules.has(rule)),
+  });
+}
@@ -0,0 +1,256 @@
+/**
+ * Trade Plan Service
+ *
+ * Pre-trade plans (entry, stop, target and size decided before the trade) and the
+ * comparison between a plan and the trade that executed it. The comparison drives
+ * the trade's `planAdherence` / `planAdherenceRating`.
+ */
+
+import type { Trade, TradePlan } from "@/types";
+import { normalizeRuleCompliance } from "./ruleCompliance";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Plan fields filled by the user before the trade */
+export type TradePlanDraft = Omit<
+  TradePlan,
+  "id" | "userId" | "status" | "tradeId" | "createdAt" | "updatedAt"
+>;
+
+/** How the trade left compared with the plan */
+export type PlanExitType = "target" | "stop" | "early" | "beyond-stop" | "open";
+
+export interface TradePlanComparison {
+  /** Planned reward:risk */
+  plannedRR: number;
+  /** Entry fill vs planned entry, in price; positive = worse than planned */
+  entrySlippage: number;
+  /** Same, in units of the planned risk */
+  entrySlippageR: number;
+  /** Executed stop vs planned stop: "widened" = further from the entry */
+  stopChange: "tightened" | "widened" | null;
+  /** Executed size vs planned size, in % */
+  lotDeviationPct: number;
+  exit: PlanExitType;
+  /** Result in units of the planned risk (null while open) */
+  realizedR: number | null;
+  /** User-facing description of every deviation */
+  deviations: string[];
+  /** 1-5, 5 = executed exactly as planned */
+  rating: number;
+  adherence: NonNullable<Trade["planAdherence"]>;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Price differences below this fraction of the planned risk count as "on plan" */
+export const PLAN_PRICE_TOLERANCE_R = 0.1;
+
+const MAX_RATING = 5;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value
+        .filter((v): v is string => typeof v === "string" && v.trim() !== "")
+        .map((v) => v.trim())
+    : [];
+
+/** +1 for Long, -1 for Short: multiplies price moves so that positive = in favor */
+const directionSign = (type: "Long" | "Short") => (type === "Long" ? 1 : -1);
+
+/**
+ * Validates a plan before saving.
+ *
+ * @throws Error with a user-facing message when the plan is incomplete or inconsistent
+ */
+export const normalizeTradePlanDraft = (input: TradePlanDraft): TradePlanDraft => {
+  const symbol = (input.symbol || "").trim().toUpperCase();
+  if (!symbol) throw new Error("Informe o ativo do plano.");
+  if (input.type !== "Long" && input.type !== "Short") {
+    throw new Error("Informe a direção do plano (Long ou Short).");
+  }
+  if (!input.accountId) throw new Error("Plano sem conta.");
+
+  const { plannedEntry, plannedStop, plannedTarget, plannedLot } = input;
+  if (![plannedEntry, plannedStop, plannedTarget, plannedLot].every(isPositiveNumber)) {
+    throw new Error("Entrada, stop, alvo e lote devem ser números positivos.");
+  }
+
+  const sign = directionSign(input.type);
+  if ((plannedEntry - plannedStop) * sign <= 0) {
+    throw new Error(
+      input.type === "Long"
+        ? "O stop deve ficar abaixo da entrada."
+        : "O stop deve ficar acima da entrada."
+    );
+  }
+  if ((plannedTarget - plannedEntry) * sign <= 0) {
+    throw new Error(
+      input.type === "Long"
+        ? "O alvo deve ficar acima da entrada."
+        : "O alvo deve ficar abaixo da entrada."
+    );
+  }
+
+  const bullishPct =
+    typeof input.bullishPct === "number" && Number.isFinite(input.bullishPct)
+      ? round(Math.min(100, Math.max(0, input.bullishPct)))
+      : undefined;
+
+  return {
+    accountId: input.accountId,
+    symbol,
+    type: input.type,
+    plannedEntry,
+    plannedStop,
+    plannedTarget,
+    plannedLot,
+    playbookId: input.playbookId || undefined,
+    strategy: input.strategy?.trim() || undefined,
+    checkedRules: toStringArray(input.checkedRules),
+    totalRules: Math.max(0, Math.floor(input.totalRules || 0)),
+    bullishArgs: toStringArray(input.bullishArgs),
+    bearishArgs: toStringArray(input.bearishArgs),
+    bullishPct,
+    probabilityLabel: input.probabilityLabel?.trim() || undefined,
+    notes: input.notes?.trim() || undefined,
+  };
+};
+
+/**
+ * Planned reward:risk (e.g. 2 = target twice as far as the stop).
+ */
+export function getPlanRiskReward(
+  plan: Pick<TradePlan, "plannedEntry" | "plannedStop" | "plannedTarget">
+): number {
+  const risk = Math.abs(plan.plannedEntry - plan.plannedStop);
+  if (risk === 0) return 0;
+  return round(Math.abs(plan.plannedTarget - plan.plannedEntry) / risk);
+}
+
+/**
+ * Initial values of the trade form when a plan is executed.
+ */
+export function tradePlanToTradeDraft(plan: TradePlan): Partial<Trade> {
+  return {
+    accountId: plan.accountId,
+    symbol: plan.symbol,
+    type: plan.type,
+    entryPrice: plan.plannedEntry,
+    stopLoss: plan.plannedStop,
+    takeProfit: plan.plannedTarget,
+    lot: plan.plannedLot,
+    strategy: plan.strategy,
+    // Rules checked in the Pre-Flight Checklist start as followed
+    ruleCompliance: normalizeRuleCompliance({ followed: plan.checkedRules, broken: [] }),
+  };
+}
+
+// ============================================
+// PLAN VS EXECUTION
+// ============================================
+
+/**
+ * Compares a trade with the plan it executed: entry slippage, moved stop, size
+ * and how the trade was closed. Each deviation beyond the tolerance lowers the
+ * 1-5 rating; trading another symbol or the opposite direction is off-plan.
+ */
+export function compareTradeToPlan(
+  plan: TradePlan,
+  trade: Pick<
+    Trade,
+    "symbol" | "type" | "entryPrice" | "stopLoss" | "lot" | "exitPrice" | "outcome"
+  >
+): TradePlanComparison {
+  const sign = directionSign(plan.type);
+  const risk = Math.abs(plan.plannedEntry - plan.plannedStop);
+  const tolerance = risk * PLAN_PRICE_TOLERANCE_R;
+  const toR = (price: number) => (risk > 0 ? round(price / risk) : 0);
+
+  const deviations: string[] = [];
+  let penalty = 0;
+
+  const entrySlippage = round((trade.entryPrice - plan.plannedEntry) * sign, 5);
+  if (entrySlippage > tolerance) {
+    deviations.push(`Entrada ${toR(entrySlippage)}R pior que a planejada`);
+    penalty += 1;
+  }
+
+  // A trade saved without stop keeps the planned one
+  const executedStop = trade.stopLoss || plan.plannedStop;
+  const stopShift = (plan.plannedStop - executedStop) * sign;
+  let stopChange: TradePlanComparison["stopChange"] = null;
+  if (stopShift > tolerance) {
+    stopChange = "widened";
+    deviations.push(`Stop afastado em ${toR(stopShift)}R`);
+    penalty += 2;
+  } else if (stopShift < -tolerance) {
+    stopChange = "tightened";
+    deviations.push(`Stop aproximado em ${toR(-stopShift)}R`);
+  }
+
+  const lotDeviationPct = round(((trade.lot - plan.plannedLot) / plan.plannedLot) * 100);
+  if (lotDeviationPct > 0) {
+    deviations.push(`Lote ${lotDeviationPct}% acima do planejado`);
+    penalty += 1;
+  }
+
+  let exit: PlanExitType = "open";
+  let realizedR: number | null = null;
+  const isClosed =
+    trade.exitPrice !== undefined && trade.exitPrice !== null && trade.outcome !== "pending";
+  if (isClosed) {
+    const exitPrice = trade.exitPrice as number;
+    realizedR = toR((exitPrice - trade.entryPrice) * sign);
+
+    if ((plan.plannedTarget - exitPrice) * sign <= tolerance) {
+      exit = "target";
+    } else if ((exitPrice - executedStop) * sign < -tolerance) {
+      exit = "beyond-stop";
+      deviations.push("Saída além do stop");
+      penalty += 2;
+    } else if ((exitPrice - executedStop) * sign <= tolerance) {
+      exit = "stop";
+    } else {
+      exit = "early";
+      deviations.push("Saída antes do alvo ou do stop");
+      penalty += 1;
+    }
+  }
+
+  let rating = Math.max(1, MAX_RATING - penalty);
+  if (trade.symbol.toUpperCase() !== plan.symbol.toUpperCase()) {
+    deviations.unshift("Ativo diferente do planejado");
+    rating = 1;
+  }
+  if (trade.type !== plan.type) {
+    deviations.unshift("Direção oposta à planejada");
+    rating = 1;
+  }
+
+  return {
+    plannedRR: getPlanRiskReward(plan),
+    entrySlippage,
+    entrySlippageR: toR(entrySlippage),
+    stopChange,
+    lotDeviationPct,
+    exit,
+    realizedR,
+    deviations,
+    rating,
+    adherence: rating === MAX_RATING ? "100%" : rating >= 3 ? "partial" : "off-plan",
+  };
+}
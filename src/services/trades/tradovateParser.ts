@@ -3,9 +3,17 @@
  *
  * Parses Performance CSV exports from Tradovate platform.
  * Format: symbol, qty, buyPrice, sellPrice, pnl, boughtTimestamp, soldTimestamp, duration
+ * Fills exports (one row per execution) are paired into the same format by the execution matcher.
  */
 
-import { parse, isValid } from "date-fns";
+import { parse, isValid, format } from "date-fns";
+import {
+  describeUnmatchedExecutions,
+  getContractMultiplier,
+  matchExecutions,
+  type Execution,
+  type RoundTrip,
+} from "./executionMatcher";
 
 export interface TradovateRawTrade {
   symbol: string;
@@ -18,11 +26,15 @@ export interface TradovateRawTrade {
   duration: string;
   buyFillId?: string;
   sellFillId?: string;
+  /** Only in trades rebuilt from fills (negative = cost) */
+  commission?: string;
 }
 
 export interface TradovateImportResult {
   data: TradovateRawTrade[];
   totalPnL?: number;
+  /** Non-fatal notes (e.g. fills of positions still open) */
+  warnings?: string[];
 }
 
 /**
@@ -168,9 +180,15 @@ export const parseTradovateContent = (content: string): TradovateImportResult =>
     throw new Error("CSV file must have at least a header and one data row");
   }
 
+  const availableHeaders = result.meta.fields || [];
+
+  // Fills export: one row per execution, rebuilt into round trips
+  if (isTradovateFillsExport(availableHeaders)) {
+    return buildTradovateFillsImport(result.data as Record<string, string>[], availableHeaders);
+  }
+
   // Validate required columns
   const requiredColumns = ["symbol", "pnl", "boughttimestamp", "soldtimestamp"];
-  const availableHeaders = result.meta.fields || [];
   const missingColumns = requiredColumns.filter(
     (col) => !availableHeaders.some((h: string) => h === col)
   );
@@ -207,6 +225,123 @@ export const parseTradovateContent = (content: string): TradovateImportResult =>
   return { data, totalPnL };
 };
 
+/**
+ * Tradovate Fills / Orders export columns (headers lowercased)
+ */
+const FILL_COLUMNS = {
+  side: ["b/s", "side", "action"],
+  contract: ["contract", "symbol"],
+  product: ["product"],
+  quantity: ["filled qty", "filledqty", "quantity", "qty"],
+  price: ["avg fill price", "avgprice", "fill price", "price"],
+  timestamp: ["timestamp", "fill time", "filled time"],
+  date: ["date", "trade date"],
+  time: ["time"],
+  commission: ["commission", "fee", "fees"],
+  id: ["fill id", "fillid", "order id", "orderid", "id"],
+  account: ["account"],
+  status: ["status"],
+};
+
+type FillColumns = Record<keyof typeof FILL_COLUMNS, string>;
+
+const findFillColumns = (headers: string[]): FillColumns =>
+  Object.fromEntries(
+    Object.entries(FILL_COLUMNS).map(([key, candidates]) => [
+      key,
+      candidates.find((candidate) => headers.includes(candidate)) ?? "",
+    ])
+  ) as FillColumns;
+
+/**
+ * True for Fills/Orders exports (one row per execution) instead of the Performance report.
+ */
+export const isTradovateFillsExport = (headers: string[]): boolean => {
+  const columns = findFillColumns(headers);
+  return !headers.includes("boughttimestamp") && Boolean(columns.side && columns.price);
+};
+
+/**
+ * Converts Tradovate Fills rows (lowercased headers) to matcher executions.
+ * Orders exports are accepted too; only rows with status "Filled" are used.
+ */
+export const parseTradovateFills = (
+  rows: Record<string, string>[],
+  headers: string[]
+): Execution[] => {
+  const columns = findFillColumns(headers);
+  const executions: Execution[] = [];
+
+  rows.forEach((row, index) => {
+    if (columns.status && !/^fill/i.test((row[columns.status] || "").trim())) return;
+
+    const action = (row[columns.side] || "").trim().toLowerCase();
+    const side = action.startsWith("b") ? "buy" : action.startsWith("s") ? "sell" : null;
+    const contract = (row[columns.contract] || "").trim();
+    const timestamp = columns.timestamp
+      ? row[columns.timestamp]
+      : `${row[columns.date] || ""} ${row[columns.time] || ""}`;
+    const time = parseTradovateDate(timestamp);
+    const quantity = Math.abs(parseTradovatePrice(row[columns.quantity]));
+    if (!side || !contract || !time || !quantity) return;
+
+    const product = (row[columns.product] || "").trim() || cleanTradovateSymbol(contract);
+
+    executions.push({
+      id: (row[columns.id] || "").trim() || String(index + 1),
+      accountId: (row[columns.account] || "").trim(),
+      symbol: contract,
+      side,
+      quantity,
+      price: parseTradovatePrice(String(row[columns.price] || "").replace(/,/g, "")),
+      time,
+      commission: -Math.abs(parseTradovateMoney(row[columns.commission])),
+      multiplier: getContractMultiplier(product),
+    });
+  });
+
+  return executions;
+};
+
+const formatTradovateTimestamp = (date: Date) => format(date, "MM/dd/yyyy HH:mm:ss");
+
+/**
+ * Round trip in the Performance report shape (bought/sold sides instead of entry/exit).
+ */
+const roundTripToTradovateTrade = (trip: RoundTrip): TradovateRawTrade => {
+  const isLong = trip.direction === "Long";
+  const durationSeconds = Math.round((trip.exitTime.getTime() - trip.entryTime.getTime()) / 1000);
+
+  return {
+    symbol: trip.symbol,
+    qty: String(trip.quantity),
+    buyPrice: String(isLong ? trip.entryPrice : trip.exitPrice),
+    sellPrice: String(isLong ? trip.exitPrice : trip.entryPrice),
+    pnl: trip.grossProfit.toFixed(2),
+    boughtTimestamp: formatTradovateTimestamp(isLong ? trip.entryTime : trip.exitTime),
+    soldTimestamp: formatTradovateTimestamp(isLong ? trip.exitTime : trip.entryTime),
+    duration: `${Math.floor(durationSeconds / 60)}min ${durationSeconds % 60}sec`,
+    buyFillId: isLong ? trip.entryExecutionId : trip.exitExecutionId,
+    sellFillId: isLong ? trip.exitExecutionId : trip.entryExecutionId,
+    commission: trip.commission.toFixed(2),
+  };
+};
+
+const buildTradovateFillsImport = (
+  rows: Record<string, string>[],
+  headers: string[]
+): TradovateImportResult => {
+  const match = matchExecutions(parseTradovateFills(rows, headers));
+  if (match.roundTrips.length === 0) {
+    throw new Error("Nenhuma posição fechada encontrada nas execuções do Tradovate.");
+  }
+
+  const data = match.roundTrips.map(roundTripToTradovateTrade);
+  const totalPnL = data.reduce((sum, trade) => sum + parseTradovateMoney(trade.pnl), 0);
+
+  return { data, totalPnL, warnings: describeUnmatchedExecutions(match) };
+};
+
 /**
  * Parses Tradovate CSV file.
  */
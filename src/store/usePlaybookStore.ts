@@ -15,7 +15,7 @@ interface PlaybookStore {
   // Actions
   loadPlaybooks: () => Promise<void>;
   addPlaybook: (playbook: Omit<Playbook, "id" | "createdAt" | "updatedAt">) => Promise<void>;
-  updatePlaybook: (playbook: Playbook) => Promise<void>;
+  updatePlaybook: (playbook: Playbook, changelog?: string) => Promise<void>;
   removePlaybook: (id: string) => Promise<void>;
 }
 
@@ -73,7 +73,7 @@ export const usePlaybookStore = create<PlaybookStore>((set, get) => ({
     }
   },
 
-  updatePlaybook: async (playbook) => {
+  updatePlaybook: async (playbook, changelog) => {
     set({ isLoading: true, error: null });
 
     try {
@@ -87,7 +87,14 @@ export const usePlaybookStore = create<PlaybookStore>((set, get) => ({
         isLoading: false,
       });
 
-      await updatePlaybookAction(updatedPlaybook);
+      const result = await updatePlaybookAction(updatedPlaybook, changelog);
+
+      // Update with real data (a rules change bumps the version)
+      if (result.success && result.playbook) {
+        set((state) => ({
+          playbooks: state.playbooks.map((p) => (p.id === playbook.id ? result.playbook! : p)),
+        }));
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       console.error("Error updating playbook:", error);
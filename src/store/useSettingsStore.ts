@@ -6,8 +6,21 @@ import {
   DEFAULT_ASSETS,
   DEFAULT_STRATEGIES,
   DEFAULT_SETUPS,
+  DEFAULT_SESSION_SETTINGS,
+  DEFAULT_NEWS_SETTINGS,
+  DEFAULT_SIZING_SETTINGS,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  DEFAULT_DIGEST_SETTINGS,
+} from "@/types";
+import type {
+  Asset,
+  BrokerFeeSettings,
+  DigestSettings,
+  NewsSettings,
+  NotificationSettings,
+  SessionSettings,
+  SizingSettings,
 } from "@/types";
-import type { Asset } from "@/types";
 import { getUserSettingsAction, saveUserSettingsAction } from "@/app/actions/accounts";
 
 interface SettingsStore {
@@ -16,6 +29,12 @@ interface SettingsStore {
   assets: Asset[];
   strategies: string[];
   setups: string[];
+  brokerFees: BrokerFeeSettings;
+  sessionSettings: SessionSettings;
+  newsSettings: NewsSettings;
+  sizingSettings: SizingSettings;
+  notificationSettings: NotificationSettings;
+  digestSettings: DigestSettings;
   isLoading: boolean;
   isLoaded: boolean; // ✅ NEW: Prevents redundant API calls
 
@@ -31,6 +50,12 @@ interface SettingsStore {
   removeStrategy: (strategy: string) => void;
   addSetup: (setup: string) => void;
   removeSetup: (setup: string) => void;
+  saveBrokerFees: (brokerFees: BrokerFeeSettings) => void;
+  saveSessionSettings: (sessionSettings: SessionSettings) => void;
+  saveNewsSettings: (newsSettings: NewsSettings) => void;
+  saveSizingSettings: (sizingSettings: SizingSettings) => void;
+  saveNotificationSettings: (notificationSettings: NotificationSettings) => void;
+  saveDigestSettings: (digestSettings: DigestSettings) => void;
   resetDefaults: () => void;
 }
 
@@ -66,6 +91,12 @@ export const useSettingsStore = create<SettingsStore>()(
       assets: defaultAssetsArray,
       strategies: DEFAULT_STRATEGIES,
       setups: DEFAULT_SETUPS,
+      brokerFees: { brokers: [] },
+      sessionSettings: DEFAULT_SESSION_SETTINGS,
+      newsSettings: DEFAULT_NEWS_SETTINGS,
+      sizingSettings: DEFAULT_SIZING_SETTINGS,
+      notificationSettings: DEFAULT_NOTIFICATION_SETTINGS,
+      digestSettings: DEFAULT_DIGEST_SETTINGS,
       isLoading: false,
       isLoaded: false, // ✅ NEW
 
@@ -85,6 +116,12 @@ export const useSettingsStore = create<SettingsStore>()(
               assets: settings.assets.length > 0 ? settings.assets : defaultAssetsArray,
               strategies: settings.strategies || [],
               setups: settings.setups || [],
+              brokerFees: settings.brokerFees || { brokers: [] },
+              sessionSettings: settings.sessionSettings || DEFAULT_SESSION_SETTINGS,
+              newsSettings: settings.newsSettings || DEFAULT_NEWS_SETTINGS,
+              sizingSettings: settings.sizingSettings || DEFAULT_SIZING_SETTINGS,
+              notificationSettings: settings.notificationSettings || DEFAULT_NOTIFICATION_SETTINGS,
+              digestSettings: settings.digestSettings || DEFAULT_DIGEST_SETTINGS,
               isLoading: false,
               isLoaded: true, // ✅ Mark as loaded
             });
@@ -208,6 +245,48 @@ export const useSettingsStore = create<SettingsStore>()(
         });
       },
 
+      saveBrokerFees: (brokerFees) => {
+        set({ brokerFees });
+        saveUserSettingsAction({ brokerFees }).catch((error) => {
+          console.error("Error syncing broker fees to Supabase:", error);
+        });
+      },
+
+      saveSessionSettings: (sessionSettings) => {
+        set({ sessionSettings });
+        saveUserSettingsAction({ sessionSettings }).catch((error) => {
+          console.error("Error syncing session settings to Supabase:", error);
+        });
+      },
+
+      saveNewsSettings: (newsSettings) => {
+        set({ newsSettings });
+        saveUserSettingsAction({ newsSettings }).catch((error) => {
+          console.error("Error syncing news settings to Supabase:", error);
+        });
+      },
+
+      saveSizingSettings: (sizingSettings) => {
+        set({ sizingSettings });
+        saveUserSettingsAction({ sizingSettings }).catch((error) => {
+          console.error("Error syncing sizing settings to Supabase:", error);
+        });
+      },
+
+      saveNotificationSettings: (notificationSettings) => {
+        set({ notificationSettings });
+        saveUserSettingsAction({ notificationSettings }).catch((error) => {
+          console.error("Error syncing notification settings to Supabase:", error);
+        });
+      },
+
+      saveDigestSettings: (digestSettings) => {
+        set({ digestSettings });
+        saveUserSettingsAction({ digestSettings }).catch((error) => {
+          console.error("Error syncing digest settings to Supabase:", error);
+        });
+      },
+
       resetDefaults: () =>
         set({
           currencies: DEFAULT_CURRENCIES,
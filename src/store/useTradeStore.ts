@@ -77,7 +77,7 @@ interface TradeStore {
   loadPage: (accountId: string, page: number) => Promise<void>;
   setSortDirection: (accountId: string, direction: "asc" | "desc") => Promise<void>; // NEW action
   setFilterAsset: (accountId: string, asset: string) => Promise<void>; // NEW action
-  addTrade: (trade: Trade) => Promise<void>;
+  addTrade: (trade: Trade) => Promise<Trade>;
   updateTrade: (trade: Trade) => Promise<void>;
   removeTrade: (id: string, accountId: string) => Promise<void>;
   clearTrades: () => void;
@@ -296,6 +296,8 @@ export const useTradeStore = create<TradeStore>()((set, get) => ({
       allHistory: newHistory,
       totalCount: totalCount + 1,
     });
+
+    return createdTrade;
   },
 
   updateTrade: async (trade: Trade) => {
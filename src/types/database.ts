@@ -7,6 +7,8 @@ export interface DBAccount {
   current_balance: number | string;
   leverage: string;
   max_drawdown: number | string;
+  account_type?: string | null;
+  prop_rules?: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
 }
@@ -46,6 +48,8 @@ export interface DBTrade {
   market_condition?: string;
   plan_adherence?: string;
   plan_adherence_rating?: number;
+  rule_compliance?: { followed?: string[]; broken?: string[] } | null;
+  playbook_version?: number | null;
   // Entry Telemetry v2
   entry_quality?: string;
   market_condition_v2?: string;
@@ -11,10 +11,44 @@ export interface Account {
   currentBalance: number;
   leverage: string;
   maxDrawdown: number;
+  accountType?: AccountType; // Defaults to "real"
+  propRules?: PropFirmRules; // Only for prop firm accounts (drawdown limit is maxDrawdown)
   createdAt: string;
   updatedAt: string;
 }
 
+export type AccountType = "real" | "demo" | "prop_firm";
+
+/** How the max drawdown floor moves: fixed, trailing closed-balance peak, or end-of-day peak */
+export type PropDrawdownType = "static" | "trailing" | "eod_trailing";
+
+/** Prop firm challenge rules. Percentages are relative to the initial balance. */
+export interface PropFirmRules {
+  drawdownType: PropDrawdownType;
+  dailyLossPercent?: number;
+  profitTargetPercent?: number;
+  minTradingDays?: number;
+  consistencyPercent?: number; // Max share of total profit a single day may represent
+}
+
+export type PropRuleKey =
+  | "daily_loss"
+  | "max_drawdown"
+  | "profit_target"
+  | "min_trading_days"
+  | "consistency";
+
+export interface PropRuleBreach {
+  id: string;
+  accountId: string;
+  rule: PropRuleKey;
+  tradeId?: string; // Trade that broke the rule
+  breachDate: string;
+  value: number;
+  limit: number;
+  createdAt: string;
+}
+
 export interface Trade {
   id: string;
   userId: string; // User ID from Supabase Auth
@@ -59,16 +93,44 @@ export interface Trade {
   marketCondition?: "Trending Bull" | "Trending Bear" | "Range" | "High Vol" | "Low Vol";
   planAdherence?: "100%" | "partial" | "off-plan";
   planAdherenceRating?: number; // 1-5
+  ruleCompliance?: TradeRuleCompliance; // Playbook rules followed / broken
+  playbookVersion?: number; // Strategy playbook version active at entry
 
   // Entry Telemetry (v2)
   entry_quality?: "picture-perfect" | "nice" | "normal" | "ugly";
   market_condition_v2?: "bull-trend" | "bear-trend" | "ranging" | "breakout";
   pdArray?: PdArrayType;
 
+  // Partial fills (scale-ins / partial exits). Flat price fields hold the weighted averages.
+  legs?: TradeLeg[];
+
+  // Import batch that created or last updated the trade
+  importBatchId?: string;
+
   createdAt: string;
   updatedAt: string;
 }
 
+/** Rules of the trade's playbook (texts from `RuleGroup.rules`) that were followed or broken */
+export interface TradeRuleCompliance {
+  followed: string[];
+  broken: string[];
+}
+
+export type TradeLegSide = "entry" | "exit";
+
+export interface TradeLeg {
+  id: string;
+  tradeId: string;
+  side: TradeLegSide;
+  price: number;
+  quantity: number;
+  executedDate: string; // YYYY-MM-DD
+  executedTime?: string; // HH:mm:ss
+  pnl?: number; // Realized PnL reported for exit legs (before commission/swap)
+  createdAt?: string;
+}
+
 export interface TradeLite {
   id: string;
   entryDate: string;
@@ -102,6 +164,8 @@ export interface TradeLite {
   session?: string;
   commission?: number;
   swap?: number;
+  ruleCompliance?: TradeRuleCompliance;
+  playbookVersion?: number;
 }
 
 export interface TradeResponse {
@@ -181,10 +245,25 @@ export interface Playbook {
   icon: string;
   color: string;
   ruleGroups: RuleGroup[];
+  currentVersion?: number; // Latest of the immutable versions (starts at 1)
+  sourcePlaybookId?: string; // Community playbook this one was cloned from
+  sourceVersion?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Immutable snapshot of a playbook, created whenever its name, description or rules change */
+export interface PlaybookVersion {
+  id: string;
+  playbookId: string;
+  version: number;
+  name: string;
+  description?: string;
+  ruleGroups: RuleGroup[];
+  changelog?: string;
+  createdAt: string;
+}
+
 export interface PlaybookStats {
   id?: string;
   name: string;
@@ -227,6 +306,154 @@ export interface Settings {
   updatedAt: string;
 }
 
+// ============================================
+// IMPORT PROFILES
+// ============================================
+
+/** Which file column feeds each trade field (empty string = not mapped) */
+export interface ImportColumnMapping {
+  entryDate: string;
+  symbol: string;
+  direction: string;
+  volume: string;
+  entryPrice: string;
+  exitDate: string;
+  exitPrice: string;
+  profit: string;
+  commission: string;
+  swap: string;
+  sl: string;
+  tp: string;
+}
+
+export type ImportDecimalSeparator = "." | ",";
+
+/** Parsing options stored in an import profile */
+export interface ImportProfileSettings {
+  mapping: ImportColumnMapping;
+  /** dayjs format (e.g. "DD/MM/YYYY HH:mm"); empty = auto-detect */
+  dateFormat: string;
+  /** IANA timezone of the file's timestamps */
+  timezone: string;
+  decimalSeparator: ImportDecimalSeparator;
+  /** Broker symbol -> journal symbol (e.g. "US100.cash" -> "NQ") */
+  symbolMap: Record<string, string>;
+  /** Words the broker uses for each direction (matched case-insensitively) */
+  directionVocabulary: {
+    long: string[];
+    short: string[];
+  };
+}
+
+/** Named import profile saved per user, auto-selected by header fingerprint */
+export interface ImportProfile extends ImportProfileSettings {
+  id: string;
+  userId: string;
+  name: string;
+  headerFingerprint: string;
+  headers: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================
+// IMPORT BATCHES
+// ============================================
+
+export type ImportBatchStatus = "applied" | "rolled_back";
+
+/** Broker-sourced trade fields a re-import may update on an existing trade */
+export type ImportTrackedField =
+  | "exitDate"
+  | "exitTime"
+  | "exitPrice"
+  | "lot"
+  | "pnl"
+  | "commission"
+  | "swap"
+  | "stopLoss"
+  | "takeProfit"
+  | "outcome";
+
+export type ImportSnapshotValue = string | number | null;
+
+/** Tracked values of a trade as last imported (normalized, null = empty) */
+export type ImportSnapshot = Record<ImportTrackedField, ImportSnapshotValue>;
+
+/** Existing trade as compared by the import dry run */
+export interface ImportCandidate extends Pick<
+  Trade,
+  | "id"
+  | "symbol"
+  | "type"
+  | "entryPrice"
+  | "entryDate"
+  | "entryTime"
+  | "exitDate"
+  | "exitTime"
+  | "exitPrice"
+  | "lot"
+  | "pnl"
+  | "commission"
+  | "swap"
+  | "stopLoss"
+  | "takeProfit"
+  | "outcome"
+> {
+  /** null = created manually or imported before import batches existed */
+  importSnapshot: ImportSnapshot | null;
+}
+
+/** One confirmed trade import; its trades can be listed and rolled back together */
+export interface ImportBatch {
+  id: string;
+  userId: string;
+  accountId: string;
+  /** Parser that read the file (metatrader, ninjatrader, ibkr...) */
+  source: string;
+  fileName?: string;
+  status: ImportBatchStatus;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  /** Deleted the account's trades first ("Substituir Tudo"); cannot be rolled back */
+  replacedExisting: boolean;
+  createdAt: string;
+  rolledBackAt?: string;
+}
+
+// ============================================
+// TRADE PLANS
+// ============================================
+
+export type TradePlanStatus = "planned" | "executed" | "cancelled";
+
+/** Pre-trade ticket saved from the Pre-Flight Checklist and converted into a trade */
+export interface TradePlan {
+  id: string;
+  userId: string;
+  accountId: string;
+  symbol: string;
+  type: "Long" | "Short";
+  plannedEntry: number;
+  plannedStop: number;
+  plannedTarget: number;
+  plannedLot: number;
+  playbookId?: string;
+  strategy?: string; // Playbook name when the plan was saved
+  checkedRules: string[];
+  totalRules: number;
+  bullishArgs: string[];
+  bearishArgs: string[];
+  bullishPct?: number; // 0-100
+  probabilityLabel?: string;
+  notes?: string;
+  status: TradePlanStatus;
+  tradeId?: string; // Trade that executed the plan
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ============================================
 // ENUMS E CONSTANTES
 // ============================================
@@ -250,6 +477,41 @@ export const DEFAULT_STRATEGIES = ["Pullback", "Breakout", "Reversal", "Trend Fo
 
 export const DEFAULT_SETUPS = ["Pivô de Alta", "Pivô de Baixa", "FVG", "Order Block", "Breaker"];
 
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  timezone: "America/Sao_Paulo",
+  customSessions: [],
+};
+
+export const DEFAULT_NEWS_SETTINGS: NewsSettings = {
+  minutesBefore: 30,
+  minutesAfter: 30,
+  impacts: ["high", "medium"],
+};
+
+export const DEFAULT_SIZING_SETTINGS: SizingSettings = {
+  method: "fixed_fractional",
+  riskPercent: 1,
+  riskAmount: 100,
+  kellyFraction: 0.25,
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  disabledTypes: [],
+};
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  frequency: "off",
+  channels: ["email"],
+};
+
+export const DEFAULT_NEWS_BLACKOUT_RULE: NewsBlackoutRule = {
+  enabled: true,
+  currencies: ["USD"],
+  impacts: ["high"],
+  minutesBefore: 15,
+  minutesAfter: 15,
+};
+
 // ============================================
 // HELPER TYPES
 // ============================================
@@ -305,6 +567,97 @@ export interface Asset {
   multiplier: number;
 }
 
+/** Brokerage and ISS charged by a broker, used to estimate B3 trading costs */
+export interface BrokerFeeProfile {
+  name: string;
+  /** R$ per trade (round trip) */
+  brokeragePerTrade: number;
+  /** R$ per contract/lot, on top of the per-trade fee */
+  brokeragePerContract: number;
+  /** ISS over brokerage, % */
+  issPct: number;
+}
+
+export interface BrokerFeeSettings {
+  brokers: BrokerFeeProfile[];
+  /** Name of the broker selected by default */
+  defaultBroker?: string;
+}
+
+/** Time window of a trading session, in the wall clock of an IANA timezone */
+export interface SessionWindow {
+  name: string;
+  /** IANA timezone of start/end (e.g. "America/New_York") */
+  timezone: string;
+  /** HH:mm, inclusive */
+  start: string;
+  /** HH:mm, exclusive; earlier than start for sessions that cross midnight */
+  end: string;
+}
+
+export interface SessionSettings {
+  /** IANA timezone in which the user records entry times */
+  timezone: string;
+  /** User sessions (killzones), checked before the market sessions */
+  customSessions: SessionWindow[];
+}
+
+export type NewsImpact = "high" | "medium" | "low";
+
+/** Window around the entry in which an economic event marks a trade as "traded during news" */
+export interface NewsSettings {
+  /** Minutes before the entry */
+  minutesBefore: number;
+  /** Minutes after the entry */
+  minutesAfter: number;
+  /** Event impacts that count as news */
+  impacts: NewsImpact[];
+  /** No-entry rule around releases; DEFAULT_NEWS_BLACKOUT_RULE when missing */
+  blackout?: NewsBlackoutRule;
+}
+
+/** Window around economic releases in which new entries are discouraged */
+export interface NewsBlackoutRule {
+  enabled: boolean;
+  /** Event currencies; empty uses the currencies of the traded symbol */
+  currencies: string[];
+  impacts: NewsImpact[];
+  /** Minutes before the release */
+  minutesBefore: number;
+  /** Minutes after the release */
+  minutesAfter: number;
+}
+
+/** How the position size calculator turns the balance into the risk of a trade */
+export type PositionSizingMethod = "fixed_fractional" | "fixed_amount" | "kelly";
+
+export interface SizingSettings {
+  method: PositionSizingMethod;
+  /** Risk per trade in % of the balance; also the cap of the Kelly risk */
+  riskPercent: number;
+  /** Risk per trade in the account currency (fixed_amount) */
+  riskAmount: number;
+  /** Fraction of the full Kelly to risk (0.25 = quarter Kelly) */
+  kellyFraction: number;
+}
+
+export interface NotificationSettings {
+  /** Types that are not written to the notification center */
+  disabledTypes: NotificationType[];
+}
+
+export type DigestFrequency = "off" | "daily" | "weekly";
+
+/** Where the digest is delivered outside the app */
+export type DigestChannelKind = "email" | "webhook";
+
+export interface DigestSettings {
+  frequency: DigestFrequency;
+  channels: DigestChannelKind[];
+  /** Receives the digest as JSON (webhook channel) */
+  webhookUrl?: string;
+}
+
 export interface UserSettings {
   id?: string;
   user_id?: string;
@@ -313,6 +666,12 @@ export interface UserSettings {
   assets: Asset[];
   strategies: string[];
   setups: string[];
+  brokerFees?: BrokerFeeSettings;
+  sessionSettings?: SessionSettings;
+  newsSettings?: NewsSettings;
+  sizingSettings?: SizingSettings;
+  notificationSettings?: NotificationSettings;
+  digestSettings?: DigestSettings;
   created_at?: string;
   updated_at?: string;
 }
@@ -433,6 +792,25 @@ export interface MenteeOverview {
   acceptedAt?: string; // Access start date
 }
 
+/** Trade fields used to compare mentees in the cohort analytics */
+export interface CohortTrade {
+  entryDate: string; // YYYY-MM-DD
+  pnl: number;
+  outcome?: Trade["outcome"];
+  rMultiple?: number;
+  planAdherence?: Trade["planAdherence"];
+  ruleCompliance?: TradeRuleCompliance;
+}
+
+/** Trades and journal days of a mentee in the accounts the mentor can see */
+export interface MenteeCohortActivity {
+  menteeId: string;
+  menteeName: string;
+  trades: CohortTrade[];
+  /** Days (YYYY-MM-DD) with a journal entry */
+  journalDates: string[];
+}
+
 /**
  * Permissão de acesso do mentor a uma carteira específica do mentorado
  */
@@ -458,6 +836,12 @@ export interface MentorReview {
   content: string;
   rating?: number;
   isRead: boolean;
+  /** Status of the review thread */
+  status: ReviewThreadStatus;
+  statusChangedAt?: string;
+  statusChangedBy?: string;
+  /** Last reply, edit or status change */
+  lastActivityAt?: string;
   createdAt: string;
   updatedAt: string;
   // Context data for notifications
@@ -465,6 +849,92 @@ export interface MentorReview {
   entryAccountId?: string;
 }
 
+/** open → acknowledged (by the mentee) → resolved; either participant can reopen */
+export type ReviewThreadStatus = "open" | "acknowledged" | "resolved";
+
+/** Thread fields kept by the server, not given when creating a review */
+export type ReviewThreadFields =
+  | "status"
+  | "statusChangedAt"
+  | "statusChangedBy"
+  | "lastActivityAt";
+
+/** Reply in the thread of a mentor review, by the mentor or the mentee */
+export interface ReviewReply {
+  id: string;
+  reviewId: string;
+  authorId: string;
+  authorName?: string;
+  content: string;
+  /** Ids of the users @mentioned */
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Previous text of a review or reply, kept when it is edited */
+export interface ReviewEdit {
+  id: string;
+  reviewId: string;
+  /** Undefined when the review itself was edited */
+  replyId?: string;
+  editorId: string;
+  editorName?: string;
+  previousContent: string;
+  editedAt: string;
+}
+
+/** User that can be @mentioned in the threads of a mentee */
+export interface MentionCandidate {
+  userId: string;
+  /** Handle typed after the @ (email local part) */
+  handle: string;
+}
+
+/** Open thread in the mentor inbox */
+export interface ReviewInboxItem {
+  review: MentorReview;
+  menteeName: string;
+  replyCount: number;
+  lastReply?: ReviewReply;
+  /** The mentee spoke last */
+  awaitingMentor: boolean;
+}
+
+/** Point on an image, as a fraction (0–1) of its width and height */
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export type ImageAnnotationKind = "arrow" | "box" | "hline" | "freehand" | "text";
+
+/** Vector shape drawn over an image, independent of its resolution */
+export type ImageAnnotationShape =
+  | { kind: "arrow"; from: AnnotationPoint; to: AnnotationPoint }
+  | { kind: "box"; from: AnnotationPoint; to: AnnotationPoint }
+  /** Horizontal price line across the whole image */
+  | { kind: "hline"; y: number }
+  | { kind: "freehand"; points: AnnotationPoint[] }
+  /** Pin with a short label */
+  | { kind: "text"; at: AnnotationPoint; text: string };
+
+/** Mentor annotation over a journal image, kept apart from the image file */
+export interface ImageAnnotation {
+  id: string;
+  imageId: string;
+  journalEntryId: string;
+  authorId: string;
+  authorName?: string;
+  /** Review the annotation belongs to */
+  reviewId?: string;
+  shape: ImageAnnotationShape;
+  color: string;
+  comment?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ============================================
 // COMMUNITY TYPES
 // ============================================
@@ -525,14 +995,29 @@ export interface LeaderboardOptIn {
   updatedAt: string;
 }
 
+/** Events written to the notification center by the server actions */
+export type NotificationType =
+  | "invite"
+  | "feedback"
+  | "trade_comment"
+  | "share_view"
+  | "prop_rule_breach"
+  | "import_completed"
+  | "review_reply"
+  | "mention";
+
 export interface Notification {
   id: string;
-  type: "invite" | "update" | "announcement" | "feedback";
+  /** "announcement" = static app announcements, not stored */
+  type: NotificationType | "announcement";
   title: string;
   message: string;
-  timestamp: Date;
+  /** App path the notification leads to */
+  link?: string;
+  data?: Record<string, unknown>; // Type-specific payload (invite token, ids, counts)
   read: boolean;
-  data?: unknown; // Flexible data payload (MentorInvite, ReviewContext, etc)
+  archived: boolean;
+  createdAt: string;
 }
 
 // ============================================
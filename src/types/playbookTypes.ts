@@ -1,8 +1,10 @@
-import type { Trade } from "@/types";
+import type { PlaybookVersion, RuleGroup, Trade } from "@/types";
 
 export interface PlaybookReviewTabProps {
   trades: Trade[];
   currency: string;
+  ruleGroups?: RuleGroup[]; // Rules of the playbook, for performance by rule
+  versions?: PlaybookVersion[]; // Playbook history, for stats per version
 }
 
 export type ViewMode = "htf" | "heatmap" | "report";
@@ -83,3 +85,15 @@ export interface HtfExpandedMetric extends BaseStats {
   htf: string;
   conditionBreakdown: ConditionMetric[];
 }
+
+// ===== RULE COMPLIANCE: trades that followed a playbook rule vs. trades that broke it =====
+export interface RuleComplianceStats extends BaseStats {
+  expectancy: number; // Average PnL per closed trade
+}
+
+export interface RuleMetric {
+  rule: string;
+  group: string;
+  followed: RuleComplianceStats;
+  broken: RuleComplianceStats;
+}
@@ -0,0 +1,52 @@
+-- =============================================
+-- Migration: Create trade_legs table
+-- Description: Partial fills (scale-ins and partial exits) of a trade.
+-- The flat price fields on trades keep the weighted averages of these legs.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS trade_legs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+  side VARCHAR(10) NOT NULL CHECK (side IN ('entry', 'exit')),
+  price DECIMAL(15, 5) NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL CHECK (quantity > 0),
+  executed_date DATE NOT NULL,
+  executed_time TEXT,
+  pnl DECIMAL(15, 2),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_legs_trade_id ON trade_legs(trade_id);
+
+-- =============================================
+-- RLS Policies
+-- Access follows the ownership of the parent trade
+-- =============================================
+ALTER TABLE trade_legs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own trade legs"
+  ON trade_legs FOR SELECT
+  USING (
+    trade_id IN (SELECT id FROM trades WHERE user_id = (select auth.uid()))
+  );
+
+CREATE POLICY "Users can create own trade legs"
+  ON trade_legs FOR INSERT
+  WITH CHECK (
+    trade_id IN (SELECT id FROM trades WHERE user_id = (select auth.uid()))
+  );
+
+CREATE POLICY "Users can update own trade legs"
+  ON trade_legs FOR UPDATE
+  USING (
+    trade_id IN (SELECT id FROM trades WHERE user_id = (select auth.uid()))
+  );
+
+CREATE POLICY "Users can delete own trade legs"
+  ON trade_legs FOR DELETE
+  USING (
+    trade_id IN (SELECT id FROM trades WHERE user_id = (select auth.uid()))
+  );
+
+COMMENT ON TABLE trade_legs IS
+  'Partial fills of a trade (entry = scale-in, exit = partial exit); pnl is the realized result of exit legs before costs';
@@ -0,0 +1,49 @@
+-- =============================================
+-- Migration: Prop firm accounts
+-- Description: Adds the account type and prop firm rules to accounts, plus
+-- the table where the rule engine persists breaches (and the trade that caused them).
+-- =============================================
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS account_type VARCHAR(20) NOT NULL DEFAULT 'real'
+    CHECK (account_type IN ('real', 'demo', 'prop_firm')),
+  ADD COLUMN IF NOT EXISTS prop_rules JSONB;
+
+COMMENT ON COLUMN accounts.prop_rules IS
+  'Prop firm rules: drawdownType (static | trailing | eod_trailing), dailyLossPercent, profitTargetPercent, minTradingDays, consistencyPercent. Max drawdown comes from max_drawdown.';
+
+CREATE TABLE IF NOT EXISTS prop_rule_breaches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  trade_id UUID REFERENCES trades(id) ON DELETE SET NULL,
+  rule VARCHAR(30) NOT NULL
+    CHECK (rule IN ('daily_loss', 'max_drawdown', 'profit_target', 'min_trading_days', 'consistency')),
+  breach_date DATE NOT NULL,
+  value DECIMAL(15, 2) NOT NULL,
+  limit_value DECIMAL(15, 2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prop_rule_breaches_account_date
+  ON prop_rule_breaches(account_id, breach_date);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+ALTER TABLE prop_rule_breaches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own rule breaches"
+  ON prop_rule_breaches FOR SELECT
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can create own rule breaches"
+  ON prop_rule_breaches FOR INSERT
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete own rule breaches"
+  ON prop_rule_breaches FOR DELETE
+  USING (user_id = (select auth.uid()));
+
+COMMENT ON TABLE prop_rule_breaches IS
+  'Prop firm rule breaches, rebuilt by the rule engine whenever the account is evaluated';
@@ -0,0 +1,45 @@
+-- =============================================
+-- Migration: Import profiles
+-- Description: Named per-user import profiles (column mapping, date format,
+-- timezone, decimal separator, symbol map, direction vocabulary) that are
+-- auto-selected on upload by the file's header fingerprint.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  header_fingerprint VARCHAR(64) NOT NULL,
+  headers TEXT[] NOT NULL DEFAULT '{}',
+  settings JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT import_profiles_user_name_unique UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_profiles_user_fingerprint
+  ON import_profiles(user_id, header_fingerprint);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+ALTER TABLE import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import profiles"
+  ON import_profiles FOR SELECT
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can create own import profiles"
+  ON import_profiles FOR INSERT
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update own import profiles"
+  ON import_profiles FOR UPDATE
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete own import profiles"
+  ON import_profiles FOR DELETE
+  USING (user_id = (select auth.uid()));
+
+COMMENT ON COLUMN import_profiles.settings IS
+  'Parsing options: mapping, dateFormat, timezone, decimalSeparator (. | ,), symbolMap, directionVocabulary { long, short }';
@@ -0,0 +1,57 @@
+-- =============================================
+-- Migration: Import batches
+-- Description: Every confirmed trade import is recorded as a batch. Trades keep
+-- the batch that last wrote them and a snapshot of the imported values, so a
+-- re-import can tell duplicates, broker-side changes and user edits apart, and
+-- a whole import can be listed and rolled back.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  source VARCHAR(30) NOT NULL,
+  file_name TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'applied'
+    CHECK (status IN ('applied', 'rolled_back')),
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  replaced_existing BOOLEAN NOT NULL DEFAULT FALSE,
+  previous_values JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  rolled_back_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_account_created
+  ON import_batches(account_id, created_at DESC);
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS import_snapshot JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_trades_import_batch ON trades(import_batch_id);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import batches"
+  ON import_batches FOR SELECT
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can create own import batches"
+  ON import_batches FOR INSERT
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update own import batches"
+  ON import_batches FOR UPDATE
+  USING (user_id = (select auth.uid()));
+
+COMMENT ON COLUMN import_batches.previous_values IS
+  'Values of the trades this import overwrote: [{ tradeId, values, legs, importBatchId, importSnapshot }]';
+COMMENT ON COLUMN import_batches.replaced_existing IS
+  'The import deleted the account''s trades first ("Substituir Tudo"); such batches cannot be rolled back';
+COMMENT ON COLUMN trades.import_snapshot IS
+  'Broker values as last imported (exit, lot, prices, pnl, fees); differs from the row when the user edited it';
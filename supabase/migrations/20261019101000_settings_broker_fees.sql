@@ -0,0 +1,11 @@
+-- =============================================
+-- Migration: Broker fee settings
+-- Description: Stores the brokerage and ISS of each broker in the user's global
+-- settings, used with the B3 fee schedule to estimate trading costs for taxes.
+-- =============================================
+
+ALTER TABLE settings
+  ADD COLUMN IF NOT EXISTS broker_fees JSONB;
+
+COMMENT ON COLUMN settings.broker_fees IS
+  'Broker fee profiles: { brokers: [{ name, brokeragePerTrade, brokeragePerContract, issPct }], defaultBroker }';
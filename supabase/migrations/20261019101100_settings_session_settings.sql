@@ -0,0 +1,11 @@
+-- =============================================
+-- Migration: Session settings
+-- Description: Stores the user's IANA timezone and custom trading sessions
+-- (killzones) in the global settings, used to tag trades with their session.
+-- =============================================
+
+ALTER TABLE settings
+  ADD COLUMN IF NOT EXISTS session_settings JSONB;
+
+COMMENT ON COLUMN settings.session_settings IS
+  'Session detection: { timezone, customSessions: [{ name, timezone, start, end }] }';
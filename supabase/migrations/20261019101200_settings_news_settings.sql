@@ -0,0 +1,11 @@
+-- =============================================
+-- Migration: News settings
+-- Description: Stores the window around the trade entry in which economic
+-- calendar events flag a trade as "traded during news".
+-- =============================================
+
+ALTER TABLE settings
+  ADD COLUMN IF NOT EXISTS news_settings JSONB;
+
+COMMENT ON COLUMN settings.news_settings IS
+  'News impact window: { minutesBefore, minutesAfter, impacts: ["high" | "medium" | "low"] }';
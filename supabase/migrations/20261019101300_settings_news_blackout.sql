@@ -0,0 +1,8 @@
+-- =============================================
+-- Migration: News blackout rule
+-- Description: The news settings JSON gains an optional blackout rule that warns
+-- about entries around economic releases. No schema change, documentation only.
+-- =============================================
+
+COMMENT ON COLUMN settings.news_settings IS
+  'News impact window: { minutesBefore, minutesAfter, impacts, blackout?: { enabled, currencies, impacts, minutesBefore, minutesAfter } }';
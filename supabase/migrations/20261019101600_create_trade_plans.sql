@@ -0,0 +1,62 @@
+-- =============================================
+-- Migration: Trade plans
+-- Description: Pre-trade tickets saved from the Pre-Flight Checklist (planned
+-- entry, stop, target and size, playbook, checked rules and pro/contra
+-- arguments). A plan is converted into a trade and the plan-vs-execution
+-- comparison fills trades.plan_adherence automatically.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS trade_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  playbook_id UUID REFERENCES playbooks(id) ON DELETE SET NULL,
+  trade_id UUID UNIQUE REFERENCES trades(id) ON DELETE SET NULL,
+  symbol TEXT NOT NULL,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('Long', 'Short')),
+  planned_entry DECIMAL(15, 5) NOT NULL,
+  planned_stop DECIMAL(15, 5) NOT NULL,
+  planned_target DECIMAL(15, 5) NOT NULL,
+  planned_lot DECIMAL(10, 2) NOT NULL,
+  strategy TEXT,
+  checked_rules TEXT[] NOT NULL DEFAULT '{}',
+  total_rules INTEGER NOT NULL DEFAULT 0,
+  bullish_args TEXT[] NOT NULL DEFAULT '{}',
+  bearish_args TEXT[] NOT NULL DEFAULT '{}',
+  bullish_pct DECIMAL(5, 2),
+  probability_label TEXT,
+  notes TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'planned'
+    CHECK (status IN ('planned', 'executed', 'cancelled')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_plans_account_status
+  ON trade_plans(account_id, status, created_at DESC);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+ALTER TABLE trade_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own trade plans"
+  ON trade_plans FOR SELECT
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can create own trade plans"
+  ON trade_plans FOR INSERT
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update own trade plans"
+  ON trade_plans FOR UPDATE
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete own trade plans"
+  ON trade_plans FOR DELETE
+  USING (user_id = (select auth.uid()));
+
+COMMENT ON COLUMN trade_plans.checked_rules IS
+  'Checklist rules ticked when the plan was saved (exit criteria are informational and not included)';
+COMMENT ON COLUMN trade_plans.bullish_pct IS
+  'Share of bullish arguments (0-100) from the arguments calculator';
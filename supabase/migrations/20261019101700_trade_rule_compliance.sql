@@ -0,0 +1,12 @@
+-- =============================================
+-- Migration: Trade rule compliance
+-- Description: Each trade records which rules of its playbook were followed
+-- and which were broken, so playbook reports can compare the performance of
+-- trades that respected a rule against the ones that broke it.
+-- =============================================
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS rule_compliance JSONB;
+
+COMMENT ON COLUMN trades.rule_compliance IS
+  'Playbook rules of the trade: {"followed": [rule text], "broken": [rule text]}';
@@ -0,0 +1,57 @@
+-- =============================================
+-- Migration: Playbook versions
+-- Description: Editing a playbook's name, description or rules creates a new
+-- immutable version with a changelog instead of overwriting the rules in place.
+-- Trades are pinned to the version active at their entry date, and cloned
+-- community playbooks keep the source playbook and version they came from.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS playbook_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  playbook_id UUID NOT NULL REFERENCES playbooks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  rule_groups JSONB NOT NULL DEFAULT '[]',
+  changelog TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (playbook_id, version)
+);
+
+ALTER TABLE playbooks
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS source_playbook_id UUID,
+  ADD COLUMN IF NOT EXISTS source_version INTEGER;
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS playbook_version INTEGER;
+
+-- Existing playbooks start at version 1 with their current rules
+INSERT INTO playbook_versions (playbook_id, user_id, version, name, description, rule_groups, created_at)
+SELECT id, user_id, 1, name, description, COALESCE(rule_groups, '[]'::jsonb), created_at
+FROM playbooks
+ON CONFLICT (playbook_id, version) DO NOTHING;
+
+UPDATE trades t
+SET playbook_version = 1
+FROM playbooks p
+WHERE t.strategy = p.name AND t.user_id = p.user_id AND t.playbook_version IS NULL;
+
+-- =============================================
+-- RLS Policies (versions are immutable: no UPDATE policy)
+-- =============================================
+ALTER TABLE playbook_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own playbook versions"
+  ON playbook_versions FOR SELECT
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can create own playbook versions"
+  ON playbook_versions FOR INSERT
+  WITH CHECK (user_id = (select auth.uid()));
+
+COMMENT ON COLUMN playbooks.source_playbook_id IS
+  'Community playbook this one was cloned from (no FK: the source can be deleted)';
+COMMENT ON COLUMN trades.playbook_version IS
+  'Version of the strategy playbook active at the trade entry date';
@@ -0,0 +1,11 @@
+-- =============================================
+-- Migration: Position sizing settings
+-- Description: Sizing method and risk per trade used by the position size
+-- calculator (trade form and checklist) and to flag trades that risked more
+-- than configured.
+-- =============================================
+
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS sizing_settings JSONB;
+
+COMMENT ON COLUMN settings.sizing_settings IS
+  'Position sizing: { method: fixed_fractional | fixed_amount | kelly, riskPercent, riskAmount, kellyFraction }';
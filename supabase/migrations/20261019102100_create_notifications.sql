@@ -0,0 +1,52 @@
+-- =============================================
+-- Migration: Notifications
+-- Description: Persistent notification center. Server actions write an entry
+-- when something happens for the user (mentor review, mentor invite, trade
+-- comment, shared journal view, prop rule breach, import completed); the bell
+-- and the notifications modal read, mark and archive them.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type VARCHAR(30) NOT NULL
+    CHECK (type IN ('invite', 'feedback', 'trade_comment', 'share_view', 'prop_rule_breach', 'import_completed')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  link TEXT,
+  data JSONB,
+  read_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON notifications(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON notifications(user_id)
+  WHERE read_at IS NULL AND archived_at IS NULL;
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+-- Notifications are created by the server for other users (e.g. the mentee of
+-- a review), so only reads and updates are open to the owner.
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  USING (user_id = (select auth.uid()));
+
+COMMENT ON COLUMN notifications.link IS
+  'App path the notification leads to (e.g. the dashboard day of a review)';
+COMMENT ON COLUMN notifications.data IS
+  'Type-specific payload (invite token, review/trade/breach ids, import counts)';
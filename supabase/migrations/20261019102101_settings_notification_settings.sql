@@ -0,0 +1,11 @@
+-- =============================================
+-- Migration: Notification settings
+-- Description: Per-type notification preferences. Disabled types are not
+-- written to the notification center.
+-- =============================================
+
+ALTER TABLE settings
+  ADD COLUMN IF NOT EXISTS notification_settings JSONB;
+
+COMMENT ON COLUMN settings.notification_settings IS
+  'Notification preferences: { disabledTypes: ["invite" | "feedback" | "trade_comment" | "share_view" | "prop_rule_breach" | "import_completed"] }';
@@ -0,0 +1,19 @@
+-- =============================================
+-- Migration: Digest settings
+-- Description: Daily/weekly digest sent outside the app (email, webhook) with
+-- unread reviews, trade comments, pending invites and a weekly summary.
+-- =============================================
+
+ALTER TABLE settings
+  ADD COLUMN IF NOT EXISTS digest_settings JSONB,
+  ADD COLUMN IF NOT EXISTS digest_sent_at TIMESTAMPTZ;
+
+-- Subscribers are looked up by the digest job
+CREATE INDEX IF NOT EXISTS idx_settings_digest_enabled
+  ON settings (user_id)
+  WHERE digest_settings IS NOT NULL AND digest_settings->>'frequency' <> 'off';
+
+COMMENT ON COLUMN settings.digest_settings IS
+  'Digest preferences: { frequency: "off" | "daily" | "weekly", channels: ["email" | "webhook"], webhookUrl? }';
+COMMENT ON COLUMN settings.digest_sent_at IS
+  'When the last digest was delivered; new trade comments are counted from here';
@@ -0,0 +1,115 @@
+-- =============================================
+-- Migration: Mentor review threads
+-- Description: A mentor review becomes the root of a conversation. The mentee
+-- and the mentor reply to it, replies can @mention the mentee and their
+-- mentors, every edit keeps the previous text, and each thread has a status
+-- (open, acknowledged by the mentee, resolved) that feeds the mentor inbox.
+-- =============================================
+
+ALTER TABLE mentor_reviews
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS status_changed_by UUID,
+  ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing reviews were last active when they were last edited
+UPDATE mentor_reviews
+SET last_activity_at = COALESCE(updated_at, created_at)
+WHERE last_activity_at IS NULL OR last_activity_at > COALESCE(updated_at, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_mentor_reviews_mentor_open
+  ON mentor_reviews(mentor_id, last_activity_at DESC)
+  WHERE status <> 'resolved';
+
+CREATE TABLE IF NOT EXISTS mentor_review_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES mentor_reviews(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentor_review_replies_review
+  ON mentor_review_replies(review_id, created_at);
+
+CREATE TABLE IF NOT EXISTS mentor_review_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES mentor_reviews(id) ON DELETE CASCADE,
+  reply_id UUID REFERENCES mentor_review_replies(id) ON DELETE CASCADE,
+  editor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  previous_content TEXT NOT NULL,
+  edited_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentor_review_edits_review
+  ON mentor_review_edits(review_id, edited_at);
+
+-- Replies and mentions notify the participants
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('invite', 'feedback', 'trade_comment', 'share_view', 'prop_rule_breach',
+    'import_completed', 'review_reply', 'mention'));
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+-- Participants of a thread are the mentor and the mentee of its review.
+-- Edits are history: they are written with the reply or review change and
+-- never updated.
+ALTER TABLE mentor_review_replies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mentor_review_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view review replies"
+  ON mentor_review_replies FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM mentor_reviews r
+    WHERE r.id = mentor_review_replies.review_id
+      AND (select auth.uid()) IN (r.mentor_id, r.mentee_id)
+  ));
+
+CREATE POLICY "Participants can reply to reviews"
+  ON mentor_review_replies FOR INSERT
+  WITH CHECK (
+    author_id = (select auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM mentor_reviews r
+      WHERE r.id = mentor_review_replies.review_id
+        AND (select auth.uid()) IN (r.mentor_id, r.mentee_id)
+    )
+  );
+
+CREATE POLICY "Authors can update own review replies"
+  ON mentor_review_replies FOR UPDATE
+  USING (author_id = (select auth.uid()));
+
+CREATE POLICY "Authors can delete own review replies"
+  ON mentor_review_replies FOR DELETE
+  USING (author_id = (select auth.uid()));
+
+CREATE POLICY "Participants can view review edits"
+  ON mentor_review_edits FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM mentor_reviews r
+    WHERE r.id = mentor_review_edits.review_id
+      AND (select auth.uid()) IN (r.mentor_id, r.mentee_id)
+  ));
+
+CREATE POLICY "Editors can record own edits"
+  ON mentor_review_edits FOR INSERT
+  WITH CHECK (editor_id = (select auth.uid()));
+
+COMMENT ON COLUMN settings.notification_settings IS
+  'Notification preferences: { disabledTypes: ["invite" | "feedback" | "trade_comment" | "share_view" | "prop_rule_breach" | "import_completed" | "review_reply" | "mention"] }';
+COMMENT ON COLUMN mentor_reviews.status IS
+  'Thread status: open, acknowledged (by the mentee) or resolved';
+COMMENT ON COLUMN mentor_reviews.status_changed_by IS
+  'User who last changed the status (no FK: kept if the user is deleted)';
+COMMENT ON COLUMN mentor_reviews.last_activity_at IS
+  'Last reply, edit or status change; orders the mentor inbox';
+COMMENT ON COLUMN mentor_review_replies.mentions IS
+  'Users @mentioned in the reply (the mentee and their mentors)';
+COMMENT ON COLUMN mentor_review_edits.reply_id IS
+  'Edited reply; NULL when the edit was to the review itself';
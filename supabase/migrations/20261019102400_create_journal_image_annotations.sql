@@ -0,0 +1,76 @@
+-- =============================================
+-- Migration: Journal image annotations
+-- Description: Mentors draw over the chart screenshots of a journal entry
+-- (arrows, boxes, horizontal price lines, freehand and text pins). Trades
+-- have no images of their own: their screenshots are the images of the
+-- journal entry linked to them. Shapes are stored as vector data with
+-- coordinates relative to the image, apart from the original WebP, and each
+-- one can carry a comment tied to a review of the entry.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS journal_image_annotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  image_id UUID NOT NULL REFERENCES journal_images(id) ON DELETE CASCADE,
+  journal_entry_id UUID NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  review_id UUID REFERENCES mentor_reviews(id) ON DELETE SET NULL,
+  kind VARCHAR(20) NOT NULL
+    CHECK (kind IN ('arrow', 'box', 'hline', 'freehand', 'text')),
+  shape JSONB NOT NULL,
+  color VARCHAR(7) NOT NULL DEFAULT '#f87171',
+  comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_image_annotations_entry
+  ON journal_image_annotations(journal_entry_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_journal_image_annotations_review
+  ON journal_image_annotations(review_id);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+-- The owner of the entry sees every annotation on it. Mentors with an
+-- accepted invite that allows comments annotate and manage their own.
+ALTER TABLE journal_image_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and authors can view image annotations"
+  ON journal_image_annotations FOR SELECT
+  USING (
+    author_id = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM journal_entries e
+      WHERE e.id = journal_image_annotations.journal_entry_id
+        AND e.user_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Mentors can annotate mentee images"
+  ON journal_image_annotations FOR INSERT
+  WITH CHECK (
+    author_id = (select auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM journal_entries e
+      JOIN mentor_invites i ON i.mentee_id = e.user_id
+      WHERE e.id = journal_image_annotations.journal_entry_id
+        AND i.mentor_id = (select auth.uid())
+        AND i.status = 'accepted'
+        AND i.permission IN ('comment', 'full')
+    )
+  );
+
+CREATE POLICY "Authors can update own image annotations"
+  ON journal_image_annotations FOR UPDATE
+  USING (author_id = (select auth.uid()));
+
+CREATE POLICY "Authors can delete own image annotations"
+  ON journal_image_annotations FOR DELETE
+  USING (author_id = (select auth.uid()));
+
+COMMENT ON COLUMN journal_image_annotations.shape IS
+  'Geometry by kind, coordinates as fractions (0-1) of the image: arrow/box { from, to }, hline { y }, freehand { points }, text { at, text }';
+COMMENT ON COLUMN journal_image_annotations.review_id IS
+  'Review the annotation comment belongs to; NULL for standalone annotations';
+COMMENT ON COLUMN journal_image_annotations.journal_entry_id IS
+  'Entry of the image, kept to load all annotations of an entry at once';